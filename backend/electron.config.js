@@ -39,15 +39,16 @@ const electronConfig = {
   setupBackend: async () => {
     try {
       // Importar y configurar la base de datos
-      const { initDatabase, createTables } = require("./src/config/database");
+      const { initDatabase } = require("./src/config/database");
+      const { runMigrations } = require("./src/utils/migration");
 
       // Inicializar base de datos
       await initDatabase();
       console.log("✅ Database initialized for Electron");
 
-      // Crear tablas si no existen
-      await createTables();
-      console.log("✅ Database tables created/verified");
+      // Crear o actualizar las tablas aplicando las migraciones pendientes
+      await runMigrations();
+      console.log("✅ Database migrations applied/verified");
 
       return true;
     } catch (error) {
@@ -0,0 +1,28 @@
+#!/usr/bin/env ts-node
+
+import fs from "fs";
+import path from "path";
+import { specs } from "../src/config/swagger";
+import { generateApiClient } from "../src/utils/apiClientCodegen";
+
+/**
+ * Genera el cliente TypeScript de la API a partir de la especificación
+ * OpenAPI (config/swagger.ts). Uso: npm run sdk:generate [-- <archivo>]
+ *
+ * Por defecto escribe el cliente que usa el frontend
+ */
+const DEFAULT_OUTPUT = path.join(
+  __dirname,
+  "../../frontend/src/lib/sdk/client.ts"
+);
+
+const output = path.resolve(process.argv[2] || DEFAULT_OUTPUT);
+
+try {
+  fs.mkdirSync(path.dirname(output), { recursive: true });
+  fs.writeFileSync(output, generateApiClient(specs));
+  console.log(`✅ Cliente generado en: ${output}`);
+} catch (error) {
+  console.error(`❌ Error generando el cliente: ${(error as Error).message}`);
+  process.exit(1);
+}
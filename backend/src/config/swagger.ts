@@ -1,3 +1,4 @@
+import path from "path";
 import swaggerJSDoc from "swagger-jsdoc";
 import swaggerUi from "swagger-ui-express";
 
@@ -18,6 +19,7 @@ const options = {
         - Creación de entidades dinámicas
         - Definición de campos personalizados
         - Establecimiento de relaciones entre entidades
+        - API de registros generada a partir de las entidades
         - Sistema de logging y analytics avanzado
         - API RESTful completamente documentada
       `,
@@ -33,10 +35,67 @@ const options = {
       },
     ],
     components: {
+      parameters: {
+        ListFilter: {
+          in: "query",
+          name: "filter",
+          style: "deepObject",
+          explode: true,
+          schema: { type: "object", additionalProperties: true },
+          description:
+            "Filtros por columna: filter[columna][operador]=valor (eq, ne, gt, gte, lt, lte, contains, starts_with, ends_with, in, nin, is_null). filter[or][0][...] y filter[and][0][...] agrupan condiciones",
+          example: { name: { contains: "user" } },
+        },
+        ListSort: {
+          in: "query",
+          name: "sort",
+          schema: { type: "string" },
+          description:
+            "Columnas de ordenación separadas por comas; el prefijo - indica orden descendente",
+          example: "-created_at,name",
+        },
+        PageSize: {
+          in: "query",
+          name: "page[size]",
+          schema: { type: "integer", minimum: 1, maximum: 500 },
+          description: "Cantidad de elementos por página",
+        },
+        PageNumber: {
+          in: "query",
+          name: "page[number]",
+          schema: { type: "integer", minimum: 1 },
+          description: "Número de página (paginación por offset)",
+        },
+        PageCursor: {
+          in: "query",
+          name: "page[cursor]",
+          schema: { type: "string" },
+          description:
+            "Cursor devuelto en X-Next-Cursor (paginación keyset, no combinable con page[number])",
+        },
+      },
+      headers: {
+        "X-Total-Count": {
+          description: "Total de elementos que cumplen el filtro",
+          schema: { type: "integer" },
+        },
+        "X-Page-Size": {
+          description: "Tamaño de página aplicado",
+          schema: { type: "integer" },
+        },
+        "X-Page-Number": {
+          description: "Número de página devuelto (paginación por offset)",
+          schema: { type: "integer" },
+        },
+        "X-Next-Cursor": {
+          description: "Cursor para obtener la página siguiente, si existe",
+          schema: { type: "string" },
+        },
+      },
       schemas: {
         Project: {
           type: "object",
-          required: ["name"],
+          required: ["id", "name", "created_at", "updated_at"],
           properties: {
             id: {
               type: "string",
@@ -53,14 +112,15 @@ const options = {
               type: "string",
               description: "Descripción opcional del proyecto",
               example: "Proyecto para gestionar usuarios y productos",
+              nullable: true,
             },
-            createdAt: {
+            created_at: {
               type: "string",
               format: "date-time",
               description: "Fecha de creación",
               example: "2024-01-01T00:00:00.000Z",
             },
-            updatedAt: {
+            updated_at: {
               type: "string",
               format: "date-time",
               description: "Última modificación",
@@ -70,7 +130,7 @@ const options = {
         },
         Entity: {
           type: "object",
-          required: ["projectId", "name"],
+          required: ["id", "project_id", "name", "created_at", "updated_at"],
           properties: {
             id: {
               type: "string",
@@ -78,7 +138,7 @@ const options = {
               description: "Identificador único de la entidad",
               example: "123e4567-e89b-12d3-a456-426614174001",
             },
-            projectId: {
+            project_id: {
               type: "string",
               format: "uuid",
               description: "ID del proyecto al que pertenece",
@@ -93,13 +153,14 @@ const options = {
               type: "string",
               description: "Descripción de la entidad",
               example: "Entidad para gestionar usuarios del sistema",
+              nullable: true,
             },
-            createdAt: {
+            created_at: {
               type: "string",
               format: "date-time",
               description: "Fecha de creación",
             },
-            updatedAt: {
+            updated_at: {
               type: "string",
               format: "date-time",
               description: "Última modificación",
@@ -108,14 +169,25 @@ const options = {
         },
         Field: {
           type: "object",
-          required: ["entityId", "name", "type"],
+          required: [
+            "id",
+            "entity_id",
+            "name",
+            "type",
+            "is_required",
+            "is_unique",
+            "is_primary_key",
+            "is_foreign_key",
+            "created_at",
+            "updated_at",
+          ],
           properties: {
             id: {
               type: "string",
               format: "uuid",
               description: "Identificador único del campo",
             },
-            entityId: {
+            entity_id: {
               type: "string",
               format: "uuid",
               description: "ID de la entidad a la que pertenece",
@@ -219,9 +291,14 @@ const options = {
         EntityRelationship: {
           type: "object",
           required: [
+            "id",
             "source_entity_id",
             "target_entity_id",
             "relationship_type",
+            "is_required",
+            "cascade_delete",
+            "created_at",
+            "updated_at",
           ],
           properties: {
             id: {
@@ -294,6 +371,601 @@ const options = {
             },
           },
         },
+        DataRecord: {
+          type: "object",
+          description:
+            "Registro de una entidad. Además de las columnas de sistema, incluye una propiedad por cada campo de la entidad",
+          required: ["id", "created_at", "updated_at"],
+          properties: {
+            id: {
+              type: "string",
+              format: "uuid",
+              description: "Identificador único del registro",
+            },
+            created_at: {
+              type: "string",
+              format: "date-time",
+              description: "Fecha de creación",
+            },
+            updated_at: {
+              type: "string",
+              format: "date-time",
+              description: "Última modificación",
+            },
+          },
+          additionalProperties: true,
+        },
+        FieldValidationError: {
+          type: "object",
+          properties: {
+            field: {
+              type: "string",
+              description: "Nombre del campo",
+              example: "email",
+            },
+            code: {
+              type: "string",
+              enum: [
+                "unknown_field",
+                "required",
+                "invalid_type",
+                "max_length",
+                "unique",
+                "file_not_found",
+                "file_extension",
+                "file_size",
+                "relationship_required",
+                "relationship_not_found",
+              ],
+              description: "Tipo de error",
+              example: "required",
+            },
+            message: {
+              type: "string",
+              description: "Descripción del error",
+              example: "El campo es requerido",
+            },
+            relationship: {
+              type: "string",
+              description: "Relación incumplida (errores relationship_*)",
+              example: "author",
+            },
+          },
+        },
+        RecordValidationResult: {
+          type: "object",
+          properties: {
+            valid: {
+              type: "boolean",
+              description: "Si los datos son válidos",
+            },
+            values: {
+              type: "object",
+              description: "Valores convertidos al tipo de cada campo",
+              additionalProperties: true,
+            },
+            errors: {
+              type: "array",
+              items: {
+                $ref: "#/components/schemas/FieldValidationError",
+              },
+            },
+          },
+        },
+        RecordValidationError: {
+          type: "object",
+          properties: {
+            error: {
+              type: "string",
+              example: "Bad Request",
+            },
+            message: {
+              type: "string",
+              example: "Los datos del registro no son válidos",
+            },
+            errors: {
+              type: "array",
+              items: {
+                $ref: "#/components/schemas/FieldValidationError",
+              },
+            },
+          },
+        },
+        SchemaConflict: {
+          type: "object",
+          properties: {
+            error: {
+              type: "string",
+              example: "Conflict",
+            },
+            message: {
+              type: "string",
+              description: "Descripción del conflicto",
+            },
+            issues: {
+              type: "array",
+              description: "Problemas detectados al sincronizar la tabla física",
+              items: {
+                $ref: "#/components/schemas/SchemaSyncIssue",
+              },
+            },
+          },
+        },
+        SchemaSyncIssue: {
+          type: "object",
+          description: "Problema que impide sincronizar la tabla física de una entidad",
+          properties: {
+            field: { type: "string", description: "Campo afectado" },
+            kind: {
+              type: "string",
+              enum: ["data_loss", "conflict"],
+              description:
+                "data_loss se puede confirmar con ?confirm=true; conflict requiere corregir los datos",
+            },
+            message: { type: "string" },
+            affected_rows: { type: "integer" },
+          },
+        },
+        RelationshipImpact: {
+          type: "object",
+          description: "Efecto de una eliminación sobre los registros de una relación",
+          properties: {
+            relationship_id: {
+              type: "string",
+              format: "uuid",
+              nullable: true,
+              description: "null en las claves foráneas de campos sin relación",
+            },
+            relationship: {
+              type: "string",
+              description:
+                "Nombre con el que se navega la relación (el del campo en las claves foráneas sin relación)",
+              example: "author",
+            },
+            relationship_type: {
+              type: "string",
+              enum: ["one_to_one", "one_to_many", "many_to_one", "many_to_many"],
+            },
+            entity: {
+              type: "string",
+              description: "Entidad cuyos registros se ven afectados",
+              example: "Post",
+            },
+            entity_id: { type: "string", format: "uuid" },
+            column: {
+              type: "string",
+              nullable: true,
+              description: "Columna que guarda la referencia (null en muchos a muchos)",
+            },
+            action: {
+              type: "string",
+              enum: ["cascade", "restrict", "set_null", "unlink", "none"],
+              description:
+                "cascade elimina los dependientes, restrict impide la eliminación, set_null deja la referencia en null y unlink elimina los vínculos muchos a muchos",
+            },
+            affected_rows: { type: "integer" },
+          },
+        },
+        RelationshipConflict: {
+          type: "object",
+          properties: {
+            error: {
+              type: "string",
+              example: "Conflict",
+            },
+            message: {
+              type: "string",
+              description: "Descripción de la relación incumplida",
+            },
+            relationship: {
+              $ref: "#/components/schemas/RelationshipImpact",
+            },
+            relationships: {
+              type: "array",
+              items: {
+                $ref: "#/components/schemas/RelationshipImpact",
+              },
+            },
+          },
+        },
+        SchemaSnapshot: {
+          type: "object",
+          description:
+            "Modelo completo de un proyecto guardado en una versión del esquema",
+          properties: {
+            entities: {
+              type: "array",
+              description: "Entidades ordenadas por nombre",
+              items: {
+                type: "object",
+                properties: {
+                  id: { type: "string", format: "uuid" },
+                  name: { type: "string", example: "User" },
+                  description: { type: "string" },
+                  fields: {
+                    type: "array",
+                    items: {
+                      type: "object",
+                      properties: {
+                        id: { type: "string", format: "uuid" },
+                        name: { type: "string", example: "email" },
+                        type: { type: "string", example: "string" },
+                        is_required: { type: "boolean" },
+                        is_unique: { type: "boolean" },
+                        is_primary_key: { type: "boolean" },
+                        is_foreign_key: { type: "boolean" },
+                        foreign_entity_id: { type: "string", format: "uuid" },
+                        foreign_field_id: { type: "string", format: "uuid" },
+                        default_value: { type: "string" },
+                        max_length: { type: "integer" },
+                        description: { type: "string" },
+                        accepts_multiple: { type: "boolean" },
+                        max_file_size: { type: "integer" },
+                        allowed_extensions: { type: "string" },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+            relationships: {
+              type: "array",
+              description: "Relaciones ordenadas por nombre",
+              items: {
+                type: "object",
+                properties: {
+                  id: { type: "string", format: "uuid" },
+                  source_entity_id: { type: "string", format: "uuid" },
+                  target_entity_id: { type: "string", format: "uuid" },
+                  relationship_type: {
+                    type: "string",
+                    enum: [
+                      "one_to_one",
+                      "one_to_many",
+                      "many_to_one",
+                      "many_to_many",
+                    ],
+                  },
+                  source_field_id: { type: "string", format: "uuid" },
+                  target_field_id: { type: "string", format: "uuid" },
+                  name: { type: "string", example: "author" },
+                  description: { type: "string" },
+                  is_required: { type: "boolean" },
+                  cascade_delete: { type: "boolean" },
+                },
+              },
+            },
+          },
+        },
+        SchemaVersionSummary: {
+          type: "object",
+          required: [
+            "id",
+            "project_id",
+            "version",
+            "checksum",
+            "entity_count",
+            "field_count",
+            "relationship_count",
+            "created_at",
+          ],
+          properties: {
+            id: {
+              type: "string",
+              format: "uuid",
+              description: "Identificador único de la versión",
+            },
+            project_id: {
+              type: "string",
+              format: "uuid",
+              description: "ID del proyecto",
+            },
+            version: {
+              type: "integer",
+              description: "Número de versión, consecutivo dentro del proyecto",
+              example: 3,
+            },
+            tag: {
+              type: "string",
+              description: "Etiqueta de la versión",
+              nullable: true,
+              example: "v1.2",
+            },
+            message: {
+              type: "string",
+              description: "Cambio que originó la versión",
+              nullable: true,
+              example: "Campo User.email creado",
+            },
+            checksum: {
+              type: "string",
+              description: "SHA-256 del modelo guardado",
+            },
+            entity_count: { type: "integer", example: 4 },
+            field_count: { type: "integer", example: 12 },
+            relationship_count: { type: "integer", example: 3 },
+            created_at: {
+              type: "string",
+              format: "date-time",
+              description: "Fecha de creación",
+            },
+          },
+        },
+        SchemaVersion: {
+          allOf: [
+            { $ref: "#/components/schemas/SchemaVersionSummary" },
+            {
+              type: "object",
+              required: ["snapshot"],
+              properties: {
+                snapshot: { $ref: "#/components/schemas/SchemaSnapshot" },
+              },
+            },
+          ],
+        },
+        SchemaDiff: {
+          type: "object",
+          description:
+            "Diferencias desde el esquema base (against) hacia el del proyecto",
+          required: [
+            "base",
+            "target",
+            "breaking",
+            "summary",
+            "entities",
+            "relationships",
+          ],
+          properties: {
+            base: { $ref: "#/components/schemas/SchemaDiffSide" },
+            target: { $ref: "#/components/schemas/SchemaDiffSide" },
+            breaking: {
+              type: "boolean",
+              description: "Hay cambios que rompen a quien usa el esquema base",
+            },
+            summary: {
+              type: "object",
+              required: [
+                "entities",
+                "fields",
+                "relationships",
+                "breaking_changes",
+                "non_breaking_changes",
+              ],
+              properties: {
+                entities: { $ref: "#/components/schemas/SchemaDiffCounts" },
+                fields: { $ref: "#/components/schemas/SchemaDiffCounts" },
+                relationships: {
+                  $ref: "#/components/schemas/SchemaDiffCounts",
+                },
+                breaking_changes: { type: "integer" },
+                non_breaking_changes: { type: "integer" },
+              },
+            },
+            entities: {
+              type: "array",
+              items: { $ref: "#/components/schemas/SchemaEntityDiff" },
+            },
+            relationships: {
+              type: "array",
+              items: { $ref: "#/components/schemas/SchemaRelationshipDiff" },
+            },
+          },
+        },
+        SchemaDiffChange: {
+          type: "string",
+          enum: ["added", "removed", "changed"],
+        },
+        SchemaFieldDiff: {
+          type: "object",
+          required: ["name", "change", "breaking", "changes"],
+          properties: {
+            name: { type: "string", example: "email" },
+            change: { $ref: "#/components/schemas/SchemaDiffChange" },
+            breaking: { type: "boolean" },
+            changes: {
+              type: "array",
+              items: { $ref: "#/components/schemas/PropertyChange" },
+            },
+          },
+        },
+        SchemaEntityDiff: {
+          allOf: [
+            { $ref: "#/components/schemas/SchemaFieldDiff" },
+            {
+              type: "object",
+              required: ["fields"],
+              properties: {
+                fields: {
+                  type: "array",
+                  items: { $ref: "#/components/schemas/SchemaFieldDiff" },
+                },
+              },
+            },
+          ],
+        },
+        SchemaRelationshipDiff: {
+          allOf: [
+            { $ref: "#/components/schemas/SchemaFieldDiff" },
+            {
+              type: "object",
+              required: ["entity"],
+              properties: {
+                entity: {
+                  type: "string",
+                  description: "Entidad origen",
+                  example: "Post",
+                },
+              },
+            },
+          ],
+        },
+        SchemaDiffSide: {
+          type: "object",
+          required: ["project_id", "name"],
+          properties: {
+            project_id: { type: "string", format: "uuid" },
+            name: { type: "string" },
+            version: {
+              type: "integer",
+              description: "Versión comparada (sin versión, el esquema actual)",
+            },
+          },
+        },
+        SchemaDiffCounts: {
+          type: "object",
+          required: ["added", "removed", "changed"],
+          properties: {
+            added: { type: "integer" },
+            removed: { type: "integer" },
+            changed: { type: "integer" },
+          },
+        },
+        PropertyChange: {
+          type: "object",
+          required: ["property", "from", "to", "breaking"],
+          properties: {
+            property: { type: "string", example: "max_length" },
+            from: { description: "Valor en el esquema base" },
+            to: { description: "Valor en el esquema del proyecto" },
+            breaking: { type: "boolean" },
+          },
+        },
+        DiagramCardinality: {
+          type: "string",
+          enum: ["one", "zero_or_one", "zero_or_many"],
+          description:
+            "Cardinalidad de un extremo en notación pata de gallo: cuántos registros de ese extremo corresponden a uno del otro",
+        },
+        DiagramViewport: {
+          type: "object",
+          required: ["x", "y", "zoom"],
+          properties: {
+            x: {
+              type: "number",
+              example: 0,
+            },
+            y: {
+              type: "number",
+              example: 0,
+            },
+            zoom: {
+              type: "number",
+              description: "Mayor que 0",
+              example: 1,
+            },
+          },
+        },
+        DiagramNodeLayout: {
+          type: "object",
+          required: ["id", "position"],
+          properties: {
+            id: {
+              type: "string",
+              description: "ID de la entidad",
+            },
+            position: {
+              type: "object",
+              required: ["x", "y"],
+              properties: {
+                x: {
+                  type: "number",
+                  example: 350,
+                },
+                y: {
+                  type: "number",
+                  example: 0,
+                },
+              },
+            },
+            width: {
+              type: "number",
+              description: "Ancho del nodo, mayor que 0",
+              example: 300,
+            },
+            height: {
+              type: "number",
+              description: "Alto del nodo, mayor que 0",
+              example: 200,
+            },
+            collapsed: {
+              type: "boolean",
+              description: "Si el nodo se muestra plegado",
+            },
+          },
+        },
+        DiagramLayout: {
+          type: "object",
+          required: ["project_id", "nodes", "viewport"],
+          properties: {
+            project_id: {
+              type: "string",
+              description: "ID del proyecto",
+            },
+            nodes: {
+              type: "array",
+              items: {
+                $ref: "#/components/schemas/DiagramNodeLayout",
+              },
+            },
+            viewport: {
+              $ref: "#/components/schemas/DiagramViewport",
+            },
+            created_at: {
+              type: "string",
+              format: "date-time",
+              description: "Fecha de creación",
+            },
+            updated_at: {
+              type: "string",
+              format: "date-time",
+              description: "Fecha del último guardado",
+            },
+          },
+        },
+        SchemaMigration: {
+          type: "object",
+          required: ["version", "name", "breaking", "created_at", "up", "down"],
+          properties: {
+            version: {
+              type: "integer",
+              description: "Versión del esquema a la que lleva la migración",
+              example: 3,
+            },
+            name: {
+              type: "string",
+              description: "Nombre de archivo sin extensión",
+              example: "0003_campo_user_email_actualizado",
+            },
+            message: {
+              type: "string",
+              description: "Cambio que originó la versión",
+              example: "Campo User.email actualizado",
+            },
+            tag: {
+              type: "string",
+              description: "Etiqueta de la versión",
+              example: "v1.2",
+            },
+            breaking: {
+              type: "boolean",
+              description:
+                "Incluye cambios incompatibles con la versión anterior",
+            },
+            created_at: {
+              type: "string",
+              format: "date-time",
+              description: "Fecha de creación de la versión",
+            },
+            up: {
+              type: "string",
+              description: "Script SQL que aplica la migración",
+            },
+            down: {
+              type: "string",
+              description: "Script SQL que deshace la migración",
+            },
+          },
+        },
         Error: {
           type: "object",
           properties: {
@@ -312,7 +984,8 @@ const options = {
       },
     },
   },
-  apis: ["./src/router/*.ts", "./src/router/**/*.ts"], // paths to files containing OpenAPI definitions
+  // Rutas documentadas, tanto en desarrollo (.ts) como compiladas (.js)
+  apis: [path.join(__dirname, "../router/**/*.{ts,js}")],
 };
 
 const specs = swaggerJSDoc(options);
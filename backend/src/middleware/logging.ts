@@ -106,7 +106,11 @@ export const finalizeLogging = (
   res.send = function (body: any) {
     if (req.logData) {
       req.logData.response_size =
-        typeof body === "string" ? body.length : JSON.stringify(body).length;
+        body === undefined
+          ? 0
+          : typeof body === "string"
+          ? body.length
+          : JSON.stringify(body).length;
     }
     return originalSend.call(this, body);
   };
@@ -0,0 +1,38 @@
+import { Migration } from ".";
+
+/**
+ * Versiones del esquema de cada proyecto. Son inmutables: solo cambia su
+ * etiqueta.
+ */
+const migration: Migration = {
+  version: 2,
+  name: "schema_versions",
+  up: `
+    CREATE TABLE IF NOT EXISTS schema_versions (
+      id TEXT PRIMARY KEY,
+      project_id TEXT NOT NULL,
+      version INTEGER NOT NULL,
+      tag TEXT,
+      message TEXT,
+      checksum TEXT NOT NULL,
+      snapshot TEXT NOT NULL,
+      entity_count INTEGER NOT NULL DEFAULT 0,
+      field_count INTEGER NOT NULL DEFAULT 0,
+      relationship_count INTEGER NOT NULL DEFAULT 0,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (project_id) REFERENCES projects(id) ON DELETE CASCADE,
+      UNIQUE(project_id, version),
+      UNIQUE(project_id, tag)
+    );
+
+    CREATE TRIGGER IF NOT EXISTS prevent_schema_versions_update
+    BEFORE UPDATE OF project_id, version, message, checksum, snapshot
+    ON schema_versions
+    FOR EACH ROW
+    BEGIN
+      SELECT RAISE(ABORT, 'Las versiones del esquema son inmutables');
+    END;
+  `,
+};
+
+export default migration;
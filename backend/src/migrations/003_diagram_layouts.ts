@@ -0,0 +1,24 @@
+import { Migration } from ".";
+
+/**
+ * Disposición guardada del diagrama de cada proyecto: posición, tamaño y
+ * estado plegado de los nodos (JSON) y el viewport
+ */
+const migration: Migration = {
+  version: 3,
+  name: "diagram_layouts",
+  up: `
+    CREATE TABLE IF NOT EXISTS diagram_layouts (
+      project_id TEXT PRIMARY KEY,
+      nodes TEXT NOT NULL DEFAULT '[]',
+      viewport_x REAL NOT NULL DEFAULT 0,
+      viewport_y REAL NOT NULL DEFAULT 0,
+      viewport_zoom REAL NOT NULL DEFAULT 1,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (project_id) REFERENCES projects(id) ON DELETE CASCADE
+    );
+  `,
+};
+
+export default migration;
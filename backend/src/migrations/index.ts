@@ -0,0 +1,23 @@
+import initialSchema from "./001_initial_schema";
+import schemaVersions from "./002_schema_versions";
+import diagramLayouts from "./003_diagram_layouts";
+
+/**
+ * Migración de la base de datos de metadatos. Una vez publicada no se
+ * modifica: los cambios se hacen en una migración nueva con el siguiente
+ * número, porque el checksum de las aplicadas se verifica al arrancar.
+ */
+export interface Migration {
+  version: number;
+  name: string;
+  up: string;
+}
+
+/**
+ * Migraciones en el orden en que se aplican
+ */
+export const MIGRATIONS: Migration[] = [
+  initialSchema,
+  schemaVersions,
+  diagramLayouts,
+];
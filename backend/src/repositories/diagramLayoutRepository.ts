@@ -0,0 +1,115 @@
+import { DatabaseSync } from "node:sqlite";
+import { getDatabase } from "../config/database";
+
+export interface DiagramViewport {
+  x: number;
+  y: number;
+  zoom: number;
+}
+
+/**
+ * Disposición guardada de un nodo (entidad) del diagrama
+ */
+export interface DiagramNodeLayout {
+  /** ID de la entidad */
+  id: string;
+  position: { x: number; y: number };
+  width?: number;
+  height?: number;
+  collapsed?: boolean;
+}
+
+export interface DiagramLayout {
+  project_id: string;
+  nodes: DiagramNodeLayout[];
+  viewport: DiagramViewport;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface SaveDiagramLayoutData {
+  nodes: DiagramNodeLayout[];
+  viewport?: DiagramViewport;
+}
+
+interface DiagramLayoutRow {
+  project_id: string;
+  nodes: string;
+  viewport_x: number;
+  viewport_y: number;
+  viewport_zoom: number;
+  created_at: string;
+  updated_at: string;
+}
+
+const toDiagramLayout = (row: DiagramLayoutRow): DiagramLayout => ({
+  project_id: row.project_id,
+  nodes: JSON.parse(row.nodes) as DiagramNodeLayout[],
+  viewport: { x: row.viewport_x, y: row.viewport_y, zoom: row.viewport_zoom },
+  created_at: row.created_at,
+  updated_at: row.updated_at,
+});
+
+export class DiagramLayoutRepository {
+  private getDb(): DatabaseSync {
+    return getDatabase();
+  }
+
+  /**
+   * Obtener la disposición guardada del diagrama de un proyecto
+   */
+  findByProjectId(projectId: string): Promise<DiagramLayout | null> {
+    return new Promise((resolve, reject) => {
+      try {
+        const query = "SELECT * FROM diagram_layouts WHERE project_id = ?";
+        const db = this.getDb();
+        const stmt = db.prepare(query);
+        const row = stmt.get(projectId) as DiagramLayoutRow | undefined;
+
+        resolve(row ? toDiagramLayout(row) : null);
+      } catch (error) {
+        reject(error);
+      }
+    });
+  }
+
+  /**
+   * Guardar (crear o reemplazar) la disposición del diagrama de un proyecto
+   */
+  save(projectId: string, data: SaveDiagramLayoutData): Promise<DiagramLayout> {
+    return new Promise((resolve, reject) => {
+      try {
+        const viewport = data.viewport ?? { x: 0, y: 0, zoom: 1 };
+        const query = `
+          INSERT INTO diagram_layouts (
+            project_id, nodes, viewport_x, viewport_y, viewport_zoom
+          )
+          VALUES (?, ?, ?, ?, ?)
+          ON CONFLICT (project_id) DO UPDATE SET
+            nodes = excluded.nodes,
+            viewport_x = excluded.viewport_x,
+            viewport_y = excluded.viewport_y,
+            viewport_zoom = excluded.viewport_zoom,
+            updated_at = CURRENT_TIMESTAMP
+        `;
+
+        const db = this.getDb();
+        const stmt = db.prepare(query);
+        stmt.run(
+          projectId,
+          JSON.stringify(data.nodes),
+          viewport.x,
+          viewport.y,
+          viewport.zoom
+        );
+
+        const row = db
+          .prepare("SELECT * FROM diagram_layouts WHERE project_id = ?")
+          .get(projectId) as unknown as DiagramLayoutRow;
+        resolve(toDiagramLayout(row));
+      } catch (error) {
+        reject(error);
+      }
+    });
+  }
+}
@@ -1,10 +1,26 @@
 import { DatabaseSync } from "node:sqlite";
 import { getDatabase } from "../config/database";
+import { applyAutoLayout, DiagramAutoLayout } from "../utils/diagramAutoLayout";
+import {
+  buildDiagramEdges,
+  DiagramEdgeOptions,
+  getPrimaryKeyHandle,
+} from "../utils/diagramEdges";
+import { applyDiagramLayout, getGridPosition } from "../utils/diagramLayout";
+import {
+  DiagramLayoutRepository,
+  DiagramViewport,
+} from "./diagramLayoutRepository";
+import { EntityRelationship } from "./entityRelationshipRepository";
+import { Field } from "./fieldRepository";
 
 export interface DiagramNode {
   id: string;
   type: string;
   position: { x: number; y: number };
+  /** Tamaño guardado del nodo; sin él el cliente usa el de su contenido */
+  width?: number;
+  height?: number;
   data: {
     label: string;
     entity: {
@@ -12,40 +28,78 @@ export interface DiagramNode {
       name: string;
       description?: string;
     };
+    /**
+     * Handle de la clave primaria: el ID del campo marcado como tal o "id"
+     * para la columna id implícita
+     */
+    primaryKey: string;
     fields: Array<{
       id: string;
       name: string;
       type: string;
       is_required: boolean;
       is_unique: boolean;
+      is_primary_key: boolean;
+      is_foreign_key: boolean;
+      foreign_entity_id?: string;
+      foreign_field_id?: string;
       default_value?: string;
       max_length?: number;
       description?: string;
     }>;
+    /** Si el nodo se muestra plegado (solo el nombre de la entidad) */
+    collapsed?: boolean;
   };
 }
 
+/**
+ * Cardinalidad de un extremo de una relación en notación pata de gallo:
+ * cuántos registros de ese extremo corresponden a uno del otro
+ */
+export type DiagramCardinality = "one" | "zero_or_one" | "zero_or_many";
+
+/**
+ * Origen de una arista: una relación, un campo FK sin relación o un campo
+ * cuyo nombre sugiere una referencia (solo con ?suggested=true)
+ */
+export type DiagramEdgeOrigin = "relationship" | "foreign_key" | "suggested";
+
 export interface DiagramEdge {
   id: string;
   source: string;
   target: string;
+  /** Handle de la fila del campo en el nodo origen (ID del campo o "id") */
+  sourceHandle?: string;
+  targetHandle?: string;
   type: string;
   label?: string;
+  /** ID del marcador SVG de la cardinalidad de cada extremo */
+  markerStart?: string;
+  markerEnd?: string;
+  animated?: boolean;
   data?: {
     relationship: string;
-    sourceCardinality: string;
-    targetCardinality: string;
+    sourceCardinality: DiagramCardinality;
+    targetCardinality: DiagramCardinality;
+    origin: DiagramEdgeOrigin;
+    relationshipId?: string;
+    /** Campo que guarda la clave foránea */
+    fieldId?: string;
   };
 }
 
 export interface DiagramData {
   nodes: DiagramNode[];
   edges: DiagramEdge[];
-  viewport: {
-    x: number;
-    y: number;
-    zoom: number;
-  };
+  viewport: DiagramViewport;
+}
+
+export interface DiagramOptions extends DiagramEdgeOptions {
+  /**
+   * Algoritmo con el que recalcular las posiciones en lugar de usar la
+   * disposición guardada o la cuadrícula
+   */
+  layout?: DiagramAutoLayout;
 }
 
 export class DiagramRepository {
@@ -53,65 +107,81 @@ export class DiagramRepository {
     return getDatabase();
   }
 
+  private layoutRepository = new DiagramLayoutRepository();
+
   /**
-   * Genera la estructura de diagrama UML para un proyecto específico
+   * Carga las entidades, campos y relaciones de un proyecto
    */
-  generateUMLDiagram(projectId: string): Promise<DiagramData> {
-    return new Promise(async (resolve, reject) => {
-      try {
-        const db = this.getDb();
+  private loadProjectSchema(projectId: string): {
+    entities: Array<{ id: string; name: string; description?: string }>;
+    fields: Field[];
+    relationships: EntityRelationship[];
+  } {
+    const db = this.getDb();
 
-        // Obtener todas las entidades del proyecto
-        const entitiesQuery =
-          "SELECT * FROM entities WHERE project_id = ? ORDER BY name";
-        const entitiesStmt = db.prepare(entitiesQuery);
-        const entities = entitiesStmt.all(projectId) as Array<{
-          id: string;
-          project_id: string;
-          name: string;
-          description?: string;
-          created_at: string;
-          updated_at: string;
-        }>;
+    const entities = db
+      .prepare("SELECT * FROM entities WHERE project_id = ? ORDER BY name")
+      .all(projectId) as Array<{
+      id: string;
+      name: string;
+      description?: string;
+    }>;
+
+    const fields = db
+      .prepare(
+        `SELECT f.* FROM fields f
+         JOIN entities e ON f.entity_id = e.id
+         WHERE e.project_id = ?
+         ORDER BY f.name`
+      )
+      .all(projectId) as unknown as Field[];
+
+    const relationships = db
+      .prepare(
+        `SELECT r.* FROM entity_relationships r
+         JOIN entities e ON r.source_entity_id = e.id
+         WHERE e.project_id = ?
+         ORDER BY r.created_at`
+      )
+      .all(projectId) as unknown as EntityRelationship[];
+
+    return { entities, fields, relationships };
+  }
+
+  /**
+   * Genera la estructura de diagrama UML para un proyecto específico.
+   * Las aristas salen de las relaciones y de los campos marcados como clave
+   * foránea; con suggested se añaden las que sugiere el nombre de los campos.
+   * Si el proyecto tiene una disposición guardada, los nodos y el viewport
+   * salen de ella; si no, los nodos se distribuyen en cuadrícula. Con layout
+   * las posiciones se recalculan (conservando tamaño y estado plegado
+   * guardados) y el viewport vuelve al inicial.
+   */
+  async generateUMLDiagram(
+    projectId: string,
+    options: DiagramOptions = {}
+  ): Promise<DiagramData> {
+    const layout = await this.layoutRepository.findByProjectId(projectId);
+
+    return new Promise((resolve, reject) => {
+      try {
+        const { entities, fields, relationships } =
+          this.loadProjectSchema(projectId);
 
         const nodes: DiagramNode[] = [];
-        const edges: DiagramEdge[] = [];
 
         // Generar nodos para cada entidad
         for (let i = 0; i < entities.length; i++) {
           const entity = entities[i];
-
-          // Obtener campos de la entidad
-          const fieldsQuery =
-            "SELECT * FROM fields WHERE entity_id = ? ORDER BY name";
-          const fieldsStmt = db.prepare(fieldsQuery);
-          const fields = fieldsStmt.all(entity.id) as Array<{
-            id: string;
-            entity_id: string;
-            name: string;
-            type: string;
-            is_required: boolean;
-            is_unique: boolean;
-            default_value?: string;
-            max_length?: number;
-            description?: string;
-          }>;
-
-          // Calcular posición del nodo (distribución en cuadrícula)
-          const nodeWidth = 300;
-          const nodeHeight = 200;
-          const spacing = 50;
-          const cols = Math.ceil(Math.sqrt(entities.length));
-          const row = Math.floor(i / cols);
-          const col = i % cols;
-
-          const x = col * (nodeWidth + spacing);
-          const y = row * (nodeHeight + spacing);
+          const entityFields = fields.filter(
+            (field) => field.entity_id === entity.id
+          );
 
           const node: DiagramNode = {
             id: entity.id,
             type: "entityNode",
-            position: { x, y },
+            // Distribución en cuadrícula si no hay disposición guardada
+            position: getGridPosition(i, entities.length),
             data: {
               label: entity.name,
               entity: {
@@ -119,12 +189,17 @@ export class DiagramRepository {
                 name: entity.name,
                 description: entity.description,
               },
-              fields: fields.map((field) => ({
+              primaryKey: getPrimaryKeyHandle(entityFields),
+              fields: entityFields.map((field) => ({
                 id: field.id,
                 name: field.name,
                 type: field.type,
-                is_required: field.is_required,
-                is_unique: field.is_unique,
+                is_required: !!field.is_required,
+                is_unique: !!field.is_unique,
+                is_primary_key: !!field.is_primary_key,
+                is_foreign_key: !!field.is_foreign_key,
+                foreign_entity_id: field.foreign_entity_id,
+                foreign_field_id: field.foreign_field_id,
                 default_value: field.default_value,
                 max_length: field.max_length,
                 description: field.description,
@@ -135,65 +210,35 @@ export class DiagramRepository {
           nodes.push(node);
         }
 
-        // Generar edges para relaciones basadas en campos que referencian otras entidades
-        // Esto es una aproximación básica. Se puede mejorar con más información de relaciones
-        for (const entity of entities) {
-          const fieldsQuery = "SELECT * FROM fields WHERE entity_id = ?";
-          const fieldsStmt = db.prepare(fieldsQuery);
-          const fields = fieldsStmt.all(entity.id) as Array<{
-            id: string;
-            entity_id: string;
-            name: string;
-            type: string;
-            is_required: boolean;
-            is_unique: boolean;
-            default_value?: string;
-            max_length?: number;
-            description?: string;
-          }>;
+        const edges = buildDiagramEdges(
+          entities,
+          fields,
+          relationships,
+          options
+        );
 
-          // Buscar campos que puedan ser foreign keys (campos que terminan en _id)
-          for (const field of fields) {
-            if (field.name.endsWith("_id") && field.name !== "id") {
-              // Intentar encontrar la entidad referenciada
-              const referencedEntityName = field.name.replace("_id", "");
-              const referencedEntity = entities.find(
-                (e) =>
-                  e.name.toLowerCase() === referencedEntityName.toLowerCase() ||
-                  e.name.toLowerCase() ===
-                    referencedEntityName.toLowerCase() + "s" ||
-                  e.name.toLowerCase() ===
-                    referencedEntityName.toLowerCase().slice(0, -1)
-              );
+        const laidOutNodes = layout
+          ? applyDiagramLayout(nodes, edges, layout)
+          : nodes;
 
-              if (referencedEntity) {
-                const edge: DiagramEdge = {
-                  id: `${entity.id}-${referencedEntity.id}-${field.id}`,
-                  source: entity.id,
-                  target: referencedEntity.id,
-                  type: "smoothstep",
-                  label: field.name,
-                  data: {
-                    relationship: "belongs_to",
-                    sourceCardinality: "many",
-                    targetCardinality: "one",
-                  },
-                };
-                edges.push(edge);
-              }
+        const diagramData: DiagramData = options.layout
+          ? {
+              ...applyAutoLayout(laidOutNodes, edges, options.layout),
+              viewport: {
+                x: 0,
+                y: 0,
+                zoom: 1,
+              },
             }
-          }
-        }
-
-        const diagramData: DiagramData = {
-          nodes,
-          edges,
-          viewport: {
-            x: 0,
-            y: 0,
-            zoom: 1,
-          },
-        };
+          : {
+              nodes: laidOutNodes,
+              edges,
+              viewport: layout?.viewport ?? {
+                x: 0,
+                y: 0,
+                zoom: 1,
+              },
+            };
 
         resolve(diagramData);
       } catch (error) {
@@ -203,46 +248,45 @@ export class DiagramRepository {
   }
 
   /**
-   * Obtiene información detallada de las relaciones entre entidades
+   * Obtiene información detallada de las relaciones entre entidades, una por
+   * arista del diagrama
    */
-  getEntityRelationships(projectId: string): Promise<
+  getEntityRelationships(
+    projectId: string,
+    options: DiagramEdgeOptions = {}
+  ): Promise<
     Array<{
       source_entity: string;
       target_entity: string;
-      field_name: string;
+      field_name?: string;
       relationship_type: string;
+      origin: DiagramEdgeOrigin;
     }>
   > {
     return new Promise((resolve, reject) => {
       try {
-        const db = this.getDb();
+        const { entities, fields, relationships } =
+          this.loadProjectSchema(projectId);
+        const entityNames = new Map(
+          entities.map((entity) => [entity.id, entity.name])
+        );
+        const fieldNames = new Map(
+          fields.map((field) => [field.id, field.name])
+        );
 
-        const query = `
-          SELECT 
-            e1.name as source_entity,
-            e2.name as target_entity,
-            f.name as field_name,
-            'belongs_to' as relationship_type
-          FROM fields f
-          JOIN entities e1 ON f.entity_id = e1.id
-          JOIN entities e2 ON (
-            f.name LIKE '%_id' AND 
-            (LOWER(e2.name) = LOWER(SUBSTR(f.name, 1, LENGTH(f.name) - 3)) OR
-             LOWER(e2.name) = LOWER(SUBSTR(f.name, 1, LENGTH(f.name) - 3)) || 's' OR
-             LOWER(e2.name) = SUBSTR(LOWER(SUBSTR(f.name, 1, LENGTH(f.name) - 3)), 1, LENGTH(SUBSTR(f.name, 1, LENGTH(f.name) - 3)) - 1))
+        resolve(
+          buildDiagramEdges(entities, fields, relationships, options).map(
+            (edge) => ({
+              source_entity: entityNames.get(edge.source)!,
+              target_entity: entityNames.get(edge.target)!,
+              field_name: edge.data?.fieldId
+                ? fieldNames.get(edge.data.fieldId)
+                : undefined,
+              relationship_type: edge.data!.relationship,
+              origin: edge.data!.origin,
+            })
           )
-          WHERE e1.project_id = ? AND e2.project_id = ?
-        `;
-
-        const stmt = db.prepare(query);
-        const relationships = stmt.all(projectId, projectId) as Array<{
-          source_entity: string;
-          target_entity: string;
-          field_name: string;
-          relationship_type: string;
-        }>;
-
-        resolve(relationships);
+        );
       } catch (error) {
         reject(error);
       }
@@ -278,17 +322,10 @@ export class DiagramRepository {
         const fieldsStmt = db.prepare(fieldsQuery);
         const fieldsResult = fieldsStmt.get(projectId) as { count: number };
 
-        // Total de relaciones
-        const relationshipsQuery = `
-          SELECT COUNT(*) as count 
-          FROM fields f 
-          JOIN entities e ON f.entity_id = e.id 
-          WHERE e.project_id = ? AND f.name LIKE '%_id' AND f.name != 'id'
-        `;
-        const relationshipsStmt = db.prepare(relationshipsQuery);
-        const relationshipsResult = relationshipsStmt.get(projectId) as {
-          count: number;
-        };
+        // Total de relaciones: las aristas del diagrama sin sugerencias
+        const { entities, fields, relationships } =
+          this.loadProjectSchema(projectId);
+        const edges = buildDiagramEdges(entities, fields, relationships);
 
         // Tipos de campos más comunes
         const fieldTypesQuery = `
@@ -308,7 +345,7 @@ export class DiagramRepository {
         resolve({
           total_entities: entitiesResult.count,
           total_fields: fieldsResult.count,
-          total_relationships: relationshipsResult.count,
+          total_relationships: edges.length,
           entity_types: fieldTypes,
         });
       } catch (error) {
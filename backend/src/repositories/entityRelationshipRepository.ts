@@ -1,5 +1,11 @@
 import { DatabaseSync } from "node:sqlite";
 import { getDatabase } from "../config/database";
+import {
+  executeListQuery,
+  ListPage,
+  ListQuery,
+  QueryColumns,
+} from "../utils/queryLanguage";
 
 export type RelationshipType =
   | "one_to_one"
@@ -44,6 +50,42 @@ export interface UpdateEntityRelationshipData {
   cascade_delete?: boolean;
 }
 
+/**
+ * Columnas por las que se pueden filtrar y ordenar los listados
+ */
+export const RELATIONSHIP_QUERY_COLUMNS: QueryColumns = {
+  id: "string",
+  source_entity_id: "string",
+  target_entity_id: "string",
+  relationship_type: "string",
+  source_field_id: "string",
+  target_field_id: "string",
+  name: "string",
+  description: "string",
+  is_required: "boolean",
+  cascade_delete: "boolean",
+  created_at: "date",
+  updated_at: "date",
+  source_entity_name: "string",
+  target_entity_name: "string",
+  source_field_name: "string",
+  target_field_name: "string",
+};
+
+const RELATIONSHIP_DETAILS_SOURCE = `(
+  SELECT
+    er.*,
+    se.name as source_entity_name,
+    te.name as target_entity_name,
+    sf.name as source_field_name,
+    tf.name as target_field_name
+  FROM entity_relationships er
+  LEFT JOIN entities se ON er.source_entity_id = se.id
+  LEFT JOIN entities te ON er.target_entity_id = te.id
+  LEFT JOIN fields sf ON er.source_field_id = sf.id
+  LEFT JOIN fields tf ON er.target_field_id = tf.id
+) AS relationships`;
+
 export class EntityRelationshipRepository {
   private getDb(): DatabaseSync {
     return getDatabase();
@@ -176,6 +218,33 @@ export class EntityRelationshipRepository {
     });
   }
 
+  /**
+   * Obtener una página de relaciones de una entidad según filtros y ordenación
+   */
+  findPageByEntityId(
+    entityId: string,
+    query: ListQuery
+  ): Promise<ListPage<EntityRelationship>> {
+    return new Promise((resolve, reject) => {
+      try {
+        const db = this.getDb();
+        resolve(
+          executeListQuery<EntityRelationship>(
+            db,
+            {
+              from: "entity_relationships",
+              where: "source_entity_id = ? OR target_entity_id = ?",
+              params: [entityId, entityId],
+            },
+            query
+          )
+        );
+      } catch (error) {
+        reject(error);
+      }
+    });
+  }
+
   /**
    * Obtener una relación por ID
    */
@@ -374,4 +443,20 @@ export class EntityRelationshipRepository {
       }
     });
   }
+
+  /**
+   * Obtener una página de relaciones con los nombres de entidades y campos
+   */
+  findPageWithEntityDetails(query: ListQuery): Promise<ListPage<any>> {
+    return new Promise((resolve, reject) => {
+      try {
+        const db = this.getDb();
+        resolve(
+          executeListQuery(db, { from: RELATIONSHIP_DETAILS_SOURCE }, query)
+        );
+      } catch (error) {
+        reject(error);
+      }
+    });
+  }
 }
@@ -1,5 +1,11 @@
 import { DatabaseSync } from "node:sqlite";
 import { getDatabase } from "../config/database";
+import {
+  executeListQuery,
+  ListPage,
+  ListQuery,
+  QueryColumns,
+} from "../utils/queryLanguage";
 
 export interface Entity {
   id: string;
@@ -21,6 +27,18 @@ export interface UpdateEntityData {
   description?: string;
 }
 
+/**
+ * Columnas por las que se pueden filtrar y ordenar los listados
+ */
+export const ENTITY_QUERY_COLUMNS: QueryColumns = {
+  id: "string",
+  project_id: "string",
+  name: "string",
+  description: "string",
+  created_at: "date",
+  updated_at: "date",
+};
+
 export class EntityRepository {
   private getDb(): DatabaseSync {
     return getDatabase();
@@ -90,6 +108,30 @@ export class EntityRepository {
     });
   }
 
+
+  /**
+   * Obtener una página de entidades de un proyecto según filtros y ordenación
+   */
+  findPageByProjectId(
+    projectId: string,
+    query: ListQuery
+  ): Promise<ListPage<Entity>> {
+    return new Promise((resolve, reject) => {
+      try {
+        const db = this.getDb();
+        resolve(
+          executeListQuery<Entity>(
+            db,
+            { from: "entities", where: "project_id = ?", params: [projectId] },
+            query
+          )
+        );
+      } catch (error) {
+        reject(error);
+      }
+    });
+  }
+
   /**
    * Obtener una entidad por ID
    */
@@ -108,6 +150,25 @@ export class EntityRepository {
     });
   }
 
+  /**
+   * Obtener una entidad por nombre dentro de un proyecto
+   */
+  findByNameInProject(name: string, projectId: string): Promise<Entity | null> {
+    return new Promise((resolve, reject) => {
+      try {
+        const query =
+          "SELECT * FROM entities WHERE project_id = ? AND name = ? COLLATE NOCASE ORDER BY created_at ASC LIMIT 1";
+        const db = this.getDb();
+        const stmt = db.prepare(query);
+        const entity = stmt.get(projectId, name) as Entity | undefined;
+
+        resolve(entity || null);
+      } catch (error) {
+        reject(error);
+      }
+    });
+  }
+
   /**
    * Actualizar una entidad
    */
@@ -1,5 +1,11 @@
 import { DatabaseSync } from "node:sqlite";
 import { getDatabase } from "../config/database";
+import {
+  executeListQuery,
+  ListPage,
+  ListQuery,
+  QueryColumns,
+} from "../utils/queryLanguage";
 
 export interface Field {
   id: string;
@@ -57,6 +63,42 @@ export interface UpdateFieldData {
   allowed_extensions?: string;
 }
 
+/**
+ * Estado de un campo y de las filas que lo referencian, para poder
+ * restaurarlo si un cambio de esquema no llega a aplicarse
+ */
+export interface FieldSnapshot {
+  field: Field;
+  referencingFieldIds: string[];
+  sourceRelationshipIds: string[];
+  targetRelationshipIds: string[];
+  files: Record<string, unknown>[];
+}
+
+/**
+ * Columnas por las que se pueden filtrar y ordenar los listados
+ */
+export const FIELD_QUERY_COLUMNS: QueryColumns = {
+  id: "string",
+  entity_id: "string",
+  name: "string",
+  type: "string",
+  is_required: "boolean",
+  is_unique: "boolean",
+  is_primary_key: "boolean",
+  is_foreign_key: "boolean",
+  foreign_entity_id: "string",
+  foreign_field_id: "string",
+  default_value: "string",
+  max_length: "number",
+  description: "string",
+  accepts_multiple: "boolean",
+  max_file_size: "number",
+  allowed_extensions: "string",
+  created_at: "date",
+  updated_at: "date",
+};
+
 export class FieldRepository {
   private getDb(): DatabaseSync {
     return getDatabase();
@@ -148,6 +190,30 @@ export class FieldRepository {
     });
   }
 
+
+  /**
+   * Obtener una página de campos de una entidad según filtros y ordenación
+   */
+  findPageByEntityId(
+    entityId: string,
+    query: ListQuery
+  ): Promise<ListPage<Field>> {
+    return new Promise((resolve, reject) => {
+      try {
+        const db = this.getDb();
+        resolve(
+          executeListQuery<Field>(
+            db,
+            { from: "fields", where: "entity_id = ?", params: [entityId] },
+            query
+          )
+        );
+      } catch (error) {
+        reject(error);
+      }
+    });
+  }
+
   /**
    * Obtener un campo por ID
    */
@@ -293,6 +359,109 @@ export class FieldRepository {
     });
   }
 
+  /**
+   * Guardar el estado de un campo y de las filas que lo referencian
+   */
+  snapshot(field: Field): Promise<FieldSnapshot> {
+    return new Promise((resolve, reject) => {
+      try {
+        const db = this.getDb();
+        const ids = (query: string): string[] =>
+          (db.prepare(query).all(field.id) as { id: string }[]).map(
+            (row) => row.id
+          );
+
+        resolve({
+          field: { ...field },
+          referencingFieldIds: ids(
+            "SELECT id FROM fields WHERE foreign_field_id = ?"
+          ),
+          sourceRelationshipIds: ids(
+            "SELECT id FROM entity_relationships WHERE source_field_id = ?"
+          ),
+          targetRelationshipIds: ids(
+            "SELECT id FROM entity_relationships WHERE target_field_id = ?"
+          ),
+          files: db
+            .prepare("SELECT * FROM field_files WHERE field_id = ?")
+            .all(field.id) as Record<string, unknown>[],
+        });
+      } catch (error) {
+        reject(error);
+      }
+    });
+  }
+
+  /**
+   * Restaurar un campo, modificado o eliminado, al estado guardado con snapshot
+   */
+  restore(snapshot: FieldSnapshot): Promise<void> {
+    return new Promise((resolve, reject) => {
+      try {
+        const db = this.getDb();
+        const { field } = snapshot;
+        const columns = Object.keys(field).filter((column) => column !== "id");
+        const values = columns.map(
+          (column) => (field as any)[column] ?? null
+        );
+
+        db.exec("BEGIN");
+        try {
+          const updated = db
+            .prepare(
+              `UPDATE fields SET ${columns
+                .map((column) => `${column} = ?`)
+                .join(", ")} WHERE id = ?`
+            )
+            .run(...values, field.id);
+
+          if (updated.changes === 0) {
+            db.prepare(
+              `INSERT INTO fields (id, ${columns.join(", ")})
+               VALUES (?, ${columns.map(() => "?").join(", ")})`
+            ).run(field.id, ...values);
+          }
+
+          const relink = (query: string, ids: string[]) => {
+            const stmt = db.prepare(query);
+            for (const id of ids) {
+              stmt.run(field.id, id);
+            }
+          };
+          relink(
+            "UPDATE fields SET foreign_field_id = ? WHERE id = ?",
+            snapshot.referencingFieldIds
+          );
+          relink(
+            "UPDATE entity_relationships SET source_field_id = ? WHERE id = ?",
+            snapshot.sourceRelationshipIds
+          );
+          relink(
+            "UPDATE entity_relationships SET target_field_id = ? WHERE id = ?",
+            snapshot.targetRelationshipIds
+          );
+
+          for (const file of snapshot.files) {
+            const fileColumns = Object.keys(file);
+            db.prepare(
+              `INSERT OR IGNORE INTO field_files (${fileColumns.join(", ")})
+               VALUES (${fileColumns.map(() => "?").join(", ")})`
+            ).run(...fileColumns.map((column) => file[column] as any));
+          }
+
+          db.exec("COMMIT");
+        } catch (error) {
+          db.exec("ROLLBACK");
+          throw error;
+        }
+
+        resolve();
+      } catch (error) {
+        reject(error);
+      }
+    });
+  }
+
   /**
    * Verificar si un campo existe
    */
@@ -1,5 +1,11 @@
 import { DatabaseSync } from "node:sqlite";
 import { getDatabase } from "../config/database";
+import {
+  executeListQuery,
+  ListPage,
+  ListQuery,
+  QueryColumns,
+} from "../utils/queryLanguage";
 
 export interface FileRecord {
   id: string;
@@ -50,6 +56,22 @@ export interface CreateFieldFileData {
   file_id: string;
 }
 
+/**
+ * Columnas por las que se pueden filtrar y ordenar los listados
+ */
+export const FILE_QUERY_COLUMNS: QueryColumns = {
+  id: "string",
+  original_name: "string",
+  filename: "string",
+  mimetype: "string",
+  size: "number",
+  is_image: "boolean",
+  width: "number",
+  height: "number",
+  created_at: "date",
+  updated_at: "date",
+};
+
 export class FileRepository {
   private getDb(): DatabaseSync {
     return getDatabase();
@@ -115,6 +137,21 @@ export class FileRepository {
     });
   }
 
+
+  /**
+   * Obtener una página de archivos según filtros y ordenación
+   */
+  findPage(query: ListQuery): Promise<ListPage<FileRecord>> {
+    return new Promise((resolve, reject) => {
+      try {
+        const db = this.getDb();
+        resolve(executeListQuery<FileRecord>(db, { from: "files" }, query));
+      } catch (error) {
+        reject(error);
+      }
+    });
+  }
+
   /**
    * Obtener un archivo por ID
    */
@@ -1,5 +1,11 @@
 import { DatabaseSync } from "node:sqlite";
 import { getDatabase } from "../config/database";
+import {
+  executeListQuery,
+  ListPage,
+  ListQuery,
+  QueryColumns,
+} from "../utils/queryLanguage";
 
 export interface Project {
   id: string;
@@ -19,6 +25,17 @@ export interface UpdateProjectData {
   description?: string;
 }
 
+/**
+ * Columnas por las que se pueden filtrar y ordenar los listados
+ */
+export const PROJECT_QUERY_COLUMNS: QueryColumns = {
+  id: "string",
+  name: "string",
+  description: "string",
+  created_at: "date",
+  updated_at: "date",
+};
+
 export class ProjectRepository {
   private getDb(): DatabaseSync {
     return getDatabase();
@@ -69,6 +86,21 @@ export class ProjectRepository {
     });
   }
 
+
+  /**
+   * Obtener una página de proyectos según filtros y ordenación
+   */
+  findPage(query: ListQuery): Promise<ListPage<Project>> {
+    return new Promise((resolve, reject) => {
+      try {
+        const db = this.getDb();
+        resolve(executeListQuery<Project>(db, { from: "projects" }, query));
+      } catch (error) {
+        reject(error);
+      }
+    });
+  }
+
   /**
    * Obtener un proyecto por ID
    */
@@ -0,0 +1,469 @@
+import { DatabaseSync, SupportedValueType } from "node:sqlite";
+import { getDatabase } from "../config/database";
+import { isDataColumn, quoteIdentifier } from "../utils/dataTables";
+import {
+  executeListQuery,
+  ListPage,
+  ListQuery,
+  QueryColumns,
+  QueryColumnType,
+} from "../utils/queryLanguage";
+import { JunctionLink, RelationLink } from "../utils/relationLinks";
+import { ensureDataTable, syncJunctionTable } from "../utils/schemaSync";
+import { Entity } from "./entityRepository";
+import { Field } from "./fieldRepository";
+
+export interface DataRecord {
+  id: string;
+  created_at: string;
+  updated_at: string;
+  [field: string]: unknown;
+}
+
+export type RecordValues = Record<string, unknown>;
+
+/**
+ * Entidad (y sus campos) sobre la que operan los registros
+ */
+export interface RecordTarget {
+  entity: Entity;
+  fields: Field[];
+}
+
+const FILE_TYPES = ["file", "image", "document"];
+
+/**
+ * Obtiene las columnas por las que se pueden filtrar y ordenar los registros
+ */
+export const getRecordQueryColumns = (fields: Field[]): QueryColumns => {
+  const columns: QueryColumns = {
+    id: "string",
+    created_at: "date",
+    updated_at: "date",
+  };
+
+  for (const field of fields.filter(isDataColumn)) {
+    let type: QueryColumnType = "string";
+    if (["integer", "number", "decimal"].includes(field.type)) {
+      type = "number";
+    } else if (field.type === "boolean") {
+      type = "boolean";
+    } else if (field.type === "date") {
+      type = "date";
+    }
+    columns[field.name] = type;
+  }
+
+  return columns;
+};
+
+export class RecordRepository {
+  private getDb(): DatabaseSync {
+    return getDatabase();
+  }
+
+  /**
+   * Asegura que la tabla intermedia de un vínculo muchos a muchos existe
+   */
+  private ensureJunction(link: RelationLink): JunctionLink {
+    if (!link.junction || !syncJunctionTable(link.relationship)) {
+      throw new Error(`La relación ${link.name} no es muchos a muchos`);
+    }
+    return link.junction;
+  }
+
+  /**
+   * Convierte un valor de la API al formato almacenado en SQLite
+   */
+  private toStorageValue(value: unknown): SupportedValueType {
+    if (value === null || value === undefined) {
+      return null;
+    }
+    if (typeof value === "boolean") {
+      return value ? 1 : 0;
+    }
+    if (typeof value === "number" || typeof value === "string") {
+      return value;
+    }
+    return JSON.stringify(value);
+  }
+
+  /**
+   * Convierte una fila de SQLite al formato expuesto por la API
+   */
+  private toRecord(target: RecordTarget, row: Record<string, unknown>) {
+    const record: DataRecord = {
+      id: row.id as string,
+      created_at: row.created_at as string,
+      updated_at: row.updated_at as string,
+    };
+
+    for (const field of target.fields.filter(isDataColumn)) {
+      const raw = row[field.name];
+
+      if (raw === null || raw === undefined) {
+        record[field.name] = null;
+      } else if (field.type === "boolean") {
+        record[field.name] = Boolean(raw);
+      } else if (
+        FILE_TYPES.includes(field.type) &&
+        field.accepts_multiple &&
+        typeof raw === "string"
+      ) {
+        try {
+          record[field.name] = JSON.parse(raw);
+        } catch {
+          record[field.name] = raw;
+        }
+      } else {
+        record[field.name] = raw;
+      }
+    }
+
+    return record;
+  }
+
+  /**
+   * Obtiene las columnas de datos presentes en los valores recibidos
+   */
+  private getColumns(target: RecordTarget, values: RecordValues): Field[] {
+    return target.fields
+      .filter(isDataColumn)
+      .filter((field) => values[field.name] !== undefined);
+  }
+
+  /**
+   * Crear un nuevo registro
+   */
+  create(
+    target: RecordTarget,
+    id: string,
+    values: RecordValues
+  ): Promise<DataRecord> {
+    return new Promise((resolve, reject) => {
+      try {
+        const tableName = ensureDataTable(target.entity, target.fields);
+        const columns = this.getColumns(target, values);
+
+        const query = `
+          INSERT INTO ${quoteIdentifier(tableName)} (${[
+          "id",
+          ...columns.map((field) => quoteIdentifier(field.name)),
+        ].join(", ")})
+          VALUES (${["?", ...columns.map(() => "?")].join(", ")})
+        `;
+
+        const db = this.getDb();
+        const stmt = db.prepare(query);
+        stmt.run(
+          id,
+          ...columns.map((field) => this.toStorageValue(values[field.name]))
+        );
+
+        // Obtener el registro creado
+        const selectQuery = `SELECT * FROM ${quoteIdentifier(
+          tableName
+        )} WHERE id = ?`;
+        const row = db.prepare(selectQuery).get(id) as Record<string, unknown>;
+
+        resolve(this.toRecord(target, row));
+      } catch (error) {
+        reject(error);
+      }
+    });
+  }
+
+  /**
+   * Obtener todos los registros de una entidad
+   */
+  findAll(target: RecordTarget): Promise<DataRecord[]> {
+    return new Promise((resolve, reject) => {
+      try {
+        const tableName = ensureDataTable(target.entity, target.fields);
+        const query = `SELECT * FROM ${quoteIdentifier(
+          tableName
+        )} ORDER BY created_at DESC`;
+        const db = this.getDb();
+        const rows = db.prepare(query).all() as Record<string, unknown>[];
+
+        resolve(rows.map((row) => this.toRecord(target, row)));
+      } catch (error) {
+        reject(error);
+      }
+    });
+  }
+
+  /**
+   * Obtener una página de registros según filtros y ordenación
+   */
+  findPage(
+    target: RecordTarget,
+    query: ListQuery
+  ): Promise<ListPage<DataRecord>> {
+    return new Promise((resolve, reject) => {
+      try {
+        const tableName = ensureDataTable(target.entity, target.fields);
+        const db = this.getDb();
+        const page = executeListQuery(
+          db,
+          { from: quoteIdentifier(tableName) },
+          query
+        );
+
+        resolve({
+          ...page,
+          items: page.items.map((row) => this.toRecord(target, row)),
+        });
+      } catch (error) {
+        reject(error);
+      }
+    });
+  }
+
+  /**
+   * Obtener un registro por ID
+   */
+  findById(target: RecordTarget, id: string): Promise<DataRecord | null> {
+    return new Promise((resolve, reject) => {
+      try {
+        const tableName = ensureDataTable(target.entity, target.fields);
+        const query = `SELECT * FROM ${quoteIdentifier(tableName)} WHERE id = ?`;
+        const db = this.getDb();
+        const row = db.prepare(query).get(id) as
+          | Record<string, unknown>
+          | undefined;
+
+        resolve(row ? this.toRecord(target, row) : null);
+      } catch (error) {
+        reject(error);
+      }
+    });
+  }
+
+  /**
+   * Obtener los registros cuya columna tiene alguno de los valores indicados
+   */
+  findByColumnValues(
+    target: RecordTarget,
+    column: string,
+    values: unknown[]
+  ): Promise<DataRecord[]> {
+    return new Promise((resolve, reject) => {
+      try {
+        const tableName = ensureDataTable(target.entity, target.fields);
+        const db = this.getDb();
+        const records: DataRecord[] = [];
+
+        // Se consulta por lotes para no superar el límite de parámetros de SQLite
+        for (let i = 0; i < values.length; i += 500) {
+          const chunk = values.slice(i, i + 500);
+          const query = `SELECT * FROM ${quoteIdentifier(
+            tableName
+          )} WHERE ${quoteIdentifier(column)} IN (${chunk
+            .map(() => "?")
+            .join(", ")}) ORDER BY created_at ASC`;
+          const rows = db
+            .prepare(query)
+            .all(...chunk.map((value) => this.toStorageValue(value))) as Record<
+            string,
+            unknown
+          >[];
+          records.push(...rows.map((row) => this.toRecord(target, row)));
+        }
+
+        resolve(records);
+      } catch (error) {
+        reject(error);
+      }
+    });
+  }
+
+  /**
+   * Actualizar un registro (solo las columnas presentes en los valores)
+   */
+  update(
+    target: RecordTarget,
+    id: string,
+    values: RecordValues
+  ): Promise<DataRecord | null> {
+    return new Promise((resolve, reject) => {
+      try {
+        const tableName = ensureDataTable(target.entity, target.fields);
+        const columns = this.getColumns(target, values);
+
+        const assignments = [
+          ...columns.map((field) => `${quoteIdentifier(field.name)} = ?`),
+          "updated_at = CURRENT_TIMESTAMP",
+        ];
+        const query = `UPDATE ${quoteIdentifier(
+          tableName
+        )} SET ${assignments.join(", ")} WHERE id = ?`;
+
+        const db = this.getDb();
+        const result = db
+          .prepare(query)
+          .run(
+            ...columns.map((field) => this.toStorageValue(values[field.name])),
+            id
+          );
+
+        if (result.changes === 0) {
+          resolve(null); // Registro no encontrado
+          return;
+        }
+
+        // Obtener el registro actualizado
+        const selectQuery = `SELECT * FROM ${quoteIdentifier(
+          tableName
+        )} WHERE id = ?`;
+        const row = db.prepare(selectQuery).get(id) as Record<string, unknown>;
+
+        resolve(this.toRecord(target, row));
+      } catch (error) {
+        reject(error);
+      }
+    });
+  }
+
+  /**
+   * Verificar si otro registro ya tiene un valor en un campo
+   */
+  isValueTaken(
+    target: RecordTarget,
+    field: Field,
+    value: unknown,
+    excludeId?: string
+  ): Promise<boolean> {
+    return new Promise((resolve, reject) => {
+      try {
+        const tableName = ensureDataTable(target.entity, target.fields);
+        const query = `SELECT 1 FROM ${quoteIdentifier(
+          tableName
+        )} WHERE ${quoteIdentifier(field.name)} = ? AND id <> ? LIMIT 1`;
+        const db = this.getDb();
+        const row = db
+          .prepare(query)
+          .get(this.toStorageValue(value), excludeId ?? "");
+
+        resolve(row !== undefined);
+      } catch (error) {
+        reject(error);
+      }
+    });
+  }
+
+  /**
+   * Obtener los vínculos de una relación muchos a muchos para varios registros
+   */
+  findJunctionPairs(
+    link: RelationLink,
+    ids: string[]
+  ): Promise<Array<{ local_id: string; remote_id: string }>> {
+    return new Promise((resolve, reject) => {
+      try {
+        const { table, localColumn, remoteColumn } = this.ensureJunction(link);
+        const db = this.getDb();
+        const pairs: Array<{ local_id: string; remote_id: string }> = [];
+
+        for (let i = 0; i < ids.length; i += 500) {
+          const chunk = ids.slice(i, i + 500);
+          const query = `SELECT ${localColumn} as local_id, ${remoteColumn} as remote_id FROM ${quoteIdentifier(
+            table
+          )} WHERE ${localColumn} IN (${chunk
+            .map(() => "?")
+            .join(", ")}) ORDER BY created_at ASC`;
+          pairs.push(
+            ...(db.prepare(query).all(...chunk) as Array<{
+              local_id: string;
+              remote_id: string;
+            }>)
+          );
+        }
+
+        resolve(pairs);
+      } catch (error) {
+        reject(error);
+      }
+    });
+  }
+
+  /**
+   * Vincular un registro con otros a través de una relación muchos a muchos.
+   * Devuelve la cantidad de vínculos nuevos (los existentes se ignoran).
+   */
+  link(link: RelationLink, id: string, relatedIds: string[]): Promise<number> {
+    return new Promise((resolve, reject) => {
+      try {
+        const { table, localColumn, remoteColumn } = this.ensureJunction(link);
+        const db = this.getDb();
+        const insert = db.prepare(
+          `INSERT OR IGNORE INTO ${quoteIdentifier(
+            table
+          )} (${localColumn}, ${remoteColumn}) VALUES (?, ?)`
+        );
+        let created = 0;
+
+        db.exec("BEGIN");
+        try {
+          for (const relatedId of relatedIds) {
+            created += Number(insert.run(id, relatedId).changes);
+          }
+          db.exec("COMMIT");
+        } catch (error) {
+          db.exec("ROLLBACK");
+          throw error;
+        }
+
+        resolve(created);
+      } catch (error) {
+        reject(error);
+      }
+    });
+  }
+
+  /**
+   * Desvincular un registro de otros en una relación muchos a muchos.
+   * Devuelve la cantidad de vínculos eliminados.
+   */
+  unlink(link: RelationLink, id: string, relatedIds: string[]): Promise<number> {
+    return new Promise((resolve, reject) => {
+      try {
+        const { table, localColumn, remoteColumn } = this.ensureJunction(link);
+        const db = this.getDb();
+        let removed = 0;
+
+        for (let i = 0; i < relatedIds.length; i += 500) {
+          const chunk = relatedIds.slice(i, i + 500);
+          const query = `DELETE FROM ${quoteIdentifier(
+            table
+          )} WHERE ${localColumn} = ? AND ${remoteColumn} IN (${chunk
+            .map(() => "?")
+            .join(", ")})`;
+          removed += Number(db.prepare(query).run(id, ...chunk).changes);
+        }
+
+        resolve(removed);
+      } catch (error) {
+        reject(error);
+      }
+    });
+  }
+
+  /**
+   * Eliminar un registro
+   */
+  delete(target: RecordTarget, id: string): Promise<boolean> {
+    return new Promise((resolve, reject) => {
+      try {
+        const tableName = ensureDataTable(target.entity, target.fields);
+        const query = `DELETE FROM ${quoteIdentifier(tableName)} WHERE id = ?`;
+        const db = this.getDb();
+        const result = db.prepare(query).run(id);
+
+        resolve(result.changes > 0);
+      } catch (error) {
+        reject(error);
+      }
+    });
+  }
+}
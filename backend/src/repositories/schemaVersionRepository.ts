@@ -0,0 +1,319 @@
+import { DatabaseSync } from "node:sqlite";
+import { getDatabase } from "../config/database";
+import {
+  executeListQuery,
+  ListPage,
+  ListQuery,
+  QueryColumns,
+} from "../utils/queryLanguage";
+import { RelationshipType } from "./entityRelationshipRepository";
+
+/**
+ * Campo tal como queda guardado en una versión del esquema
+ */
+export interface SnapshotField {
+  id: string;
+  name: string;
+  type: string;
+  is_required: boolean;
+  is_unique: boolean;
+  is_primary_key: boolean;
+  is_foreign_key: boolean;
+  foreign_entity_id?: string;
+  foreign_field_id?: string;
+  default_value?: string;
+  max_length?: number;
+  description?: string;
+  accepts_multiple: boolean;
+  max_file_size?: number;
+  allowed_extensions?: string;
+}
+
+export interface SnapshotEntity {
+  id: string;
+  name: string;
+  description?: string;
+  fields: SnapshotField[];
+}
+
+export interface SnapshotRelationship {
+  id: string;
+  source_entity_id: string;
+  target_entity_id: string;
+  relationship_type: RelationshipType;
+  source_field_id?: string;
+  target_field_id?: string;
+  name?: string;
+  description?: string;
+  is_required: boolean;
+  cascade_delete: boolean;
+}
+
+/**
+ * Modelo completo de un proyecto en un momento dado
+ */
+export interface SchemaSnapshot {
+  entities: SnapshotEntity[];
+  relationships: SnapshotRelationship[];
+}
+
+/**
+ * Versión del esquema sin el modelo guardado (listados)
+ */
+export interface SchemaVersionSummary {
+  id: string;
+  project_id: string;
+  version: number;
+  tag?: string;
+  message?: string;
+  checksum: string;
+  entity_count: number;
+  field_count: number;
+  relationship_count: number;
+  created_at: string;
+}
+
+export interface SchemaVersion extends SchemaVersionSummary {
+  snapshot: SchemaSnapshot;
+}
+
+export interface CreateSchemaVersionData {
+  project_id: string;
+  message?: string;
+  checksum: string;
+  snapshot: SchemaSnapshot;
+}
+
+/**
+ * Columnas por las que se pueden filtrar y ordenar los listados
+ */
+export const SCHEMA_VERSION_QUERY_COLUMNS: QueryColumns = {
+  id: "string",
+  version: "number",
+  tag: "string",
+  message: "string",
+  checksum: "string",
+  entity_count: "number",
+  field_count: "number",
+  relationship_count: "number",
+  created_at: "date",
+};
+
+const SUMMARY_COLUMNS = `id, project_id, version, tag, message, checksum,
+  entity_count, field_count, relationship_count, created_at`;
+
+interface SchemaVersionRow extends SchemaVersionSummary {
+  snapshot: string;
+}
+
+const toSchemaVersion = (row: SchemaVersionRow): SchemaVersion => ({
+  ...row,
+  snapshot: JSON.parse(row.snapshot) as SchemaSnapshot,
+});
+
+export class SchemaVersionRepository {
+  private getDb(): DatabaseSync {
+    return getDatabase();
+  }
+
+  /**
+   * Guardar una nueva versión con el número siguiente del proyecto
+   */
+  create(id: string, data: CreateSchemaVersionData): Promise<SchemaVersion> {
+    return new Promise((resolve, reject) => {
+      try {
+        const { snapshot } = data;
+        const query = `
+          INSERT INTO schema_versions (
+            id, project_id, version, message, checksum, snapshot,
+            entity_count, field_count, relationship_count
+          )
+          SELECT ?, ?, COALESCE(MAX(version), 0) + 1, ?, ?, ?, ?, ?, ?
+          FROM schema_versions WHERE project_id = ?
+        `;
+
+        const db = this.getDb();
+        const stmt = db.prepare(query);
+        stmt.run(
+          id,
+          data.project_id,
+          data.message || null,
+          data.checksum,
+          JSON.stringify(snapshot),
+          snapshot.entities.length,
+          snapshot.entities.reduce(
+            (total, entity) => total + entity.fields.length,
+            0
+          ),
+          snapshot.relationships.length,
+          data.project_id
+        );
+
+        // Obtener la versión creada
+        const selectQuery = "SELECT * FROM schema_versions WHERE id = ?";
+        const selectStmt = db.prepare(selectQuery);
+        const version = selectStmt.get(id) as unknown as SchemaVersionRow;
+
+        resolve(toSchemaVersion(version));
+      } catch (error) {
+        reject(error);
+      }
+    });
+  }
+
+  /**
+   * Obtener una página de versiones de un proyecto (sin el modelo guardado)
+   */
+  findPageByProjectId(
+    projectId: string,
+    query: ListQuery
+  ): Promise<ListPage<SchemaVersionSummary>> {
+    return new Promise((resolve, reject) => {
+      try {
+        const db = this.getDb();
+        resolve(
+          executeListQuery<SchemaVersionSummary>(
+            db,
+            {
+              from: `(SELECT ${SUMMARY_COLUMNS} FROM schema_versions) AS versions`,
+              where: "project_id = ?",
+              params: [projectId],
+            },
+            query
+          )
+        );
+      } catch (error) {
+        reject(error);
+      }
+    });
+  }
+
+  /**
+   * Obtener todas las versiones de un proyecto, de la primera a la última
+   */
+  findByProjectId(projectId: string): Promise<SchemaVersion[]> {
+    return new Promise((resolve, reject) => {
+      try {
+        const query =
+          "SELECT * FROM schema_versions WHERE project_id = ? ORDER BY version ASC";
+        const db = this.getDb();
+        const stmt = db.prepare(query);
+        const rows = stmt.all(projectId) as unknown as SchemaVersionRow[];
+
+        resolve(rows.map(toSchemaVersion));
+      } catch (error) {
+        reject(error);
+      }
+    });
+  }
+
+  /**
+   * Obtener la última versión de un proyecto
+   */
+  findLatest(projectId: string): Promise<SchemaVersion | null> {
+    return new Promise((resolve, reject) => {
+      try {
+        const query = `
+          SELECT * FROM schema_versions WHERE project_id = ?
+          ORDER BY version DESC LIMIT 1
+        `;
+        const db = this.getDb();
+        const stmt = db.prepare(query);
+        const version = stmt.get(projectId) as SchemaVersionRow | undefined;
+
+        resolve(version ? toSchemaVersion(version) : null);
+      } catch (error) {
+        reject(error);
+      }
+    });
+  }
+
+  /**
+   * Obtener una versión de un proyecto por su número
+   */
+  findByVersion(
+    projectId: string,
+    version: number
+  ): Promise<SchemaVersion | null> {
+    return new Promise((resolve, reject) => {
+      try {
+        const query =
+          "SELECT * FROM schema_versions WHERE project_id = ? AND version = ?";
+        const db = this.getDb();
+        const stmt = db.prepare(query);
+        const row = stmt.get(projectId, version) as
+          | SchemaVersionRow
+          | undefined;
+
+        resolve(row ? toSchemaVersion(row) : null);
+      } catch (error) {
+        reject(error);
+      }
+    });
+  }
+
+  /**
+   * Obtener una versión de un proyecto por su etiqueta
+   */
+  findByTag(projectId: string, tag: string): Promise<SchemaVersion | null> {
+    return new Promise((resolve, reject) => {
+      try {
+        const query =
+          "SELECT * FROM schema_versions WHERE project_id = ? AND tag = ?";
+        const db = this.getDb();
+        const stmt = db.prepare(query);
+        const row = stmt.get(projectId, tag) as SchemaVersionRow | undefined;
+
+        resolve(row ? toSchemaVersion(row) : null);
+      } catch (error) {
+        reject(error);
+      }
+    });
+  }
+
+  /**
+   * Asignar (o quitar, con null) la etiqueta de una versión
+   */
+  setTag(id: string, tag: string | null): Promise<SchemaVersion | null> {
+    return new Promise((resolve, reject) => {
+      try {
+        const db = this.getDb();
+        const stmt = db.prepare(
+          "UPDATE schema_versions SET tag = ? WHERE id = ?"
+        );
+        const result = stmt.run(tag, id);
+
+        if (result.changes === 0) {
+          resolve(null); // Versión no encontrada
+          return;
+        }
+
+        const selectQuery = "SELECT * FROM schema_versions WHERE id = ?";
+        const selectStmt = db.prepare(selectQuery);
+        const version = selectStmt.get(id) as unknown as SchemaVersionRow;
+
+        resolve(toSchemaVersion(version));
+      } catch (error) {
+        reject(error);
+      }
+    });
+  }
+
+  /**
+   * Verificar si un proyecto tiene alguna versión guardada
+   */
+  existsForProject(projectId: string): Promise<boolean> {
+    return new Promise((resolve, reject) => {
+      try {
+        const query = "SELECT 1 FROM schema_versions WHERE project_id = ? LIMIT 1";
+        const db = this.getDb();
+        const stmt = db.prepare(query);
+        const result = stmt.get(projectId);
+
+        resolve(!!result);
+      } catch (error) {
+        reject(error);
+      }
+    });
+  }
+}
@@ -10,6 +10,7 @@ const router = Router();
  * /api/analytics/stats:
  *   get:
  *     summary: Obtiene estadísticas generales de uso de la API
+ *     operationId: getAnalyticsStats
  *     tags: [Analytics]
  *     parameters:
  *       - in: query
@@ -142,6 +143,7 @@ router.get("/stats", async (req: Request, res: Response) => {
  * /api/analytics/projects/{projectId}/stats:
  *   get:
  *     summary: Obtiene estadísticas de uso para un proyecto específico
+ *     operationId: getProjectAnalyticsStats
  *     tags: [Analytics]
  *     parameters:
  *       - in: path
@@ -248,6 +250,7 @@ router.get("/projects/:projectId/stats", getProjectStats);
  * /api/analytics/health:
  *   get:
  *     summary: Obtiene métricas de salud del sistema de logging
+ *     operationId: getAnalyticsHealth
  *     tags: [Analytics]
  *     responses:
  *       200:
@@ -318,6 +321,7 @@ router.get("/health", async (req: Request, res: Response) => {
  * /api/analytics/logs:
  *   get:
  *     summary: Obtiene lista de logs con paginación y filtros
+ *     operationId: listAnalyticsLogs
  *     tags: [Analytics]
  *     parameters:
  *       - in: query
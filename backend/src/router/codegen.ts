@@ -0,0 +1,106 @@
+import { Request, Response, Router } from "express";
+import { specs } from "../config/swagger";
+import { ProjectRepository } from "../repositories/projectRepository";
+import { generateApiClient } from "../utils/apiClientCodegen";
+import { generateProjectTypescript } from "../utils/typescriptCodegen";
+
+const router = Router();
+const projectRepository = new ProjectRepository();
+
+/**
+ * @swagger
+ * /api/projects/{projectId}/codegen/typescript:
+ *   get:
+ *     summary: Generar tipos TypeScript y esquemas Zod de las entidades de un proyecto
+ *     operationId: generateProjectTypescript
+ *     description: Devuelve un módulo TypeScript descargable con una interfaz y un esquema Zod por entidad para los registros (con las relaciones que se pueden incrustar con ?include), los datos de creación (Input) y los de modificación parcial (Patch). Requiere zod en la aplicación cliente
+ *     tags: [Projects]
+ *     parameters:
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: ID del proyecto
+ *     responses:
+ *       200:
+ *         description: Módulo TypeScript (adjunto)
+ *         content:
+ *           text/plain:
+ *             schema:
+ *               type: string
+ *       404:
+ *         description: Proyecto no encontrado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get(
+  "/projects/:projectId/codegen/typescript",
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const project = await projectRepository.findById(req.params.projectId);
+      if (!project) {
+        res.status(404).json({
+          error: "Not Found",
+          message: "Proyecto no encontrado",
+        });
+        return;
+      }
+
+      const code = await generateProjectTypescript(project);
+      const fileName =
+        project.name
+          .replace(/[^A-Za-z0-9_-]+/g, "-")
+          .replace(/^-+|-+$/g, "")
+          .toLowerCase() || "models";
+      res.type("text/plain");
+      res.setHeader(
+        "Content-Disposition",
+        `attachment; filename="${fileName}.ts"`
+      );
+      res.send(code);
+    } catch (error) {
+      console.error("Error generating project TypeScript:", error);
+      res.status(500).json({
+        error: "Internal Server Error",
+        message: "Error interno del servidor",
+      });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/codegen/sdk:
+ *   get:
+ *     summary: Generar el cliente TypeScript de esta API
+ *     operationId: generateApiClient
+ *     description: Devuelve un módulo TypeScript descargable y sin dependencias, basado en fetch, con un método tipado por cada operación documentada en esta especificación (proyectos, entidades, campos, relaciones, registros, diagramas, archivos y analytics). Es el mismo cliente que genera npm run sdk:generate
+ *     tags: [Codegen]
+ *     responses:
+ *       200:
+ *         description: Módulo TypeScript (adjunto)
+ *         content:
+ *           text/plain:
+ *             schema:
+ *               type: string
+ */
+router.get("/codegen/sdk", (req: Request, res: Response): void => {
+  try {
+    const code = generateApiClient(specs);
+    res.type("text/plain");
+    res.setHeader("Content-Disposition", 'attachment; filename="client.ts"');
+    res.send(code);
+  } catch (error) {
+    console.error("Error generating API client:", error);
+    res.status(500).json({
+      error: "Internal Server Error",
+      message: "Error interno del servidor",
+    });
+  }
+});
+
+export default router;
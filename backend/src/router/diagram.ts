@@ -1,9 +1,25 @@
 import { Request, Response, Router } from "express";
+import { DiagramLayoutRepository } from "../repositories/diagramLayoutRepository";
 import { DiagramRepository } from "../repositories/diagramRepository";
+import { EntityRepository } from "../repositories/entityRepository";
 import { ProjectRepository } from "../repositories/projectRepository";
+import {
+  DIAGRAM_AUTO_LAYOUTS,
+  DiagramAutoLayout,
+} from "../utils/diagramAutoLayout";
+import { DiagramLayoutError, parseDiagramLayout } from "../utils/diagramLayout";
+import {
+  DIAGRAM_IMAGE_FORMATS,
+  DiagramImageFormat,
+  renderDiagramPdf,
+  renderDiagramPng,
+  renderDiagramSvg,
+} from "../utils/diagramRender";
 
 const router = Router();
+const diagramLayoutRepository = new DiagramLayoutRepository();
 const diagramRepository = new DiagramRepository();
+const entityRepository = new EntityRepository();
 const projectRepository = new ProjectRepository();
 
 /**
@@ -11,7 +27,8 @@ const projectRepository = new ProjectRepository();
  * /api/projects/{projectId}/diagram:
  *   get:
  *     summary: Obtiene el diagrama UML de un proyecto
- *     description: Genera y devuelve la estructura JSON compatible con React Flow para representar el diagrama UML de las entidades y relaciones de un proyecto
+ *     operationId: getProjectDiagram
+ *     description: Genera y devuelve la estructura JSON compatible con React Flow para representar el diagrama UML de las entidades y relaciones de un proyecto. Si se guardó una disposición (PUT /diagram/layout), los nodos llevan su posición, tamaño y estado plegado y el viewport es el guardado; las entidades creadas después se colocan junto a una entidad relacionada. Las aristas salen de las relaciones del proyecto y de los campos marcados como clave foránea; se unen a la fila de la clave foránea y a la del campo referenciado (sourceHandle y targetHandle con el ID del campo o "id" para la clave primaria implícita) y llevan en cada extremo la cardinalidad según el tipo de relación
  *     tags: [Diagrams]
  *     parameters:
  *       - in: path
@@ -20,6 +37,18 @@ const projectRepository = new ProjectRepository();
  *         schema:
  *           type: string
  *         description: ID del proyecto
+ *       - in: query
+ *         name: suggested
+ *         schema:
+ *           type: boolean
+ *           default: false
+ *         description: Añade como sugerencias (origin suggested) las referencias que indica el nombre de los campos no marcados como clave foránea, como user_id hacia User
+ *       - in: query
+ *         name: layout
+ *         schema:
+ *           type: string
+ *           enum: [layered, force, orthogonal]
+ *         description: Recalcula las posiciones en lugar de usar la disposición guardada. layered coloca las entidades por capas de arriba abajo (las referenciadas encima) reduciendo los cruces de aristas; force usa un modelo de fuerzas en el que las entidades relacionadas se atraen; orthogonal coloca las capas de izquierda a derecha, alineadas a una rejilla de 25px y con aristas de tipo step. Conserva el tamaño y el estado plegado guardados y devuelve el viewport inicial; para conservar el resultado se guarda con PUT /diagram/layout
  *     responses:
  *       200:
  *         description: Diagrama UML generado exitosamente
@@ -49,6 +78,12 @@ const projectRepository = new ProjectRepository();
  *                                 type: number
  *                               y:
  *                                 type: number
+ *                           width:
+ *                             type: number
+ *                             description: Ancho guardado del nodo
+ *                           height:
+ *                             type: number
+ *                             description: Alto guardado del nodo
  *                           data:
  *                             type: object
  *                             properties:
@@ -56,8 +91,14 @@ const projectRepository = new ProjectRepository();
  *                                 type: string
  *                               entity:
  *                                 type: object
+ *                               primaryKey:
+ *                                 type: string
+ *                                 description: Handle de la clave primaria (ID del campo o "id")
  *                               fields:
  *                                 type: array
+ *                               collapsed:
+ *                                 type: boolean
+ *                                 description: Si el nodo se muestra plegado
  *                     edges:
  *                       type: array
  *                       items:
@@ -69,19 +110,46 @@ const projectRepository = new ProjectRepository();
  *                             type: string
  *                           target:
  *                             type: string
+ *                           sourceHandle:
+ *                             type: string
+ *                             description: ID del campo del nodo origen o "id"
+ *                           targetHandle:
+ *                             type: string
+ *                             description: ID del campo del nodo destino o "id"
  *                           type:
  *                             type: string
  *                           label:
  *                             type: string
+ *                           markerStart:
+ *                             type: string
+ *                             example: cardinality-zero_or_many
+ *                           markerEnd:
+ *                             type: string
+ *                             example: cardinality-one
+ *                           animated:
+ *                             type: boolean
+ *                           data:
+ *                             type: object
+ *                             properties:
+ *                               relationship:
+ *                                 type: string
+ *                                 enum: [one_to_one, one_to_many, many_to_one, many_to_many]
+ *                               sourceCardinality:
+ *                                 $ref: '#/components/schemas/DiagramCardinality'
+ *                               targetCardinality:
+ *                                 $ref: '#/components/schemas/DiagramCardinality'
+ *                               origin:
+ *                                 type: string
+ *                                 enum: [relationship, foreign_key, suggested]
+ *                               relationshipId:
+ *                                 type: string
+ *                               fieldId:
+ *                                 type: string
+ *                                 description: Campo que guarda la clave foránea
  *                     viewport:
- *                       type: object
- *                       properties:
- *                         x:
- *                           type: number
- *                         y:
- *                           type: number
- *                         zoom:
- *                           type: number
+ *                       $ref: '#/components/schemas/DiagramViewport'
+ *       400:
+ *         description: Algoritmo de disposición no soportado
  *       404:
  *         description: Proyecto no encontrado
  *       500:
@@ -103,8 +171,26 @@ router.get(
         return;
       }
 
+      const { layout } = req.query;
+      if (
+        layout !== undefined &&
+        !DIAGRAM_AUTO_LAYOUTS.includes(layout as DiagramAutoLayout)
+      ) {
+        res.status(400).json({
+          error: "Disposición no soportada",
+          message: `Algoritmos permitidos: ${DIAGRAM_AUTO_LAYOUTS.join(", ")}`,
+        });
+        return;
+      }
+
       // Generar el diagrama UML
-      const diagramData = await diagramRepository.generateUMLDiagram(projectId);
+      const diagramData = await diagramRepository.generateUMLDiagram(
+        projectId,
+        {
+          suggested: req.query.suggested === "true",
+          layout: layout as DiagramAutoLayout | undefined,
+        }
+      );
 
       res.json({
         message: "Diagrama UML generado exitosamente",
@@ -125,12 +211,246 @@ router.get(
   }
 );
 
+/**
+ * @swagger
+ * /api/projects/{projectId}/diagram/export:
+ *   get:
+ *     summary: Exporta el diagrama de un proyecto como imagen
+ *     operationId: exportProjectDiagram
+ *     description: Dibuja en el servidor el mismo diagrama que GET /diagram (con la disposición guardada si existe) con cada entidad, sus campos, tipos y distintivos PK, FK y UQ, y las aristas en ángulo recto con la cardinalidad de cada extremo en notación pata de gallo. El PNG y el PDF se rasterizan a doble resolución salvo en diagramas muy grandes
+ *     tags: [Diagrams]
+ *     parameters:
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: ID del proyecto
+ *       - in: query
+ *         name: format
+ *         schema:
+ *           type: string
+ *           enum: [svg, png, pdf]
+ *           default: svg
+ *         description: Formato de la imagen
+ *       - in: query
+ *         name: layout
+ *         schema:
+ *           type: string
+ *           enum: [layered, force, orthogonal]
+ *         description: Recalcula las posiciones como en GET /diagram en lugar de usar la disposición guardada
+ *       - in: query
+ *         name: suggested
+ *         schema:
+ *           type: boolean
+ *           default: false
+ *         description: Incluye, con línea discontinua, las referencias que sugiere el nombre de los campos
+ *     responses:
+ *       200:
+ *         description: Imagen del diagrama
+ *         content:
+ *           image/svg+xml:
+ *             schema:
+ *               type: string
+ *           image/png:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *           application/pdf:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       400:
+ *         description: Formato o algoritmo de disposición no soportado
+ *       404:
+ *         description: Proyecto no encontrado
+ *       500:
+ *         description: Error interno del servidor
+ */
+router.get(
+  "/projects/:projectId/diagram/export",
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { projectId } = req.params;
+
+      // Verificar que el proyecto existe
+      const project = await projectRepository.findById(projectId);
+      if (!project) {
+        res.status(404).json({
+          error: "Proyecto no encontrado",
+          message: `No se encontró un proyecto con el ID: ${projectId}`,
+        });
+        return;
+      }
+
+      const format = req.query.format ?? "svg";
+      if (!DIAGRAM_IMAGE_FORMATS.includes(format as DiagramImageFormat)) {
+        res.status(400).json({
+          error: "Formato no soportado",
+          message: `Formatos permitidos: ${DIAGRAM_IMAGE_FORMATS.join(", ")}`,
+        });
+        return;
+      }
+
+      const { layout } = req.query;
+      if (
+        layout !== undefined &&
+        !DIAGRAM_AUTO_LAYOUTS.includes(layout as DiagramAutoLayout)
+      ) {
+        res.status(400).json({
+          error: "Disposición no soportada",
+          message: `Algoritmos permitidos: ${DIAGRAM_AUTO_LAYOUTS.join(", ")}`,
+        });
+        return;
+      }
+
+      const diagramData = await diagramRepository.generateUMLDiagram(
+        projectId,
+        {
+          suggested: req.query.suggested === "true",
+          layout: layout as DiagramAutoLayout | undefined,
+        }
+      );
+      const diagram = renderDiagramSvg(diagramData, project.name);
+
+      const fileName =
+        project.name
+          .replace(/[^A-Za-z0-9_-]+/g, "-")
+          .replace(/^-+|-+$/g, "")
+          .toLowerCase() || "diagram";
+      res.setHeader(
+        "Content-Disposition",
+        `attachment; filename="${fileName}.${format}"`
+      );
+
+      switch (format as DiagramImageFormat) {
+        case "png":
+          res.type("image/png").send(await renderDiagramPng(diagram));
+          break;
+        case "pdf":
+          res.type("application/pdf").send(await renderDiagramPdf(diagram));
+          break;
+        default:
+          res.type("image/svg+xml").send(diagram.svg);
+      }
+    } catch (error) {
+      console.error("Error exportando diagrama:", error);
+      res.status(500).json({
+        error: "Error exportando diagrama",
+        message: error instanceof Error ? error.message : "Error desconocido",
+      });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/projects/{projectId}/diagram/layout:
+ *   put:
+ *     summary: Guarda la disposición del diagrama de un proyecto
+ *     operationId: saveProjectDiagramLayout
+ *     description: Reemplaza la posición, el tamaño y el estado plegado de los nodos y el viewport guardados para el diagrama del proyecto. Las entidades que no aparecen en nodes se colocan junto a una entidad relacionada al obtener el diagrama
+ *     tags: [Diagrams]
+ *     parameters:
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: ID del proyecto
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [nodes]
+ *             properties:
+ *               nodes:
+ *                 type: array
+ *                 items:
+ *                   $ref: '#/components/schemas/DiagramNodeLayout'
+ *               viewport:
+ *                 $ref: '#/components/schemas/DiagramViewport'
+ *     responses:
+ *       200:
+ *         description: Disposición guardada exitosamente
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   $ref: '#/components/schemas/DiagramLayout'
+ *       400:
+ *         description: Disposición inválida o con entidades de otro proyecto
+ *       404:
+ *         description: Proyecto no encontrado
+ *       500:
+ *         description: Error interno del servidor
+ */
+router.put(
+  "/projects/:projectId/diagram/layout",
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { projectId } = req.params;
+
+      // Verificar que el proyecto existe
+      const project = await projectRepository.findById(projectId);
+      if (!project) {
+        res.status(404).json({
+          error: "Proyecto no encontrado",
+          message: `No se encontró un proyecto con el ID: ${projectId}`,
+        });
+        return;
+      }
+
+      const data = parseDiagramLayout(req.body);
+
+      // Los nodos deben ser entidades del proyecto
+      const entities = await entityRepository.findByProjectId(projectId);
+      const entityIds = new Set(entities.map((entity) => entity.id));
+      const unknown = data.nodes.find((node) => !entityIds.has(node.id));
+      if (unknown) {
+        res.status(400).json({
+          error: "Disposición inválida",
+          message: `La entidad ${unknown.id} no pertenece al proyecto`,
+        });
+        return;
+      }
+
+      const layout = await diagramLayoutRepository.save(projectId, data);
+
+      res.json({
+        message: "Disposición guardada exitosamente",
+        data: layout,
+      });
+    } catch (error) {
+      if (error instanceof DiagramLayoutError) {
+        res.status(400).json({
+          error: "Disposición inválida",
+          message: error.message,
+        });
+        return;
+      }
+      console.error("Error guardando disposición del diagrama:", error);
+      res.status(500).json({
+        error: "Error guardando disposición del diagrama",
+        message: error instanceof Error ? error.message : "Error desconocido",
+      });
+    }
+  }
+);
+
 /**
  * @swagger
  * /api/projects/{projectId}/diagram/relationships:
  *   get:
  *     summary: Obtiene las relaciones entre entidades de un proyecto
- *     description: Devuelve información detallada sobre las relaciones entre entidades del proyecto
+ *     operationId: getProjectDiagramRelationships
+ *     description: Devuelve una entrada por cada arista del diagrama, con el campo que guarda la clave foránea cuando existe
  *     tags: [Diagrams]
  *     parameters:
  *       - in: path
@@ -139,6 +459,12 @@ router.get(
  *         schema:
  *           type: string
  *         description: ID del proyecto
+ *       - in: query
+ *         name: suggested
+ *         schema:
+ *           type: boolean
+ *           default: false
+ *         description: Añade como sugerencias (origin suggested) las referencias que indica el nombre de los campos no marcados como clave foránea, como user_id hacia User
  *     responses:
  *       200:
  *         description: Relaciones obtenidas exitosamente
@@ -162,6 +488,9 @@ router.get(
  *                         type: string
  *                       relationship_type:
  *                         type: string
+ *                       origin:
+ *                         type: string
+ *                         enum: [relationship, foreign_key, suggested]
  *       404:
  *         description: Proyecto no encontrado
  *       500:
@@ -185,7 +514,8 @@ router.get(
 
       // Obtener las relaciones
       const relationships = await diagramRepository.getEntityRelationships(
-        projectId
+        projectId,
+        { suggested: req.query.suggested === "true" }
       );
 
       res.json({
@@ -207,6 +537,7 @@ router.get(
  * /api/projects/{projectId}/diagram/stats:
  *   get:
  *     summary: Obtiene estadísticas del diagrama de un proyecto
+ *     operationId: getProjectDiagramStats
  *     description: Devuelve estadísticas sobre entidades, campos y relaciones del proyecto
  *     tags: [Diagrams]
  *     parameters:
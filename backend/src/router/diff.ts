@@ -0,0 +1,156 @@
+import { Request, Response, Router } from "express";
+import { ProjectRepository } from "../repositories/projectRepository";
+import { SchemaSnapshot } from "../repositories/schemaVersionRepository";
+import { diffSchemaSnapshots } from "../utils/schemaDiff";
+import {
+  buildSchemaSnapshot,
+  findSchemaVersion,
+} from "../utils/schemaVersions";
+
+const router = Router();
+const projectRepository = new ProjectRepository();
+
+/**
+ * Modelo actual del proyecto o el guardado en una de sus versiones
+ */
+const loadSnapshot = async (
+  projectId: string,
+  version?: string
+): Promise<{ version?: number; snapshot: SchemaSnapshot } | null> => {
+  if (!version) {
+    return { snapshot: await buildSchemaSnapshot(projectId) };
+  }
+  const found = await findSchemaVersion(projectId, version);
+  return found ? { version: found.version, snapshot: found.snapshot } : null;
+};
+
+/**
+ * @swagger
+ * /api/projects/{projectId}/diff:
+ *   get:
+ *     summary: Comparar el esquema de un proyecto con otro proyecto o versión
+ *     operationId: diffProjectSchema
+ *     description: Compara las entidades, campos y relaciones del proyecto (o de una de sus versiones) con las de otro proyecto o versión, emparejándolos por nombre. Los cambios se expresan desde el esquema indicado en against/against_version hacia el del proyecto y se clasifican como incompatibles (breaking) cuando pueden romper a quien usa ese esquema
+ *     tags: [Projects]
+ *     parameters:
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: ID del proyecto
+ *       - in: query
+ *         name: against
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: ID del proyecto con el que comparar. Por defecto, el mismo proyecto (requiere against_version)
+ *       - in: query
+ *         name: version
+ *         schema:
+ *           type: string
+ *         description: Versión del proyecto a comparar (número, etiqueta o latest). Por defecto, el esquema actual
+ *       - in: query
+ *         name: against_version
+ *         schema:
+ *           type: string
+ *         description: Versión del proyecto against con la que comparar (número, etiqueta o latest). Por defecto, su esquema actual
+ *         example: v1.2
+ *     responses:
+ *       200:
+ *         description: Diferencias entre los dos esquemas
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/SchemaDiff'
+ *       400:
+ *         description: No se indicó con qué comparar
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Proyecto o versión no encontrada
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get(
+  "/projects/:projectId/diff",
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { projectId } = req.params;
+      const against =
+        typeof req.query.against === "string" ? req.query.against : undefined;
+      const version =
+        typeof req.query.version === "string" ? req.query.version : undefined;
+      const againstVersion =
+        typeof req.query.against_version === "string"
+          ? req.query.against_version
+          : undefined;
+
+      if (!against && !againstVersion) {
+        res.status(400).json({
+          error: "Bad Request",
+          message:
+            "Indique el proyecto (against) o la versión (against_version) con la que comparar",
+        });
+        return;
+      }
+
+      const project = await projectRepository.findById(projectId);
+      if (!project) {
+        res.status(404).json({
+          error: "Not Found",
+          message: "Proyecto no encontrado",
+        });
+        return;
+      }
+
+      const baseProject = against
+        ? await projectRepository.findById(against)
+        : project;
+      if (!baseProject) {
+        res.status(404).json({
+          error: "Not Found",
+          message: "Proyecto a comparar no encontrado",
+        });
+        return;
+      }
+
+      const target = await loadSnapshot(project.id, version);
+      const base = await loadSnapshot(baseProject.id, againstVersion);
+      if (!target || !base) {
+        res.status(404).json({
+          error: "Not Found",
+          message: `Versión ${target ? againstVersion : version} no encontrada`,
+        });
+        return;
+      }
+
+      res.json({
+        base: {
+          project_id: baseProject.id,
+          name: baseProject.name,
+          version: base.version,
+        },
+        target: {
+          project_id: project.id,
+          name: project.name,
+          version: target.version,
+        },
+        ...diffSchemaSnapshots(base.snapshot, target.snapshot),
+      });
+    } catch (error) {
+      console.error("Error comparing project schemas:", error);
+      res.status(500).json({
+        error: "Internal Server Error",
+        message: "Error interno del servidor",
+      });
+    }
+  }
+);
+
+export default router;
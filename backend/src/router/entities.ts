@@ -1,7 +1,30 @@
 import { Request, Response, Router } from "express";
-import { EntityRepository } from "../repositories/entityRepository";
+import {
+  ENTITY_QUERY_COLUMNS,
+  EntityRepository,
+} from "../repositories/entityRepository";
 import { FieldRepository } from "../repositories/fieldRepository";
 import { ProjectRepository } from "../repositories/projectRepository";
+import { isConstraintViolation } from "../utils/dataTables";
+import {
+  parseListQuery,
+  QueryLanguageError,
+  setPaginationHeaders,
+} from "../utils/queryLanguage";
+import {
+  applyDeletionPlan,
+  describeBlockingImpact,
+  describeEntityReferences,
+  planEntityDeletion,
+} from "../utils/referentialIntegrity";
+import {
+  dropEntityTable,
+  getBlockingIssues,
+  planEntityTableDrop,
+  SchemaSyncError,
+  syncEntityTable,
+} from "../utils/schemaSync";
+import { recordSchemaVersion } from "../utils/schemaVersions";
 import { generateUUID } from "../utils/uuid";
 
 const router = Router();
@@ -14,6 +37,7 @@ const fieldRepository = new FieldRepository();
  * /api/projects/{projectId}/entities:
  *   get:
  *     summary: Obtener todas las entidades de un proyecto
+ *     operationId: listProjectEntities
  *     tags: [Entities]
  *     parameters:
  *       - in: path
@@ -23,15 +47,35 @@ const fieldRepository = new FieldRepository();
  *           type: string
  *           format: uuid
  *         description: ID del proyecto
+ *       - $ref: '#/components/parameters/ListFilter'
+ *       - $ref: '#/components/parameters/ListSort'
+ *       - $ref: '#/components/parameters/PageSize'
+ *       - $ref: '#/components/parameters/PageNumber'
+ *       - $ref: '#/components/parameters/PageCursor'
  *     responses:
  *       200:
  *         description: Lista de entidades del proyecto
+ *         headers:
+ *           X-Total-Count:
+ *             $ref: '#/components/headers/X-Total-Count'
+ *           X-Page-Size:
+ *             $ref: '#/components/headers/X-Page-Size'
+ *           X-Page-Number:
+ *             $ref: '#/components/headers/X-Page-Number'
+ *           X-Next-Cursor:
+ *             $ref: '#/components/headers/X-Next-Cursor'
  *         content:
  *           application/json:
  *             schema:
  *               type: array
  *               items:
  *                 $ref: '#/components/schemas/Entity'
+ *       400:
+ *         description: Filtro, ordenación o paginación inválidos
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
  *       404:
  *         description: Proyecto no encontrado
  *         content:
@@ -55,11 +99,27 @@ router.get(
         return;
       }
 
+      const listQuery = parseListQuery(req.query, {
+        columns: ENTITY_QUERY_COLUMNS,
+        defaultSort: "-created_at",
+      });
+
       // Obtener entidades del proyecto
-      const entities = await entityRepository.findByProjectId(projectId);
-      res.json(entities);
+      const page = await entityRepository.findPageByProjectId(
+        projectId,
+        listQuery
+      );
+      setPaginationHeaders(res, page);
+      res.json(page.items);
     } catch (error) {
       console.error("Error obtaining project entities:", error);
+      if (error instanceof QueryLanguageError) {
+        res.status(400).json({
+          error: "Bad Request",
+          message: error.message,
+        });
+        return;
+      }
       res.status(500).json({
         error: "Internal Server Error",
         message: "Error interno del servidor",
@@ -73,6 +133,7 @@ router.get(
  * /api/projects/{projectId}/entities:
  *   post:
  *     summary: Crear una nueva entidad en un proyecto específico
+ *     operationId: createProjectEntity
  *     tags: [Entities]
  *     parameters:
  *       - in: path
@@ -152,6 +213,13 @@ router.post(
         description: description || undefined,
       });
 
+      // Crear la tabla física de la entidad
+      syncEntityTable(entity, []);
+      await recordSchemaVersion(
+        entity.project_id,
+        `Entidad ${entity.name} creada`
+      );
+
       res.status(201).json(entity);
     } catch (error) {
       console.error("Error creating entity:", error);
@@ -168,6 +236,7 @@ router.post(
  * /api/entities:
  *   post:
  *     summary: Crear una nueva entidad
+ *     operationId: createEntity
  *     tags: [Entities]
  *     requestBody:
  *       required: true
@@ -236,6 +305,13 @@ router.post("/", async (req: Request, res: Response): Promise<void> => {
       description: description || undefined,
     });
 
+    // Crear la tabla física de la entidad
+    syncEntityTable(entity, []);
+    await recordSchemaVersion(
+      entity.project_id,
+      `Entidad ${entity.name} creada`
+    );
+
     res.status(201).json(entity);
   } catch (error) {
     console.error("Error creating entity:", error);
@@ -251,6 +327,7 @@ router.post("/", async (req: Request, res: Response): Promise<void> => {
  * /api/entities/{entityId}:
  *   get:
  *     summary: Obtener una entidad específica
+ *     operationId: getEntity
  *     tags: [Entities]
  *     parameters:
  *       - in: path
@@ -304,6 +381,7 @@ router.get("/:entityId", async (req: Request, res: Response): Promise<void> => {
  * /api/entities/{entityId}:
  *   put:
  *     summary: Actualizar una entidad completa
+ *     operationId: updateEntity
  *     tags: [Entities]
  *     parameters:
  *       - in: path
@@ -388,6 +466,11 @@ router.put("/:entityId", async (req: Request, res: Response): Promise<void> => {
       return;
     }
 
+    await recordSchemaVersion(
+      updatedEntity.project_id,
+      `Entidad ${updatedEntity.name} actualizada`
+    );
+
     res.json(updatedEntity);
   } catch (error) {
     console.error("Error updating entity:", error);
@@ -403,6 +486,7 @@ router.put("/:entityId", async (req: Request, res: Response): Promise<void> => {
  * /api/entities/{entityId}:
  *   patch:
  *     summary: Actualizar parcialmente una entidad
+ *     operationId: patchEntity
  *     tags: [Entities]
  *     parameters:
  *       - in: path
@@ -487,6 +571,11 @@ router.patch(
         return;
       }
 
+      await recordSchemaVersion(
+        updatedEntity.project_id,
+        `Entidad ${updatedEntity.name} actualizada`
+      );
+
       res.json(updatedEntity);
     } catch (error) {
       console.error("Error updating entity:", error);
@@ -503,6 +592,7 @@ router.patch(
  * /api/entities/{entityId}:
  *   delete:
  *     summary: Eliminar una entidad
+ *     operationId: deleteEntity
  *     tags: [Entities]
  *     parameters:
  *       - in: path
@@ -512,6 +602,11 @@ router.patch(
  *           type: string
  *           format: uuid
  *         description: ID de la entidad
+ *       - in: query
+ *         name: confirm
+ *         schema:
+ *           type: boolean
+ *         description: Confirma la eliminación aunque la entidad tenga registros o relaciones
  *     responses:
  *       200:
  *         description: Entidad eliminada exitosamente
@@ -526,12 +621,48 @@ router.patch(
  *                 message:
  *                   type: string
  *                   example: "Entidad eliminada exitosamente"
+ *                 relationships:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/RelationshipImpact'
  *       404:
  *         description: Entidad no encontrada
  *         content:
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: |
+ *           La entidad tiene registros o relaciones y no se confirmó la eliminación
+ *           (la respuesta detalla las relaciones y registros afectados), una relación
+ *           requerida tiene registros dependientes en otra entidad, o la tabla de una
+ *           entidad que la referencia no se puede actualizar sin perder datos
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 error:
+ *                   type: string
+ *                   example: Conflict
+ *                 message:
+ *                   type: string
+ *                 affected_rows:
+ *                   type: integer
+ *                   description: Registros de la entidad
+ *                 relationships:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/RelationshipImpact'
+ *                 blocking:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/RelationshipImpact'
+ *                 issues:
+ *                   type: array
+ *                   description: Problemas de la tabla que no se puede actualizar
+ *                   items:
+ *                     $ref: '#/components/schemas/SchemaSyncIssue'
  */
 router.delete(
   "/:entityId",
@@ -540,8 +671,8 @@ router.delete(
       const { entityId } = req.params;
 
       // Verificar que la entidad existe
-      const entityExists = await entityRepository.exists(entityId);
-      if (!entityExists) {
+      const entity = await entityRepository.findById(entityId);
+      if (!entity) {
         res.status(404).json({
           error: "Not Found",
           message: "Entidad no encontrada",
@@ -549,6 +680,61 @@ router.delete(
         return;
       }
 
+      // Los registros almacenados y las relaciones se pierden al eliminar la entidad
+      const fields = await fieldRepository.findByEntityId(entityId);
+      const { records, plan } = await planEntityDeletion(entity, fields);
+      if (plan.blocking.length > 0) {
+        res.status(409).json({
+          error: "Conflict",
+          message: `${describeBlockingImpact(
+            plan.blocking[0]
+          )}. Elimine esos registros o cambie la relación antes de eliminar la entidad`,
+          affected_rows: records,
+          relationships: plan.impacts,
+          blocking: plan.blocking,
+        });
+        return;
+      }
+
+      // Las tablas que referencian a la entidad pierden sus claves foráneas
+      const schemaOptions = { allowDataLoss: req.query.confirm === "true" };
+      const blockingTable = planEntityTableDrop(entity, schemaOptions).find(
+        (tablePlan) =>
+          getBlockingIssues(tablePlan, schemaOptions.allowDataLoss).length > 0
+      );
+      if (blockingTable) {
+        const dependent = await entityRepository.findById(
+          blockingTable.entity_id
+        );
+        const name = dependent?.name ?? blockingTable.table;
+        res.status(409).json({
+          error: "Conflict",
+          message: blockingTable.issues.some(
+            (issue) => issue.kind === "conflict"
+          )
+            ? `La tabla de ${name} es incompatible con sus datos existentes`
+            : `Actualizar la tabla de ${name} eliminaría datos existentes. Use ?confirm=true para eliminar la entidad de todos modos`,
+          issues: blockingTable.issues,
+        });
+        return;
+      }
+
+      if (
+        (records > 0 || plan.impacts.length > 0) &&
+        req.query.confirm !== "true"
+      ) {
+        res.status(409).json({
+          error: "Conflict",
+          message: `La entidad tiene ${records} registros y ${plan.impacts.length} relaciones. Use ?confirm=true para eliminarla junto con sus datos`,
+          affected_rows: records,
+          relationships: plan.impacts,
+        });
+        return;
+      }
+
+      // Aplicar cascadas y referencias en null sobre los registros dependientes
+      applyDeletionPlan(plan);
+
       // Eliminar entidad de la base de datos
       const deleted = await entityRepository.delete(entityId);
 
@@ -560,12 +746,51 @@ router.delete(
         return;
       }
 
+      // Eliminar la tabla física de la entidad. La entidad ya no está en los
+      // metadatos, así que la versión se guarda aunque falle alguna tabla
+      try {
+        dropEntityTable(entity, schemaOptions);
+      } finally {
+        await recordSchemaVersion(
+          entity.project_id,
+          `Entidad ${entity.name} eliminada`
+        );
+      }
+
       res.json({
         success: true,
         message: "Entidad eliminada exitosamente",
+        relationships: plan.impacts,
       });
     } catch (error) {
       console.error("Error deleting entity:", error);
+      if (error instanceof SchemaSyncError) {
+        const dependent = await entityRepository.findById(error.plan.entity_id);
+        res.status(409).json({
+          error: "Conflict",
+          message: `La entidad se eliminó, pero la tabla de ${
+            dependent?.name ?? error.plan.table
+          } no se pudo actualizar: ${error.message}`,
+          issues: error.plan.issues,
+        });
+        return;
+      }
+      if (isConstraintViolation(error)) {
+        const entity = await entityRepository.findById(req.params.entityId);
+        const references = entity ? await describeEntityReferences(entity) : [];
+        res.status(409).json({
+          error: "Conflict",
+          message:
+            references.length > 0
+              ? `Hay registros que referencian a la entidad en ${references.join(
+                  ", "
+                )}. Elimínelos o cambie esas claves foráneas antes de eliminar la entidad`
+              : `La eliminación viola una restricción de clave foránea: ${
+                  (error as Error).message
+                }`,
+        });
+        return;
+      }
       res.status(500).json({
         error: "Internal Server Error",
         message: "Error interno del servidor",
@@ -579,6 +804,7 @@ router.delete(
  * /api/entities/{entityId}/primary-keys:
  *   get:
  *     summary: Obtener campos que son claves primarias de una entidad
+ *     operationId: listEntityPrimaryKeys
  *     tags: [Entities]
  *     parameters:
  *       - in: path
@@ -635,6 +861,7 @@ router.get(
  * /api/entities/{entityId}/foreign-keys:
  *   get:
  *     summary: Obtener campos que son claves foráneas de una entidad
+ *     operationId: listEntityForeignKeys
  *     tags: [Entities]
  *     parameters:
  *       - in: path
@@ -704,6 +931,7 @@ router.get(
  * /api/entities/{entityId}/referenced-by:
  *   get:
  *     summary: Obtener campos de otras entidades que referencian a esta entidad
+ *     operationId: listEntityReferences
  *     tags: [Entities]
  *     parameters:
  *       - in: path
@@ -0,0 +1,464 @@
+import { Request, Response, Router } from "express";
+import { EntityRepository } from "../repositories/entityRepository";
+import { ProjectRepository } from "../repositories/projectRepository";
+import { exportProjectDbml } from "../utils/dbmlExport";
+import {
+  exportProjectMermaid,
+  exportProjectPlantUml,
+} from "../utils/erDiagramExport";
+import {
+  exportEntityJsonSchema,
+  exportProjectJsonSchema,
+} from "../utils/jsonSchemaExport";
+import {
+  exportProjectPrisma,
+  PRISMA_PROVIDERS,
+  PrismaProvider,
+} from "../utils/prismaExport";
+import { exportProjectSql, SQL_DIALECTS, SqlDialect } from "../utils/sqlExport";
+
+const router = Router();
+const entityRepository = new EntityRepository();
+const projectRepository = new ProjectRepository();
+
+/**
+ * @swagger
+ * /api/projects/{projectId}/export/sql:
+ *   get:
+ *     summary: Exportar el modelo de un proyecto como script SQL (DDL)
+ *     operationId: exportProjectSql
+ *     description: Genera una sentencia CREATE TABLE por entidad (id como clave primaria, campos únicos y claves foráneas de los campos y relaciones) y por cada relación muchos a muchos, ordenadas para que el script se ejecute sin errores
+ *     tags: [Projects]
+ *     parameters:
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: ID del proyecto
+ *       - in: query
+ *         name: dialect
+ *         schema:
+ *           type: string
+ *           enum: [postgres, mysql, sqlite]
+ *           default: postgres
+ *         description: Dialecto SQL del script
+ *     responses:
+ *       200:
+ *         description: Script SQL
+ *         content:
+ *           application/sql:
+ *             schema:
+ *               type: string
+ *       400:
+ *         description: Dialecto no soportado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Proyecto no encontrado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get(
+  "/projects/:projectId/export/sql",
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const dialect = req.query.dialect ?? "postgres";
+      if (!SQL_DIALECTS.includes(dialect as SqlDialect)) {
+        res.status(400).json({
+          error: "Bad Request",
+          message: `Dialecto no soportado. Permitidos: ${SQL_DIALECTS.join(
+            ", "
+          )}`,
+        });
+        return;
+      }
+
+      const project = await projectRepository.findById(req.params.projectId);
+      if (!project) {
+        res.status(404).json({
+          error: "Not Found",
+          message: "Proyecto no encontrado",
+        });
+        return;
+      }
+
+      const sql = await exportProjectSql(project, dialect as SqlDialect);
+      res.type("application/sql").send(sql);
+    } catch (error) {
+      console.error("Error exporting project SQL:", error);
+      res.status(500).json({
+        error: "Internal Server Error",
+        message: "Error interno del servidor",
+      });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/projects/{projectId}/export/prisma:
+ *   get:
+ *     summary: Exportar el modelo de un proyecto como schema.prisma
+ *     operationId: exportProjectPrisma
+ *     description: Genera un modelo por entidad con sus campos (tipos escalares, @id, @unique, @default y tipos nativos @db) y los campos de relación (@relation) de las relaciones entre entidades. Las relaciones muchos a muchos se exportan como relaciones implícitas. Los nombres que no son identificadores válidos se conservan con @map/@@map
+ *     tags: [Projects]
+ *     parameters:
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: ID del proyecto
+ *       - in: query
+ *         name: provider
+ *         schema:
+ *           type: string
+ *           enum: [postgresql, mysql, sqlite]
+ *           default: postgresql
+ *         description: Proveedor del bloque datasource (SQLite no admite tipos nativos)
+ *     responses:
+ *       200:
+ *         description: Esquema de Prisma
+ *         content:
+ *           text/plain:
+ *             schema:
+ *               type: string
+ *       400:
+ *         description: Proveedor no soportado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Proyecto no encontrado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get(
+  "/projects/:projectId/export/prisma",
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const provider = req.query.provider ?? "postgresql";
+      if (!PRISMA_PROVIDERS.includes(provider as PrismaProvider)) {
+        res.status(400).json({
+          error: "Bad Request",
+          message: `Proveedor no soportado. Permitidos: ${PRISMA_PROVIDERS.join(
+            ", "
+          )}`,
+        });
+        return;
+      }
+
+      const project = await projectRepository.findById(req.params.projectId);
+      if (!project) {
+        res.status(404).json({
+          error: "Not Found",
+          message: "Proyecto no encontrado",
+        });
+        return;
+      }
+
+      const schema = await exportProjectPrisma(
+        project,
+        provider as PrismaProvider
+      );
+      res.type("text/plain").send(schema);
+    } catch (error) {
+      console.error("Error exporting project Prisma schema:", error);
+      res.status(500).json({
+        error: "Internal Server Error",
+        message: "Error interno del servidor",
+      });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/projects/{projectId}/export/mermaid:
+ *   get:
+ *     summary: Exportar el modelo de un proyecto como diagrama Mermaid
+ *     operationId: exportProjectMermaid
+ *     description: Genera un erDiagram de Mermaid con una entidad por entidad del proyecto (campos con su tipo, claves PK/FK/UK y NOT NULL en el comentario) y una línea por relación con la cardinalidad de cada extremo en notación pata de gallo, para incrustarlo en documentación Markdown
+ *     tags: [Projects]
+ *     parameters:
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: ID del proyecto
+ *     responses:
+ *       200:
+ *         description: Diagrama Mermaid (erDiagram)
+ *         content:
+ *           text/plain:
+ *             schema:
+ *               type: string
+ *       404:
+ *         description: Proyecto no encontrado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get(
+  "/projects/:projectId/export/mermaid",
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const project = await projectRepository.findById(req.params.projectId);
+      if (!project) {
+        res.status(404).json({
+          error: "Not Found",
+          message: "Proyecto no encontrado",
+        });
+        return;
+      }
+
+      const diagram = await exportProjectMermaid(project);
+      res.type("text/plain").send(diagram);
+    } catch (error) {
+      console.error("Error exporting project Mermaid diagram:", error);
+      res.status(500).json({
+        error: "Internal Server Error",
+        message: "Error interno del servidor",
+      });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/projects/{projectId}/export/plantuml:
+ *   get:
+ *     summary: Exportar el modelo de un proyecto como diagrama PlantUML
+ *     operationId: exportProjectPlantUml
+ *     description: Genera un diagrama de entidades de PlantUML (@startuml) con una entidad por entidad del proyecto (campos obligatorios marcados con *, claves primarias sobre la línea divisoria y estereotipos <<PK>>, <<FK>> y <<UK>>) y una línea por relación con su cardinalidad
+ *     tags: [Projects]
+ *     parameters:
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: ID del proyecto
+ *     responses:
+ *       200:
+ *         description: Diagrama PlantUML
+ *         content:
+ *           text/plain:
+ *             schema:
+ *               type: string
+ *       404:
+ *         description: Proyecto no encontrado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get(
+  "/projects/:projectId/export/plantuml",
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const project = await projectRepository.findById(req.params.projectId);
+      if (!project) {
+        res.status(404).json({
+          error: "Not Found",
+          message: "Proyecto no encontrado",
+        });
+        return;
+      }
+
+      const diagram = await exportProjectPlantUml(project);
+      res.type("text/plain").send(diagram);
+    } catch (error) {
+      console.error("Error exporting project PlantUML diagram:", error);
+      res.status(500).json({
+        error: "Internal Server Error",
+        message: "Error interno del servidor",
+      });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/projects/{projectId}/export/dbml:
+ *   get:
+ *     summary: Exportar el modelo de un proyecto como DBML
+ *     operationId: exportProjectDbml
+ *     description: Genera un documento DBML (dbdiagram.io) con una tabla por entidad (campos con su tipo, pk, unique, not null, default y note) y una referencia por relación con el nombre del vínculo desde el origen (Ref Post_author). Las relaciones muchos a muchos se exportan como referencias <>. El documento se puede volver a importar con POST /import/dbml
+ *     tags: [Projects]
+ *     parameters:
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: ID del proyecto
+ *     responses:
+ *       200:
+ *         description: Documento DBML
+ *         content:
+ *           text/plain:
+ *             schema:
+ *               type: string
+ *       404:
+ *         description: Proyecto no encontrado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get(
+  "/projects/:projectId/export/dbml",
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const project = await projectRepository.findById(req.params.projectId);
+      if (!project) {
+        res.status(404).json({
+          error: "Not Found",
+          message: "Proyecto no encontrado",
+        });
+        return;
+      }
+
+      const diagram = await exportProjectDbml(project);
+      res.type("text/plain").send(diagram);
+    } catch (error) {
+      console.error("Error exporting project DBML:", error);
+      res.status(500).json({
+        error: "Internal Server Error",
+        message: "Error interno del servidor",
+      });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/projects/{projectId}/export/json-schema:
+ *   get:
+ *     summary: Exportar las entidades de un proyecto como JSON Schema
+ *     operationId: exportProjectJsonSchema
+ *     description: Genera un documento JSON Schema (draft 2020-12) con la definición de cada entidad en $defs. Los campos se describen con su tipo, required, maxLength, default y format (date, uuid para archivos) y las relaciones como propiedades de solo lectura con $ref a la entidad relacionada. Las anotaciones x-field-type, x-unique, x-primary-key, x-foreign-key y x-mapped-by conservan lo que JSON Schema no expresa, de modo que el documento se puede volver a importar. Las relaciones sin campos de clave foránea no se exportan y se indican en $comment
+ *     tags: [Projects]
+ *     parameters:
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: ID del proyecto
+ *     responses:
+ *       200:
+ *         description: Documento JSON Schema
+ *         content:
+ *           application/schema+json:
+ *             schema:
+ *               type: object
+ *       404:
+ *         description: Proyecto no encontrado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get(
+  "/projects/:projectId/export/json-schema",
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const project = await projectRepository.findById(req.params.projectId);
+      if (!project) {
+        res.status(404).json({
+          error: "Not Found",
+          message: "Proyecto no encontrado",
+        });
+        return;
+      }
+
+      const schema = await exportProjectJsonSchema(project);
+      res
+        .type("application/schema+json")
+        .send(JSON.stringify(schema, null, 2));
+    } catch (error) {
+      console.error("Error exporting project JSON Schema:", error);
+      res.status(500).json({
+        error: "Internal Server Error",
+        message: "Error interno del servidor",
+      });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/entities/{entityId}/export/json-schema:
+ *   get:
+ *     summary: Exportar una entidad como JSON Schema
+ *     operationId: exportEntityJsonSchema
+ *     description: Genera el JSON Schema (draft 2020-12) de los registros de una entidad, con las entidades que alcanza a través de sus relaciones en $defs. Las relaciones sin campos de clave foránea se indican en $comment
+ *     tags: [Entities]
+ *     parameters:
+ *       - in: path
+ *         name: entityId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: ID de la entidad
+ *     responses:
+ *       200:
+ *         description: Documento JSON Schema
+ *         content:
+ *           application/schema+json:
+ *             schema:
+ *               type: object
+ *       404:
+ *         description: Entidad no encontrada
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get(
+  "/entities/:entityId/export/json-schema",
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const entity = await entityRepository.findById(req.params.entityId);
+      if (!entity) {
+        res.status(404).json({
+          error: "Not Found",
+          message: "Entidad no encontrada",
+        });
+        return;
+      }
+
+      const schema = await exportEntityJsonSchema(entity);
+      res
+        .type("application/schema+json")
+        .send(JSON.stringify(schema, null, 2));
+    } catch (error) {
+      console.error("Error exporting entity JSON Schema:", error);
+      res.status(500).json({
+        error: "Internal Server Error",
+        message: "Error interno del servidor",
+      });
+    }
+  }
+);
+
+export default router;
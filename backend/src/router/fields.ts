@@ -1,7 +1,25 @@
 import { Request, Response, Router } from "express";
-import { EntityRepository } from "../repositories/entityRepository";
-import { FieldRepository } from "../repositories/fieldRepository";
+import { Entity, EntityRepository } from "../repositories/entityRepository";
+import {
+  CreateFieldData,
+  Field,
+  FIELD_QUERY_COLUMNS,
+  FieldRepository,
+  UpdateFieldData,
+} from "../repositories/fieldRepository";
 import { ProjectRepository } from "../repositories/projectRepository";
+import {
+  parseListQuery,
+  QueryLanguageError,
+  setPaginationHeaders,
+} from "../utils/queryLanguage";
+import {
+  getBlockingIssues,
+  planEntityTable,
+  SchemaSyncOptions,
+  syncEntityTable,
+} from "../utils/schemaSync";
+import { recordSchemaVersion } from "../utils/schemaVersions";
 import { generateUUID } from "../utils/uuid";
 
 const router = Router();
@@ -9,11 +27,90 @@ const fieldRepository = new FieldRepository();
 const entityRepository = new EntityRepository();
 const projectRepository = new ProjectRepository();
 
+/**
+ * Verifica que la tabla física de la entidad pueda reflejar los campos resultantes
+ * de un cambio. Si el cambio afecta datos existentes, responde 409 y devuelve false.
+ */
+const checkSchemaChange = (
+  res: Response,
+  entity: Entity,
+  fields: Field[],
+  options: SchemaSyncOptions
+): boolean => {
+  const plan = planEntityTable(entity, fields, options);
+  const blocking = getBlockingIssues(plan, options.allowDataLoss);
+
+  if (blocking.length > 0) {
+    const hasConflicts = blocking.some((issue) => issue.kind === "conflict");
+    res.status(409).json({
+      error: "Conflict",
+      message: hasConflicts
+        ? "El cambio de esquema es incompatible con los datos existentes"
+        : "El cambio de esquema eliminaría datos existentes. Use ?confirm=true para aplicarlo de todos modos",
+      issues: plan.issues,
+    });
+    return false;
+  }
+
+  return true;
+};
+
+/**
+ * Aplica los campos actuales de la entidad a su tabla física y guarda la
+ * nueva versión del esquema del proyecto. Si la tabla no se puede
+ * sincronizar, deshace el cambio de metadatos con undo antes de propagar el error.
+ */
+const applySchemaChange = async (
+  entity: Entity,
+  options: SchemaSyncOptions,
+  message: string,
+  undo: () => Promise<unknown>
+): Promise<void> => {
+  const fields = await fieldRepository.findByEntityId(entity.id);
+
+  try {
+    syncEntityTable(entity, fields, options);
+  } catch (error) {
+    await undo();
+    throw error;
+  }
+
+  await recordSchemaVersion(entity.project_id, message);
+};
+
+/**
+ * Construye el campo resultante de una creación, para previsualizar el esquema
+ */
+const toFieldDraft = (id: string, data: CreateFieldData): Field =>
+  ({
+    id,
+    created_at: "",
+    updated_at: "",
+    ...data,
+  } as Field);
+
+/**
+ * Aplica una actualización sobre la lista de campos, para previsualizar el esquema
+ */
+const applyFieldUpdate = (
+  fields: Field[],
+  fieldId: string,
+  data: UpdateFieldData
+): Field[] => {
+  const changes = Object.fromEntries(
+    Object.entries(data).filter(([, value]) => value !== undefined)
+  );
+  return fields.map((field) =>
+    field.id === fieldId ? ({ ...field, ...changes } as Field) : field
+  );
+};
+
 /**
  * @swagger
  * /api/entities/{entityId}/fields:
  *   get:
  *     summary: Obtener todos los campos de una entidad
+ *     operationId: listEntityFields
  *     tags: [Fields]
  *     parameters:
  *       - in: path
@@ -23,15 +120,35 @@ const projectRepository = new ProjectRepository();
  *           type: string
  *           format: uuid
  *         description: ID de la entidad
+ *       - $ref: '#/components/parameters/ListFilter'
+ *       - $ref: '#/components/parameters/ListSort'
+ *       - $ref: '#/components/parameters/PageSize'
+ *       - $ref: '#/components/parameters/PageNumber'
+ *       - $ref: '#/components/parameters/PageCursor'
  *     responses:
  *       200:
  *         description: Lista de campos de la entidad
+ *         headers:
+ *           X-Total-Count:
+ *             $ref: '#/components/headers/X-Total-Count'
+ *           X-Page-Size:
+ *             $ref: '#/components/headers/X-Page-Size'
+ *           X-Page-Number:
+ *             $ref: '#/components/headers/X-Page-Number'
+ *           X-Next-Cursor:
+ *             $ref: '#/components/headers/X-Next-Cursor'
  *         content:
  *           application/json:
  *             schema:
  *               type: array
  *               items:
  *                 $ref: '#/components/schemas/Field'
+ *       400:
+ *         description: Filtro, ordenación o paginación inválidos
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
  *       404:
  *         description: Entidad no encontrada
  *         content:
@@ -55,11 +172,27 @@ router.get(
         return;
       }
 
+      const listQuery = parseListQuery(req.query, {
+        columns: FIELD_QUERY_COLUMNS,
+        defaultSort: "created_at",
+      });
+
       // Obtener campos de la entidad
-      const fields = await fieldRepository.findByEntityId(entityId);
-      res.json(fields);
+      const page = await fieldRepository.findPageByEntityId(
+        entityId,
+        listQuery
+      );
+      setPaginationHeaders(res, page);
+      res.json(page.items);
     } catch (error) {
       console.error("Error obtaining entity fields:", error);
+      if (error instanceof QueryLanguageError) {
+        res.status(400).json({
+          error: "Bad Request",
+          message: error.message,
+        });
+        return;
+      }
       res.status(500).json({
         error: "Internal Server Error",
         message: "Error interno del servidor",
@@ -73,6 +206,7 @@ router.get(
  * /api/entities/{entityId}/fields:
  *   post:
  *     summary: Crear un nuevo campo para una entidad
+ *     operationId: createEntityField
  *     tags: [Fields]
  *     parameters:
  *       - in: path
@@ -82,6 +216,11 @@ router.get(
  *           type: string
  *           format: uuid
  *         description: ID de la entidad
+ *       - in: query
+ *         name: confirm
+ *         schema:
+ *           type: boolean
+ *         description: Confirma el cambio aunque elimine datos existentes de la tabla de la entidad
  *     requestBody:
  *       required: true
  *       content:
@@ -124,6 +263,12 @@ router.get(
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: El cambio afectaría datos existentes de la entidad
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/SchemaConflict'
  */
 router.post(
   "/entities/:entityId/fields",
@@ -177,8 +322,8 @@ router.post(
       }
 
       // Verificar que la entidad existe
-      const entityExists = await entityRepository.exists(entityId);
-      if (!entityExists) {
+      const entity = await entityRepository.findById(entityId);
+      if (!entity) {
         res.status(404).json({
           error: "Not Found",
           message: "Entidad no encontrada",
@@ -269,9 +414,8 @@ router.post(
         }
       }
 
-      // Crear campo en base de datos
       const fieldId = generateUUID();
-      const field = await fieldRepository.create(fieldId, {
+      const fieldData: CreateFieldData = {
         entity_id: entityId,
         name,
         type,
@@ -287,7 +431,30 @@ router.post(
         accepts_multiple: accepts_multiple || false,
         max_file_size: max_file_size || undefined,
         allowed_extensions: allowed_extensions || undefined,
-      });
+      };
+
+      // Verificar que la tabla de datos admite el nuevo campo
+      const currentFields = await fieldRepository.findByEntityId(entityId);
+      const schemaOptions = { allowDataLoss: req.query.confirm === "true" };
+      if (
+        !checkSchemaChange(
+          res,
+          entity,
+          [...currentFields, toFieldDraft(fieldId, fieldData)],
+          schemaOptions
+        )
+      ) {
+        return;
+      }
+
+      // Crear campo en base de datos
+      const field = await fieldRepository.create(fieldId, fieldData);
+      await applySchemaChange(
+        entity,
+        schemaOptions,
+        `Campo ${entity.name}.${field.name} creado`,
+        () => fieldRepository.delete(field.id)
+      );
 
       res.status(201).json(field);
     } catch (error) {
@@ -305,6 +472,7 @@ router.post(
  * /api/projects/{projectId}/entities/{entityId}/fields:
  *   post:
  *     summary: Crear un nuevo campo para una entidad dentro de un proyecto
+ *     operationId: createProjectEntityField
  *     tags: [Fields]
  *     parameters:
  *       - in: path
@@ -321,6 +489,11 @@ router.post(
  *           type: string
  *           format: uuid
  *         description: ID de la entidad
+ *       - in: query
+ *         name: confirm
+ *         schema:
+ *           type: boolean
+ *         description: Confirma el cambio aunque elimine datos existentes de la tabla de la entidad
  *     requestBody:
  *       required: true
  *       content:
@@ -363,6 +536,12 @@ router.post(
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: El cambio afectaría datos existentes de la entidad
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/SchemaConflict'
  */
 router.post(
   "/projects/:projectId/entities/:entityId/fields",
@@ -473,9 +652,8 @@ router.post(
         }
       }
 
-      // Crear campo en base de datos
       const fieldId = generateUUID();
-      const field = await fieldRepository.create(fieldId, {
+      const fieldData: CreateFieldData = {
         entity_id: entityId,
         name,
         type,
@@ -487,70 +665,34 @@ router.post(
         accepts_multiple: accepts_multiple || false,
         max_file_size: max_file_size || undefined,
         allowed_extensions: allowed_extensions || undefined,
-      });
-
-      res.status(201).json(field);
-    } catch (error) {
-      console.error("Error creating field:", error);
-      res.status(500).json({
-        error: "Internal Server Error",
-        message: "Error interno del servidor",
-      });
-    }
-  }
-);
-
-/**
- * @swagger
- * /api/entities/{entityId}/fields:
- *   get:
- *     summary: Obtener todos los campos de una entidad
- *     tags: [Fields]
- *     parameters:
- *       - in: path
- *         name: entityId
- *         required: true
- *         schema:
- *           type: string
- *           format: uuid
- *         description: ID de la entidad
- *     responses:
- *       200:
- *         description: Lista de campos de la entidad
- *         content:
- *           application/json:
- *             schema:
- *               type: array
- *               items:
- *                 $ref: '#/components/schemas/Field'
- *       404:
- *         description: Entidad no encontrada
- *         content:
- *           application/json:
- *             schema:
- *               $ref: '#/components/schemas/Error'
- */
-router.get(
-  "/entities/:entityId/fields",
-  async (req: Request, res: Response): Promise<void> => {
-    try {
-      const { entityId } = req.params;
-
-      // Verificar que la entidad existe
-      const entityExists = await entityRepository.exists(entityId);
-      if (!entityExists) {
-        res.status(404).json({
-          error: "Not Found",
-          message: "Entidad no encontrada",
-        });
+      };
+
+      // Verificar que la tabla de datos admite el nuevo campo
+      const currentFields = await fieldRepository.findByEntityId(entityId);
+      const schemaOptions = { allowDataLoss: req.query.confirm === "true" };
+      if (
+        !checkSchemaChange(
+          res,
+          entity,
+          [...currentFields, toFieldDraft(fieldId, fieldData)],
+          schemaOptions
+        )
+      ) {
         return;
       }
 
-      // Obtener campos de la entidad
-      const fields = await fieldRepository.findByEntityId(entityId);
-      res.json(fields);
+      // Crear campo en base de datos
+      const field = await fieldRepository.create(fieldId, fieldData);
+      await applySchemaChange(
+        entity,
+        schemaOptions,
+        `Campo ${entity.name}.${field.name} creado`,
+        () => fieldRepository.delete(field.id)
+      );
+
+      res.status(201).json(field);
     } catch (error) {
-      console.error("Error obtaining entity fields:", error);
+      console.error("Error creating field:", error);
       res.status(500).json({
         error: "Internal Server Error",
         message: "Error interno del servidor",
@@ -564,6 +706,7 @@ router.get(
  * /api/projects/{projectId}/entities/{entityId}/fields:
  *   get:
  *     summary: Obtener todos los campos de una entidad dentro de un proyecto
+ *     operationId: listProjectEntityFields
  *     tags: [Fields]
  *     parameters:
  *       - in: path
@@ -580,15 +723,35 @@ router.get(
  *           type: string
  *           format: uuid
  *         description: ID de la entidad
+ *       - $ref: '#/components/parameters/ListFilter'
+ *       - $ref: '#/components/parameters/ListSort'
+ *       - $ref: '#/components/parameters/PageSize'
+ *       - $ref: '#/components/parameters/PageNumber'
+ *       - $ref: '#/components/parameters/PageCursor'
  *     responses:
  *       200:
  *         description: Lista de campos de la entidad
+ *         headers:
+ *           X-Total-Count:
+ *             $ref: '#/components/headers/X-Total-Count'
+ *           X-Page-Size:
+ *             $ref: '#/components/headers/X-Page-Size'
+ *           X-Page-Number:
+ *             $ref: '#/components/headers/X-Page-Number'
+ *           X-Next-Cursor:
+ *             $ref: '#/components/headers/X-Next-Cursor'
  *         content:
  *           application/json:
  *             schema:
  *               type: array
  *               items:
  *                 $ref: '#/components/schemas/Field'
+ *       400:
+ *         description: Filtro, ordenación o paginación inválidos
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
  *       404:
  *         description: Proyecto o entidad no encontrada
  *         content:
@@ -622,11 +785,27 @@ router.get(
         return;
       }
 
+      const listQuery = parseListQuery(req.query, {
+        columns: FIELD_QUERY_COLUMNS,
+        defaultSort: "created_at",
+      });
+
       // Obtener campos de la entidad
-      const fields = await fieldRepository.findByEntityId(entityId);
-      res.json(fields);
+      const page = await fieldRepository.findPageByEntityId(
+        entityId,
+        listQuery
+      );
+      setPaginationHeaders(res, page);
+      res.json(page.items);
     } catch (error) {
       console.error("Error obtaining entity fields:", error);
+      if (error instanceof QueryLanguageError) {
+        res.status(400).json({
+          error: "Bad Request",
+          message: error.message,
+        });
+        return;
+      }
       res.status(500).json({
         error: "Internal Server Error",
         message: "Error interno del servidor",
@@ -640,6 +819,7 @@ router.get(
  * /api/fields/{fieldId}:
  *   put:
  *     summary: Actualizar un campo
+ *     operationId: updateField
  *     tags: [Fields]
  *     parameters:
  *       - in: path
@@ -649,6 +829,11 @@ router.get(
  *           type: string
  *           format: uuid
  *         description: ID del campo
+ *       - in: query
+ *         name: confirm
+ *         schema:
+ *           type: boolean
+ *         description: Confirma el cambio aunque elimine datos existentes de la tabla de la entidad
  *     requestBody:
  *       required: true
  *       content:
@@ -685,6 +870,12 @@ router.get(
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: El cambio afectaría datos existentes de la entidad
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/SchemaConflict'
  */
 router.put("/:fieldId", async (req: Request, res: Response): Promise<void> => {
   try {
@@ -746,8 +937,7 @@ router.put("/:fieldId", async (req: Request, res: Response): Promise<void> => {
       }
     }
 
-    // Actualizar campo
-    const updatedField = await fieldRepository.update(fieldId, {
+    const updateData: UpdateFieldData = {
       name,
       type,
       is_required,
@@ -755,7 +945,41 @@ router.put("/:fieldId", async (req: Request, res: Response): Promise<void> => {
       default_value,
       max_length,
       description,
-    });
+    };
+
+    // Verificar que la tabla de datos admite el cambio
+    const entity = await entityRepository.findById(existingField.entity_id);
+    if (!entity) {
+      res.status(404).json({
+        error: "Not Found",
+        message: "Entidad no encontrada",
+      });
+      return;
+    }
+
+    const currentFields = await fieldRepository.findByEntityId(entity.id);
+    const schemaOptions: SchemaSyncOptions = {
+      allowDataLoss: req.query.confirm === "true",
+      renames:
+        name && name !== existingField.name
+          ? { [existingField.name]: name }
+          : undefined,
+    };
+    if (
+      !checkSchemaChange(
+        res,
+        entity,
+        applyFieldUpdate(currentFields, fieldId, updateData),
+        schemaOptions
+      )
+    ) {
+      return;
+    }
+
+    const snapshot = await fieldRepository.snapshot(existingField);
+
+    // Actualizar campo
+    const updatedField = await fieldRepository.update(fieldId, updateData);
 
     if (!updatedField) {
       res.status(404).json({
@@ -765,6 +989,13 @@ router.put("/:fieldId", async (req: Request, res: Response): Promise<void> => {
       return;
     }
 
+    await applySchemaChange(
+      entity,
+      schemaOptions,
+      `Campo ${entity.name}.${updatedField.name} actualizado`,
+      () => fieldRepository.restore(snapshot)
+    );
+
     res.json(updatedField);
   } catch (error) {
     console.error("Error updating field:", error);
@@ -780,6 +1011,7 @@ router.put("/:fieldId", async (req: Request, res: Response): Promise<void> => {
  * /api/fields/{fieldId}:
  *   delete:
  *     summary: Eliminar un campo
+ *     operationId: deleteField
  *     tags: [Fields]
  *     parameters:
  *       - in: path
@@ -789,6 +1021,11 @@ router.put("/:fieldId", async (req: Request, res: Response): Promise<void> => {
  *           type: string
  *           format: uuid
  *         description: ID del campo
+ *       - in: query
+ *         name: confirm
+ *         schema:
+ *           type: boolean
+ *         description: Confirma el cambio aunque elimine datos existentes de la tabla de la entidad
  *     responses:
  *       204:
  *         description: Campo eliminado exitosamente
@@ -798,6 +1035,12 @@ router.put("/:fieldId", async (req: Request, res: Response): Promise<void> => {
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: El cambio afectaría datos existentes de la entidad
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/SchemaConflict'
  */
 router.delete(
   "/:fieldId",
@@ -805,6 +1048,35 @@ router.delete(
     try {
       const { fieldId } = req.params;
 
+      // Verificar que el campo existe
+      const existingField = await fieldRepository.findById(fieldId);
+      const entity = existingField
+        ? await entityRepository.findById(existingField.entity_id)
+        : null;
+      if (!existingField || !entity) {
+        res.status(404).json({
+          error: "Not Found",
+          message: "Campo no encontrado",
+        });
+        return;
+      }
+
+      // Verificar que la tabla de datos admite la eliminación
+      const currentFields = await fieldRepository.findByEntityId(entity.id);
+      const schemaOptions = { allowDataLoss: req.query.confirm === "true" };
+      if (
+        !checkSchemaChange(
+          res,
+          entity,
+          currentFields.filter((field) => field.id !== fieldId),
+          schemaOptions
+        )
+      ) {
+        return;
+      }
+
+      const snapshot = await fieldRepository.snapshot(existingField);
+
       // Eliminar campo
       const deleted = await fieldRepository.delete(fieldId);
 
@@ -816,6 +1088,13 @@ router.delete(
         return;
       }
 
+      await applySchemaChange(
+        entity,
+        schemaOptions,
+        `Campo ${entity.name}.${existingField.name} eliminado`,
+        () => fieldRepository.restore(snapshot)
+      );
+
       res.status(204).send();
     } catch (error) {
       console.error("Error deleting field:", error);
@@ -832,6 +1111,7 @@ router.delete(
  * /api/projects/{projectId}/entities/{entityId}/fields/{fieldId}:
  *   put:
  *     summary: Actualizar un campo específico de una entidad dentro de un proyecto
+ *     operationId: updateProjectEntityField
  *     tags: [Fields]
  *     parameters:
  *       - in: path
@@ -855,6 +1135,11 @@ router.delete(
  *           type: string
  *           format: uuid
  *         description: ID del campo
+ *       - in: query
+ *         name: confirm
+ *         schema:
+ *           type: boolean
+ *         description: Confirma el cambio aunque elimine datos existentes de la tabla de la entidad
  *     requestBody:
  *       required: true
  *       content:
@@ -891,6 +1176,12 @@ router.delete(
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: El cambio afectaría datos existentes de la entidad
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/SchemaConflict'
  */
 router.put(
   "/projects/:projectId/entities/:entityId/fields/:fieldId",
@@ -977,8 +1268,7 @@ router.put(
         }
       }
 
-      // Actualizar campo
-      const updatedField = await fieldRepository.update(fieldId, {
+      const updateData: UpdateFieldData = {
         name,
         type,
         is_required,
@@ -986,7 +1276,32 @@ router.put(
         default_value,
         max_length,
         description,
-      });
+      };
+
+      // Verificar que la tabla de datos admite el cambio
+      const currentFields = await fieldRepository.findByEntityId(entityId);
+      const schemaOptions: SchemaSyncOptions = {
+        allowDataLoss: req.query.confirm === "true",
+        renames:
+          name && name !== existingField.name
+            ? { [existingField.name]: name }
+            : undefined,
+      };
+      if (
+        !checkSchemaChange(
+          res,
+          entity,
+          applyFieldUpdate(currentFields, fieldId, updateData),
+          schemaOptions
+        )
+      ) {
+        return;
+      }
+
+      const snapshot = await fieldRepository.snapshot(existingField);
+
+      // Actualizar campo
+      const updatedField = await fieldRepository.update(fieldId, updateData);
 
       if (!updatedField) {
         res.status(404).json({
@@ -996,6 +1311,13 @@ router.put(
         return;
       }
 
+      await applySchemaChange(
+        entity,
+        schemaOptions,
+        `Campo ${entity.name}.${updatedField.name} actualizado`,
+        () => fieldRepository.restore(snapshot)
+      );
+
       res.json(updatedField);
     } catch (error) {
       console.error("Error updating field:", error);
@@ -1012,6 +1334,7 @@ router.put(
  * /api/projects/{projectId}/entities/{entityId}/fields/{fieldId}:
  *   delete:
  *     summary: Eliminar un campo específico de una entidad dentro de un proyecto
+ *     operationId: deleteProjectEntityField
  *     tags: [Fields]
  *     parameters:
  *       - in: path
@@ -1035,6 +1358,11 @@ router.put(
  *           type: string
  *           format: uuid
  *         description: ID del campo
+ *       - in: query
+ *         name: confirm
+ *         schema:
+ *           type: boolean
+ *         description: Confirma el cambio aunque elimine datos existentes de la tabla de la entidad
  *     responses:
  *       204:
  *         description: Campo eliminado exitosamente
@@ -1044,6 +1372,12 @@ router.put(
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: El cambio afectaría datos existentes de la entidad
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/SchemaConflict'
  */
 router.delete(
   "/projects/:projectId/entities/:entityId/fields/:fieldId",
@@ -1081,6 +1415,22 @@ router.delete(
         return;
       }
 
+      // Verificar que la tabla de datos admite la eliminación
+      const currentFields = await fieldRepository.findByEntityId(entityId);
+      const schemaOptions = { allowDataLoss: req.query.confirm === "true" };
+      if (
+        !checkSchemaChange(
+          res,
+          entity,
+          currentFields.filter((field) => field.id !== fieldId),
+          schemaOptions
+        )
+      ) {
+        return;
+      }
+
+      const snapshot = await fieldRepository.snapshot(existingField);
+
       // Eliminar campo
       const deleted = await fieldRepository.delete(fieldId);
 
@@ -1092,6 +1442,13 @@ router.delete(
         return;
       }
 
+      await applySchemaChange(
+        entity,
+        schemaOptions,
+        `Campo ${entity.name}.${existingField.name} eliminado`,
+        () => fieldRepository.restore(snapshot)
+      );
+
       res.status(204).send();
     } catch (error) {
       console.error("Error deleting field:", error);
@@ -1108,6 +1465,7 @@ router.delete(
  * /api/fields/{fieldId}:
  *   get:
  *     summary: Obtener un campo específico
+ *     operationId: getField
  *     tags: [Fields]
  *     parameters:
  *       - in: path
@@ -1,8 +1,16 @@
 import { Router } from "express";
 import { v4 as uuidv4 } from "uuid";
-import { FileRepository } from "../repositories/fileRepository";
+import {
+  FILE_QUERY_COLUMNS,
+  FileRepository,
+} from "../repositories/fileRepository";
 import { fileService } from "../utils/fileService";
 import { handleMulterError, upload, uploadImages } from "../utils/multerConfig";
+import {
+  parseListQuery,
+  QueryLanguageError,
+  setPaginationHeaders,
+} from "../utils/queryLanguage";
 
 const router = Router();
 const fileRepository = new FileRepository();
@@ -13,6 +21,8 @@ const fileRepository = new FileRepository();
  *   schemas:
  *     FileRecord:
  *       type: object
+ *       required:
+ *         [id, original_name, filename, mimetype, size, is_image, created_at, updated_at]
  *       properties:
  *         id:
  *           type: string
@@ -26,6 +36,47 @@ const fileRepository = new FileRepository();
  *           type: integer
  *         is_image:
  *           type: boolean
+ *         width:
+ *           type: integer
+ *           nullable: true
+ *         height:
+ *           type: integer
+ *           nullable: true
+ *         created_at:
+ *           type: string
+ *           format: date-time
+ *         updated_at:
+ *           type: string
+ *           format: date-time
+ *     FileUploadResult:
+ *       type: object
+ *       properties:
+ *         success:
+ *           type: boolean
+ *           example: true
+ *         message:
+ *           type: string
+ *         files:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/FileRecord'
+ *     FileError:
+ *       type: object
+ *       properties:
+ *         success:
+ *           type: boolean
+ *           example: false
+ *         message:
+ *           type: string
+ *   parameters:
+ *     FileVariant:
+ *       in: query
+ *       name: variant
+ *       schema:
+ *         type: string
+ *         enum: [original, compressed, thumbnail]
+ *         default: original
+ *       description: Versión del archivo (las imágenes tienen versión comprimida y miniatura)
  */
 
 /**
@@ -33,10 +84,35 @@ const fileRepository = new FileRepository();
  * /api/files/upload:
  *   post:
  *     summary: Subir archivos
+ *     operationId: uploadFiles
  *     tags: [Files]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             required: [files]
+ *             properties:
+ *               files:
+ *                 type: array
+ *                 maxItems: 10
+ *                 items:
+ *                   type: string
+ *                   format: binary
  *     responses:
  *       200:
  *         description: Archivos subidos exitosamente
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/FileUploadResult'
+ *       400:
+ *         description: No se recibieron archivos o no son válidos
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/FileError'
  */
 router.post("/upload", upload.array("files", 10), async (req, res) => {
   try {
@@ -94,10 +170,35 @@ router.post("/upload", upload.array("files", 10), async (req, res) => {
  * /api/files/upload/images:
  *   post:
  *     summary: Subir imágenes
+ *     operationId: uploadImages
  *     tags: [Files]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             required: [images]
+ *             properties:
+ *               images:
+ *                 type: array
+ *                 maxItems: 5
+ *                 items:
+ *                   type: string
+ *                   format: binary
  *     responses:
  *       200:
  *         description: Imágenes subidas exitosamente
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/FileUploadResult'
+ *       400:
+ *         description: No se recibieron imágenes o no son válidas
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/FileError'
  */
 router.post(
   "/upload/images",
@@ -164,10 +265,52 @@ router.post(
  * /api/files/upload/base64:
  *   post:
  *     summary: Subir archivo desde Base64
+ *     operationId: uploadBase64File
  *     tags: [Files]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [base64Data, originalName, mimetype]
+ *             properties:
+ *               base64Data:
+ *                 type: string
+ *                 description: Contenido del archivo (admite prefijo data URL)
+ *               originalName:
+ *                 type: string
+ *                 example: "foto.png"
+ *               mimetype:
+ *                 type: string
+ *                 example: "image/png"
+ *               fieldId:
+ *                 type: string
+ *                 description: Campo al que se asocia el archivo (junto con recordId)
+ *               recordId:
+ *                 type: string
+ *                 description: Registro al que se asocia el archivo
  *     responses:
  *       200:
  *         description: Archivo subido exitosamente desde Base64
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                 file:
+ *                   $ref: '#/components/schemas/FileRecord'
+ *       400:
+ *         description: Faltan datos o el contenido no es válido
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/FileError'
  */
 router.post("/upload/base64", async (req, res) => {
   try {
@@ -227,21 +370,73 @@ router.post("/upload/base64", async (req, res) => {
  * /api/files:
  *   get:
  *     summary: Listar todos los archivos
+ *     operationId: listFiles
  *     tags: [Files]
+ *     parameters:
+ *       - $ref: '#/components/parameters/ListFilter'
+ *       - $ref: '#/components/parameters/ListSort'
+ *       - $ref: '#/components/parameters/PageSize'
+ *       - $ref: '#/components/parameters/PageNumber'
+ *       - $ref: '#/components/parameters/PageCursor'
  *     responses:
  *       200:
  *         description: Lista de todos los archivos
+ *         headers:
+ *           X-Total-Count:
+ *             $ref: '#/components/headers/X-Total-Count'
+ *           X-Page-Size:
+ *             $ref: '#/components/headers/X-Page-Size'
+ *           X-Page-Number:
+ *             $ref: '#/components/headers/X-Page-Number'
+ *           X-Next-Cursor:
+ *             $ref: '#/components/headers/X-Next-Cursor'
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 files:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/FileRecord'
+ *                 total:
+ *                   type: integer
+ *                 next_cursor:
+ *                   type: string
+ *                   nullable: true
+ *       400:
+ *         description: Filtro, ordenación o paginación inválidos
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/FileError'
  */
 router.get("/", async (req, res) => {
   try {
-    const files = await fileRepository.findAll();
+    const listQuery = parseListQuery(req.query, {
+      columns: FILE_QUERY_COLUMNS,
+      defaultSort: "-created_at",
+    });
+    const page = await fileRepository.findPage(listQuery);
 
+    setPaginationHeaders(res, page);
     res.json({
       success: true,
-      files,
-      total: files.length,
+      files: page.items,
+      total: page.total,
+      next_cursor: page.next_cursor,
     });
   } catch (error: any) {
+    if (error instanceof QueryLanguageError) {
+      res.status(400).json({
+        success: false,
+        message: error.message,
+      });
+      return;
+    }
     res.status(500).json({
       success: false,
       message: error.message || "Error obteniendo la lista de archivos",
@@ -254,10 +449,32 @@ router.get("/", async (req, res) => {
  * /api/files/storage/stats:
  *   get:
  *     summary: Obtener estadísticas de almacenamiento
+ *     operationId: getStorageStats
  *     tags: [Files]
  *     responses:
  *       200:
  *         description: Estadísticas de almacenamiento
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 stats:
+ *                   type: object
+ *                   properties:
+ *                     totalFiles:
+ *                       type: integer
+ *                     totalSize:
+ *                       type: integer
+ *                     imagesCount:
+ *                       type: integer
+ *                     documentsCount:
+ *                       type: integer
+ *                     orphanFilesCount:
+ *                       type: integer
  */
 router.get("/storage/stats", async (req, res) => {
   try {
@@ -281,10 +498,30 @@ router.get("/storage/stats", async (req, res) => {
  * /api/files/{id}:
  *   get:
  *     summary: Descargar archivo por ID
+ *     operationId: downloadFile
  *     tags: [Files]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: ID del archivo
+ *       - $ref: '#/components/parameters/FileVariant'
  *     responses:
  *       200:
  *         description: Archivo descargado exitosamente
+ *         content:
+ *           application/octet-stream:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       404:
+ *         description: Archivo no encontrado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/FileError'
  */
 router.get("/:id", async (req, res) => {
   try {
@@ -339,10 +576,41 @@ router.get("/:id", async (req, res) => {
  * /api/files/{id}/base64:
  *   get:
  *     summary: Obtener archivo como Base64
+ *     operationId: getFileBase64
  *     tags: [Files]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: ID del archivo
+ *       - $ref: '#/components/parameters/FileVariant'
  *     responses:
  *       200:
  *         description: Archivo en Base64
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 base64:
+ *                   type: string
+ *                 mimetype:
+ *                   type: string
+ *                 originalName:
+ *                   type: string
+ *                 size:
+ *                   type: integer
+ *       404:
+ *         description: Archivo no encontrado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/FileError'
  */
 router.get("/:id/base64", async (req, res) => {
   try {
@@ -388,10 +656,28 @@ router.get("/:id/base64", async (req, res) => {
  * /api/files/{id}:
  *   delete:
  *     summary: Eliminar archivo
+ *     operationId: deleteFile
  *     tags: [Files]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: ID del archivo
  *     responses:
  *       200:
  *         description: Archivo eliminado exitosamente
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/FileError'
+ *       404:
+ *         description: Archivo no encontrado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/FileError'
  */
 router.delete("/:id", async (req, res) => {
   try {
@@ -431,6 +717,7 @@ router.delete("/:id", async (req, res) => {
  * /api/files/{id}:
  *   put:
  *     summary: Actualizar información de un archivo
+ *     operationId: updateFile
  *     tags: [Files]
  *     parameters:
  *       - in: path
@@ -466,7 +753,7 @@ router.delete("/:id", async (req, res) => {
  *                   type: string
  *                   example: "Archivo actualizado exitosamente"
  *                 file:
- *                   $ref: '#/components/schemas/File'
+ *                   $ref: '#/components/schemas/FileRecord'
  *       400:
  *         description: Error en los datos enviados
  *       404:
@@ -527,10 +814,36 @@ router.put("/:id", async (req, res) => {
  * /api/files/field/{fieldId}/record/{recordId}:
  *   get:
  *     summary: Obtener archivos de un campo para un record
+ *     operationId: listRecordFieldFiles
  *     tags: [Files]
+ *     parameters:
+ *       - in: path
+ *         name: fieldId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: ID del campo de tipo archivo
+ *       - in: path
+ *         name: recordId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: ID del registro
  *     responses:
  *       200:
  *         description: Archivos del campo
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 files:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/FileRecord'
  */
 router.get("/field/:fieldId/record/:recordId", async (req, res) => {
   try {
@@ -0,0 +1,186 @@
+import { Request, Response, Router } from "express";
+import { graphql, GraphQLError, printSchema } from "graphql";
+import { ProjectRepository } from "../repositories/projectRepository";
+import { getProjectGraphqlSchema } from "../utils/projectGraphql";
+
+const router = Router();
+const projectRepository = new ProjectRepository();
+
+/**
+ * Oculta el detalle de los errores inesperados de los resolvers;
+ * los errores GraphQL propios (validación, conflictos) se devuelven tal cual
+ */
+const maskError = (error: GraphQLError): GraphQLError => {
+  if (!error.originalError || error.originalError instanceof GraphQLError) {
+    return error;
+  }
+  console.error("Error executing GraphQL resolver:", error.originalError);
+  return new GraphQLError("Error interno del servidor", {
+    nodes: error.nodes,
+    path: error.path,
+    extensions: { code: "INTERNAL_SERVER_ERROR" },
+  });
+};
+
+/**
+ * @swagger
+ * /api/projects/{projectId}/graphql:
+ *   post:
+ *     summary: Ejecutar una consulta GraphQL sobre los registros de un proyecto
+ *     operationId: executeProjectGraphql
+ *     description: El esquema se genera a partir de las entidades (tipos), sus campos y sus relaciones, y se regenera automáticamente cuando cambia el modelo. Cada entidad tiene las consultas <entidad>(id) y <entidad>List(filter, sort, page) y las mutaciones create, update y delete. El esquema en SDL está en /api/projects/{projectId}/graphql/schema.graphql
+ *     tags: [Records]
+ *     parameters:
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: ID del proyecto
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - query
+ *             properties:
+ *               query:
+ *                 type: string
+ *                 example: "{ productList(filter: { price: { gte: 10 } }, page: { size: 20 }) { total items { id name category { name } } } }"
+ *               variables:
+ *                 type: object
+ *                 additionalProperties: true
+ *               operationName:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Resultado de la consulta (los errores de los resolvers se devuelven en errors)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   type: object
+ *                 errors:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *       400:
+ *         description: Consulta ausente, con errores de sintaxis o inválida para el esquema
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *       404:
+ *         description: Proyecto no encontrado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post(
+  "/projects/:projectId/graphql",
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { query, variables, operationName } = req.body || {};
+
+      if (typeof query !== "string" || query.trim() === "") {
+        res.status(400).json({
+          error: "Bad Request",
+          message: "Se requiere query (documento GraphQL)",
+        });
+        return;
+      }
+
+      const project = await projectRepository.findById(req.params.projectId);
+      if (!project) {
+        res.status(404).json({
+          error: "Not Found",
+          message: "Proyecto no encontrado",
+        });
+        return;
+      }
+
+      const result = await graphql({
+        schema: await getProjectGraphqlSchema(project),
+        source: query,
+        variableValues:
+          variables && typeof variables === "object" ? variables : undefined,
+        operationName: typeof operationName === "string" ? operationName : null,
+      });
+
+      // Sin data la consulta no llegó a ejecutarse (sintaxis o validación)
+      res.status(result.data === undefined ? 400 : 200).json({
+        ...result,
+        errors: result.errors?.map(maskError),
+      });
+    } catch (error) {
+      console.error("Error executing GraphQL query:", error);
+      res.status(500).json({
+        error: "Internal Server Error",
+        message: "Error interno del servidor",
+      });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/projects/{projectId}/graphql/schema.graphql:
+ *   get:
+ *     summary: Obtener el esquema GraphQL de un proyecto en SDL
+ *     operationId: getProjectGraphqlSchema
+ *     tags: [Records]
+ *     parameters:
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: ID del proyecto
+ *     responses:
+ *       200:
+ *         description: Esquema GraphQL
+ *         content:
+ *           text/plain:
+ *             schema:
+ *               type: string
+ *       404:
+ *         description: Proyecto no encontrado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get(
+  "/projects/:projectId/graphql/schema.graphql",
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const project = await projectRepository.findById(req.params.projectId);
+      if (!project) {
+        res.status(404).json({
+          error: "Not Found",
+          message: "Proyecto no encontrado",
+        });
+        return;
+      }
+
+      res
+        .type("text/plain")
+        .send(printSchema(await getProjectGraphqlSchema(project)));
+    } catch (error) {
+      console.error("Error generating GraphQL schema:", error);
+      res.status(500).json({
+        error: "Internal Server Error",
+        message: "Error interno del servidor",
+      });
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,768 @@
+import express, { Request, Response, Router } from "express";
+import fs from "fs/promises";
+import multer from "multer";
+import { DatabaseSync } from "node:sqlite";
+import os from "os";
+import path from "path";
+import { ProjectRepository } from "../repositories/projectRepository";
+import { DbmlParseError, parseDbmlSchema } from "../utils/dbmlImport";
+import {
+  JsonSchemaImportError,
+  JsonSchemaSource,
+  parseJsonSchemaDocuments,
+} from "../utils/jsonSchemaImport";
+import { handleMulterError } from "../utils/multerConfig";
+import { parsePrismaSchema, PrismaParseError } from "../utils/prismaImport";
+import {
+  applySchemaImport,
+  ImportedSchema,
+  planSchemaImport,
+} from "../utils/schemaImport";
+import { dropProjectTables } from "../utils/schemaSync";
+import {
+  copySqliteRows,
+  isSqliteDatabase,
+  readSqliteSchema,
+} from "../utils/sqliteImport";
+import { parseSqlSchema, SqlParseError } from "../utils/sqlImport";
+import { generateUUID } from "../utils/uuid";
+
+const router = Router();
+const projectRepository = new ProjectRepository();
+
+// Los scripts y esquemas también se pueden enviar como texto plano
+const textBody = express.text({
+  type: ["text/plain", "application/sql"],
+  limit: "5mb",
+});
+
+// Bases de datos SQLite a importar (se validan por su cabecera, no por MIME)
+const sqliteUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: 100 * 1024 * 1024, files: 1 },
+}).single("file");
+
+// Documentos JSON Schema: como cuerpo application/schema+json o como archivos
+const jsonSchemaBody = express.json({
+  type: "application/schema+json",
+  limit: "5mb",
+});
+
+const jsonSchemaUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: 5 * 1024 * 1024, files: 20 },
+}).array("files");
+
+const receiveJsonSchemaFiles = (req: Request, res: Response): Promise<void> =>
+  new Promise((resolve, reject) =>
+    jsonSchemaUpload(req, res, (error: unknown) =>
+      error ? reject(error) : resolve()
+    )
+  );
+
+const receiveSqliteFile = (req: Request, res: Response): Promise<void> =>
+  new Promise((resolve, reject) =>
+    sqliteUpload(req, res, (error: unknown) =>
+      error ? reject(error) : resolve()
+    )
+  );
+
+/**
+ * Formato de esquema importable en un proyecto existente
+ */
+interface SchemaImportFormat {
+  /** Interpreta el documento; sus errores de sintaxis responden 400 */
+  parse: () => ImportedSchema;
+  parseError: new (...args: never[]) => Error;
+  /** Mensaje si el documento no define ninguna tabla */
+  empty: string;
+  /** Nombre de las tablas en el formato, para el mensaje de conflicto */
+  items: string;
+  /** Descripción del formato en el registro de errores */
+  label: string;
+}
+
+/**
+ * Importa un esquema en el proyecto de la ruta: lo interpreta y planifica la
+ * importación. Con dry_run=true devuelve el plan; si alguna tabla coincide
+ * con una entidad existente y no se indicó skip_existing responde 409 y si
+ * no, aplica el plan.
+ */
+const importProjectSchema = async (
+  req: Request,
+  res: Response,
+  format: SchemaImportFormat
+): Promise<void> => {
+  try {
+    const project = await projectRepository.findById(req.params.projectId);
+    if (!project) {
+      res.status(404).json({
+        error: "Not Found",
+        message: "Proyecto no encontrado",
+      });
+      return;
+    }
+
+    let schema;
+    try {
+      schema = format.parse();
+    } catch (error) {
+      if (error instanceof format.parseError) {
+        res.status(400).json({
+          error: "Bad Request",
+          message: error.message,
+        });
+        return;
+      }
+      throw error;
+    }
+
+    if (schema.tables.length === 0) {
+      res.status(400).json({
+        error: "Bad Request",
+        message: format.empty,
+        warnings: schema.warnings,
+      });
+      return;
+    }
+
+    const skipExisting = req.query.skip_existing === "true";
+    const plan = await planSchemaImport(project.id, schema, {
+      skipExisting,
+    });
+
+    if (req.query.dry_run === "true") {
+      res.json({ dry_run: true, ...plan });
+      return;
+    }
+
+    if (plan.conflicts.length > 0 && !skipExisting) {
+      res.status(409).json({
+        error: "Conflict",
+        message: `${plan.conflicts.length} ${format.items} coinciden con entidades existentes. Use ?skip_existing=true para conservarlas e importar el resto`,
+        ...plan,
+      });
+      return;
+    }
+
+    const created = await applySchemaImport(project.id, plan);
+    res.status(201).json({ success: true, ...plan, created });
+  } catch (error) {
+    console.error(`Error importing project ${format.label}:`, error);
+    res.status(500).json({
+      error: "Internal Server Error",
+      message: "Error interno del servidor",
+    });
+  }
+};
+
+/**
+ * @swagger
+ * /api/projects/{projectId}/import/sql:
+ *   post:
+ *     summary: Importar un esquema de base de datos desde un script SQL (DDL)
+ *     operationId: importProjectSql
+ *     description: Lee las sentencias CREATE TABLE, ALTER TABLE, CREATE UNIQUE INDEX y COMMENT ON (PostgreSQL, MySQL o SQLite) y crea una entidad por tabla, sus campos (tipo, NOT NULL, UNIQUE, clave primaria, DEFAULT y longitud de VARCHAR) y una relación por cada clave foránea. Las tablas intermedias de dos claves foráneas se importan como relaciones muchos a muchos. Con dry_run=true solo devuelve los cambios planificados y los conflictos con las entidades existentes
+ *     tags: [Projects]
+ *     parameters:
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: ID del proyecto
+ *       - in: query
+ *         name: dry_run
+ *         schema:
+ *           type: boolean
+ *           default: false
+ *         description: Devolver el plan de importación sin aplicar cambios
+ *       - in: query
+ *         name: skip_existing
+ *         schema:
+ *           type: boolean
+ *           default: false
+ *         description: Conservar las entidades que ya existen con el nombre de una tabla en lugar de rechazar la importación
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - sql
+ *             properties:
+ *               sql:
+ *                 type: string
+ *                 example: "CREATE TABLE author (id UUID PRIMARY KEY, name VARCHAR(120) NOT NULL); CREATE TABLE book (id UUID PRIMARY KEY, title TEXT NOT NULL, author_id UUID REFERENCES author(id) ON DELETE CASCADE);"
+ *         application/sql:
+ *           schema:
+ *             type: string
+ *     responses:
+ *       200:
+ *         description: Plan de importación (dry_run)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *       201:
+ *         description: Esquema importado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *       400:
+ *         description: Script ausente o con errores de sintaxis
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Proyecto no encontrado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: Alguna tabla coincide con una entidad existente y no se indicó skip_existing
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ */
+router.post(
+  "/projects/:projectId/import/sql",
+  textBody,
+  async (req: Request, res: Response): Promise<void> => {
+    const sql = typeof req.body === "string" ? req.body : req.body?.sql;
+
+    if (typeof sql !== "string" || sql.trim() === "") {
+      res.status(400).json({
+        error: "Bad Request",
+        message: "Se requiere sql (script con sentencias CREATE TABLE)",
+      });
+      return;
+    }
+
+    await importProjectSchema(req, res, {
+      parse: () => parseSqlSchema(sql),
+      parseError: SqlParseError,
+      empty: "El script no contiene sentencias CREATE TABLE",
+      items: "tablas",
+      label: "SQL",
+    });
+  }
+);
+
+/**
+ * @swagger
+ * /api/projects/{projectId}/import/prisma:
+ *   post:
+ *     summary: Importar un esquema de base de datos desde un schema.prisma
+ *     operationId: importProjectPrisma
+ *     description: Crea una entidad por modelo con sus campos escalares (tipo, opcionalidad, @id, @unique, @default, @map y longitud de @db.VarChar) y una relación por cada @relation, con su nombre, cardinalidad y onDelete Cascade. Las relaciones muchos a muchos implícitas se importan como relaciones muchos a muchos. Los enums, tipos y atributos sin equivalente se informan como avisos. Con dry_run=true solo devuelve los cambios planificados y los conflictos con las entidades existentes
+ *     tags: [Projects]
+ *     parameters:
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: ID del proyecto
+ *       - in: query
+ *         name: dry_run
+ *         schema:
+ *           type: boolean
+ *           default: false
+ *         description: Devolver el plan de importación sin aplicar cambios
+ *       - in: query
+ *         name: skip_existing
+ *         schema:
+ *           type: boolean
+ *           default: false
+ *         description: Conservar las entidades que ya existen con el nombre de un modelo en lugar de rechazar la importación
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - schema
+ *             properties:
+ *               schema:
+ *                 type: string
+ *                 example: "model Author {\n  id   String @id @default(uuid())\n  name String @db.VarChar(120)\n  books Book[]\n}\n\nmodel Book {\n  id        String @id @default(uuid())\n  title     String\n  author_id String\n  author    Author @relation(fields: [author_id], references: [id], onDelete: Cascade)\n}"
+ *         text/plain:
+ *           schema:
+ *             type: string
+ *     responses:
+ *       200:
+ *         description: Plan de importación (dry_run)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *       201:
+ *         description: Esquema importado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *       400:
+ *         description: Esquema ausente o con errores de sintaxis
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Proyecto no encontrado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: Algún modelo coincide con una entidad existente y no se indicó skip_existing
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ */
+router.post(
+  "/projects/:projectId/import/prisma",
+  textBody,
+  async (req: Request, res: Response): Promise<void> => {
+    const text = typeof req.body === "string" ? req.body : req.body?.schema;
+
+    if (typeof text !== "string" || text.trim() === "") {
+      res.status(400).json({
+        error: "Bad Request",
+        message: "Se requiere schema (contenido de schema.prisma)",
+      });
+      return;
+    }
+
+    await importProjectSchema(req, res, {
+      parse: () => parsePrismaSchema(text),
+      parseError: PrismaParseError,
+      empty: "El esquema no contiene modelos",
+      items: "modelos",
+      label: "Prisma schema",
+    });
+  }
+);
+
+/**
+ * @swagger
+ * /api/projects/{projectId}/import/dbml:
+ *   post:
+ *     summary: Importar un esquema de base de datos desde un documento DBML
+ *     operationId: importProjectDbml
+ *     description: Crea una entidad por tabla (Table) con sus columnas (tipo, pk, unique, not null, default, note y longitud de varchar) y una relación por cada referencia (Ref o ref en línea). El nombre de la referencia sin la tabla de origen delante da nombre a la relación, > es muchos a uno, < uno a muchos, - uno a uno y <> muchos a muchos; delete cascade activa el borrado en cascada. Los enums, índices y ajustes sin equivalente se informan como avisos. Con dry_run=true solo devuelve los cambios planificados y los conflictos con las entidades existentes
+ *     tags: [Projects]
+ *     parameters:
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: ID del proyecto
+ *       - in: query
+ *         name: dry_run
+ *         schema:
+ *           type: boolean
+ *           default: false
+ *         description: Devolver el plan de importación sin aplicar cambios
+ *       - in: query
+ *         name: skip_existing
+ *         schema:
+ *           type: boolean
+ *           default: false
+ *         description: Conservar las entidades que ya existen con el nombre de una tabla en lugar de rechazar la importación
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - schema
+ *             properties:
+ *               schema:
+ *                 type: string
+ *                 example: "Table Author {\n  id uuid [pk]\n  name varchar(120) [not null]\n}\n\nTable Book {\n  id uuid [pk]\n  title varchar [not null]\n  author_id uuid [not null]\n}\n\nRef: Book.author_id > Author.id [delete: cascade]"
+ *         text/plain:
+ *           schema:
+ *             type: string
+ *     responses:
+ *       200:
+ *         description: Plan de importación (dry_run)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *       201:
+ *         description: Esquema importado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *       400:
+ *         description: Esquema ausente o con errores de sintaxis
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Proyecto no encontrado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: Alguna tabla coincide con una entidad existente y no se indicó skip_existing
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ */
+router.post(
+  "/projects/:projectId/import/dbml",
+  textBody,
+  async (req: Request, res: Response): Promise<void> => {
+    const text = typeof req.body === "string" ? req.body : req.body?.schema;
+
+    if (typeof text !== "string" || text.trim() === "") {
+      res.status(400).json({
+        error: "Bad Request",
+        message: "Se requiere schema (documento DBML)",
+      });
+      return;
+    }
+
+    await importProjectSchema(req, res, {
+      parse: () => parseDbmlSchema(text),
+      parseError: DbmlParseError,
+      empty: "El documento no contiene tablas",
+      items: "tablas",
+      label: "DBML schema",
+    });
+  }
+);
+
+/**
+ * @swagger
+ * /api/projects/{projectId}/import/json-schema:
+ *   post:
+ *     summary: Importar entidades desde documentos JSON Schema
+ *     operationId: importProjectJsonSchema
+ *     description: Crea una entidad por cada definición de objeto ($defs, definitions o el esquema raíz con title) con sus campos (tipo, required, maxLength, default, description y format date) y una relación por cada $ref entre definiciones, también entre documentos por su $id o su nombre de archivo. Un $ref es una relación muchos a uno (o uno a uno), una lista de $ref una relación muchos a muchos y las anotaciones x-foreign-key y x-mapped-by de la exportación indican qué campo guarda la referencia. Los documentos se envían como JSON (schema, uno o una lista), como cuerpo application/schema+json o como archivos. Con dry_run=true solo devuelve los cambios planificados y los conflictos con las entidades existentes
+ *     tags: [Projects]
+ *     parameters:
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: ID del proyecto
+ *       - in: query
+ *         name: dry_run
+ *         schema:
+ *           type: boolean
+ *           default: false
+ *         description: Devolver el plan de importación sin aplicar cambios
+ *       - in: query
+ *         name: skip_existing
+ *         schema:
+ *           type: boolean
+ *           default: false
+ *         description: Conservar las entidades que ya existen con el nombre de una definición en lugar de rechazar la importación
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - schema
+ *             properties:
+ *               schema:
+ *                 oneOf:
+ *                   - type: object
+ *                   - type: array
+ *                     items:
+ *                       type: object
+ *                 description: Documento JSON Schema o lista de documentos
+ *         application/schema+json:
+ *           schema:
+ *             type: object
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - files
+ *             properties:
+ *               files:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   format: binary
+ *                 description: Documentos JSON Schema (máximo 20 de 5MB)
+ *     responses:
+ *       200:
+ *         description: Plan de importación (dry_run)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *       201:
+ *         description: Esquema importado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *       400:
+ *         description: Documentos ausentes, que no son JSON o sin definiciones de objeto
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Proyecto no encontrado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: Alguna definición coincide con una entidad existente y no se indicó skip_existing
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ */
+router.post(
+  "/projects/:projectId/import/json-schema",
+  jsonSchemaBody,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      await receiveJsonSchemaFiles(req, res);
+    } catch (error) {
+      const multerError = handleMulterError(error);
+      res.status(multerError.status).json({
+        error: "Bad Request",
+        message: multerError.message,
+      });
+      return;
+    }
+
+    const sources: JsonSchemaSource[] = [];
+    const files = Array.isArray(req.files) ? req.files : [];
+    for (const file of files) {
+      try {
+        sources.push({
+          name: file.originalname,
+          schema: JSON.parse(file.buffer.toString("utf8")),
+        });
+      } catch {
+        res.status(400).json({
+          error: "Bad Request",
+          message: `El archivo ${file.originalname} no es un documento JSON`,
+        });
+        return;
+      }
+    }
+    if (files.length === 0) {
+      const body = req.is("application/schema+json")
+        ? req.body
+        : req.body?.schema;
+      sources.push(
+        ...(Array.isArray(body) ? body : body ? [body] : []).map(
+          (schema: unknown) => ({ schema })
+        )
+      );
+    }
+
+    if (sources.length === 0) {
+      res.status(400).json({
+        error: "Bad Request",
+        message: "Se requiere schema o files (documentos JSON Schema)",
+      });
+      return;
+    }
+
+    await importProjectSchema(req, res, {
+      parse: () => parseJsonSchemaDocuments(sources),
+      parseError: JsonSchemaImportError,
+      empty: "Los documentos no contienen definiciones de objeto",
+      items: "definiciones",
+      label: "JSON Schema",
+    });
+  }
+);
+
+/**
+ * @swagger
+ * /api/projects/import/sqlite:
+ *   post:
+ *     summary: Crear un proyecto a partir de una base de datos SQLite
+ *     operationId: importSqliteProject
+ *     description: Lee las tablas del archivo (sqlite_master, PRAGMA table_info, foreign_key_list e index_list) y crea un proyecto nuevo con una entidad por tabla, sus campos y una relación por cada clave foránea. Con copy_data=true también copia las filas a las tablas de datos, de modo que la API de registros sirve los datos existentes desde el primer momento
+ *     tags: [Projects]
+ *     parameters:
+ *       - in: query
+ *         name: dry_run
+ *         schema:
+ *           type: boolean
+ *           default: false
+ *         description: Devolver el plan de importación sin crear el proyecto
+ *       - in: query
+ *         name: copy_data
+ *         schema:
+ *           type: boolean
+ *           default: false
+ *         description: Copiar las filas de las tablas a los registros de las entidades
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - file
+ *             properties:
+ *               file:
+ *                 type: string
+ *                 format: binary
+ *                 description: Base de datos SQLite (máximo 100MB)
+ *               name:
+ *                 type: string
+ *                 description: Nombre del proyecto (por defecto, el del archivo)
+ *               description:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Plan de importación (dry_run)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *       201:
+ *         description: Proyecto creado con el esquema (y los datos) de la base de datos
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *       400:
+ *         description: Archivo ausente, demasiado grande, que no es una base de datos SQLite o sin tablas
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post(
+  "/projects/import/sqlite",
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      await receiveSqliteFile(req, res);
+    } catch (error) {
+      const multerError = handleMulterError(error);
+      res.status(multerError.status).json({
+        error: "Bad Request",
+        message: multerError.message,
+      });
+      return;
+    }
+
+    let directory: string | null = null;
+    let source: DatabaseSync | null = null;
+    let projectId: string | null = null;
+    try {
+      const file = req.file;
+      if (!file) {
+        res.status(400).json({
+          error: "Bad Request",
+          message: "Se requiere file (base de datos SQLite)",
+        });
+        return;
+      }
+      if (!isSqliteDatabase(file.buffer)) {
+        res.status(400).json({
+          error: "Bad Request",
+          message: "El archivo no es una base de datos SQLite",
+        });
+        return;
+      }
+
+      // node:sqlite solo abre archivos: se trabaja sobre una copia temporal
+      directory = await fs.mkdtemp(path.join(os.tmpdir(), "oroya-import-"));
+      const databasePath = path.join(directory, "source.sqlite");
+      await fs.writeFile(databasePath, file.buffer);
+      source = new DatabaseSync(databasePath);
+
+      const schema = readSqliteSchema(source);
+      if (schema.tables.length === 0) {
+        res.status(400).json({
+          error: "Bad Request",
+          message: "La base de datos no contiene tablas",
+        });
+        return;
+      }
+
+      const plan = await planSchemaImport(null, schema);
+      const name =
+        req.body?.name || path.parse(file.originalname).name || "SQLite";
+      const description = req.body?.description || undefined;
+
+      if (req.query.dry_run === "true") {
+        res.json({ dry_run: true, project: { name, description }, ...plan });
+        return;
+      }
+
+      projectId = generateUUID();
+      const project = await projectRepository.create(projectId, {
+        name,
+        description,
+      });
+      const created = await applySchemaImport(project.id, plan);
+      const copy =
+        req.query.copy_data === "true"
+          ? copySqliteRows(source, plan, created)
+          : null;
+
+      res.status(201).json({
+        success: true,
+        project,
+        ...plan,
+        warnings: [...plan.warnings, ...(copy?.warnings || [])],
+        created,
+        rows: copy?.rows,
+      });
+    } catch (error) {
+      console.error("Error importing SQLite database:", error);
+      // Un proyecto a medio importar se elimina
+      if (projectId) {
+        try {
+          dropProjectTables(projectId);
+          await projectRepository.delete(projectId);
+        } catch (cleanupError) {
+          console.error("Error removing partial import:", cleanupError);
+        }
+      }
+      res.status(500).json({
+        error: "Internal Server Error",
+        message: "Error interno del servidor",
+      });
+    } finally {
+      source?.close();
+      if (directory) {
+        await fs.rm(directory, { recursive: true, force: true });
+      }
+    }
+  }
+);
+
+export default router;
@@ -1,12 +1,21 @@
 import { Router } from "express";
 import { getDatabaseInfo } from "../config/database";
 import { getMigrationStatus, runMigrations } from "../utils/migration";
+import codegenRouter from "./codegen";
 import diagramRouter from "./diagram";
+import diffRouter from "./diff";
 import entitiesRouter from "./entities";
+import exportRouter from "./export";
 import fieldsRouter from "./fields";
 import filesRouter from "./files";
+import graphqlRouter from "./graphql";
+import importRouter from "./import";
+import migrationsRouter from "./migrations";
+import openApiRouter from "./openapi";
 import projectsRouter from "./projects";
+import recordsRouter from "./records";
 import relationshipsRouter from "./relationships";
+import versionsRouter from "./versions";
 
 const router = Router();
 
@@ -78,5 +87,14 @@ router.use("/", relationshipsRouter);
 router.use("/", entitiesRouter); // Para rutas como /projects/:projectId/entities
 router.use("/", fieldsRouter); // Para rutas como /entities/:entityId/fields
 router.use("/", diagramRouter); // Para rutas como /projects/:projectId/diagram
+router.use("/", diffRouter); // Para rutas como /projects/:projectId/diff
+router.use("/", openApiRouter); // Para rutas como /projects/:projectId/openapi.json
+router.use("/", graphqlRouter); // Para rutas como /projects/:projectId/graphql
+router.use("/", exportRouter); // Para rutas como /projects/:projectId/export/sql
+router.use("/", importRouter); // Para rutas como /projects/:projectId/import/sql
+router.use("/", codegenRouter); // Para rutas como /codegen/sdk y /projects/:projectId/codegen/typescript
+router.use("/", versionsRouter); // Para rutas como /projects/:projectId/versions
+router.use("/", migrationsRouter); // Para rutas como /projects/:projectId/migrations
+router.use("/", recordsRouter); // Para rutas como /projects/:projectId/data/:entityName
 
 export default router;
@@ -0,0 +1,217 @@
+import { Request, Response, Router } from "express";
+import { ProjectRepository } from "../repositories/projectRepository";
+import { SchemaVersionRepository } from "../repositories/schemaVersionRepository";
+import { SQL_DIALECTS, SqlDialect } from "../utils/sqlExport";
+import { buildSchemaMigrations } from "../utils/sqlMigrations";
+
+const router = Router();
+const projectRepository = new ProjectRepository();
+const schemaVersionRepository = new SchemaVersionRepository();
+
+const MIGRATION_DIRECTIONS = ["up", "down"] as const;
+type MigrationDirection = (typeof MIGRATION_DIRECTIONS)[number];
+
+/**
+ * @swagger
+ * /api/projects/{projectId}/migrations:
+ *   get:
+ *     summary: Listar las migraciones SQL de un proyecto
+ *     operationId: listProjectMigrations
+ *     description: Genera una migración por cada versión del esquema que cambia las tablas, en orden, con el script up que lleva de la versión anterior a esa y el script down que la deshace. Las entidades, campos y relaciones se emparejan por ID, de modo que los cambios de nombre se traducen en RENAME y los cambios de tipo, obligatoriedad o longitud en ALTER COLUMN (en SQLite, reconstruyendo la tabla)
+ *     tags: [Projects]
+ *     parameters:
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: ID del proyecto
+ *       - in: query
+ *         name: dialect
+ *         schema:
+ *           type: string
+ *           enum: [postgres, mysql, sqlite]
+ *           default: postgres
+ *         description: Dialecto SQL de los scripts
+ *     responses:
+ *       200:
+ *         description: Migraciones ordenadas por versión
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/SchemaMigration'
+ *       400:
+ *         description: Dialecto no soportado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Proyecto no encontrado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get(
+  "/projects/:projectId/migrations",
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const dialect = req.query.dialect ?? "postgres";
+      if (!SQL_DIALECTS.includes(dialect as SqlDialect)) {
+        res.status(400).json({
+          error: "Bad Request",
+          message: `Dialecto no soportado. Permitidos: ${SQL_DIALECTS.join(
+            ", "
+          )}`,
+        });
+        return;
+      }
+
+      const project = await projectRepository.findById(req.params.projectId);
+      if (!project) {
+        res.status(404).json({
+          error: "Not Found",
+          message: "Proyecto no encontrado",
+        });
+        return;
+      }
+
+      const versions = await schemaVersionRepository.findByProjectId(
+        project.id
+      );
+      res.json(buildSchemaMigrations(versions, dialect as SqlDialect));
+    } catch (error) {
+      console.error("Error listing project migrations:", error);
+      res.status(500).json({
+        error: "Internal Server Error",
+        message: "Error interno del servidor",
+      });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/projects/{projectId}/migrations/{version}:
+ *   get:
+ *     summary: Descargar el script SQL de una migración
+ *     operationId: getProjectMigration
+ *     description: Devuelve como archivo adjunto (ej. 0003_campo_user_email_actualizado.up.sql) el script up o down de la migración de una versión del esquema
+ *     tags: [Projects]
+ *     parameters:
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: ID del proyecto
+ *       - in: path
+ *         name: version
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Número de versión de la migración
+ *       - in: query
+ *         name: dialect
+ *         schema:
+ *           type: string
+ *           enum: [postgres, mysql, sqlite]
+ *           default: postgres
+ *         description: Dialecto SQL del script
+ *       - in: query
+ *         name: direction
+ *         schema:
+ *           type: string
+ *           enum: [up, down]
+ *           default: up
+ *         description: Aplicar (up) o deshacer (down) la migración
+ *     responses:
+ *       200:
+ *         description: Script SQL (adjunto)
+ *         content:
+ *           application/sql:
+ *             schema:
+ *               type: string
+ *       400:
+ *         description: Dialecto o dirección no soportados
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Proyecto o migración no encontrada
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get(
+  "/projects/:projectId/migrations/:version",
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const dialect = req.query.dialect ?? "postgres";
+      if (!SQL_DIALECTS.includes(dialect as SqlDialect)) {
+        res.status(400).json({
+          error: "Bad Request",
+          message: `Dialecto no soportado. Permitidos: ${SQL_DIALECTS.join(
+            ", "
+          )}`,
+        });
+        return;
+      }
+
+      const direction = req.query.direction ?? "up";
+      if (!MIGRATION_DIRECTIONS.includes(direction as MigrationDirection)) {
+        res.status(400).json({
+          error: "Bad Request",
+          message: "La dirección debe ser up o down",
+        });
+        return;
+      }
+
+      const project = await projectRepository.findById(req.params.projectId);
+      if (!project) {
+        res.status(404).json({
+          error: "Not Found",
+          message: "Proyecto no encontrado",
+        });
+        return;
+      }
+
+      const versions = await schemaVersionRepository.findByProjectId(
+        project.id
+      );
+      const migration = buildSchemaMigrations(
+        versions,
+        dialect as SqlDialect
+      ).find((migration) => String(migration.version) === req.params.version);
+      if (!migration) {
+        res.status(404).json({
+          error: "Not Found",
+          message: `Migración ${req.params.version} no encontrada`,
+        });
+        return;
+      }
+
+      res.type("application/sql");
+      res.setHeader(
+        "Content-Disposition",
+        `attachment; filename="${migration.name}.${direction}.sql"`
+      );
+      res.send(migration[direction as MigrationDirection]);
+    } catch (error) {
+      console.error("Error getting project migration:", error);
+      res.status(500).json({
+        error: "Internal Server Error",
+        message: "Error interno del servidor",
+      });
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,111 @@
+import { NextFunction, Request, Response, Router } from "express";
+import { swaggerUi } from "../config/swagger";
+import { ProjectRepository } from "../repositories/projectRepository";
+import { buildProjectOpenApi } from "../utils/projectOpenApi";
+
+const router = Router();
+const projectRepository = new ProjectRepository();
+
+/**
+ * URL base del servidor tal como la ve el cliente
+ */
+const getBaseUrl = (req: Request): string =>
+  `${req.protocol}://${req.get("host")}`;
+
+/**
+ * @swagger
+ * /api/projects/{projectId}/openapi.json:
+ *   get:
+ *     summary: Obtener la especificación OpenAPI 3.1 de la API de registros de un proyecto
+ *     operationId: getProjectOpenApi
+ *     description: Se genera a partir de las entidades, campos y relaciones del proyecto, con un esquema por entidad. La interfaz Swagger UI del proyecto está en /api/projects/{projectId}/docs
+ *     tags: [Projects]
+ *     parameters:
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: ID del proyecto
+ *     responses:
+ *       200:
+ *         description: Documento OpenAPI 3.1
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *       404:
+ *         description: Proyecto no encontrado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get(
+  "/projects/:projectId/openapi.json",
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const project = await projectRepository.findById(req.params.projectId);
+      if (!project) {
+        res.status(404).json({
+          error: "Not Found",
+          message: "Proyecto no encontrado",
+        });
+        return;
+      }
+
+      res.json(await buildProjectOpenApi(project, getBaseUrl(req)));
+    } catch (error) {
+      console.error("Error generating project OpenAPI:", error);
+      res.status(500).json({
+        error: "Internal Server Error",
+        message: "Error interno del servidor",
+      });
+    }
+  }
+);
+
+/**
+ * Carga la especificación del proyecto para que Swagger UI la sirva
+ */
+const loadProjectSpec = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  // Los archivos estáticos de Swagger UI no necesitan la especificación
+  if (req.path !== "/" && !req.path.endsWith("/swagger-ui-init.js")) {
+    next();
+    return;
+  }
+
+  try {
+    const project = await projectRepository.findById(req.params.projectId);
+    if (!project) {
+      res.status(404).json({
+        error: "Not Found",
+        message: "Proyecto no encontrado",
+      });
+      return;
+    }
+
+    (req as Request & { swaggerDoc?: unknown }).swaggerDoc =
+      await buildProjectOpenApi(project, getBaseUrl(req));
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Swagger UI de cada proyecto: /api/projects/:projectId/docs
+router.use(
+  "/projects/:projectId/docs",
+  loadProjectSpec,
+  swaggerUi.serveFiles(),
+  swaggerUi.setup(undefined, {
+    customSiteTitle: "OroyaAPI - API del proyecto",
+  })
+);
+
+export default router;
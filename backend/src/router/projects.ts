@@ -1,5 +1,15 @@
 import { Request, Response, Router } from "express";
-import { ProjectRepository } from "../repositories/projectRepository";
+import {
+  PROJECT_QUERY_COLUMNS,
+  ProjectRepository,
+} from "../repositories/projectRepository";
+import {
+  parseListQuery,
+  QueryLanguageError,
+  setPaginationHeaders,
+} from "../utils/queryLanguage";
+import { countProjectRecords, dropProjectTables } from "../utils/schemaSync";
+import { recordSchemaVersion } from "../utils/schemaVersions";
 import { generateUUID } from "../utils/uuid";
 
 const router = Router();
@@ -10,6 +20,7 @@ const projectRepository = new ProjectRepository();
  * /api/projects:
  *   post:
  *     summary: Crear un nuevo proyecto
+ *     operationId: createProject
  *     tags: [Projects]
  *     requestBody:
  *       required: true
@@ -60,6 +71,7 @@ router.post("/", async (req: Request, res: Response): Promise<void> => {
       name,
       description: description || undefined,
     });
+    await recordSchemaVersion(project.id, "Versión inicial");
 
     res.status(201).json(project);
   } catch (error) {
@@ -76,24 +88,59 @@ router.post("/", async (req: Request, res: Response): Promise<void> => {
  * /api/projects:
  *   get:
  *     summary: Obtener todos los proyectos
+ *     operationId: listProjects
  *     tags: [Projects]
+ *     parameters:
+ *       - $ref: '#/components/parameters/ListFilter'
+ *       - $ref: '#/components/parameters/ListSort'
+ *       - $ref: '#/components/parameters/PageSize'
+ *       - $ref: '#/components/parameters/PageNumber'
+ *       - $ref: '#/components/parameters/PageCursor'
  *     responses:
  *       200:
  *         description: Lista de proyectos
+ *         headers:
+ *           X-Total-Count:
+ *             $ref: '#/components/headers/X-Total-Count'
+ *           X-Page-Size:
+ *             $ref: '#/components/headers/X-Page-Size'
+ *           X-Page-Number:
+ *             $ref: '#/components/headers/X-Page-Number'
+ *           X-Next-Cursor:
+ *             $ref: '#/components/headers/X-Next-Cursor'
  *         content:
  *           application/json:
  *             schema:
  *               type: array
  *               items:
  *                 $ref: '#/components/schemas/Project'
+ *       400:
+ *         description: Filtro, ordenación o paginación inválidos
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
  */
 router.get("/", async (req: Request, res: Response): Promise<void> => {
   try {
-    // Obtener todos los proyectos de la base de datos
-    const projects = await projectRepository.findAll();
-    res.json(projects);
+    const listQuery = parseListQuery(req.query, {
+      columns: PROJECT_QUERY_COLUMNS,
+      defaultSort: "-created_at",
+    });
+
+    // Obtener los proyectos de la base de datos
+    const page = await projectRepository.findPage(listQuery);
+    setPaginationHeaders(res, page);
+    res.json(page.items);
   } catch (error) {
     console.error("Error obtaining projects:", error);
+    if (error instanceof QueryLanguageError) {
+      res.status(400).json({
+        error: "Bad Request",
+        message: error.message,
+      });
+      return;
+    }
     res.status(500).json({
       error: "Internal Server Error",
       message: "Error interno del servidor",
@@ -106,6 +153,7 @@ router.get("/", async (req: Request, res: Response): Promise<void> => {
  * /api/projects/{projectId}:
  *   get:
  *     summary: Obtener un proyecto específico
+ *     operationId: getProject
  *     tags: [Projects]
  *     parameters:
  *       - in: path
@@ -162,6 +210,7 @@ router.get(
  * /api/projects/{projectId}:
  *   put:
  *     summary: Actualizar un proyecto completo
+ *     operationId: updateProject
  *     tags: [Projects]
  *     parameters:
  *       - in: path
@@ -263,6 +312,7 @@ router.put(
  * /api/projects/{projectId}:
  *   patch:
  *     summary: Actualizar parcialmente un proyecto
+ *     operationId: patchProject
  *     tags: [Projects]
  *     parameters:
  *       - in: path
@@ -363,6 +413,7 @@ router.patch(
  * /api/projects/{projectId}:
  *   delete:
  *     summary: Eliminar un proyecto
+ *     operationId: deleteProject
  *     tags: [Projects]
  *     parameters:
  *       - in: path
@@ -372,6 +423,11 @@ router.patch(
  *           type: string
  *           format: uuid
  *         description: ID del proyecto
+ *       - in: query
+ *         name: confirm
+ *         schema:
+ *           type: boolean
+ *         description: Confirma la eliminación aunque el proyecto tenga registros
  *     responses:
  *       200:
  *         description: Proyecto eliminado exitosamente
@@ -392,6 +448,12 @@ router.patch(
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: El proyecto tiene registros y no se confirmó la eliminación
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
  */
 router.delete(
   "/:projectId",
@@ -409,6 +471,20 @@ router.delete(
         return;
       }
 
+      // Los registros de sus entidades se pierden al eliminar el proyecto
+      const affectedRows = countProjectRecords(projectId);
+      if (affectedRows > 0 && req.query.confirm !== "true") {
+        res.status(409).json({
+          error: "Conflict",
+          message: `El proyecto tiene ${affectedRows} registros. Use ?confirm=true para eliminarlo junto con sus datos`,
+          affected_rows: affectedRows,
+        });
+        return;
+      }
+
+      // Eliminar las tablas físicas antes que los metadatos que las describen
+      dropProjectTables(projectId);
+
       // Eliminar proyecto de la base de datos
       const deleted = await projectRepository.delete(projectId);
 
@@ -0,0 +1,1122 @@
+import { Request, Response, Router } from "express";
+import { EntityRepository } from "../repositories/entityRepository";
+import { FieldRepository } from "../repositories/fieldRepository";
+import { FileRepository } from "../repositories/fileRepository";
+import { ProjectRepository } from "../repositories/projectRepository";
+import {
+  getRecordQueryColumns,
+  RecordRepository,
+  RecordTarget,
+  RecordValues,
+} from "../repositories/recordRepository";
+import { isConstraintViolation } from "../utils/dataTables";
+import {
+  parseListQuery,
+  QueryLanguageError,
+  setPaginationHeaders,
+} from "../utils/queryLanguage";
+import {
+  expandIncludes,
+  IncludeError,
+  parseIncludes,
+} from "../utils/recordIncludes";
+import {
+  compileRecordValidator,
+  RecordValidationOptions,
+  RecordValidator,
+} from "../utils/recordValidation";
+import {
+  applyDeletionPlan,
+  checkRecordRelationships,
+  describeBlockingImpact,
+  planRecordDeletion,
+} from "../utils/referentialIntegrity";
+import { findLink, getEntityLinks, RelationLink } from "../utils/relationLinks";
+import { generateUUID } from "../utils/uuid";
+
+const router = Router();
+const recordRepository = new RecordRepository();
+const entityRepository = new EntityRepository();
+const fieldRepository = new FieldRepository();
+const projectRepository = new ProjectRepository();
+const fileRepository = new FileRepository();
+
+/**
+ * Resuelve la entidad (por nombre) y sus campos a partir de los parámetros de la ruta.
+ * Si no se encuentra, responde 404 y devuelve null.
+ */
+const resolveTarget = async (
+  req: Request,
+  res: Response
+): Promise<RecordTarget | null> => {
+  const { projectId, entityName } = req.params;
+
+  // Verificar que el proyecto existe
+  const projectExists = await projectRepository.exists(projectId);
+  if (!projectExists) {
+    res.status(404).json({
+      error: "Not Found",
+      message: "Proyecto no encontrado",
+    });
+    return null;
+  }
+
+  // Verificar que la entidad existe en el proyecto
+  const entity = await entityRepository.findByNameInProject(
+    entityName,
+    projectId
+  );
+  if (!entity) {
+    res.status(404).json({
+      error: "Not Found",
+      message: "Entidad no encontrada en el proyecto especificado",
+    });
+    return null;
+  }
+
+  const fields = await fieldRepository.findByEntityId(entity.id);
+  return { entity, fields };
+};
+
+/**
+ * Compila el validador de registros de la entidad
+ */
+const getValidator = (target: RecordTarget): RecordValidator =>
+  compileRecordValidator(target.fields, {
+    isValueTaken: (field, value, excludeId) =>
+      recordRepository.isValueTaken(target, field, value, excludeId),
+    findFiles: (ids) => fileRepository.findByIds(ids),
+    checkRelationships: (values) => checkRecordRelationships(target, values),
+  });
+
+/**
+ * Valida el body de escritura y responde 400 con los errores por campo si no es válido
+ */
+const validatePayload = async (
+  target: RecordTarget,
+  body: unknown,
+  res: Response,
+  options: RecordValidationOptions
+): Promise<RecordValues | null> => {
+  const result = await getValidator(target)(body, options);
+
+  if (!result.valid) {
+    res.status(400).json({
+      error: "Bad Request",
+      message: "Los datos del registro no son válidos",
+      errors: result.errors,
+    });
+    return null;
+  }
+
+  return result.values;
+};
+
+/**
+ * Resuelve el registro y el vínculo muchos a muchos de una ruta /relations/:relationshipName.
+ * Si no se encuentran, responde con el error correspondiente y devuelve null.
+ */
+const resolveJunctionLink = async (
+  req: Request,
+  res: Response
+): Promise<{ target: RecordTarget; link: RelationLink } | null> => {
+  const target = await resolveTarget(req, res);
+  if (!target) {
+    return null;
+  }
+
+  const record = await recordRepository.findById(target, req.params.recordId);
+  if (!record) {
+    res.status(404).json({
+      error: "Not Found",
+      message: "Registro no encontrado",
+    });
+    return null;
+  }
+
+  const links = await getEntityLinks(target.entity);
+  const link = findLink(links, req.params.relationshipName);
+  if (!link) {
+    res.status(404).json({
+      error: "Not Found",
+      message: `La entidad ${target.entity.name} no tiene la relación ${req.params.relationshipName}`,
+    });
+    return null;
+  }
+  if (!link.junction) {
+    res.status(400).json({
+      error: "Bad Request",
+      message: `La relación ${link.name} no es muchos a muchos; se asigna con el campo ${
+        link.owner === "local" ? link.localColumn : link.remoteColumn
+      }`,
+    });
+    return null;
+  }
+
+  return { target, link };
+};
+
+/**
+ * Obtiene los IDs de registros relacionados del body ({ ids: [...] } o { id })
+ */
+const parseRelatedIds = (body: unknown): string[] | null => {
+  if (!body || typeof body !== "object") {
+    return null;
+  }
+  const { id, ids } = body as { id?: unknown; ids?: unknown };
+  const values = ids !== undefined ? ids : id !== undefined ? [id] : null;
+  if (
+    !Array.isArray(values) ||
+    values.length === 0 ||
+    !values.every((value) => typeof value === "string" && value !== "")
+  ) {
+    return null;
+  }
+  return Array.from(new Set(values as string[]));
+};
+
+/**
+ * @swagger
+ * /api/projects/{projectId}/data/{entityName}:
+ *   get:
+ *     summary: Obtener todos los registros de una entidad
+ *     operationId: listRecords
+ *     tags: [Records]
+ *     parameters:
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: ID del proyecto
+ *       - in: path
+ *         name: entityName
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Nombre de la entidad
+ *       - $ref: '#/components/parameters/ListFilter'
+ *       - $ref: '#/components/parameters/ListSort'
+ *       - $ref: '#/components/parameters/PageSize'
+ *       - $ref: '#/components/parameters/PageNumber'
+ *       - $ref: '#/components/parameters/PageCursor'
+ *       - in: query
+ *         name: include
+ *         schema:
+ *           type: string
+ *         description: Relaciones a incrustar separadas por comas, con notación de punto para anidarlas (ej. author,comments.author)
+ *         example: author,comments.author
+ *     responses:
+ *       200:
+ *         description: Lista de registros de la entidad
+ *         headers:
+ *           X-Total-Count:
+ *             $ref: '#/components/headers/X-Total-Count'
+ *           X-Page-Size:
+ *             $ref: '#/components/headers/X-Page-Size'
+ *           X-Page-Number:
+ *             $ref: '#/components/headers/X-Page-Number'
+ *           X-Next-Cursor:
+ *             $ref: '#/components/headers/X-Next-Cursor'
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/DataRecord'
+ *       400:
+ *         description: Filtro, ordenación o paginación inválidos
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Proyecto o entidad no encontrada
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get(
+  "/projects/:projectId/data/:entityName",
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const target = await resolveTarget(req, res);
+      if (!target) {
+        return;
+      }
+
+      const listQuery = parseListQuery(req.query, {
+        columns: getRecordQueryColumns(target.fields),
+        defaultSort: "-created_at",
+        defaultPageSize: 50,
+      });
+
+      const includes = parseIncludes(req.query.include);
+
+      const page = await recordRepository.findPage(target, listQuery);
+      await expandIncludes(target, page.items, includes);
+      setPaginationHeaders(res, page);
+      res.json(page.items);
+    } catch (error) {
+      console.error("Error obtaining records:", error);
+      if (
+        error instanceof QueryLanguageError ||
+        error instanceof IncludeError
+      ) {
+        res.status(400).json({
+          error: "Bad Request",
+          message: error.message,
+        });
+        return;
+      }
+      res.status(500).json({
+        error: "Internal Server Error",
+        message: "Error interno del servidor",
+      });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/projects/{projectId}/data/{entityName}:
+ *   post:
+ *     summary: Crear un nuevo registro de una entidad
+ *     operationId: createRecord
+ *     tags: [Records]
+ *     parameters:
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: ID del proyecto
+ *       - in: path
+ *         name: entityName
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Nombre de la entidad
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             description: Valores del registro indexados por nombre de campo
+ *             additionalProperties: true
+ *     responses:
+ *       201:
+ *         description: Registro creado exitosamente
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/DataRecord'
+ *       400:
+ *         description: Error en los datos enviados
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/RecordValidationError'
+ *       404:
+ *         description: Proyecto o entidad no encontrada
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post(
+  "/projects/:projectId/data/:entityName",
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const target = await resolveTarget(req, res);
+      if (!target) {
+        return;
+      }
+
+      // Los campos no enviados toman su valor por defecto
+      const payload = await validatePayload(target, req.body, res, {
+        fillDefaults: true,
+      });
+      if (!payload) {
+        return;
+      }
+
+      // Crear registro en base de datos
+      const recordId = generateUUID();
+      const record = await recordRepository.create(target, recordId, payload);
+
+      res.status(201).json(record);
+    } catch (error) {
+      console.error("Error creating record:", error);
+      if (isConstraintViolation(error)) {
+        res.status(409).json({
+          error: "Conflict",
+          message: `El registro viola una restricción de la entidad: ${
+            (error as Error).message
+          }`,
+        });
+        return;
+      }
+      res.status(500).json({
+        error: "Internal Server Error",
+        message: "Error interno del servidor",
+      });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/projects/{projectId}/data/{entityName}/validate:
+ *   post:
+ *     summary: Validar los datos de un registro sin guardarlos
+ *     operationId: validateRecord
+ *     description: Aplica las mismas reglas que la creación y actualización de registros
+ *     tags: [Records]
+ *     parameters:
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: ID del proyecto
+ *       - in: path
+ *         name: entityName
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Nombre de la entidad
+ *       - in: query
+ *         name: recordId
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Registro que se está editando (se excluye de la verificación de unicidad)
+ *       - in: query
+ *         name: partial
+ *         schema:
+ *           type: boolean
+ *         description: Valida solo los campos enviados, como en PATCH
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             additionalProperties: true
+ *     responses:
+ *       200:
+ *         description: Resultado de la validación
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/RecordValidationResult'
+ *       404:
+ *         description: Proyecto o entidad no encontrada
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post(
+  "/projects/:projectId/data/:entityName/validate",
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const target = await resolveTarget(req, res);
+      if (!target) {
+        return;
+      }
+
+      const recordId =
+        typeof req.query.recordId === "string" ? req.query.recordId : undefined;
+      const result = await getValidator(target)(req.body, {
+        partial: req.query.partial === "true",
+        fillDefaults: !recordId,
+        recordId,
+      });
+
+      res.json(result);
+    } catch (error) {
+      console.error("Error validating record:", error);
+      res.status(500).json({
+        error: "Internal Server Error",
+        message: "Error interno del servidor",
+      });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/projects/{projectId}/data/{entityName}/{recordId}:
+ *   get:
+ *     summary: Obtener un registro específico de una entidad
+ *     operationId: getRecord
+ *     tags: [Records]
+ *     parameters:
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: ID del proyecto
+ *       - in: path
+ *         name: entityName
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Nombre de la entidad
+ *       - in: path
+ *         name: recordId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: ID del registro
+ *       - in: query
+ *         name: include
+ *         schema:
+ *           type: string
+ *         description: Relaciones a incrustar separadas por comas, con notación de punto para anidarlas (ej. author,comments.author)
+ *         example: author,comments.author
+ *     responses:
+ *       200:
+ *         description: Registro encontrado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/DataRecord'
+ *       404:
+ *         description: Proyecto, entidad o registro no encontrado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get(
+  "/projects/:projectId/data/:entityName/:recordId",
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const target = await resolveTarget(req, res);
+      if (!target) {
+        return;
+      }
+
+      const includes = parseIncludes(req.query.include);
+
+      const record = await recordRepository.findById(
+        target,
+        req.params.recordId
+      );
+
+      if (!record) {
+        res.status(404).json({
+          error: "Not Found",
+          message: "Registro no encontrado",
+        });
+        return;
+      }
+
+      await expandIncludes(target, [record], includes);
+      res.json(record);
+    } catch (error) {
+      console.error("Error obtaining record:", error);
+      if (error instanceof IncludeError) {
+        res.status(400).json({
+          error: "Bad Request",
+          message: error.message,
+        });
+        return;
+      }
+      res.status(500).json({
+        error: "Internal Server Error",
+        message: "Error interno del servidor",
+      });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/projects/{projectId}/data/{entityName}/{recordId}:
+ *   put:
+ *     summary: Reemplazar un registro completo
+ *     operationId: updateRecord
+ *     description: Los campos no enviados quedan en null
+ *     tags: [Records]
+ *     parameters:
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: ID del proyecto
+ *       - in: path
+ *         name: entityName
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Nombre de la entidad
+ *       - in: path
+ *         name: recordId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: ID del registro
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             additionalProperties: true
+ *     responses:
+ *       200:
+ *         description: Registro actualizado exitosamente
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/DataRecord'
+ *       400:
+ *         description: Error en los datos enviados
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/RecordValidationError'
+ *       404:
+ *         description: Proyecto, entidad o registro no encontrado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.put(
+  "/projects/:projectId/data/:entityName/:recordId",
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const target = await resolveTarget(req, res);
+      if (!target) {
+        return;
+      }
+
+      // Los campos no enviados se reemplazan por null
+      const payload = await validatePayload(target, req.body, res, {
+        recordId: req.params.recordId,
+      });
+      if (!payload) {
+        return;
+      }
+
+      const record = await recordRepository.update(
+        target,
+        req.params.recordId,
+        payload
+      );
+
+      if (!record) {
+        res.status(404).json({
+          error: "Not Found",
+          message: "Registro no encontrado",
+        });
+        return;
+      }
+
+      res.json(record);
+    } catch (error) {
+      console.error("Error updating record:", error);
+      if (isConstraintViolation(error)) {
+        res.status(409).json({
+          error: "Conflict",
+          message: `El registro viola una restricción de la entidad: ${
+            (error as Error).message
+          }`,
+        });
+        return;
+      }
+      res.status(500).json({
+        error: "Internal Server Error",
+        message: "Error interno del servidor",
+      });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/projects/{projectId}/data/{entityName}/{recordId}:
+ *   patch:
+ *     summary: Actualizar parcialmente un registro
+ *     operationId: patchRecord
+ *     tags: [Records]
+ *     parameters:
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: ID del proyecto
+ *       - in: path
+ *         name: entityName
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Nombre de la entidad
+ *       - in: path
+ *         name: recordId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: ID del registro
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             additionalProperties: true
+ *     responses:
+ *       200:
+ *         description: Registro actualizado exitosamente
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/DataRecord'
+ *       400:
+ *         description: Error en los datos enviados
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/RecordValidationError'
+ *       404:
+ *         description: Proyecto, entidad o registro no encontrado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.patch(
+  "/projects/:projectId/data/:entityName/:recordId",
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const target = await resolveTarget(req, res);
+      if (!target) {
+        return;
+      }
+
+      const payload = await validatePayload(target, req.body, res, {
+        partial: true,
+        recordId: req.params.recordId,
+      });
+      if (!payload) {
+        return;
+      }
+
+      const record = await recordRepository.update(
+        target,
+        req.params.recordId,
+        payload
+      );
+
+      if (!record) {
+        res.status(404).json({
+          error: "Not Found",
+          message: "Registro no encontrado",
+        });
+        return;
+      }
+
+      res.json(record);
+    } catch (error) {
+      console.error("Error updating record:", error);
+      if (isConstraintViolation(error)) {
+        res.status(409).json({
+          error: "Conflict",
+          message: `El registro viola una restricción de la entidad: ${
+            (error as Error).message
+          }`,
+        });
+        return;
+      }
+      res.status(500).json({
+        error: "Internal Server Error",
+        message: "Error interno del servidor",
+      });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/projects/{projectId}/data/{entityName}/{recordId}:
+ *   delete:
+ *     summary: Eliminar un registro
+ *     operationId: deleteRecord
+ *     description: |
+ *       Los registros que dependen de este se tratan según cada relación:
+ *       se eliminan si la relación tiene cascade_delete, impiden la eliminación si la
+ *       relación (o su clave foránea) es requerida y, en otro caso, su referencia queda en null.
+ *       Los vínculos muchos a muchos se eliminan.
+ *     tags: [Records]
+ *     parameters:
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: ID del proyecto
+ *       - in: path
+ *         name: entityName
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Nombre de la entidad
+ *       - in: path
+ *         name: recordId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: ID del registro
+ *     responses:
+ *       204:
+ *         description: Registro eliminado exitosamente
+ *       404:
+ *         description: Proyecto, entidad o registro no encontrado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: Una relación requerida tiene registros dependientes
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/RelationshipConflict'
+ */
+router.delete(
+  "/projects/:projectId/data/:entityName/:recordId",
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const target = await resolveTarget(req, res);
+      if (!target) {
+        return;
+      }
+
+      const record = await recordRepository.findById(
+        target,
+        req.params.recordId
+      );
+
+      if (!record) {
+        res.status(404).json({
+          error: "Not Found",
+          message: "Registro no encontrado",
+        });
+        return;
+      }
+
+      // Los registros dependientes se eliminan, se desvinculan o impiden la eliminación
+      const plan = await planRecordDeletion(target, [record.id]);
+      if (plan.blocking.length > 0) {
+        const [impact] = plan.blocking;
+        res.status(409).json({
+          error: "Conflict",
+          message: describeBlockingImpact(impact),
+          relationship: impact,
+          relationships: plan.blocking,
+        });
+        return;
+      }
+
+      applyDeletionPlan(plan);
+
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting record:", error);
+      if (isConstraintViolation(error)) {
+        res.status(409).json({
+          error: "Conflict",
+          message: `El registro viola una restricción de la entidad: ${
+            (error as Error).message
+          }`,
+        });
+        return;
+      }
+      res.status(500).json({
+        error: "Internal Server Error",
+        message: "Error interno del servidor",
+      });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/projects/{projectId}/data/{entityName}/{recordId}/relations/{relationshipName}:
+ *   post:
+ *     summary: Vincular un registro con otros en una relación muchos a muchos
+ *     operationId: linkRecords
+ *     description: Los vínculos se guardan en la tabla intermedia de la relación. Los vínculos que ya existían se ignoran.
+ *     tags: [Records]
+ *     parameters:
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: ID del proyecto
+ *       - in: path
+ *         name: entityName
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Nombre de la entidad
+ *       - in: path
+ *         name: recordId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: ID del registro
+ *       - in: path
+ *         name: relationshipName
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Nombre de la relación desde la entidad (el mismo que acepta include)
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               ids:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   format: uuid
+ *                 description: IDs de los registros relacionados
+ *               id:
+ *                 type: string
+ *                 format: uuid
+ *                 description: ID de un único registro relacionado
+ *     responses:
+ *       200:
+ *         description: Registros vinculados
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 relation:
+ *                   type: string
+ *                 linked:
+ *                   type: integer
+ *                   description: Cantidad de vínculos nuevos
+ *       400:
+ *         description: IDs inválidos o la relación no es muchos a muchos
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Proyecto, entidad, registro, relación o registros relacionados no encontrados
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post(
+  "/projects/:projectId/data/:entityName/:recordId/relations/:relationshipName",
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const resolved = await resolveJunctionLink(req, res);
+      if (!resolved) {
+        return;
+      }
+      const { link } = resolved;
+
+      const ids = parseRelatedIds(req.body);
+      if (!ids) {
+        res.status(400).json({
+          error: "Bad Request",
+          message: "Se requiere ids (lista de IDs de registros) o id",
+        });
+        return;
+      }
+
+      // Los registros relacionados deben existir
+      const related = await recordRepository.findByColumnValues(
+        { entity: link.entity, fields: link.fields },
+        "id",
+        ids
+      );
+      const found = new Set(related.map((item) => item.id));
+      const missing = ids.filter((id) => !found.has(id));
+      if (missing.length > 0) {
+        res.status(404).json({
+          error: "Not Found",
+          message: `Registros de ${link.entity.name} no encontrados: ${missing.join(
+            ", "
+          )}`,
+        });
+        return;
+      }
+
+      const linked = await recordRepository.link(
+        link,
+        req.params.recordId,
+        ids
+      );
+
+      res.json({
+        success: true,
+        relation: link.name,
+        linked,
+      });
+    } catch (error) {
+      console.error("Error linking records:", error);
+      res.status(500).json({
+        error: "Internal Server Error",
+        message: "Error interno del servidor",
+      });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/projects/{projectId}/data/{entityName}/{recordId}/relations/{relationshipName}:
+ *   delete:
+ *     summary: Desvincular un registro de otros en una relación muchos a muchos
+ *     operationId: unlinkRecords
+ *     description: Solo se eliminan los vínculos; los registros relacionados se conservan.
+ *     tags: [Records]
+ *     parameters:
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: ID del proyecto
+ *       - in: path
+ *         name: entityName
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Nombre de la entidad
+ *       - in: path
+ *         name: recordId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: ID del registro
+ *       - in: path
+ *         name: relationshipName
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Nombre de la relación desde la entidad (el mismo que acepta include)
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               ids:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   format: uuid
+ *                 description: IDs de los registros relacionados
+ *               id:
+ *                 type: string
+ *                 format: uuid
+ *                 description: ID de un único registro relacionado
+ *     responses:
+ *       200:
+ *         description: Registros desvinculados
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 relation:
+ *                   type: string
+ *                 unlinked:
+ *                   type: integer
+ *                   description: Cantidad de vínculos eliminados
+ *       400:
+ *         description: IDs inválidos o la relación no es muchos a muchos
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Proyecto, entidad, registro o relación no encontrados
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.delete(
+  "/projects/:projectId/data/:entityName/:recordId/relations/:relationshipName",
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const resolved = await resolveJunctionLink(req, res);
+      if (!resolved) {
+        return;
+      }
+      const { link } = resolved;
+
+      const ids = parseRelatedIds(req.body);
+      if (!ids) {
+        res.status(400).json({
+          error: "Bad Request",
+          message: "Se requiere ids (lista de IDs de registros) o id",
+        });
+        return;
+      }
+
+      const unlinked = await recordRepository.unlink(
+        link,
+        req.params.recordId,
+        ids
+      );
+
+      res.json({
+        success: true,
+        relation: link.name,
+        unlinked,
+      });
+    } catch (error) {
+      console.error("Error unlinking records:", error);
+      res.status(500).json({
+        error: "Internal Server Error",
+        message: "Error interno del servidor",
+      });
+    }
+  }
+);
+
+export default router;
@@ -1,10 +1,25 @@
 import { Request, Response, Router } from "express";
 import {
+  EntityRelationship,
   EntityRelationshipRepository,
+  RELATIONSHIP_QUERY_COLUMNS,
   RelationshipType,
 } from "../repositories/entityRelationshipRepository";
 import { EntityRepository } from "../repositories/entityRepository";
 import { FieldRepository } from "../repositories/fieldRepository";
+import {
+  parseListQuery,
+  QueryLanguageError,
+  setPaginationHeaders,
+} from "../utils/queryLanguage";
+import { toLinkName } from "../utils/relationLinks";
+import {
+  countJunctionRows,
+  dropJunctionTable,
+  hasJunctionTable,
+  syncJunctionTable,
+} from "../utils/schemaSync";
+import { recordSchemaVersion } from "../utils/schemaVersions";
 import { generateUUID } from "../utils/uuid";
 
 const router = Router();
@@ -12,31 +27,118 @@ const relationshipRepository = new EntityRelationshipRepository();
 const entityRepository = new EntityRepository();
 const fieldRepository = new FieldRepository();
 
+/**
+ * Nombre de una relación en el historial: el suyo o, si no tiene, el de su
+ * clave foránea o el de la entidad destino
+ */
+const getRelationshipName = async (
+  relationship: EntityRelationship
+): Promise<string> => {
+  if (relationship.name) {
+    return relationship.name;
+  }
+
+  const fieldId = relationship.source_field_id || relationship.target_field_id;
+  const field = fieldId ? await fieldRepository.findById(fieldId) : null;
+  const foreignKey =
+    field ||
+    (await fieldRepository.findByEntityId(relationship.source_entity_id)).find(
+      (candidate) =>
+        candidate.is_foreign_key &&
+        candidate.foreign_entity_id === relationship.target_entity_id
+    );
+  if (foreignKey) {
+    return foreignKey.name;
+  }
+
+  const target = await entityRepository.findById(
+    relationship.target_entity_id
+  );
+  return target ? toLinkName(target.name) : relationship.relationship_type;
+};
+
+/**
+ * Guarda la nueva versión del esquema del proyecto de la entidad origen
+ */
+const captureRelationshipChange = async (
+  relationship: EntityRelationship,
+  action: string
+): Promise<void> => {
+  const source = await entityRepository.findById(
+    relationship.source_entity_id
+  );
+  if (!source) {
+    return;
+  }
+  await recordSchemaVersion(
+    source.project_id,
+    `Relación ${source.name}.${await getRelationshipName(
+      relationship
+    )} ${action}`
+  );
+};
+
 /**
  * @swagger
  * /api/relationships:
  *   get:
  *     summary: Obtener todas las relaciones entre entidades
+ *     operationId: listRelationships
  *     tags: [Entity Relationships]
+ *     parameters:
+ *       - $ref: '#/components/parameters/ListFilter'
+ *       - $ref: '#/components/parameters/ListSort'
+ *       - $ref: '#/components/parameters/PageSize'
+ *       - $ref: '#/components/parameters/PageNumber'
+ *       - $ref: '#/components/parameters/PageCursor'
  *     responses:
  *       200:
  *         description: Lista de relaciones entre entidades
+ *         headers:
+ *           X-Total-Count:
+ *             $ref: '#/components/headers/X-Total-Count'
+ *           X-Page-Size:
+ *             $ref: '#/components/headers/X-Page-Size'
+ *           X-Page-Number:
+ *             $ref: '#/components/headers/X-Page-Number'
+ *           X-Next-Cursor:
+ *             $ref: '#/components/headers/X-Next-Cursor'
  *         content:
  *           application/json:
  *             schema:
  *               type: array
  *               items:
  *                 $ref: '#/components/schemas/EntityRelationship'
+ *       400:
+ *         description: Filtro, ordenación o paginación inválidos
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
  */
 router.get(
   "/relationships",
   async (req: Request, res: Response): Promise<void> => {
     try {
-      const relationships =
-        await relationshipRepository.findWithEntityDetails();
-      res.json(relationships);
+      const listQuery = parseListQuery(req.query, {
+        columns: RELATIONSHIP_QUERY_COLUMNS,
+        defaultSort: "-created_at",
+      });
+
+      const page = await relationshipRepository.findPageWithEntityDetails(
+        listQuery
+      );
+      setPaginationHeaders(res, page);
+      res.json(page.items);
     } catch (error) {
       console.error("Error obtaining relationships:", error);
+      if (error instanceof QueryLanguageError) {
+        res.status(400).json({
+          error: "Bad Request",
+          message: error.message,
+        });
+        return;
+      }
       res.status(500).json({
         error: "Internal Server Error",
         message: "Error interno del servidor",
@@ -50,6 +152,8 @@ router.get(
  * /api/relationships:
  *   post:
  *     summary: Crear una nueva relación entre entidades
+ *     operationId: createRelationship
+ *     description: Las relaciones many_to_many crean una tabla intermedia con clave compuesta y claves foráneas hacia ambas entidades
  *     tags: [Entity Relationships]
  *     requestBody:
  *       required: true
@@ -242,6 +346,10 @@ router.post(
         cascade_delete: cascade_delete || false,
       });
 
+      // Las relaciones muchos a muchos se guardan en una tabla intermedia
+      syncJunctionTable(relationship);
+      await captureRelationshipChange(relationship, "creada");
+
       res.status(201).json(relationship);
     } catch (error) {
       console.error("Error creating relationship:", error);
@@ -258,6 +366,7 @@ router.post(
  * /api/relationships/{id}:
  *   get:
  *     summary: Obtener una relación específica por ID
+ *     operationId: getRelationship
  *     tags: [Entity Relationships]
  *     parameters:
  *       - in: path
@@ -308,6 +417,7 @@ router.get(
  * /api/relationships/{id}:
  *   put:
  *     summary: Actualizar una relación existente
+ *     operationId: updateRelationship
  *     tags: [Entity Relationships]
  *     parameters:
  *       - in: path
@@ -317,6 +427,11 @@ router.get(
  *           type: string
  *           format: uuid
  *         description: ID de la relación
+ *       - in: query
+ *         name: confirm
+ *         schema:
+ *           type: boolean
+ *         description: Confirma la eliminación de la tabla intermedia al dejar de ser muchos a muchos
  *     requestBody:
  *       required: true
  *       content:
@@ -344,8 +459,18 @@ router.get(
  *     responses:
  *       200:
  *         description: Relación actualizada exitosamente
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/EntityRelationship'
  *       404:
  *         description: Relación no encontrada
+ *       409:
+ *         description: El cambio de tipo eliminaría la tabla intermedia y no se confirmó
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
  */
 router.put(
   "/relationships/:id",
@@ -439,6 +564,21 @@ router.put(
         }
       }
 
+      // Dejar de ser muchos a muchos elimina la tabla intermedia y sus vínculos
+      const dropsJunction =
+        !!relationship_type &&
+        relationship_type !== "many_to_many" &&
+        hasJunctionTable(existingRelationship);
+      if (dropsJunction && req.query.confirm !== "true") {
+        const affectedRows = countJunctionRows(existingRelationship);
+        res.status(409).json({
+          error: "Conflict",
+          message: `La relación tiene una tabla intermedia con ${affectedRows} vínculos. Use ?confirm=true para eliminarla al cambiar el tipo`,
+          affected_rows: affectedRows,
+        });
+        return;
+      }
+
       // Actualizar relación
       const updatedRelationship = await relationshipRepository.update(id, {
         relationship_type,
@@ -450,6 +590,14 @@ router.put(
         cascade_delete,
       });
 
+      if (dropsJunction) {
+        dropJunctionTable(existingRelationship);
+      }
+      if (updatedRelationship) {
+        syncJunctionTable(updatedRelationship);
+        await captureRelationshipChange(updatedRelationship, "actualizada");
+      }
+
       res.json(updatedRelationship);
     } catch (error) {
       console.error("Error updating relationship:", error);
@@ -466,6 +614,8 @@ router.put(
  * /api/relationships/{id}:
  *   delete:
  *     summary: Eliminar una relación
+ *     operationId: deleteRelationship
+ *     description: En relaciones muchos a muchos también se elimina la tabla intermedia con sus vínculos, lo que requiere ?confirm=true
  *     tags: [Entity Relationships]
  *     parameters:
  *       - in: path
@@ -475,11 +625,22 @@ router.put(
  *           type: string
  *           format: uuid
  *         description: ID de la relación
+ *       - in: query
+ *         name: confirm
+ *         schema:
+ *           type: boolean
+ *         description: Confirma la eliminación de la tabla intermedia de una relación muchos a muchos
  *     responses:
  *       204:
  *         description: Relación eliminada exitosamente
  *       404:
  *         description: Relación no encontrada
+ *       409:
+ *         description: La relación tiene una tabla intermedia y no se confirmó la eliminación
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
  */
 router.delete(
   "/relationships/:id",
@@ -487,6 +648,27 @@ router.delete(
     try {
       const { id } = req.params;
 
+      const relationship = await relationshipRepository.findById(id);
+      if (!relationship) {
+        res.status(404).json({
+          error: "Not Found",
+          message: "Relación no encontrada",
+        });
+        return;
+      }
+
+      // La tabla intermedia solo se elimina con confirmación explícita
+      const dropsJunction = hasJunctionTable(relationship);
+      if (dropsJunction && req.query.confirm !== "true") {
+        const affectedRows = countJunctionRows(relationship);
+        res.status(409).json({
+          error: "Conflict",
+          message: `La relación tiene una tabla intermedia con ${affectedRows} vínculos. Use ?confirm=true para eliminarla`,
+          affected_rows: affectedRows,
+        });
+        return;
+      }
+
       const deleted = await relationshipRepository.delete(id);
       if (!deleted) {
         res.status(404).json({
@@ -496,6 +678,11 @@ router.delete(
         return;
       }
 
+      if (dropsJunction) {
+        dropJunctionTable(relationship);
+      }
+      await captureRelationshipChange(relationship, "eliminada");
+
       res.status(204).send();
     } catch (error) {
       console.error("Error deleting relationship:", error);
@@ -512,6 +699,7 @@ router.delete(
  * /api/entities/{entityId}/relationships:
  *   get:
  *     summary: Obtener todas las relaciones de una entidad específica
+ *     operationId: listEntityRelationships
  *     tags: [Entity Relationships]
  *     parameters:
  *       - in: path
@@ -521,15 +709,35 @@ router.delete(
  *           type: string
  *           format: uuid
  *         description: ID de la entidad
+ *       - $ref: '#/components/parameters/ListFilter'
+ *       - $ref: '#/components/parameters/ListSort'
+ *       - $ref: '#/components/parameters/PageSize'
+ *       - $ref: '#/components/parameters/PageNumber'
+ *       - $ref: '#/components/parameters/PageCursor'
  *     responses:
  *       200:
  *         description: Lista de relaciones de la entidad
+ *         headers:
+ *           X-Total-Count:
+ *             $ref: '#/components/headers/X-Total-Count'
+ *           X-Page-Size:
+ *             $ref: '#/components/headers/X-Page-Size'
+ *           X-Page-Number:
+ *             $ref: '#/components/headers/X-Page-Number'
+ *           X-Next-Cursor:
+ *             $ref: '#/components/headers/X-Next-Cursor'
  *         content:
  *           application/json:
  *             schema:
  *               type: array
  *               items:
  *                 $ref: '#/components/schemas/EntityRelationship'
+ *       400:
+ *         description: Filtro, ordenación o paginación inválidos
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
  *       404:
  *         description: Entidad no encontrada
  */
@@ -549,12 +757,26 @@ router.get(
         return;
       }
 
-      const relationships = await relationshipRepository.findByEntityId(
-        entityId
+      const listQuery = parseListQuery(req.query, {
+        columns: RELATIONSHIP_QUERY_COLUMNS,
+        defaultSort: "-created_at",
+      });
+
+      const page = await relationshipRepository.findPageByEntityId(
+        entityId,
+        listQuery
       );
-      res.json(relationships);
+      setPaginationHeaders(res, page);
+      res.json(page.items);
     } catch (error) {
       console.error("Error obtaining entity relationships:", error);
+      if (error instanceof QueryLanguageError) {
+        res.status(400).json({
+          error: "Bad Request",
+          message: error.message,
+        });
+        return;
+      }
       res.status(500).json({
         error: "Internal Server Error",
         message: "Error interno del servidor",
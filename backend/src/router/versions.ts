@@ -0,0 +1,507 @@
+import { Request, Response, Router } from "express";
+import { ProjectRepository } from "../repositories/projectRepository";
+import {
+  SCHEMA_VERSION_QUERY_COLUMNS,
+  SchemaVersionRepository,
+} from "../repositories/schemaVersionRepository";
+import {
+  parseListQuery,
+  QueryLanguageError,
+  setPaginationHeaders,
+} from "../utils/queryLanguage";
+import {
+  captureSchemaVersion,
+  findSchemaVersion,
+  isValidVersionTag,
+} from "../utils/schemaVersions";
+
+const router = Router();
+const projectRepository = new ProjectRepository();
+const schemaVersionRepository = new SchemaVersionRepository();
+
+const INVALID_TAG_MESSAGE =
+  "La etiqueta debe empezar por una letra o un número y contener solo letras, números, '.', '_' o '-' (máximo 64 caracteres). No puede ser un número ni latest";
+
+/**
+ * @swagger
+ * /api/projects/{projectId}/versions:
+ *   get:
+ *     summary: Obtener las versiones del esquema de un proyecto
+ *     operationId: listSchemaVersions
+ *     description: Cada cambio en las entidades, campos o relaciones del proyecto guarda una versión numerada con el modelo completo. El listado no incluye el modelo de cada versión
+ *     tags: [Schema Versions]
+ *     parameters:
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: ID del proyecto
+ *       - $ref: '#/components/parameters/ListFilter'
+ *       - $ref: '#/components/parameters/ListSort'
+ *       - $ref: '#/components/parameters/PageSize'
+ *       - $ref: '#/components/parameters/PageNumber'
+ *       - $ref: '#/components/parameters/PageCursor'
+ *     responses:
+ *       200:
+ *         description: Versiones del esquema, de la más reciente a la más antigua
+ *         headers:
+ *           X-Total-Count:
+ *             $ref: '#/components/headers/X-Total-Count'
+ *           X-Page-Size:
+ *             $ref: '#/components/headers/X-Page-Size'
+ *           X-Page-Number:
+ *             $ref: '#/components/headers/X-Page-Number'
+ *           X-Next-Cursor:
+ *             $ref: '#/components/headers/X-Next-Cursor'
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/SchemaVersionSummary'
+ *       400:
+ *         description: Filtro, ordenación o paginación inválidos
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Proyecto no encontrado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get(
+  "/projects/:projectId/versions",
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { projectId } = req.params;
+
+      const projectExists = await projectRepository.exists(projectId);
+      if (!projectExists) {
+        res.status(404).json({
+          error: "Not Found",
+          message: "Proyecto no encontrado",
+        });
+        return;
+      }
+
+      const listQuery = parseListQuery(req.query, {
+        columns: SCHEMA_VERSION_QUERY_COLUMNS,
+        defaultSort: "-version",
+      });
+
+      const page = await schemaVersionRepository.findPageByProjectId(
+        projectId,
+        listQuery
+      );
+      setPaginationHeaders(res, page);
+      res.json(page.items);
+    } catch (error) {
+      console.error("Error obtaining schema versions:", error);
+      if (error instanceof QueryLanguageError) {
+        res.status(400).json({
+          error: "Bad Request",
+          message: error.message,
+        });
+        return;
+      }
+      res.status(500).json({
+        error: "Internal Server Error",
+        message: "Error interno del servidor",
+      });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/projects/{projectId}/versions:
+ *   post:
+ *     summary: Guardar el esquema actual del proyecto como versión
+ *     operationId: createSchemaVersion
+ *     description: Guarda el modelo actual con el mensaje y la etiqueta indicados. Si no cambió desde la última versión no se crea otra y se etiqueta la última
+ *     tags: [Schema Versions]
+ *     parameters:
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: ID del proyecto
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               message:
+ *                 type: string
+ *                 description: Descripción de la versión
+ *                 example: Modelo revisado para la entrega
+ *               tag:
+ *                 type: string
+ *                 description: Etiqueta de la versión
+ *                 example: v1.2
+ *     responses:
+ *       200:
+ *         description: Sin cambios desde la última versión (etiquetada si se indicó tag)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/SchemaVersion'
+ *       201:
+ *         description: Versión creada
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/SchemaVersion'
+ *       400:
+ *         description: Etiqueta inválida
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Proyecto no encontrado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: La etiqueta ya está asignada a otra versión
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post(
+  "/projects/:projectId/versions",
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { projectId } = req.params;
+      const { message, tag } = req.body ?? {};
+
+      if (message !== undefined && typeof message !== "string") {
+        res.status(400).json({
+          error: "Bad Request",
+          message: "El mensaje debe ser un texto",
+        });
+        return;
+      }
+
+      if (
+        tag !== undefined &&
+        (typeof tag !== "string" || !isValidVersionTag(tag))
+      ) {
+        res.status(400).json({
+          error: "Bad Request",
+          message: INVALID_TAG_MESSAGE,
+        });
+        return;
+      }
+
+      const projectExists = await projectRepository.exists(projectId);
+      if (!projectExists) {
+        res.status(404).json({
+          error: "Not Found",
+          message: "Proyecto no encontrado",
+        });
+        return;
+      }
+
+      if (tag) {
+        const tagged = await schemaVersionRepository.findByTag(projectId, tag);
+        if (tagged) {
+          res.status(409).json({
+            error: "Conflict",
+            message: `La etiqueta ${tag} ya está asignada a la versión ${tagged.version}`,
+          });
+          return;
+        }
+      }
+
+      const created = await captureSchemaVersion(projectId, message);
+      let version =
+        created ?? (await schemaVersionRepository.findLatest(projectId));
+      if (!version) {
+        throw new Error("El proyecto no tiene versiones");
+      }
+      if (tag) {
+        version =
+          (await schemaVersionRepository.setTag(version.id, tag)) ?? version;
+      }
+
+      res.status(created ? 201 : 200).json(version);
+    } catch (error) {
+      console.error("Error creating schema version:", error);
+      res.status(500).json({
+        error: "Internal Server Error",
+        message: "Error interno del servidor",
+      });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/projects/{projectId}/versions/{version}:
+ *   get:
+ *     summary: Obtener una versión del esquema de un proyecto
+ *     operationId: getSchemaVersion
+ *     description: Devuelve el modelo completo (entidades con sus campos y relaciones) guardado en la versión. La versión se indica por su número, su etiqueta (ej. v1.2) o latest
+ *     tags: [Schema Versions]
+ *     parameters:
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: ID del proyecto
+ *       - in: path
+ *         name: version
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Número de versión, etiqueta o latest
+ *         example: v1.2
+ *     responses:
+ *       200:
+ *         description: Versión del esquema
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/SchemaVersion'
+ *       404:
+ *         description: Proyecto o versión no encontrada
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get(
+  "/projects/:projectId/versions/:version",
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { projectId } = req.params;
+
+      const projectExists = await projectRepository.exists(projectId);
+      if (!projectExists) {
+        res.status(404).json({
+          error: "Not Found",
+          message: "Proyecto no encontrado",
+        });
+        return;
+      }
+
+      const version = await findSchemaVersion(projectId, req.params.version);
+      if (!version) {
+        res.status(404).json({
+          error: "Not Found",
+          message: "Versión no encontrada",
+        });
+        return;
+      }
+
+      res.json(version);
+    } catch (error) {
+      console.error("Error obtaining schema version:", error);
+      res.status(500).json({
+        error: "Internal Server Error",
+        message: "Error interno del servidor",
+      });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/projects/{projectId}/versions/{version}/tag:
+ *   put:
+ *     summary: Etiquetar una versión del esquema
+ *     operationId: tagSchemaVersion
+ *     description: Asigna a la versión una etiqueta (ej. v1.2) con la que se puede consultar. Una etiqueta identifica una sola versión del proyecto; la etiqueta anterior de la versión se reemplaza
+ *     tags: [Schema Versions]
+ *     parameters:
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: ID del proyecto
+ *       - in: path
+ *         name: version
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Número de versión, etiqueta o latest
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - tag
+ *             properties:
+ *               tag:
+ *                 type: string
+ *                 example: v1.2
+ *     responses:
+ *       200:
+ *         description: Versión etiquetada
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/SchemaVersion'
+ *       400:
+ *         description: Etiqueta inválida
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Proyecto o versión no encontrada
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: La etiqueta ya está asignada a otra versión
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.put(
+  "/projects/:projectId/versions/:version/tag",
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { projectId } = req.params;
+      const tag = req.body?.tag;
+
+      if (typeof tag !== "string" || !isValidVersionTag(tag)) {
+        res.status(400).json({
+          error: "Bad Request",
+          message: INVALID_TAG_MESSAGE,
+        });
+        return;
+      }
+
+      const projectExists = await projectRepository.exists(projectId);
+      if (!projectExists) {
+        res.status(404).json({
+          error: "Not Found",
+          message: "Proyecto no encontrado",
+        });
+        return;
+      }
+
+      const version = await findSchemaVersion(projectId, req.params.version);
+      if (!version) {
+        res.status(404).json({
+          error: "Not Found",
+          message: "Versión no encontrada",
+        });
+        return;
+      }
+
+      const tagged = await schemaVersionRepository.findByTag(projectId, tag);
+      if (tagged && tagged.id !== version.id) {
+        res.status(409).json({
+          error: "Conflict",
+          message: `La etiqueta ${tag} ya está asignada a la versión ${tagged.version}`,
+        });
+        return;
+      }
+
+      const updated = await schemaVersionRepository.setTag(version.id, tag);
+      res.json(updated);
+    } catch (error) {
+      console.error("Error tagging schema version:", error);
+      res.status(500).json({
+        error: "Internal Server Error",
+        message: "Error interno del servidor",
+      });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/projects/{projectId}/versions/{version}/tag:
+ *   delete:
+ *     summary: Quitar la etiqueta de una versión del esquema
+ *     operationId: untagSchemaVersion
+ *     tags: [Schema Versions]
+ *     parameters:
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: ID del proyecto
+ *       - in: path
+ *         name: version
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Número de versión, etiqueta o latest
+ *     responses:
+ *       200:
+ *         description: Versión sin etiqueta
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/SchemaVersion'
+ *       404:
+ *         description: Proyecto o versión no encontrada
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.delete(
+  "/projects/:projectId/versions/:version/tag",
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { projectId } = req.params;
+
+      const projectExists = await projectRepository.exists(projectId);
+      if (!projectExists) {
+        res.status(404).json({
+          error: "Not Found",
+          message: "Proyecto no encontrado",
+        });
+        return;
+      }
+
+      const version = await findSchemaVersion(projectId, req.params.version);
+      if (!version) {
+        res.status(404).json({
+          error: "Not Found",
+          message: "Versión no encontrada",
+        });
+        return;
+      }
+
+      const updated = await schemaVersionRepository.setTag(version.id, null);
+      res.json(updated);
+    } catch (error) {
+      console.error("Error untagging schema version:", error);
+      res.status(500).json({
+        error: "Internal Server Error",
+        message: "Error interno del servidor",
+      });
+    }
+  }
+);
+
+export default router;
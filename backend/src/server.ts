@@ -2,7 +2,7 @@ import cors from "cors";
 import express, { Application } from "express";
 import { createServer, Server as HttpServer } from "http";
 import morgan from "morgan";
-import { closeDatabase, createTables, initDatabase } from "./config/database";
+import { closeDatabase, initDatabase } from "./config/database";
 import logger, { stream } from "./config/logger";
 import { initializeSocket } from "./config/socket";
 import { specs, swaggerUi } from "./config/swagger";
@@ -13,7 +13,10 @@ import {
 } from "./middleware/logging";
 import apiRouter from "./router";
 import analyticsRouter from "./router/analytics";
-import { checkMigrationsNeeded, runMigrations } from "./utils/migration";
+import { runMigrations } from "./utils/migration";
+import { PAGINATION_HEADERS } from "./utils/queryLanguage";
+import { syncAllDataTables } from "./utils/schemaSync";
+import { captureInitialSchemaVersions } from "./utils/schemaVersions";
 
 class Server {
   public app: Application;
@@ -39,6 +42,7 @@ class Server {
             : ["http://localhost:5173", "http://localhost:3000"],
         methods: ["GET", "POST", "PUT", "DELETE", "OPTIONS", "PATCH"],
         allowedHeaders: ["Content-Type", "Authorization", "X-Requested-With"],
+        exposedHeaders: PAGINATION_HEADERS,
         credentials: true,
       })
     );
@@ -99,6 +103,7 @@ class Server {
           entities: `http://localhost:${this.port}/api/entities`,
           fields: `http://localhost:${this.port}/api/fields`,
           relationships: `http://localhost:${this.port}/api/relationships`,
+          records: `http://localhost:${this.port}/api/projects/{projectId}/data/{entityName}`,
           analytics: `http://localhost:${this.port}/api/analytics`,
           logs: `http://localhost:${this.port}/api/analytics/logs`,
         },
@@ -124,14 +129,11 @@ class Server {
       logger.info("🔄 Inicializando base de datos SQLite...");
       await initDatabase();
 
-      // Crear tablas
-      logger.info("🔄 Creando tablas...");
-      await createTables();
-
-      // Ejecutar migraciones si son necesarias
-      if (checkMigrationsNeeded()) {
-        logger.info("🔄 Ejecutando migraciones de base de datos...");
-        await runMigrations();
+      // Crear o actualizar las tablas aplicando las migraciones pendientes
+      logger.info("🔄 Ejecutando migraciones de base de datos...");
+      const migrations = await runMigrations();
+      if (migrations.length > 0) {
+        logger.info(`✅ ${migrations.length} migraciones aplicadas`);
       } else {
         logger.info(
           "✅ Base de datos actualizada, no se requieren migraciones"
@@ -140,6 +142,24 @@ class Server {
 
       logger.info("✅ Base de datos inicializada correctamente");
 
+      // Sincronizar las tablas físicas de las entidades
+      logger.info("🔄 Sincronizando tablas de datos...");
+      const { synced, pending } = syncAllDataTables();
+      logger.info(`✅ ${synced} tablas de datos sincronizadas`);
+      for (const plan of pending) {
+        logger.warn(
+          `⚠️ Tabla ${plan.table} pendiente de sincronizar: ${plan.issues
+            .map((issue) => issue.message)
+            .join("; ")}`
+        );
+      }
+
+      // Versión inicial del esquema de los proyectos sin versiones
+      const baselines = await captureInitialSchemaVersions();
+      if (baselines > 0) {
+        logger.info(`✅ ${baselines} proyectos con versión inicial del esquema`);
+      }
+
       this.httpServer.listen(this.port, () => {
         logger.info(`🚀 Server is running on port ${this.port}`);
         logger.info(
@@ -0,0 +1,853 @@
+type JsonSchema = Record<string, unknown>;
+
+/**
+ * Partes de la especificación OpenAPI 3.0 que usa el generador
+ */
+interface ApiSpec {
+  info?: { title?: string; version?: string };
+  servers?: Array<{ url: string }>;
+  paths?: Record<string, Record<string, unknown>>;
+  components?: {
+    schemas?: Record<string, JsonSchema>;
+    parameters?: Record<string, ApiParameter>;
+    headers?: Record<string, { description?: string; schema?: JsonSchema }>;
+  };
+}
+
+interface ApiParameter {
+  $ref?: string;
+  in: string;
+  name: string;
+  required?: boolean;
+  description?: string;
+  schema?: JsonSchema;
+}
+
+interface ApiOperation {
+  operationId?: string;
+  summary?: string;
+  tags?: string[];
+  parameters?: ApiParameter[];
+  requestBody?: {
+    required?: boolean;
+    content?: Record<string, { schema?: JsonSchema }>;
+  };
+  responses?: Record<
+    string,
+    {
+      headers?: Record<string, unknown>;
+      content?: Record<string, { schema?: JsonSchema }>;
+    }
+  >;
+}
+
+const HTTP_METHODS = ["get", "post", "put", "patch", "delete"];
+
+// Nombres del propio cliente y globales que no pueden usar los esquemas
+const RESERVED_NAMES = [
+  "ApiError",
+  "ApiResponse",
+  "ClientOptions",
+  "RequestOptions",
+  "ResponseHeaders",
+  "ApiClient",
+  "Operation",
+  "Array",
+  "Blob",
+  "Error",
+  "File",
+  "FormData",
+  "Headers",
+  "Partial",
+  "Promise",
+  "Record",
+  "Request",
+  "Response",
+];
+
+// Parámetros de los métodos generados que no pueden usar las rutas
+const RESERVED_ARGUMENTS = ["body", "query", "options", "request"];
+
+/**
+ * Convierte un texto en un identificador camelCase
+ */
+const toCamelCase = (value: string): string => {
+  const words = value.split(/[^A-Za-z0-9]+/).filter(Boolean);
+  const name = words
+    .map((word, index) =>
+      index === 0
+        ? word.charAt(0).toLowerCase() + word.slice(1)
+        : word.charAt(0).toUpperCase() + word.slice(1)
+    )
+    .join("");
+  return /^[0-9]/.test(name) ? `_${name}` : name || "operation";
+};
+
+const toPascalCase = (value: string): string => {
+  const name = toCamelCase(value);
+  return name.charAt(0).toUpperCase() + name.slice(1);
+};
+
+/**
+ * Nombre de propiedad, entre comillas si no es un identificador válido
+ */
+const toPropertyName = (name: string): string =>
+  /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(name) ? name : JSON.stringify(name);
+
+/**
+ * Comentario JSDoc con las líneas indicadas (ninguno si no hay líneas)
+ */
+const renderJsDoc = (lines: string[], indent: string): string[] => {
+  const escaped = lines
+    .flatMap((line) => line.split("\n"))
+    .map((line) => line.trim().replace(/\*\//g, "*\\/"));
+  if (escaped.length === 0) {
+    return [];
+  }
+  if (escaped.length === 1) {
+    return [`${indent}/** ${escaped[0]} */`];
+  }
+  return [
+    `${indent}/**`,
+    ...escaped.map((line) => `${indent} * ${line}`.trimEnd()),
+    `${indent} */`,
+  ];
+};
+
+/**
+ * Añade paréntesis a uniones e intersecciones al usarlas dentro de otro tipo
+ */
+const wrapType = (type: string): string =>
+  /[|&]/.test(type) && !type.startsWith("{") ? `(${type})` : type;
+
+/**
+ * Traduce esquemas OpenAPI a tipos TypeScript, con los esquemas de
+ * components como interfaces con nombre
+ */
+class TypeRenderer {
+  private readonly names = new Map<string, string>();
+
+  constructor(schemas: Record<string, JsonSchema>) {
+    const used = new Set(RESERVED_NAMES);
+    for (const key of Object.keys(schemas)) {
+      let name = toPascalCase(key);
+      if (used.has(name)) {
+        name = `${name}Schema`;
+      }
+      for (let i = 2; used.has(name); i++) {
+        name = `${toPascalCase(key)}${i}`;
+      }
+      used.add(name);
+      this.names.set(key, name);
+    }
+  }
+
+  /** Nombre del tipo generado para un esquema de components */
+  getName(key: string): string | undefined {
+    return this.names.get(key);
+  }
+
+  /** Indica si un esquema se puede escribir en línea sin darle nombre */
+  isSimple(schema: JsonSchema | undefined): boolean {
+    if (!schema || schema.$ref) {
+      return true;
+    }
+    if (schema.type === "array") {
+      return this.isSimple(schema.items as JsonSchema | undefined);
+    }
+    if (schema.properties || schema.allOf) {
+      return false;
+    }
+    // Un objeto sin propiedades se escribe como Record<string, T>
+    return (
+      schema.type !== "object" ||
+      this.isSimple(
+        typeof schema.additionalProperties === "object"
+          ? (schema.additionalProperties as JsonSchema)
+          : undefined
+      )
+    );
+  }
+
+  render(schema: JsonSchema | undefined, indent = ""): string {
+    if (!schema) {
+      return "unknown";
+    }
+    const type = this.renderBase(schema, indent);
+    return schema.nullable ? `${wrapType(type)} | null` : type;
+  }
+
+  private renderBase(schema: JsonSchema, indent: string): string {
+    if (typeof schema.$ref === "string") {
+      const key = schema.$ref.replace("#/components/schemas/", "");
+      return this.names.get(key) || "unknown";
+    }
+    if (Array.isArray(schema.allOf)) {
+      return (schema.allOf as JsonSchema[])
+        .map((item) => wrapType(this.render(item, indent)))
+        .join(" & ");
+    }
+    const variants = schema.oneOf || schema.anyOf;
+    if (Array.isArray(variants)) {
+      return (variants as JsonSchema[])
+        .map((item) => this.render(item, indent))
+        .join(" | ");
+    }
+    if (Array.isArray(schema.enum)) {
+      return schema.enum.map((value) => JSON.stringify(value)).join(" | ");
+    }
+
+    switch (schema.type) {
+      case "string":
+        return schema.format === "binary" ? "Blob" : "string";
+      case "integer":
+      case "number":
+        return "number";
+      case "boolean":
+        return "boolean";
+      case "array":
+        return `${wrapType(
+          this.render(schema.items as JsonSchema | undefined, indent)
+        )}[]`;
+      case "object":
+      case undefined:
+        if (schema.properties || schema.type === "object") {
+          return this.renderObject(schema, indent);
+        }
+        return "unknown";
+      default:
+        return "unknown";
+    }
+  }
+
+  private renderObject(schema: JsonSchema, indent: string): string {
+    const properties = (schema.properties || {}) as Record<string, JsonSchema>;
+    const required = (schema.required || []) as string[];
+    const extra = schema.additionalProperties;
+    const extraType =
+      extra && typeof extra === "object"
+        ? this.render(extra as JsonSchema, indent)
+        : "unknown";
+
+    if (Object.keys(properties).length === 0) {
+      return `Record<string, ${extraType}>`;
+    }
+
+    const inner = `${indent}  `;
+    const lines = ["{"];
+    for (const [name, property] of Object.entries(properties)) {
+      const key = `${inner}${toPropertyName(name)}${
+        required.includes(name) ? "" : "?"
+      }:`;
+      const type = this.render(property, inner);
+      const members = type.split(" | ");
+      lines.push(
+        ...renderJsDoc(
+          typeof property.description === "string"
+            ? [property.description]
+            : [],
+          inner
+        ),
+        // Las uniones largas, una opción por línea
+        `${key} ${type};`.length > 80 &&
+          members.length > 1 &&
+          !type.includes("\n")
+          ? [key, ...members.map((member) => `${inner}  | ${member}`)]
+              .join("\n")
+              .concat(";")
+          : `${key} ${type};`
+      );
+    }
+    if (extra) {
+      lines.push(`${inner}[key: string]: ${extraType};`);
+    }
+    lines.push(`${indent}}`);
+    return lines.join("\n");
+  }
+
+  /** Declaración exportada (interfaz o alias) de un tipo con nombre */
+  renderDeclaration(
+    name: string,
+    schema: JsonSchema,
+    description?: string
+  ): string[] {
+    const type = this.render(schema);
+    return [
+      ...renderJsDoc(description ? [description] : [], ""),
+      type.startsWith("{") && type.endsWith("}")
+        ? `export interface ${name} ${type}`
+        : `export type ${name} = ${type};`,
+      "",
+    ];
+  }
+}
+
+/**
+ * Cómo se envía el cuerpo y cómo se lee la respuesta de una operación
+ */
+interface GeneratedOperation {
+  name: string;
+  method: string;
+  path: string;
+  tag: string;
+  summary?: string;
+  pathParams: Array<{ name: string; argument: string; type: string }>;
+  queryType?: string;
+  queryRequired: boolean;
+  bodyType?: string;
+  bodyRequired: boolean;
+  /** Content-Type del cuerpo (ninguno para multipart/form-data) */
+  contentType?: string;
+  responseType: "json" | "text" | "blob";
+  dataType: string;
+  withHeaders: boolean;
+}
+
+/**
+ * Tipo de lectura de una respuesta según su media type
+ */
+const getResponseType = (mediaType: string): "json" | "text" | "blob" => {
+  if (/json/.test(mediaType)) {
+    return "json";
+  }
+  if (/^text\/|sql|xml|graphql/.test(mediaType)) {
+    return "text";
+  }
+  return "blob";
+};
+
+/**
+ * Código del cliente que no depende de la especificación: opciones, errores,
+ * serialización de la consulta y la función que hace las peticiones
+ */
+const RUNTIME = `/** Opciones del cliente */
+export interface ClientOptions {
+  /** URL del servidor (por defecto la de la especificación) */
+  baseUrl?: string;
+  /** Cabeceras que se envían en todas las peticiones */
+  headers?: Record<string, string>;
+  /** Implementación de fetch (por defecto la global) */
+  fetch?: typeof fetch;
+}
+
+/** Opciones de una petición concreta */
+export interface RequestOptions {
+  headers?: Record<string, string>;
+  signal?: AbortSignal;
+}
+
+/** Datos de una respuesta junto con sus cabeceras documentadas */
+export interface ApiResponse<T> {
+  data: T;
+  headers: ResponseHeaders;
+}
+
+/** Respuesta de la API con un estado distinto de 2xx */
+export class ApiError extends Error {
+  readonly status: number;
+  /** Cuerpo de la respuesta (JSON si se pudo interpretar, si no texto) */
+  readonly body: unknown;
+
+  constructor(status: number, body: unknown) {
+    super(
+      body && typeof body === "object" && "message" in body
+        ? String(body.message)
+        : \`HTTP error! status: \${status}\`
+    );
+    this.name = "ApiError";
+    this.status = status;
+    this.body = body;
+  }
+}
+
+interface Operation {
+  method: string;
+  path: string;
+  query?: object;
+  body?: unknown;
+  contentType?: string;
+  responseType: "json" | "text" | "blob";
+  withHeaders?: boolean;
+  options?: RequestOptions;
+}
+
+/**
+ * Añade un parámetro de consulta: los objetos se envían con corchetes
+ * (filter[name][contains]=x) y las listas repitiendo la clave
+ */
+const appendQuery = (
+  params: URLSearchParams,
+  key: string,
+  value: unknown
+): void => {
+  if (value === undefined || value === null) {
+    return;
+  }
+  if (Array.isArray(value)) {
+    for (const item of value) {
+      appendQuery(params, key, item);
+    }
+  } else if (typeof value === "object") {
+    for (const [name, item] of Object.entries(value)) {
+      appendQuery(params, \`\${key}[\${name}]\`, item);
+    }
+  } else {
+    params.append(key, String(value));
+  }
+};
+
+const buildQuery = (query?: object): string => {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(query ?? {})) {
+    appendQuery(params, key, value);
+  }
+  const text = params.toString();
+  return text ? \`?\${text}\` : "";
+};
+
+const readHeaders = (headers: Headers): ResponseHeaders => {
+  const result: Record<string, string | number> = {};
+  for (const [name, type] of Object.entries(RESPONSE_HEADERS)) {
+    const value = headers.get(name);
+    if (value !== null) {
+      result[name] = type === "number" ? Number(value) : value;
+    }
+  }
+  return result as ResponseHeaders;
+};
+
+const readBody = async (
+  response: Response,
+  responseType: Operation["responseType"]
+): Promise<unknown> => {
+  if (responseType === "blob") {
+    return response.blob();
+  }
+  const text = await response.text();
+  if (responseType === "text" || !text) {
+    return text || undefined;
+  }
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+};
+`;
+
+/**
+ * Método del cliente para una operación: parámetros de ruta, cuerpo,
+ * consulta y opciones, en ese orden
+ */
+const renderOperation = (operation: GeneratedOperation): string[] => {
+  const args: Array<{ name: string; type: string; required: boolean }> = [
+    ...operation.pathParams.map((param) => ({
+      name: param.argument,
+      type: param.type,
+      required: true,
+    })),
+  ];
+  if (operation.bodyType) {
+    args.push({
+      name: "body",
+      type: operation.bodyType,
+      required: operation.bodyRequired,
+    });
+  }
+  if (operation.queryType) {
+    args.push({
+      name: "query",
+      type: operation.queryType,
+      required: operation.queryRequired,
+    });
+  }
+  args.push({ name: "options", type: "RequestOptions", required: false });
+
+  // Un argumento opcional seguido de uno obligatorio admite undefined
+  const lastRequired = args.map((arg) => arg.required).lastIndexOf(true);
+  const signature = args.map((arg, index) =>
+    arg.required
+      ? `${arg.name}: ${arg.type}`
+      : index < lastRequired
+        ? `${arg.name}: ${arg.type} | undefined`
+        : `${arg.name}?: ${arg.type}`
+  );
+
+  const template = operation.path.replace(
+    /\{([^}]+)\}/g,
+    (_, name: string) => {
+      const param = operation.pathParams.find((item) => item.name === name);
+      return `\${encodeURIComponent(${param?.argument || name})}`;
+    }
+  );
+  const path =
+    operation.pathParams.length > 0
+      ? `\`${template}\``
+      : JSON.stringify(operation.path);
+  const returnType = operation.withHeaders
+    ? `ApiResponse<${operation.dataType}>`
+    : operation.dataType;
+
+  return [
+    ...renderJsDoc(
+      [
+        ...(operation.summary ? [operation.summary, ""] : []),
+        `\`${operation.method} ${operation.path}\``,
+      ],
+      "    "
+    ),
+    `    ${operation.name}: (`,
+    ...signature.map(
+      (arg, index) =>
+        `      ${arg}${index < signature.length - 1 ? "," : ""}`
+    ),
+    `    ): Promise<${returnType}> =>`,
+    `      request<${returnType}>({`,
+    `        method: ${JSON.stringify(operation.method)},`,
+    `        path: ${path},`,
+    ...(operation.queryType ? ["        query,"] : []),
+    ...(operation.bodyType ? ["        body,"] : []),
+    ...(operation.contentType
+      ? [`        contentType: ${JSON.stringify(operation.contentType)},`]
+      : []),
+    `        responseType: ${JSON.stringify(operation.responseType)},`,
+    ...(operation.withHeaders ? ["        withHeaders: true,"] : []),
+    "        options,",
+    "      }),",
+    "",
+  ];
+};
+
+/**
+ * Genera un cliente TypeScript sin dependencias, basado en fetch, con un
+ * método tipado por cada operación documentada en la especificación OpenAPI
+ * del backend (config/swagger.ts) y una interfaz por cada esquema
+ */
+export const generateApiClient = (spec: object): string => {
+  const api = spec as ApiSpec;
+  const schemas = api.components?.schemas || {};
+  const types = new TypeRenderer(schemas);
+  const declarations: string[] = [];
+  const operations: GeneratedOperation[] = [];
+  const usedNames = new Set<string>();
+
+  // Cabeceras de respuesta documentadas, por nombre
+  const headerTypes = new Map<
+    string,
+    { description?: string; type: "number" | "string" }
+  >();
+  const addHeader = (name: string, header: unknown): void => {
+    let definition = (header || {}) as {
+      $ref?: string;
+      description?: string;
+      schema?: JsonSchema;
+    };
+    if (definition.$ref) {
+      definition =
+        api.components?.headers?.[
+          definition.$ref.replace("#/components/headers/", "")
+        ] || {};
+    }
+    const schemaType = definition.schema?.type;
+    headerTypes.set(name, {
+      description: definition.description,
+      type:
+        schemaType === "integer" || schemaType === "number"
+          ? "number"
+          : "string",
+    });
+  };
+  for (const [name, header] of Object.entries(api.components?.headers || {})) {
+    addHeader(name, header);
+  }
+
+  const resolveParameter = (parameter: ApiParameter): ApiParameter =>
+    parameter.$ref
+      ? api.components?.parameters?.[
+          parameter.$ref.replace("#/components/parameters/", "")
+        ] || parameter
+      : parameter;
+
+  for (const [path, item] of Object.entries(api.paths || {})) {
+    const shared = ((item.parameters || []) as ApiParameter[]).map(
+      resolveParameter
+    );
+
+    for (const method of HTTP_METHODS) {
+      const operation = item[method] as ApiOperation | undefined;
+      if (!operation) {
+        continue;
+      }
+
+      const base = toCamelCase(
+        operation.operationId || `${method} ${path.replace(/[{}]/g, "")}`
+      );
+      let name = base;
+      for (let i = 2; usedNames.has(name); i++) {
+        name = `${base}${i}`;
+      }
+      usedNames.add(name);
+      const typeName = toPascalCase(name);
+
+      const parameters = [
+        ...shared,
+        ...(operation.parameters || []).map(resolveParameter),
+      ];
+
+      // Parámetros de ruta, en el orden en que aparecen en la ruta
+      const pathParams = (path.match(/\{[^}]+\}/g) || []).map((match) => {
+        const paramName = match.slice(1, -1);
+        const parameter = parameters.find(
+          (p) => p.in === "path" && p.name === paramName
+        );
+        let argument = toCamelCase(paramName);
+        if (RESERVED_ARGUMENTS.includes(argument)) {
+          argument = `${argument}Param`;
+        }
+        return {
+          name: paramName,
+          argument,
+          type: parameter?.schema ? types.render(parameter.schema) : "string",
+        };
+      });
+
+      // Parámetros de consulta como una interfaz con nombre
+      const queryParams = parameters.filter((p) => p.in === "query");
+      let queryType: string | undefined;
+      if (queryParams.length > 0) {
+        queryType = `${typeName}Query`;
+        declarations.push(
+          ...types.renderDeclaration(
+            queryType,
+            {
+              type: "object",
+              properties: Object.fromEntries(
+                queryParams.map((p) => [
+                  p.name,
+                  { ...p.schema, description: p.description },
+                ])
+              ),
+              required: queryParams
+                .filter((p) => p.required)
+                .map((p) => p.name),
+            },
+            `Parámetros de consulta de ${name}`
+          )
+        );
+      }
+
+      // Cuerpo: JSON si se admite, si no multipart o texto
+      let bodyType: string | undefined;
+      let contentType: string | undefined;
+      const content = operation.requestBody?.content || {};
+      const mediaTypes = Object.keys(content);
+      const bodyMedia =
+        mediaTypes.find((type) => /json/.test(type)) ||
+        mediaTypes.find((type) => type === "multipart/form-data") ||
+        mediaTypes[0];
+      if (bodyMedia === "multipart/form-data") {
+        bodyType = "FormData";
+      } else if (bodyMedia) {
+        contentType = bodyMedia;
+        const schema = content[bodyMedia].schema;
+        if (!/json/.test(bodyMedia)) {
+          bodyType = "string";
+        } else if (types.isSimple(schema)) {
+          bodyType = types.render(schema);
+        } else {
+          bodyType = `${typeName}Body`;
+          declarations.push(
+            ...types.renderDeclaration(
+              bodyType,
+              schema || {},
+              `Cuerpo de ${name}`
+            )
+          );
+        }
+      }
+
+      // Respuestas 2xx: tipo de los datos y si devuelven cabeceras
+      const successes = Object.entries(operation.responses || {}).filter(
+        ([code]) => /^2/.test(code)
+      );
+      let responseType: GeneratedOperation["responseType"] = "json";
+      const dataTypes: string[] = [];
+      let withHeaders = false;
+      for (const [code, response] of successes) {
+        for (const header of Object.keys(response.headers || {})) {
+          if (!headerTypes.has(header)) {
+            addHeader(header, response.headers?.[header]);
+          }
+          withHeaders = true;
+        }
+        const [media] = Object.keys(response.content || {});
+        if (!media) {
+          dataTypes.push(code === "204" ? "void" : "unknown");
+          continue;
+        }
+        responseType = getResponseType(media);
+        const schema = response.content?.[media].schema;
+        if (responseType === "blob") {
+          dataTypes.push("Blob");
+        } else if (responseType === "text") {
+          dataTypes.push("string");
+        } else if (types.isSimple(schema)) {
+          dataTypes.push(types.render(schema));
+        } else {
+          const responseName =
+            successes.length > 1
+              ? `${typeName}Response${code}`
+              : `${typeName}Response`;
+          declarations.push(
+            ...types.renderDeclaration(
+              responseName,
+              schema || {},
+              `Respuesta ${code} de ${name}`
+            )
+          );
+          dataTypes.push(responseName);
+        }
+      }
+      const uniqueTypes = [...new Set(dataTypes)];
+
+      operations.push({
+        name,
+        method: method.toUpperCase(),
+        path,
+        tag: operation.tags?.[0] || "Default",
+        summary: operation.summary,
+        pathParams,
+        queryType,
+        queryRequired: queryParams.some((p) => p.required),
+        bodyType,
+        bodyRequired: !!operation.requestBody?.required,
+        contentType,
+        responseType,
+        dataType: uniqueTypes.length > 0 ? uniqueTypes.join(" | ") : "void",
+        withHeaders,
+      });
+    }
+  }
+
+  const lines = [
+    `// Cliente de ${api.info?.title || "la API"} ${
+      api.info?.version || ""
+    }`.trimEnd(),
+    "// Generado desde la especificación OpenAPI del backend: no editar, se",
+    "// regenera con `npm run sdk:generate` (backend) o desde GET /api/codegen/sdk",
+    "",
+    `const DEFAULT_BASE_URL = ${JSON.stringify(
+      api.servers?.[0]?.url || ""
+    )};`,
+    "",
+    "// Esquemas",
+    "",
+  ];
+  for (const [key, schema] of Object.entries(schemas)) {
+    lines.push(
+      ...types.renderDeclaration(
+        types.getName(key) as string,
+        schema,
+        typeof schema.description === "string" ? schema.description : undefined
+      )
+    );
+  }
+
+  lines.push("// Parámetros, cuerpos y respuestas de las operaciones", "");
+  lines.push(...declarations);
+
+  lines.push(
+    ...renderJsDoc(["Cabeceras de respuesta documentadas"], ""),
+    "export interface ResponseHeaders {"
+  );
+  for (const [name, header] of headerTypes) {
+    lines.push(
+      ...renderJsDoc(header.description ? [header.description] : [], "  "),
+      `  ${toPropertyName(name)}?: ${header.type};`
+    );
+  }
+  lines.push("}", "", "const RESPONSE_HEADERS = {");
+  for (const [name, header] of headerTypes) {
+    lines.push(`  ${toPropertyName(name)}: ${JSON.stringify(header.type)},`);
+  }
+  lines.push("};", "", RUNTIME);
+
+  lines.push(
+    ...renderJsDoc(
+      [
+        "Crea un cliente con un método por operación de la API. Los errores",
+        "HTTP se lanzan como ApiError",
+      ],
+      ""
+    ),
+    "export const createApiClient = (options: ClientOptions = {}) => {",
+    '  const baseUrl = (options.baseUrl ?? DEFAULT_BASE_URL).replace(/\\/+$/, "");',
+    "  const fetchImpl =",
+    "    options.fetch ??",
+    "    ((input: RequestInfo | URL, init?: RequestInit) => fetch(input, init));",
+    "",
+    "  const request = async <T>(operation: Operation): Promise<T> => {",
+    "    const isForm = operation.body instanceof FormData;",
+    "    const isJson = /json/.test(operation.contentType ?? \"\");",
+    "    const response = await fetchImpl(",
+    "      `${baseUrl}${operation.path}${buildQuery(operation.query)}`,",
+    "      {",
+    "        method: operation.method,",
+    "        headers: {",
+    "          ...(operation.contentType && operation.body !== undefined",
+    '            ? { "Content-Type": operation.contentType }',
+    "            : {}),",
+    "          ...options.headers,",
+    "          ...operation.options?.headers,",
+    "        },",
+    "        body:",
+    "          operation.body === undefined",
+    "            ? undefined",
+    "            : isForm || !isJson",
+    "              ? (operation.body as BodyInit)",
+    "              : JSON.stringify(operation.body),",
+    "        signal: operation.options?.signal,",
+    "      }",
+    "    );",
+    "",
+    "    if (!response.ok) {",
+    '      throw new ApiError(response.status, await readBody(response, "json"));',
+    "    }",
+    "",
+    "    const data =",
+    "      response.status === 204",
+    "        ? undefined",
+    "        : await readBody(response, operation.responseType);",
+    "    return (",
+    "      operation.withHeaders",
+    "        ? { data, headers: readHeaders(response.headers) }",
+    "        : data",
+    "    ) as T;",
+    "  };",
+    "",
+    "  return {"
+  );
+
+  let currentTag: string | undefined;
+  for (const operation of [...operations].sort(
+    (a, b) =>
+      operations.findIndex((item) => item.tag === a.tag) -
+      operations.findIndex((item) => item.tag === b.tag)
+  )) {
+    if (operation.tag !== currentTag) {
+      lines.push(`    // ${operation.tag}`, "");
+      currentTag = operation.tag;
+    }
+    lines.push(...renderOperation(operation));
+  }
+  lines.pop();
+  lines.push(
+    "  };",
+    "};",
+    "",
+    "export type ApiClient = ReturnType<typeof createApiClient>;",
+    ""
+  );
+
+  return lines.join("\n");
+};
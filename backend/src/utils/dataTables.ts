@@ -0,0 +1,137 @@
+import { SupportedValueType } from "node:sqlite";
+import { Entity } from "../repositories/entityRepository";
+import { Field } from "../repositories/fieldRepository";
+
+/**
+ * Columnas de sistema presentes en todas las tablas de datos.
+ * Los campos de usuario con estos nombres se sirven desde la columna de sistema.
+ */
+export const SYSTEM_COLUMNS = ["id", "created_at", "updated_at"];
+
+/**
+ * Escapa un identificador SQL (tabla o columna) usando comillas dobles
+ */
+export const quoteIdentifier = (name: string): string =>
+  `"${name.replace(/"/g, '""')}"`;
+
+/**
+ * Obtiene el nombre de la tabla física que almacena los registros de una entidad.
+ * Se usan los IDs (y no los nombres) para que renombrar una entidad no pierda datos.
+ */
+export const getDataTableName = (
+  entity: Pick<Entity, "id" | "project_id">
+): string =>
+  `data_${entity.project_id.replace(/-/g, "")}_${entity.id.replace(/-/g, "")}`;
+
+/**
+ * Obtiene el nombre de la tabla intermedia de una relación muchos a muchos.
+ * Comparte el prefijo de las tablas de datos del proyecto.
+ */
+export const getJunctionTableName = (
+  projectId: string,
+  relationshipId: string
+): string =>
+  `data_${projectId.replace(/-/g, "")}_rel_${relationshipId.replace(/-/g, "")}`;
+
+/**
+ * Obtiene el prefijo común de las tablas físicas de un proyecto
+ */
+export const getProjectTablePrefix = (projectId: string): string =>
+  `data_${projectId.replace(/-/g, "")}_`;
+
+/**
+ * Indica si un campo se almacena en una columna propia (no es columna de sistema)
+ */
+export const isDataColumn = (field: Pick<Field, "name">): boolean =>
+  !SYSTEM_COLUMNS.includes(field.name);
+
+/**
+ * Obtiene el tipo de columna SQLite para un tipo de campo
+ */
+export const getSqliteType = (type: string): string => {
+  switch (type) {
+    case "integer":
+    case "boolean":
+      return "INTEGER";
+    case "number":
+      return "REAL";
+    case "decimal":
+      return "NUMERIC";
+    default:
+      // string, text, date (ISO 8601) y archivos (ID o lista JSON de IDs)
+      return "TEXT";
+  }
+};
+
+/**
+ * Convierte un valor al tipo de almacenamiento de un campo.
+ * Devuelve undefined si el valor no se puede convertir.
+ */
+export const convertColumnValue = (
+  value: SupportedValueType,
+  type: string
+): SupportedValueType | undefined => {
+  if (value === null) {
+    return null;
+  }
+
+  const text = typeof value === "string" ? value.trim() : value;
+
+  switch (type) {
+    case "integer":
+      if (typeof text === "number" || typeof text === "bigint") {
+        return Number.isInteger(Number(text)) ? text : undefined;
+      }
+      return typeof text === "string" && /^-?\d+$/.test(text)
+        ? parseInt(text, 10)
+        : undefined;
+    case "number":
+    case "decimal":
+      if (typeof text === "number" || typeof text === "bigint") {
+        return text;
+      }
+      return typeof text === "string" &&
+        text !== "" &&
+        Number.isFinite(Number(text))
+        ? Number(text)
+        : undefined;
+    case "boolean":
+      if (text === 1 || text === "1" || text === "true") {
+        return 1;
+      }
+      if (text === 0 || text === "0" || text === "false") {
+        return 0;
+      }
+      return undefined;
+    default:
+      return value instanceof Uint8Array ? undefined : String(value);
+  }
+};
+
+/**
+ * Genera el literal SQL del valor por defecto de un campo (o null si no tiene)
+ */
+export const renderDefaultValue = (field: Field): string | null => {
+  if (field.default_value === undefined || field.default_value === null) {
+    return null;
+  }
+  if (field.default_value === "") {
+    return null;
+  }
+
+  const converted = convertColumnValue(field.default_value, field.type);
+  if (converted === undefined || converted === null) {
+    return null;
+  }
+  if (typeof converted === "number" || typeof converted === "bigint") {
+    return String(converted);
+  }
+  return `'${String(converted).replace(/'/g, "''")}'`;
+};
+
+/**
+ * Indica si un error de SQLite corresponde a una restricción violada
+ * (NOT NULL, UNIQUE, FOREIGN KEY o CHECK)
+ */
+export const isConstraintViolation = (error: unknown): boolean =>
+  error instanceof Error && /constraint failed/i.test(error.message);
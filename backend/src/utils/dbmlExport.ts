@@ -0,0 +1,313 @@
+import { EntityRelationshipRepository } from "../repositories/entityRelationshipRepository";
+import { Entity, EntityRepository } from "../repositories/entityRepository";
+import { Field, FieldRepository } from "../repositories/fieldRepository";
+import { Project } from "../repositories/projectRepository";
+import { convertColumnValue, isDataColumn } from "./dataTables";
+import { getEntityLinks, LinkCache, RelationLink } from "./relationLinks";
+
+const entityRepository = new EntityRepository();
+const relationshipRepository = new EntityRelationshipRepository();
+const fieldRepository = new FieldRepository();
+
+const FILE_TYPES = ["file", "image", "document"];
+
+/**
+ * Entidad del proyecto con sus campos y vínculos
+ */
+interface ExportedTable {
+  entity: Entity;
+  fields: Field[];
+  links: RelationLink[];
+}
+
+/**
+ * Nombre de tabla o columna de DBML, entre comillas dobles si no es un
+ * identificador (precio final -> "precio final")
+ */
+export const toDbmlName = (name: string): string =>
+  /^[A-Za-z_][A-Za-z0-9_]*$/.test(name)
+    ? name
+    : `"${name.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`;
+
+/**
+ * Literal de cadena de DBML: entre comillas simples o, si ocupa varias
+ * líneas, entre comillas triples
+ */
+const toDbmlString = (value: string): string =>
+  value.includes("\n")
+    ? `'''${value.replace(/\\/g, "\\\\").replace(/'''/g, "\\'''")}'''`
+    : `'${value.replace(/\\/g, "\\\\").replace(/'/g, "\\'")}'`;
+
+/**
+ * Tipo de DBML de un campo. Los archivos se guardan como un ID (uuid) o
+ * una lista JSON de IDs.
+ */
+const getDbmlType = (field: Field): string => {
+  if (FILE_TYPES.includes(field.type)) {
+    return field.accepts_multiple ? "json" : "uuid";
+  }
+
+  switch (field.type) {
+    case "string":
+      return field.max_length ? `varchar(${field.max_length})` : "varchar";
+    case "text":
+      return "text";
+    case "integer":
+      return "integer";
+    case "number":
+      return "float";
+    case "decimal":
+      return "decimal";
+    case "boolean":
+      return "boolean";
+    case "date":
+      return "timestamp";
+    default:
+      return "varchar";
+  }
+};
+
+/**
+ * Ajuste default de un campo (o null si no tiene valor por defecto)
+ */
+const renderDefault = (field: Field): string | null => {
+  if (
+    field.default_value === undefined ||
+    field.default_value === null ||
+    field.default_value === "" ||
+    (FILE_TYPES.includes(field.type) && field.accepts_multiple)
+  ) {
+    return null;
+  }
+
+  const value = convertColumnValue(field.default_value, field.type);
+  if (value === undefined || value === null) {
+    return null;
+  }
+  if (field.type === "boolean") {
+    return `default: ${value === 1 ? "true" : "false"}`;
+  }
+  if (typeof value === "number" || typeof value === "bigint") {
+    return `default: ${String(value)}`;
+  }
+  return `default: ${toDbmlString(String(value))}`;
+};
+
+/**
+ * Columna de una tabla con sus ajustes entre corchetes
+ */
+const renderColumn = (name: string, type: string, settings: string[]) =>
+  `  ${toDbmlName(name)} ${type}${
+    settings.length > 0 ? ` [${settings.join(", ")}]` : ""
+  }`;
+
+/**
+ * Referencia (Ref) de una relación, desde el extremo de origen. El nombre
+ * lleva delante la tabla de origen para que sea único en el documento
+ * (Post_author).
+ */
+const renderRef = (
+  table: ExportedTable,
+  link: RelationLink,
+  used: Set<string>
+): string => {
+  const { relationship } = link;
+  let operator: string;
+  let localColumn = link.localColumn;
+  let remoteColumn = link.remoteColumn;
+  if (link.owner === "junction") {
+    operator = "<>";
+    localColumn = "id";
+    remoteColumn = "id";
+  } else if (relationship.relationship_type === "one_to_one") {
+    operator = "-";
+  } else {
+    operator = link.owner === "local" ? ">" : "<";
+  }
+
+  const base = `${table.entity.name}_${link.name}`;
+  let name = base;
+  for (let i = 2; used.has(name.toLowerCase()); i++) {
+    name = `${base}${i}`;
+  }
+  used.add(name.toLowerCase());
+
+  const source = `${toDbmlName(table.entity.name)}.${toDbmlName(localColumn)}`;
+  const target = `${toDbmlName(link.entity.name)}.${toDbmlName(remoteColumn)}`;
+  return `Ref ${toDbmlName(name)}: ${source} ${operator} ${target}${
+    relationship.cascade_delete && link.owner !== "junction"
+      ? " [delete: cascade]"
+      : ""
+  }`;
+};
+
+/**
+ * Genera el modelo de un proyecto en DBML (dbdiagram.io): una tabla por
+ * entidad con sus campos (pk, unique, not null, default y note) y una
+ * referencia por relación, con el nombre del vínculo desde el origen. Las
+ * relaciones muchos a muchos se exportan como referencias <>.
+ */
+export const exportProjectDbml = async (project: Project): Promise<string> => {
+  const cache: LinkCache = new Map();
+  const warnings: string[] = [];
+  const tables: ExportedTable[] = [];
+
+  for (const entity of await entityRepository.findByProjectId(project.id)) {
+    tables.push({
+      entity,
+      fields: await fieldRepository.findByEntityId(entity.id),
+      links: await getEntityLinks(entity, cache),
+    });
+  }
+  const entityIds = new Set(tables.map((table) => table.entity.id));
+
+  const body: string[] = [];
+  for (const table of tables) {
+    const { entity } = table;
+    const dataFields = table.fields.filter(isDataColumn);
+    const primaryKey = dataFields.find((field) => field.is_primary_key);
+    // Claves foráneas al id de otra entidad: guardan un UUID
+    const idReferences = new Set(
+      table.links
+        .filter((link) => link.owner === "local" && link.remoteColumn === "id")
+        .map((link) => link.localColumn)
+    );
+
+    body.push(
+      `Table ${toDbmlName(entity.name)} {`,
+      renderColumn("id", "uuid", primaryKey ? ["unique", "not null"] : ["pk"])
+    );
+    for (const field of dataFields) {
+      if (field.is_primary_key && field !== primaryKey) {
+        warnings.push(
+          `${entity.name}.${field.name} se exporta como unique: la tabla solo admite una clave primaria simple`
+        );
+      }
+      if (FILE_TYPES.includes(field.type)) {
+        warnings.push(
+          `${entity.name}.${field.name} (${field.type}) se exporta como ${getDbmlType(
+            field
+          )} con los IDs de los archivos`
+        );
+      }
+      if (
+        field.is_foreign_key &&
+        !table.links.some(
+          (link) => link.owner === "local" && link.localColumn === field.name
+        )
+      ) {
+        warnings.push(
+          `${entity.name}.${field.name} es una clave foránea sin relación; se exporta como campo simple`
+        );
+      }
+
+      body.push(
+        renderColumn(
+          field.name,
+          idReferences.has(field.name) ? "uuid" : getDbmlType(field),
+          [
+            field === primaryKey ? "pk" : "",
+            field !== primaryKey && (field.is_unique || field.is_primary_key)
+              ? "unique"
+              : "",
+            field.is_required && field !== primaryKey ? "not null" : "",
+            renderDefault(field) ?? "",
+            field.description
+              ? `note: ${toDbmlString(field.description)}`
+              : "",
+          ].filter(Boolean)
+        )
+      );
+    }
+    body.push(
+      renderColumn("created_at", "timestamp", [
+        "not null",
+        "default: `CURRENT_TIMESTAMP`",
+      ]),
+      renderColumn("updated_at", "timestamp", [
+        "not null",
+        "default: `CURRENT_TIMESTAMP`",
+      ])
+    );
+    if (entity.description) {
+      body.push("", `  Note: ${toDbmlString(entity.description)}`);
+    }
+    body.push("}", "");
+  }
+
+  // Una referencia por relación, desde su extremo de origen
+  const refs: string[] = [];
+  const refNames = new Set<string>();
+  const exported = new Set<string>();
+  for (const table of tables) {
+    for (const link of table.links) {
+      const { relationship } = link;
+      if (
+        link.side !== "source" ||
+        exported.has(relationship.id) ||
+        !entityIds.has(link.entity.id)
+      ) {
+        continue;
+      }
+      exported.add(relationship.id);
+      if (link.owner === "local") {
+        const column = table.fields.find(
+          (field) => field.name === link.localColumn && isDataColumn(field)
+        );
+        if (!column) {
+          warnings.push(
+            `La relación ${link.name} de ${table.entity.name} no se exporta: ${link.localColumn} no es un campo de la entidad`
+          );
+          continue;
+        }
+      }
+      if (relationship.description) {
+        refs.push(
+          ...relationship.description
+            .split("\n")
+            .map((line) => `// ${line}`.trimEnd())
+        );
+      }
+      refs.push(renderRef(table, link, refNames));
+    }
+  }
+
+  // Relaciones sin columnas con las que navegarse
+  for (const table of tables) {
+    const { entity } = table;
+    for (const relationship of await relationshipRepository.findByEntityId(
+      entity.id
+    )) {
+      if (
+        relationship.source_entity_id === entity.id &&
+        !exported.has(relationship.id)
+      ) {
+        exported.add(relationship.id);
+        warnings.push(
+          `La relación ${
+            relationship.name || relationship.id
+          } de ${entity.name} no se exporta: no tiene campos de clave foránea`
+        );
+      }
+    }
+  }
+
+  const lines = [
+    `// Modelo del proyecto ${project.name} en DBML`,
+    "// Generado por OroyaAPI",
+    ...warnings.map((warning) => `// Aviso: ${warning}`),
+    "",
+    ...(project.description
+      ? [
+          `Project ${toDbmlName(project.name)} {`,
+          `  Note: ${toDbmlString(project.description)}`,
+          "}",
+          "",
+        ]
+      : []),
+    ...body,
+    ...refs,
+  ];
+
+  return `${lines.join("\n").trimEnd()}\n`;
+};
@@ -0,0 +1,902 @@
+import { fromForeignKeyName, toLinkName } from "./relationLinks";
+import {
+  ImportedColumn,
+  ImportedForeignKey,
+  ImportedSchema,
+  ImportedTable,
+} from "./schemaImport";
+import { mapSqlType } from "./sqlImport";
+
+/**
+ * Error de sintaxis en un documento DBML, con la línea donde se produjo
+ */
+export class DbmlParseError extends Error {
+  constructor(message: string, public line: number) {
+    super(`${message} (línea ${line})`);
+    this.name = "DbmlParseError";
+  }
+}
+
+interface Token {
+  /** quoted: nombre entre comillas dobles; expression: entre acentos graves */
+  kind:
+    | "word"
+    | "quoted"
+    | "string"
+    | "expression"
+    | "number"
+    | "symbol"
+    | "newline";
+  value: string;
+  line: number;
+}
+
+interface DbmlValue {
+  kind: "string" | "number" | "expression" | "name";
+  value: string;
+}
+
+type DbmlOperator = "<" | ">" | "-" | "<>";
+
+/**
+ * Extremo de una referencia: tabla (sin esquema) y columnas
+ */
+interface DbmlEndpoint {
+  table: string;
+  columns: string[];
+}
+
+/**
+ * Ajuste entre corchetes (pk, not null, default: 0, ref: > users.id...)
+ */
+interface DbmlSetting {
+  name: string;
+  value?: DbmlValue;
+  ref?: { operator: DbmlOperator; endpoint: DbmlEndpoint };
+}
+
+interface DbmlColumn {
+  name: string;
+  type: string;
+  size?: number;
+  list: boolean;
+  settings: DbmlSetting[];
+}
+
+interface DbmlIndex {
+  columns: string[];
+  /** Alguna columna es una expresión (`lower(email)`) */
+  expression: boolean;
+  settings: DbmlSetting[];
+}
+
+interface DbmlTable {
+  name: string;
+  schema?: string;
+  alias?: string;
+  note?: string;
+  columns: DbmlColumn[];
+  indexes: DbmlIndex[];
+}
+
+interface DbmlRef {
+  name?: string;
+  operator: DbmlOperator;
+  left: DbmlEndpoint;
+  right: DbmlEndpoint;
+  settings: DbmlSetting[];
+}
+
+/**
+ * Tablas, referencias y enums de un documento DBML
+ */
+interface DbmlDocument {
+  tables: DbmlTable[];
+  refs: DbmlRef[];
+  enums: Set<string>;
+  warnings: string[];
+}
+
+const WORD = /[\p{L}_][\p{L}\p{N}_]*/uy;
+const NUMBER = /[0-9]+(?:\.[0-9]+)?/y;
+const COLOR = /#[0-9A-Fa-f]+/y;
+
+const DELETE_ACTIONS: Record<string, ImportedForeignKey["on_delete"]> = {
+  cascade: "cascade",
+  "set null": "set_null",
+  restrict: "restrict",
+  "no action": "no_action",
+  "set default": "set_default",
+};
+
+const SYSTEM_COLUMNS = ["id", "created_at", "updated_at"];
+
+/**
+ * Secuencias de escape de los textos entre comillas (\' \" \\ \n \t)
+ */
+const unescapeText = (text: string): string =>
+  text.replace(/\\([\s\S])/g, (_, char: string) =>
+    char === "n" ? "\n" : char === "t" ? "\t" : char
+  );
+
+/**
+ * Texto entre comillas triples sin la sangría común de sus líneas
+ */
+const dedent = (text: string): string => {
+  const lines = text
+    .replace(/^[ \t]*\n/, "")
+    .replace(/\n[ \t]*$/, "")
+    .split("\n");
+  const indents = lines
+    .filter((line) => line.trim() !== "")
+    .map((line) => /^[ \t]*/.exec(line)![0].length);
+  const indent = indents.length > 0 ? Math.min(...indents) : 0;
+  return lines.map((line) => line.slice(indent)).join("\n");
+};
+
+/**
+ * Divide un documento DBML en tokens. Los saltos de línea separan las
+ * columnas; los comentarios // y /* *\/ se descartan.
+ */
+const tokenize = (text: string): Token[] => {
+  const tokens: Token[] = [];
+  let line = 1;
+  let i = 0;
+
+  // Cierre de un texto entre comillas, saltando las secuencias de escape
+  const findClosing = (start: number, quote: string): number => {
+    let j = start;
+    while (j < text.length && !text.startsWith(quote, j)) {
+      if (quote.length === 1 && text[j] === "\n") {
+        break;
+      }
+      j += text[j] === "\\" ? 2 : 1;
+    }
+    if (!text.startsWith(quote, j)) {
+      throw new DbmlParseError("Texto sin cerrar", line);
+    }
+    return j;
+  };
+
+  while (i < text.length) {
+    const char = text[i];
+
+    if (char === "\n") {
+      tokens.push({ kind: "newline", value: "\n", line });
+      line++;
+      i++;
+    } else if (/\s/.test(char)) {
+      i++;
+    } else if (text.startsWith("//", i)) {
+      const end = text.indexOf("\n", i);
+      i = end === -1 ? text.length : end;
+    } else if (text.startsWith("/*", i)) {
+      const end = text.indexOf("*/", i + 2);
+      if (end === -1) {
+        throw new DbmlParseError("Comentario sin cerrar", line);
+      }
+      const lines = text.slice(i, end).split("\n").length - 1;
+      if (lines > 0) {
+        tokens.push({ kind: "newline", value: "\n", line });
+      }
+      line += lines;
+      i = end + 2;
+    } else if (text.startsWith("'''", i)) {
+      const end = findClosing(i + 3, "'''");
+      const raw = text.slice(i + 3, end);
+      tokens.push({ kind: "string", value: dedent(unescapeText(raw)), line });
+      line += raw.split("\n").length - 1;
+      i = end + 3;
+    } else if (char === "'" || char === '"' || char === "`") {
+      const end = findClosing(i + 1, char);
+      const value = unescapeText(text.slice(i + 1, end));
+      tokens.push({
+        kind: char === "'" ? "string" : char === '"' ? "quoted" : "expression",
+        value,
+        line,
+      });
+      i = end + 1;
+    } else if (text.startsWith("<>", i)) {
+      tokens.push({ kind: "symbol", value: "<>", line });
+      i += 2;
+    } else if ("{}[](),:.<>-~".includes(char)) {
+      tokens.push({ kind: "symbol", value: char, line });
+      i++;
+    } else {
+      NUMBER.lastIndex = i;
+      WORD.lastIndex = i;
+      COLOR.lastIndex = i;
+      const number = /[0-9]/.test(char) ? NUMBER.exec(text) : null;
+      const word = number ? null : WORD.exec(text) || COLOR.exec(text);
+      const match = number || word;
+      if (!match) {
+        throw new DbmlParseError(`Carácter inesperado ${char}`, line);
+      }
+      tokens.push({ kind: number ? "number" : "word", value: match[0], line });
+      i += match[0].length;
+    }
+  }
+
+  return tokens;
+};
+
+/**
+ * Lee los bloques de un documento DBML (Table, Ref, Enum, Project...)
+ */
+class DbmlReader {
+  private position = 0;
+  private warnings: string[] = [];
+
+  constructor(private tokens: Token[]) {}
+
+  private get line(): number {
+    const token =
+      this.tokens[Math.min(this.position, this.tokens.length - 1)];
+    return token ? token.line : 0;
+  }
+
+  private peek(offset = 0): Token | undefined {
+    return this.tokens[this.position + offset];
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.position++];
+    if (!token) {
+      throw new DbmlParseError("Fin inesperado del documento", this.line);
+    }
+    return token;
+  }
+
+  private isSymbol(symbol: string, offset = 0): boolean {
+    const token = this.peek(offset);
+    return token?.kind === "symbol" && token.value === symbol;
+  }
+
+  private isKeyword(keyword: string, offset = 0): boolean {
+    const token = this.peek(offset);
+    return token?.kind === "word" && token.value.toLowerCase() === keyword;
+  }
+
+  private acceptSymbol(symbol: string): boolean {
+    if (this.isSymbol(symbol)) {
+      this.position++;
+      return true;
+    }
+    return false;
+  }
+
+  private expectSymbol(symbol: string): void {
+    if (!this.acceptSymbol(symbol)) {
+      throw new DbmlParseError(`Se esperaba ${symbol}`, this.line);
+    }
+  }
+
+  /** Identificador o nombre entre comillas dobles */
+  private isName(offset = 0): boolean {
+    const kind = this.peek(offset)?.kind;
+    return kind === "word" || kind === "quoted";
+  }
+
+  private expectName(description: string): string {
+    const token = this.next();
+    if (token.kind !== "word" && token.kind !== "quoted") {
+      throw new DbmlParseError(`Se esperaba ${description}`, token.line);
+    }
+    return token.value;
+  }
+
+  private expectString(description: string): string {
+    const token = this.next();
+    if (token.kind !== "string") {
+      throw new DbmlParseError(`Se esperaba ${description}`, token.line);
+    }
+    return token.value;
+  }
+
+  private skipNewlines(): void {
+    while (this.peek()?.kind === "newline") {
+      this.position++;
+    }
+  }
+
+  /** Cada columna, índice o referencia ocupa su propia línea */
+  private expectEndOfLine(): void {
+    if (this.peek() && this.peek()?.kind !== "newline" && !this.isSymbol("}")) {
+      throw new DbmlParseError("Se esperaba un salto de línea", this.line);
+    }
+  }
+
+  parse(): DbmlDocument {
+    const document: DbmlDocument = {
+      tables: [],
+      refs: [],
+      enums: new Set(),
+      warnings: this.warnings,
+    };
+
+    for (;;) {
+      this.skipNewlines();
+      if (!this.peek()) {
+        return document;
+      }
+      const token = this.next();
+      if (token.kind !== "word") {
+        throw new DbmlParseError(
+          "Se esperaba Table, Ref, Enum, TableGroup o Project",
+          token.line
+        );
+      }
+
+      switch (token.value.toLowerCase()) {
+        case "table":
+          document.tables.push(this.readTable());
+          break;
+        case "ref":
+          document.refs.push(...this.readRefs());
+          break;
+        case "enum": {
+          const path = this.readPath("el nombre del enum");
+          document.enums.add(path[path.length - 1].toLowerCase());
+          this.skipBlock();
+          break;
+        }
+        case "project":
+        case "tablegroup":
+        case "note":
+          this.skipBlock();
+          break;
+        case "tablepartial":
+        case "records":
+          this.warnings.push(`Los bloques ${token.value} no se importan`);
+          this.skipBlock();
+          break;
+        default:
+          throw new DbmlParseError(
+            `Bloque ${token.value} no reconocido`,
+            token.line
+          );
+      }
+    }
+  }
+
+  /** Salta la cabecera y el contenido de un bloque entre llaves */
+  private skipBlock(): void {
+    while (!this.acceptSymbol("{")) {
+      this.next();
+    }
+    let depth = 1;
+    while (depth > 0) {
+      const token = this.next();
+      if (token.kind === "symbol" && token.value === "{") {
+        depth++;
+      } else if (token.kind === "symbol" && token.value === "}") {
+        depth--;
+      }
+    }
+  }
+
+  /** Nombre con esquema opcional (core.users -> [core, users]) */
+  private readPath(description: string): string[] {
+    const path = [this.expectName(description)];
+    while (this.acceptSymbol(".")) {
+      path.push(this.expectName(description));
+    }
+    return path;
+  }
+
+  /** Extremo de una referencia: [esquema.]tabla.columna o tabla.(a, b) */
+  private readEndpoint(): DbmlEndpoint {
+    const path = [this.expectName("una tabla")];
+    let columns: string[] | null = null;
+    while (!columns && this.acceptSymbol(".")) {
+      if (this.acceptSymbol("(")) {
+        columns = [];
+        do {
+          columns.push(this.expectName("una columna"));
+        } while (this.acceptSymbol(","));
+        this.expectSymbol(")");
+      } else {
+        path.push(this.expectName("una columna"));
+      }
+    }
+    if (!columns) {
+      if (path.length < 2) {
+        throw new DbmlParseError("Se esperaba tabla.columna", this.line);
+      }
+      columns = [path.pop() as string];
+    }
+    return { table: path[path.length - 1], columns };
+  }
+
+  private readOperator(): DbmlOperator {
+    const token = this.next();
+    const operators = ["<", ">", "-", "<>"];
+    if (token.kind === "symbol" && operators.includes(token.value)) {
+      return token.value as DbmlOperator;
+    }
+    throw new DbmlParseError("Se esperaba <, >, - o <>", token.line);
+  }
+
+  private readValue(): DbmlValue {
+    const token = this.next();
+    if (
+      token.kind === "string" ||
+      token.kind === "number" ||
+      token.kind === "expression"
+    ) {
+      return { kind: token.kind, value: token.value };
+    }
+    if (token.kind === "symbol" && token.value === "-") {
+      const number = this.next();
+      if (number.kind !== "number") {
+        throw new DbmlParseError("Se esperaba un número", number.line);
+      }
+      return { kind: "number", value: `-${number.value}` };
+    }
+    if (token.kind === "word" || token.kind === "quoted") {
+      // Valores de varias palabras: set null, no action...
+      const words = [token.value];
+      while (this.peek()?.kind === "word") {
+        words.push(this.next().value);
+      }
+      return { kind: "name", value: words.join(" ") };
+    }
+    throw new DbmlParseError("Valor no válido", token.line);
+  }
+
+  private readSettings(): DbmlSetting[] {
+    this.expectSymbol("[");
+    const settings: DbmlSetting[] = [];
+    for (;;) {
+      this.skipNewlines();
+      if (this.acceptSymbol("]")) {
+        return settings;
+      }
+      const words: string[] = [];
+      while (this.peek()?.kind === "word") {
+        words.push(this.next().value.toLowerCase());
+      }
+      if (words.length === 0) {
+        throw new DbmlParseError("Se esperaba un ajuste", this.line);
+      }
+      const setting: DbmlSetting = { name: words.join(" ") };
+      if (this.acceptSymbol(":")) {
+        if (setting.name === "ref") {
+          const operator = this.readOperator();
+          setting.ref = { operator, endpoint: this.readEndpoint() };
+        } else {
+          setting.value = this.readValue();
+        }
+      }
+      settings.push(setting);
+      this.skipNewlines();
+      if (!this.acceptSymbol(",")) {
+        this.expectSymbol("]");
+        return settings;
+      }
+    }
+  }
+
+  /** Note: '...' o Note { '...' } */
+  private readNote(): string {
+    this.next();
+    if (this.acceptSymbol(":")) {
+      return this.expectString("el texto de la nota");
+    }
+    this.expectSymbol("{");
+    this.skipNewlines();
+    const note = this.expectString("el texto de la nota");
+    this.skipNewlines();
+    this.expectSymbol("}");
+    return note;
+  }
+
+  private readTable(): DbmlTable {
+    const path = this.readPath("el nombre de la tabla");
+    const table: DbmlTable = {
+      name: path[path.length - 1],
+      schema: path.length > 1 ? path[path.length - 2] : undefined,
+      columns: [],
+      indexes: [],
+    };
+    if (this.isKeyword("as")) {
+      this.next();
+      table.alias = this.expectName("el alias de la tabla");
+    }
+    if (this.isSymbol("[")) {
+      const note = this.readSettings().find((item) => item.name === "note");
+      table.note = note?.value?.value;
+    }
+    this.expectSymbol("{");
+
+    for (;;) {
+      this.skipNewlines();
+      if (this.acceptSymbol("}")) {
+        return table;
+      }
+      if (
+        this.isKeyword("note") &&
+        (this.isSymbol(":", 1) || this.isSymbol("{", 1))
+      ) {
+        table.note = this.readNote();
+      } else if (this.isKeyword("indexes") && this.isSymbol("{", 1)) {
+        this.next();
+        this.readIndexes(table);
+        continue;
+      } else if (this.isSymbol("~")) {
+        this.next();
+        this.warnings.push(
+          `La tabla parcial ~${this.expectName(
+            "el nombre de la tabla parcial"
+          )} de ${table.name} no se importa`
+        );
+      } else {
+        table.columns.push(this.readColumn());
+      }
+      this.expectEndOfLine();
+    }
+  }
+
+  private readColumn(): DbmlColumn {
+    const name = this.expectName("el nombre de una columna");
+    const path = this.readPath(`el tipo de la columna ${name}`);
+    const column: DbmlColumn = {
+      name,
+      type: path[path.length - 1],
+      list: false,
+      settings: [],
+    };
+    // varchar(255), decimal(10, 2)
+    if (this.acceptSymbol("(")) {
+      while (!this.acceptSymbol(")")) {
+        const token = this.next();
+        if (token.kind === "number" && column.size === undefined) {
+          column.size = parseInt(token.value, 10);
+        }
+      }
+    }
+    if (this.isSymbol("[") && this.isSymbol("]", 1)) {
+      this.position += 2;
+      column.list = true;
+    }
+    if (this.isSymbol("[")) {
+      column.settings = this.readSettings();
+    }
+    return column;
+  }
+
+  private readIndexes(table: DbmlTable): void {
+    this.expectSymbol("{");
+    for (;;) {
+      this.skipNewlines();
+      if (this.acceptSymbol("}")) {
+        return;
+      }
+      const index: DbmlIndex = { columns: [], expression: false, settings: [] };
+      const readColumn = () => {
+        const token = this.next();
+        if (token.kind === "expression") {
+          index.expression = true;
+        } else if (token.kind !== "word" && token.kind !== "quoted") {
+          throw new DbmlParseError("Se esperaba una columna", token.line);
+        }
+        index.columns.push(token.value);
+      };
+      if (this.acceptSymbol("(")) {
+        do {
+          readColumn();
+        } while (this.acceptSymbol(","));
+        this.expectSymbol(")");
+      } else {
+        readColumn();
+      }
+      if (this.isSymbol("[")) {
+        index.settings = this.readSettings();
+      }
+      this.expectEndOfLine();
+      table.indexes.push(index);
+    }
+  }
+
+  /** Ref nombre: a.b > c.d [ajustes] o Ref nombre { ... } */
+  private readRefs(): DbmlRef[] {
+    const name =
+      this.isName() && (this.isSymbol(":", 1) || this.isSymbol("{", 1))
+        ? this.next().value
+        : undefined;
+    const readRef = (): DbmlRef => {
+      const left = this.readEndpoint();
+      const operator = this.readOperator();
+      const right = this.readEndpoint();
+      return {
+        name,
+        operator,
+        left,
+        right,
+        settings: this.isSymbol("[") ? this.readSettings() : [],
+      };
+    };
+
+    if (this.acceptSymbol(":")) {
+      const ref = readRef();
+      this.expectEndOfLine();
+      return [ref];
+    }
+    this.expectSymbol("{");
+    const refs: DbmlRef[] = [];
+    for (;;) {
+      this.skipNewlines();
+      if (this.acceptSymbol("}")) {
+        return refs;
+      }
+      refs.push(readRef());
+      this.expectEndOfLine();
+    }
+  }
+}
+
+const findSetting = (
+  settings: DbmlSetting[],
+  ...names: string[]
+): DbmlSetting | undefined =>
+  settings.find((setting) => names.includes(setting.name));
+
+/**
+ * Nombre de la relación de una referencia: el de la Ref sin la tabla de
+ * origen delante (Post_author -> author), como los exporta OroyaAPI
+ */
+const getRefName = (name: string, source: string): string => {
+  const prefix = `${source}_`.toLowerCase();
+  return name.toLowerCase().startsWith(prefix) && name.length > prefix.length
+    ? name.slice(prefix.length)
+    : name;
+};
+
+/**
+ * Convierte las tablas y referencias de un documento DBML en tablas
+ * importables. Cada referencia es una clave foránea de la tabla que guarda
+ * la columna (con el nombre y la cardinalidad de la relación) y las
+ * referencias <>, tablas intermedias.
+ */
+const buildSchema = (document: DbmlDocument): ImportedSchema => {
+  const warnings = document.warnings;
+  const byName = new Map<string, DbmlTable>();
+  for (const table of document.tables) {
+    byName.set(table.name.toLowerCase(), table);
+    if (table.alias) {
+      byName.set(table.alias.toLowerCase(), table);
+    }
+  }
+  const warnedEnums = new Set<string>();
+  const schemas = new Set<string>();
+  let ignoredIndexes = 0;
+
+  const refs = [...document.refs];
+  const tables = new Map<DbmlTable, ImportedTable>();
+  for (const table of document.tables) {
+    const imported: ImportedTable = {
+      name: table.name,
+      description: table.note,
+      columns: [],
+      primary_key: [],
+      foreign_keys: [],
+    };
+    tables.set(table, imported);
+    if (table.schema && table.schema.toLowerCase() !== "public") {
+      schemas.add(table.schema);
+    }
+
+    for (const column of table.columns) {
+      const location = `${table.name}.${column.name}`;
+      const { settings } = column;
+
+      let mapped = mapSqlType(column.type, column.size);
+      if (column.list) {
+        mapped = { type: "text" };
+        warnings.push(
+          `${location} es una lista (${column.type}[]); se importa como text`
+        );
+      } else if (document.enums.has(column.type.toLowerCase())) {
+        mapped = { type: "string" };
+        if (!warnedEnums.has(column.type.toLowerCase())) {
+          warnedEnums.add(column.type.toLowerCase());
+          warnings.push(`El enum ${column.type} se importa como string`);
+        }
+      } else if (!mapped) {
+        mapped = { type: "string" };
+        warnings.push(
+          `Tipo ${column.type} de ${location} sin equivalente; se importa como string`
+        );
+      }
+
+      const importedColumn: ImportedColumn = {
+        name: column.name,
+        ...mapped,
+        is_required: !!findSetting(settings, "not null"),
+        is_unique: !!findSetting(settings, "unique"),
+        description: findSetting(settings, "note")?.value?.value,
+      };
+      if (findSetting(settings, "pk", "primary key")) {
+        imported.primary_key.push(column.name);
+      }
+
+      const defaultValue = findSetting(settings, "default")?.value;
+      if (
+        defaultValue?.kind === "string" ||
+        defaultValue?.kind === "number" ||
+        (defaultValue?.kind === "name" &&
+          ["true", "false"].includes(defaultValue.value.toLowerCase()))
+      ) {
+        importedColumn.default_value = defaultValue.value;
+      } else if (
+        defaultValue &&
+        defaultValue.value.toLowerCase() !== "null" &&
+        !SYSTEM_COLUMNS.includes(column.name.toLowerCase())
+      ) {
+        warnings.push(
+          `El valor por defecto de ${location} (${defaultValue.value}) no se importa`
+        );
+      }
+
+      for (const setting of settings) {
+        if (setting.ref) {
+          refs.push({
+            operator: setting.ref.operator,
+            left: { table: table.name, columns: [column.name] },
+            right: setting.ref.endpoint,
+            settings: [],
+          });
+        }
+      }
+
+      imported.columns.push(importedColumn);
+    }
+
+    for (const index of table.indexes) {
+      const isPrimaryKey = !!findSetting(index.settings, "pk");
+      const isUnique = !!findSetting(index.settings, "unique");
+      if (index.expression || (!isPrimaryKey && !isUnique)) {
+        ignoredIndexes++;
+      } else if (isPrimaryKey) {
+        imported.primary_key = index.columns;
+      } else if (index.columns.length === 1) {
+        const column = imported.columns.find(
+          (item) => item.name === index.columns[0]
+        );
+        if (column) {
+          column.is_unique = true;
+        }
+      } else {
+        warnings.push(
+          `La restricción única compuesta de ${table.name} (${index.columns.join(
+            ", "
+          )}) no se importa`
+        );
+      }
+    }
+  }
+
+  // Columnas que identifican los registros de una tabla (el id o su clave
+  // primaria), para saber qué extremo de una referencia uno a uno la guarda
+  const isKey = (table: DbmlTable, column: string): boolean =>
+    column.toLowerCase() === "id" ||
+    !!tables.get(table)?.primary_key.includes(column);
+  const getHolderScore = (table: DbmlTable, column: string): number =>
+    isKey(table, column) ? 0 : fromForeignKeyName(column) ? 2 : 1;
+
+  // Referencias muchos a muchos: una tabla intermedia por referencia
+  const junctions: ImportedTable[] = [];
+  const seen = new Set<string>();
+  for (const ref of refs) {
+    const label = `${ref.left.table}.${ref.left.columns.join(", ")} ${
+      ref.operator
+    } ${ref.right.table}.${ref.right.columns.join(", ")}`;
+    const left = byName.get(ref.left.table.toLowerCase());
+    const right = byName.get(ref.right.table.toLowerCase());
+    if (!left || !right) {
+      warnings.push(
+        `La referencia ${label} apunta a la tabla ${
+          left ? ref.right.table : ref.left.table
+        }, que no existe; no se importa`
+      );
+      continue;
+    }
+    if (seen.has(`${left.name}.${label}`)) {
+      continue;
+    }
+    seen.add(`${left.name}.${label}`);
+
+    // La tabla de la izquierda es el origen de la relación
+    const name = ref.name ? getRefName(ref.name, left.name) : undefined;
+    const onDelete = findSetting(ref.settings, "delete")?.value;
+
+    if (ref.operator === "<>") {
+      if (ref.left.columns.length > 1 || ref.right.columns.length > 1) {
+        warnings.push(
+          `La referencia muchos a muchos compuesta ${label} no se importa`
+        );
+        continue;
+      }
+      const getReferenced = (endpoint: DbmlEndpoint): string[] =>
+        endpoint.columns[0].toLowerCase() === "id" ? [] : endpoint.columns;
+      junctions.push({
+        name: `${left.name}_${name ?? toLinkName(right.name)}`,
+        columns: ["source_id", "target_id"].map((column) => ({
+          name: column,
+          type: "string",
+          is_required: true,
+          is_unique: false,
+        })),
+        primary_key: [],
+        foreign_keys: [
+          {
+            columns: ["source_id"],
+            table: left.name,
+            referenced_columns: getReferenced(ref.left),
+          },
+          {
+            columns: ["target_id"],
+            table: right.name,
+            referenced_columns: getReferenced(ref.right),
+          },
+        ],
+      });
+      continue;
+    }
+
+    // < define la relación desde la tabla referenciada (uno a muchos); en
+    // las uno a uno guarda la clave el extremo que no es clave primaria
+    const inverse =
+      ref.operator === "<" ||
+      (ref.operator === "-" &&
+        getHolderScore(right, ref.right.columns[0]) >
+          getHolderScore(left, ref.left.columns[0]));
+    const [holder, holderEnd, referenced, referencedEnd] = inverse
+      ? [right, ref.right, left, ref.left]
+      : [left, ref.left, right, ref.right];
+    const defaultName = inverse
+      ? toLinkName(holder.name)
+      : fromForeignKeyName(holderEnd.columns[0]) ||
+        toLinkName(referenced.name);
+
+    tables.get(holder)?.foreign_keys.push({
+      columns: holderEnd.columns,
+      table: referenced.name,
+      referenced_columns: referencedEnd.columns,
+      on_delete:
+        onDelete?.kind === "name"
+          ? DELETE_ACTIONS[onDelete.value.toLowerCase()]
+          : undefined,
+      relationship: {
+        name: name !== defaultName ? name : undefined,
+        one_to_one: ref.operator === "-",
+        inverse,
+      },
+    });
+  }
+
+  for (const schema of schemas) {
+    warnings.push(
+      `El esquema ${schema} no se conserva: sus tablas se importan por nombre`
+    );
+  }
+  if (ignoredIndexes > 0) {
+    warnings.push(
+      ignoredIndexes === 1
+        ? "Se ignoró 1 índice"
+        : `Se ignoraron ${ignoredIndexes} índices`
+    );
+  }
+
+  return { tables: [...tables.values(), ...junctions], warnings };
+};
+
+/**
+ * Lee las tablas de un documento DBML (dbdiagram.io): una tabla por Table
+ * con sus columnas (tipo, pk, unique, not null, default y note) y las
+ * referencias (Ref y ref: en línea) como claves foráneas o, las <>, como
+ * tablas intermedias. Los enums, los índices y los ajustes sin equivalente
+ * se informan como avisos.
+ */
+export const parseDbmlSchema = (text: string): ImportedSchema =>
+  buildSchema(new DbmlReader(tokenize(text)).parse());
@@ -0,0 +1,511 @@
+import { DiagramEdge, DiagramNode } from "../repositories/diagramRepository";
+import { NODE_HEIGHT, NODE_SPACING, NODE_WIDTH } from "./diagramLayout";
+
+/**
+ * Disposición automática del diagrama:
+ * - layered: por capas de arriba abajo (Sugiyama), con las entidades
+ *   referenciadas encima de las que las referencian
+ * - force: dirigida por fuerzas, las entidades relacionadas se atraen
+ * - orthogonal: por capas de izquierda a derecha, alineada a una rejilla y con
+ *   aristas en ángulo recto entre las filas de los campos
+ */
+export type DiagramAutoLayout = "layered" | "force" | "orthogonal";
+
+export const DIAGRAM_AUTO_LAYOUTS: DiagramAutoLayout[] = [
+  "layered",
+  "force",
+  "orthogonal",
+];
+
+/** Separación entre capas, mayor que entre nodos para ver las aristas */
+const LAYER_SPACING = NODE_SPACING * 3;
+/** Pasadas de reordenación por baricentro para reducir cruces */
+const ORDERING_SWEEPS = 24;
+/** Pasadas de alineación de cada nodo con sus vecinos */
+const ALIGNMENT_SWEEPS = 8;
+const FORCE_ITERATIONS = 300;
+const OVERLAP_PASSES = 50;
+const GRID_SIZE = 25;
+
+type Point = { x: number; y: number };
+
+interface Size {
+  width: number;
+  height: number;
+}
+
+const getSize = (node: DiagramNode): Size => ({
+  width: node.width ?? NODE_WIDTH,
+  height: node.height ?? NODE_HEIGHT,
+});
+
+/**
+ * Aristas sin repetir ni bucles, de la entidad referenciada (target) a la que
+ * la referencia (source), como índices de nodos
+ */
+const getLinks = (
+  nodes: DiagramNode[],
+  edges: DiagramEdge[]
+): Array<[number, number]> => {
+  const index = new Map(nodes.map((node, i) => [node.id, i]));
+  const seen = new Set<string>();
+  const links: Array<[number, number]> = [];
+
+  for (const edge of edges) {
+    const from = index.get(edge.target);
+    const to = index.get(edge.source);
+    if (from === undefined || to === undefined || from === to) {
+      continue;
+    }
+    const key = `${from}:${to}`;
+    if (seen.has(key) || seen.has(`${to}:${from}`)) {
+      continue;
+    }
+    seen.add(key);
+    links.push([from, to]);
+  }
+
+  return links;
+};
+
+/**
+ * Invierte las aristas que cierran ciclos (las de retroceso de un recorrido en
+ * profundidad) para que el grafo sea acíclico
+ */
+const removeCycles = (
+  count: number,
+  links: Array<[number, number]>
+): Array<[number, number]> => {
+  const outgoing: number[][] = Array.from({ length: count }, () => []);
+  for (const [from, to] of links) {
+    outgoing[from].push(to);
+  }
+
+  const state = new Array<number>(count).fill(0); // 0 nuevo, 1 en pila, 2 visto
+  const reversed = new Set<string>();
+  for (let start = 0; start < count; start++) {
+    if (state[start] !== 0) {
+      continue;
+    }
+    const stack: Array<[number, number]> = [[start, 0]];
+    state[start] = 1;
+    while (stack.length > 0) {
+      const frame = stack[stack.length - 1];
+      const [node, next] = frame;
+      if (next >= outgoing[node].length) {
+        state[node] = 2;
+        stack.pop();
+        continue;
+      }
+      frame[1]++;
+      const target = outgoing[node][next];
+      if (state[target] === 1) {
+        reversed.add(`${node}:${target}`);
+      } else if (state[target] === 0) {
+        state[target] = 1;
+        stack.push([target, 0]);
+      }
+    }
+  }
+
+  return links.map(([from, to]) =>
+    reversed.has(`${from}:${to}`) ? [to, from] : [from, to]
+  );
+};
+
+/**
+ * Capa de cada nodo por el camino más largo desde las raíces
+ */
+const assignLayers = (
+  count: number,
+  links: Array<[number, number]>
+): number[] => {
+  const layers = new Array<number>(count).fill(0);
+  const incoming = new Array<number>(count).fill(0);
+  const outgoing: number[][] = Array.from({ length: count }, () => []);
+  for (const [from, to] of links) {
+    outgoing[from].push(to);
+    incoming[to]++;
+  }
+
+  const queue = layers.map((_, i) => i).filter((i) => incoming[i] === 0);
+  while (queue.length > 0) {
+    const node = queue.shift()!;
+    for (const target of outgoing[node]) {
+      layers[target] = Math.max(layers[target], layers[node] + 1);
+      if (--incoming[target] === 0) {
+        queue.push(target);
+      }
+    }
+  }
+
+  return layers;
+};
+
+const countCrossings = (
+  upper: number[],
+  lower: number[],
+  down: number[][]
+): number => {
+  const position = new Map(lower.map((node, i) => [node, i]));
+  const segments: Array<[number, number]> = [];
+  upper.forEach((node, i) => {
+    for (const target of down[node]) {
+      segments.push([i, position.get(target)!]);
+    }
+  });
+
+  let crossings = 0;
+  for (let a = 0; a < segments.length; a++) {
+    for (let b = a + 1; b < segments.length; b++) {
+      const [a1, a2] = segments[a];
+      const [b1, b2] = segments[b];
+      if ((a1 - b1) * (a2 - b2) < 0) {
+        crossings++;
+      }
+    }
+  }
+  return crossings;
+};
+
+/**
+ * Orden dentro de cada capa que reduce los cruces: barrido por baricentro
+ * alternando hacia abajo y hacia arriba, quedándose con el mejor orden
+ */
+const orderLayers = (
+  order: number[][],
+  up: number[][],
+  down: number[][]
+): number[][] => {
+  const totalCrossings = (layers: number[][]): number =>
+    layers
+      .slice(1)
+      .reduce(
+        (sum, layer, i) => sum + countCrossings(layers[i], layer, down),
+        0
+      );
+
+  let best = order.map((layer) => [...layer]);
+  let bestCrossings = totalCrossings(best);
+  const current = best.map((layer) => [...layer]);
+
+  for (let sweep = 0; sweep < ORDERING_SWEEPS && bestCrossings > 0; sweep++) {
+    const downward = sweep % 2 === 0;
+    const range = downward
+      ? current.map((_, i) => i).slice(1)
+      : current.map((_, i) => i).slice(0, -1).reverse();
+
+    for (const l of range) {
+      const fixed = current[downward ? l - 1 : l + 1];
+      const neighbors = downward ? up : down;
+      const position = new Map(fixed.map((node, i) => [node, i]));
+      const previous = new Map(current[l].map((node, i) => [node, i]));
+      const barycenter = (node: number): number => {
+        const adjacent = neighbors[node].filter((n) => position.has(n));
+        if (adjacent.length === 0) {
+          return previous.get(node)!;
+        }
+        return (
+          adjacent.reduce((sum, n) => sum + position.get(n)!, 0) /
+          adjacent.length
+        );
+      };
+      current[l] = [...current[l]].sort(
+        (a, b) =>
+          barycenter(a) - barycenter(b) || previous.get(a)! - previous.get(b)!
+      );
+    }
+
+    const crossings = totalCrossings(current);
+    if (crossings < bestCrossings) {
+      best = current.map((layer) => [...layer]);
+      bestCrossings = crossings;
+    }
+  }
+
+  return best;
+};
+
+/**
+ * Coordenada de cada nodo a lo largo de su capa: se acerca al centro de sus
+ * vecinos de las capas contiguas sin cambiar el orden ni solaparse
+ */
+const alignLayers = (
+  order: number[][],
+  breadth: number[],
+  up: number[][],
+  down: number[][]
+): number[] => {
+  const center = new Array<number>(breadth.length).fill(0);
+  for (const layer of order) {
+    let offset = 0;
+    for (const node of layer) {
+      center[node] = offset + breadth[node] / 2;
+      offset += breadth[node] + NODE_SPACING;
+    }
+  }
+
+  // Media de colocar la capa de izquierda a derecha y de derecha a izquierda
+  // respetando la separación mínima, para repartir el desplazamiento
+  const place = (layer: number[], desired: number[]): void => {
+    const gap = (i: number): number =>
+      (breadth[layer[i]] + breadth[layer[i + 1]]) / 2 + NODE_SPACING;
+    const fromLeft = [...desired];
+    for (let i = 1; i < layer.length; i++) {
+      fromLeft[i] = Math.max(desired[i], fromLeft[i - 1] + gap(i - 1));
+    }
+    const fromRight = [...desired];
+    for (let i = layer.length - 2; i >= 0; i--) {
+      fromRight[i] = Math.min(desired[i], fromRight[i + 1] - gap(i));
+    }
+    layer.forEach((node, i) => {
+      center[node] = (fromLeft[i] + fromRight[i]) / 2;
+    });
+  };
+
+  for (let sweep = 0; sweep < ALIGNMENT_SWEEPS; sweep++) {
+    const downward = sweep % 2 === 0;
+    const layers = downward ? order.slice(1) : order.slice(0, -1).reverse();
+    for (const layer of layers) {
+      const neighbors = downward ? up : down;
+      const desired = layer.map((node) =>
+        neighbors[node].length > 0
+          ? neighbors[node].reduce((sum, n) => sum + center[n], 0) /
+            neighbors[node].length
+          : center[node]
+      );
+      place(layer, desired);
+    }
+  }
+
+  return center;
+};
+
+/**
+ * Disposición por capas (Sugiyama): quita ciclos, asigna capas por el camino
+ * más largo, añade nodos ficticios en las aristas que saltan capas, ordena
+ * las capas para reducir cruces y alinea cada nodo con sus vecinos. Las
+ * entidades sin relaciones van en cuadrícula tras la última capa.
+ */
+const layeredLayout = (
+  nodes: DiagramNode[],
+  edges: DiagramEdge[],
+  horizontal: boolean
+): Point[] => {
+  const sizes = nodes.map(getSize);
+  const links = removeCycles(nodes.length, getLinks(nodes, edges));
+  const connected = new Set(links.flat());
+  const layers = assignLayers(nodes.length, links);
+
+  // Nodos reales y ficticios: los ficticios ocupan el hueco de una arista
+  const layerOf = [...layers];
+  const breadth = sizes.map((size) =>
+    horizontal ? size.height : size.width
+  );
+  const up: number[][] = nodes.map(() => []);
+  const down: number[][] = nodes.map(() => []);
+  for (const [from, to] of links) {
+    let previous = from;
+    for (let layer = layers[from] + 1; layer < layers[to]; layer++) {
+      const dummy = layerOf.length;
+      layerOf.push(layer);
+      breadth.push(NODE_SPACING);
+      up.push([previous]);
+      down.push([]);
+      down[previous].push(dummy);
+      previous = dummy;
+    }
+    down[previous].push(to);
+    up[to].push(previous);
+  }
+
+  const depth = Math.max(0, ...layerOf) + 1;
+  const order: number[][] = Array.from({ length: depth }, () => []);
+  layerOf.forEach((layer, node) => {
+    if (node >= nodes.length || connected.has(node)) {
+      order[layer].push(node);
+    }
+  });
+
+  const center = alignLayers(orderLayers(order, up, down), breadth, up, down);
+
+  // Profundidad de cada capa según el nodo más grande que contiene
+  const layerDepth = new Array<number>(depth).fill(0);
+  nodes.forEach((_, i) => {
+    if (connected.has(i)) {
+      const size = horizontal ? sizes[i].width : sizes[i].height;
+      layerDepth[layers[i]] = Math.max(layerDepth[layers[i]], size);
+    }
+  });
+  const layerStart: number[] = [];
+  let offset = 0;
+  for (const size of layerDepth) {
+    layerStart.push(offset);
+    offset += size > 0 ? size + LAYER_SPACING : 0;
+  }
+
+  const minCenter =
+    connected.size > 0
+      ? Math.min(...[...connected].map((i) => center[i] - breadth[i] / 2))
+      : 0;
+  const positions: Point[] = nodes.map((_, i) => {
+    const across = center[i] - breadth[i] / 2 - minCenter;
+    const along = layerStart[layers[i]];
+    return horizontal ? { x: along, y: across } : { x: across, y: along };
+  });
+
+  // Entidades sin relaciones, en cuadrícula tras las capas
+  const isolated = nodes.map((_, i) => i).filter((i) => !connected.has(i));
+  const cols = Math.ceil(Math.sqrt(isolated.length));
+  isolated.forEach((node, i) => {
+    const across = (i % cols) * (NODE_WIDTH + NODE_SPACING);
+    const along = offset + Math.floor(i / cols) * (NODE_HEIGHT + NODE_SPACING);
+    positions[node] = horizontal
+      ? { x: along, y: across }
+      : { x: across, y: along };
+  });
+
+  return positions;
+};
+
+/**
+ * Disposición dirigida por fuerzas (Fruchterman-Reingold): todos los nodos se
+ * repelen y los relacionados se atraen; parte de un círculo para que el
+ * resultado sea siempre el mismo y termina separando los nodos que se solapan
+ */
+const forceLayout = (nodes: DiagramNode[], edges: DiagramEdge[]): Point[] => {
+  const sizes = nodes.map(getSize);
+  const links = getLinks(nodes, edges);
+  const ideal = NODE_WIDTH + NODE_SPACING * 2;
+  const radius = (ideal * nodes.length) / (2 * Math.PI);
+  const positions = nodes.map((_, i) => ({
+    x: radius * Math.cos((2 * Math.PI * i) / nodes.length),
+    y: radius * Math.sin((2 * Math.PI * i) / nodes.length),
+  }));
+
+  for (let iteration = 0; iteration < FORCE_ITERATIONS; iteration++) {
+    const temperature = ideal * (1 - iteration / FORCE_ITERATIONS);
+    const shift = positions.map(() => ({ x: 0, y: 0 }));
+
+    for (let a = 0; a < positions.length; a++) {
+      for (let b = a + 1; b < positions.length; b++) {
+        const dx = positions[a].x - positions[b].x || 0.01;
+        const dy = positions[a].y - positions[b].y;
+        const distance = Math.hypot(dx, dy);
+        const force = (ideal * ideal) / distance;
+        shift[a].x += (dx / distance) * force;
+        shift[a].y += (dy / distance) * force;
+        shift[b].x -= (dx / distance) * force;
+        shift[b].y -= (dy / distance) * force;
+      }
+    }
+    for (const [a, b] of links) {
+      const dx = positions[a].x - positions[b].x;
+      const dy = positions[a].y - positions[b].y;
+      const distance = Math.hypot(dx, dy) || 0.01;
+      const force = (distance * distance) / ideal;
+      shift[a].x -= (dx / distance) * force;
+      shift[a].y -= (dy / distance) * force;
+      shift[b].x += (dx / distance) * force;
+      shift[b].y += (dy / distance) * force;
+    }
+
+    positions.forEach((position, i) => {
+      // Atracción débil hacia el centro para no alejar componentes sueltas
+      shift[i].x -= position.x * 0.05;
+      shift[i].y -= position.y * 0.05;
+      const length = Math.hypot(shift[i].x, shift[i].y);
+      if (length > 0) {
+        const step = Math.min(length, temperature);
+        position.x += (shift[i].x / length) * step;
+        position.y += (shift[i].y / length) * step;
+      }
+    });
+  }
+
+  // Las posiciones son centros: se separan los rectángulos que se solapan
+  for (let pass = 0; pass < OVERLAP_PASSES; pass++) {
+    let moved = false;
+    for (let a = 0; a < positions.length; a++) {
+      for (let b = a + 1; b < positions.length; b++) {
+        const dx = positions[b].x - positions[a].x;
+        const dy = positions[b].y - positions[a].y;
+        const overlapX =
+          (sizes[a].width + sizes[b].width) / 2 + NODE_SPACING - Math.abs(dx);
+        const overlapY =
+          (sizes[a].height + sizes[b].height) / 2 +
+          NODE_SPACING -
+          Math.abs(dy);
+        if (overlapX <= 0 || overlapY <= 0) {
+          continue;
+        }
+        moved = true;
+        if (overlapX < overlapY) {
+          const push = (overlapX / 2) * (dx < 0 ? -1 : 1);
+          positions[a].x -= push;
+          positions[b].x += push;
+        } else {
+          const push = (overlapY / 2) * (dy < 0 ? -1 : 1);
+          positions[a].y -= push;
+          positions[b].y += push;
+        }
+      }
+    }
+    if (!moved) {
+      break;
+    }
+  }
+
+  const minX = Math.min(...positions.map((p, i) => p.x - sizes[i].width / 2));
+  const minY = Math.min(...positions.map((p, i) => p.y - sizes[i].height / 2));
+  return positions.map((position, i) => ({
+    x: position.x - sizes[i].width / 2 - minX,
+    y: position.y - sizes[i].height / 2 - minY,
+  }));
+};
+
+const snapToGrid = (value: number): number =>
+  Math.round(value / GRID_SIZE) * GRID_SIZE;
+
+/**
+ * Recoloca los nodos con el algoritmo indicado. Con orthogonal las aristas
+ * pasan a ser de tipo step (solo tramos horizontales y verticales).
+ */
+export const applyAutoLayout = (
+  nodes: DiagramNode[],
+  edges: DiagramEdge[],
+  algorithm: DiagramAutoLayout
+): { nodes: DiagramNode[]; edges: DiagramEdge[] } => {
+  if (nodes.length === 0) {
+    return { nodes, edges };
+  }
+
+  let positions: Point[];
+  switch (algorithm) {
+    case "force":
+      positions = forceLayout(nodes, edges);
+      break;
+    case "orthogonal":
+      positions = layeredLayout(nodes, edges, true).map((position) => ({
+        x: snapToGrid(position.x),
+        y: snapToGrid(position.y),
+      }));
+      break;
+    default:
+      positions = layeredLayout(nodes, edges, false);
+  }
+
+  return {
+    nodes: nodes.map((node, i) => ({
+      ...node,
+      position: {
+        x: Math.round(positions[i].x),
+        y: Math.round(positions[i].y),
+      },
+    })),
+    edges:
+      algorithm === "orthogonal"
+        ? edges.map((edge) => ({ ...edge, type: "step" }))
+        : edges,
+  };
+};
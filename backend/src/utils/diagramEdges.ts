@@ -0,0 +1,324 @@
+import {
+  DiagramCardinality,
+  DiagramEdge,
+  DiagramEdgeOrigin,
+} from "../repositories/diagramRepository";
+import {
+  EntityRelationship,
+} from "../repositories/entityRelationshipRepository";
+import { Field } from "../repositories/fieldRepository";
+
+export interface DiagramEdgeOptions {
+  /** Añade las referencias que sugiere el nombre de un campo (ej. user_id) */
+  suggested?: boolean;
+}
+
+interface DiagramEntity {
+  id: string;
+  name: string;
+}
+
+/**
+ * Entidades y campos del proyecto indexados para resolver las aristas
+ */
+interface EdgeContext {
+  entities: DiagramEntity[];
+  fieldsByEntity: Map<string, Field[]>;
+  fieldsById: Map<string, Field>;
+}
+
+const EDGE_TYPE = "smoothstep";
+
+/**
+ * Handle de la clave primaria de una entidad: el campo marcado como clave
+ * primaria o la columna id implícita
+ */
+export const getPrimaryKeyHandle = (fields: Field[]): string =>
+  fields.find((field) => field.is_primary_key)?.id ?? "id";
+
+const createEdge = (edge: {
+  id: string;
+  source: string;
+  target: string;
+  sourceHandle?: string;
+  targetHandle?: string;
+  label?: string;
+  relationship: string;
+  sourceCardinality: DiagramCardinality;
+  targetCardinality: DiagramCardinality;
+  origin: DiagramEdgeOrigin;
+  relationshipId?: string;
+  fieldId?: string;
+}): DiagramEdge => ({
+  id: edge.id,
+  source: edge.source,
+  target: edge.target,
+  sourceHandle: edge.sourceHandle,
+  targetHandle: edge.targetHandle,
+  type: EDGE_TYPE,
+  label: edge.label,
+  markerStart: `cardinality-${edge.sourceCardinality}`,
+  markerEnd: `cardinality-${edge.targetCardinality}`,
+  ...(edge.origin === "suggested" ? { animated: true } : {}),
+  data: {
+    relationship: edge.relationship,
+    sourceCardinality: edge.sourceCardinality,
+    targetCardinality: edge.targetCardinality,
+    origin: edge.origin,
+    relationshipId: edge.relationshipId,
+    fieldId: edge.fieldId,
+  },
+});
+
+const findForeignKeyTo = (
+  context: EdgeContext,
+  entityId: string,
+  referencedEntityId: string
+): Field | undefined =>
+  context.fieldsByEntity
+    .get(entityId)
+    ?.find(
+      (field) =>
+        field.is_foreign_key && field.foreign_entity_id === referencedEntityId
+    );
+
+/**
+ * Handle del campo referenciado por una clave foránea: el indicado si
+ * pertenece a la entidad referenciada o su clave primaria
+ */
+const getReferencedHandle = (
+  context: EdgeContext,
+  entityId: string,
+  fieldId?: string
+): string => {
+  const field = fieldId ? context.fieldsById.get(fieldId) : undefined;
+  return field && field.entity_id === entityId
+    ? field.id
+    : getPrimaryKeyHandle(context.fieldsByEntity.get(entityId) ?? []);
+};
+
+/**
+ * Extremo de la relación que guarda la clave foránea, igual que al navegar
+ * las relaciones: el origen en muchos a uno, el destino en uno a muchos y en
+ * uno a uno el que tenga la FK (por defecto el origen). Las relaciones
+ * muchos a muchos se guardan en una tabla intermedia.
+ */
+const getHolder = (
+  relationship: EntityRelationship,
+  context: EdgeContext
+): "source" | "target" | null => {
+  switch (relationship.relationship_type) {
+    case "many_to_one":
+      return "source";
+    case "one_to_many":
+      return "target";
+    case "one_to_one": {
+      const holds = (entityId: string, otherId: string, fieldId?: string) =>
+        !!(fieldId && context.fieldsById.get(fieldId)?.is_foreign_key) ||
+        !!findForeignKeyTo(context, entityId, otherId);
+      const sourceHolds = holds(
+        relationship.source_entity_id,
+        relationship.target_entity_id,
+        relationship.source_field_id
+      );
+      const targetHolds = holds(
+        relationship.target_entity_id,
+        relationship.source_entity_id,
+        relationship.target_field_id
+      );
+      return targetHolds && !sourceHolds ? "target" : "source";
+    }
+    default:
+      return null;
+  }
+};
+
+const buildRelationshipEdge = (
+  relationship: EntityRelationship,
+  context: EdgeContext
+): DiagramEdge => {
+  const ends = {
+    source: {
+      entityId: relationship.source_entity_id,
+      fieldId: relationship.source_field_id,
+    },
+    target: {
+      entityId: relationship.target_entity_id,
+      fieldId: relationship.target_field_id,
+    },
+  };
+  const handles: { source?: string; target?: string } = {};
+  const cardinalities: Record<"source" | "target", DiagramCardinality> = {
+    source: "zero_or_many",
+    target: "zero_or_many",
+  };
+
+  const holder = getHolder(relationship, context);
+  let field: Field | undefined;
+  if (holder) {
+    const other = holder === "source" ? "target" : "source";
+    const holderEnd = ends[holder];
+    const otherEnd = ends[other];
+
+    const explicit = holderEnd.fieldId
+      ? context.fieldsById.get(holderEnd.fieldId)
+      : undefined;
+    field =
+      explicit ??
+      findForeignKeyTo(context, holderEnd.entityId, otherEnd.entityId);
+    if (field) {
+      handles[holder] = field.id;
+      handles[other] = getReferencedHandle(
+        context,
+        otherEnd.entityId,
+        otherEnd.fieldId ?? field.foreign_field_id
+      );
+    }
+
+    // Cada registro que guarda la FK apunta a uno del otro extremo
+    const required = !!relationship.is_required || !!field?.is_required;
+    cardinalities[other] = required ? "one" : "zero_or_one";
+    cardinalities[holder] =
+      relationship.relationship_type === "one_to_one"
+        ? "zero_or_one"
+        : "zero_or_many";
+  }
+
+  return createEdge({
+    id: `relationship-${relationship.id}`,
+    source: relationship.source_entity_id,
+    target: relationship.target_entity_id,
+    sourceHandle: handles.source,
+    targetHandle: handles.target,
+    label: relationship.name || field?.name,
+    relationship: relationship.relationship_type,
+    sourceCardinality: cardinalities.source,
+    targetCardinality: cardinalities.target,
+    origin: "relationship",
+    relationshipId: relationship.id,
+    fieldId: field?.id,
+  });
+};
+
+const buildForeignKeyEdge = (
+  field: Field,
+  context: EdgeContext
+): DiagramEdge => {
+  const entityId = field.foreign_entity_id!;
+  return createEdge({
+    id: `foreign-key-${field.id}`,
+    source: field.entity_id,
+    target: entityId,
+    sourceHandle: field.id,
+    targetHandle: getReferencedHandle(
+      context,
+      entityId,
+      field.foreign_field_id
+    ),
+    label: field.name,
+    relationship: field.is_unique ? "one_to_one" : "many_to_one",
+    sourceCardinality: field.is_unique ? "zero_or_one" : "zero_or_many",
+    targetCardinality: field.is_required ? "one" : "zero_or_one",
+    origin: "foreign_key",
+    fieldId: field.id,
+  });
+};
+
+/**
+ * Entidad a la que parece referirse un campo por su nombre (user_id -> User,
+ * Users o Use). Es solo una sugerencia: el campo no está marcado como FK.
+ */
+const findSuggestedEntity = (
+  field: Field,
+  context: EdgeContext
+): DiagramEntity | undefined => {
+  if (!field.name.endsWith("_id") || field.name === "id") {
+    return undefined;
+  }
+  const referenced = field.name.slice(0, -3).toLowerCase();
+  return context.entities.find(
+    (entity) =>
+      entity.name.toLowerCase() === referenced ||
+      entity.name.toLowerCase() === referenced + "s" ||
+      entity.name.toLowerCase() === referenced.slice(0, -1)
+  );
+};
+
+const buildSuggestedEdge = (
+  field: Field,
+  entity: DiagramEntity,
+  context: EdgeContext
+): DiagramEdge =>
+  createEdge({
+    id: `suggested-${field.id}`,
+    source: field.entity_id,
+    target: entity.id,
+    sourceHandle: field.id,
+    targetHandle: getReferencedHandle(context, entity.id),
+    label: field.name,
+    relationship: "many_to_one",
+    sourceCardinality: "zero_or_many",
+    targetCardinality: field.is_required ? "one" : "zero_or_one",
+    origin: "suggested",
+    fieldId: field.id,
+  });
+
+/**
+ * Construye las aristas del diagrama a partir de las relaciones del proyecto
+ * y de los campos marcados como clave foránea que no forman parte de ninguna
+ * relación. Cada arista se une a las filas exactas de la FK y del campo
+ * referenciado cuando se conocen.
+ */
+export const buildDiagramEdges = (
+  entities: DiagramEntity[],
+  fields: Field[],
+  relationships: EntityRelationship[],
+  options: DiagramEdgeOptions = {}
+): DiagramEdge[] => {
+  const entityIds = new Set(entities.map((entity) => entity.id));
+  const context: EdgeContext = {
+    entities,
+    fieldsByEntity: new Map(),
+    fieldsById: new Map(fields.map((field) => [field.id, field])),
+  };
+  for (const field of fields) {
+    const entityFields = context.fieldsByEntity.get(field.entity_id) ?? [];
+    entityFields.push(field);
+    context.fieldsByEntity.set(field.entity_id, entityFields);
+  }
+
+  const edges = relationships
+    .filter(
+      (relationship) =>
+        entityIds.has(relationship.source_entity_id) &&
+        entityIds.has(relationship.target_entity_id)
+    )
+    .map((relationship) => buildRelationshipEdge(relationship, context));
+
+  const linkedFields = new Set(edges.map((edge) => edge.data?.fieldId));
+  for (const field of fields) {
+    if (
+      field.is_foreign_key &&
+      field.foreign_entity_id &&
+      entityIds.has(field.foreign_entity_id) &&
+      !linkedFields.has(field.id)
+    ) {
+      edges.push(buildForeignKeyEdge(field, context));
+      linkedFields.add(field.id);
+    }
+  }
+
+  if (options.suggested) {
+    for (const field of fields) {
+      if (field.is_foreign_key || linkedFields.has(field.id)) {
+        continue;
+      }
+      const entity = findSuggestedEntity(field, context);
+      if (entity) {
+        edges.push(buildSuggestedEdge(field, entity, context));
+      }
+    }
+  }
+
+  return edges;
+};
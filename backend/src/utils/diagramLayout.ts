@@ -0,0 +1,264 @@
+import {
+  DiagramLayout,
+  DiagramNodeLayout,
+  SaveDiagramLayoutData,
+} from "../repositories/diagramLayoutRepository";
+import { DiagramEdge, DiagramNode } from "../repositories/diagramRepository";
+
+/** Tamaño estimado de un nodo cuyo tamaño no se ha guardado */
+export const NODE_WIDTH = 300;
+export const NODE_HEIGHT = 200;
+export const NODE_SPACING = 50;
+
+/** Anillos alrededor de una entidad relacionada en los que se busca hueco */
+const MAX_RINGS = 10;
+
+interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+const getRect = (node: DiagramNode): Rect => ({
+  x: node.position.x,
+  y: node.position.y,
+  width: node.width ?? NODE_WIDTH,
+  height: node.height ?? NODE_HEIGHT,
+});
+
+const overlaps = (a: Rect, b: Rect): boolean =>
+  a.x < b.x + b.width + NODE_SPACING &&
+  b.x < a.x + a.width + NODE_SPACING &&
+  a.y < b.y + b.height + NODE_SPACING &&
+  b.y < a.y + a.height + NODE_SPACING;
+
+/**
+ * Error de validación de una disposición enviada por el cliente
+ */
+export class DiagramLayoutError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "DiagramLayoutError";
+  }
+}
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === "number" && Number.isFinite(value);
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const parseSize = (value: unknown, label: string): number | undefined => {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (!isFiniteNumber(value) || value <= 0) {
+    throw new DiagramLayoutError(`${label} debe ser un número positivo`);
+  }
+  return value;
+};
+
+/**
+ * Valida el cuerpo de PUT /diagram/layout y lo reduce a las propiedades que
+ * se guardan. No comprueba que las entidades pertenezcan al proyecto.
+ */
+export const parseDiagramLayout = (body: unknown): SaveDiagramLayoutData => {
+  if (!isObject(body) || !Array.isArray(body.nodes)) {
+    throw new DiagramLayoutError("nodes debe ser un array");
+  }
+
+  const ids = new Set<string>();
+  const nodes = body.nodes.map((node: unknown, index): DiagramNodeLayout => {
+    const label = `nodes[${index}]`;
+    if (!isObject(node) || typeof node.id !== "string") {
+      throw new DiagramLayoutError(`${label} debe tener el id de la entidad`);
+    }
+    if (ids.has(node.id)) {
+      throw new DiagramLayoutError(`${label}: la entidad está repetida`);
+    }
+    ids.add(node.id);
+    const { position } = node;
+    if (
+      !isObject(position) ||
+      !isFiniteNumber(position.x) ||
+      !isFiniteNumber(position.y)
+    ) {
+      throw new DiagramLayoutError(
+        `${label}.position debe tener x e y numéricos`
+      );
+    }
+    if (node.collapsed !== undefined && typeof node.collapsed !== "boolean") {
+      throw new DiagramLayoutError(`${label}.collapsed debe ser un booleano`);
+    }
+    return {
+      id: node.id,
+      position: { x: position.x, y: position.y },
+      width: parseSize(node.width, `${label}.width`),
+      height: parseSize(node.height, `${label}.height`),
+      collapsed: node.collapsed,
+    };
+  });
+
+  const { viewport } = body;
+  if (viewport === undefined) {
+    return { nodes };
+  }
+  if (
+    !isObject(viewport) ||
+    !isFiniteNumber(viewport.x) ||
+    !isFiniteNumber(viewport.y) ||
+    !isFiniteNumber(viewport.zoom) ||
+    viewport.zoom <= 0
+  ) {
+    throw new DiagramLayoutError(
+      "viewport debe tener x, y y zoom numéricos, con zoom positivo"
+    );
+  }
+  return {
+    nodes,
+    viewport: { x: viewport.x, y: viewport.y, zoom: viewport.zoom },
+  };
+};
+
+/**
+ * Posición en cuadrícula del nodo index de count (sin disposición guardada)
+ */
+export const getGridPosition = (
+  index: number,
+  count: number
+): { x: number; y: number } => {
+  const cols = Math.ceil(Math.sqrt(count));
+  return {
+    x: (index % cols) * (NODE_WIDTH + NODE_SPACING),
+    y: Math.floor(index / cols) * (NODE_HEIGHT + NODE_SPACING),
+  };
+};
+
+/**
+ * Primer hueco libre alrededor de un nodo: a la derecha, debajo, a la
+ * izquierda o encima, alejándose un anillo cada vez
+ */
+const findFreeSpotNear = (anchor: Rect, placed: Rect[]): Rect | null => {
+  const stepX = anchor.width + NODE_SPACING;
+  const stepY = anchor.height + NODE_SPACING;
+
+  for (let ring = 1; ring <= MAX_RINGS; ring++) {
+    const candidates = [
+      { x: anchor.x + ring * stepX, y: anchor.y },
+      { x: anchor.x, y: anchor.y + ring * stepY },
+      { x: anchor.x - ring * stepX, y: anchor.y },
+      { x: anchor.x, y: anchor.y - ring * stepY },
+      { x: anchor.x + ring * stepX, y: anchor.y + ring * stepY },
+      { x: anchor.x - ring * stepX, y: anchor.y + ring * stepY },
+      { x: anchor.x + ring * stepX, y: anchor.y - ring * stepY },
+      { x: anchor.x - ring * stepX, y: anchor.y - ring * stepY },
+    ];
+    for (const candidate of candidates) {
+      const rect = { ...candidate, width: NODE_WIDTH, height: NODE_HEIGHT };
+      if (!placed.some((other) => overlaps(rect, other))) {
+        return rect;
+      }
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Aplica la disposición guardada a los nodos del diagrama. Las entidades sin
+ * posición guardada (las nuevas) se colocan en el primer hueco libre junto a
+ * la entidad relacionada con la que más aristas comparten; las que no tienen
+ * relaciones con entidades colocadas, en una fila debajo del diagrama.
+ */
+export const applyDiagramLayout = (
+  nodes: DiagramNode[],
+  edges: DiagramEdge[],
+  layout: DiagramLayout
+): DiagramNode[] => {
+  const saved = new Map(layout.nodes.map((node) => [node.id, node]));
+  const positioned = new Map<string, DiagramNode>();
+  const pending: DiagramNode[] = [];
+
+  for (const node of nodes) {
+    const nodeLayout = saved.get(node.id);
+    if (!nodeLayout) {
+      pending.push(node);
+      continue;
+    }
+    positioned.set(node.id, {
+      ...node,
+      position: { ...nodeLayout.position },
+      width: nodeLayout.width,
+      height: nodeLayout.height,
+      data: { ...node.data, collapsed: nodeLayout.collapsed ?? false },
+    });
+  }
+
+  const neighbors = new Map<string, string[]>();
+  for (const edge of edges) {
+    if (edge.source === edge.target) {
+      continue;
+    }
+    neighbors.set(edge.source, [
+      ...(neighbors.get(edge.source) ?? []),
+      edge.target,
+    ]);
+    neighbors.set(edge.target, [
+      ...(neighbors.get(edge.target) ?? []),
+      edge.source,
+    ]);
+  }
+
+  // Fila para las entidades sin relaciones colocadas, debajo de todo
+  const rects = () => [...positioned.values()].map(getRect);
+  const initial = rects();
+  let rowX = 0;
+  let rowY = 0;
+  if (initial.length > 0) {
+    rowX = Math.min(...initial.map((rect) => rect.x));
+    rowY =
+      Math.max(...initial.map((rect) => rect.y + rect.height)) +
+      NODE_SPACING * 2;
+  }
+
+  while (pending.length > 0) {
+    // Primero la entidad con más aristas hacia entidades ya colocadas
+    const scored = pending.map((node) => {
+      const placedNeighbors = (neighbors.get(node.id) ?? []).filter((id) =>
+        positioned.has(id)
+      );
+      return { node, placedNeighbors };
+    });
+    scored.sort((a, b) => b.placedNeighbors.length - a.placedNeighbors.length);
+    const { node, placedNeighbors } = scored[0];
+    pending.splice(pending.indexOf(node), 1);
+
+    const placed = rects();
+    let spot: Rect | null = null;
+    if (placedNeighbors.length > 0) {
+      const counts = new Map<string, number>();
+      for (const id of placedNeighbors) {
+        counts.set(id, (counts.get(id) ?? 0) + 1);
+      }
+      const anchorId = [...counts.entries()].sort((a, b) => b[1] - a[1])[0][0];
+      spot = findFreeSpotNear(getRect(positioned.get(anchorId)!), placed);
+    }
+    if (!spot) {
+      let rect = { x: rowX, y: rowY, width: NODE_WIDTH, height: NODE_HEIGHT };
+      while (placed.some((other) => overlaps(rect, other))) {
+        rect = { ...rect, x: rect.x + NODE_WIDTH + NODE_SPACING };
+      }
+      spot = rect;
+      rowX = rect.x + NODE_WIDTH + NODE_SPACING;
+    }
+
+    positioned.set(node.id, {
+      ...node,
+      position: { x: spot.x, y: spot.y },
+      data: { ...node.data, collapsed: false },
+    });
+  }
+
+  return nodes.map((node) => positioned.get(node.id)!);
+};
@@ -0,0 +1,982 @@
+import { deflateSync } from "node:zlib";
+import sharp from "sharp";
+import {
+  DiagramCardinality,
+  DiagramData,
+  DiagramEdge,
+  DiagramNode,
+} from "../repositories/diagramRepository";
+import { NODE_WIDTH } from "./diagramLayout";
+
+export type DiagramImageFormat = "svg" | "png" | "pdf";
+
+export const DIAGRAM_IMAGE_FORMATS: DiagramImageFormat[] = [
+  "svg",
+  "png",
+  "pdf",
+];
+
+export interface DiagramSvg {
+  svg: string;
+  width: number;
+  height: number;
+}
+
+const HEADER_HEIGHT = 32;
+const ROW_HEIGHT = 24;
+const NODE_PADDING = 12;
+const MARGIN = 40;
+const TITLE_HEIGHT = 36;
+/** Tramo mínimo junto al nodo, donde se dibuja la cardinalidad */
+const STUB = 30;
+/** Distancia mínima entre una arista y los nodos que no conecta */
+const CLEARANCE = 4;
+/** Ancho aproximado de un carácter a 12px, para recortar textos */
+const CHAR_WIDTH = 7;
+const BADGE_WIDTH = 24;
+/** Separación entre los tramos paralelos de aristas distintas */
+const LANE_SPACING = 12;
+/** Separación entre las aristas que salen por la cabecera o el pie */
+const PORT_SPACING = 24;
+/** Píxeles máximos del PNG o de la imagen del PDF (a 2x si caben) */
+const MAX_PIXELS = 25_000_000;
+/** Lado máximo de una página PDF en puntos */
+const MAX_PDF_PAGE = 14_400;
+
+const COLORS = {
+  background: "#ffffff",
+  title: "#0f172a",
+  nodeFill: "#ffffff",
+  nodeStroke: "#94a3b8",
+  header: "#1e293b",
+  headerText: "#ffffff",
+  text: "#0f172a",
+  type: "#64748b",
+  separator: "#e2e8f0",
+  edge: "#475569",
+  suggested: "#94a3b8",
+  badges: { PK: "#d97706", FK: "#2563eb", UQ: "#059669" },
+};
+
+type Badge = keyof typeof COLORS.badges;
+
+interface NodeRow {
+  id: string;
+  name: string;
+  type: string;
+  badges: Badge[];
+}
+
+interface NodeBox {
+  node: DiagramNode;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  rows: NodeRow[];
+  collapsed: boolean;
+}
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+/** Tramo recto de una arista */
+interface Segment {
+  from: Point;
+  to: Point;
+}
+
+interface Bounds {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+/**
+ * Recorrido posible de una arista: sus puntos y hacia dónde sale la línea de
+ * cada nodo. rank y order ordenan los recorridos que no cruzan nodos (menor
+ * es mejor) y ports son los anclajes de cabecera o pie que ocupa.
+ */
+interface Route {
+  points: Point[];
+  sourceDirection: Point;
+  targetDirection: Point;
+  rank: number;
+  order: number;
+  ports: string[];
+}
+
+/**
+ * Estado compartido entre las aristas: los nodos que deben esquivar, los
+ * tramos intermedios ya dibujados y cuántas aristas salen por la cabecera o
+ * el pie de cada nodo
+ */
+interface RoutingState {
+  boxes: NodeBox[];
+  segments: Segment[];
+  ports: Map<string, number>;
+}
+
+const escapeXml = (text: string): string =>
+  text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+
+const truncate = (text: string, width: number): string => {
+  const max = Math.floor(width / CHAR_WIDTH);
+  if (text.length <= max) {
+    return text;
+  }
+  return max > 1 ? `${text.slice(0, max - 1)}…` : "";
+};
+
+/**
+ * Filas de un nodo: la columna id implícita si no hay clave primaria marcada
+ * y después los campos con sus distintivos
+ */
+const getRows = (node: DiagramNode): NodeRow[] => {
+  const rows: NodeRow[] =
+    node.data.primaryKey === "id"
+      ? [{ id: "id", name: "id", type: "uuid", badges: ["PK"] }]
+      : [];
+
+  for (const field of node.data.fields) {
+    const badges: Badge[] = [];
+    if (field.is_primary_key) {
+      badges.push("PK");
+    }
+    if (field.is_foreign_key) {
+      badges.push("FK");
+    }
+    if (field.is_unique && !field.is_primary_key) {
+      badges.push("UQ");
+    }
+    rows.push({ id: field.id, name: field.name, type: field.type, badges });
+  }
+
+  return rows;
+};
+
+const getNodeBox = (node: DiagramNode): NodeBox => {
+  const rows = getRows(node);
+  const collapsed = node.data.collapsed ?? false;
+  const contentHeight = collapsed
+    ? HEADER_HEIGHT
+    : HEADER_HEIGHT + rows.length * ROW_HEIGHT + NODE_PADDING / 2;
+
+  return {
+    node,
+    x: node.position.x,
+    y: node.position.y,
+    width: node.width ?? NODE_WIDTH,
+    height: collapsed
+      ? contentHeight
+      : Math.max(node.height ?? 0, contentHeight),
+    rows,
+    collapsed,
+  };
+};
+
+/**
+ * Altura del punto de anclaje de una arista: el centro de la fila del campo
+ * o, si el nodo está plegado o no tiene la fila, el de la cabecera
+ */
+const getHandleY = (box: NodeBox, handle?: string): number => {
+  const index = box.rows.findIndex((row) => row.id === handle);
+  if (box.collapsed || index === -1) {
+    return box.y + HEADER_HEIGHT / 2;
+  }
+  return box.y + HEADER_HEIGHT + index * ROW_HEIGHT + ROW_HEIGHT / 2;
+};
+
+const renderNode = (box: NodeBox): string => {
+  const { x, y, width, height } = box;
+  const parts = [
+    `<g>`,
+    `<rect x="${x}" y="${y}" width="${width}" height="${height}" rx="6" ` +
+      `fill="${COLORS.nodeFill}" stroke="${COLORS.nodeStroke}"/>`,
+    `<rect x="${x}" y="${y}" width="${width}" height="${HEADER_HEIGHT}" ` +
+      `rx="6" fill="${COLORS.header}"/>`,
+  ];
+  if (!box.collapsed) {
+    // Esquinas inferiores rectas en la cabecera
+    parts.push(
+      `<rect x="${x}" y="${y + HEADER_HEIGHT - 6}" width="${width}" ` +
+        `height="6" fill="${COLORS.header}"/>`
+    );
+  }
+  parts.push(
+    `<text x="${x + NODE_PADDING}" y="${y + 21}" font-size="14" ` +
+      `font-weight="bold" fill="${COLORS.headerText}">` +
+      `${escapeXml(truncate(box.node.data.label, width - NODE_PADDING * 2))}` +
+      `</text>`
+  );
+
+  if (!box.collapsed) {
+    box.rows.forEach((row, index) => {
+      const top = y + HEADER_HEIGHT + index * ROW_HEIGHT;
+      const baseline = top + 16;
+      if (index > 0) {
+        parts.push(
+          `<line x1="${x}" y1="${top}" x2="${x + width}" y2="${top}" ` +
+            `stroke="${COLORS.separator}"/>`
+        );
+      }
+
+      // Distintivos alineados a la derecha y el tipo a su izquierda
+      let right = x + width - NODE_PADDING;
+      for (const badge of [...row.badges].reverse()) {
+        right -= BADGE_WIDTH;
+        parts.push(
+          `<rect x="${right}" y="${top + 5}" width="${BADGE_WIDTH - 4}" ` +
+            `height="14" rx="3" fill="${COLORS.badges[badge]}"/>`,
+          `<text x="${right + (BADGE_WIDTH - 4) / 2}" y="${top + 15}" ` +
+            `font-size="9" font-weight="bold" text-anchor="middle" ` +
+            `fill="#ffffff">${badge}</text>`
+        );
+      }
+      const available = right - x - NODE_PADDING * 2;
+      const type = truncate(row.type, available / 2);
+      parts.push(
+        `<text x="${right - 4}" y="${baseline}" font-size="12" ` +
+          `text-anchor="end" fill="${COLORS.type}">${escapeXml(type)}</text>`,
+        `<text x="${x + NODE_PADDING}" y="${baseline}" font-size="12" ` +
+          `fill="${COLORS.text}">` +
+          `${escapeXml(
+            truncate(row.name, available - type.length * CHAR_WIDTH)
+          )}</text>`
+      );
+    });
+  }
+
+  parts.push(`</g>`);
+  return parts.join("\n");
+};
+
+/**
+ * Símbolo pata de gallo de un extremo. direction es el vector unitario hacia
+ * donde sale la línea del nodo (a un lado, arriba o abajo).
+ */
+const renderCardinality = (
+  cardinality: DiagramCardinality,
+  { x, y }: Point,
+  direction: Point,
+  color: string
+): string => {
+  // Las barras y las patas se abren en perpendicular a la línea
+  const across = { x: Math.abs(direction.y), y: Math.abs(direction.x) };
+  const at = (offset: number): Point => ({
+    x: x + direction.x * offset,
+    y: y + direction.y * offset,
+  });
+  const line = (from: Point, to: Point): string =>
+    `<line x1="${from.x}" y1="${from.y}" x2="${to.x}" y2="${to.y}" ` +
+    `stroke="${color}" stroke-width="1.5"/>`;
+  const bar = (offset: number): string => {
+    const center = at(offset);
+    return line(
+      { x: center.x - across.x * 7, y: center.y - across.y * 7 },
+      { x: center.x + across.x * 7, y: center.y + across.y * 7 }
+    );
+  };
+  const circle = (offset: number): string =>
+    `<circle cx="${at(offset).x}" cy="${at(offset).y}" r="5" ` +
+    `fill="${COLORS.background}" stroke="${color}" stroke-width="1.5"/>`;
+
+  switch (cardinality) {
+    case "one":
+      return bar(8) + bar(14);
+    case "zero_or_one":
+      return bar(8) + circle(20);
+    default:
+      return (
+        [-7, 0, 7]
+          .map((spread) =>
+            line(at(14), { x: x + across.x * spread, y: y + across.y * spread })
+          )
+          .join("") + circle(20)
+      );
+  }
+};
+
+/**
+ * Coordenadas posibles para el tramo intermedio de una arista dentro de
+ * [min, max], de la más cercana a la preferida a la más lejana
+ */
+const getLanes = (preferred: number, min: number, max: number): number[] => {
+  const first = Math.min(max, Math.max(min, preferred));
+  const lanes = [first];
+  for (let step = 1; ; step++) {
+    const after = first + step * LANE_SPACING;
+    const before = first - step * LANE_SPACING;
+    if (after > max && before < min) {
+      return lanes;
+    }
+    if (after <= max) {
+      lanes.push(after);
+    }
+    if (before >= min) {
+      lanes.push(before);
+    }
+  }
+};
+
+/**
+ * Coordenada x del punto de anclaje index-ésimo en la cabecera o el pie de un
+ * nodo: el centro y después alternando a derecha e izquierda
+ */
+const getPortX = (box: NodeBox, index: number): number => {
+  const offset =
+    Math.ceil(index / 2) * PORT_SPACING * (index % 2 === 1 ? 1 : -1);
+  return Math.min(
+    box.x + box.width - PORT_SPACING,
+    Math.max(box.x + PORT_SPACING, box.x + box.width / 2 + offset)
+  );
+};
+
+/**
+ * Longitud del tramo junto al nodo por uno de sus lados: STUB o la mitad del
+ * hueco hasta el nodo más cercano a esa altura, si es menor
+ */
+const getStub = (
+  box: NodeBox,
+  y: number,
+  direction: number,
+  boxes: NodeBox[]
+): number => {
+  let stub = STUB;
+  for (const other of boxes) {
+    if (
+      other === box ||
+      y < other.y - CLEARANCE ||
+      y > other.y + other.height + CLEARANCE
+    ) {
+      continue;
+    }
+    const gap =
+      direction > 0
+        ? other.x - (box.x + box.width)
+        : box.x - (other.x + other.width);
+    if (gap >= 0) {
+      stub = Math.min(stub, gap / 2);
+    }
+  }
+  return stub;
+};
+
+const crossesBox = ({ from, to }: Segment, box: NodeBox): boolean =>
+  Math.max(from.x, to.x) > box.x - CLEARANCE &&
+  Math.min(from.x, to.x) < box.x + box.width + CLEARANCE &&
+  Math.max(from.y, to.y) > box.y - CLEARANCE &&
+  Math.min(from.y, to.y) < box.y + box.height + CLEARANCE;
+
+/** Si dos tramos paralelos van tan juntos que se confundirían */
+const overlapsSegment = (segment: Segment, used: Segment): boolean => {
+  const vertical = segment.from.x === segment.to.x;
+  if (vertical !== (used.from.x === used.to.x)) {
+    return false;
+  }
+  const [at, usedAt] = vertical
+    ? [segment.from.x, used.from.x]
+    : [segment.from.y, used.from.y];
+  const [start, end, usedStart, usedEnd] = vertical
+    ? [segment.from.y, segment.to.y, used.from.y, used.to.y]
+    : [segment.from.x, segment.to.x, used.from.x, used.to.x];
+  return (
+    Math.abs(at - usedAt) < LANE_SPACING &&
+    Math.min(Math.max(start, end), Math.max(usedStart, usedEnd)) >
+      Math.max(Math.min(start, end), Math.min(usedStart, usedEnd))
+  );
+};
+
+const getSegments = (points: Point[]): Segment[] =>
+  points
+    .slice(1)
+    .map((to, index) => ({ from: points[index], to }))
+    .filter(({ from, to }) => from.x !== to.x || from.y !== to.y);
+
+/** Tramos de un recorrido menos los dos que salen de los nodos */
+const getInnerSegments = (points: Point[]): Segment[] =>
+  getSegments(points.slice(1, -1));
+
+/**
+ * Recorridos por los lados de los nodos: de frente por el hueco entre ambos
+ * si no se solapan en horizontal (acortando el tramo junto al nodo si el
+ * hueco es estrecho) o rodeando los dos por la derecha o la izquierda
+ */
+const getSideRoutes = (
+  source: NodeBox,
+  target: NodeBox,
+  sy: number,
+  ty: number,
+  facingRank: number
+): Route[] => {
+  const routes: Route[] = [];
+  const sourceRight = source.x + source.width;
+  const targetRight = target.x + target.width;
+  const through = (
+    sx: number,
+    tx: number,
+    bends: number[],
+    [sourceDirection, targetDirection]: number[],
+    rank: number,
+    endY = ty
+  ) =>
+    bends.forEach((bend, order) =>
+      routes.push({
+        points: [
+          { x: sx, y: sy },
+          { x: bend, y: sy },
+          { x: bend, y: endY },
+          { x: tx, y: endY },
+        ],
+        sourceDirection: { x: sourceDirection, y: 0 },
+        targetDirection: { x: targetDirection, y: 0 },
+        rank,
+        order,
+        ports: [],
+      })
+    );
+
+  if (source !== target && sourceRight < target.x) {
+    const stub = Math.min(STUB, (target.x - sourceRight) / 2);
+    through(
+      sourceRight,
+      target.x,
+      getLanes(
+        (sourceRight + target.x) / 2,
+        sourceRight + stub,
+        target.x - stub
+      ),
+      [1, -1],
+      facingRank
+    );
+  } else if (source !== target && targetRight < source.x) {
+    const stub = Math.min(STUB, (source.x - targetRight) / 2);
+    through(
+      source.x,
+      targetRight,
+      getLanes(
+        (targetRight + source.x) / 2,
+        targetRight + stub,
+        source.x - stub
+      ),
+      [-1, 1],
+      facingRank
+    );
+  }
+
+  // Una arista de un nodo a sí mismo no puede volver a la misma altura
+  const endY = source === target && sy === ty ? ty + ROW_HEIGHT / 2 : ty;
+  const right = Math.max(sourceRight, targetRight);
+  through(
+    sourceRight,
+    targetRight,
+    getLanes(right + STUB * 1.5, right + STUB, right + STUB * 6),
+    [1, 1],
+    2,
+    endY
+  );
+  const left = Math.min(source.x, target.x);
+  through(
+    source.x,
+    target.x,
+    getLanes(left - STUB * 1.5, left - STUB * 6, left - STUB),
+    [-1, -1],
+    2,
+    endY
+  );
+  return routes;
+};
+
+/**
+ * Recorrido del pie de un nodo a la cabecera de otro que está debajo, con el
+ * tramo horizontal en el hueco entre ambos (entre capas en la disposición
+ * por capas)
+ */
+const getVerticalRoutes = (
+  source: NodeBox,
+  target: NodeBox,
+  state: RoutingState,
+  rank: number
+): Route[] => {
+  const downwards = source.y + source.height < target.y;
+  const [upper, lower] = downwards ? [source, target] : [target, source];
+  const top = upper.y + upper.height;
+  const gap = lower.y - top;
+  if (source === target || gap <= 0) {
+    return [];
+  }
+
+  const bottomPort = `${upper.node.id}:bottom`;
+  const topPort = `${lower.node.id}:top`;
+  const ux = getPortX(upper, state.ports.get(bottomPort) ?? 0);
+  const lx = getPortX(lower, state.ports.get(topPort) ?? 0);
+  const stub = Math.min(STUB, gap / 2);
+  return getLanes(top + gap / 2, top + stub, lower.y - stub).map(
+    (bend, order) => {
+      const points = [
+        { x: ux, y: top },
+        { x: ux, y: bend },
+        { x: lx, y: bend },
+        { x: lx, y: lower.y },
+      ];
+      return {
+        points: downwards ? points : points.reverse(),
+        sourceDirection: { x: 0, y: downwards ? 1 : -1 },
+        targetDirection: { x: 0, y: downwards ? -1 : 1 },
+        rank,
+        order,
+        ports: [bottomPort, topPort],
+      };
+    }
+  );
+};
+
+/**
+ * Pasillos junto a los nodos: a LANE_SPACING, el doble y el triple por
+ * encima y por debajo de cada uno o, con vertical, a su izquierda y derecha
+ */
+const getCorridors = (boxes: NodeBox[], vertical = false): number[] => {
+  const corridors = new Set<number>();
+  for (const box of boxes) {
+    const [start, size] = vertical ? [box.x, box.width] : [box.y, box.height];
+    for (let step = 1; step <= 3; step++) {
+      corridors.add(start - step * LANE_SPACING);
+      corridors.add(start + size + step * LANE_SPACING);
+    }
+  }
+  return [...corridors];
+};
+
+/** Numera los recorridos del más corto al más largo */
+const sortByLength = (routes: Route[]): Route[] => {
+  const length = (route: Route) =>
+    getSegments(route.points).reduce(
+      (sum, { from, to }) =>
+        sum + Math.abs(to.x - from.x) + Math.abs(to.y - from.y),
+      0
+    );
+  return routes
+    .map((route) => ({ route, length: length(route) }))
+    .sort((a, b) => a.length - b.length)
+    .map(({ route }, order) => ({ ...route, order }));
+};
+
+/**
+ * Recorridos que salen por un lado de cada nodo y van por pasillos entre las
+ * entidades, para cuando no hay camino directo que no atraviese ninguna: un
+ * pasillo horizontal común o, con channels, uno junto a cada nodo unidos por
+ * un pasillo vertical (las aristas largas de la disposición por capas)
+ */
+const getCorridorRoutes = (
+  source: NodeBox,
+  target: NodeBox,
+  sy: number,
+  ty: number,
+  boxes: NodeBox[],
+  channels = false
+): Route[] => {
+  const corridors = getCorridors(boxes);
+  const sourceCorridors = getCorridors([source]);
+  const targetCorridors = getCorridors([target]);
+  const verticals = getCorridors(boxes, true);
+
+  const routes: Route[] = [];
+  for (const sourceSide of [1, -1]) {
+    for (const targetSide of [1, -1]) {
+      const sx = sourceSide > 0 ? source.x + source.width : source.x;
+      const tx = targetSide > 0 ? target.x + target.width : target.x;
+      const x1 = sx + sourceSide * getStub(source, sy, sourceSide, boxes);
+      const x2 = tx + targetSide * getStub(target, ty, targetSide, boxes);
+      const route = (points: Point[]): Route => ({
+        points: [
+          { x: sx, y: sy },
+          { x: x1, y: sy },
+          ...points,
+          { x: x2, y: ty },
+          { x: tx, y: ty },
+        ],
+        sourceDirection: { x: sourceSide, y: 0 },
+        targetDirection: { x: targetSide, y: 0 },
+        rank: channels ? 4 : 3,
+        order: 0,
+        ports: [],
+      });
+
+      if (!channels) {
+        for (const y of corridors) {
+          routes.push(route([{ x: x1, y }, { x: x2, y }]));
+        }
+        continue;
+      }
+      for (const y1 of sourceCorridors) {
+        for (const y2 of targetCorridors) {
+          // Solo los pasillos verticales que no atraviesan ningún nodo
+          const clear = verticals.filter((x) =>
+            boxes.every(
+              (box) =>
+                !crossesBox({ from: { x, y: y1 }, to: { x, y: y2 } }, box)
+            )
+          );
+          for (const x of clear) {
+            routes.push(
+              route([
+                { x: x1, y: y1 },
+                { x, y: y1 },
+                { x, y: y2 },
+                { x: x2, y: y2 },
+              ])
+            );
+          }
+        }
+      }
+    }
+  }
+  return sortByLength(routes);
+};
+
+/**
+ * El mejor de los recorridos: el que atraviesa menos nodos, después el de
+ * tipo preferido y el que menos tramos comparte con otras aristas. Los
+ * tramos que salen de los nodos de la arista no cuentan como cruce con ellos.
+ */
+const pickRoute = (
+  routes: Route[],
+  source: NodeBox,
+  target: NodeBox,
+  state: RoutingState
+): { route: Route; crossings: number } | undefined => {
+  let best: { route: Route; crossings: number; score: number[] } | undefined;
+  for (const route of routes) {
+    const segments = getSegments(route.points);
+    let crossings = 0;
+    for (const [index, segment] of segments.entries()) {
+      for (const box of state.boxes) {
+        if (
+          !(box === source && index === 0) &&
+          !(box === target && index === segments.length - 1) &&
+          crossesBox(segment, box)
+        ) {
+          crossings++;
+        }
+      }
+      if (best && crossings > best.crossings) {
+        break;
+      }
+    }
+    if (best && crossings > best.crossings) {
+      continue;
+    }
+
+    const shared = getInnerSegments(route.points).filter((segment) =>
+      state.segments.some((used) => overlapsSegment(segment, used))
+    ).length;
+    const score = [crossings, route.rank, shared, route.order];
+    const index = best
+      ? score.findIndex((value, i) => value !== best!.score[i])
+      : 0;
+    if (!best || (index !== -1 && score[index] < best.score[index])) {
+      best = { route, crossings, score };
+    }
+  }
+  return best;
+};
+
+/**
+ * Arista en ángulo recto entre las filas de los campos, con la cardinalidad
+ * de cada extremo. Va de frente por el hueco entre los nodos o, si están uno
+ * encima de otro, del pie de uno a la cabecera del otro; si ese camino
+ * atraviesa otras entidades, las rodea por los pasillos entre ellas.
+ */
+const renderEdge = (
+  edge: DiagramEdge,
+  source: NodeBox,
+  target: NodeBox,
+  state: RoutingState
+): { svg: string; label: string; bounds: Bounds } => {
+  const sy = getHandleY(source, edge.sourceHandle);
+  const ty = getHandleY(target, edge.targetHandle);
+
+  // Si un nodo está encima del otro con sitio para las dos cardinalidades
+  // (como entre capas) la arista va por el hueco vertical; si no, por el
+  // más ancho de los dos
+  const horizontalGap = Math.max(
+    target.x - (source.x + source.width),
+    source.x - (target.x + target.width)
+  );
+  const verticalGap = Math.max(
+    target.y - (source.y + source.height),
+    source.y - (target.y + target.height)
+  );
+  const verticalFirst =
+    verticalGap >= STUB * 2 || (verticalGap > 0 && verticalGap > horizontalGap);
+  let best = pickRoute(
+    [
+      ...getSideRoutes(source, target, sy, ty, verticalFirst ? 1 : 0),
+      ...getVerticalRoutes(source, target, state, verticalFirst ? 0 : 1),
+    ],
+    source,
+    target,
+    state
+  );
+  for (const channels of [false, true]) {
+    if (best && best.crossings === 0) {
+      break;
+    }
+    const corridor = pickRoute(
+      getCorridorRoutes(source, target, sy, ty, state.boxes, channels),
+      source,
+      target,
+      state
+    );
+    if (corridor && (!best || corridor.crossings < best.crossings)) {
+      best = corridor;
+    }
+  }
+
+  const { points, sourceDirection, targetDirection, ports } = best!.route;
+  state.segments.push(...getInnerSegments(points));
+  for (const port of ports) {
+    state.ports.set(port, (state.ports.get(port) ?? 0) + 1);
+  }
+
+  const origin = edge.data?.origin;
+  const color = origin === "suggested" ? COLORS.suggested : COLORS.edge;
+  const dash = origin === "suggested" ? ` stroke-dasharray="6 4"` : "";
+  const path = points
+    .map(({ x, y }, index) => `${index === 0 ? "M" : "L"} ${x} ${y}`)
+    .join(" ");
+  const parts = [
+    `<path d="${path}" fill="none" stroke="${color}" stroke-width="1.5"` +
+      `${dash}/>`,
+  ];
+  if (edge.data) {
+    parts.push(
+      renderCardinality(
+        edge.data.sourceCardinality,
+        points[0],
+        sourceDirection,
+        color
+      ),
+      renderCardinality(
+        edge.data.targetCardinality,
+        points[points.length - 1],
+        targetDirection,
+        color
+      )
+    );
+  }
+
+  const xs = points.map((point) => point.x);
+  const ys = points.map((point) => point.y);
+  const bounds = {
+    minX: Math.min(...xs),
+    minY: Math.min(...ys),
+    maxX: Math.max(...xs),
+    maxY: Math.max(...ys),
+  };
+  // La etiqueta se dibuja encima de los nodos para que no quede tapada, en
+  // el centro del tramo intermedio
+  let label = "";
+  if (edge.label) {
+    const labelWidth = edge.label.length * 6 + 8;
+    const middle = Math.floor((points.length - 2) / 2);
+    const labelX = (points[middle].x + points[middle + 1].x) / 2;
+    const labelY = (points[middle].y + points[middle + 1].y) / 2;
+    label = [
+      `<rect x="${labelX - labelWidth / 2}" y="${labelY - 9}" ` +
+        `width="${labelWidth}" height="16" rx="3" ` +
+        `fill="${COLORS.background}"/>`,
+      `<text x="${labelX}" y="${labelY + 3}" font-size="10" ` +
+        `text-anchor="middle" fill="${color}">` +
+        `${escapeXml(edge.label)}</text>`,
+    ].join("");
+    bounds.minX = Math.min(bounds.minX, labelX - labelWidth / 2);
+    bounds.maxX = Math.max(bounds.maxX, labelX + labelWidth / 2);
+  }
+
+  return { svg: `<g>${parts.join("")}</g>`, label, bounds };
+};
+
+/**
+ * Dibuja el diagrama como SVG: cada entidad con sus campos, tipos y
+ * distintivos (PK, FK, UQ) y cada arista con notación pata de gallo, en las
+ * posiciones del diagrama (las guardadas si las hay)
+ */
+export const renderDiagramSvg = (
+  diagram: DiagramData,
+  title?: string
+): DiagramSvg => {
+  const boxes = new Map(
+    diagram.nodes.map((node) => [node.id, getNodeBox(node)])
+  );
+  const state: RoutingState = {
+    boxes: [...boxes.values()],
+    segments: [],
+    ports: new Map(),
+  };
+  const edges = diagram.edges
+    .filter((edge) => boxes.has(edge.source) && boxes.has(edge.target))
+    .map((edge) =>
+      renderEdge(
+        edge,
+        boxes.get(edge.source)!,
+        boxes.get(edge.target)!,
+        state
+      )
+    );
+
+  const all = [...boxes.values()];
+  const titleHeight = title ? TITLE_HEIGHT : 0;
+  // Las aristas que rodean los nodos pueden salirse de ellos
+  const minX = Math.min(
+    0,
+    ...all.map((box) => box.x),
+    ...edges.map((edge) => edge.bounds.minX)
+  );
+  const minY = Math.min(
+    0,
+    ...all.map((box) => box.y),
+    ...edges.map((edge) => edge.bounds.minY)
+  );
+  const maxX = Math.max(
+    title ? title.length * 9 : 0,
+    ...all.map((box) => box.x + box.width),
+    ...edges.map((edge) => edge.bounds.maxX)
+  );
+  const maxY = Math.max(
+    0,
+    ...all.map((box) => box.y + box.height),
+    ...edges.map((edge) => edge.bounds.maxY)
+  );
+
+  const width = Math.ceil(maxX - minX + MARGIN * 2);
+  const height = Math.ceil(maxY - minY + MARGIN * 2 + titleHeight);
+  const offsetX = MARGIN - minX;
+  const offsetY = MARGIN - minY + titleHeight;
+
+  const svg = [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" ` +
+      `height="${height}" viewBox="0 0 ${width} ${height}" ` +
+      `font-family="Helvetica, Arial, sans-serif">`,
+    `<rect width="100%" height="100%" fill="${COLORS.background}"/>`,
+    title
+      ? `<text x="${MARGIN}" y="${MARGIN + 8}" font-size="18" ` +
+        `font-weight="bold" fill="${COLORS.title}">${escapeXml(title)}</text>`
+      : "",
+    all.length === 0
+      ? `<text x="${MARGIN}" y="${MARGIN + titleHeight + 14}" ` +
+        `font-size="14" fill="${COLORS.type}">Sin entidades</text>`
+      : "",
+    `<g transform="translate(${offsetX} ${offsetY})">`,
+    ...edges.map((edge) => edge.svg),
+    ...all.map(renderNode),
+    ...edges.map((edge) => edge.label),
+    `</g>`,
+    `</svg>`,
+  ]
+    .filter(Boolean)
+    .join("\n");
+
+  return { svg, width, height };
+};
+
+/**
+ * Densidad para rasterizar el SVG (72 es tamaño real): el doble para que se
+ * lea bien al ampliar, salvo que supere MAX_PIXELS
+ */
+const getDensity = ({ width, height }: DiagramSvg): number =>
+  72 * Math.min(2, Math.sqrt(MAX_PIXELS / (width * height)));
+
+export const renderDiagramPng = (diagram: DiagramSvg): Promise<Buffer> =>
+  sharp(Buffer.from(diagram.svg), { density: getDensity(diagram) })
+    .png()
+    .toBuffer();
+
+/**
+ * PDF de una página con el diagrama rasterizado (mismo tamaño que el SVG en
+ * puntos, reducido si supera el máximo de una página)
+ */
+export const renderDiagramPdf = async (
+  diagram: DiagramSvg
+): Promise<Buffer> => {
+  const { data, info } = await sharp(Buffer.from(diagram.svg), {
+    density: getDensity(diagram),
+  })
+    .flatten({ background: COLORS.background })
+    .removeAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  const scale = Math.min(
+    0.75,
+    MAX_PDF_PAGE / Math.max(diagram.width, diagram.height)
+  );
+  const pageWidth = (diagram.width * scale).toFixed(2);
+  const pageHeight = (diagram.height * scale).toFixed(2);
+  const content = `q ${pageWidth} 0 0 ${pageHeight} 0 0 cm /Im0 Do Q`;
+  const image = deflateSync(data);
+
+  const objects: Buffer[] = [
+    Buffer.from("<< /Type /Catalog /Pages 2 0 R >>"),
+    Buffer.from("<< /Type /Pages /Kids [3 0 R] /Count 1 >>"),
+    Buffer.from(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${pageWidth} ` +
+        `${pageHeight}] /Resources << /XObject << /Im0 5 0 R >> >> ` +
+        `/Contents 4 0 R >>`
+    ),
+    Buffer.from(
+      `<< /Length ${content.length} >>\nstream\n${content}\nendstream`
+    ),
+    Buffer.concat([
+      Buffer.from(
+        `<< /Type /XObject /Subtype /Image /Width ${info.width} ` +
+          `/Height ${info.height} /ColorSpace /DeviceRGB ` +
+          `/BitsPerComponent 8 /Filter /FlateDecode ` +
+          `/Length ${image.length} >>\nstream\n`
+      ),
+      image,
+      Buffer.from("\nendstream"),
+    ]),
+  ];
+
+  // El comentario binario indica a los lectores que el archivo no es texto
+  const chunks: Buffer[] = [
+    Buffer.from("%PDF-1.4\n%\xe2\xe3\xcf\xd3\n", "latin1"),
+  ];
+  let length = chunks[0].length;
+  const offsets: number[] = [];
+  objects.forEach((object, index) => {
+    offsets.push(length);
+    const chunk = Buffer.concat([
+      Buffer.from(`${index + 1} 0 obj\n`),
+      object,
+      Buffer.from("\nendobj\n"),
+    ]);
+    chunks.push(chunk);
+    length += chunk.length;
+  });
+
+  const xref = [
+    "xref",
+    `0 ${objects.length + 1}`,
+    "0000000000 65535 f ",
+    ...offsets.map((offset) => `${String(offset).padStart(10, "0")} 00000 n `),
+    "trailer",
+    `<< /Size ${objects.length + 1} /Root 1 0 R >>`,
+    "startxref",
+    String(length),
+    "%%EOF",
+  ].join("\n");
+  chunks.push(Buffer.from(`${xref}\n`));
+
+  return Buffer.concat(chunks);
+};
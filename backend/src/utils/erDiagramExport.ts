@@ -0,0 +1,253 @@
+import {
+  DiagramCardinality,
+  DiagramData,
+  DiagramEdge,
+  DiagramNode,
+  DiagramRepository,
+} from "../repositories/diagramRepository";
+import { Project } from "../repositories/projectRepository";
+import { toLinkName } from "./relationLinks";
+
+const diagramRepository = new DiagramRepository();
+
+type DiagramField = DiagramNode["data"]["fields"][number];
+
+/**
+ * Fila de una entidad en el diagrama: la columna id implícita o un campo
+ */
+interface EntityRow {
+  name: string;
+  type: string;
+  keys: Array<"PK" | "FK" | "UK">;
+  is_required: boolean;
+  description?: string;
+}
+
+/**
+ * Extremos de una relación en notación pata de gallo, igual en Mermaid y en
+ * PlantUML: el izquierdo describe la entidad de la izquierda y el derecho la
+ * de la derecha
+ */
+const LEFT_MARKERS: Record<DiagramCardinality, string> = {
+  one: "||",
+  zero_or_one: "|o",
+  zero_or_many: "}o",
+};
+
+const RIGHT_MARKERS: Record<DiagramCardinality, string> = {
+  one: "||",
+  zero_or_one: "o|",
+  zero_or_many: "o{",
+};
+
+/**
+ * Identificador válido en Mermaid y PlantUML (precio final -> precio_final)
+ */
+const toIdentifier = (name: string): string => {
+  const cleaned = name.replace(/[^_0-9A-Za-z]/g, "_");
+  return /^[A-Za-z_]/.test(cleaned) ? cleaned : `_${cleaned}`;
+};
+
+/**
+ * Identificador único de cada entidad, por ID de entidad
+ */
+const getAliases = (nodes: DiagramNode[]): Map<string, string> => {
+  const used = new Set<string>();
+  const aliases = new Map<string, string>();
+  for (const node of nodes) {
+    const base = toIdentifier(node.data.label);
+    let alias = base;
+    for (let i = 2; used.has(alias.toLowerCase()); i++) {
+      alias = `${base}${i}`;
+    }
+    used.add(alias.toLowerCase());
+    aliases.set(node.id, alias);
+  }
+  return aliases;
+};
+
+const getFieldType = (field: DiagramField): string =>
+  field.max_length ? `${field.type}(${field.max_length})` : field.type;
+
+/**
+ * Filas de una entidad: el id implícito si ningún campo es clave primaria y
+ * después los campos con sus claves (PK, FK, UK)
+ */
+const getRows = (node: DiagramNode): EntityRow[] => {
+  const rows: EntityRow[] =
+    node.data.primaryKey === "id"
+      ? [{ name: "id", type: "uuid", keys: ["PK"], is_required: true }]
+      : [];
+
+  for (const field of node.data.fields) {
+    const keys: EntityRow["keys"] = [];
+    if (field.is_primary_key) {
+      keys.push("PK");
+    }
+    if (field.is_foreign_key) {
+      keys.push("FK");
+    }
+    if (field.is_unique && !field.is_primary_key) {
+      keys.push("UK");
+    }
+    rows.push({
+      name: field.name,
+      type: getFieldType(field),
+      keys,
+      is_required: field.is_required || field.is_primary_key,
+      description: field.description,
+    });
+  }
+
+  return rows;
+};
+
+/**
+ * Aristas de las relaciones del proyecto (sin las claves foráneas sueltas)
+ */
+const getRelationshipEdges = (diagram: DiagramData): DiagramEdge[] =>
+  diagram.edges.filter((edge) => edge.data?.origin === "relationship");
+
+/**
+ * Línea de relación con la cardinalidad de cada extremo
+ */
+const renderRelationship = (
+  edge: DiagramEdge,
+  aliases: Map<string, string>,
+  label: string
+): string => {
+  const source = edge.data?.sourceCardinality ?? "zero_or_many";
+  const target = edge.data?.targetCardinality ?? "zero_or_many";
+  return (
+    `${aliases.get(edge.source)} ${LEFT_MARKERS[source]}--` +
+    `${RIGHT_MARKERS[target]} ${aliases.get(edge.target)} : ${label}`
+  );
+};
+
+/**
+ * Etiqueta de una relación: su nombre, el de su clave foránea o, si no tiene
+ * ninguno, el de la entidad destino (como al navegarla)
+ */
+const getEdgeLabel = (edge: DiagramEdge, diagram: DiagramData): string => {
+  if (edge.label) {
+    return edge.label;
+  }
+  const target = diagram.nodes.find((node) => node.id === edge.target);
+  return target ? toLinkName(target.data.label) : "";
+};
+
+/**
+ * Diagrama erDiagram de Mermaid: cada entidad con sus campos (tipo, claves
+ * PK/FK/UK y NOT NULL en el comentario) y cada relación con su cardinalidad
+ */
+export const renderMermaidDiagram = (
+  diagram: DiagramData,
+  title: string
+): string => {
+  const aliases = getAliases(diagram.nodes);
+  const quote = (text: string): string => `"${text.replace(/"/g, "'")}"`;
+  const lines = ["---", `title: ${quote(title)}`, "---", "erDiagram"];
+
+  for (const node of diagram.nodes) {
+    const alias = aliases.get(node.id)!;
+    const header =
+      alias === node.data.label ? alias : `${alias}[${quote(node.data.label)}]`;
+    lines.push(`    ${header} {`);
+    for (const row of getRows(node)) {
+      const name = toIdentifier(row.name);
+      const comment = [
+        row.is_required ? "NOT NULL" : "",
+        name !== row.name ? row.name : "",
+        row.description?.replace(/\s+/g, " ") ?? "",
+      ]
+        .filter(Boolean)
+        .join(". ");
+      lines.push(
+        [
+          `        ${row.type} ${name}`,
+          row.keys.join(", "),
+          comment ? quote(comment) : "",
+        ]
+          .filter(Boolean)
+          .join(" ")
+      );
+    }
+    lines.push("    }");
+  }
+
+  for (const edge of getRelationshipEdges(diagram)) {
+    const label = quote(getEdgeLabel(edge, diagram));
+    lines.push(`    ${renderRelationship(edge, aliases, label)}`);
+  }
+
+  return `${lines.join("\n")}\n`;
+};
+
+/**
+ * Diagrama de entidades de PlantUML (notación IE): los campos obligatorios
+ * van marcados con *, las claves primarias sobre la línea divisoria y las
+ * claves como estereotipos <<PK>>, <<FK>> y <<UK>>
+ */
+export const renderPlantUmlDiagram = (
+  diagram: DiagramData,
+  title: string
+): string => {
+  const aliases = getAliases(diagram.nodes);
+  const lines = [
+    "@startuml",
+    `title ${title}`,
+    "hide circle",
+    "skinparam linetype ortho",
+    "",
+  ];
+
+  for (const node of diagram.nodes) {
+    const rows = getRows(node);
+    const keys = rows.filter((row) => row.keys.includes("PK"));
+    const others = rows.filter((row) => !row.keys.includes("PK"));
+    const renderRow = (row: EntityRow): string =>
+      [
+        `  ${row.is_required ? "* " : ""}${row.name} : ${row.type}`,
+        ...row.keys.map((key) => `<<${key}>>`),
+      ].join(" ");
+
+    lines.push(
+      `entity "${node.data.label.replace(/"/g, "'")}" as ` +
+        `${aliases.get(node.id)} {`,
+      ...keys.map(renderRow),
+      "  --",
+      ...others.map(renderRow),
+      "}",
+      ""
+    );
+  }
+
+  for (const edge of getRelationshipEdges(diagram)) {
+    lines.push(renderRelationship(edge, aliases, getEdgeLabel(edge, diagram)));
+  }
+
+  lines.push("@enduml");
+  return `${lines.join("\n")}\n`;
+};
+
+/**
+ * Modelo del proyecto como erDiagram de Mermaid
+ */
+export const exportProjectMermaid = async (
+  project: Project
+): Promise<string> =>
+  renderMermaidDiagram(
+    await diagramRepository.generateUMLDiagram(project.id),
+    project.name
+  );
+
+/**
+ * Modelo del proyecto como diagrama de entidades de PlantUML
+ */
+export const exportProjectPlantUml = async (
+  project: Project
+): Promise<string> =>
+  renderPlantUmlDiagram(
+    await diagramRepository.generateUMLDiagram(project.id),
+    project.name
+  );
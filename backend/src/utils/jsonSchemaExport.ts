@@ -0,0 +1,317 @@
+import { EntityRelationshipRepository } from "../repositories/entityRelationshipRepository";
+import { Entity, EntityRepository } from "../repositories/entityRepository";
+import { Field, FieldRepository } from "../repositories/fieldRepository";
+import { Project } from "../repositories/projectRepository";
+import { isDataColumn } from "./dataTables";
+import { coerceFieldValue } from "./recordValidation";
+import {
+  getEntityLinks,
+  LinkCache,
+  RelationLink,
+  toLinkName,
+} from "./relationLinks";
+
+const entityRepository = new EntityRepository();
+const relationshipRepository = new EntityRelationshipRepository();
+const fieldRepository = new FieldRepository();
+
+const FILE_TYPES = ["file", "image", "document"];
+
+export const JSON_SCHEMA_DIALECT =
+  "https://json-schema.org/draft/2020-12/schema";
+
+export type JsonSchema = Record<string, unknown>;
+
+/**
+ * Entidad con los datos necesarios para describirla como JSON Schema
+ */
+interface SchemaEntity {
+  entity: Entity;
+  fields: Field[];
+  links: RelationLink[];
+}
+
+/**
+ * Referencia JSON Pointer a la definición de una entidad en $defs. Los
+ * nombres se escapan (~0, ~1) y se codifican como fragmento de URI.
+ */
+export const toDefinitionRef = (name: string): string =>
+  `#/$defs/${encodeURIComponent(
+    name.replace(/~/g, "~0").replace(/\//g, "~1")
+  )}`;
+
+const withNull = (schema: JsonSchema): JsonSchema =>
+  typeof schema.type === "string"
+    ? { ...schema, type: [schema.type, "null"] }
+    : { anyOf: [schema, { type: "null" }] };
+
+/**
+ * Esquema del valor de un campo. Los tipos que JSON Schema no distingue
+ * (text, decimal y archivos) se indican con x-field-type.
+ */
+const getFieldSchema = (field: Field): JsonSchema => {
+  let schema: JsonSchema;
+
+  switch (field.type) {
+    case "integer":
+      schema = { type: "integer" };
+      break;
+    case "number":
+      schema = { type: "number" };
+      break;
+    case "decimal":
+      schema = { type: "number", "x-field-type": "decimal" };
+      break;
+    case "boolean":
+      schema = { type: "boolean" };
+      break;
+    case "date":
+      schema = { type: "string", format: "date" };
+      break;
+    case "text":
+      schema = { type: "string", "x-field-type": "text" };
+      break;
+    default:
+      schema = { type: "string" };
+  }
+
+  if (FILE_TYPES.includes(field.type)) {
+    // Un ID de archivo subido a /api/files o una lista de IDs
+    schema = field.accepts_multiple
+      ? { type: "array", items: { type: "string", format: "uuid" } }
+      : { type: "string", format: "uuid" };
+    schema["x-field-type"] = field.type;
+    if (field.allowed_extensions) {
+      schema["x-allowed-extensions"] = field.allowed_extensions;
+    }
+    if (field.max_file_size) {
+      schema["x-max-file-size"] = field.max_file_size;
+    }
+  }
+
+  if (field.max_length && schema.type === "string") {
+    schema.maxLength = field.max_length;
+  }
+  if (!field.is_required) {
+    schema = withNull(schema);
+  }
+
+  if (field.default_value !== undefined && field.default_value !== null) {
+    const coerced = coerceFieldValue(field, field.default_value);
+    if (coerced.ok && coerced.value !== null && coerced.value !== "") {
+      schema.default = coerced.value;
+    }
+  }
+  if (field.description) {
+    schema.description = field.description;
+  }
+  if (field.is_primary_key) {
+    schema["x-primary-key"] = true;
+  }
+  if (field.is_unique) {
+    schema["x-unique"] = true;
+  }
+
+  return schema;
+};
+
+/**
+ * Propiedad de solo lectura con los registros relacionados (los que devuelve
+ * ?include), en el extremo de origen de la relación. x-foreign-key es el
+ * campo de la entidad que guarda la referencia y x-mapped-by el de la entidad
+ * relacionada; las relaciones muchos a muchos no llevan ninguno.
+ */
+const getRelationSchema = (link: RelationLink, ref: string): JsonSchema => {
+  const { relationship } = link;
+  const schema: JsonSchema =
+    link.cardinality === "many"
+      ? { type: "array", items: { $ref: ref } }
+      : { $ref: ref };
+
+  if (link.owner === "local") {
+    schema["x-foreign-key"] = link.localColumn;
+    if (link.remoteColumn !== "id") {
+      schema["x-references"] = link.remoteColumn;
+    }
+  } else if (link.owner === "remote") {
+    schema["x-mapped-by"] = link.remoteColumn;
+    if (link.localColumn !== "id") {
+      schema["x-references"] = link.localColumn;
+    }
+  }
+  if (relationship.cascade_delete) {
+    schema["x-on-delete"] = "cascade";
+  }
+
+  if (relationship.description) {
+    schema.description = relationship.description;
+  }
+  schema.readOnly = true;
+  return schema;
+};
+
+/**
+ * Esquema de objeto de una entidad: id, campos, marcas de tiempo y las
+ * relaciones de las que es origen
+ */
+const buildEntitySchema = (
+  { entity, fields, links }: SchemaEntity,
+  getRef: (entity: Entity) => string
+): JsonSchema => {
+  const properties: Record<string, JsonSchema> = {
+    id: { type: "string", format: "uuid", readOnly: true },
+  };
+  const required: string[] = [];
+
+  for (const field of fields.filter(isDataColumn)) {
+    properties[field.name] = getFieldSchema(field);
+    if (field.is_required) {
+      required.push(field.name);
+    }
+  }
+  properties.created_at = {
+    type: "string",
+    format: "date-time",
+    readOnly: true,
+  };
+  properties.updated_at = {
+    type: "string",
+    format: "date-time",
+    readOnly: true,
+  };
+
+  for (const link of links) {
+    if (link.side !== "source" || properties[link.name]) {
+      continue;
+    }
+    properties[link.name] = getRelationSchema(link, getRef(link.entity));
+  }
+
+  return {
+    title: entity.name,
+    ...(entity.description ? { description: entity.description } : {}),
+    type: "object",
+    properties,
+    required,
+    additionalProperties: false,
+  };
+};
+
+const loadSchemaEntity = async (
+  entity: Entity,
+  cache: LinkCache
+): Promise<SchemaEntity> => ({
+  entity,
+  fields: await fieldRepository.findByEntityId(entity.id),
+  links: await getEntityLinks(entity, cache),
+});
+
+/**
+ * Avisos de las relaciones que salen de estas entidades y no se exportan
+ * porque no tienen campos de clave foránea con los que navegarse
+ */
+const getSkippedRelationships = async (
+  items: SchemaEntity[]
+): Promise<string[]> => {
+  const warnings: string[] = [];
+  for (const { entity, links } of items) {
+    for (const relationship of await relationshipRepository.findByEntityId(
+      entity.id
+    )) {
+      if (
+        relationship.source_entity_id !== entity.id ||
+        links.some((link) => link.relationship.id === relationship.id)
+      ) {
+        continue;
+      }
+      const target = await entityRepository.findById(
+        relationship.target_entity_id
+      );
+      const name =
+        relationship.name ||
+        (target ? toLinkName(target.name) : relationship.id);
+      warnings.push(
+        `Aviso: la relación ${name} de ${entity.name} no se exporta: no tiene campos de clave foránea`
+      );
+    }
+  }
+  return warnings;
+};
+
+/**
+ * Los avisos de la exportación como $comment del documento
+ */
+const withWarnings = (warnings: string[]): JsonSchema =>
+  warnings.length > 0 ? { $comment: warnings.join("\n") } : {};
+
+/**
+ * Genera un documento JSON Schema (draft 2020-12) con la definición de cada
+ * entidad del proyecto en $defs. Las relaciones se referencian entre
+ * definiciones con $ref; las que no tienen clave foránea se indican en
+ * $comment.
+ */
+export const exportProjectJsonSchema = async (
+  project: Project
+): Promise<JsonSchema> => {
+  const cache: LinkCache = new Map();
+  const defs: Record<string, JsonSchema> = {};
+  const items: SchemaEntity[] = [];
+
+  for (const entity of await entityRepository.findByProjectId(project.id)) {
+    const item = await loadSchemaEntity(entity, cache);
+    items.push(item);
+    defs[entity.name] = buildEntitySchema(item, (target) =>
+      toDefinitionRef(target.name)
+    );
+  }
+
+  return {
+    $schema: JSON_SCHEMA_DIALECT,
+    title: project.name,
+    ...(project.description ? { description: project.description } : {}),
+    ...withWarnings(await getSkippedRelationships(items)),
+    $defs: defs,
+  };
+};
+
+/**
+ * Genera el JSON Schema (draft 2020-12) de una entidad. Las entidades que
+ * alcanza a través de sus relaciones se incluyen en $defs y las relaciones
+ * sin clave foránea se indican en $comment.
+ */
+export const exportEntityJsonSchema = async (
+  entity: Entity
+): Promise<JsonSchema> => {
+  const cache: LinkCache = new Map();
+  const getRef = (target: Entity): string =>
+    target.id === entity.id ? "#" : toDefinitionRef(target.name);
+
+  const root = await loadSchemaEntity(entity, cache);
+  const related: SchemaEntity[] = [];
+  const visited = new Set([entity.id]);
+  const pending = [root];
+  while (pending.length > 0) {
+    const current = pending.shift() as SchemaEntity;
+    for (const link of current.links) {
+      if (link.side !== "source" || visited.has(link.entity.id)) {
+        continue;
+      }
+      visited.add(link.entity.id);
+      const item = await loadSchemaEntity(link.entity, cache);
+      related.push(item);
+      pending.push(item);
+    }
+  }
+
+  const schema: JsonSchema = {
+    $schema: JSON_SCHEMA_DIALECT,
+    ...withWarnings(await getSkippedRelationships([root, ...related])),
+    ...buildEntitySchema(root, getRef),
+  };
+  if (related.length > 0) {
+    schema.$defs = Object.fromEntries(
+      related.map((item) => [item.entity.name, buildEntitySchema(item, getRef)])
+    );
+  }
+  return schema;
+};
@@ -0,0 +1,563 @@
+import { SYSTEM_COLUMNS } from "./dataTables";
+import {
+  ImportedColumn,
+  ImportedForeignKey,
+  ImportedSchema,
+  ImportedTable,
+} from "./schemaImport";
+
+export class JsonSchemaImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "JsonSchemaImportError";
+  }
+}
+
+/**
+ * Documento JSON Schema a importar. El nombre (el del archivo subido) permite
+ * resolver los $ref entre documentos además de su $id.
+ */
+export interface JsonSchemaSource {
+  name?: string;
+  schema: unknown;
+}
+
+type JsonSchema = Record<string, unknown>;
+
+interface LoadedDocument {
+  name?: string;
+  id?: string;
+  root: JsonSchema;
+}
+
+/**
+ * Definición de objeto que se importa como tabla
+ */
+interface Definition {
+  table: ImportedTable;
+  schema: JsonSchema;
+  document: LoadedDocument;
+}
+
+/**
+ * Esquema de una propiedad sin los envoltorios que solo admiten null
+ * (type: [X, "null"], anyOf/oneOf con null y allOf de un elemento)
+ */
+interface Unwrapped {
+  schema: JsonSchema;
+  nullable: boolean;
+}
+
+const FIELD_TYPES = [
+  "string",
+  "text",
+  "integer",
+  "number",
+  "decimal",
+  "boolean",
+  "date",
+  "file",
+  "image",
+  "document",
+];
+
+const FILE_TYPES = ["file", "image", "document"];
+
+const DELETE_ACTIONS: ImportedForeignKey["on_delete"][] = [
+  "cascade",
+  "set_null",
+  "restrict",
+  "no_action",
+  "set_default",
+];
+
+// Límite de $ref encadenados al resolver el tipo de una propiedad
+const MAX_REF_DEPTH = 16;
+
+const isObject = (value: unknown): value is JsonSchema =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const getString = (value: unknown): string | undefined =>
+  typeof value === "string" && value.trim() !== "" ? value : undefined;
+
+const isNullSchema = (value: unknown): boolean =>
+  isObject(value) && value.type === "null";
+
+/**
+ * Si un esquema describe objetos con propiedades (una entidad)
+ */
+const isObjectSchema = (schema: unknown): schema is JsonSchema =>
+  isObject(schema) &&
+  (schema.type === "object" ||
+    (Array.isArray(schema.type) && schema.type.includes("object")) ||
+    isObject(schema.properties));
+
+/**
+ * Nombre de un documento sin ruta ni extensión (schemas/user.json -> user)
+ */
+const getBaseName = (name: string): string =>
+  (name.split(/[\\/]/).pop() as string).replace(/(\.schema)?\.json$/i, "");
+
+/**
+ * Quita de un esquema los envoltorios que solo añaden null
+ */
+const unwrap = (schema: JsonSchema): Unwrapped => {
+  let current = schema;
+  let nullable = false;
+
+  for (;;) {
+    const { allOf, anyOf, oneOf, ...rest } = current;
+    const variants = Array.isArray(anyOf)
+      ? anyOf
+      : Array.isArray(oneOf)
+      ? oneOf
+      : null;
+    if (Array.isArray(allOf) && allOf.length === 1 && isObject(allOf[0])) {
+      current = { ...allOf[0], ...rest };
+      continue;
+    }
+    if (variants && variants.some(isNullSchema)) {
+      const others = variants.filter((item) => !isNullSchema(item));
+      if (others.length === 1 && isObject(others[0])) {
+        nullable = true;
+        current = { ...others[0], ...rest };
+        continue;
+      }
+    }
+    break;
+  }
+
+  if (Array.isArray(current.type)) {
+    const types = current.type.filter((type) => type !== "null");
+    nullable = nullable || types.length < current.type.length;
+    current = { ...current, type: types.length === 1 ? types[0] : types };
+  }
+  return { schema: current, nullable };
+};
+
+/**
+ * Valor por defecto como texto (los objetos y listas, en JSON)
+ */
+const toDefaultValue = (value: unknown): string | undefined => {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  return typeof value === "object" ? JSON.stringify(value) : String(value);
+};
+
+/**
+ * Lee las definiciones de objeto de varios documentos JSON Schema: cada una
+ * de $defs (o definitions) y el esquema raíz, si describe un objeto, son
+ * una tabla. Los $ref entre definiciones son claves foráneas (uno a uno o
+ * muchos a uno), relaciones inversas (x-mapped-by) o tablas intermedias
+ * (listas de $ref), y los tipos sin equivalente se informan como avisos.
+ */
+export const parseJsonSchemaDocuments = (
+  sources: JsonSchemaSource[]
+): ImportedSchema => {
+  const warnings: string[] = [];
+  const documents: LoadedDocument[] = sources.map((source) => {
+    const label = source.name ? ` ${source.name}` : "";
+    if (!isObject(source.schema)) {
+      throw new JsonSchemaImportError(
+        `El documento${label} no es un objeto JSON Schema`
+      );
+    }
+    return {
+      name: source.name,
+      id: getString(source.schema.$id),
+      root: source.schema,
+    };
+  });
+
+  // Definiciones de objeto, indexadas por el propio esquema para reconocer
+  // las que alcanza un $ref
+  const definitions: Definition[] = [];
+  const bySchema = new Map<JsonSchema, Definition>();
+  const addDefinition = (
+    name: string,
+    schema: JsonSchema,
+    document: LoadedDocument
+  ): void => {
+    const definition: Definition = {
+      table: {
+        name,
+        description: getString(schema.description),
+        columns: [],
+        primary_key: [],
+        foreign_keys: [],
+      },
+      schema,
+      document,
+    };
+    definitions.push(definition);
+    bySchema.set(schema, definition);
+  };
+
+  for (const document of documents) {
+    const { root } = document;
+    if (isObjectSchema(root)) {
+      const name =
+        getString(root.title) ??
+        (document.name ? getBaseName(document.name) : undefined);
+      if (name) {
+        addDefinition(name, root, document);
+      } else {
+        warnings.push(
+          "El esquema raíz de un documento sin title ni nombre de archivo no se importa"
+        );
+      }
+    }
+    for (const key of ["$defs", "definitions"]) {
+      const defs = root[key];
+      if (!isObject(defs)) {
+        continue;
+      }
+      for (const [name, schema] of Object.entries(defs)) {
+        if (isObjectSchema(schema)) {
+          addDefinition(name, schema, document);
+        }
+      }
+    }
+  }
+
+  const findDocument = (base: string): LoadedDocument | undefined =>
+    documents.find((document) => document.id === base) ??
+    documents.find(
+      (document) =>
+        document.name !== undefined &&
+        getBaseName(document.name) === getBaseName(base)
+    );
+
+  /**
+   * Resuelve un $ref local (#/$defs/...), a otro documento por su $id o su
+   * nombre de archivo (user.json#/...) o a la raíz de un documento
+   */
+  const resolveRef = (
+    ref: string,
+    document: LoadedDocument
+  ): { schema: unknown; document: LoadedDocument } | null => {
+    const hash = ref.indexOf("#");
+    const base = hash === -1 ? ref : ref.slice(0, hash);
+    const fragment = hash === -1 ? "" : ref.slice(hash + 1);
+    const target = base === "" ? document : findDocument(base);
+    if (!target) {
+      return null;
+    }
+    if (fragment === "") {
+      return { schema: target.root, document: target };
+    }
+    if (!fragment.startsWith("/")) {
+      return null;
+    }
+
+    let node: unknown = target.root;
+    for (const token of fragment.slice(1).split("/")) {
+      let key: string;
+      try {
+        key = decodeURIComponent(token)
+          .replace(/~1/g, "/")
+          .replace(/~0/g, "~");
+      } catch {
+        return null;
+      }
+      node = Array.isArray(node)
+        ? node[Number(key)]
+        : isObject(node)
+        ? node[key]
+        : undefined;
+      if (node === undefined) {
+        return null;
+      }
+    }
+    return { schema: node, document: target };
+  };
+
+  /**
+   * Sustituye los $ref a esquemas que no son entidades por su contenido
+   * (las palabras clave junto al $ref tienen prioridad)
+   */
+  const inlineRefs = (
+    schema: JsonSchema,
+    document: LoadedDocument,
+    label: string
+  ): { unwrapped: Unwrapped; document: LoadedDocument } | null => {
+    let unwrapped = unwrap(schema);
+    let current = document;
+    for (let depth = 0; typeof unwrapped.schema.$ref === "string"; depth++) {
+      const { $ref, ...rest } = unwrapped.schema;
+      const resolved = resolveRef($ref as string, current);
+      if (!resolved || !isObject(resolved.schema) || depth >= MAX_REF_DEPTH) {
+        warnings.push(
+          `${label}: no se puede resolver $ref ${$ref}; se importa como string`
+        );
+        return null;
+      }
+      if (bySchema.has(resolved.schema)) {
+        break;
+      }
+      const inner = unwrap({ ...resolved.schema, ...rest });
+      unwrapped = {
+        schema: inner.schema,
+        nullable: unwrapped.nullable || inner.nullable,
+      };
+      current = resolved.document;
+    }
+    return { unwrapped, document: current };
+  };
+
+  /**
+   * Definición de entidad a la que apunta el $ref de un esquema, si la hay
+   */
+  const getReferencedDefinition = (
+    schema: JsonSchema,
+    document: LoadedDocument
+  ): Definition | undefined => {
+    if (typeof schema.$ref !== "string") {
+      return undefined;
+    }
+    const resolved = resolveRef(schema.$ref, document);
+    return resolved && isObject(resolved.schema)
+      ? bySchema.get(resolved.schema)
+      : undefined;
+  };
+
+  /**
+   * Tipo de campo de una propiedad escalar (o de la lista de archivos)
+   */
+  const getColumnType = (schema: JsonSchema, label: string): string => {
+    const declared = schema["x-field-type"];
+    if (typeof declared === "string" && FIELD_TYPES.includes(declared)) {
+      return declared;
+    }
+
+    if (Array.isArray(schema.enum) || schema.const !== undefined) {
+      warnings.push(
+        `${label}: los valores permitidos (enum/const) no se conservan`
+      );
+    }
+    switch (schema.type) {
+      case "integer":
+        return "integer";
+      case "number":
+        return "number";
+      case "boolean":
+        return "boolean";
+      case "string":
+        return schema.format === "date" || schema.format === "date-time"
+          ? "date"
+          : "string";
+      case "object":
+      case "array":
+        warnings.push(`${label}: se importa como text con el valor en JSON`);
+        return "text";
+      case undefined:
+        if (Array.isArray(schema.enum) || schema.const !== undefined) {
+          return "string";
+        }
+        warnings.push(`${label}: sin un tipo concreto; se importa como text`);
+        return "text";
+      default:
+        warnings.push(
+          `${label}: el tipo ${JSON.stringify(
+            schema.type
+          )} no tiene equivalente; se importa como text`
+        );
+        return "text";
+    }
+  };
+
+  const findColumn = (
+    table: ImportedTable,
+    name: string
+  ): ImportedColumn | undefined =>
+    table.columns.find(
+      (column) => column.name.toLowerCase() === name.toLowerCase()
+    );
+
+  /**
+   * Añade la columna de una clave foránea si el esquema no la declara
+   */
+  const ensureForeignKeyColumn = (
+    table: ImportedTable,
+    name: string,
+    isRequired: boolean
+  ): void => {
+    if (!findColumn(table, name)) {
+      table.columns.push({
+        name,
+        type: "string",
+        is_required: isRequired,
+        is_unique: false,
+      });
+    }
+  };
+
+  // Las relaciones se resuelven al final, cuando todas las tablas tienen
+  // sus columnas
+  const relations: Array<() => void> = [];
+  const junctions: ImportedTable[] = [];
+
+  for (const { table, schema, document } of definitions) {
+    const required = new Set(
+      Array.isArray(schema.required) ? schema.required : []
+    );
+    const properties = isObject(schema.properties) ? schema.properties : {};
+
+    for (const [name, value] of Object.entries(properties)) {
+      const label = `${table.name}.${name}`;
+      if (!isObject(value)) {
+        continue;
+      }
+      if (SYSTEM_COLUMNS.includes(name.toLowerCase())) {
+        continue;
+      }
+
+      const inlined = inlineRefs(value, document, label);
+      if (!inlined) {
+        table.columns.push({
+          name,
+          type: "string",
+          is_required: false,
+          is_unique: false,
+        });
+        continue;
+      }
+      const { schema: property, nullable } = inlined.unwrapped;
+      const isRequired = required.has(name) && !nullable;
+      const onDelete = DELETE_ACTIONS.find(
+        (action) => action === property["x-on-delete"]
+      );
+      const referenced = getString(property["x-references"]);
+      const mappedBy = getString(property["x-mapped-by"]);
+      const description = getString(property.description);
+
+      // $ref a otra entidad: clave foránea en esta tabla o, con x-mapped-by,
+      // en la tabla referenciada
+      const target = getReferencedDefinition(property, inlined.document);
+      if (target) {
+        relations.push(() => {
+          if (mappedBy) {
+            ensureForeignKeyColumn(target.table, mappedBy, false);
+            target.table.foreign_keys.push({
+              columns: [mappedBy],
+              table: table.name,
+              referenced_columns: referenced ? [referenced] : [],
+              on_delete: onDelete,
+              relationship: {
+                name,
+                description,
+                inverse: true,
+                one_to_one: true,
+              },
+            });
+            return;
+          }
+          const column = getString(property["x-foreign-key"]) ?? `${name}_id`;
+          ensureForeignKeyColumn(table, column, isRequired);
+          table.foreign_keys.push({
+            columns: [column],
+            table: target.table.name,
+            referenced_columns: referenced ? [referenced] : [],
+            on_delete: onDelete,
+            relationship: { name, description },
+          });
+        });
+        continue;
+      }
+
+      // Lista de $ref a otra entidad: relación uno a muchos con x-mapped-by
+      // o muchos a muchos con una tabla intermedia
+      const items =
+        property.type === "array" && isObject(property.items)
+          ? inlineRefs(property.items, inlined.document, label)
+          : null;
+      const itemTarget = items
+        ? getReferencedDefinition(items.unwrapped.schema, items.document)
+        : undefined;
+      if (itemTarget) {
+        relations.push(() => {
+          if (mappedBy) {
+            ensureForeignKeyColumn(itemTarget.table, mappedBy, false);
+            itemTarget.table.foreign_keys.push({
+              columns: [mappedBy],
+              table: table.name,
+              referenced_columns: referenced ? [referenced] : [],
+              on_delete: onDelete,
+              relationship: {
+                name,
+                description,
+                inverse: true,
+                one_to_one: false,
+              },
+            });
+            return;
+          }
+          junctions.push({
+            name: `${table.name}_${name}`,
+            description,
+            columns: ["source_id", "target_id"].map((column) => ({
+              name: column,
+              type: "string",
+              is_required: true,
+              is_unique: false,
+            })),
+            primary_key: [],
+            foreign_keys: [
+              {
+                columns: ["source_id"],
+                table: table.name,
+                referenced_columns: [],
+              },
+              {
+                columns: ["target_id"],
+                table: itemTarget.table.name,
+                referenced_columns: [],
+              },
+            ],
+          });
+        });
+        continue;
+      }
+
+      // Listas de archivos (x-field-type file, image o document)
+      const declared = property["x-field-type"];
+      const isFileList =
+        property.type === "array" &&
+        typeof declared === "string" &&
+        FILE_TYPES.includes(declared);
+      const type = getColumnType(property, label);
+      const maxLength =
+        typeof property.maxLength === "number" &&
+        (type === "string" || type === "text")
+          ? property.maxLength
+          : undefined;
+
+      table.columns.push({
+        name,
+        type,
+        max_length: maxLength,
+        is_required: isRequired,
+        is_unique: property["x-unique"] === true,
+        default_value: toDefaultValue(property.default),
+        description,
+        accepts_multiple: isFileList || undefined,
+      });
+      if (property["x-primary-key"] === true) {
+        table.primary_key.push(name);
+      }
+    }
+  }
+
+  for (const resolve of relations) {
+    resolve();
+  }
+
+  return {
+    tables: [
+      ...definitions.map((definition) => definition.table),
+      ...junctions,
+    ],
+    warnings,
+  };
+};
@@ -1,147 +1,170 @@
+import { createHash } from "crypto";
+import { DatabaseSync } from "node:sqlite";
 import { getDatabase } from "../config/database";
+import { Migration, MIGRATIONS } from "../migrations";
+
+export class MigrationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "MigrationError";
+  }
+}
 
 /**
- * Ejecuta las migraciones necesarias para actualizar la base de datos
+ * Migración registrada en la tabla _migrations
  */
-export const runMigrations = async (): Promise<void> => {
-  try {
-    const db = getDatabase();
+export interface AppliedMigration {
+  version: number;
+  name: string;
+  checksum: string;
+  applied_at: string;
+}
 
-    console.log("Ejecutando migraciones de base de datos...");
+/**
+ * Columnas que las versiones anteriores al sistema de migraciones añadían a
+ * la tabla fields al arrancar. Las bases de datos que nunca se actualizaron
+ * no las tienen, y CREATE TABLE IF NOT EXISTS no las crea.
+ */
+const LEGACY_FIELD_COLUMNS: Array<{ name: string; definition: string }> = [
+  { name: "is_primary_key", definition: "BOOLEAN DEFAULT false" },
+  { name: "is_foreign_key", definition: "BOOLEAN DEFAULT false" },
+  { name: "foreign_entity_id", definition: "TEXT" },
+  { name: "foreign_field_id", definition: "TEXT" },
+];
+
+export const getMigrationChecksum = (migration: Migration): string =>
+  createHash("sha256").update(migration.up.trim()).digest("hex");
+
+const formatMigration = (migration: { version: number; name: string }) =>
+  `${String(migration.version).padStart(3, "0")}_${migration.name}`;
+
+const tableExists = (db: DatabaseSync, table: string): boolean =>
+  db
+    .prepare("SELECT name FROM sqlite_master WHERE type = 'table' AND name = ?")
+    .get(table) !== undefined;
+
+const getAppliedMigrations = (db: DatabaseSync): AppliedMigration[] =>
+  tableExists(db, "_migrations")
+    ? (db
+        .prepare("SELECT * FROM _migrations ORDER BY version ASC")
+        .all() as unknown as AppliedMigration[])
+    : [];
 
-    // Migración 1: Agregar nuevas columnas a la tabla fields
-    try {
-      // Verificar si las columnas ya existen
-      const tableInfo = db.prepare("PRAGMA table_info(fields)").all() as any[];
-      const existingColumns = tableInfo.map((col) => col.name);
-
-      if (!existingColumns.includes("is_primary_key")) {
-        db.exec(
-          "ALTER TABLE fields ADD COLUMN is_primary_key BOOLEAN DEFAULT false"
-        );
-        console.log("✓ Agregada columna is_primary_key a la tabla fields");
-      }
-
-      if (!existingColumns.includes("is_foreign_key")) {
-        db.exec(
-          "ALTER TABLE fields ADD COLUMN is_foreign_key BOOLEAN DEFAULT false"
-        );
-        console.log("✓ Agregada columna is_foreign_key a la tabla fields");
-      }
-
-      if (!existingColumns.includes("foreign_entity_id")) {
-        db.exec("ALTER TABLE fields ADD COLUMN foreign_entity_id TEXT");
-        console.log("✓ Agregada columna foreign_entity_id a la tabla fields");
-      }
-
-      if (!existingColumns.includes("foreign_field_id")) {
-        db.exec("ALTER TABLE fields ADD COLUMN foreign_field_id TEXT");
-        console.log("✓ Agregada columna foreign_field_id a la tabla fields");
-      }
-    } catch (error) {
-      console.error("Error en migración de tabla fields:", error);
+/**
+ * Comprueba que las migraciones aplicadas son las de esta versión de la
+ * aplicación. Una migración desconocida indica que la base de datos es de
+ * una versión más reciente y un checksum distinto, que la migración cambió
+ * tras aplicarse: en ambos casos aplicar las pendientes podría dañar los
+ * datos.
+ */
+const verifyAppliedMigrations = (applied: AppliedMigration[]): void => {
+  const known = new Map(
+    MIGRATIONS.map((migration) => [migration.version, migration])
+  );
+
+  for (const row of applied) {
+    const migration = known.get(row.version);
+    if (!migration) {
+      throw new MigrationError(
+        `La base de datos tiene la migración ${formatMigration(
+          row
+        )}, que no existe en esta versión de la aplicación`
+      );
     }
-
-    // Migración 2: Crear tabla entity_relationships si no existe
-    try {
-      const createEntityRelationshipsTable = `
-        CREATE TABLE IF NOT EXISTS entity_relationships (
-          id TEXT PRIMARY KEY,
-          source_entity_id TEXT NOT NULL,
-          target_entity_id TEXT NOT NULL,
-          relationship_type TEXT NOT NULL CHECK (relationship_type IN ('one_to_one', 'one_to_many', 'many_to_one', 'many_to_many')),
-          source_field_id TEXT,
-          target_field_id TEXT,
-          name TEXT,
-          description TEXT,
-          is_required BOOLEAN DEFAULT false,
-          cascade_delete BOOLEAN DEFAULT false,
-          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-          updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-          FOREIGN KEY (source_entity_id) REFERENCES entities(id) ON DELETE CASCADE,
-          FOREIGN KEY (target_entity_id) REFERENCES entities(id) ON DELETE CASCADE,
-          FOREIGN KEY (source_field_id) REFERENCES fields(id) ON DELETE SET NULL,
-          FOREIGN KEY (target_field_id) REFERENCES fields(id) ON DELETE SET NULL,
-          UNIQUE(source_entity_id, target_entity_id, source_field_id, target_field_id)
-        )
-      `;
-
-      db.exec(createEntityRelationshipsTable);
-      console.log("✓ Tabla entity_relationships creada o verificada");
-    } catch (error) {
-      console.error("Error creando tabla entity_relationships:", error);
+    if (getMigrationChecksum(migration) !== row.checksum) {
+      throw new MigrationError(
+        `El checksum de la migración ${formatMigration(
+          row
+        )} no coincide con el de la migración aplicada`
+      );
     }
+  }
+};
 
-    // Migración 3: Crear trigger para entity_relationships si no existe
-    try {
-      const createEntityRelationshipsUpdateTrigger = `
-        CREATE TRIGGER IF NOT EXISTS update_entity_relationships_updated_at
-        AFTER UPDATE ON entity_relationships
-        FOR EACH ROW
-        BEGIN
-          UPDATE entity_relationships SET updated_at = CURRENT_TIMESTAMP WHERE id = NEW.id;
-        END
-      `;
-
-      db.exec(createEntityRelationshipsUpdateTrigger);
-      console.log("✓ Trigger para entity_relationships creado o verificado");
-    } catch (error) {
-      console.error("Error creando trigger para entity_relationships:", error);
-    }
+/**
+ * Prepara una base de datos creada antes del sistema de migraciones para que
+ * la migración inicial, que no modifica tablas existentes, la deje completa
+ */
+const adoptLegacyDatabase = (db: DatabaseSync): void => {
+  if (!tableExists(db, "fields")) {
+    return;
+  }
 
-    // Migración 4: Agregar claves foráneas a la tabla fields si no existen
-    try {
-      // Nota: SQLite no permite agregar claves foráneas a tablas existentes directamente
-      // Pero las nuevas columnas ya están configuradas para referenciar las tablas correctas
-      // cuando se crean nuevos registros
-      console.log(
-        "✓ Referencias de claves foráneas configuradas para nuevos registros"
+  const columns = (
+    db.prepare("PRAGMA table_info(fields)").all() as Array<{ name: string }>
+  ).map((column) => column.name);
+  for (const column of LEGACY_FIELD_COLUMNS) {
+    if (!columns.includes(column.name)) {
+      db.exec(
+        `ALTER TABLE fields ADD COLUMN ${column.name} ${column.definition}`
       );
-    } catch (error) {
-      console.error("Error configurando claves foráneas:", error);
+      console.log(`✓ Agregada columna ${column.name} a la tabla fields`);
     }
-
-    console.log("✅ Migraciones completadas exitosamente");
-  } catch (error) {
-    console.error("❌ Error ejecutando migraciones:", error);
-    throw error;
   }
 };
 
 /**
- * Verifica si las migraciones son necesarias
+ * Aplica en orden las migraciones pendientes. Cada una se ejecuta en una
+ * transacción junto con su registro en _migrations, de modo que si falla la
+ * base de datos queda en la última migración completa.
  */
-export const checkMigrationsNeeded = (): boolean => {
-  try {
-    const db = getDatabase();
+export const runMigrations = async (): Promise<AppliedMigration[]> => {
+  const db = getDatabase();
 
-    // Verificar si las nuevas columnas existen
-    const tableInfo = db.prepare("PRAGMA table_info(fields)").all() as any[];
-    const existingColumns = tableInfo.map((col) => col.name);
-
-    const requiredColumns = [
-      "is_primary_key",
-      "is_foreign_key",
-      "foreign_entity_id",
-      "foreign_field_id",
-    ];
-    const missingColumns = requiredColumns.filter(
-      (col) => !existingColumns.includes(col)
-    );
+  if (!tableExists(db, "_migrations")) {
+    db.exec("BEGIN");
+    try {
+      adoptLegacyDatabase(db);
+      db.exec(`
+        CREATE TABLE _migrations (
+          version INTEGER PRIMARY KEY,
+          name TEXT NOT NULL,
+          checksum TEXT NOT NULL,
+          applied_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        )
+      `);
+      db.exec("COMMIT");
+    } catch (error) {
+      db.exec("ROLLBACK");
+      throw error;
+    }
+  }
 
-    // Verificar si la tabla entity_relationships existe
-    const tables = db
-      .prepare(
-        "SELECT name FROM sqlite_master WHERE type='table' AND name='entity_relationships'"
-      )
-      .all();
-    const relationshipTableExists = tables.length > 0;
+  const applied = getAppliedMigrations(db);
+  verifyAppliedMigrations(applied);
 
-    return missingColumns.length > 0 || !relationshipTableExists;
-  } catch (error) {
-    console.error("Error verificando migraciones:", error);
-    return true; // Asumir que se necesitan migraciones si hay error
+  const appliedVersions = new Set(applied.map((row) => row.version));
+  const pending = MIGRATIONS.filter(
+    (migration) => !appliedVersions.has(migration.version)
+  ).sort((a, b) => a.version - b.version);
+
+  const insert = db.prepare(
+    "INSERT INTO _migrations (version, name, checksum) VALUES (?, ?, ?)"
+  );
+  for (const migration of pending) {
+    db.exec("BEGIN");
+    try {
+      db.exec(migration.up);
+      insert.run(
+        migration.version,
+        migration.name,
+        getMigrationChecksum(migration)
+      );
+      db.exec("COMMIT");
+      console.log(`✓ Migración ${formatMigration(migration)} aplicada`);
+    } catch (error) {
+      db.exec("ROLLBACK");
+      throw new MigrationError(
+        `Error aplicando la migración ${formatMigration(migration)}: ${
+          error instanceof Error ? error.message : error
+        }`
+      );
+    }
   }
+
+  return getAppliedMigrations(db).filter((row) =>
+    pending.some((migration) => migration.version === row.version)
+  );
 };
 
 /**
@@ -150,52 +173,31 @@ export const checkMigrationsNeeded = (): boolean => {
 export const getMigrationStatus = () => {
   try {
     const db = getDatabase();
-
-    // Verificar columnas de fields
-    const tableInfo = db.prepare("PRAGMA table_info(fields)").all() as any[];
-    const existingColumns = tableInfo.map((col) => col.name);
-
-    const requiredColumns = [
-      "is_primary_key",
-      "is_foreign_key",
-      "foreign_entity_id",
-      "foreign_field_id",
-    ];
-    const missingColumns = requiredColumns.filter(
-      (col) => !existingColumns.includes(col)
+    const applied = getAppliedMigrations(db);
+    const checksums = new Map(
+      MIGRATIONS.map((migration) => [
+        migration.version,
+        getMigrationChecksum(migration),
+      ])
     );
-    const presentColumns = requiredColumns.filter((col) =>
-      existingColumns.includes(col)
-    );
-
-    // Verificar tabla entity_relationships
-    const tables = db
-      .prepare(
-        "SELECT name FROM sqlite_master WHERE type='table' AND name='entity_relationships'"
-      )
-      .all();
-    const relationshipTableExists = tables.length > 0;
-
-    // Contar registros en entity_relationships si existe
-    let relationshipCount = 0;
-    if (relationshipTableExists) {
-      const countResult = db
-        .prepare("SELECT COUNT(*) as count FROM entity_relationships")
-        .get() as any;
-      relationshipCount = countResult.count;
-    }
+    const appliedVersions = new Set(applied.map((row) => row.version));
+    const pending = MIGRATIONS.filter(
+      (migration) => !appliedVersions.has(migration.version)
+    ).map(({ version, name }) => ({ version, name }));
 
     return {
-      fieldsTable: {
-        missingColumns,
-        presentColumns,
-        allColumnsPresent: missingColumns.length === 0,
-      },
-      entityRelationshipsTable: {
-        exists: relationshipTableExists,
-        recordCount: relationshipCount,
-      },
-      migrationsNeeded: missingColumns.length > 0 || !relationshipTableExists,
+      currentVersion:
+        applied.length > 0 ? applied[applied.length - 1].version : 0,
+      latestVersion: Math.max(
+        0,
+        ...MIGRATIONS.map((migration) => migration.version)
+      ),
+      applied: applied.map((row) => ({
+        ...row,
+        checksumValid: checksums.get(row.version) === row.checksum,
+      })),
+      pending,
+      migrationsNeeded: pending.length > 0,
     };
   } catch (error) {
     console.error("Error obteniendo estado de migraciones:", error);
@@ -0,0 +1,435 @@
+import { Entity, EntityRepository } from "../repositories/entityRepository";
+import { Field, FieldRepository } from "../repositories/fieldRepository";
+import { Project } from "../repositories/projectRepository";
+import { convertColumnValue, isDataColumn } from "./dataTables";
+import { getEntityLinks, LinkCache, RelationLink } from "./relationLinks";
+
+const entityRepository = new EntityRepository();
+const fieldRepository = new FieldRepository();
+
+const FILE_TYPES = ["file", "image", "document"];
+
+export type PrismaProvider = "postgresql" | "mysql" | "sqlite";
+
+export const PRISMA_PROVIDERS: PrismaProvider[] = [
+  "postgresql",
+  "mysql",
+  "sqlite",
+];
+
+/**
+ * Tipo escalar de Prisma y su atributo de tipo nativo (@db)
+ */
+interface PrismaType {
+  type: string;
+  native?: string;
+}
+
+/**
+ * Miembro de un modelo: un campo con su tipo, atributos y documentación
+ */
+interface ModelMember {
+  name: string;
+  type: string;
+  attributes: string[];
+  description?: string;
+}
+
+/**
+ * Entidad del proyecto con su modelo de Prisma
+ */
+interface ExportedModel {
+  entity: Entity;
+  fields: Field[];
+  links: RelationLink[];
+  /** Nombre del modelo (el de la entidad si es un identificador válido) */
+  name: string;
+  /** Nombre en el modelo de cada campo de la entidad */
+  fieldNames: Map<string, string>;
+  members: ModelMember[];
+  /** Nombres de miembro en uso, en minúsculas */
+  usedNames: Set<string>;
+}
+
+/**
+ * Convierte un nombre en un identificador de Prisma válido
+ * (precio final -> precio_final). El nombre original se conserva con @map.
+ */
+export const toPrismaName = (name: string): string => {
+  const cleaned = name.replace(/[^_0-9A-Za-z]/g, "_");
+  return /^[A-Za-z]/.test(cleaned) ? cleaned : `x${cleaned}`;
+};
+
+/**
+ * Añade un sufijo numérico al nombre hasta que no esté en uso
+ */
+const takeUniqueName = (base: string, used: Set<string>): string => {
+  let name = base;
+  for (let i = 2; used.has(name.toLowerCase()); i++) {
+    name = `${base}${i}`;
+  }
+  used.add(name.toLowerCase());
+  return name;
+};
+
+/**
+ * Literal de cadena de Prisma (mismas secuencias de escape que JSON)
+ */
+const toPrismaString = (value: string): string => JSON.stringify(value);
+
+/**
+ * Tipo de Prisma de un campo según el proveedor. En SQLite no hay tipos
+ * nativos, así que text y la longitud máxima de string no se conservan.
+ */
+const getPrismaType = (provider: PrismaProvider, field: Field): PrismaType => {
+  if (FILE_TYPES.includes(field.type)) {
+    // Un ID de archivo o una lista JSON de IDs
+    return field.accepts_multiple && provider !== "sqlite"
+      ? { type: "Json" }
+      : { type: "String" };
+  }
+
+  switch (field.type) {
+    case "string":
+      return field.max_length && provider !== "sqlite"
+        ? { type: "String", native: `@db.VarChar(${field.max_length})` }
+        : { type: "String" };
+    case "text":
+      return provider === "sqlite"
+        ? { type: "String" }
+        : { type: "String", native: "@db.Text" };
+    case "integer":
+      return { type: "Int" };
+    case "number":
+      return { type: "Float" };
+    case "decimal":
+      return { type: "Decimal" };
+    case "boolean":
+      return { type: "Boolean" };
+    case "date":
+      return { type: "DateTime" };
+    default:
+      return { type: "String" };
+  }
+};
+
+/**
+ * Atributo @default de un campo (o null si no tiene valor por defecto)
+ */
+const renderDefault = (field: Field): string | null => {
+  if (
+    field.default_value === undefined ||
+    field.default_value === null ||
+    field.default_value === "" ||
+    (FILE_TYPES.includes(field.type) && field.accepts_multiple)
+  ) {
+    return null;
+  }
+
+  const value = convertColumnValue(field.default_value, field.type);
+  if (value === undefined || value === null) {
+    return null;
+  }
+  if (field.type === "boolean") {
+    return `@default(${value === 1 ? "true" : "false"})`;
+  }
+  if (typeof value === "number" || typeof value === "bigint") {
+    return `@default(${String(value)})`;
+  }
+  return `@default(${toPrismaString(String(value))})`;
+};
+
+/**
+ * Líneas de documentación (///) de un modelo o un campo
+ */
+const renderDocumentation = (
+  description: string | undefined,
+  indent: string
+): string[] =>
+  description
+    ? description.split("\n").map((line) => `${indent}/// ${line}`.trimEnd())
+    : [];
+
+/**
+ * Modelo con sus campos alineados en columnas, como los formatea Prisma
+ */
+const renderModel = (model: ExportedModel): string[] => {
+  const nameWidth = Math.max(...model.members.map((item) => item.name.length));
+  const typeWidth = Math.max(...model.members.map((item) => item.type.length));
+  const lines = [
+    ...renderDocumentation(model.entity.description, ""),
+    `model ${model.name} {`,
+  ];
+
+  for (const member of model.members) {
+    lines.push(
+      ...renderDocumentation(member.description, "  "),
+      `  ${member.name.padEnd(nameWidth)} ${member.type.padEnd(
+        typeWidth
+      )} ${member.attributes.join(" ")}`.trimEnd()
+    );
+  }
+  if (model.name !== model.entity.name) {
+    lines.push("", `  @@map(${toPrismaString(model.entity.name)})`);
+  }
+  lines.push("}", "");
+  return lines;
+};
+
+/**
+ * Genera el schema.prisma de un proyecto: un modelo por entidad con sus
+ * campos (@id, @unique, @default y tipos nativos) y los campos de relación
+ * (@relation) de las relaciones entre entidades. Las relaciones muchos a
+ * muchos se exportan como relaciones implícitas de Prisma.
+ */
+export const exportProjectPrisma = async (
+  project: Project,
+  provider: PrismaProvider
+): Promise<string> => {
+  const cache: LinkCache = new Map();
+  const warnings: string[] = [];
+  const models: ExportedModel[] = [];
+  const modelNames = new Set<string>();
+
+  for (const entity of await entityRepository.findByProjectId(project.id)) {
+    models.push({
+      entity,
+      fields: await fieldRepository.findByEntityId(entity.id),
+      links: await getEntityLinks(entity, cache),
+      name: takeUniqueName(toPrismaName(entity.name), modelNames),
+      fieldNames: new Map([["id", "id"]]),
+      members: [],
+      usedNames: new Set(["id", "created_at", "updated_at"]),
+    });
+  }
+  const byId = new Map(models.map((model) => [model.entity.id, model]));
+
+  // Relaciones exportables y su nombre (el del vínculo desde el origen).
+  // Prisma exige que la columna referenciada sea única y que la clave
+  // foránea tenga su mismo tipo.
+  const relationNames = new Map<string, string>();
+  const excluded = new Set<string>();
+  const foreignKeyTypes = new Map<string, PrismaType>();
+  for (const model of models) {
+    for (const link of model.links) {
+      const { relationship } = link;
+      const other = byId.get(link.entity.id);
+      if (!other) {
+        excluded.add(relationship.id);
+        continue;
+      }
+      if (link.side === "source") {
+        relationNames.set(relationship.id, link.name);
+      }
+      if (link.owner !== "local") {
+        continue;
+      }
+
+      const column = model.fields.find(
+        (field) => field.name === link.localColumn && isDataColumn(field)
+      );
+      const referenced = other.fields.find(
+        (field) => field.name === link.remoteColumn
+      );
+      if (!column) {
+        excluded.add(relationship.id);
+        warnings.push(
+          `La relación ${link.name} de ${model.entity.name} no se exporta: ${link.localColumn} no es un campo de la entidad`
+        );
+        continue;
+      }
+      if (
+        link.remoteColumn !== "id" &&
+        (!referenced || (!referenced.is_unique && !referenced.is_primary_key))
+      ) {
+        excluded.add(relationship.id);
+        warnings.push(
+          `La relación ${link.name} de ${model.entity.name} no se exporta: ${other.entity.name}.${link.remoteColumn} no es único`
+        );
+        continue;
+      }
+      if (
+        relationship.relationship_type === "one_to_one" &&
+        !column.is_unique &&
+        !column.is_primary_key
+      ) {
+        warnings.push(
+          `Prisma exige que ${model.entity.name}.${column.name} sea único en la relación uno a uno ${link.name}`
+        );
+      }
+      foreignKeyTypes.set(
+        `${model.entity.id}:${column.name}`,
+        referenced && link.remoteColumn !== "id"
+          ? getPrismaType(provider, referenced)
+          : { type: "String" }
+      );
+    }
+  }
+
+  // Los nombres de relación no se repiten entre los mismos dos modelos
+  const pairNames = new Map<string, Set<string>>();
+  for (const model of models) {
+    for (const link of model.links) {
+      const { relationship } = link;
+      const name = relationNames.get(relationship.id);
+      if (link.side !== "source" || !name || excluded.has(relationship.id)) {
+        continue;
+      }
+      const pair = [
+        relationship.source_entity_id,
+        relationship.target_entity_id,
+      ]
+        .sort()
+        .join(":");
+      const used = pairNames.get(pair) || new Set<string>();
+      pairNames.set(pair, used);
+      relationNames.set(relationship.id, takeUniqueName(name, used));
+    }
+  }
+
+  // Campos escalares: id, campos de la entidad y marcas de tiempo
+  for (const model of models) {
+    const { entity } = model;
+    const dataFields = model.fields.filter(isDataColumn);
+    // El id identifica los registros; un campo clave primaria pasa a ser @id
+    const primaryKey = dataFields.find((field) => field.is_primary_key);
+    model.members.push({
+      name: "id",
+      type: "String",
+      attributes: [primaryKey ? "@unique" : "@id", "@default(uuid())"],
+    });
+
+    for (const field of dataFields) {
+      const name = takeUniqueName(toPrismaName(field.name), model.usedNames);
+      model.fieldNames.set(field.name, name);
+      const prismaType =
+        foreignKeyTypes.get(`${entity.id}:${field.name}`) ||
+        getPrismaType(provider, field);
+      const optional = !field.is_required && field !== primaryKey;
+      const unique = field.is_unique || field.is_primary_key;
+
+      if (field.is_primary_key && field !== primaryKey) {
+        warnings.push(
+          `${entity.name}.${field.name} se exporta como @unique: Prisma solo admite un campo @id`
+        );
+      }
+      if (FILE_TYPES.includes(field.type)) {
+        warnings.push(
+          `${entity.name}.${field.name} (${field.type}) se exporta como ${prismaType.type} con los IDs de los archivos`
+        );
+      } else if (
+        provider === "sqlite" &&
+        (field.type === "text" || (field.type === "string" && field.max_length))
+      ) {
+        warnings.push(
+          `${entity.name}.${field.name} se exporta como String sin tipo nativo: SQLite no conserva ${
+            field.type === "text" ? "el tipo text" : "la longitud máxima"
+          }`
+        );
+      }
+      if (
+        field.is_foreign_key &&
+        !model.links.some(
+          (link) => link.owner === "local" && link.localColumn === field.name
+        )
+      ) {
+        warnings.push(
+          `${entity.name}.${field.name} es una clave foránea sin relación; se exporta como campo simple`
+        );
+      }
+
+      model.members.push({
+        name,
+        type: `${prismaType.type}${optional ? "?" : ""}`,
+        attributes: [
+          field === primaryKey ? "@id" : unique ? "@unique" : "",
+          renderDefault(field) ?? "",
+          prismaType.native ?? "",
+          name !== field.name ? `@map(${toPrismaString(field.name)})` : "",
+        ].filter(Boolean),
+        description: field.description,
+      });
+    }
+
+    model.members.push(
+      {
+        name: "created_at",
+        type: "DateTime",
+        attributes: ["@default(now())"],
+      },
+      {
+        name: "updated_at",
+        type: "DateTime",
+        attributes: ["@default(now())", "@updatedAt"],
+      }
+    );
+  }
+
+  // Campos de relación, en los dos extremos de cada relación
+  for (const model of models) {
+    for (const link of model.links) {
+      const { relationship } = link;
+      const other = byId.get(link.entity.id);
+      const relationName = relationNames.get(relationship.id);
+      if (!other || !relationName || excluded.has(relationship.id)) {
+        continue;
+      }
+
+      const name = takeUniqueName(toPrismaName(link.name), model.usedNames);
+      const description =
+        link.side === "source" ? relationship.description : undefined;
+      const relation = toPrismaString(relationName);
+
+      if (link.owner === "local") {
+        const column = model.fields.find(
+          (field) => field.name === link.localColumn
+        );
+        const args = [
+          relation,
+          `fields: [${model.fieldNames.get(link.localColumn)}]`,
+          `references: [${other.fieldNames.get(link.remoteColumn) ?? "id"}]`,
+          relationship.cascade_delete
+            ? "onDelete: Cascade"
+            : relationship.is_required && !column?.is_required
+            ? "onDelete: Restrict"
+            : "",
+        ].filter(Boolean);
+        model.members.push({
+          name,
+          type: `${other.name}${column?.is_required ? "" : "?"}`,
+          attributes: [`@relation(${args.join(", ")})`],
+          description,
+        });
+      } else {
+        // Vínculo inverso o relación muchos a muchos implícita
+        model.members.push({
+          name,
+          type: `${other.name}${link.cardinality === "many" ? "[]" : "?"}`,
+          attributes: [`@relation(${relation})`],
+          description,
+        });
+      }
+    }
+  }
+
+  const lines = [
+    `// Esquema Prisma del proyecto ${project.name} (${provider})`,
+    "// Generado por OroyaAPI",
+    ...warnings.map((warning) => `// Aviso: ${warning}`),
+    "",
+    "generator client {",
+    '  provider = "prisma-client-js"',
+    "}",
+    "",
+    "datasource db {",
+    `  provider = "${provider}"`,
+    '  url      = env("DATABASE_URL")',
+    "}",
+    "",
+  ];
+  for (const model of models) {
+    lines.push(...renderModel(model));
+  }
+
+  return lines.join("\n");
+};
@@ -0,0 +1,806 @@
+import { toPrismaName } from "./prismaExport";
+import { fromForeignKeyName, toLinkName } from "./relationLinks";
+import {
+  ImportedColumn,
+  ImportedForeignKey,
+  ImportedRelationship,
+  ImportedSchema,
+  ImportedTable,
+} from "./schemaImport";
+
+/**
+ * Error de sintaxis en un schema.prisma, con la línea donde se produjo
+ */
+export class PrismaParseError extends Error {
+  constructor(message: string, public line: number) {
+    super(`${message} (línea ${line})`);
+    this.name = "PrismaParseError";
+  }
+}
+
+interface Token {
+  kind: "word" | "string" | "number" | "symbol" | "doc" | "newline";
+  value: string;
+  line: number;
+}
+
+type PrismaValue =
+  | { kind: "string"; value: string }
+  | { kind: "number"; value: string }
+  | { kind: "name"; value: string; args?: PrismaArgument[] }
+  | { kind: "list"; items: PrismaValue[] };
+
+interface PrismaArgument {
+  name?: string;
+  value: PrismaValue;
+}
+
+interface PrismaAttribute {
+  name: string;
+  args: PrismaArgument[];
+}
+
+interface PrismaField {
+  name: string;
+  type: string;
+  optional: boolean;
+  list: boolean;
+  attributes: PrismaAttribute[];
+  description?: string;
+}
+
+interface PrismaModel {
+  name: string;
+  description?: string;
+  fields: PrismaField[];
+  attributes: PrismaAttribute[];
+}
+
+/**
+ * Modelos y enums de un schema.prisma
+ */
+interface PrismaDocument {
+  models: PrismaModel[];
+  enums: Set<string>;
+  warnings: string[];
+}
+
+/**
+ * Campo de relación de un modelo (un extremo de una relación de Prisma)
+ */
+interface RelationEnd {
+  model: PrismaModel;
+  field: PrismaField;
+  attribute?: PrismaAttribute;
+}
+
+const WORD = /[A-Za-z_][A-Za-z0-9_]*(?:\.[A-Za-z_][A-Za-z0-9_]*)*/y;
+const NUMBER = /-?[0-9]+(?:\.[0-9]+)?/y;
+
+/**
+ * Tipos escalares de Prisma con equivalente en los tipos de campo
+ */
+const SCALAR_TYPES: Record<string, string> = {
+  String: "string",
+  Boolean: "boolean",
+  Int: "integer",
+  BigInt: "integer",
+  Float: "number",
+  Decimal: "decimal",
+  DateTime: "date",
+};
+
+/**
+ * Tipos escalares que se importan como texto, con un aviso
+ */
+const TEXT_TYPES: Record<string, string> = {
+  Json: "text",
+  Bytes: "string",
+  Unsupported: "string",
+};
+
+const TEXT_NATIVE_TYPES = ["Text", "TinyText", "MediumText", "LongText"];
+
+const DELETE_ACTIONS: Record<string, ImportedForeignKey["on_delete"]> = {
+  Cascade: "cascade",
+  SetNull: "set_null",
+  Restrict: "restrict",
+  NoAction: "no_action",
+  SetDefault: "set_default",
+};
+
+const SYSTEM_FIELDS = ["id", "created_at", "updated_at"];
+
+/**
+ * Divide un schema.prisma en tokens. Los saltos de línea separan los campos;
+ * los comentarios /// son documentación y el resto se descartan.
+ */
+const tokenize = (text: string): Token[] => {
+  const tokens: Token[] = [];
+  let line = 1;
+  let i = 0;
+
+  while (i < text.length) {
+    const char = text[i];
+
+    if (char === "\n") {
+      tokens.push({ kind: "newline", value: "\n", line });
+      line++;
+      i++;
+    } else if (/\s/.test(char)) {
+      i++;
+    } else if (char === "/" && text[i + 1] === "/") {
+      const end = text.indexOf("\n", i);
+      const comment = text.slice(i, end === -1 ? text.length : end);
+      if (comment.startsWith("///")) {
+        tokens.push({
+          kind: "doc",
+          value: comment.slice(3).replace(/^ /, "").trimEnd(),
+          line,
+        });
+      }
+      i += comment.length;
+    } else if (char === '"') {
+      let j = i + 1;
+      while (j < text.length && text[j] !== '"' && text[j] !== "\n") {
+        j += text[j] === "\\" ? 2 : 1;
+      }
+      if (text[j] !== '"') {
+        throw new PrismaParseError("Texto sin cerrar", line);
+      }
+      const raw = text.slice(i + 1, j);
+      let value: string;
+      try {
+        value = JSON.parse(`"${raw}"`);
+      } catch {
+        value = raw;
+      }
+      tokens.push({ kind: "string", value, line });
+      i = j + 1;
+    } else if (char === "@") {
+      const value = text[i + 1] === "@" ? "@@" : "@";
+      tokens.push({ kind: "symbol", value, line });
+      i += value.length;
+    } else if ("{}()[],:?=".includes(char)) {
+      tokens.push({ kind: "symbol", value: char, line });
+      i++;
+    } else {
+      NUMBER.lastIndex = i;
+      WORD.lastIndex = i;
+      const number = /[-0-9]/.test(char) ? NUMBER.exec(text) : null;
+      const word = number ? null : WORD.exec(text);
+      const match = number || word;
+      if (!match) {
+        throw new PrismaParseError(`Carácter inesperado ${char}`, line);
+      }
+      tokens.push({ kind: number ? "number" : "word", value: match[0], line });
+      i += match[0].length;
+    }
+  }
+
+  return tokens;
+};
+
+/**
+ * Lee los bloques de un schema.prisma (model, enum, datasource, generator)
+ */
+class PrismaReader {
+  private position = 0;
+  private warnings: string[] = [];
+
+  constructor(private tokens: Token[]) {}
+
+  private get line(): number {
+    const token =
+      this.tokens[Math.min(this.position, this.tokens.length - 1)];
+    return token ? token.line : 0;
+  }
+
+  private peek(offset = 0): Token | undefined {
+    return this.tokens[this.position + offset];
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.position++];
+    if (!token) {
+      throw new PrismaParseError("Fin inesperado del esquema", this.line);
+    }
+    return token;
+  }
+
+  private isSymbol(symbol: string, offset = 0): boolean {
+    const token = this.peek(offset);
+    return token?.kind === "symbol" && token.value === symbol;
+  }
+
+  private acceptSymbol(symbol: string): boolean {
+    if (this.isSymbol(symbol)) {
+      this.position++;
+      return true;
+    }
+    return false;
+  }
+
+  private expectSymbol(symbol: string): void {
+    if (!this.acceptSymbol(symbol)) {
+      throw new PrismaParseError(`Se esperaba ${symbol}`, this.line);
+    }
+  }
+
+  private expectWord(description: string): string {
+    const token = this.next();
+    if (token.kind !== "word") {
+      throw new PrismaParseError(`Se esperaba ${description}`, token.line);
+    }
+    return token.value;
+  }
+
+  private skipNewlines(): void {
+    while (this.peek()?.kind === "newline") {
+      this.position++;
+    }
+  }
+
+  /** Cada campo o atributo de bloque ocupa su propia línea */
+  private expectEndOfLine(): void {
+    if (this.peek() && this.peek()?.kind !== "newline" && !this.isSymbol("}")) {
+      throw new PrismaParseError("Se esperaba un salto de línea", this.line);
+    }
+  }
+
+  parse(): PrismaDocument {
+    const document: PrismaDocument = {
+      models: [],
+      enums: new Set(),
+      warnings: this.warnings,
+    };
+    let docs: string[] = [];
+
+    while (this.peek()) {
+      const token = this.next();
+      if (token.kind === "newline") {
+        continue;
+      }
+      if (token.kind === "doc") {
+        docs.push(token.value);
+        continue;
+      }
+      if (token.kind !== "word") {
+        throw new PrismaParseError(
+          "Se esperaba model, enum, datasource o generator",
+          token.line
+        );
+      }
+
+      const name = this.expectWord(`el nombre del bloque ${token.value}`);
+      switch (token.value) {
+        case "model":
+          document.models.push(this.readModel(name, docs));
+          break;
+        case "enum":
+          document.enums.add(name);
+          this.skipBlock();
+          break;
+        case "datasource":
+        case "generator":
+          this.skipBlock();
+          break;
+        case "type":
+        case "view":
+          this.warnings.push(
+            `El bloque ${token.value} ${name} no se importa`
+          );
+          this.skipBlock();
+          break;
+        default:
+          throw new PrismaParseError(
+            `Bloque ${token.value} no reconocido`,
+            token.line
+          );
+      }
+      docs = [];
+    }
+
+    return document;
+  }
+
+  private skipBlock(): void {
+    this.expectSymbol("{");
+    let depth = 1;
+    while (depth > 0) {
+      const token = this.next();
+      if (token.kind === "symbol" && token.value === "{") {
+        depth++;
+      } else if (token.kind === "symbol" && token.value === "}") {
+        depth--;
+      }
+    }
+  }
+
+  private readModel(name: string, docs: string[]): PrismaModel {
+    const model: PrismaModel = {
+      name,
+      description: docs.join("\n") || undefined,
+      fields: [],
+      attributes: [],
+    };
+    this.expectSymbol("{");
+    let fieldDocs: string[] = [];
+
+    for (;;) {
+      this.skipNewlines();
+      const token = this.next();
+      if (token.kind === "symbol" && token.value === "}") {
+        break;
+      }
+      if (token.kind === "doc") {
+        fieldDocs.push(token.value);
+        continue;
+      }
+      if (token.kind === "symbol" && token.value === "@@") {
+        model.attributes.push(this.readAttribute());
+        this.expectEndOfLine();
+        continue;
+      }
+      if (token.kind !== "word") {
+        throw new PrismaParseError(
+          `Se esperaba un campo del modelo ${name}`,
+          token.line
+        );
+      }
+
+      const field: PrismaField = {
+        name: token.value,
+        type: this.expectWord(`el tipo del campo ${token.value}`),
+        optional: false,
+        list: false,
+        attributes: [],
+      };
+      // Unsupported("tipo")
+      if (this.isSymbol("(")) {
+        this.readArguments();
+      }
+      if (this.acceptSymbol("[")) {
+        this.expectSymbol("]");
+        field.list = true;
+      }
+      field.optional = this.acceptSymbol("?");
+      while (this.acceptSymbol("@")) {
+        field.attributes.push(this.readAttribute());
+      }
+      // Documentación al final de la línea
+      if (this.peek()?.kind === "doc") {
+        fieldDocs.push(this.next().value);
+      }
+      this.expectEndOfLine();
+
+      field.description = fieldDocs.join("\n") || undefined;
+      fieldDocs = [];
+      model.fields.push(field);
+    }
+
+    return model;
+  }
+
+  private readAttribute(): PrismaAttribute {
+    const name = this.expectWord("el nombre del atributo");
+    return {
+      name,
+      args: this.isSymbol("(") ? this.readArguments() : [],
+    };
+  }
+
+  private readArguments(): PrismaArgument[] {
+    this.expectSymbol("(");
+    const args: PrismaArgument[] = [];
+    for (;;) {
+      this.skipNewlines();
+      if (this.acceptSymbol(")")) {
+        return args;
+      }
+      const named =
+        this.peek()?.kind === "word" && this.isSymbol(":", 1)
+          ? this.next().value
+          : undefined;
+      if (named) {
+        this.next();
+      }
+      args.push({ name: named, value: this.readValue() });
+      this.skipNewlines();
+      if (!this.acceptSymbol(",")) {
+        this.expectSymbol(")");
+        return args;
+      }
+    }
+  }
+
+  private readValue(): PrismaValue {
+    this.skipNewlines();
+    const token = this.next();
+    if (token.kind === "string" || token.kind === "number") {
+      return { kind: token.kind, value: token.value };
+    }
+    if (token.kind === "word") {
+      return {
+        kind: "name",
+        value: token.value,
+        args: this.isSymbol("(") ? this.readArguments() : undefined,
+      };
+    }
+    if (token.kind === "symbol" && token.value === "[") {
+      const items: PrismaValue[] = [];
+      for (;;) {
+        this.skipNewlines();
+        if (this.acceptSymbol("]")) {
+          return { kind: "list", items };
+        }
+        items.push(this.readValue());
+        this.skipNewlines();
+        if (!this.acceptSymbol(",")) {
+          this.expectSymbol("]");
+          return { kind: "list", items };
+        }
+      }
+    }
+    throw new PrismaParseError("Valor no válido", token.line);
+  }
+}
+
+const findAttribute = (
+  attributes: PrismaAttribute[],
+  name: string
+): PrismaAttribute | undefined =>
+  attributes.find((attribute) => attribute.name === name);
+
+/**
+ * Argumento de un atributo por nombre o por posición (el primero sin nombre)
+ */
+const getArgument = (
+  attribute: PrismaAttribute | undefined,
+  name: string
+): PrismaValue | undefined =>
+  attribute?.args.find((arg) => arg.name === name)?.value ??
+  attribute?.args.find((arg) => !arg.name)?.value;
+
+const getString = (value: PrismaValue | undefined): string | undefined =>
+  value?.kind === "string" ? value.value : undefined;
+
+const getNames = (value: PrismaValue | undefined): string[] =>
+  value?.kind === "list"
+    ? value.items.map((item) => (item.kind === "name" ? item.value : ""))
+    : [];
+
+/**
+ * Nombre en la base de datos de un modelo o un campo (@@map / @map)
+ */
+const getModelName = (model: PrismaModel): string =>
+  getString(getArgument(findAttribute(model.attributes, "map"), "name")) ??
+  model.name;
+
+const getFieldName = (field: PrismaField): string =>
+  getString(getArgument(findAttribute(field.attributes, "map"), "name")) ??
+  field.name;
+
+/**
+ * Nombre de una relación de Prisma (@relation("nombre") o name:)
+ */
+const getRelationName = (attribute?: PrismaAttribute): string | undefined =>
+  getString(getArgument(attribute, "name"));
+
+/**
+ * Indica si un campo de relación lleva el nombre de su relación, lo que
+ * identifica el extremo de origen de la relación exportada
+ */
+const isNamedAfter = (field: PrismaField, relation?: string): boolean =>
+  !!relation &&
+  (field.name === relation || field.name === toPrismaName(relation));
+
+/**
+ * Convierte los modelos de un schema.prisma en tablas importables. Las
+ * relaciones con fields/references son claves foráneas (con el nombre, la
+ * descripción y la cardinalidad de la relación) y las relaciones muchos a
+ * muchos implícitas, tablas intermedias.
+ */
+const buildSchema = (document: PrismaDocument): ImportedSchema => {
+  const warnings = document.warnings;
+  let ignoredIndexes = 0;
+  const models = document.models.filter((model) => {
+    if (findAttribute(model.attributes, "ignore")) {
+      warnings.push(`El modelo ${model.name} tiene @@ignore; no se importa`);
+      return false;
+    }
+    return true;
+  });
+  const byName = new Map(models.map((model) => [model.name, model]));
+  const warnedEnums = new Set<string>();
+
+  // Extremos de cada relación, agrupados por nombre y par de modelos
+  const relations = new Map<string, RelationEnd[]>();
+  const getRelationKey = (end: RelationEnd): string =>
+    `${getRelationName(end.attribute) ?? ""}|${[end.model.name, end.field.type]
+      .sort()
+      .join("|")}`;
+  for (const model of models) {
+    for (const field of model.fields) {
+      if (!byName.has(field.type)) {
+        continue;
+      }
+      const end = {
+        model,
+        field,
+        attribute: findAttribute(field.attributes, "relation"),
+      };
+      const key = getRelationKey(end);
+      relations.set(key, [...(relations.get(key) || []), end]);
+    }
+  }
+  const getPartner = (end: RelationEnd): RelationEnd | undefined =>
+    relations
+      .get(getRelationKey(end))
+      ?.find((other) => other.field !== end.field);
+
+  const tables: ImportedTable[] = [];
+  for (const model of models) {
+    const table: ImportedTable = {
+      name: getModelName(model),
+      description: model.description,
+      columns: [],
+      primary_key: [],
+      foreign_keys: [],
+    };
+    const columnNames = new Map(
+      model.fields.map((field) => [field.name, getFieldName(field)])
+    );
+
+    for (const field of model.fields) {
+      const name = getFieldName(field);
+      const location = `${model.name}.${field.name}`;
+      if (byName.has(field.type)) {
+        continue;
+      }
+      if (findAttribute(field.attributes, "ignore")) {
+        warnings.push(`El campo ${location} tiene @ignore; no se importa`);
+        continue;
+      }
+
+      let type = SCALAR_TYPES[field.type] ?? TEXT_TYPES[field.type];
+      if (document.enums.has(field.type)) {
+        type = "string";
+        if (!warnedEnums.has(field.type)) {
+          warnedEnums.add(field.type);
+          warnings.push(`El enum ${field.type} se importa como string`);
+        }
+      } else if (!type) {
+        warnings.push(
+          `El tipo ${field.type} de ${location} no se reconoce; no se importa`
+        );
+        continue;
+      } else if (TEXT_TYPES[field.type]) {
+        warnings.push(
+          `Tipo ${field.type} de ${location} sin equivalente; se importa como ${type}`
+        );
+      }
+      if (field.list) {
+        type = "text";
+        warnings.push(
+          `${location} es una lista (${field.type}[]); se importa como text`
+        );
+      }
+
+      const column: ImportedColumn = {
+        name,
+        type,
+        is_required: !field.optional && !field.list,
+        is_unique: !!findAttribute(field.attributes, "unique"),
+        description: field.description,
+      };
+
+      // Tipos nativos: longitud de VARCHAR/CHAR y textos largos
+      const native = field.attributes.find((attribute) =>
+        attribute.name.startsWith("db.")
+      );
+      const nativeType = native?.name.slice(3);
+      const size = native?.args[0]?.value;
+      if (type === "string" && TEXT_NATIVE_TYPES.includes(nativeType ?? "")) {
+        column.type = "text";
+      } else if (
+        type === "string" &&
+        (nativeType === "VarChar" || nativeType === "Char") &&
+        size?.kind === "number"
+      ) {
+        column.max_length = parseInt(size.value, 10);
+      }
+
+      if (findAttribute(field.attributes, "id")) {
+        table.primary_key = [name];
+      }
+
+      const defaultValue = getArgument(
+        findAttribute(field.attributes, "default"),
+        "value"
+      );
+      if (defaultValue?.kind === "string" || defaultValue?.kind === "number") {
+        column.default_value = defaultValue.value;
+      } else if (defaultValue?.kind === "name" && !defaultValue.args) {
+        // true/false o un valor del enum
+        column.default_value = defaultValue.value;
+      } else if (defaultValue && !SYSTEM_FIELDS.includes(name)) {
+        warnings.push(
+          `El valor por defecto de ${location} (${
+            defaultValue.kind === "name" ? `${defaultValue.value}()` : "lista"
+          }) no se importa`
+        );
+      }
+      if (
+        findAttribute(field.attributes, "updatedAt") &&
+        !SYSTEM_FIELDS.includes(name)
+      ) {
+        warnings.push(`@updatedAt de ${location} no se importa`);
+      }
+
+      table.columns.push(column);
+    }
+
+    for (const attribute of model.attributes) {
+      const columns = getNames(getArgument(attribute, "fields")).map(
+        (column) => columnNames.get(column) ?? column
+      );
+      switch (attribute.name) {
+        case "map":
+          break;
+        case "id":
+          table.primary_key = columns;
+          break;
+        case "unique":
+          if (columns.length === 1) {
+            const column = table.columns.find(
+              (item) => item.name === columns[0]
+            );
+            if (column) {
+              column.is_unique = true;
+            }
+          } else {
+            warnings.push(
+              `La restricción única compuesta de ${model.name} (${columns.join(
+                ", "
+              )}) no se importa`
+            );
+          }
+          break;
+        case "index":
+          ignoredIndexes++;
+          break;
+        default:
+          warnings.push(
+            `El atributo @@${attribute.name} de ${model.name} no se importa`
+          );
+      }
+    }
+
+    // Claves foráneas de las relaciones que este modelo almacena
+    for (const field of model.fields) {
+      const target = byName.get(field.type);
+      const attribute = findAttribute(field.attributes, "relation");
+      const fields = getNames(getArgument(attribute, "fields"));
+      if (!target || !attribute || fields.length === 0) {
+        continue;
+      }
+      if (field.list) {
+        warnings.push(
+          `La relación ${model.name}.${field.name} es una lista con fields; no se importa`
+        );
+        continue;
+      }
+
+      const targetColumns = new Map(
+        target.fields.map((item) => [item.name, getFieldName(item)])
+      );
+      const columns = fields.map((column) => columnNames.get(column) ?? column);
+      const end = { model, field, attribute };
+      const partner = getPartner(end);
+      const relation = getRelationName(attribute);
+      // El extremo con el nombre de la relación es el origen
+      const inverse =
+        !!partner &&
+        !isNamedAfter(field, relation) &&
+        isNamedAfter(partner.field, relation);
+      const source = inverse && partner ? partner.field : field;
+      const name = isNamedAfter(source, relation)
+        ? (relation as string)
+        : source.name;
+      const defaultName = inverse
+        ? toLinkName(table.name)
+        : fromForeignKeyName(columns[0]) || toLinkName(getModelName(target));
+
+      const onDelete = getArgument(attribute, "onDelete");
+      const relationship: ImportedRelationship = {
+        name: name !== defaultName ? name : undefined,
+        description: source.description,
+        // Restrict marca como obligatoria la relación de un campo opcional
+        is_required:
+          !field.optional ||
+          (onDelete?.kind === "name" && onDelete.value === "Restrict"),
+        one_to_one: partner ? !partner.field.list : undefined,
+        inverse,
+      };
+      table.foreign_keys.push({
+        columns,
+        table: getModelName(target),
+        referenced_columns: getNames(getArgument(attribute, "references")).map(
+          (column) => targetColumns.get(column) ?? column
+        ),
+        on_delete:
+          onDelete?.kind === "name"
+            ? DELETE_ACTIONS[onDelete.value]
+            : undefined,
+        relationship,
+      });
+    }
+
+    tables.push(table);
+  }
+
+  // Relaciones muchos a muchos implícitas: una tabla intermedia por relación
+  for (const ends of relations.values()) {
+    const [first, second] = ends;
+    if (
+      ends.length !== 2 ||
+      !first.field.list ||
+      !second.field.list ||
+      getNames(getArgument(first.attribute, "fields")).length > 0 ||
+      getNames(getArgument(second.attribute, "fields")).length > 0
+    ) {
+      continue;
+    }
+    const relation = getRelationName(first.attribute);
+    const [source, target] =
+      !isNamedAfter(first.field, relation) &&
+      isNamedAfter(second.field, relation)
+        ? [second, first]
+        : [first, second];
+    const name = isNamedAfter(source.field, relation)
+      ? (relation as string)
+      : source.field.name;
+    const sourceTable = getModelName(source.model);
+
+    tables.push({
+      name: `${sourceTable}_${name}`,
+      description: source.field.description,
+      columns: ["source_id", "target_id"].map((column) => ({
+        name: column,
+        type: "string",
+        is_required: true,
+        is_unique: false,
+      })),
+      primary_key: [],
+      foreign_keys: [
+        { columns: ["source_id"], table: sourceTable, referenced_columns: [] },
+        {
+          columns: ["target_id"],
+          table: getModelName(target.model),
+          referenced_columns: [],
+        },
+      ],
+    });
+  }
+
+  if (ignoredIndexes > 0) {
+    warnings.push(
+      ignoredIndexes === 1
+        ? "Se ignoró 1 atributo @@index"
+        : `Se ignoraron ${ignoredIndexes} atributos @@index`
+    );
+  }
+
+  return { tables, warnings };
+};
+
+/**
+ * Lee los modelos de un schema.prisma: un modelo por tabla con sus campos
+ * escalares (@id, @unique, @default, @map y tipos nativos @db) y las
+ * relaciones (@relation) como claves foráneas o tablas intermedias.
+ * Enums, tipos no soportados y atributos sin equivalente se informan
+ * como avisos.
+ */
+export const parsePrismaSchema = (text: string): ImportedSchema =>
+  buildSchema(new PrismaReader(tokenize(text)).parse());
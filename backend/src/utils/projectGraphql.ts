@@ -0,0 +1,863 @@
+import { createHash } from "crypto";
+import {
+  FieldNode,
+  GraphQLBoolean,
+  GraphQLError,
+  GraphQLFieldConfigArgumentMap,
+  GraphQLFieldConfigMap,
+  GraphQLFloat,
+  GraphQLID,
+  GraphQLInputFieldConfigMap,
+  GraphQLInputObjectType,
+  GraphQLInt,
+  GraphQLList,
+  GraphQLNonNull,
+  GraphQLNullableType,
+  GraphQLObjectType,
+  GraphQLOutputType,
+  GraphQLResolveInfo,
+  GraphQLScalarType,
+  GraphQLSchema,
+  GraphQLString,
+  Kind,
+  SelectionNode,
+} from "graphql";
+import { EntityRepository } from "../repositories/entityRepository";
+import { Field, FieldRepository } from "../repositories/fieldRepository";
+import { FileRepository } from "../repositories/fileRepository";
+import { Project } from "../repositories/projectRepository";
+import {
+  DataRecord,
+  getRecordQueryColumns,
+  RecordRepository,
+  RecordTarget,
+  RecordValues,
+} from "../repositories/recordRepository";
+import { isConstraintViolation, isDataColumn } from "./dataTables";
+import { toPascalCase } from "./projectOpenApi";
+import {
+  OPERATORS_BY_TYPE,
+  parseListQuery,
+  QueryColumns,
+  QueryColumnType,
+  QueryLanguageError,
+} from "./queryLanguage";
+import {
+  expandIncludes,
+  IncludeError,
+  IncludeTree,
+  MAX_INCLUDE_DEPTH,
+} from "./recordIncludes";
+import {
+  compileRecordValidator,
+  RecordValidationOptions,
+} from "./recordValidation";
+import {
+  applyDeletionPlan,
+  checkRecordRelationships,
+  describeBlockingImpact,
+  planRecordDeletion,
+} from "./referentialIntegrity";
+import { getEntityLinks, LinkCache, RelationLink } from "./relationLinks";
+import { generateUUID } from "./uuid";
+
+const entityRepository = new EntityRepository();
+const fieldRepository = new FieldRepository();
+const fileRepository = new FileRepository();
+const recordRepository = new RecordRepository();
+
+const FILE_TYPES = ["file", "image", "document"];
+
+/**
+ * Nombres de tipo usados por el esquema, que no pueden tomar las entidades
+ */
+const RESERVED_TYPE_NAMES = [
+  "Query",
+  "Mutation",
+  "String",
+  "Int",
+  "Float",
+  "Boolean",
+  "ID",
+  "PageInput",
+  "StringFilter",
+  "NumberFilter",
+  "BooleanFilter",
+  "DateFilter",
+];
+
+/**
+ * Campo GraphQL de un registro y la columna de la tabla de datos que expone
+ */
+interface GraphqlColumn {
+  name: string;
+  column: string;
+  /** Campo de la entidad (no existe en id, created_at y updated_at) */
+  field?: Field;
+}
+
+/**
+ * Entidad del proyecto expuesta como tipo GraphQL
+ */
+interface GraphqlEntity {
+  target: RecordTarget;
+  links: RelationLink[];
+  /** Nombre del tipo (OrderItem) y de su consulta por ID (orderItem) */
+  typeName: string;
+  queryName: string;
+  columns: GraphqlColumn[];
+  /** Campos GraphQL que navegan las relaciones de la entidad */
+  relations: Map<string, RelationLink>;
+}
+
+/**
+ * Modelo del proyecto indexado por ID de entidad
+ */
+type GraphqlModel = Map<string, GraphqlEntity>;
+
+type ResolverArgs = Record<string, unknown>;
+
+/**
+ * Esquemas ya generados por proyecto, junto con la huella del modelo del
+ * que salieron. Se regeneran en cuanto cambian entidades, campos o relaciones.
+ */
+const schemaCache = new Map<
+  string,
+  { fingerprint: string; schema: GraphQLSchema }
+>();
+
+/**
+ * Convierte un nombre en un identificador GraphQL válido (precio final -> precio_final)
+ */
+const toGraphqlName = (name: string): string => {
+  const cleaned = name.replace(/[^_0-9A-Za-z]/g, "_").replace(/^__+/, "_");
+  return cleaned === "" || /^[0-9]/.test(cleaned) ? `_${cleaned}` : cleaned;
+};
+
+/**
+ * Añade un sufijo numérico al nombre hasta que no esté en uso
+ */
+const takeUniqueName = (base: string, used: Set<string>): string => {
+  let name = base;
+  for (let i = 2; used.has(name); i++) {
+    name = `${base}${i}`;
+  }
+  used.add(name);
+  return name;
+};
+
+const listOf = <T extends GraphQLNullableType>(type: T) =>
+  new GraphQLList(new GraphQLNonNull(type));
+
+/**
+ * Tipo GraphQL del valor de un campo
+ */
+const getFieldType = (
+  field: Field
+): GraphQLScalarType | GraphQLList<GraphQLNonNull<GraphQLScalarType>> => {
+  if (FILE_TYPES.includes(field.type) && field.accepts_multiple) {
+    return listOf(GraphQLString);
+  }
+
+  switch (field.type) {
+    case "integer":
+      return GraphQLInt;
+    case "number":
+    case "decimal":
+      return GraphQLFloat;
+    case "boolean":
+      return GraphQLBoolean;
+    default:
+      // Texto, fechas ISO 8601 e IDs de archivo
+      return GraphQLString;
+  }
+};
+
+const FILTER_SCALARS: Record<QueryColumnType, GraphQLScalarType> = {
+  string: GraphQLString,
+  number: GraphQLFloat,
+  boolean: GraphQLBoolean,
+  date: GraphQLString,
+};
+
+/**
+ * Operadores de filtro por tipo de columna, los mismos que ?filter
+ */
+const FILTER_INPUTS = Object.fromEntries(
+  (Object.keys(FILTER_SCALARS) as QueryColumnType[]).map((type) => {
+    const scalar = FILTER_SCALARS[type];
+    const fields: GraphQLInputFieldConfigMap = {};
+    for (const operator of OPERATORS_BY_TYPE[type]) {
+      fields[operator] = {
+        type:
+          operator === "in" || operator === "nin"
+            ? listOf(scalar)
+            : operator === "is_null"
+            ? GraphQLBoolean
+            : scalar,
+      };
+    }
+    return [
+      type,
+      new GraphQLInputObjectType({
+        name: `${toPascalCase(type)}Filter`,
+        description: `Operadores de filtro para columnas de tipo ${type}`,
+        fields,
+      }),
+    ];
+  })
+) as Record<QueryColumnType, GraphQLInputObjectType>;
+
+const PAGE_INPUT = new GraphQLInputObjectType({
+  name: "PageInput",
+  description:
+    "Paginación por número de página o por cursor (no ambos), como page",
+  fields: {
+    size: { type: GraphQLInt },
+    number: { type: GraphQLInt },
+    cursor: { type: GraphQLString },
+  },
+});
+
+/**
+ * Sufijos de los tipos derivados de cada entidad (OrderItemFilter...)
+ */
+const TYPE_SUFFIXES = ["", "Filter", "Input", "Patch", "Page"];
+
+/**
+ * Nombre de la consulta por ID de un tipo (OrderItem -> orderItem)
+ */
+const toQueryName = (typeName: string): string =>
+  typeName.charAt(0).toLowerCase() + typeName.slice(1);
+
+/**
+ * Indica si un nombre de tipo choca con otro tipo o con una consulta existente
+ */
+const isTaken = (
+  typeName: string,
+  usedTypes: Set<string>,
+  usedRoots: Set<string>
+): boolean =>
+  TYPE_SUFFIXES.some((suffix) => usedTypes.has(`${typeName}${suffix}`)) ||
+  usedRoots.has(toQueryName(typeName)) ||
+  usedRoots.has(`${toQueryName(typeName)}List`);
+
+/**
+ * Carga las entidades del proyecto y asigna nombres GraphQL únicos a sus
+ * tipos, campos y relaciones
+ */
+const loadModel = async (project: Project): Promise<GraphqlModel> => {
+  const entities = await entityRepository.findByProjectId(project.id);
+  const cache: LinkCache = new Map();
+  const usedTypes = new Set(RESERVED_TYPE_NAMES);
+  const usedRoots = new Set(["_entities"]);
+  const model: GraphqlModel = new Map();
+
+  for (const entity of entities) {
+    // El tipo, sus derivados y sus consultas deben ser únicos
+    const base = toPascalCase(entity.name);
+    let typeName = base;
+    for (let i = 2; isTaken(typeName, usedTypes, usedRoots); i++) {
+      typeName = `${base}${i}`;
+    }
+    TYPE_SUFFIXES.forEach((suffix) => usedTypes.add(`${typeName}${suffix}`));
+    const queryName = toQueryName(typeName);
+    usedRoots.add(queryName);
+    usedRoots.add(`${queryName}List`);
+
+    const fields = await fieldRepository.findByEntityId(entity.id);
+    // and y or agrupan condiciones en los filtros
+    const usedFields = new Set(["and", "or"]);
+    const columns: GraphqlColumn[] = [
+      ...["id", "created_at", "updated_at"].map((name) => ({
+        name: takeUniqueName(name, usedFields),
+        column: name,
+      })),
+      ...fields.filter(isDataColumn).map((field) => ({
+        name: takeUniqueName(toGraphqlName(field.name), usedFields),
+        column: field.name,
+        field,
+      })),
+    ];
+
+    model.set(entity.id, {
+      target: { entity, fields },
+      links: await getEntityLinks(entity, cache),
+      typeName,
+      queryName,
+      columns,
+      relations: new Map(),
+    });
+  }
+
+  // Las relaciones se nombran cuando todas las entidades tienen tipo
+  for (const item of model.values()) {
+    const usedFields = new Set([
+      "and",
+      "or",
+      ...item.columns.map((column) => column.name),
+    ]);
+    for (const link of item.links) {
+      const clashes = item.columns.some(
+        (column) => column.column === link.name
+      );
+      if (!model.has(link.entity.id) || clashes) {
+        continue;
+      }
+      item.relations.set(
+        takeUniqueName(toGraphqlName(link.name), usedFields),
+        link
+      );
+    }
+  }
+
+  return model;
+};
+
+/**
+ * Huella del modelo: cambia al modificar entidades, campos o relaciones
+ */
+const getModelFingerprint = (model: GraphqlModel): string =>
+  createHash("sha1")
+    .update(
+      JSON.stringify(
+        Array.from(model.values()).map((item) => ({
+          entity: item.target.entity,
+          fields: item.target.fields,
+          links: item.links.map((link) => ({
+            name: link.name,
+            relationship: link.relationship,
+            entity: link.entity.id,
+            cardinality: link.cardinality,
+            localColumn: link.localColumn,
+            remoteColumn: link.remoteColumn,
+          })),
+        }))
+      )
+    )
+    .digest("hex");
+
+/**
+ * Aplana los campos de una selección, resolviendo fragmentos
+ */
+const flattenFields = (
+  selections: readonly SelectionNode[],
+  info: GraphQLResolveInfo
+): FieldNode[] =>
+  selections.flatMap((selection) => {
+    switch (selection.kind) {
+      case Kind.FIELD:
+        return [selection];
+      case Kind.INLINE_FRAGMENT:
+        return flattenFields(selection.selectionSet.selections, info);
+      default: {
+        const fragment = info.fragments[selection.name.value];
+        return fragment
+          ? flattenFields(fragment.selectionSet.selections, info)
+          : [];
+      }
+    }
+  });
+
+/**
+ * Campos seleccionados dentro de los nodos indicados
+ */
+const getChildFields = (
+  nodes: readonly FieldNode[],
+  info: GraphQLResolveInfo
+): FieldNode[] =>
+  flattenFields(
+    nodes.flatMap((node) => node.selectionSet?.selections ?? []),
+    info
+  );
+
+/**
+ * Traduce las relaciones seleccionadas en la consulta al árbol de ?include,
+ * de modo que se resuelvan por lotes en lugar de registro a registro
+ */
+const collectIncludes = (
+  model: GraphqlModel,
+  item: GraphqlEntity,
+  nodes: FieldNode[],
+  info: GraphQLResolveInfo,
+  depth = 1
+): IncludeTree => {
+  const selected = new Map<RelationLink, FieldNode[]>();
+  for (const node of nodes) {
+    const link = item.relations.get(node.name.value);
+    if (link) {
+      selected.set(link, [...(selected.get(link) || []), node]);
+    }
+  }
+
+  const tree: IncludeTree = {};
+  for (const [link, linkNodes] of selected) {
+    if (depth > MAX_INCLUDE_DEPTH) {
+      throw new IncludeError(
+        `La consulta supera la profundidad máxima de relaciones (${MAX_INCLUDE_DEPTH})`
+      );
+    }
+    tree[link.name] = collectIncludes(
+      model,
+      model.get(link.entity.id) as GraphqlEntity,
+      getChildFields(linkNodes, info),
+      info,
+      depth + 1
+    );
+  }
+  return tree;
+};
+
+/**
+ * Incrusta en los registros las relaciones seleccionadas en la consulta
+ */
+const expandSelection = async (
+  model: GraphqlModel,
+  item: GraphqlEntity,
+  records: DataRecord[],
+  nodes: FieldNode[],
+  info: GraphQLResolveInfo
+): Promise<void> => {
+  const cache: LinkCache = new Map(
+    Array.from(model.values()).map((entry) => [
+      entry.target.entity.id,
+      { ...entry.target },
+    ])
+  );
+  await expandIncludes(
+    item.target,
+    records,
+    collectIncludes(model, item, nodes, info),
+    cache
+  );
+};
+
+/**
+ * Convierte los errores conocidos en errores GraphQL con código
+ */
+const toGraphqlError = (error: unknown): unknown => {
+  if (error instanceof QueryLanguageError || error instanceof IncludeError) {
+    return new GraphQLError(error.message, {
+      extensions: { code: "BAD_USER_INPUT" },
+    });
+  }
+  if (isConstraintViolation(error)) {
+    return new GraphQLError(
+      `El registro viola una restricción de la entidad: ${
+        (error as Error).message
+      }`,
+      { extensions: { code: "CONFLICT" } }
+    );
+  }
+  return error;
+};
+
+/**
+ * Envuelve un resolver para traducir sus errores
+ */
+const resolver =
+  (
+    resolve: (args: ResolverArgs, info: GraphQLResolveInfo) => Promise<unknown>
+  ) =>
+  async (
+    _source: unknown,
+    args: ResolverArgs,
+    _context: unknown,
+    info: GraphQLResolveInfo
+  ): Promise<unknown> => {
+    try {
+      return await resolve(args, info);
+    } catch (error) {
+      throw toGraphqlError(error);
+    }
+  };
+
+const notFound = (): GraphQLError =>
+  new GraphQLError("Registro no encontrado", {
+    extensions: { code: "NOT_FOUND" },
+  });
+
+/**
+ * Convierte el filtro GraphQL al formato de ?filter (valores como texto)
+ */
+const toQueryFilter = (
+  item: GraphqlEntity,
+  filter: ResolverArgs
+): Record<string, unknown> => {
+  const node: Record<string, unknown> = {};
+
+  for (const [key, value] of Object.entries(filter)) {
+    if (value === null || value === undefined) {
+      continue;
+    }
+    if (key === "and" || key === "or") {
+      node[key] = (value as ResolverArgs[]).map((group) =>
+        toQueryFilter(item, group)
+      );
+      continue;
+    }
+
+    const column = item.columns.find((c) => c.name === key);
+    const conditions: Record<string, unknown> = {};
+    for (const [operator, raw] of Object.entries(value as ResolverArgs)) {
+      if (raw !== null && raw !== undefined) {
+        conditions[operator] = Array.isArray(raw)
+          ? raw.map(String)
+          : String(raw);
+      }
+    }
+    node[column ? column.column : key] = conditions;
+  }
+
+  return node;
+};
+
+/**
+ * Convierte los datos de una mutación a valores indexados por nombre de campo
+ */
+const toRecordValues = (
+  item: GraphqlEntity,
+  data: unknown
+): RecordValues => {
+  const values: RecordValues = {};
+  for (const [key, value] of Object.entries((data as ResolverArgs) || {})) {
+    const column = item.columns.find((c) => c.name === key);
+    values[column ? column.column : key] = value;
+  }
+  return values;
+};
+
+/**
+ * Valida los datos de una mutación con las reglas de la API de registros
+ */
+const validateData = async (
+  item: GraphqlEntity,
+  data: unknown,
+  options: RecordValidationOptions
+): Promise<RecordValues> => {
+  const { target } = item;
+  const validator = compileRecordValidator(target.fields, {
+    isValueTaken: (field, value, excludeId) =>
+      recordRepository.isValueTaken(target, field, value, excludeId),
+    findFiles: (ids) => fileRepository.findByIds(ids),
+    checkRelationships: (values) => checkRecordRelationships(target, values),
+  });
+  const result = await validator(toRecordValues(item, data), options);
+
+  if (!result.valid) {
+    throw new GraphQLError("Los datos del registro no son válidos", {
+      extensions: { code: "BAD_USER_INPUT", errors: result.errors },
+    });
+  }
+  return result.values;
+};
+
+/**
+ * Tipo de objeto de una entidad, con sus campos y relaciones
+ */
+const buildObjectType = (
+  item: GraphqlEntity,
+  types: Map<string, GraphQLObjectType>
+): GraphQLObjectType =>
+  new GraphQLObjectType<DataRecord>({
+    name: item.typeName,
+    description:
+      item.target.entity.description ||
+      `Registro de ${item.target.entity.name}`,
+    fields: () => {
+      const fields: GraphQLFieldConfigMap<DataRecord, unknown> = {};
+
+      for (const { name, column, field } of item.columns) {
+        let type: GraphQLOutputType;
+        if (!field) {
+          // id, created_at y updated_at siempre tienen valor
+          type = new GraphQLNonNull(
+            column === "id" ? GraphQLID : GraphQLString
+          );
+        } else {
+          type = field.is_required
+            ? new GraphQLNonNull(getFieldType(field))
+            : getFieldType(field);
+        }
+        fields[name] = {
+          type,
+          description: field?.description || undefined,
+          resolve: (record) => record[column],
+        };
+      }
+
+      for (const [name, link] of item.relations) {
+        const related = types.get(link.entity.id) as GraphQLObjectType;
+        fields[name] = {
+          type:
+            link.cardinality === "many"
+              ? new GraphQLNonNull(listOf(related))
+              : related,
+          description:
+            link.cardinality === "many"
+              ? `Registros de ${link.entity.name} relacionados`
+              : `Registro de ${link.entity.name} relacionado`,
+          resolve: (record) =>
+            record[link.name] ?? (link.cardinality === "many" ? [] : null),
+        };
+      }
+
+      return fields;
+    },
+  });
+
+/**
+ * Genera el esquema GraphQL del proyecto a partir de su modelo
+ */
+const buildSchema = (model: GraphqlModel): GraphQLSchema => {
+  const types = new Map<string, GraphQLObjectType>();
+  for (const item of model.values()) {
+    types.set(item.target.entity.id, buildObjectType(item, types));
+  }
+
+  const queryFields: GraphQLFieldConfigMap<unknown, unknown> = {
+    _entities: {
+      type: new GraphQLNonNull(listOf(GraphQLString)),
+      description: "Nombres de las entidades del proyecto",
+      resolve: () =>
+        Array.from(model.values()).map((item) => item.target.entity.name),
+    },
+  };
+  const mutationFields: GraphQLFieldConfigMap<unknown, unknown> = {};
+
+  for (const item of model.values()) {
+    const { target, typeName, queryName } = item;
+    const type = types.get(target.entity.id) as GraphQLObjectType;
+    const entityName = target.entity.name;
+    const queryColumns: QueryColumns = getRecordQueryColumns(target.fields);
+    const dataColumns = item.columns.filter((column) => column.field);
+
+    const filterType: GraphQLInputObjectType = new GraphQLInputObjectType({
+      name: `${typeName}Filter`,
+      description: `Condiciones sobre los registros de ${entityName} (se combinan con AND)`,
+      fields: () => {
+        const fields: GraphQLInputFieldConfigMap = {};
+        for (const { name, column } of item.columns) {
+          fields[name] = { type: FILTER_INPUTS[queryColumns[column]] };
+        }
+        fields.and = { type: listOf(filterType) };
+        fields.or = { type: listOf(filterType) };
+        return fields;
+      },
+    });
+
+    const pageType = new GraphQLObjectType({
+      name: `${typeName}Page`,
+      description: `Página de registros de ${entityName}`,
+      fields: {
+        items: { type: new GraphQLNonNull(listOf(type)) },
+        total: { type: new GraphQLNonNull(GraphQLInt) },
+        size: { type: GraphQLInt },
+        number: { type: GraphQLInt },
+        next_cursor: { type: GraphQLString },
+      },
+    });
+
+    queryFields[queryName] = {
+      type,
+      description: `Obtener un registro de ${entityName} por ID`,
+      args: { id: { type: new GraphQLNonNull(GraphQLID) } },
+      resolve: resolver(async (args, info) => {
+        const record = await recordRepository.findById(
+          target,
+          args.id as string
+        );
+        if (!record) {
+          return null;
+        }
+        const nodes = getChildFields(info.fieldNodes, info);
+        await expandSelection(model, item, [record], nodes, info);
+        return record;
+      }),
+    };
+
+    queryFields[`${queryName}List`] = {
+      type: new GraphQLNonNull(pageType),
+      description: `Listar registros de ${entityName}`,
+      args: {
+        filter: { type: filterType },
+        sort: {
+          type: GraphQLString,
+          description:
+            "Columnas separadas por comas, con - para orden descendente (ej. -created_at,name)",
+        },
+        page: { type: PAGE_INPUT },
+      },
+      resolve: resolver(async (args, info) => {
+        const page = (args.page as ResolverArgs | null) || {};
+        const listQuery = parseListQuery(
+          {
+            filter: args.filter
+              ? toQueryFilter(item, args.filter as ResolverArgs)
+              : undefined,
+            sort: (args.sort as string | null) ?? undefined,
+            page: Object.fromEntries(
+              Object.entries(page)
+                .filter(([, value]) => value !== null && value !== undefined)
+                .map(([key, value]) => [key, String(value)])
+            ),
+          } as Parameters<typeof parseListQuery>[0],
+          {
+            columns: queryColumns,
+            defaultSort: "-created_at",
+            defaultPageSize: 50,
+          }
+        );
+
+        const result = await recordRepository.findPage(target, listQuery);
+        const nodes = getChildFields(
+          getChildFields(info.fieldNodes, info).filter(
+            (node) => node.name.value === "items"
+          ),
+          info
+        );
+        await expandSelection(model, item, result.items, nodes, info);
+        return result;
+      }),
+    };
+
+    const dataArgs = (
+      inputType: GraphQLInputObjectType | null
+    ): GraphQLFieldConfigArgumentMap =>
+      inputType ? { data: { type: new GraphQLNonNull(inputType) } } : {};
+    const inputFields = (partial: boolean): GraphQLInputFieldConfigMap =>
+      Object.fromEntries(
+        dataColumns.map(({ name, field }) => {
+          const fieldType = getFieldType(field as Field);
+          const required =
+            !partial &&
+            field?.is_required &&
+            (field.default_value === null || field.default_value === undefined);
+          return [
+            name,
+            {
+              type: required ? new GraphQLNonNull(fieldType) : fieldType,
+              description: field?.description || undefined,
+            },
+          ];
+        })
+      );
+
+    // Los tipos de entrada no pueden estar vacíos
+    const inputType =
+      dataColumns.length > 0
+        ? new GraphQLInputObjectType({
+            name: `${typeName}Input`,
+            description: `Datos para crear un registro de ${entityName}`,
+            fields: inputFields(false),
+          })
+        : null;
+    const patchType =
+      dataColumns.length > 0
+        ? new GraphQLInputObjectType({
+            name: `${typeName}Patch`,
+            description: `Campos a modificar de un registro de ${entityName}`,
+            fields: inputFields(true),
+          })
+        : null;
+
+    mutationFields[`create${typeName}`] = {
+      type: new GraphQLNonNull(type),
+      description: `Crear un registro de ${entityName}`,
+      args: dataArgs(inputType),
+      resolve: resolver(async (args, info) => {
+        // Los campos no enviados toman su valor por defecto
+        const values = await validateData(item, args.data, {
+          fillDefaults: true,
+        });
+        const record = await recordRepository.create(
+          target,
+          generateUUID(),
+          values
+        );
+        const nodes = getChildFields(info.fieldNodes, info);
+        await expandSelection(model, item, [record], nodes, info);
+        return record;
+      }),
+    };
+
+    mutationFields[`update${typeName}`] = {
+      type: new GraphQLNonNull(type),
+      description: `Modificar los campos enviados de un registro de ${entityName}`,
+      args: {
+        id: { type: new GraphQLNonNull(GraphQLID) },
+        ...dataArgs(patchType),
+      },
+      resolve: resolver(async (args, info) => {
+        const id = args.id as string;
+        if (!(await recordRepository.findById(target, id))) {
+          throw notFound();
+        }
+        const values = await validateData(item, args.data, {
+          partial: true,
+          recordId: id,
+        });
+        const record = await recordRepository.update(target, id, values);
+        if (!record) {
+          throw notFound();
+        }
+        const nodes = getChildFields(info.fieldNodes, info);
+        await expandSelection(model, item, [record], nodes, info);
+        return record;
+      }),
+    };
+
+    mutationFields[`delete${typeName}`] = {
+      type: new GraphQLNonNull(GraphQLID),
+      description: `Eliminar un registro de ${entityName}. Devuelve su ID.`,
+      args: { id: { type: new GraphQLNonNull(GraphQLID) } },
+      resolve: resolver(async (args) => {
+        const record = await recordRepository.findById(
+          target,
+          args.id as string
+        );
+        if (!record) {
+          throw notFound();
+        }
+
+        // Los registros dependientes se eliminan, se desvinculan o impiden la eliminación
+        const plan = await planRecordDeletion(target, [record.id]);
+        if (plan.blocking.length > 0) {
+          throw new GraphQLError(describeBlockingImpact(plan.blocking[0]), {
+            extensions: { code: "CONFLICT", relationships: plan.blocking },
+          });
+        }
+        applyDeletionPlan(plan);
+        return record.id;
+      }),
+    };
+  }
+
+  return new GraphQLSchema({
+    query: new GraphQLObjectType({ name: "Query", fields: queryFields }),
+    mutation:
+      Object.keys(mutationFields).length > 0
+        ? new GraphQLObjectType({ name: "Mutation", fields: mutationFields })
+        : undefined,
+  });
+};
+
+/**
+ * Obtiene el esquema GraphQL de un proyecto a partir de sus entidades, campos
+ * y relaciones. Se reutiliza mientras el modelo no cambie.
+ */
+export const getProjectGraphqlSchema = async (
+  project: Project
+): Promise<GraphQLSchema> => {
+  const model = await loadModel(project);
+  const fingerprint = getModelFingerprint(model);
+
+  const cached = schemaCache.get(project.id);
+  if (cached && cached.fingerprint === fingerprint) {
+    return cached.schema;
+  }
+
+  const schema = buildSchema(model);
+  schemaCache.set(project.id, { fingerprint, schema });
+  return schema;
+};
@@ -0,0 +1,668 @@
+import { Entity, EntityRepository } from "../repositories/entityRepository";
+import { Field, FieldRepository } from "../repositories/fieldRepository";
+import { Project } from "../repositories/projectRepository";
+import { isDataColumn } from "./dataTables";
+import { MAX_INCLUDE_DEPTH } from "./recordIncludes";
+import { coerceFieldValue } from "./recordValidation";
+import { getEntityLinks, LinkCache, RelationLink } from "./relationLinks";
+
+const entityRepository = new EntityRepository();
+const fieldRepository = new FieldRepository();
+
+const FILE_TYPES = ["file", "image", "document"];
+
+type JsonSchema = Record<string, unknown>;
+
+/**
+ * Documento OpenAPI 3.1 de la API de registros de un proyecto
+ */
+export interface OpenApiDocument {
+  openapi: string;
+  info: Record<string, unknown>;
+  servers: Array<{ url: string; description?: string }>;
+  tags: Array<{ name: string; description?: string }>;
+  paths: Record<string, Record<string, unknown>>;
+  components: Record<string, Record<string, unknown>>;
+}
+
+/**
+ * Entidad del proyecto con los datos necesarios para documentarla
+ */
+interface DocumentedEntity {
+  entity: Entity;
+  fields: Field[];
+  links: RelationLink[];
+  /** Nombre del esquema en components.schemas */
+  schemaName: string;
+}
+
+/**
+ * Convierte un nombre en un identificador PascalCase válido para components
+ * (Order item -> OrderItem)
+ */
+export const toPascalCase = (name: string): string => {
+  const pascal = name
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map((part) => part.charAt(0).toUpperCase() + part.slice(1))
+    .join("");
+  return /^[0-9]/.test(pascal) ? `_${pascal}` : pascal || "Entity";
+};
+
+const ref = (schema: string): JsonSchema => ({
+  $ref: `#/components/schemas/${schema}`,
+});
+
+const jsonContent = (schema: JsonSchema): JsonSchema => ({
+  "application/json": { schema },
+});
+
+const errorResponse = (description: string, schema = "Error"): JsonSchema => ({
+  description,
+  content: jsonContent(ref(schema)),
+});
+
+/**
+ * Obtiene el esquema JSON del valor de un campo
+ */
+const getFieldSchema = (
+  field: Field,
+  entities: DocumentedEntity[]
+): JsonSchema => {
+  let schema: JsonSchema;
+
+  switch (field.type) {
+    case "integer":
+      schema = { type: "integer" };
+      break;
+    case "number":
+    case "decimal":
+      schema = { type: "number" };
+      break;
+    case "boolean":
+      schema = { type: "boolean" };
+      break;
+    case "date":
+      schema = { type: "string", format: "date-time" };
+      break;
+    default:
+      schema = { type: "string" };
+  }
+
+  if (FILE_TYPES.includes(field.type)) {
+    schema = field.accepts_multiple
+      ? {
+          type: "array",
+          items: { type: "string", format: "uuid" },
+          description: "IDs de archivos subidos a /api/files",
+        }
+      : {
+          type: "string",
+          format: "uuid",
+          description: "ID de un archivo subido a /api/files",
+        };
+  }
+
+  if (field.max_length && schema.type === "string") {
+    schema.maxLength = field.max_length;
+  }
+
+  const notes: string[] = [];
+  if (field.description) {
+    notes.push(field.description);
+  }
+  if (field.is_foreign_key && field.foreign_entity_id) {
+    const referenced = entities.find(
+      (item) => item.entity.id === field.foreign_entity_id
+    );
+    if (referenced) {
+      const column =
+        referenced.fields.find((f) => f.id === field.foreign_field_id)?.name ||
+        "id";
+      notes.push(`Referencia a ${referenced.entity.name}.${column}`);
+    }
+  }
+  if (field.is_unique || field.is_primary_key) {
+    notes.push("Valor único");
+  }
+  if (notes.length > 0) {
+    schema.description = [schema.description, ...notes]
+      .filter(Boolean)
+      .join(". ");
+  }
+
+  if (field.default_value !== null && field.default_value !== undefined) {
+    const coerced = coerceFieldValue(field, field.default_value);
+    if (coerced.ok) {
+      schema.default = coerced.value;
+    }
+  }
+
+  return schema;
+};
+
+/**
+ * Permite null en un esquema (OpenAPI 3.1 usa listas de tipos, no nullable)
+ */
+const withNull = (schema: JsonSchema): JsonSchema =>
+  typeof schema.type === "string"
+    ? { ...schema, type: [schema.type, "null"] }
+    : { anyOf: [schema, { type: "null" }] };
+
+/**
+ * Esquemas de lectura, creación y actualización parcial de una entidad
+ */
+const buildEntitySchemas = (
+  documented: DocumentedEntity,
+  entities: DocumentedEntity[]
+): Record<string, JsonSchema> => {
+  const { entity, fields, links, schemaName } = documented;
+  const dataFields = fields.filter(isDataColumn);
+
+  const recordProperties: Record<string, JsonSchema> = {
+    id: { type: "string", format: "uuid", readOnly: true },
+    created_at: { type: "string", readOnly: true },
+    updated_at: { type: "string", readOnly: true },
+  };
+  const inputProperties: Record<string, JsonSchema> = {};
+
+  for (const field of dataFields) {
+    const schema = getFieldSchema(field, entities);
+    recordProperties[field.name] = field.is_required ? schema : withNull(schema);
+    inputProperties[field.name] = field.is_required ? schema : withNull(schema);
+  }
+
+  // Relaciones que se pueden incrustar con ?include
+  for (const link of links) {
+    const related = entities.find((item) => item.entity.id === link.entity.id);
+    if (!related || recordProperties[link.name]) {
+      continue;
+    }
+    recordProperties[link.name] = {
+      ...(link.cardinality === "many"
+        ? { type: "array", items: ref(related.schemaName) }
+        : { anyOf: [ref(related.schemaName), { type: "null" }] }),
+      description: `Solo presente con ?include=${link.name}`,
+    };
+  }
+
+  return {
+    [schemaName]: {
+      type: "object",
+      description: entity.description || `Registro de ${entity.name}`,
+      properties: recordProperties,
+      required: [
+        "id",
+        "created_at",
+        "updated_at",
+        ...dataFields.filter((f) => f.is_required).map((f) => f.name),
+      ],
+    },
+    [`${schemaName}Input`]: {
+      type: "object",
+      description: `Datos para crear o reemplazar un registro de ${entity.name}`,
+      properties: inputProperties,
+      required: dataFields
+        .filter(
+          (f) =>
+            f.is_required &&
+            (f.default_value === null || f.default_value === undefined)
+        )
+        .map((f) => f.name),
+      additionalProperties: false,
+    },
+    [`${schemaName}Patch`]: {
+      type: "object",
+      description: `Campos a modificar de un registro de ${entity.name}`,
+      properties: inputProperties,
+      additionalProperties: false,
+    },
+  };
+};
+
+const recordIdParameter: JsonSchema = {
+  in: "path",
+  name: "recordId",
+  required: true,
+  schema: { type: "string", format: "uuid" },
+  description: "ID del registro",
+};
+
+const includeParameter = (links: RelationLink[]): JsonSchema => ({
+  in: "query",
+  name: "include",
+  schema: { type: "string" },
+  description: `Relaciones a incrustar separadas por comas, con notación de punto para anidarlas (profundidad máxima ${MAX_INCLUDE_DEPTH}). Disponibles: ${
+    links.map((link) => link.name).join(", ") || "ninguna"
+  }`,
+});
+
+/**
+ * Rutas de registros de una entidad
+ */
+const buildEntityPaths = (
+  documented: DocumentedEntity
+): Record<string, Record<string, unknown>> => {
+  const { entity, links, schemaName } = documented;
+  const base = `/data/${encodeURIComponent(entity.name)}`;
+  const tags = [entity.name];
+  const paths: Record<string, Record<string, unknown>> = {};
+
+  paths[base] = {
+    get: {
+      tags,
+      operationId: `list${schemaName}`,
+      summary: `Listar registros de ${entity.name}`,
+      parameters: [
+        { $ref: "#/components/parameters/ListFilter" },
+        { $ref: "#/components/parameters/ListSort" },
+        { $ref: "#/components/parameters/PageSize" },
+        { $ref: "#/components/parameters/PageNumber" },
+        { $ref: "#/components/parameters/PageCursor" },
+        includeParameter(links),
+      ],
+      responses: {
+        200: {
+          description: `Registros de ${entity.name}`,
+          headers: {
+            "X-Total-Count": { $ref: "#/components/headers/X-Total-Count" },
+            "X-Page-Size": { $ref: "#/components/headers/X-Page-Size" },
+            "X-Page-Number": { $ref: "#/components/headers/X-Page-Number" },
+            "X-Next-Cursor": { $ref: "#/components/headers/X-Next-Cursor" },
+          },
+          content: jsonContent({ type: "array", items: ref(schemaName) }),
+        },
+        400: errorResponse(
+          "Filtro, ordenación, paginación o include inválidos"
+        ),
+      },
+    },
+    post: {
+      tags,
+      operationId: `create${schemaName}`,
+      summary: `Crear un registro de ${entity.name}`,
+      requestBody: {
+        required: true,
+        content: jsonContent(ref(`${schemaName}Input`)),
+      },
+      responses: {
+        201: {
+          description: "Registro creado",
+          content: jsonContent(ref(schemaName)),
+        },
+        400: errorResponse("Datos inválidos", "ValidationError"),
+        409: errorResponse("El registro viola una restricción de la entidad"),
+      },
+    },
+  };
+
+  paths[`${base}/validate`] = {
+    post: {
+      tags,
+      operationId: `validate${schemaName}`,
+      summary: `Validar datos de ${entity.name} sin guardarlos`,
+      parameters: [
+        {
+          in: "query",
+          name: "recordId",
+          schema: { type: "string", format: "uuid" },
+          description: "Registro que se está editando",
+        },
+        {
+          in: "query",
+          name: "partial",
+          schema: { type: "boolean" },
+          description: "Valida solo los campos enviados",
+        },
+      ],
+      requestBody: {
+        required: true,
+        content: jsonContent(ref(`${schemaName}Patch`)),
+      },
+      responses: {
+        200: {
+          description: "Resultado de la validación",
+          content: jsonContent(ref("ValidationResult")),
+        },
+      },
+    },
+  };
+
+  paths[`${base}/{recordId}`] = {
+    parameters: [recordIdParameter],
+    get: {
+      tags,
+      operationId: `get${schemaName}`,
+      summary: `Obtener un registro de ${entity.name}`,
+      parameters: [includeParameter(links)],
+      responses: {
+        200: {
+          description: "Registro encontrado",
+          content: jsonContent(ref(schemaName)),
+        },
+        400: errorResponse("include inválido"),
+        404: errorResponse("Registro no encontrado"),
+      },
+    },
+    put: {
+      tags,
+      operationId: `replace${schemaName}`,
+      summary: `Reemplazar un registro de ${entity.name}`,
+      requestBody: {
+        required: true,
+        content: jsonContent(ref(`${schemaName}Input`)),
+      },
+      responses: {
+        200: {
+          description: "Registro actualizado",
+          content: jsonContent(ref(schemaName)),
+        },
+        400: errorResponse("Datos inválidos", "ValidationError"),
+        404: errorResponse("Registro no encontrado"),
+        409: errorResponse("El registro viola una restricción de la entidad"),
+      },
+    },
+    patch: {
+      tags,
+      operationId: `update${schemaName}`,
+      summary: `Modificar campos de un registro de ${entity.name}`,
+      requestBody: {
+        required: true,
+        content: jsonContent(ref(`${schemaName}Patch`)),
+      },
+      responses: {
+        200: {
+          description: "Registro actualizado",
+          content: jsonContent(ref(schemaName)),
+        },
+        400: errorResponse("Datos inválidos", "ValidationError"),
+        404: errorResponse("Registro no encontrado"),
+        409: errorResponse("El registro viola una restricción de la entidad"),
+      },
+    },
+    delete: {
+      tags,
+      operationId: `delete${schemaName}`,
+      summary: `Eliminar un registro de ${entity.name}`,
+      description:
+        "Los registros dependientes se eliminan, se desvinculan o quedan en null según cada relación; las relaciones requeridas impiden la eliminación",
+      responses: {
+        204: { description: "Registro eliminado" },
+        404: errorResponse("Registro no encontrado"),
+        409: errorResponse(
+          "Una relación requerida tiene registros dependientes",
+          "RelationshipConflict"
+        ),
+      },
+    },
+  };
+
+  // Vínculos de las relaciones muchos a muchos
+  for (const link of links.filter((item) => item.junction)) {
+    const linkName = toPascalCase(link.name);
+    paths[`${base}/{recordId}/relations/${encodeURIComponent(link.name)}`] = {
+      parameters: [recordIdParameter],
+      post: {
+        tags,
+        operationId: `link${schemaName}${linkName}`,
+        summary: `Vincular registros de ${link.entity.name} (${link.name})`,
+        requestBody: {
+          required: true,
+          content: jsonContent(ref("LinkRequest")),
+        },
+        responses: {
+          200: {
+            description: "Registros vinculados",
+            content: jsonContent(ref("LinkResult")),
+          },
+          400: errorResponse("IDs inválidos"),
+          404: errorResponse("Registro o registros relacionados no encontrados"),
+        },
+      },
+      delete: {
+        tags,
+        operationId: `unlink${schemaName}${linkName}`,
+        summary: `Desvincular registros de ${link.entity.name} (${link.name})`,
+        requestBody: {
+          required: true,
+          content: jsonContent(ref("LinkRequest")),
+        },
+        responses: {
+          200: {
+            description: "Registros desvinculados",
+            content: jsonContent(ref("UnlinkResult")),
+          },
+          400: errorResponse("IDs inválidos"),
+          404: errorResponse("Registro no encontrado"),
+        },
+      },
+    };
+  }
+
+  return paths;
+};
+
+/**
+ * Componentes compartidos por todas las entidades
+ */
+const buildCommonComponents = (): Record<string, Record<string, unknown>> => ({
+  schemas: {
+    Error: {
+      type: "object",
+      properties: {
+        error: { type: "string" },
+        message: { type: "string" },
+      },
+    },
+    FieldValidationError: {
+      type: "object",
+      properties: {
+        field: { type: "string" },
+        code: {
+          type: "string",
+          enum: [
+            "unknown_field",
+            "required",
+            "invalid_type",
+            "max_length",
+            "unique",
+            "file_not_found",
+            "file_extension",
+            "file_size",
+            "relationship_required",
+            "relationship_not_found",
+          ],
+        },
+        message: { type: "string" },
+        relationship: { type: "string" },
+      },
+      required: ["field", "code", "message"],
+    },
+    ValidationError: {
+      type: "object",
+      properties: {
+        error: { type: "string" },
+        message: { type: "string" },
+        errors: { type: "array", items: ref("FieldValidationError") },
+      },
+    },
+    ValidationResult: {
+      type: "object",
+      properties: {
+        valid: { type: "boolean" },
+        values: { type: "object", additionalProperties: true },
+        errors: { type: "array", items: ref("FieldValidationError") },
+      },
+      required: ["valid", "values", "errors"],
+    },
+    RelationshipImpact: {
+      type: "object",
+      properties: {
+        relationship_id: { type: "string", format: "uuid" },
+        relationship: { type: "string" },
+        relationship_type: {
+          type: "string",
+          enum: ["one_to_one", "one_to_many", "many_to_one", "many_to_many"],
+        },
+        entity: { type: "string" },
+        entity_id: { type: "string", format: "uuid" },
+        column: { type: ["string", "null"] },
+        action: {
+          type: "string",
+          enum: ["cascade", "restrict", "set_null", "unlink", "none"],
+        },
+        affected_rows: { type: "integer" },
+      },
+    },
+    RelationshipConflict: {
+      type: "object",
+      properties: {
+        error: { type: "string" },
+        message: { type: "string" },
+        relationship: ref("RelationshipImpact"),
+        relationships: { type: "array", items: ref("RelationshipImpact") },
+      },
+    },
+    LinkRequest: {
+      type: "object",
+      properties: {
+        ids: {
+          type: "array",
+          items: { type: "string", format: "uuid" },
+          minItems: 1,
+        },
+        id: { type: "string", format: "uuid" },
+      },
+    },
+    LinkResult: {
+      type: "object",
+      properties: {
+        success: { type: "boolean" },
+        relation: { type: "string" },
+        linked: { type: "integer" },
+      },
+    },
+    UnlinkResult: {
+      type: "object",
+      properties: {
+        success: { type: "boolean" },
+        relation: { type: "string" },
+        unlinked: { type: "integer" },
+      },
+    },
+  },
+  parameters: {
+    ListFilter: {
+      in: "query",
+      name: "filter",
+      style: "deepObject",
+      explode: true,
+      schema: { type: "object", additionalProperties: true },
+      description:
+        "Filtros por columna: filter[columna][operador]=valor (eq, ne, gt, gte, lt, lte, contains, starts_with, ends_with, in, nin, is_null). filter[or][0][...] y filter[and][0][...] agrupan condiciones",
+    },
+    ListSort: {
+      in: "query",
+      name: "sort",
+      schema: { type: "string" },
+      description:
+        "Columnas de ordenación separadas por comas; el prefijo - indica orden descendente",
+    },
+    PageSize: {
+      in: "query",
+      name: "page[size]",
+      schema: { type: "integer", minimum: 1, maximum: 500, default: 50 },
+    },
+    PageNumber: {
+      in: "query",
+      name: "page[number]",
+      schema: { type: "integer", minimum: 1 },
+    },
+    PageCursor: {
+      in: "query",
+      name: "page[cursor]",
+      schema: { type: "string" },
+      description: "Cursor devuelto en X-Next-Cursor",
+    },
+  },
+  headers: {
+    "X-Total-Count": {
+      description: "Total de registros que cumplen el filtro",
+      schema: { type: "integer" },
+    },
+    "X-Page-Size": {
+      description: "Tamaño de página aplicado",
+      schema: { type: "integer" },
+    },
+    "X-Page-Number": {
+      description: "Número de página devuelto",
+      schema: { type: "integer" },
+    },
+    "X-Next-Cursor": {
+      description: "Cursor de la página siguiente, si existe",
+      schema: { type: "string" },
+    },
+  },
+});
+
+/**
+ * Genera el documento OpenAPI 3.1 de la API de registros de un proyecto
+ * a partir de sus entidades, campos y relaciones
+ */
+export const buildProjectOpenApi = async (
+  project: Project,
+  baseUrl: string
+): Promise<OpenApiDocument> => {
+  const entities = await entityRepository.findByProjectId(project.id);
+  const cache: LinkCache = new Map();
+  const usedNames = new Set<string>(
+    Object.keys(buildCommonComponents().schemas)
+  );
+
+  const documented: DocumentedEntity[] = [];
+  for (const entity of entities) {
+    // Los nombres de esquema deben ser únicos aunque dos entidades coincidan
+    let schemaName = toPascalCase(entity.name);
+    for (let i = 2; usedNames.has(schemaName); i++) {
+      schemaName = `${toPascalCase(entity.name)}${i}`;
+    }
+    usedNames.add(schemaName);
+
+    documented.push({
+      entity,
+      fields: await fieldRepository.findByEntityId(entity.id),
+      links: await getEntityLinks(entity, cache),
+      schemaName,
+    });
+  }
+
+  const components = buildCommonComponents();
+  const paths: OpenApiDocument["paths"] = {};
+  for (const item of documented) {
+    Object.assign(components.schemas, buildEntitySchemas(item, documented));
+    Object.assign(paths, buildEntityPaths(item));
+  }
+
+  return {
+    openapi: "3.1.0",
+    info: {
+      title: `${project.name} API`,
+      version: "1.0.0",
+      description:
+        project.description ||
+        `API de registros del proyecto ${project.name}, generada a partir de sus entidades`,
+    },
+    servers: [
+      {
+        url: `${baseUrl}/api/projects/${project.id}`,
+        description: "API de registros del proyecto",
+      },
+    ],
+    tags: documented.map((item) => ({
+      name: item.entity.name,
+      description: item.entity.description || undefined,
+    })),
+    paths,
+    components,
+  };
+};
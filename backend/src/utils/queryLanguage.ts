@@ -0,0 +1,611 @@
+import { Request, Response } from "express";
+import { DatabaseSync, SupportedValueType } from "node:sqlite";
+import { quoteIdentifier } from "./dataTables";
+
+/**
+ * Lenguaje de consulta para los endpoints de listado:
+ *
+ *   ?filter[name][contains]=foo&filter[or][0][age][gt]=18&filter[or][1][active]=true
+ *   &sort=-created_at,name&page[size]=50&page[number]=2 (o page[cursor]=...)
+ *
+ * Las condiciones de primer nivel se combinan con AND; filter[or][i] y
+ * filter[and][i] agrupan condiciones. Las columnas y operadores se validan
+ * contra una lista blanca y se compilan a SQL parametrizado.
+ */
+
+export type QueryColumnType = "string" | "number" | "boolean" | "date";
+
+/** Columnas consultables de un listado y su tipo */
+export type QueryColumns = Record<string, QueryColumnType>;
+
+export type FilterOperator =
+  | "eq"
+  | "ne"
+  | "gt"
+  | "gte"
+  | "lt"
+  | "lte"
+  | "contains"
+  | "starts_with"
+  | "ends_with"
+  | "in"
+  | "nin"
+  | "is_null";
+
+export interface FilterCondition {
+  column: string;
+  type: QueryColumnType;
+  operator: FilterOperator;
+  value: SupportedValueType | SupportedValueType[];
+}
+
+export interface FilterGroup {
+  type: "and" | "or";
+  conditions: Array<FilterCondition | FilterGroup>;
+}
+
+export interface SortTerm {
+  column: string;
+  direction: "asc" | "desc";
+}
+
+export interface ListQuery {
+  filter: FilterGroup;
+  sort: SortTerm[];
+  /** Tamaño de página (sin paginar si no se define) */
+  size?: number;
+  /** Número de página (paginación por offset, empieza en 1) */
+  number?: number;
+  /** Valores de ordenación del último registro visto (paginación keyset) */
+  cursor?: SupportedValueType[];
+}
+
+export interface ListQueryOptions {
+  columns: QueryColumns;
+  /** Ordenación por defecto, con la misma sintaxis que ?sort */
+  defaultSort?: string;
+  /** Tamaño de página si no se indica page[size] (sin paginar si no se define) */
+  defaultPageSize?: number;
+  maxPageSize?: number;
+}
+
+export interface ListPage<T> {
+  items: T[];
+  total: number;
+  size: number | null;
+  number: number | null;
+  next_cursor: string | null;
+}
+
+/**
+ * Origen de los datos de un listado: una tabla (o subconsulta con alias)
+ * y una condición base opcional
+ */
+export interface ListSource {
+  from: string;
+  where?: string;
+  params?: SupportedValueType[];
+}
+
+export class QueryLanguageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "QueryLanguageError";
+  }
+}
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 500;
+
+const COMPARISON_OPERATORS: FilterOperator[] = [
+  "eq",
+  "ne",
+  "gt",
+  "gte",
+  "lt",
+  "lte",
+  "in",
+  "nin",
+  "is_null",
+];
+
+/**
+ * Operadores de filtro permitidos según el tipo de columna
+ */
+export const OPERATORS_BY_TYPE: Record<QueryColumnType, FilterOperator[]> = {
+  string: [...COMPARISON_OPERATORS, "contains", "starts_with", "ends_with"],
+  number: COMPARISON_OPERATORS,
+  date: COMPARISON_OPERATORS,
+  boolean: ["eq", "ne", "is_null"],
+};
+
+const SQL_OPERATORS: Partial<Record<FilterOperator, string>> = {
+  eq: "=",
+  ne: "<>",
+  gt: ">",
+  gte: ">=",
+  lt: "<",
+  lte: "<=",
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/**
+ * Obtiene el tipo de una columna de la lista blanca (undefined si no está permitida)
+ */
+const getColumnType = (
+  columns: QueryColumns,
+  name: string
+): QueryColumnType | undefined =>
+  Object.prototype.hasOwnProperty.call(columns, name)
+    ? columns[name]
+    : undefined;
+
+/**
+ * Convierte un valor del query string al tipo de la columna
+ */
+const parseValue = (
+  column: string,
+  type: QueryColumnType,
+  raw: unknown
+): SupportedValueType => {
+  if (typeof raw !== "string") {
+    throw new QueryLanguageError(`Valor inválido para el filtro de ${column}`);
+  }
+
+  switch (type) {
+    case "number": {
+      const value = Number(raw);
+      if (raw.trim() === "" || !Number.isFinite(value)) {
+        throw new QueryLanguageError(`${column} debe filtrarse con un número`);
+      }
+      return value;
+    }
+    case "boolean":
+      if (raw === "true" || raw === "1") {
+        return 1;
+      }
+      if (raw === "false" || raw === "0") {
+        return 0;
+      }
+      throw new QueryLanguageError(`${column} debe filtrarse con true o false`);
+    case "date":
+      if (isNaN(Date.parse(raw))) {
+        throw new QueryLanguageError(`${column} debe filtrarse con una fecha`);
+      }
+      return raw;
+    default:
+      return raw;
+  }
+};
+
+/**
+ * Construye una condición a partir de una columna, un operador y su valor
+ */
+const parseCondition = (
+  column: string,
+  type: QueryColumnType,
+  operator: string,
+  raw: unknown
+): FilterCondition => {
+  if (!OPERATORS_BY_TYPE[type].includes(operator as FilterOperator)) {
+    throw new QueryLanguageError(
+      `Operador no soportado para ${column}: ${operator}. Permitidos: ${OPERATORS_BY_TYPE[
+        type
+      ].join(", ")}`
+    );
+  }
+
+  switch (operator) {
+    case "in":
+    case "nin": {
+      const items = (Array.isArray(raw) ? raw : String(raw).split(",")).filter(
+        (item) => item !== ""
+      );
+      if (items.length === 0) {
+        throw new QueryLanguageError(
+          `El filtro ${operator} de ${column} requiere al menos un valor`
+        );
+      }
+      return {
+        column,
+        type,
+        operator,
+        value: items.map((item) => parseValue(column, type, item)),
+      };
+    }
+    case "is_null":
+      return {
+        column,
+        type,
+        operator,
+        value: parseValue(column, "boolean", raw),
+      };
+    default:
+      return {
+        column,
+        type,
+        operator: operator as FilterOperator,
+        value: parseValue(column, type, raw),
+      };
+  }
+};
+
+/**
+ * Interpreta un nodo de filtro (objeto generado por el parser de query strings)
+ */
+const parseGroup = (
+  node: unknown,
+  type: "and" | "or",
+  columns: QueryColumns
+): FilterGroup => {
+  const group: FilterGroup = { type, conditions: [] };
+  if (node === undefined) {
+    return group;
+  }
+  if (!isObject(node)) {
+    throw new QueryLanguageError("Formato de filtro inválido");
+  }
+
+  for (const [key, value] of Object.entries(node)) {
+    if (key === "or" || key === "and") {
+      const items = Array.isArray(value)
+        ? value
+        : isObject(value)
+        ? Object.values(value)
+        : null;
+      if (!items) {
+        throw new QueryLanguageError(`Formato inválido para el grupo ${key}`);
+      }
+      // Cada elemento del grupo es a su vez un conjunto de condiciones (AND)
+      group.conditions.push({
+        type: key,
+        conditions: items.map((item) => parseGroup(item, "and", columns)),
+      });
+      continue;
+    }
+
+    const columnType = getColumnType(columns, key);
+    if (!columnType) {
+      throw new QueryLanguageError(
+        `No se puede filtrar por ${key}. Columnas permitidas: ${Object.keys(
+          columns
+        ).join(", ")}`
+      );
+    }
+
+    if (isObject(value)) {
+      for (const [operator, raw] of Object.entries(value)) {
+        group.conditions.push(parseCondition(key, columnType, operator, raw));
+      }
+    } else {
+      // filter[name]=foo equivale a filter[name][eq]=foo
+      group.conditions.push(parseCondition(key, columnType, "eq", value));
+    }
+  }
+
+  return group;
+};
+
+/**
+ * Interpreta la ordenación (?sort=-created_at,name)
+ */
+const parseSort = (raw: unknown, columns: QueryColumns): SortTerm[] => {
+  if (raw === undefined || raw === "") {
+    return [];
+  }
+  if (typeof raw !== "string") {
+    throw new QueryLanguageError("Formato de ordenación inválido");
+  }
+
+  return raw.split(",").map((item) => {
+    const term = item.trim();
+    const direction = term.startsWith("-") ? "desc" : "asc";
+    const column = term.replace(/^[-+]/, "");
+    if (!getColumnType(columns, column)) {
+      throw new QueryLanguageError(
+        `No se puede ordenar por ${column}. Columnas permitidas: ${Object.keys(
+          columns
+        ).join(", ")}`
+      );
+    }
+    return { column, direction };
+  });
+};
+
+/**
+ * Interpreta un entero positivo del query string
+ */
+const parsePositiveInteger = (name: string, raw: unknown): number => {
+  if (typeof raw !== "string" || !/^\d+$/.test(raw) || parseInt(raw, 10) < 1) {
+    throw new QueryLanguageError(`${name} debe ser un entero positivo`);
+  }
+  return parseInt(raw, 10);
+};
+
+/**
+ * Codifica el cursor de paginación a partir de los valores de ordenación
+ */
+const encodeCursor = (values: unknown[]): string =>
+  Buffer.from(JSON.stringify(values)).toString("base64url");
+
+/**
+ * Decodifica un cursor de paginación
+ */
+const decodeCursor = (raw: unknown, length: number): SupportedValueType[] => {
+  try {
+    const values = JSON.parse(
+      Buffer.from(String(raw), "base64url").toString("utf8")
+    );
+    if (
+      Array.isArray(values) &&
+      values.length === length &&
+      values.every(
+        (value) =>
+          value === null ||
+          typeof value === "string" ||
+          typeof value === "number"
+      )
+    ) {
+      return values;
+    }
+  } catch {
+    // Se reporta abajo
+  }
+  throw new QueryLanguageError(
+    "Cursor de paginación inválido o generado con otra ordenación"
+  );
+};
+
+/**
+ * Interpreta los parámetros filter, sort y page de una petición de listado
+ */
+export const parseListQuery = (
+  query: Request["query"],
+  options: ListQueryOptions
+): ListQuery => {
+  const filter = parseGroup(query.filter, "and", options.columns);
+  const sort = parseSort(query.sort ?? options.defaultSort, options.columns);
+
+  // El ID desempata la ordenación para que el cursor sea estable
+  if (!sort.some((term) => term.column === "id")) {
+    sort.push({
+      column: "id",
+      direction: sort.length > 0 ? sort[sort.length - 1].direction : "asc",
+    });
+  }
+
+  const page = query.page;
+  if (page !== undefined && !isObject(page)) {
+    throw new QueryLanguageError("Formato de paginación inválido");
+  }
+
+  const maxPageSize = options.maxPageSize ?? MAX_PAGE_SIZE;
+  let size = options.defaultPageSize;
+  if (page?.size !== undefined) {
+    size = parsePositiveInteger("page[size]", page.size);
+    if (size > maxPageSize) {
+      throw new QueryLanguageError(
+        `page[size] no puede ser mayor que ${maxPageSize}`
+      );
+    }
+  }
+
+  const listQuery: ListQuery = { filter, sort, size };
+
+  if (page?.number !== undefined && page?.cursor !== undefined) {
+    throw new QueryLanguageError(
+      "Use page[number] o page[cursor], pero no ambos"
+    );
+  }
+  if (page?.number !== undefined) {
+    listQuery.number = parsePositiveInteger("page[number]", page.number);
+  }
+  if (page?.cursor !== undefined) {
+    listQuery.cursor = decodeCursor(page.cursor, sort.length);
+  }
+  if (
+    listQuery.size === undefined &&
+    (listQuery.number !== undefined || listQuery.cursor !== undefined)
+  ) {
+    listQuery.size = DEFAULT_PAGE_SIZE;
+  }
+
+  return listQuery;
+};
+
+/**
+ * Compila una condición a SQL parametrizado
+ */
+const compileCondition = (
+  condition: FilterCondition,
+  params: SupportedValueType[]
+): string => {
+  const column = quoteIdentifier(condition.column);
+  // Las fechas se normalizan para comparar formatos ISO y de SQLite
+  const operand = condition.type === "date" ? `datetime(${column})` : column;
+  const placeholder = condition.type === "date" ? "datetime(?)" : "?";
+  const escapeLike = (value: SupportedValueType) =>
+    String(value).replace(/[\\%_]/g, (char) => `\\${char}`);
+
+  switch (condition.operator) {
+    case "contains":
+      params.push(`%${escapeLike(condition.value as SupportedValueType)}%`);
+      return `${column} LIKE ? ESCAPE '\\'`;
+    case "starts_with":
+      params.push(`${escapeLike(condition.value as SupportedValueType)}%`);
+      return `${column} LIKE ? ESCAPE '\\'`;
+    case "ends_with":
+      params.push(`%${escapeLike(condition.value as SupportedValueType)}`);
+      return `${column} LIKE ? ESCAPE '\\'`;
+    case "in":
+    case "nin": {
+      const values = condition.value as SupportedValueType[];
+      params.push(...values);
+      return `${operand} ${
+        condition.operator === "nin" ? "NOT IN" : "IN"
+      } (${values.map(() => placeholder).join(", ")})`;
+    }
+    case "is_null":
+      return condition.value ? `${column} IS NULL` : `${column} IS NOT NULL`;
+    default:
+      params.push(condition.value as SupportedValueType);
+      return `${operand} ${SQL_OPERATORS[condition.operator]} ${placeholder}`;
+  }
+};
+
+/**
+ * Compila un grupo de condiciones a SQL parametrizado (null si está vacío)
+ */
+const compileGroup = (
+  group: FilterGroup,
+  params: SupportedValueType[]
+): string | null => {
+  const parts = group.conditions
+    .map((condition) =>
+      "conditions" in condition
+        ? compileGroup(condition, params)
+        : compileCondition(condition, params)
+    )
+    .filter((part): part is string => part !== null);
+
+  if (parts.length === 0) {
+    return null;
+  }
+  return parts.length === 1
+    ? parts[0]
+    : `(${parts.join(group.type === "or" ? " OR " : " AND ")})`;
+};
+
+/**
+ * Compila la condición keyset: registros posteriores al cursor según la ordenación.
+ * SQLite ordena los NULL primero en ASC y al final en DESC.
+ */
+const compileKeyset = (
+  sort: SortTerm[],
+  cursor: SupportedValueType[],
+  params: SupportedValueType[]
+): string => {
+  const branches = sort.map((term, index) => {
+    const parts = sort.slice(0, index).map((previous, previousIndex) => {
+      params.push(cursor[previousIndex]);
+      return `${quoteIdentifier(previous.column)} IS ?`;
+    });
+
+    const column = quoteIdentifier(term.column);
+    const value = cursor[index];
+    if (term.direction === "asc") {
+      if (value === null) {
+        parts.push(`${column} IS NOT NULL`);
+      } else {
+        params.push(value);
+        parts.push(`${column} > ?`);
+      }
+    } else if (value === null) {
+      parts.push("0");
+    } else {
+      params.push(value);
+      parts.push(`(${column} < ? OR ${column} IS NULL)`);
+    }
+
+    return `(${parts.join(" AND ")})`;
+  });
+
+  return `(${branches.join(" OR ")})`;
+};
+
+/**
+ * Ejecuta un listado con filtros, ordenación y paginación.
+ * El total cuenta los registros que cumplen el filtro, sin paginar.
+ */
+export const executeListQuery = <T = Record<string, unknown>>(
+  db: DatabaseSync,
+  source: ListSource,
+  listQuery: ListQuery
+): ListPage<T> => {
+  const params: SupportedValueType[] = [...(source.params ?? [])];
+  const conditions = source.where ? [`(${source.where})`] : [];
+  const filterSql = compileGroup(listQuery.filter, params);
+  if (filterSql) {
+    conditions.push(filterSql);
+  }
+
+  const countSql = `SELECT COUNT(*) AS total FROM ${source.from}${
+    conditions.length > 0 ? ` WHERE ${conditions.join(" AND ")}` : ""
+  }`;
+  const { total } = db.prepare(countSql).get(...params) as { total: number };
+
+  const pageParams = [...params];
+  const pageConditions = [...conditions];
+  if (listQuery.cursor) {
+    pageConditions.push(
+      compileKeyset(listQuery.sort, listQuery.cursor, pageParams)
+    );
+  }
+
+  let sql = `SELECT * FROM ${source.from}${
+    pageConditions.length > 0 ? ` WHERE ${pageConditions.join(" AND ")}` : ""
+  } ORDER BY ${listQuery.sort
+    .map(
+      (term) => `${quoteIdentifier(term.column)} ${term.direction.toUpperCase()}`
+    )
+    .join(", ")}`;
+
+  if (listQuery.size !== undefined) {
+    // Se pide un registro extra para saber si hay una página siguiente
+    sql += " LIMIT ? OFFSET ?";
+    pageParams.push(
+      listQuery.size + 1,
+      listQuery.number ? (listQuery.number - 1) * listQuery.size : 0
+    );
+  }
+
+  const rows = db.prepare(sql).all(...pageParams) as Record<string, unknown>[];
+  const hasMore =
+    listQuery.size !== undefined && rows.length > listQuery.size;
+  const items = hasMore ? rows.slice(0, listQuery.size) : rows;
+  const last = items[items.length - 1];
+
+  return {
+    items: items as T[],
+    total,
+    size: listQuery.size ?? null,
+    number: listQuery.size !== undefined && !listQuery.cursor
+      ? listQuery.number ?? 1
+      : null,
+    next_cursor:
+      hasMore && last
+        ? encodeCursor(listQuery.sort.map((term) => last[term.column]))
+        : null,
+  };
+};
+
+/**
+ * Expone los datos de paginación en las cabeceras de la respuesta
+ */
+export const setPaginationHeaders = (
+  res: Response,
+  page: ListPage<unknown>
+): void => {
+  res.setHeader("X-Total-Count", String(page.total));
+  if (page.size !== null) {
+    res.setHeader("X-Page-Size", String(page.size));
+  }
+  if (page.number !== null) {
+    res.setHeader("X-Page-Number", String(page.number));
+  }
+  if (page.next_cursor) {
+    res.setHeader("X-Next-Cursor", page.next_cursor);
+  }
+};
+
+/**
+ * Cabeceras de paginación que deben exponerse por CORS
+ */
+export const PAGINATION_HEADERS = [
+  "X-Total-Count",
+  "X-Page-Size",
+  "X-Page-Number",
+  "X-Next-Cursor",
+];
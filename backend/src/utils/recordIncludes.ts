@@ -0,0 +1,180 @@
+import {
+  DataRecord,
+  RecordRepository,
+  RecordTarget,
+} from "../repositories/recordRepository";
+import {
+  findLink,
+  getEntityLinks,
+  LinkCache,
+  RelationLink,
+} from "./relationLinks";
+
+const recordRepository = new RecordRepository();
+
+/**
+ * Profundidad máxima de ?include (comments.author tiene profundidad 2).
+ * Se configura con la variable de entorno RECORD_INCLUDE_MAX_DEPTH.
+ */
+export const MAX_INCLUDE_DEPTH =
+  parseInt(process.env.RECORD_INCLUDE_MAX_DEPTH || "", 10) || 3;
+
+/**
+ * Árbol de relaciones a incluir: author,comments.author ->
+ * { author: {}, comments: { author: {} } }
+ */
+export interface IncludeTree {
+  [relation: string]: IncludeTree;
+}
+
+export class IncludeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "IncludeError";
+  }
+}
+
+/**
+ * Interpreta el parámetro ?include
+ */
+export const parseIncludes = (
+  raw: unknown,
+  maxDepth: number = MAX_INCLUDE_DEPTH
+): IncludeTree => {
+  const tree: IncludeTree = {};
+  if (raw === undefined || raw === "") {
+    return tree;
+  }
+  if (typeof raw !== "string") {
+    throw new IncludeError("Formato de include inválido");
+  }
+
+  for (const path of raw.split(",").map((item) => item.trim())) {
+    const parts = path.split(".");
+    if (parts.some((part) => part === "")) {
+      throw new IncludeError(`Relación inválida en include: ${path}`);
+    }
+    if (parts.length > maxDepth) {
+      throw new IncludeError(
+        `La relación ${path} supera la profundidad máxima de include (${maxDepth})`
+      );
+    }
+
+    let node = tree;
+    for (const part of parts) {
+      if (!Object.prototype.hasOwnProperty.call(node, part)) {
+        node[part] = {};
+      }
+      node = node[part];
+    }
+  }
+
+  return tree;
+};
+
+/**
+ * Incrusta una relación muchos a muchos: una consulta a la tabla intermedia
+ * y otra a la tabla de la entidad relacionada
+ */
+const expandJunctionInclude = async (
+  name: string,
+  link: RelationLink,
+  records: DataRecord[],
+  tree: IncludeTree,
+  cache: LinkCache
+): Promise<void> => {
+  const relatedTarget = { entity: link.entity, fields: link.fields };
+  const ids = Array.from(new Set(records.map((record) => record.id)));
+  const pairs =
+    ids.length > 0 ? await recordRepository.findJunctionPairs(link, ids) : [];
+  const remoteIds = Array.from(new Set(pairs.map((pair) => pair.remote_id)));
+  const related =
+    remoteIds.length > 0
+      ? await recordRepository.findByColumnValues(relatedTarget, "id", remoteIds)
+      : [];
+
+  await expandIncludes(relatedTarget, related, tree, cache);
+
+  const byId = new Map(related.map((item) => [item.id, item]));
+  const grouped = new Map<string, DataRecord[]>();
+  for (const pair of pairs) {
+    const item = byId.get(pair.remote_id);
+    if (item) {
+      grouped.set(pair.local_id, [...(grouped.get(pair.local_id) || []), item]);
+    }
+  }
+
+  for (const record of records) {
+    record[name] = grouped.get(record.id) || [];
+  }
+};
+
+/**
+ * Incrusta en los registros las relaciones pedidas.
+ * Cada relación se resuelve con una consulta por nivel, sin importar
+ * cuántos registros haya (sin consultas N+1).
+ */
+export const expandIncludes = async (
+  target: RecordTarget,
+  records: DataRecord[],
+  tree: IncludeTree,
+  cache: LinkCache = new Map()
+): Promise<void> => {
+  const names = Object.keys(tree);
+  if (names.length === 0) {
+    return;
+  }
+
+  const links = await getEntityLinks(target.entity, cache);
+
+  for (const name of names) {
+    const link = findLink(links, name);
+    if (!link) {
+      throw new IncludeError(
+        `La entidad ${target.entity.name} no tiene la relación ${name}. Disponibles: ${
+          links.map((item) => item.name).join(", ") || "ninguna"
+        }`
+      );
+    }
+
+    if (link.junction) {
+      await expandJunctionInclude(name, link, records, tree[name], cache);
+      continue;
+    }
+
+    const relatedTarget = { entity: link.entity, fields: link.fields };
+    const values = Array.from(
+      new Set(
+        records
+          .map((record) => record[link.localColumn])
+          .filter((value) => value !== null && value !== undefined)
+      )
+    );
+    const related =
+      values.length > 0
+        ? await recordRepository.findByColumnValues(
+            relatedTarget,
+            link.remoteColumn,
+            values
+          )
+        : [];
+
+    // Las relaciones anidadas se resuelven sobre todo el lote relacionado
+    await expandIncludes(relatedTarget, related, tree[name], cache);
+
+    const grouped = new Map<string, DataRecord[]>();
+    for (const item of related) {
+      const key = String(item[link.remoteColumn]);
+      grouped.set(key, [...(grouped.get(key) || []), item]);
+    }
+
+    for (const record of records) {
+      const value = record[link.localColumn];
+      const matches =
+        value === null || value === undefined
+          ? []
+          : grouped.get(String(value)) || [];
+      record[name] = link.cardinality === "one" ? matches[0] ?? null : matches;
+    }
+  }
+};
@@ -0,0 +1,343 @@
+import { Field } from "../repositories/fieldRepository";
+import { FileRecord } from "../repositories/fileRepository";
+import { isDataColumn, SYSTEM_COLUMNS } from "./dataTables";
+
+const FILE_TYPES = ["file", "image", "document"];
+
+export type FieldValidationCode =
+  | "unknown_field"
+  | "required"
+  | "invalid_type"
+  | "max_length"
+  | "unique"
+  | "file_not_found"
+  | "file_extension"
+  | "file_size"
+  | "relationship_required"
+  | "relationship_not_found";
+
+/**
+ * Error de validación asociado a un campo del registro
+ */
+export interface FieldValidationError {
+  field: string;
+  code: FieldValidationCode;
+  message: string;
+  /** Relación incumplida (errores relationship_*) */
+  relationship?: string;
+}
+
+export interface RecordValidationResult {
+  valid: boolean;
+  /** Valores convertidos al tipo de cada campo, listos para almacenar */
+  values: Record<string, unknown>;
+  errors: FieldValidationError[];
+}
+
+export interface RecordValidationOptions {
+  /** Solo se validan los campos enviados (PATCH) */
+  partial?: boolean;
+  /** Completa los campos no enviados con su valor por defecto (creación) */
+  fillDefaults?: boolean;
+  /** Registro excluido de la verificación de unicidad (actualizaciones) */
+  recordId?: string;
+}
+
+/**
+ * Verificaciones que requieren acceso a datos. Se inyectan para que el
+ * validador pueda usarse desde la API de registros o desde importaciones.
+ */
+export interface RecordValidationChecks {
+  isValueTaken?: (
+    field: Field,
+    value: unknown,
+    excludeId?: string
+  ) => Promise<boolean>;
+  findFiles?: (ids: string[]) => Promise<FileRecord[]>;
+  /**
+   * Verifica las relaciones de la entidad sobre los valores ya validados
+   * (solo recibe los campos sin errores)
+   */
+  checkRelationships?: (
+    values: Record<string, unknown>
+  ) => Promise<FieldValidationError[]>;
+}
+
+export type RecordValidator = (
+  payload: unknown,
+  options?: RecordValidationOptions
+) => Promise<RecordValidationResult>;
+
+type Coercion = { ok: true; value: unknown } | { ok: false; message: string };
+
+/**
+ * Convierte un valor recibido al tipo de un campo
+ */
+export const coerceFieldValue = (field: Field, value: unknown): Coercion => {
+  const text = typeof value === "string" ? value.trim() : value;
+
+  switch (field.type) {
+    case "integer":
+      if (typeof text === "number" && Number.isInteger(text)) {
+        return { ok: true, value: text };
+      }
+      if (typeof text === "string" && /^-?\d+$/.test(text)) {
+        return { ok: true, value: parseInt(text, 10) };
+      }
+      return { ok: false, message: "Debe ser un número entero" };
+
+    case "number":
+    case "decimal":
+      if (typeof text === "number" && Number.isFinite(text)) {
+        return { ok: true, value: text };
+      }
+      if (
+        typeof text === "string" &&
+        text !== "" &&
+        Number.isFinite(Number(text))
+      ) {
+        return { ok: true, value: Number(text) };
+      }
+      return { ok: false, message: "Debe ser un número" };
+
+    case "boolean":
+      if (typeof text === "boolean") {
+        return { ok: true, value: text };
+      }
+      if (text === 1 || text === "1" || text === "true") {
+        return { ok: true, value: true };
+      }
+      if (text === 0 || text === "0" || text === "false") {
+        return { ok: true, value: false };
+      }
+      return { ok: false, message: "Debe ser un valor booleano" };
+
+    case "date": {
+      if (typeof text !== "string" || text === "") {
+        return { ok: false, message: "Debe ser una fecha en formato ISO 8601" };
+      }
+      const date = new Date(text);
+      if (isNaN(date.getTime())) {
+        return { ok: false, message: "Debe ser una fecha en formato ISO 8601" };
+      }
+      // Las fechas sin hora se conservan tal cual
+      return {
+        ok: true,
+        value: /^\d{4}-\d{2}-\d{2}$/.test(text) ? text : date.toISOString(),
+      };
+    }
+
+    case "file":
+    case "image":
+    case "document":
+      if (field.accepts_multiple) {
+        if (
+          Array.isArray(value) &&
+          value.every((item) => typeof item === "string" && item !== "")
+        ) {
+          return { ok: true, value };
+        }
+        return { ok: false, message: "Debe ser una lista de IDs de archivo" };
+      }
+      if (typeof value === "string" && value !== "") {
+        return { ok: true, value };
+      }
+      return { ok: false, message: "Debe ser el ID de un archivo" };
+
+    default:
+      // string y text
+      if (typeof value === "string") {
+        return { ok: true, value };
+      }
+      if (typeof value === "number" || typeof value === "boolean") {
+        return { ok: true, value: String(value) };
+      }
+      return { ok: false, message: "Debe ser un texto" };
+  }
+};
+
+/**
+ * Indica si un valor cuenta como vacío para los campos requeridos
+ */
+const isEmpty = (value: unknown): boolean =>
+  value === undefined ||
+  value === null ||
+  (typeof value === "string" && value.trim() === "") ||
+  (Array.isArray(value) && value.length === 0);
+
+/**
+ * Obtiene la lista de extensiones permitidas de un campo de archivo
+ */
+const getAllowedExtensions = (field: Field): string[] =>
+  (field.allowed_extensions || "")
+    .split(",")
+    .map((extension) => extension.trim().toLowerCase().replace(/^\./, ""))
+    .filter((extension) => extension !== "");
+
+/**
+ * Valida los archivos referenciados por un campo de archivo
+ */
+const validateFiles = async (
+  field: Field,
+  value: unknown,
+  checks: RecordValidationChecks
+): Promise<FieldValidationError[]> => {
+  if (!checks.findFiles) {
+    return [];
+  }
+
+  const ids = Array.isArray(value) ? (value as string[]) : [value as string];
+  const files = await checks.findFiles(ids);
+  const errors: FieldValidationError[] = [];
+
+  const missing = ids.filter((id) => !files.some((file) => file.id === id));
+  if (missing.length > 0) {
+    errors.push({
+      field: field.name,
+      code: "file_not_found",
+      message: `Archivos no encontrados: ${missing.join(", ")}`,
+    });
+  }
+
+  const allowedExtensions = getAllowedExtensions(field);
+  for (const file of files) {
+    const extension = file.original_name.includes(".")
+      ? file.original_name.split(".").pop()!.toLowerCase()
+      : "";
+
+    if (allowedExtensions.length > 0 && !allowedExtensions.includes(extension)) {
+      errors.push({
+        field: field.name,
+        code: "file_extension",
+        message: `El archivo ${
+          file.original_name
+        } no tiene una extensión permitida (${allowedExtensions.join(", ")})`,
+      });
+    }
+
+    if (field.max_file_size && file.size > field.max_file_size) {
+      errors.push({
+        field: field.name,
+        code: "file_size",
+        message: `El archivo ${file.original_name} supera el tamaño máximo de ${field.max_file_size} bytes`,
+      });
+    }
+  }
+
+  return errors;
+};
+
+/**
+ * Compila los campos de una entidad en un validador de registros.
+ * Devuelve los valores convertidos y una lista de errores por campo.
+ */
+export const compileRecordValidator = (
+  fields: Field[],
+  checks: RecordValidationChecks = {}
+): RecordValidator => {
+  const dataFields = fields.filter(isDataColumn);
+
+  return async (payload, options = {}) => {
+    const input =
+      payload && typeof payload === "object" && !Array.isArray(payload)
+        ? (payload as Record<string, unknown>)
+        : {};
+    const values: Record<string, unknown> = {};
+    const errors: FieldValidationError[] = [];
+
+    // Campos que no pertenecen a la entidad
+    for (const key of Object.keys(input)) {
+      if (
+        !SYSTEM_COLUMNS.includes(key) &&
+        !dataFields.some((field) => field.name === key)
+      ) {
+        errors.push({
+          field: key,
+          code: "unknown_field",
+          message: "El campo no existe en la entidad",
+        });
+      }
+    }
+
+    for (const field of dataFields) {
+      let raw = input[field.name];
+
+      if (raw === undefined && options.partial) {
+        continue;
+      }
+
+      if (
+        raw === undefined &&
+        options.fillDefaults &&
+        !isEmpty(field.default_value)
+      ) {
+        raw = field.default_value;
+      }
+
+      if (isEmpty(raw)) {
+        if (field.is_required) {
+          errors.push({
+            field: field.name,
+            code: "required",
+            message: "El campo es requerido",
+          });
+        } else {
+          values[field.name] = null;
+        }
+        continue;
+      }
+
+      const coerced = coerceFieldValue(field, raw);
+      if (!coerced.ok) {
+        errors.push({
+          field: field.name,
+          code: "invalid_type",
+          message: coerced.message,
+        });
+        continue;
+      }
+
+      if (
+        field.max_length &&
+        typeof coerced.value === "string" &&
+        coerced.value.length > field.max_length
+      ) {
+        errors.push({
+          field: field.name,
+          code: "max_length",
+          message: `No puede exceder ${field.max_length} caracteres`,
+        });
+        continue;
+      }
+
+      if (FILE_TYPES.includes(field.type)) {
+        const fileErrors = await validateFiles(field, coerced.value, checks);
+        if (fileErrors.length > 0) {
+          errors.push(...fileErrors);
+          continue;
+        }
+      }
+
+      if (
+        (field.is_unique || field.is_primary_key) &&
+        checks.isValueTaken &&
+        (await checks.isValueTaken(field, coerced.value, options.recordId))
+      ) {
+        errors.push({
+          field: field.name,
+          code: "unique",
+          message: "Ya existe un registro con este valor",
+        });
+        continue;
+      }
+
+      values[field.name] = coerced.value;
+    }
+
+    if (checks.checkRelationships) {
+      errors.push(...(await checks.checkRelationships(values)));
+    }
+
+    return { valid: errors.length === 0, values, errors };
+  };
+};
@@ -0,0 +1,644 @@
+import { DatabaseSync, SupportedValueType } from "node:sqlite";
+import { getDatabase } from "../config/database";
+import {
+  EntityRelationshipRepository,
+  RelationshipType,
+} from "../repositories/entityRelationshipRepository";
+import { Entity, EntityRepository } from "../repositories/entityRepository";
+import { Field, FieldRepository } from "../repositories/fieldRepository";
+import {
+  RecordRepository,
+  RecordTarget,
+} from "../repositories/recordRepository";
+import { isDataColumn, quoteIdentifier } from "./dataTables";
+import { FieldValidationError } from "./recordValidation";
+import { getEntityLinks, LinkCache, RelationLink } from "./relationLinks";
+import { ensureDataTable } from "./schemaSync";
+
+const recordRepository = new RecordRepository();
+const relationshipRepository = new EntityRelationshipRepository();
+const entityRepository = new EntityRepository();
+const fieldRepository = new FieldRepository();
+
+/**
+ * Acción sobre los registros dependientes al eliminar un registro referenciado:
+ * - cascade: se eliminan (cascade_delete)
+ * - restrict: impiden la eliminación (relación o clave foránea requerida)
+ * - set_null: su referencia queda en null
+ * - unlink: se eliminan los vínculos de la tabla intermedia (muchos a muchos)
+ * - none: la entidad guarda la referencia, nadie depende de ella
+ */
+export type DeleteAction =
+  | "cascade"
+  | "restrict"
+  | "set_null"
+  | "unlink"
+  | "none";
+
+/**
+ * Efecto de una eliminación sobre los registros de una relación
+ */
+export interface RelationshipImpact {
+  /** null: clave foránea de un campo sin relación */
+  relationship_id: string | null;
+  /**
+   * Nombre de la relación o, si no tiene, el nombre con el que se navega
+   * (el del campo en las claves foráneas sin relación)
+   */
+  relationship: string;
+  relationship_type: RelationshipType;
+  /** Entidad cuyos registros se ven afectados */
+  entity: string;
+  entity_id: string;
+  /** Columna que guarda la referencia (null en muchos a muchos) */
+  column: string | null;
+  action: DeleteAction;
+  affected_rows: number;
+}
+
+/**
+ * Cambios necesarios para eliminar registros respetando sus relaciones
+ */
+export interface DeletionPlan {
+  impacts: RelationshipImpact[];
+  /** Relaciones con registros dependientes que impiden la eliminación */
+  blocking: RelationshipImpact[];
+  deletes: Array<{ table: string; ids: string[] }>;
+  nulls: Array<{ table: string; column: string; ids: string[] }>;
+}
+
+/**
+ * Campo clave foránea de otra entidad que apunta a la entidad sin una
+ * relación que lo describa. La tabla de datos lo materializa igualmente
+ * como REFERENCES.
+ */
+interface FieldReference {
+  entity: Entity;
+  fields: Field[];
+  field: Field;
+  /** Columna referenciada (el campo indicado o el id) */
+  referencedColumn: string;
+}
+
+const CHUNK_SIZE = 500;
+
+/**
+ * Consulta una tabla filtrando una columna por una lista de valores, por lotes
+ */
+const selectByValues = (
+  db: DatabaseSync,
+  table: string,
+  select: string,
+  column: string,
+  values: SupportedValueType[]
+): Array<Record<string, SupportedValueType>> => {
+  const rows: Array<Record<string, SupportedValueType>> = [];
+  for (let i = 0; i < values.length; i += CHUNK_SIZE) {
+    const chunk = values.slice(i, i + CHUNK_SIZE);
+    rows.push(
+      ...(db
+        .prepare(
+          `SELECT ${select} FROM ${quoteIdentifier(
+            table
+          )} WHERE ${quoteIdentifier(column)} IN (${chunk
+            .map(() => "?")
+            .join(", ")})`
+        )
+        .all(...chunk) as Array<Record<string, SupportedValueType>>)
+    );
+  }
+  return rows;
+};
+
+const tableExists = (db: DatabaseSync, table: string): boolean =>
+  !!db
+    .prepare("SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = ?")
+    .get(table);
+
+/**
+ * Determina qué ocurre con los registros que dependen de un vínculo al eliminar
+ */
+export const getDeleteAction = (link: RelationLink): DeleteAction => {
+  if (link.junction) {
+    return "unlink";
+  }
+  if (link.owner === "local") {
+    return "none";
+  }
+  if (link.relationship.cascade_delete) {
+    return "cascade";
+  }
+
+  // Una referencia requerida no puede quedar en null
+  const column = link.fields.find((field) => field.name === link.remoteColumn);
+  return link.relationship.is_required || column?.is_required
+    ? "restrict"
+    : "set_null";
+};
+
+/**
+ * Añade un efecto al plan, sumando las filas si ya figuraba
+ */
+const addImpact = (plan: DeletionPlan, impact: RelationshipImpact): void => {
+  const existing = plan.impacts.find(
+    (item) =>
+      item.relationship_id === impact.relationship_id &&
+      item.entity_id === impact.entity_id &&
+      item.column === impact.column
+  );
+  if (existing) {
+    existing.affected_rows += impact.affected_rows;
+    return;
+  }
+  plan.impacts.push(impact);
+};
+
+const addLinkImpact = (
+  plan: DeletionPlan,
+  link: RelationLink,
+  action: DeleteAction,
+  affectedRows: number
+): void => {
+  let column: string | null = null;
+  if (!link.junction) {
+    column = link.owner === "local" ? link.localColumn : link.remoteColumn;
+  }
+  addImpact(plan, {
+    relationship_id: link.relationship.id,
+    relationship: link.relationship.name || link.name,
+    relationship_type: link.relationship.relationship_type,
+    entity: link.entity.name,
+    entity_id: link.entity.id,
+    column,
+    action,
+    affected_rows: affectedRows,
+  });
+};
+
+const addFieldImpact = (
+  plan: DeletionPlan,
+  reference: FieldReference,
+  affectedRows: number
+): void =>
+  addImpact(plan, {
+    relationship_id: null,
+    relationship: reference.field.name,
+    relationship_type: reference.field.is_unique ? "one_to_one" : "many_to_one",
+    entity: reference.entity.name,
+    entity_id: reference.entity.id,
+    column: reference.field.name,
+    action: reference.field.is_required ? "restrict" : "set_null",
+    affected_rows: affectedRows,
+  });
+
+/**
+ * Carga una entidad y sus campos, reutilizando el caché de vínculos
+ */
+const loadEntity = async (
+  entityId: string,
+  cache: LinkCache
+): Promise<RecordTarget | null> => {
+  const cached = cache.get(entityId);
+  if (cached) {
+    return cached;
+  }
+  const entity = await entityRepository.findById(entityId);
+  if (!entity) {
+    return null;
+  }
+  const end = {
+    entity,
+    fields: await fieldRepository.findByEntityId(entity.id),
+  };
+  cache.set(entity.id, end);
+  return end;
+};
+
+/**
+ * Campos clave foránea que apuntan a una entidad y que ninguna relación
+ * describe (los de las relaciones ya se recorren como vínculos)
+ */
+const getFieldReferences = async (
+  target: RecordTarget,
+  links: RelationLink[],
+  cache: LinkCache
+): Promise<FieldReference[]> => {
+  const references: FieldReference[] = [];
+  for (const row of await fieldRepository.findFieldsReferencingEntity(
+    target.entity.id
+  )) {
+    const end = await loadEntity(row.entity_id, cache);
+    if (!end) {
+      continue;
+    }
+
+    const field = end.fields.find((item) => item.id === row.id);
+    if (
+      !field ||
+      !field.is_foreign_key ||
+      !isDataColumn(field) ||
+      links.some(
+        (link) =>
+          link.owner === "remote" &&
+          link.entity.id === field.entity_id &&
+          link.remoteColumn === field.name
+      )
+    ) {
+      continue;
+    }
+    const referenced = target.fields.find(
+      (item) => item.id === field.foreign_field_id
+    );
+    references.push({
+      entity: end.entity,
+      fields: end.fields,
+      field,
+      referencedColumn:
+        referenced && isDataColumn(referenced) ? referenced.name : "id",
+    });
+  }
+  return references;
+};
+
+/**
+ * Recorre los registros que dependen de los registros a eliminar
+ */
+const collectDeletion = async (
+  db: DatabaseSync,
+  target: RecordTarget,
+  ids: string[],
+  plan: DeletionPlan,
+  visited: Set<string>,
+  cache: LinkCache
+): Promise<void> => {
+  const table = ensureDataTable(target.entity, target.fields);
+  const pending = ids.filter((id) => !visited.has(`${table}:${id}`));
+  if (pending.length === 0) {
+    return;
+  }
+  pending.forEach((id) => visited.add(`${table}:${id}`));
+  plan.deletes.push({ table, ids: pending });
+
+  const links = await getEntityLinks(target.entity, cache);
+  for (const link of links.filter((item) => item.owner !== "local")) {
+    const action = getDeleteAction(link);
+
+    // Los vínculos muchos a muchos se eliminan con el registro (ON DELETE CASCADE)
+    if (link.junction) {
+      const { table: junction, localColumn } = link.junction;
+      const linked = tableExists(db, junction)
+        ? selectByValues(db, junction, "1", localColumn, pending).length
+        : 0;
+      addLinkImpact(plan, link, action, linked);
+      continue;
+    }
+
+    // Valores de los registros a eliminar a los que apuntan los dependientes
+    const keys =
+      link.localColumn === "id"
+        ? pending
+        : selectByValues(
+            db,
+            table,
+            quoteIdentifier(link.localColumn),
+            "id",
+            pending
+          )
+            .map((row) => row[link.localColumn])
+            .filter((value) => value !== null);
+    const relatedTarget = { entity: link.entity, fields: link.fields };
+    const dependentTable = ensureDataTable(link.entity, link.fields);
+    const dependentIds =
+      keys.length > 0
+        ? selectByValues(db, dependentTable, "id", link.remoteColumn, keys).map(
+            (row) => String(row.id)
+          )
+        : [];
+
+    addLinkImpact(plan, link, action, dependentIds.length);
+    if (dependentIds.length === 0) {
+      continue;
+    }
+
+    if (action === "cascade") {
+      await collectDeletion(
+        db,
+        relatedTarget,
+        dependentIds,
+        plan,
+        visited,
+        cache
+      );
+    } else if (action === "set_null") {
+      plan.nulls.push({
+        table: dependentTable,
+        column: link.remoteColumn,
+        ids: dependentIds,
+      });
+    }
+  }
+
+  // Claves foráneas sin relación: se dejan en null o impiden la eliminación
+  for (const reference of await getFieldReferences(target, links, cache)) {
+    const { field, referencedColumn } = reference;
+    const keys =
+      referencedColumn === "id"
+        ? pending
+        : selectByValues(
+            db,
+            table,
+            quoteIdentifier(referencedColumn),
+            "id",
+            pending
+          )
+            .map((row) => row[referencedColumn])
+            .filter((value) => value !== null);
+    const dependentTable = ensureDataTable(reference.entity, reference.fields);
+    const dependentIds =
+      keys.length > 0
+        ? selectByValues(db, dependentTable, "id", field.name, keys).map(
+            (row) => String(row.id)
+          )
+        : [];
+
+    addFieldImpact(plan, reference, dependentIds.length);
+    if (dependentIds.length > 0 && !field.is_required) {
+      plan.nulls.push({
+        table: dependentTable,
+        column: field.name,
+        ids: dependentIds,
+      });
+    }
+  }
+};
+
+/**
+ * Calcula el efecto de eliminar registros sobre sus relaciones, sin aplicarlo
+ */
+export const planRecordDeletion = async (
+  target: RecordTarget,
+  ids: string[],
+  cache: LinkCache = new Map()
+): Promise<DeletionPlan> => {
+  const plan: DeletionPlan = {
+    impacts: [],
+    blocking: [],
+    deletes: [],
+    nulls: [],
+  };
+  await collectDeletion(getDatabase(), target, ids, plan, new Set(), cache);
+  plan.blocking = plan.impacts.filter(
+    (impact) => impact.action === "restrict" && impact.affected_rows > 0
+  );
+  return plan;
+};
+
+/**
+ * Aplica un plan de eliminación en una transacción.
+ * Devuelve la cantidad de registros eliminados.
+ */
+export const applyDeletionPlan = (plan: DeletionPlan): number => {
+  const db = getDatabase();
+  let deleted = 0;
+
+  db.exec("BEGIN");
+  try {
+    // Las claves foráneas se verifican al confirmar, no en cada paso
+    db.exec("PRAGMA defer_foreign_keys = ON");
+
+    for (const { table, column, ids } of plan.nulls) {
+      for (let i = 0; i < ids.length; i += CHUNK_SIZE) {
+        const chunk = ids.slice(i, i + CHUNK_SIZE);
+        db.prepare(
+          `UPDATE ${quoteIdentifier(table)} SET ${quoteIdentifier(
+            column
+          )} = NULL, updated_at = CURRENT_TIMESTAMP WHERE id IN (${chunk
+            .map(() => "?")
+            .join(", ")})`
+        ).run(...chunk);
+      }
+    }
+
+    for (const { table, ids } of plan.deletes) {
+      for (let i = 0; i < ids.length; i += CHUNK_SIZE) {
+        const chunk = ids.slice(i, i + CHUNK_SIZE);
+        deleted += Number(
+          db
+            .prepare(
+              `DELETE FROM ${quoteIdentifier(table)} WHERE id IN (${chunk
+                .map(() => "?")
+                .join(", ")})`
+            )
+            .run(...chunk).changes
+        );
+      }
+    }
+
+    db.exec("COMMIT");
+  } catch (error) {
+    db.exec("ROLLBACK");
+    throw error;
+  }
+
+  return deleted;
+};
+
+/**
+ * Calcula el efecto de eliminar una entidad completa: sus registros y todas sus relaciones
+ * (incluidas las que no tienen registros afectados)
+ */
+export const planEntityDeletion = async (
+  entity: Entity,
+  fields: Field[]
+): Promise<{ records: number; plan: DeletionPlan }> => {
+  const db = getDatabase();
+  const table = ensureDataTable(entity, fields);
+  const ids = (
+    db.prepare(`SELECT id FROM ${quoteIdentifier(table)}`).all() as Array<{
+      id: string;
+    }>
+  ).map((row) => row.id);
+
+  const cache: LinkCache = new Map();
+  const plan = await planRecordDeletion({ entity, fields }, ids, cache);
+
+  const isReported = (relationshipId: string): boolean =>
+    plan.impacts.some((impact) => impact.relationship_id === relationshipId);
+
+  const links = await getEntityLinks(entity, cache);
+  for (const link of links) {
+    if (!isReported(link.relationship.id)) {
+      addLinkImpact(plan, link, getDeleteAction(link), 0);
+    }
+  }
+  for (const reference of await getFieldReferences(
+    { entity, fields },
+    links,
+    cache
+  )) {
+    addFieldImpact(plan, reference, 0);
+  }
+
+  // Relaciones sin columnas con las que navegarse: solo se elimina su definición
+  for (const relationship of await relationshipRepository.findByEntityId(
+    entity.id
+  )) {
+    if (isReported(relationship.id)) {
+      continue;
+    }
+    const otherId =
+      relationship.source_entity_id === entity.id
+        ? relationship.target_entity_id
+        : relationship.source_entity_id;
+    const other =
+      otherId === entity.id ? entity : await entityRepository.findById(otherId);
+    plan.impacts.push({
+      relationship_id: relationship.id,
+      relationship: relationship.name || other?.name || relationship.id,
+      relationship_type: relationship.relationship_type,
+      entity: other?.name || otherId,
+      entity_id: otherId,
+      column: null,
+      action: "none",
+      affected_rows: 0,
+    });
+  }
+
+  // Los registros de la propia entidad se eliminan de todas formas
+  plan.blocking = plan.blocking.filter(
+    (impact) => impact.entity_id !== entity.id
+  );
+
+  return { records: ids.length, plan };
+};
+
+/**
+ * Describe una relación que impide eliminar registros
+ */
+export const describeBlockingImpact = (impact: RelationshipImpact): string =>
+  impact.relationship_id
+    ? `La relación ${impact.relationship} es requerida: ${impact.affected_rows} registro(s) de ${impact.entity} dependen de los registros a eliminar`
+    : `La clave foránea ${impact.entity}.${impact.column} es requerida: ${impact.affected_rows} registro(s) de ${impact.entity} referencian los registros a eliminar`;
+
+/**
+ * Campos de otras entidades que referencian a una entidad (Entidad.campo),
+ * para explicar una restricción de clave foránea incumplida
+ */
+export const describeEntityReferences = async (
+  entity: Entity
+): Promise<string[]> => {
+  const names: string[] = [];
+  for (const field of await fieldRepository.findFieldsReferencingEntity(
+    entity.id
+  )) {
+    if (field.entity_id === entity.id) {
+      continue;
+    }
+    const owner = await entityRepository.findById(field.entity_id);
+    names.push(`${owner?.name ?? field.entity_id}.${field.name}`);
+  }
+  return names;
+};
+
+/**
+ * Verifica las referencias de un registro antes de guardarlo: las relaciones
+ * requeridas deben tener valor y los registros referenciados, por una relación
+ * o por un campo clave foránea, deben existir.
+ * Solo se verifican las columnas presentes en los valores.
+ */
+export const checkRecordRelationships = async (
+  target: RecordTarget,
+  values: Record<string, unknown>,
+  cache: LinkCache = new Map()
+): Promise<FieldValidationError[]> => {
+  const errors: FieldValidationError[] = [];
+  const links = await getEntityLinks(target.entity, cache);
+
+  for (const link of links) {
+    if (link.owner !== "local" || link.junction) {
+      continue;
+    }
+    const column = link.localColumn;
+    if (!Object.prototype.hasOwnProperty.call(values, column)) {
+      continue;
+    }
+
+    const value = values[column];
+    if (value === null || value === undefined || value === "") {
+      if (link.relationship.is_required) {
+        errors.push({
+          field: column,
+          code: "relationship_required",
+          relationship: link.name,
+          message: `La relación ${link.name} con ${link.entity.name} es requerida`,
+        });
+      }
+      continue;
+    }
+
+    const related = await recordRepository.findByColumnValues(
+      { entity: link.entity, fields: link.fields },
+      link.remoteColumn,
+      [value]
+    );
+    if (related.length === 0) {
+      errors.push({
+        field: column,
+        code: "relationship_not_found",
+        relationship: link.name,
+        message: `No existe un registro de ${link.entity.name} con ${link.remoteColumn} = ${String(
+          value
+        )}`,
+      });
+    }
+  }
+
+  // Claves foráneas de campos sin una relación que las describa
+  for (const field of target.fields) {
+    if (
+      !field.is_foreign_key ||
+      !field.foreign_entity_id ||
+      !isDataColumn(field) ||
+      !Object.prototype.hasOwnProperty.call(values, field.name) ||
+      links.some(
+        (link) => link.owner === "local" && link.localColumn === field.name
+      )
+    ) {
+      continue;
+    }
+
+    const value = values[field.name];
+    if (value === null || value === undefined || value === "") {
+      continue;
+    }
+
+    const referenced = await loadEntity(field.foreign_entity_id, cache);
+    if (!referenced) {
+      continue;
+    }
+    const referencedField = referenced.fields.find(
+      (item) => item.id === field.foreign_field_id
+    );
+    const column =
+      referencedField && isDataColumn(referencedField)
+        ? referencedField.name
+        : "id";
+
+    const related = await recordRepository.findByColumnValues(
+      referenced,
+      column,
+      [value]
+    );
+    if (related.length === 0) {
+      errors.push({
+        field: field.name,
+        code: "relationship_not_found",
+        message: `La clave foránea ${field.name} no referencia ningún registro de ${referenced.entity.name}: no existe ninguno con ${column} = ${String(
+          value
+        )}`,
+      });
+    }
+  }
+
+  return errors;
+};
@@ -0,0 +1,308 @@
+import {
+  EntityRelationship,
+  EntityRelationshipRepository,
+} from "../repositories/entityRelationshipRepository";
+import { Entity, EntityRepository } from "../repositories/entityRepository";
+import { Field, FieldRepository } from "../repositories/fieldRepository";
+import { getJunctionTableName } from "./dataTables";
+
+const relationshipRepository = new EntityRelationshipRepository();
+const entityRepository = new EntityRepository();
+const fieldRepository = new FieldRepository();
+
+/**
+ * Vínculo navegable desde una entidad hacia otra a partir de una relación.
+ * Cada relación produce un vínculo en cada extremo (el inverso en la entidad destino).
+ */
+export interface RelationLink {
+  /** Nombre con el que se navega la relación desde la entidad (ej: author, comments) */
+  name: string;
+  relationship: EntityRelationship;
+  /** Si la entidad es el origen de la relación o el destino (vínculo inverso) */
+  side: "source" | "target";
+  /** Entidad relacionada y sus campos */
+  entity: Entity;
+  fields: Field[];
+  cardinality: "one" | "many";
+  /** Columna de la entidad actual que se compara con remoteColumn */
+  localColumn: string;
+  /** Columna de la entidad relacionada */
+  remoteColumn: string;
+  /** Extremo que almacena la clave foránea (junction en muchos a muchos) */
+  owner: "local" | "remote" | "junction";
+  /** Tabla intermedia de las relaciones muchos a muchos */
+  junction?: JunctionLink;
+}
+
+/**
+ * Tabla intermedia vista desde un extremo de la relación: localColumn guarda
+ * el ID del registro actual y remoteColumn el del registro relacionado
+ */
+export interface JunctionLink {
+  table: string;
+  localColumn: "source_id" | "target_id";
+  remoteColumn: "source_id" | "target_id";
+}
+
+interface LinkEnd {
+  entity: Entity;
+  fields: Field[];
+  field?: Field;
+}
+
+/**
+ * Entidades y campos ya cargados, compartidos entre resoluciones de vínculos
+ */
+export type LinkCache = Map<string, LinkEnd>;
+
+/**
+ * Nombre por defecto de una entidad al navegarla (User -> user)
+ */
+export const toLinkName = (name: string): string =>
+  name.charAt(0).toLowerCase() + name.slice(1);
+
+/**
+ * Nombre derivado de una clave foránea (author_id -> author, authorId -> author)
+ */
+export const fromForeignKeyName = (name: string): string | null => {
+  const stripped = name.replace(/(_id|Id)$/, "");
+  return stripped !== name && stripped !== "" ? stripped : null;
+};
+
+/**
+ * Busca en una entidad el campo FK que apunta a otra entidad
+ */
+const findForeignKeyTo = (end: LinkEnd, other: LinkEnd): Field | undefined =>
+  end.fields.find(
+    (field) => field.is_foreign_key && field.foreign_entity_id === other.entity.id
+  );
+
+/**
+ * Columna referenciada por una clave foránea (el campo indicado o el ID)
+ */
+const getReferencedColumn = (fk: Field, referenced: LinkEnd): string => {
+  const target = referenced.fields.find(
+    (field) => field.id === fk.foreign_field_id
+  );
+  return target ? target.name : "id";
+};
+
+/**
+ * Resuelve qué extremo guarda la clave foránea y qué columnas se comparan.
+ * Devuelve null si la relación no tiene columnas con las que navegarse.
+ */
+const resolveColumns = (
+  relationship: EntityRelationship,
+  holder: LinkEnd,
+  referenced: LinkEnd
+): { holderColumn: string; referencedColumn: string } | null => {
+  // Campos explícitos de la relación
+  if (holder.field) {
+    return {
+      holderColumn: holder.field.name,
+      referencedColumn: referenced.field ? referenced.field.name : "id",
+    };
+  }
+
+  // Campo FK definido en la entidad que guarda la referencia
+  const fk = findForeignKeyTo(holder, referenced);
+  if (fk) {
+    return {
+      holderColumn: fk.name,
+      referencedColumn: referenced.field
+        ? referenced.field.name
+        : getReferencedColumn(fk, referenced),
+    };
+  }
+
+  return null;
+};
+
+/**
+ * Construye los vínculos de una relación muchos a muchos, que se navega
+ * por los IDs de los registros a través de su tabla intermedia
+ */
+const buildJunctionLinks = (
+  relationship: EntityRelationship,
+  source: LinkEnd,
+  target: LinkEnd
+): RelationLink[] => {
+  const table = getJunctionTableName(source.entity.project_id, relationship.id);
+  const common = {
+    relationship,
+    cardinality: "many" as const,
+    localColumn: "id",
+    remoteColumn: "id",
+    owner: "junction" as const,
+  };
+
+  return [
+    {
+      ...common,
+      name: relationship.name || toLinkName(target.entity.name),
+      side: "source",
+      entity: target.entity,
+      fields: target.fields,
+      junction: { table, localColumn: "source_id", remoteColumn: "target_id" },
+    },
+    {
+      ...common,
+      name: toLinkName(source.entity.name),
+      side: "target",
+      entity: source.entity,
+      fields: source.fields,
+      junction: { table, localColumn: "target_id", remoteColumn: "source_id" },
+    },
+  ];
+};
+
+/**
+ * Construye los vínculos de una relación en sus dos extremos
+ */
+const buildLinks = (
+  relationship: EntityRelationship,
+  source: LinkEnd,
+  target: LinkEnd
+): RelationLink[] => {
+  let holder: "source" | "target";
+  switch (relationship.relationship_type) {
+    case "many_to_one":
+      holder = "source";
+      break;
+    case "one_to_many":
+      holder = "target";
+      break;
+    case "one_to_one": {
+      // Guarda la referencia el extremo con FK (por defecto el origen)
+      const sourceHolds =
+        source.field?.is_foreign_key || findForeignKeyTo(source, target);
+      const targetHolds =
+        target.field?.is_foreign_key || findForeignKeyTo(target, source);
+      holder = targetHolds && !sourceHolds ? "target" : "source";
+      break;
+    }
+    default:
+      return buildJunctionLinks(relationship, source, target);
+  }
+
+  const holderEnd = holder === "source" ? source : target;
+  const referencedEnd = holder === "source" ? target : source;
+  const columns = resolveColumns(relationship, holderEnd, referencedEnd);
+  if (!columns) {
+    return [];
+  }
+
+  const fkName = fromForeignKeyName(columns.holderColumn);
+  const holderName = fkName || toLinkName(referencedEnd.entity.name);
+  const referencedName = toLinkName(holderEnd.entity.name);
+  const manyFromReferenced = relationship.relationship_type !== "one_to_one";
+
+  // El nombre de la relación identifica el vínculo desde el origen
+  const sourceName =
+    relationship.name || (holder === "source" ? holderName : referencedName);
+  const targetName = holder === "target" ? holderName : referencedName;
+
+  const holderLink = {
+    relationship,
+    entity: referencedEnd.entity,
+    fields: referencedEnd.fields,
+    cardinality: "one" as const,
+    localColumn: columns.holderColumn,
+    remoteColumn: columns.referencedColumn,
+    owner: "local" as const,
+  };
+  const referencedLink = {
+    relationship,
+    entity: holderEnd.entity,
+    fields: holderEnd.fields,
+    cardinality: manyFromReferenced ? ("many" as const) : ("one" as const),
+    localColumn: columns.referencedColumn,
+    remoteColumn: columns.holderColumn,
+    owner: "remote" as const,
+  };
+
+  return holder === "source"
+    ? [
+        { ...holderLink, name: sourceName, side: "source" },
+        { ...referencedLink, name: targetName, side: "target" },
+      ]
+    : [
+        { ...referencedLink, name: sourceName, side: "source" },
+        { ...holderLink, name: targetName, side: "target" },
+      ];
+};
+
+/**
+ * Obtiene los vínculos navegables desde una entidad.
+ * El caché evita recargar entidades y campos al resolver varias entidades seguidas.
+ */
+export const getEntityLinks = async (
+  entity: Entity,
+  cache: LinkCache = new Map()
+): Promise<RelationLink[]> => {
+  const loadEnd = async (entityId: string): Promise<LinkEnd | null> => {
+    const cached = cache.get(entityId);
+    if (cached) {
+      return cached;
+    }
+    const loaded =
+      entityId === entity.id ? entity : await entityRepository.findById(entityId);
+    if (!loaded) {
+      return null;
+    }
+    const end = {
+      entity: loaded,
+      fields: await fieldRepository.findByEntityId(entityId),
+    };
+    cache.set(entityId, end);
+    return end;
+  };
+
+  const relationships = await relationshipRepository.findByEntityId(entity.id);
+  const links: RelationLink[] = [];
+
+  for (const relationship of relationships) {
+    const source = await loadEnd(relationship.source_entity_id);
+    const target = await loadEnd(relationship.target_entity_id);
+    if (!source || !target) {
+      continue;
+    }
+
+    const relationshipLinks = buildLinks(
+      relationship,
+      {
+        ...source,
+        field: source.fields.find((f) => f.id === relationship.source_field_id),
+      },
+      {
+        ...target,
+        field: target.fields.find((f) => f.id === relationship.target_field_id),
+      }
+    );
+
+    // En relaciones de una entidad consigo misma se conservan ambos extremos
+    links.push(
+      ...relationshipLinks.filter((link) =>
+        link.side === "source"
+          ? relationship.source_entity_id === entity.id
+          : relationship.target_entity_id === entity.id
+      )
+    );
+  }
+
+  return links;
+};
+
+/**
+ * Busca un vínculo por nombre (sin distinguir mayúsculas) o por el nombre de la entidad relacionada
+ */
+export const findLink = (
+  links: RelationLink[],
+  name: string
+): RelationLink | undefined => {
+  const lower = name.toLowerCase();
+  return (
+    links.find((link) => link.name.toLowerCase() === lower) ||
+    links.find((link) => link.entity.name.toLowerCase() === lower)
+  );
+};
@@ -0,0 +1,440 @@
+import {
+  SchemaSnapshot,
+  SnapshotEntity,
+  SnapshotField,
+  SnapshotRelationship,
+} from "../repositories/schemaVersionRepository";
+
+export type DiffChange = "added" | "removed" | "changed";
+
+/**
+ * Cambio de una propiedad. Los campos de referencia (entidad o campo
+ * relacionado) se comparan por nombre.
+ */
+export interface PropertyChange {
+  property: string;
+  from: unknown;
+  to: unknown;
+  breaking: boolean;
+}
+
+export interface FieldDiff {
+  name: string;
+  change: DiffChange;
+  breaking: boolean;
+  changes: PropertyChange[];
+}
+
+export interface EntityDiff {
+  name: string;
+  change: DiffChange;
+  /** Eliminada o con algún campo con cambios incompatibles */
+  breaking: boolean;
+  changes: PropertyChange[];
+  fields: FieldDiff[];
+}
+
+export interface RelationshipDiff {
+  entity: string;
+  name: string;
+  change: DiffChange;
+  breaking: boolean;
+  changes: PropertyChange[];
+}
+
+export interface DiffCounts {
+  added: number;
+  removed: number;
+  changed: number;
+}
+
+export interface SchemaDiff {
+  /** Hay cambios que rompen a los clientes del esquema base */
+  breaking: boolean;
+  summary: {
+    entities: DiffCounts;
+    fields: DiffCounts;
+    relationships: DiffCounts;
+    breaking_changes: number;
+    non_breaking_changes: number;
+  };
+  entities: EntityDiff[];
+  relationships: RelationshipDiff[];
+}
+
+/**
+ * Cambios de tipo que no invalidan los valores existentes
+ */
+const COMPATIBLE_TYPE_CHANGES: Record<string, string[]> = {
+  string: ["text"],
+  integer: ["number", "decimal"],
+  number: ["decimal"],
+};
+
+const isTighter = (from: unknown, to: unknown): boolean =>
+  typeof to === "number" && (typeof from !== "number" || to < from);
+
+const isEnabled = (from: unknown, to: unknown): boolean => !from && !!to;
+
+/**
+ * Propiedades comparadas de cada campo y si el cambio de un valor a otro
+ * rompe a los clientes del esquema base
+ */
+const FIELD_PROPERTIES: Array<{
+  property: string;
+  get: (field: SnapshotField, entities: Map<string, string>) => unknown;
+  isBreaking: (from: unknown, to: unknown) => boolean;
+}> = [
+  {
+    property: "type",
+    get: (field) => field.type,
+    isBreaking: (from, to) =>
+      !COMPATIBLE_TYPE_CHANGES[from as string]?.includes(to as string),
+  },
+  {
+    property: "is_required",
+    get: (field) => field.is_required,
+    isBreaking: isEnabled,
+  },
+  {
+    property: "max_length",
+    get: (field) => field.max_length ?? null,
+    isBreaking: isTighter,
+  },
+  {
+    property: "is_unique",
+    get: (field) => field.is_unique,
+    isBreaking: isEnabled,
+  },
+  {
+    property: "is_primary_key",
+    get: (field) => field.is_primary_key,
+    isBreaking: () => true,
+  },
+  {
+    property: "is_foreign_key",
+    get: (field) => field.is_foreign_key,
+    isBreaking: isEnabled,
+  },
+  {
+    property: "foreign_entity",
+    get: (field, entities) =>
+      (field.foreign_entity_id && entities.get(field.foreign_entity_id)) ??
+      null,
+    isBreaking: (_from, to) => to !== null,
+  },
+  {
+    property: "default_value",
+    get: (field) => field.default_value ?? null,
+    isBreaking: () => false,
+  },
+  {
+    property: "accepts_multiple",
+    get: (field) => field.accepts_multiple,
+    isBreaking: () => true,
+  },
+  {
+    property: "max_file_size",
+    get: (field) => field.max_file_size ?? null,
+    isBreaking: isTighter,
+  },
+  {
+    property: "allowed_extensions",
+    get: (field) => field.allowed_extensions ?? null,
+    isBreaking: (_from, to) => to !== null,
+  },
+  {
+    property: "description",
+    get: (field) => field.description ?? null,
+    isBreaking: () => false,
+  },
+];
+
+/**
+ * Modelo de un proyecto indexado por nombre para compararlo
+ */
+interface IndexedSnapshot {
+  entities: Map<string, SnapshotEntity>;
+  entityNames: Map<string, string>;
+  fieldNames: Map<string, string>;
+  relationships: Map<string, SnapshotRelationship>;
+}
+
+const getRelationshipName = (
+  relationship: SnapshotRelationship,
+  entityNames: Map<string, string>
+): string =>
+  relationship.name ||
+  `${relationship.relationship_type}:${entityNames.get(
+    relationship.target_entity_id
+  )}`;
+
+const indexSnapshot = (snapshot: SchemaSnapshot): IndexedSnapshot => {
+  const entityNames = new Map(
+    snapshot.entities.map((entity) => [entity.id, entity.name])
+  );
+  const fieldNames = new Map(
+    snapshot.entities.flatMap((entity) =>
+      entity.fields.map((field) => [field.id, field.name] as const)
+    )
+  );
+
+  const relationships = new Map<string, SnapshotRelationship>();
+  for (const relationship of snapshot.relationships) {
+    const source = entityNames.get(relationship.source_entity_id);
+    relationships.set(
+      `${source}.${getRelationshipName(relationship, entityNames)}`,
+      relationship
+    );
+  }
+
+  return {
+    entities: new Map(
+      snapshot.entities.map((entity) => [entity.name, entity])
+    ),
+    entityNames,
+    fieldNames,
+    relationships,
+  };
+};
+
+const diffField = (
+  base: SnapshotField,
+  target: SnapshotField,
+  baseIndex: IndexedSnapshot,
+  targetIndex: IndexedSnapshot
+): PropertyChange[] => {
+  const changes: PropertyChange[] = [];
+  for (const { property, get, isBreaking } of FIELD_PROPERTIES) {
+    const from = get(base, baseIndex.entityNames);
+    const to = get(target, targetIndex.entityNames);
+    if (from !== to) {
+      changes.push({ property, from, to, breaking: isBreaking(from, to) });
+    }
+  }
+  return changes;
+};
+
+const diffFields = (
+  base: SnapshotEntity,
+  target: SnapshotEntity,
+  baseIndex: IndexedSnapshot,
+  targetIndex: IndexedSnapshot
+): FieldDiff[] => {
+  const diffs: FieldDiff[] = [];
+  const targetFields = new Map(
+    target.fields.map((field) => [field.name, field])
+  );
+  const baseFields = new Map(base.fields.map((field) => [field.name, field]));
+
+  for (const field of base.fields) {
+    const targetField = targetFields.get(field.name);
+    if (!targetField) {
+      diffs.push({
+        name: field.name,
+        change: "removed",
+        breaking: true,
+        changes: [],
+      });
+      continue;
+    }
+    const changes = diffField(field, targetField, baseIndex, targetIndex);
+    if (changes.length > 0) {
+      diffs.push({
+        name: field.name,
+        change: "changed",
+        breaking: changes.some((change) => change.breaking),
+        changes,
+      });
+    }
+  }
+
+  for (const field of target.fields) {
+    if (!baseFields.has(field.name)) {
+      // Un campo obligatorio sin valor por defecto invalida las escrituras
+      diffs.push({
+        name: field.name,
+        change: "added",
+        breaking: field.is_required && field.default_value === undefined,
+        changes: [],
+      });
+    }
+  }
+
+  return diffs;
+};
+
+const describeRelationship = (
+  relationship: SnapshotRelationship,
+  index: IndexedSnapshot
+): Record<string, unknown> => ({
+  relationship_type: relationship.relationship_type,
+  target_entity: index.entityNames.get(relationship.target_entity_id),
+  source_field:
+    (relationship.source_field_id &&
+      index.fieldNames.get(relationship.source_field_id)) ??
+    null,
+  target_field:
+    (relationship.target_field_id &&
+      index.fieldNames.get(relationship.target_field_id)) ??
+    null,
+  is_required: relationship.is_required,
+  cascade_delete: relationship.cascade_delete,
+  description: relationship.description ?? null,
+});
+
+const diffRelationship = (
+  base: SnapshotRelationship,
+  target: SnapshotRelationship,
+  baseIndex: IndexedSnapshot,
+  targetIndex: IndexedSnapshot
+): PropertyChange[] => {
+  const from = describeRelationship(base, baseIndex);
+  const to = describeRelationship(target, targetIndex);
+
+  return Object.keys(from)
+    .filter((property) => from[property] !== to[property])
+    .map((property) => ({
+      property,
+      from: from[property],
+      to: to[property],
+      breaking:
+        property === "is_required" || property === "cascade_delete"
+          ? isEnabled(from[property], to[property])
+          : property !== "description",
+    }));
+};
+
+const countDiffs = (diffs: Array<{ change: DiffChange }>): DiffCounts => ({
+  added: diffs.filter((diff) => diff.change === "added").length,
+  removed: diffs.filter((diff) => diff.change === "removed").length,
+  changed: diffs.filter((diff) => diff.change === "changed").length,
+});
+
+/**
+ * Compara dos modelos emparejando entidades, campos y relaciones por nombre.
+ * Los cambios se expresan desde base hacia target y se marcan como
+ * incompatibles (breaking) cuando pueden romper a quien usa el esquema base:
+ * eliminaciones, tipos que no admiten los valores existentes, restricciones
+ * nuevas o más estrictas y campos obligatorios nuevos sin valor por defecto.
+ */
+export const diffSchemaSnapshots = (
+  base: SchemaSnapshot,
+  target: SchemaSnapshot
+): SchemaDiff => {
+  const baseIndex = indexSnapshot(base);
+  const targetIndex = indexSnapshot(target);
+
+  const entities: EntityDiff[] = [];
+  for (const entity of base.entities) {
+    const targetEntity = targetIndex.entities.get(entity.name);
+    if (!targetEntity) {
+      entities.push({
+        name: entity.name,
+        change: "removed",
+        breaking: true,
+        changes: [],
+        fields: [],
+      });
+      continue;
+    }
+
+    const changes: PropertyChange[] = [];
+    if ((entity.description ?? null) !== (targetEntity.description ?? null)) {
+      changes.push({
+        property: "description",
+        from: entity.description ?? null,
+        to: targetEntity.description ?? null,
+        breaking: false,
+      });
+    }
+    const fields = diffFields(entity, targetEntity, baseIndex, targetIndex);
+    if (changes.length > 0 || fields.length > 0) {
+      entities.push({
+        name: entity.name,
+        change: "changed",
+        breaking: fields.some((field) => field.breaking),
+        changes,
+        fields,
+      });
+    }
+  }
+  for (const entity of target.entities) {
+    if (!baseIndex.entities.has(entity.name)) {
+      entities.push({
+        name: entity.name,
+        change: "added",
+        breaking: false,
+        changes: [],
+        fields: [],
+      });
+    }
+  }
+
+  const relationships: RelationshipDiff[] = [];
+  const describeKey = (
+    key: string,
+    change: DiffChange,
+    breaking: boolean,
+    changes: PropertyChange[] = []
+  ): RelationshipDiff => {
+    const separator = key.indexOf(".");
+    return {
+      entity: key.slice(0, separator),
+      name: key.slice(separator + 1),
+      change,
+      breaking,
+      changes,
+    };
+  };
+  for (const [key, relationship] of baseIndex.relationships) {
+    const targetRelationship = targetIndex.relationships.get(key);
+    if (!targetRelationship) {
+      relationships.push(describeKey(key, "removed", true));
+      continue;
+    }
+    const changes = diffRelationship(
+      relationship,
+      targetRelationship,
+      baseIndex,
+      targetIndex
+    );
+    if (changes.length > 0) {
+      relationships.push(
+        describeKey(
+          key,
+          "changed",
+          changes.some((change) => change.breaking),
+          changes
+        )
+      );
+    }
+  }
+  for (const [key, relationship] of targetIndex.relationships) {
+    if (!baseIndex.relationships.has(key)) {
+      relationships.push(describeKey(key, "added", relationship.is_required));
+    }
+  }
+
+  // Cada entidad añadida o eliminada, campo y relación cuenta como un cambio
+  const changes = [
+    ...entities.filter((entity) => entity.change !== "changed"),
+    ...entities.flatMap((entity) => entity.changes),
+    ...entities.flatMap((entity) => entity.fields),
+    ...relationships,
+  ];
+  const breakingChanges = changes.filter((change) => change.breaking).length;
+
+  return {
+    breaking: breakingChanges > 0,
+    summary: {
+      entities: countDiffs(entities),
+      fields: countDiffs(entities.flatMap((entity) => entity.fields)),
+      relationships: countDiffs(relationships),
+      breaking_changes: breakingChanges,
+      non_breaking_changes: changes.length - breakingChanges,
+    },
+    entities,
+    relationships,
+  };
+};
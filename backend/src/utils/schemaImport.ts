@@ -0,0 +1,606 @@
+import { getDatabase } from "../config/database";
+import {
+  EntityRelationship,
+  EntityRelationshipRepository,
+  RelationshipType,
+} from "../repositories/entityRelationshipRepository";
+import { Entity, EntityRepository } from "../repositories/entityRepository";
+import { Field, FieldRepository } from "../repositories/fieldRepository";
+import { SYSTEM_COLUMNS } from "./dataTables";
+import { syncEntityTable, syncJunctionTable } from "./schemaSync";
+import { recordSchemaVersion } from "./schemaVersions";
+import { generateUUID } from "./uuid";
+
+const entityRepository = new EntityRepository();
+const fieldRepository = new FieldRepository();
+const relationshipRepository = new EntityRelationshipRepository();
+
+/**
+ * Columna de una tabla importada, ya traducida a un tipo de campo
+ */
+export interface ImportedColumn {
+  name: string;
+  type: string;
+  max_length?: number;
+  is_required: boolean;
+  is_unique: boolean;
+  default_value?: string;
+  description?: string;
+  /** Campos de archivo: admite una lista de archivos */
+  accepts_multiple?: boolean;
+}
+
+/**
+ * Clave foránea de una tabla importada
+ */
+export interface ImportedForeignKey {
+  columns: string[];
+  table: string;
+  /** Columnas referenciadas (vacío: la clave primaria de la tabla) */
+  referenced_columns: string[];
+  on_delete?:
+    | "cascade"
+    | "set_null"
+    | "restrict"
+    | "no_action"
+    | "set_default";
+  /** Relación descrita por el formato de origen (Prisma), si la hay */
+  relationship?: ImportedRelationship;
+}
+
+/**
+ * Datos de la relación de una clave foránea que el SQL no expresa
+ */
+export interface ImportedRelationship {
+  name?: string;
+  description?: string;
+  is_required?: boolean;
+  /** El otro extremo admite un solo registro */
+  one_to_one?: boolean;
+  /** La relación se define desde la tabla referenciada (uno a muchos) */
+  inverse?: boolean;
+}
+
+/**
+ * Tabla leída de un esquema externo (DDL, base de datos, Prisma...)
+ */
+export interface ImportedTable {
+  name: string;
+  description?: string;
+  columns: ImportedColumn[];
+  primary_key: string[];
+  foreign_keys: ImportedForeignKey[];
+}
+
+/**
+ * Esquema externo a importar, con los avisos de su lectura
+ */
+export interface ImportedSchema {
+  tables: ImportedTable[];
+  warnings: string[];
+}
+
+export interface PlannedField {
+  name: string;
+  type: string;
+  is_required: boolean;
+  is_unique: boolean;
+  is_primary_key: boolean;
+  default_value?: string;
+  max_length?: number;
+  description?: string;
+  accepts_multiple?: boolean;
+  /** Entidad (y campo, si no es el id) referenciados por una clave foránea */
+  foreign_entity?: string;
+  foreign_field?: string;
+}
+
+export interface PlannedEntity {
+  name: string;
+  description?: string;
+  /** create: se crea; skip: ya existe una entidad con ese nombre y se conserva */
+  action: "create" | "skip";
+  /** Tabla de origen */
+  table: string;
+  fields: PlannedField[];
+}
+
+export interface PlannedRelationship {
+  source_entity: string;
+  target_entity: string;
+  relationship_type: RelationshipType;
+  source_field?: string;
+  target_field?: string;
+  name?: string;
+  description?: string;
+  is_required: boolean;
+  cascade_delete: boolean;
+  /**
+   * Tabla intermedia de origen de una relación muchos a muchos. Las claves
+   * (source_key/target_key) son las columnas referenciadas cuando no son el id
+   */
+  junction?: {
+    table: string;
+    source_column: string;
+    target_column: string;
+    source_key?: string;
+    target_key?: string;
+  };
+}
+
+export interface ImportConflict {
+  entity: string;
+  table: string;
+  message: string;
+}
+
+/**
+ * Cambios que produciría una importación sobre el proyecto
+ */
+export interface ImportPlan {
+  entities: PlannedEntity[];
+  relationships: PlannedRelationship[];
+  conflicts: ImportConflict[];
+  warnings: string[];
+}
+
+export interface ImportOptions {
+  /** Conserva las entidades existentes en lugar de considerarlas conflictos */
+  skipExisting?: boolean;
+}
+
+/**
+ * Resultado de aplicar un plan de importación
+ */
+export interface ImportResult {
+  entities: Entity[];
+  fields: Field[];
+  relationships: EntityRelationship[];
+}
+
+/**
+ * Nombre de una entidad ya existente o planificada y sus campos
+ */
+interface KnownEntity {
+  name: string;
+  fields: string[];
+  primaryKey: string[];
+}
+
+/**
+ * Indica si una tabla es la intermedia de una relación muchos a muchos:
+ * solo tiene dos claves foráneas simples (y marcas de tiempo)
+ */
+const isJunctionTable = (table: ImportedTable): boolean => {
+  if (
+    table.foreign_keys.length !== 2 ||
+    table.foreign_keys.some((fk) => fk.columns.length !== 1)
+  ) {
+    return false;
+  }
+  const fkColumns = table.foreign_keys.map((fk) => fk.columns[0]);
+  return (
+    fkColumns[0] !== fkColumns[1] &&
+    table.columns.every(
+      (column) =>
+        fkColumns.includes(column.name) ||
+        ["id", "created_at", "updated_at"].includes(column.name)
+    )
+  );
+};
+
+/**
+ * Nombre de la relación muchos a muchos de una tabla intermedia
+ * (Post_tags entre Post y Tag -> tags)
+ */
+const getJunctionName = (table: string, source: string): string => {
+  const prefix = `${source}_`.toLowerCase();
+  return table.toLowerCase().startsWith(prefix) &&
+    table.length > prefix.length
+    ? table.slice(prefix.length)
+    : table;
+};
+
+/**
+ * Normaliza el valor por defecto de una columna booleana (1, 't', TRUE...)
+ */
+const toBooleanDefault = (value: string): string =>
+  ["1", "true", "t", "y", "yes"].includes(value.toLowerCase())
+    ? "true"
+    : "false";
+
+/**
+ * Calcula los cambios de una importación: entidades, campos y relaciones a
+ * crear, y los conflictos con las entidades existentes del proyecto
+ * (projectId null: importación en un proyecto nuevo)
+ */
+export const planSchemaImport = async (
+  projectId: string | null,
+  schema: ImportedSchema,
+  options: ImportOptions = {}
+): Promise<ImportPlan> => {
+  const plan: ImportPlan = {
+    entities: [],
+    relationships: [],
+    conflicts: [],
+    warnings: [...schema.warnings],
+  };
+
+  // Entidades existentes, indexadas por nombre sin distinguir mayúsculas
+  const known = new Map<string, KnownEntity>();
+  const projectEntities = projectId
+    ? await entityRepository.findByProjectId(projectId)
+    : [];
+  for (const entity of projectEntities) {
+    const fields = await fieldRepository.findByEntityId(entity.id);
+    known.set(entity.name.toLowerCase(), {
+      name: entity.name,
+      fields: fields.map((field) => field.name),
+      primaryKey: fields
+        .filter((field) => field.is_primary_key)
+        .map((field) => field.name),
+    });
+  }
+
+  // Una tabla intermedia solo puede unir tablas del esquema o entidades
+  const names = new Set([
+    ...known.keys(),
+    ...schema.tables.map((table) => table.name.toLowerCase()),
+  ]);
+  const tables: ImportedTable[] = [];
+  const junctions: ImportedTable[] = [];
+  const seen = new Set<string>();
+  for (const table of schema.tables) {
+    if (seen.has(table.name.toLowerCase())) {
+      plan.warnings.push(`La tabla ${table.name} está repetida; se ignora`);
+      continue;
+    }
+    seen.add(table.name.toLowerCase());
+    const isJunction =
+      isJunctionTable(table) &&
+      table.foreign_keys.every((fk) => names.has(fk.table.toLowerCase()));
+    (isJunction ? junctions : tables).push(table);
+  }
+
+  // Entidades y campos
+  const planned = new Map<string, PlannedEntity>();
+  for (const table of tables) {
+    const existing = known.get(table.name.toLowerCase());
+    if (existing) {
+      plan.conflicts.push({
+        entity: existing.name,
+        table: table.name,
+        message: `Ya existe una entidad con el nombre ${existing.name}`,
+      });
+      if (!options.skipExisting) {
+        continue;
+      }
+    }
+
+    // El id identifica los registros; otra clave primaria simple se conserva
+    // como campo clave primaria
+    const primaryKey =
+      table.primary_key.length === 1 &&
+      table.primary_key[0].toLowerCase() !== "id"
+        ? table.primary_key[0]
+        : null;
+    if (table.primary_key.length > 1) {
+      plan.warnings.push(
+        `La clave primaria compuesta de ${table.name} (${table.primary_key.join(
+          ", "
+        )}) no se importa: los registros se identifican por id`
+      );
+    }
+
+    // Las columnas de sistema las crea cada tabla de datos; los nombres de
+    // columna no distinguen mayúsculas en SQLite
+    const fields: PlannedField[] = [];
+    const columnNames = new Set(SYSTEM_COLUMNS);
+    for (const column of table.columns) {
+      const key = column.name.toLowerCase();
+      if (columnNames.has(key)) {
+        if (!SYSTEM_COLUMNS.includes(key)) {
+          plan.warnings.push(
+            `La columna ${table.name}.${column.name} está repetida; se ignora`
+          );
+        }
+        continue;
+      }
+      columnNames.add(key);
+      fields.push({
+        name: column.name,
+        type: column.type,
+        is_required: column.is_required || column.name === primaryKey,
+        is_unique: column.is_unique || column.name === primaryKey,
+        is_primary_key: column.name === primaryKey,
+        default_value:
+          column.type === "boolean" && column.default_value !== undefined
+            ? toBooleanDefault(column.default_value)
+            : column.default_value,
+        max_length: column.max_length,
+        description: column.description,
+        accepts_multiple: column.accepts_multiple,
+      });
+    }
+
+    const entity: PlannedEntity = {
+      name: existing ? existing.name : table.name,
+      description: table.description,
+      action: existing ? "skip" : "create",
+      table: table.name,
+      fields,
+    };
+    plan.entities.push(entity);
+    planned.set(table.name.toLowerCase(), entity);
+    if (!existing) {
+      known.set(table.name.toLowerCase(), {
+        name: table.name,
+        fields: fields.map((field) => field.name),
+        primaryKey: primaryKey ? [primaryKey] : [],
+      });
+    }
+  }
+
+  /**
+   * Resuelve la entidad y la columna referenciadas por una clave foránea.
+   * La columna es undefined cuando se referencia el id.
+   */
+  const resolveReference = (
+    table: string,
+    fk: ImportedForeignKey
+  ): { entity: KnownEntity; column?: string } | null => {
+    const entity = known.get(fk.table.toLowerCase());
+    if (!entity) {
+      plan.warnings.push(
+        `La clave foránea ${table}.${fk.columns.join(", ")} referencia la tabla ${fk.table}, que no existe; se importa como campo simple`
+      );
+      return null;
+    }
+    const column = fk.referenced_columns[0] ?? entity.primaryKey[0] ?? "id";
+    if (column.toLowerCase() === "id") {
+      return { entity };
+    }
+    if (!entity.fields.includes(column)) {
+      plan.warnings.push(
+        `La clave foránea ${table}.${fk.columns[0]} referencia ${entity.name}.${column}, que no existe; se importa como campo simple`
+      );
+      return null;
+    }
+    return { entity, column };
+  };
+
+  // Relaciones a partir de las claves foráneas
+  for (const table of tables) {
+    const entity = planned.get(table.name.toLowerCase());
+    if (!entity || entity.action === "skip") {
+      continue;
+    }
+
+    for (const fk of table.foreign_keys) {
+      if (fk.columns.length !== 1 || fk.referenced_columns.length > 1) {
+        plan.warnings.push(
+          `La clave foránea compuesta ${table.name}(${fk.columns.join(
+            ", "
+          )}) no se importa`
+        );
+        continue;
+      }
+      const field = entity.fields.find((item) => item.name === fk.columns[0]);
+      const reference = resolveReference(table.name, fk);
+      if (!field || !reference) {
+        continue;
+      }
+
+      field.foreign_entity = reference.entity.name;
+      field.foreign_field = reference.column;
+      // Los IDs de registro son textos (UUID)
+      if (!reference.column) {
+        field.type = "string";
+        field.max_length = undefined;
+      }
+
+      const hint = fk.relationship;
+      const oneToOne = hint?.one_to_one ?? field.is_unique;
+      const common = {
+        name: hint?.name,
+        description: hint?.description,
+        is_required: hint?.is_required ?? field.is_required,
+        cascade_delete: fk.on_delete === "cascade",
+      };
+      plan.relationships.push(
+        hint?.inverse
+          ? {
+              source_entity: reference.entity.name,
+              target_entity: entity.name,
+              relationship_type: oneToOne ? "one_to_one" : "one_to_many",
+              source_field: reference.column,
+              target_field: field.name,
+              ...common,
+            }
+          : {
+              source_entity: entity.name,
+              target_entity: reference.entity.name,
+              relationship_type: oneToOne ? "one_to_one" : "many_to_one",
+              source_field: field.name,
+              target_field: reference.column,
+              ...common,
+            }
+      );
+    }
+  }
+
+  // Columna referenciada por una tabla intermedia, si no es el id
+  const getReferencedKey = (fk: ImportedForeignKey, entity: KnownEntity) => {
+    const column = fk.referenced_columns[0] ?? entity.primaryKey[0];
+    return column && column.toLowerCase() !== "id" ? column : undefined;
+  };
+
+  // Tablas intermedias como relaciones muchos a muchos
+  for (const table of junctions) {
+    const [first, second] = table.foreign_keys;
+    // source_id/target_id (formato de exportación) fijan la dirección
+    const [sourceFk, targetFk] =
+      first.columns[0] === "target_id" ? [second, first] : [first, second];
+    const source = known.get(sourceFk.table.toLowerCase());
+    const target = known.get(targetFk.table.toLowerCase());
+    if (!source || !target) {
+      plan.warnings.push(
+        `La tabla intermedia ${table.name} referencia tablas que no existen; se ignora`
+      );
+      continue;
+    }
+    // Entre dos entidades que ya existían la relación se conserva como está
+    if (
+      [sourceFk, targetFk].every(
+        (fk) => planned.get(fk.table.toLowerCase())?.action !== "create"
+      )
+    ) {
+      continue;
+    }
+
+    plan.relationships.push({
+      source_entity: source.name,
+      target_entity: target.name,
+      relationship_type: "many_to_many",
+      name: getJunctionName(table.name, source.name),
+      description: table.description,
+      is_required: false,
+      cascade_delete: false,
+      junction: {
+        table: table.name,
+        source_column: sourceFk.columns[0],
+        target_column: targetFk.columns[0],
+        source_key: getReferencedKey(sourceFk, source),
+        target_key: getReferencedKey(targetFk, target),
+      },
+    });
+  }
+
+  return plan;
+};
+
+/**
+ * Aplica un plan de importación: crea entidades, campos y relaciones en una
+ * transacción y después materializa sus tablas de datos
+ */
+export const applySchemaImport = async (
+  projectId: string,
+  plan: ImportPlan
+): Promise<ImportResult> => {
+  const result: ImportResult = { entities: [], fields: [], relationships: [] };
+  const entities = new Map<string, Entity>();
+  const fields = new Map<string, Field[]>();
+
+  for (const entity of await entityRepository.findByProjectId(projectId)) {
+    entities.set(entity.name.toLowerCase(), entity);
+    fields.set(entity.id, await fieldRepository.findByEntityId(entity.id));
+  }
+
+  // IDs de campo por entidad y nombre; los de los campos nuevos se generan
+  // de antemano para poder referenciarlos antes de crearlos
+  const fieldIds = new Map<string, string>();
+  for (const [entityId, items] of fields) {
+    for (const field of items) {
+      fieldIds.set(`${entityId}:${field.name}`, field.id);
+    }
+  }
+  const findFieldId = (entity: Entity, name?: string): string | undefined =>
+    name ? fieldIds.get(`${entity.id}:${name}`) : undefined;
+  const getEntity = (name: string): Entity => {
+    const entity = entities.get(name.toLowerCase());
+    if (!entity) {
+      throw new Error(`Entidad ${name} no encontrada`);
+    }
+    return entity;
+  };
+
+  const db = getDatabase();
+  db.exec("BEGIN");
+  try {
+    // Las claves foráneas entre campos se comprueban al confirmar
+    db.exec("PRAGMA defer_foreign_keys = ON");
+    const toCreate = plan.entities.filter((item) => item.action === "create");
+
+    for (const item of toCreate) {
+      const entity = await entityRepository.create(generateUUID(), {
+        project_id: projectId,
+        name: item.name,
+        description: item.description,
+      });
+      entities.set(entity.name.toLowerCase(), entity);
+      fields.set(entity.id, []);
+      for (const planned of item.fields) {
+        fieldIds.set(`${entity.id}:${planned.name}`, generateUUID());
+      }
+      result.entities.push(entity);
+    }
+
+    for (const item of toCreate) {
+      const entity = getEntity(item.name);
+      for (const planned of item.fields) {
+        const foreignEntity = planned.foreign_entity
+          ? getEntity(planned.foreign_entity)
+          : undefined;
+        const field = await fieldRepository.create(
+          findFieldId(entity, planned.name) as string,
+          {
+            entity_id: entity.id,
+            name: planned.name,
+            type: planned.type,
+            is_required: planned.is_required,
+            is_unique: planned.is_unique,
+            is_primary_key: planned.is_primary_key,
+            is_foreign_key: !!foreignEntity,
+            foreign_entity_id: foreignEntity?.id,
+            foreign_field_id: foreignEntity
+              ? findFieldId(foreignEntity, planned.foreign_field)
+              : undefined,
+            default_value: planned.default_value,
+            max_length: planned.max_length,
+            description: planned.description,
+            accepts_multiple: planned.accepts_multiple,
+          }
+        );
+        fields.get(entity.id)?.push(field);
+        result.fields.push(field);
+      }
+    }
+
+    for (const planned of plan.relationships) {
+      const source = getEntity(planned.source_entity);
+      const target = getEntity(planned.target_entity);
+      result.relationships.push(
+        await relationshipRepository.create(generateUUID(), {
+          source_entity_id: source.id,
+          target_entity_id: target.id,
+          relationship_type: planned.relationship_type,
+          source_field_id: findFieldId(source, planned.source_field),
+          target_field_id: findFieldId(target, planned.target_field),
+          name: planned.name,
+          description: planned.description,
+          is_required: planned.is_required,
+          cascade_delete: planned.cascade_delete,
+        })
+      );
+    }
+
+    db.exec("COMMIT");
+  } catch (error) {
+    db.exec("ROLLBACK");
+    throw error;
+  }
+
+  // Tablas físicas de las entidades y tablas intermedias
+  for (const entity of result.entities) {
+    syncEntityTable(entity, fields.get(entity.id) || []);
+  }
+  for (const relationship of result.relationships) {
+    syncJunctionTable(relationship);
+  }
+  await recordSchemaVersion(
+    projectId,
+    `Importación de ${result.entities.length} entidades, ${result.fields.length} campos y ${result.relationships.length} relaciones`
+  );
+
+  return result;
+};
@@ -0,0 +1,1084 @@
+import { DatabaseSync, SupportedValueType } from "node:sqlite";
+import { getDatabase } from "../config/database";
+import { EntityRelationship } from "../repositories/entityRelationshipRepository";
+import { Entity } from "../repositories/entityRepository";
+import { Field } from "../repositories/fieldRepository";
+import {
+  convertColumnValue,
+  getDataTableName,
+  getJunctionTableName,
+  getProjectTablePrefix,
+  getSqliteType,
+  isDataColumn,
+  quoteIdentifier,
+  renderDefaultValue,
+  SYSTEM_COLUMNS,
+} from "./dataTables";
+
+/**
+ * Definición deseada de una columna de datos
+ */
+interface ColumnSpec {
+  name: string;
+  fieldType: string;
+  type: string;
+  notNull: boolean;
+  unique: boolean;
+  defaultValue: string | null;
+  references: { table: string; column: string } | null;
+}
+
+/**
+ * Definición actual de una columna, leída desde SQLite
+ */
+interface ActualColumn {
+  type: string;
+  notNull: boolean;
+  unique: boolean;
+  defaultValue: string | null;
+  references: { table: string; column: string } | null;
+}
+
+/**
+ * Columna de la tabla nueva y la columna actual de la que toma sus datos
+ */
+interface ColumnMigration {
+  spec: ColumnSpec;
+  source: string | null;
+}
+
+export type SchemaSyncAction = "none" | "create" | "alter" | "rebuild";
+
+export interface SchemaSyncIssue {
+  field: string;
+  kind: "data_loss" | "conflict";
+  message: string;
+  affected_rows: number;
+}
+
+export interface SchemaSyncPlan {
+  entity_id: string;
+  table: string;
+  action: SchemaSyncAction;
+  issues: SchemaSyncIssue[];
+  warnings: string[];
+}
+
+export interface SchemaSyncOptions {
+  /** Columnas renombradas: nombre anterior -> nombre nuevo */
+  renames?: Record<string, string>;
+  /** Permite descartar valores que no sobreviven al cambio */
+  allowDataLoss?: boolean;
+}
+
+/**
+ * Error lanzado cuando un cambio de esquema no se puede aplicar sin perder datos
+ */
+export class SchemaSyncError extends Error {
+  public readonly plan: SchemaSyncPlan;
+
+  constructor(message: string, plan: SchemaSyncPlan) {
+    super(message);
+    this.name = "SchemaSyncError";
+    this.plan = plan;
+  }
+}
+
+interface SchemaAnalysis {
+  plan: SchemaSyncPlan;
+  specs: ColumnSpec[];
+  migrations: ColumnMigration[];
+  actual: Map<string, ActualColumn>;
+}
+
+const tableExists = (db: DatabaseSync, table: string): boolean =>
+  !!db
+    .prepare("SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = ?")
+    .get(table);
+
+const listTables = (db: DatabaseSync, prefix: string): string[] =>
+  (
+    db
+      .prepare(
+        "SELECT name FROM sqlite_master WHERE type = 'table' AND substr(name, 1, ?) = ?"
+      )
+      .all(prefix.length, prefix) as Array<{ name: string }>
+  ).map((row) => row.name);
+
+const loadEntity = (db: DatabaseSync, entityId: string): Entity | undefined =>
+  db.prepare("SELECT * FROM entities WHERE id = ?").get(entityId) as
+    | Entity
+    | undefined;
+
+const loadFields = (db: DatabaseSync, entityId: string): Field[] =>
+  db
+    .prepare("SELECT * FROM fields WHERE entity_id = ? ORDER BY created_at ASC")
+    .all(entityId) as unknown as Field[];
+
+const countRows = (db: DatabaseSync, table: string): number =>
+  (
+    db.prepare(`SELECT COUNT(*) as count FROM ${quoteIdentifier(table)}`).get() as {
+      count: number;
+    }
+  ).count;
+
+/**
+ * Resuelve la tabla y columna referenciadas por un campo clave foránea
+ */
+const resolveReference = (
+  db: DatabaseSync,
+  field: Field,
+  warnings: string[]
+): { table: string; column: string } | null => {
+  if (!field.is_foreign_key || !field.foreign_entity_id) {
+    return null;
+  }
+
+  const foreignEntity = loadEntity(db, field.foreign_entity_id);
+  if (!foreignEntity) {
+    return null;
+  }
+
+  let column = "id";
+  if (field.foreign_field_id) {
+    const foreignField = db
+      .prepare("SELECT * FROM fields WHERE id = ?")
+      .get(field.foreign_field_id) as Field | undefined;
+
+    if (foreignField && isDataColumn(foreignField)) {
+      // SQLite exige que la columna referenciada sea única
+      if (!foreignField.is_unique && !foreignField.is_primary_key) {
+        warnings.push(
+          `La clave foránea ${field.name} no se materializa: el campo referenciado ${foreignField.name} no es único`
+        );
+        return null;
+      }
+      column = foreignField.name;
+    }
+  }
+
+  return { table: getDataTableName(foreignEntity), column };
+};
+
+const buildColumnSpecs = (
+  db: DatabaseSync,
+  fields: Field[],
+  warnings: string[]
+): ColumnSpec[] =>
+  fields.filter(isDataColumn).map((field) => ({
+    name: field.name,
+    fieldType: field.type,
+    type: getSqliteType(field.type),
+    notNull: !!field.is_required || !!field.is_primary_key,
+    unique: !!field.is_unique || !!field.is_primary_key,
+    defaultValue: renderDefaultValue(field),
+    references: resolveReference(db, field, warnings),
+  }));
+
+const renderColumn = (spec: ColumnSpec): string =>
+  [
+    quoteIdentifier(spec.name),
+    spec.type,
+    spec.notNull ? "NOT NULL" : "",
+    spec.unique ? "UNIQUE" : "",
+    spec.defaultValue !== null ? `DEFAULT ${spec.defaultValue}` : "",
+    spec.references
+      ? `REFERENCES ${quoteIdentifier(spec.references.table)}(${quoteIdentifier(
+          spec.references.column
+        )})`
+      : "",
+  ]
+    .filter(Boolean)
+    .join(" ");
+
+const buildCreateTable = (table: string, specs: ColumnSpec[]): string =>
+  `CREATE TABLE ${quoteIdentifier(table)} (${[
+    "id TEXT PRIMARY KEY",
+    ...specs.map(renderColumn),
+    "created_at DATETIME DEFAULT CURRENT_TIMESTAMP",
+    "updated_at DATETIME DEFAULT CURRENT_TIMESTAMP",
+  ].join(", ")})`;
+
+/**
+ * Lee la definición actual de las columnas de datos de una tabla
+ */
+const readActualColumns = (
+  db: DatabaseSync,
+  table: string
+): Map<string, ActualColumn> => {
+  const quoted = quoteIdentifier(table);
+  const tableInfo = db.prepare(`PRAGMA table_info(${quoted})`).all() as Array<{
+    name: string;
+    type: string;
+    notnull: number;
+    dflt_value: string | null;
+  }>;
+
+  // Columnas con restricción UNIQUE de una sola columna
+  const uniqueColumns = new Set<string>();
+  const indexes = db.prepare(`PRAGMA index_list(${quoted})`).all() as Array<{
+    name: string;
+    unique: number;
+    origin: string;
+  }>;
+  for (const index of indexes.filter((i) => i.unique && i.origin === "u")) {
+    const columns = db
+      .prepare(`PRAGMA index_info(${quoteIdentifier(index.name)})`)
+      .all() as Array<{ name: string }>;
+    if (columns.length === 1) {
+      uniqueColumns.add(columns[0].name);
+    }
+  }
+
+  const foreignKeys = db
+    .prepare(`PRAGMA foreign_key_list(${quoted})`)
+    .all() as Array<{ table: string; from: string; to: string }>;
+
+  const columns = new Map<string, ActualColumn>();
+  for (const column of tableInfo) {
+    if (SYSTEM_COLUMNS.includes(column.name)) {
+      continue;
+    }
+
+    const foreignKey = foreignKeys.find((fk) => fk.from === column.name);
+    columns.set(column.name, {
+      type: column.type.toUpperCase(),
+      notNull: column.notnull === 1,
+      unique: uniqueColumns.has(column.name),
+      defaultValue: column.dflt_value,
+      references: foreignKey
+        ? { table: foreignKey.table, column: foreignKey.to || "id" }
+        : null,
+    });
+  }
+
+  return columns;
+};
+
+const sameReference = (
+  a: ColumnSpec["references"],
+  b: ActualColumn["references"]
+): boolean =>
+  (a === null && b === null) ||
+  (a !== null && b !== null && a.table === b.table && a.column === b.column);
+
+const sameDefinition = (spec: ColumnSpec, actual: ActualColumn): boolean =>
+  spec.type === actual.type &&
+  spec.notNull === actual.notNull &&
+  spec.unique === actual.unique &&
+  spec.defaultValue === actual.defaultValue &&
+  sameReference(spec.references, actual.references);
+
+/**
+ * Una columna nueva se puede agregar con ALTER TABLE si no requiere reconstruir la tabla
+ */
+const isAddable = (spec: ColumnSpec): boolean =>
+  !spec.unique &&
+  (!spec.notNull || spec.defaultValue !== null) &&
+  (!spec.references || spec.defaultValue === null);
+
+/**
+ * Convierte los valores no nulos de una columna al nuevo tipo.
+ * Los valores no convertibles quedan como undefined.
+ */
+const convertColumnRows = (
+  db: DatabaseSync,
+  table: string,
+  source: string,
+  fieldType: string
+): Array<{ id: string; value: SupportedValueType | undefined }> => {
+  const rows = db
+    .prepare(
+      `SELECT id, ${quoteIdentifier(source)} as value FROM ${quoteIdentifier(
+        table
+      )} WHERE ${quoteIdentifier(source)} IS NOT NULL`
+    )
+    .all() as Array<{ id: string; value: SupportedValueType }>;
+
+  return rows.map((row) => ({
+    id: row.id,
+    value: convertColumnValue(row.value, fieldType),
+  }));
+};
+
+const countOrphans = (
+  db: DatabaseSync,
+  table: string,
+  source: string,
+  references: { table: string; column: string }
+): number => {
+  if (!tableExists(db, references.table)) {
+    return 0;
+  }
+
+  const column = quoteIdentifier(source);
+  return (
+    db
+      .prepare(
+        `SELECT COUNT(*) as count FROM ${quoteIdentifier(
+          table
+        )} WHERE ${column} IS NOT NULL AND ${column} NOT IN (SELECT ${quoteIdentifier(
+          references.column
+        )} FROM ${quoteIdentifier(references.table)})`
+      )
+      .get() as { count: number }
+  ).count;
+};
+
+/**
+ * Compara la definición deseada con la tabla actual y detecta pérdidas de datos
+ */
+const analyze = (
+  db: DatabaseSync,
+  entity: Entity,
+  fields: Field[],
+  options: SchemaSyncOptions
+): SchemaAnalysis => {
+  const table = getDataTableName(entity);
+  const warnings: string[] = [];
+  const specs = buildColumnSpecs(db, fields, warnings);
+  const plan: SchemaSyncPlan = {
+    entity_id: entity.id,
+    table,
+    action: "none",
+    issues: [],
+    warnings,
+  };
+
+  if (!tableExists(db, table)) {
+    plan.action = "create";
+    return {
+      plan,
+      specs,
+      migrations: specs.map((spec) => ({ spec, source: null })),
+      actual: new Map(),
+    };
+  }
+
+  const actual = readActualColumns(db, table);
+  const renames = options.renames || {};
+
+  const migrations: ColumnMigration[] = specs.map((spec) => {
+    const renamedFrom = Object.keys(renames).find(
+      (oldName) => renames[oldName] === spec.name && actual.has(oldName)
+    );
+    if (renamedFrom) {
+      return { spec, source: renamedFrom };
+    }
+    return { spec, source: actual.has(spec.name) ? spec.name : null };
+  });
+
+  const usedSources = new Set(migrations.map((m) => m.source));
+  const droppedColumns = [...actual.keys()].filter(
+    (name) => !usedSources.has(name)
+  );
+  const newColumns = migrations.filter((m) => m.source === null);
+  const changedColumns = migrations.filter(
+    (m) =>
+      m.source !== null &&
+      (m.source !== m.spec.name ||
+        !sameDefinition(m.spec, actual.get(m.source)!))
+  );
+
+  if (droppedColumns.length === 0 && changedColumns.length === 0) {
+    if (newColumns.length === 0) {
+      plan.action = "none";
+    } else {
+      plan.action = newColumns.every((m) => isAddable(m.spec))
+        ? "alter"
+        : "rebuild";
+    }
+  } else {
+    plan.action = "rebuild";
+  }
+
+  const rowCount = countRows(db, table);
+  if (rowCount === 0) {
+    return { plan, specs, migrations, actual };
+  }
+
+  for (const column of droppedColumns) {
+    const values = (
+      db
+        .prepare(
+          `SELECT COUNT(*) as count FROM ${quoteIdentifier(
+            table
+          )} WHERE ${quoteIdentifier(column)} IS NOT NULL`
+        )
+        .get() as { count: number }
+    ).count;
+
+    if (values > 0) {
+      plan.issues.push({
+        field: column,
+        kind: "data_loss",
+        message: `Se eliminarían ${values} valor(es) de la columna ${column}`,
+        affected_rows: values,
+      });
+    }
+  }
+
+  for (const { spec, source } of migrations) {
+    if (source === null) {
+      if (spec.notNull && spec.defaultValue === null) {
+        plan.issues.push({
+          field: spec.name,
+          kind: "conflict",
+          message: `El campo requerido ${spec.name} no tiene valor por defecto para los ${rowCount} registro(s) existentes`,
+          affected_rows: rowCount,
+        });
+      }
+      continue;
+    }
+
+    const current = actual.get(source)!;
+    let invalidValues = 0;
+
+    if (current.type !== spec.type) {
+      invalidValues = convertColumnRows(
+        db,
+        table,
+        source,
+        spec.fieldType
+      ).filter((row) => row.value === undefined).length;
+
+      if (invalidValues > 0) {
+        plan.issues.push({
+          field: spec.name,
+          kind: "data_loss",
+          message: `${invalidValues} valor(es) de ${spec.name} no se pueden convertir a ${spec.fieldType}`,
+          affected_rows: invalidValues,
+        });
+      }
+    }
+
+    if (spec.notNull && !current.notNull && spec.defaultValue === null) {
+      const nullValues =
+        (
+          db
+            .prepare(
+              `SELECT COUNT(*) as count FROM ${quoteIdentifier(
+                table
+              )} WHERE ${quoteIdentifier(source)} IS NULL`
+            )
+            .get() as { count: number }
+        ).count + invalidValues;
+
+      if (nullValues > 0) {
+        plan.issues.push({
+          field: spec.name,
+          kind: "conflict",
+          message: `${nullValues} registro(s) no tienen valor para el campo requerido ${spec.name}`,
+          affected_rows: nullValues,
+        });
+      }
+    }
+
+    if (spec.unique && !current.unique) {
+      const duplicates = (
+        db
+          .prepare(
+            `SELECT COALESCE(SUM(total), 0) as count FROM (SELECT COUNT(*) as total FROM ${quoteIdentifier(
+              table
+            )} WHERE ${quoteIdentifier(
+              source
+            )} IS NOT NULL GROUP BY ${quoteIdentifier(
+              source
+            )} HAVING COUNT(*) > 1)`
+          )
+          .get() as { count: number }
+      ).count;
+
+      if (duplicates > 0) {
+        plan.issues.push({
+          field: spec.name,
+          kind: "conflict",
+          message: `${duplicates} registro(s) tienen valores duplicados en el campo único ${spec.name}`,
+          affected_rows: duplicates,
+        });
+      }
+    }
+
+    if (spec.references && !sameReference(spec.references, current.references)) {
+      const orphans = countOrphans(db, table, source, spec.references);
+      if (orphans > 0) {
+        plan.issues.push({
+          field: spec.name,
+          kind: spec.notNull ? "conflict" : "data_loss",
+          message: `${orphans} registro(s) de ${spec.name} referencian registros inexistentes`,
+          affected_rows: orphans,
+        });
+      }
+    }
+  }
+
+  return { plan, specs, migrations, actual };
+};
+
+/**
+ * Devuelve los problemas que impiden aplicar un plan
+ */
+export const getBlockingIssues = (
+  plan: SchemaSyncPlan,
+  allowDataLoss = false
+): SchemaSyncIssue[] =>
+  plan.issues.filter(
+    (issue) => issue.kind === "conflict" || !allowDataLoss
+  );
+
+/**
+ * Reconstruye una tabla siguiendo el procedimiento recomendado por SQLite:
+ * crear la tabla nueva, copiar los datos, eliminar la anterior y renombrar.
+ */
+const rebuildTable = (db: DatabaseSync, analysis: SchemaAnalysis): void => {
+  const { plan, specs, migrations, actual } = analysis;
+  const table = plan.table;
+  const tempTable = `${table}__rebuild`;
+
+  // Las claves foráneas se desactivan fuera de la transacción
+  db.exec("PRAGMA foreign_keys = OFF");
+  try {
+    db.exec("BEGIN");
+    try {
+      for (const { spec, source } of migrations) {
+        if (source === null) {
+          continue;
+        }
+        const current = actual.get(source)!;
+
+        // Convertir los valores al nuevo tipo (los no convertibles quedan en null)
+        if (current.type !== spec.type) {
+          const update = db.prepare(
+            `UPDATE ${quoteIdentifier(table)} SET ${quoteIdentifier(
+              source
+            )} = ? WHERE id = ?`
+          );
+          for (const row of convertColumnRows(
+            db,
+            table,
+            source,
+            spec.fieldType
+          )) {
+            update.run(row.value === undefined ? null : row.value, row.id);
+          }
+        }
+
+        // Las referencias a registros inexistentes quedan en null
+        if (
+          spec.references &&
+          !sameReference(spec.references, current.references) &&
+          tableExists(db, spec.references.table)
+        ) {
+          db.exec(
+            `UPDATE ${quoteIdentifier(table)} SET ${quoteIdentifier(
+              source
+            )} = NULL WHERE ${quoteIdentifier(source)} NOT IN (SELECT ${quoteIdentifier(
+              spec.references.column
+            )} FROM ${quoteIdentifier(spec.references.table)})`
+          );
+        }
+      }
+
+      db.exec(`DROP TABLE IF EXISTS ${quoteIdentifier(tempTable)}`);
+      db.exec(buildCreateTable(tempTable, specs));
+
+      const copied = migrations.filter((m) => m.source !== null);
+      const targetColumns = [
+        "id",
+        ...copied.map((m) => quoteIdentifier(m.spec.name)),
+        "created_at",
+        "updated_at",
+      ];
+      const sourceColumns = [
+        "id",
+        ...copied.map((m) =>
+          m.spec.notNull && m.spec.defaultValue !== null
+            ? `COALESCE(${quoteIdentifier(m.source!)}, ${m.spec.defaultValue})`
+            : quoteIdentifier(m.source!)
+        ),
+        "created_at",
+        "updated_at",
+      ];
+
+      db.exec(
+        `INSERT INTO ${quoteIdentifier(tempTable)} (${targetColumns.join(
+          ", "
+        )}) SELECT ${sourceColumns.join(", ")} FROM ${quoteIdentifier(table)}`
+      );
+      db.exec(`DROP TABLE ${quoteIdentifier(table)}`);
+      db.exec(
+        `ALTER TABLE ${quoteIdentifier(tempTable)} RENAME TO ${quoteIdentifier(
+          table
+        )}`
+      );
+
+      const violations = db
+        .prepare(`PRAGMA foreign_key_check(${quoteIdentifier(table)})`)
+        .all();
+      if (violations.length > 0) {
+        throw new Error(
+          `La reconstrucción de ${table} dejaría ${violations.length} referencia(s) inválida(s)`
+        );
+      }
+
+      db.exec("COMMIT");
+    } catch (error) {
+      db.exec("ROLLBACK");
+      throw error;
+    }
+  } finally {
+    db.exec("PRAGMA foreign_keys = ON");
+  }
+};
+
+/**
+ * Obtiene las entidades del proyecto cuyas tablas referencian a la tabla indicada
+ */
+const findDependentEntities = (db: DatabaseSync, entity: Entity): Entity[] => {
+  const table = getDataTableName(entity);
+  const projectEntities = db
+    .prepare("SELECT * FROM entities WHERE project_id = ? AND id != ?")
+    .all(entity.project_id, entity.id) as unknown as Entity[];
+
+  return projectEntities.filter((candidate) => {
+    const referencesEntity = loadFields(db, candidate.id).some(
+      (field) => field.foreign_entity_id === entity.id
+    );
+    if (referencesEntity) {
+      return true;
+    }
+
+    const candidateTable = getDataTableName(candidate);
+    if (!tableExists(db, candidateTable)) {
+      return false;
+    }
+    const foreignKeys = db
+      .prepare(`PRAGMA foreign_key_list(${quoteIdentifier(candidateTable)})`)
+      .all() as Array<{ table: string }>;
+    return foreignKeys.some((fk) => fk.table === table);
+  });
+};
+
+/**
+ * Crea las tablas referenciadas por claves foráneas que aún no existen
+ */
+const ensureReferencedTables = (
+  db: DatabaseSync,
+  specs: ColumnSpec[],
+  visited: Set<string>
+): void => {
+  for (const spec of specs) {
+    if (!spec.references || tableExists(db, spec.references.table)) {
+      continue;
+    }
+
+    const projectEntities = db
+      .prepare("SELECT * FROM entities")
+      .all() as unknown as Entity[];
+    const foreignEntity = projectEntities.find(
+      (e) => getDataTableName(e) === spec.references!.table
+    );
+    if (foreignEntity && !visited.has(foreignEntity.id)) {
+      applySync(db, foreignEntity, loadFields(db, foreignEntity.id), {}, visited);
+    }
+  }
+};
+
+const applySync = (
+  db: DatabaseSync,
+  entity: Entity,
+  fields: Field[],
+  options: SchemaSyncOptions,
+  visited: Set<string>
+): SchemaSyncPlan => {
+  visited.add(entity.id);
+  const analysis = analyze(db, entity, fields, options);
+  const { plan, specs, migrations } = analysis;
+
+  const blocking = getBlockingIssues(plan, options.allowDataLoss);
+  if (blocking.length > 0) {
+    throw new SchemaSyncError(
+      "El cambio de esquema no se puede aplicar sin perder datos",
+      plan
+    );
+  }
+
+  ensureReferencedTables(db, specs, visited);
+
+  switch (plan.action) {
+    case "create":
+      db.exec(buildCreateTable(plan.table, specs));
+      break;
+    case "alter":
+      for (const { spec } of migrations.filter((m) => m.source === null)) {
+        db.exec(
+          `ALTER TABLE ${quoteIdentifier(plan.table)} ADD COLUMN ${renderColumn(
+            spec
+          )}`
+        );
+      }
+      break;
+    case "rebuild":
+      rebuildTable(db, analysis);
+
+      // Las tablas que referencian a esta pueden necesitar actualizar sus claves foráneas
+      for (const dependent of findDependentEntities(db, entity)) {
+        if (
+          visited.has(dependent.id) ||
+          !tableExists(db, getDataTableName(dependent))
+        ) {
+          continue;
+        }
+        try {
+          applySync(
+            db,
+            dependent,
+            loadFields(db, dependent.id),
+            { allowDataLoss: options.allowDataLoss },
+            visited
+          );
+        } catch (error) {
+          plan.warnings.push(
+            `No se pudo actualizar la tabla de ${dependent.name}: ${
+              error instanceof Error ? error.message : "Error desconocido"
+            }`
+          );
+        }
+      }
+      break;
+    default:
+      break;
+  }
+
+  for (const warning of plan.warnings) {
+    console.warn(`[schema-sync] ${entity.name}: ${warning}`);
+  }
+
+  return plan;
+};
+
+/**
+ * Calcula los cambios necesarios para que la tabla de una entidad refleje sus campos,
+ * sin aplicarlos
+ */
+export const planEntityTable = (
+  entity: Entity,
+  fields: Field[],
+  options: SchemaSyncOptions = {}
+): SchemaSyncPlan => analyze(getDatabase(), entity, fields, options).plan;
+
+/**
+ * Crea o altera la tabla física de una entidad para que refleje sus campos.
+ * Lanza SchemaSyncError si el cambio perdería datos y no se permitió explícitamente.
+ */
+export const syncEntityTable = (
+  entity: Entity,
+  fields: Field[],
+  options: SchemaSyncOptions = {}
+): SchemaSyncPlan =>
+  applySync(getDatabase(), entity, fields, options, new Set());
+
+/**
+ * Asegura que la tabla de una entidad existe y devuelve su nombre
+ */
+export const ensureDataTable = (entity: Entity, fields: Field[]): string => {
+  const table = getDataTableName(entity);
+  if (!tableExists(getDatabase(), table)) {
+    syncEntityTable(entity, fields);
+  }
+  return table;
+};
+
+/**
+ * Cuenta los registros almacenados para una entidad
+ */
+export const countEntityRecords = (entity: Entity): number => {
+  const db = getDatabase();
+  const table = getDataTableName(entity);
+  return tableExists(db, table) ? countRows(db, table) : 0;
+};
+
+/**
+ * Cuenta los registros almacenados en todas las entidades de un proyecto
+ */
+export const countProjectRecords = (projectId: string): number => {
+  const entities = getDatabase()
+    .prepare("SELECT * FROM entities WHERE project_id = ?")
+    .all(projectId) as unknown as Entity[];
+  return entities.reduce(
+    (total, entity) => total + countEntityRecords(entity),
+    0
+  );
+};
+
+/**
+ * Obtiene la tabla intermedia de una relación muchos a muchos,
+ * o null si la relación no la necesita
+ */
+export const getJunctionTable = (
+  relationship: Pick<
+    EntityRelationship,
+    "id" | "source_entity_id" | "relationship_type"
+  >
+): string | null => {
+  if (relationship.relationship_type !== "many_to_many") {
+    return null;
+  }
+  const source = loadEntity(getDatabase(), relationship.source_entity_id);
+  return source ? getJunctionTableName(source.project_id, relationship.id) : null;
+};
+
+/**
+ * Crea la tabla intermedia de una relación muchos a muchos: clave compuesta
+ * (source_id, target_id) y claves foráneas hacia las tablas de ambas entidades.
+ * Los vínculos se eliminan junto con cualquiera de los dos registros.
+ */
+export const syncJunctionTable = (
+  relationship: EntityRelationship
+): string | null => {
+  const db = getDatabase();
+  const table = getJunctionTable(relationship);
+  const source = loadEntity(db, relationship.source_entity_id);
+  const target = loadEntity(db, relationship.target_entity_id);
+  if (!table || !source || !target) {
+    return null;
+  }
+
+  const sourceTable = ensureDataTable(source, loadFields(db, source.id));
+  const targetTable = ensureDataTable(target, loadFields(db, target.id));
+
+  db.exec(
+    `CREATE TABLE IF NOT EXISTS ${quoteIdentifier(table)} (${[
+      `source_id TEXT NOT NULL REFERENCES ${quoteIdentifier(
+        sourceTable
+      )}(id) ON DELETE CASCADE`,
+      `target_id TEXT NOT NULL REFERENCES ${quoteIdentifier(
+        targetTable
+      )}(id) ON DELETE CASCADE`,
+      "created_at DATETIME DEFAULT CURRENT_TIMESTAMP",
+      "PRIMARY KEY (source_id, target_id)",
+    ].join(", ")})`
+  );
+  db.exec(
+    `CREATE INDEX IF NOT EXISTS ${quoteIdentifier(
+      `${table}_target`
+    )} ON ${quoteIdentifier(table)} (target_id)`
+  );
+
+  return table;
+};
+
+/**
+ * Cuenta los vínculos almacenados en la tabla intermedia de una relación
+ */
+export const countJunctionRows = (
+  relationship: Pick<
+    EntityRelationship,
+    "id" | "source_entity_id" | "relationship_type"
+  >
+): number => {
+  const db = getDatabase();
+  const table = getJunctionTable(relationship);
+  return table && tableExists(db, table) ? countRows(db, table) : 0;
+};
+
+/**
+ * Indica si la relación tiene una tabla intermedia creada
+ */
+export const hasJunctionTable = (
+  relationship: Pick<
+    EntityRelationship,
+    "id" | "source_entity_id" | "relationship_type"
+  >
+): boolean => {
+  const table = getJunctionTable(relationship);
+  return !!table && tableExists(getDatabase(), table);
+};
+
+/**
+ * Elimina la tabla intermedia de una relación.
+ * Debe llamarse antes de eliminar la relación o sus entidades de los metadatos.
+ */
+export const dropJunctionTable = (
+  relationship: Pick<EntityRelationship, "id" | "source_entity_id">
+): void => {
+  const db = getDatabase();
+  const source = loadEntity(db, relationship.source_entity_id);
+  if (!source) {
+    return;
+  }
+  db.exec(
+    `DROP TABLE IF EXISTS ${quoteIdentifier(
+      getJunctionTableName(source.project_id, relationship.id)
+    )}`
+  );
+};
+
+/**
+ * Elimina las tablas intermedias de un proyecto cuya relación ya no existe
+ * o dejó de ser muchos a muchos
+ */
+const dropOrphanJunctionTables = (db: DatabaseSync, projectId: string): void => {
+  const prefix = `${getProjectTablePrefix(projectId)}rel_`;
+  const current = new Set(
+    (
+      db
+        .prepare(
+          `SELECT r.id FROM entity_relationships r
+           JOIN entities e ON e.id = r.source_entity_id
+           WHERE e.project_id = ? AND r.relationship_type = 'many_to_many'`
+        )
+        .all(projectId) as Array<{ id: string }>
+    ).map((row) => getJunctionTableName(projectId, row.id))
+  );
+  const tables = listTables(db, prefix);
+
+  for (const name of tables) {
+    if (!current.has(name)) {
+      db.exec(`DROP TABLE IF EXISTS ${quoteIdentifier(name)}`);
+    }
+  }
+};
+
+/**
+ * Calcula los cambios que la eliminación de una entidad provoca en las tablas
+ * que la referencian, sin aplicarlos. Sus claves foráneas hacia la entidad
+ * quedan sin referencia, igual que en los metadatos.
+ */
+export const planEntityTableDrop = (
+  entity: Entity,
+  options: SchemaSyncOptions = {}
+): SchemaSyncPlan[] => {
+  const db = getDatabase();
+  return findDependentEntities(db, entity).map(
+    (dependent) =>
+      analyze(
+        db,
+        dependent,
+        loadFields(db, dependent.id).map((field) =>
+          field.foreign_entity_id === entity.id
+            ? {
+                ...field,
+                foreign_entity_id: undefined,
+                foreign_field_id: undefined,
+              }
+            : field
+        ),
+        options
+      ).plan
+  );
+};
+
+/**
+ * Elimina la tabla física de una entidad y actualiza las tablas que la referenciaban.
+ * Debe llamarse después de eliminar la entidad de los metadatos. Si alguna de esas
+ * tablas no se puede actualizar, lanza el primer error tras intentar con todas.
+ */
+export const dropEntityTable = (
+  entity: Entity,
+  options: SchemaSyncOptions = {}
+): void => {
+  const db = getDatabase();
+  const table = getDataTableName(entity);
+  const dependents = findDependentEntities(db, entity);
+
+  db.exec("PRAGMA foreign_keys = OFF");
+  try {
+    db.exec(`DROP TABLE IF EXISTS ${quoteIdentifier(table)}`);
+    // Las relaciones muchos a muchos de la entidad se eliminaron con ella
+    dropOrphanJunctionTables(db, entity.project_id);
+  } finally {
+    db.exec("PRAGMA foreign_keys = ON");
+  }
+
+  let failure: unknown = null;
+  for (const dependent of dependents) {
+    if (!loadEntity(db, dependent.id)) {
+      continue;
+    }
+    try {
+      syncEntityTable(dependent, loadFields(db, dependent.id), {
+        allowDataLoss: options.allowDataLoss,
+      });
+    } catch (error) {
+      failure = failure ?? error;
+    }
+  }
+  if (failure) {
+    throw failure;
+  }
+};
+
+/**
+ * Elimina las tablas físicas de todas las entidades de un proyecto,
+ * incluidas las tablas intermedias de sus relaciones
+ */
+export const dropProjectTables = (projectId: string): void => {
+  const db = getDatabase();
+  const prefix = getProjectTablePrefix(projectId);
+  const tables = listTables(db, prefix);
+
+  db.exec("PRAGMA foreign_keys = OFF");
+  try {
+    for (const name of tables) {
+      db.exec(`DROP TABLE IF EXISTS ${quoteIdentifier(name)}`);
+    }
+  } finally {
+    db.exec("PRAGMA foreign_keys = ON");
+  }
+};
+
+/**
+ * Sincroniza las tablas de todas las entidades (usado al iniciar el servidor).
+ * Nunca descarta datos: los cambios con pérdida quedan pendientes y se reportan.
+ */
+export const syncAllDataTables = (): {
+  synced: number;
+  pending: SchemaSyncPlan[];
+} => {
+  const db = getDatabase();
+  const entities = db
+    .prepare("SELECT * FROM entities ORDER BY created_at ASC")
+    .all() as unknown as Entity[];
+  const pending: SchemaSyncPlan[] = [];
+  const visited = new Set<string>();
+  let synced = 0;
+
+  for (const entity of entities) {
+    if (visited.has(entity.id)) {
+      continue;
+    }
+    try {
+      applySync(db, entity, loadFields(db, entity.id), {}, visited);
+      synced++;
+    } catch (error) {
+      if (error instanceof SchemaSyncError) {
+        pending.push(error.plan);
+      } else {
+        console.error(
+          `[schema-sync] Error sincronizando la tabla de ${entity.name}:`,
+          error
+        );
+      }
+    }
+  }
+
+  // Tablas intermedias de las relaciones muchos a muchos
+  const junctions = db
+    .prepare(
+      "SELECT * FROM entity_relationships WHERE relationship_type = 'many_to_many'"
+    )
+    .all() as unknown as EntityRelationship[];
+  for (const relationship of junctions) {
+    try {
+      syncJunctionTable(relationship);
+    } catch (error) {
+      console.error(
+        `[schema-sync] Error creando la tabla intermedia de la relación ${relationship.id}:`,
+        error
+      );
+    }
+  }
+
+  return { synced, pending };
+};
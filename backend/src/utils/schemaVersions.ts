@@ -0,0 +1,174 @@
+import { createHash } from "crypto";
+import {
+  EntityRelationshipRepository,
+} from "../repositories/entityRelationshipRepository";
+import { EntityRepository } from "../repositories/entityRepository";
+import { FieldRepository } from "../repositories/fieldRepository";
+import { ProjectRepository } from "../repositories/projectRepository";
+import {
+  SchemaSnapshot,
+  SchemaVersion,
+  SchemaVersionRepository,
+} from "../repositories/schemaVersionRepository";
+import { generateUUID } from "./uuid";
+
+const entityRepository = new EntityRepository();
+const fieldRepository = new FieldRepository();
+const projectRepository = new ProjectRepository();
+const relationshipRepository = new EntityRelationshipRepository();
+const schemaVersionRepository = new SchemaVersionRepository();
+
+/**
+ * Referencia a la última versión de un proyecto
+ */
+export const LATEST_VERSION = "latest";
+
+const VERSION_TAG = /^[A-Za-z0-9][A-Za-z0-9._-]{0,63}$/;
+
+/**
+ * Comprueba que una etiqueta (ej: v1.2) no se confunda con un número de
+ * versión ni con latest
+ */
+export const isValidVersionTag = (tag: string): boolean =>
+  VERSION_TAG.test(tag) && !/^\d+$/.test(tag) && tag !== LATEST_VERSION;
+
+/**
+ * Lee el modelo completo de un proyecto: entidades (por nombre) con sus
+ * campos y relaciones. Los booleanos se normalizan para que el mismo modelo
+ * produzca siempre el mismo documento.
+ */
+export const buildSchemaSnapshot = async (
+  projectId: string
+): Promise<SchemaSnapshot> => {
+  const snapshot: SchemaSnapshot = { entities: [], relationships: [] };
+  const entities = await entityRepository.findByProjectId(projectId);
+  entities.sort(
+    (a, b) => a.name.localeCompare(b.name) || a.id.localeCompare(b.id)
+  );
+
+  for (const entity of entities) {
+    const fields = await fieldRepository.findByEntityId(entity.id);
+    snapshot.entities.push({
+      id: entity.id,
+      name: entity.name,
+      description: entity.description ?? undefined,
+      fields: fields.map((field) => ({
+        id: field.id,
+        name: field.name,
+        type: field.type,
+        is_required: !!field.is_required,
+        is_unique: !!field.is_unique,
+        is_primary_key: !!field.is_primary_key,
+        is_foreign_key: !!field.is_foreign_key,
+        foreign_entity_id: field.foreign_entity_id ?? undefined,
+        foreign_field_id: field.foreign_field_id ?? undefined,
+        default_value: field.default_value ?? undefined,
+        max_length: field.max_length ?? undefined,
+        description: field.description ?? undefined,
+        accepts_multiple: !!field.accepts_multiple,
+        max_file_size: field.max_file_size ?? undefined,
+        allowed_extensions: field.allowed_extensions ?? undefined,
+      })),
+    });
+
+    const relationships = await relationshipRepository.findBySourceEntityId(
+      entity.id
+    );
+    snapshot.relationships.push(
+      ...relationships.map((relationship) => ({
+        id: relationship.id,
+        source_entity_id: relationship.source_entity_id,
+        target_entity_id: relationship.target_entity_id,
+        relationship_type: relationship.relationship_type,
+        source_field_id: relationship.source_field_id ?? undefined,
+        target_field_id: relationship.target_field_id ?? undefined,
+        name: relationship.name ?? undefined,
+        description: relationship.description ?? undefined,
+        is_required: !!relationship.is_required,
+        cascade_delete: !!relationship.cascade_delete,
+      }))
+    );
+  }
+
+  snapshot.relationships.sort(
+    (a, b) =>
+      (a.name ?? "").localeCompare(b.name ?? "") || a.id.localeCompare(b.id)
+  );
+  return snapshot;
+};
+
+const getChecksum = (snapshot: SchemaSnapshot): string =>
+  createHash("sha256").update(JSON.stringify(snapshot)).digest("hex");
+
+/**
+ * Guarda el modelo actual del proyecto como una nueva versión numerada.
+ * Si no cambió desde la última versión no se guarda nada y devuelve null.
+ */
+export const captureSchemaVersion = async (
+  projectId: string,
+  message?: string
+): Promise<SchemaVersion | null> => {
+  const snapshot = await buildSchemaSnapshot(projectId);
+  const checksum = getChecksum(snapshot);
+  const latest = await schemaVersionRepository.findLatest(projectId);
+  if (latest && latest.checksum === checksum) {
+    return null;
+  }
+
+  return schemaVersionRepository.create(generateUUID(), {
+    project_id: projectId,
+    message,
+    checksum,
+    snapshot,
+  });
+};
+
+/**
+ * Guarda la versión del esquema tras un cambio que ya se aplicó. Un fallo al
+ * guardarla se registra sin propagarse, para no responder con error a ese cambio.
+ */
+export const recordSchemaVersion = async (
+  projectId: string,
+  message?: string
+): Promise<void> => {
+  try {
+    await captureSchemaVersion(projectId, message);
+  } catch (error) {
+    console.error("Error capturing schema version:", error);
+  }
+};
+
+/**
+ * Guarda la versión inicial de los proyectos que todavía no tienen ninguna
+ * (los creados antes del versionado). Devuelve cuántas se guardaron.
+ */
+export const captureInitialSchemaVersions = async (): Promise<number> => {
+  let captured = 0;
+  for (const project of await projectRepository.findAll()) {
+    if (await schemaVersionRepository.existsForProject(project.id)) {
+      continue;
+    }
+    await captureSchemaVersion(project.id, "Versión inicial");
+    captured++;
+  }
+  return captured;
+};
+
+/**
+ * Busca una versión por su número, su etiqueta o latest
+ */
+export const findSchemaVersion = (
+  projectId: string,
+  reference: string
+): Promise<SchemaVersion | null> => {
+  if (reference === LATEST_VERSION) {
+    return schemaVersionRepository.findLatest(projectId);
+  }
+  if (/^\d+$/.test(reference)) {
+    return schemaVersionRepository.findByVersion(
+      projectId,
+      parseInt(reference, 10)
+    );
+  }
+  return schemaVersionRepository.findByTag(projectId, reference);
+};
@@ -0,0 +1,515 @@
+import { EntityRelationship } from "../repositories/entityRelationshipRepository";
+import { Entity, EntityRepository } from "../repositories/entityRepository";
+import { Field, FieldRepository } from "../repositories/fieldRepository";
+import { Project } from "../repositories/projectRepository";
+import { getSqliteType, isDataColumn, renderDefaultValue } from "./dataTables";
+import { getEntityLinks, LinkCache, RelationLink } from "./relationLinks";
+
+const entityRepository = new EntityRepository();
+const fieldRepository = new FieldRepository();
+
+const FILE_TYPES = ["file", "image", "document"];
+
+export type SqlDialect = "postgres" | "mysql" | "sqlite";
+
+export const SQL_DIALECTS: SqlDialect[] = ["postgres", "mysql", "sqlite"];
+
+/**
+ * Clave foránea de una tabla exportada
+ */
+interface ExportedForeignKey {
+  column: string;
+  /** Clave de la tabla referenciada y su nombre */
+  tableKey: string;
+  table: string;
+  referencedColumn: string;
+  onDelete?: "CASCADE" | "SET NULL";
+}
+
+/**
+ * Tabla exportada: la de una entidad o la intermedia de una relación muchos a muchos
+ */
+interface ExportedTable {
+  /** ID de la entidad o de la relación (resuelve las referencias) */
+  key: string;
+  name: string;
+  description?: string;
+  columns: string[];
+  primaryKey: string[];
+  unique: string[];
+  foreignKeys: ExportedForeignKey[];
+}
+
+/**
+ * Entidad del proyecto con sus campos
+ */
+interface ExportedEntity {
+  entity: Entity;
+  fields: Field[];
+}
+
+/**
+ * Escapa un identificador según el dialecto
+ */
+export const quote = (dialect: SqlDialect, name: string): string =>
+  dialect === "mysql"
+    ? `\`${name.replace(/`/g, "``")}\``
+    : `"${name.replace(/"/g, '""')}"`;
+
+/**
+ * Tipo de las columnas id (UUID) en cada dialecto
+ */
+export const getIdType = (dialect: SqlDialect): string =>
+  dialect === "postgres" ? "UUID" : dialect === "mysql" ? "CHAR(36)" : "TEXT";
+
+/**
+ * Tipo de las columnas created_at y updated_at en cada dialecto
+ */
+export const getTimestampType = (dialect: SqlDialect): string =>
+  dialect === "postgres" ? "TIMESTAMP" : "DATETIME";
+
+/**
+ * Tipo de columna de un campo en cada dialecto
+ */
+export const getSqlColumnType = (dialect: SqlDialect, field: Field): string => {
+  if (dialect === "sqlite") {
+    return getSqliteType(field.type);
+  }
+
+  if (FILE_TYPES.includes(field.type)) {
+    // Un ID de archivo o una lista JSON de IDs
+    if (field.accepts_multiple) {
+      return dialect === "postgres" ? "JSONB" : "JSON";
+    }
+    return getIdType(dialect);
+  }
+
+  switch (field.type) {
+    case "string":
+      if (field.max_length) {
+        return `VARCHAR(${field.max_length})`;
+      }
+      // MySQL no admite índices únicos sobre TEXT sin longitud
+      return dialect === "postgres" ? "TEXT" : "VARCHAR(255)";
+    case "integer":
+      return dialect === "postgres" ? "INTEGER" : "INT";
+    case "number":
+      return dialect === "postgres" ? "DOUBLE PRECISION" : "DOUBLE";
+    case "decimal":
+      return dialect === "postgres" ? "NUMERIC" : "DECIMAL(18,6)";
+    case "boolean":
+      return "BOOLEAN";
+    case "date":
+      return dialect === "postgres" ? "TIMESTAMP" : "DATETIME";
+    default:
+      // text
+      return "TEXT";
+  }
+};
+
+/**
+ * Literal del valor por defecto de un campo en cada dialecto
+ */
+export const renderDefault = (
+  dialect: SqlDialect,
+  field: Field,
+  type: string
+): string | null => {
+  if (FILE_TYPES.includes(field.type) && field.accepts_multiple) {
+    return null;
+  }
+
+  const literal = renderDefaultValue(field);
+  if (literal === null) {
+    return null;
+  }
+  if (field.type === "boolean" && dialect !== "sqlite") {
+    return literal === "1" ? "TRUE" : "FALSE";
+  }
+  // MySQL solo admite valores por defecto en TEXT y JSON como expresión
+  if (dialect === "mysql" && (type === "TEXT" || type === "JSON")) {
+    return `(${literal})`;
+  }
+  return literal;
+};
+
+/**
+ * Acción al eliminar el registro referenciado por una relación, la misma que
+ * aplica la API de registros (cascade_delete, restrict o set null)
+ */
+const getOnDelete = (
+  link: RelationLink,
+  fields: Field[]
+): ExportedForeignKey["onDelete"] => {
+  if (link.relationship.cascade_delete) {
+    return "CASCADE";
+  }
+  const column = fields.find((field) => field.name === link.localColumn);
+  return link.relationship.is_required || column?.is_required
+    ? undefined
+    : "SET NULL";
+};
+
+/**
+ * Definición de una columna
+ */
+export const renderColumn = (
+  dialect: SqlDialect,
+  name: string,
+  type: string,
+  notNull: boolean,
+  defaultValue: string | null
+): string =>
+  [
+    quote(dialect, name),
+    type,
+    notNull ? "NOT NULL" : "",
+    defaultValue !== null ? `DEFAULT ${defaultValue}` : "",
+  ]
+    .filter(Boolean)
+    .join(" ");
+
+/**
+ * Construye la tabla de una entidad: id, campos, marcas de tiempo y claves
+ */
+const buildEntityTable = async (
+  dialect: SqlDialect,
+  item: ExportedEntity,
+  entities: ExportedEntity[],
+  cache: LinkCache,
+  warnings: string[]
+): Promise<ExportedTable> => {
+  const { entity, fields } = item;
+  const dataFields = fields.filter(isDataColumn);
+  const byId = new Map(entities.map((other) => [other.entity.id, other]));
+
+  /**
+   * Columna referenciable de otra entidad (id o un campo único)
+   */
+  const resolveReferenced = (
+    referenced: ExportedEntity,
+    column: string
+  ): { column: string; type: string } | null => {
+    if (column === "id") {
+      return { column, type: getIdType(dialect) };
+    }
+    const field = referenced.fields.find((f) => f.name === column);
+    if (!field || (!field.is_unique && !field.is_primary_key)) {
+      return null;
+    }
+    return { column, type: getSqlColumnType(dialect, field) };
+  };
+
+  // Primero las claves foráneas de las relaciones, con su acción al eliminar
+  const foreignKeys = new Map<string, ExportedForeignKey>();
+  // Las claves foráneas toman el tipo de la columna referenciada
+  const foreignKeyTypes = new Map<string, string>();
+  for (const link of await getEntityLinks(entity, cache)) {
+    const referenced = byId.get(link.entity.id);
+    if (
+      link.owner !== "local" ||
+      !referenced ||
+      !isDataColumn({ name: link.localColumn }) ||
+      foreignKeys.has(link.localColumn)
+    ) {
+      continue;
+    }
+
+    const target = resolveReferenced(referenced, link.remoteColumn);
+    if (!target) {
+      warnings.push(
+        `${entity.name}.${link.localColumn} no se exporta como clave foránea: ${referenced.entity.name}.${link.remoteColumn} no es único`
+      );
+      continue;
+    }
+
+    foreignKeyTypes.set(link.localColumn, target.type);
+    foreignKeys.set(link.localColumn, {
+      column: link.localColumn,
+      tableKey: referenced.entity.id,
+      table: referenced.entity.name,
+      referencedColumn: target.column,
+      onDelete: getOnDelete(link, fields),
+    });
+  }
+
+  // Campos marcados como clave foránea sin relación
+  for (const field of dataFields) {
+    if (
+      !field.is_foreign_key ||
+      !field.foreign_entity_id ||
+      foreignKeys.has(field.name)
+    ) {
+      continue;
+    }
+    const referenced = byId.get(field.foreign_entity_id);
+    if (!referenced) {
+      continue;
+    }
+
+    const column =
+      referenced.fields.find((f) => f.id === field.foreign_field_id)?.name ||
+      "id";
+    const target = resolveReferenced(referenced, column);
+    if (!target) {
+      warnings.push(
+        `${entity.name}.${field.name} no se exporta como clave foránea: ${referenced.entity.name}.${column} no es único`
+      );
+      continue;
+    }
+
+    foreignKeys.set(field.name, {
+      column: field.name,
+      tableKey: referenced.entity.id,
+      table: referenced.entity.name,
+      referencedColumn: target.column,
+    });
+    foreignKeyTypes.set(field.name, target.type);
+  }
+
+  const columns = [renderColumn(dialect, "id", getIdType(dialect), true, null)];
+  for (const field of dataFields) {
+    const type =
+      foreignKeyTypes.get(field.name) || getSqlColumnType(dialect, field);
+    columns.push(
+      renderColumn(
+        dialect,
+        field.name,
+        type,
+        !!field.is_required || !!field.is_primary_key,
+        renderDefault(dialect, field, type)
+      )
+    );
+  }
+  for (const name of ["created_at", "updated_at"]) {
+    columns.push(
+      renderColumn(
+        dialect,
+        name,
+        getTimestampType(dialect),
+        true,
+        "CURRENT_TIMESTAMP"
+      )
+    );
+  }
+
+  return {
+    key: entity.id,
+    name: entity.name,
+    description: entity.description,
+    columns,
+    // El id es la clave primaria; los campos clave primaria son claves únicas
+    primaryKey: ["id"],
+    unique: dataFields
+      .filter((field) => field.is_unique || field.is_primary_key)
+      .map((field) => field.name),
+    foreignKeys: Array.from(foreignKeys.values()),
+  };
+};
+
+/**
+ * Construye la tabla intermedia de una relación muchos a muchos
+ */
+const buildJunctionTable = (
+  dialect: SqlDialect,
+  relationship: EntityRelationship,
+  source: ExportedEntity,
+  target: ExportedEntity,
+  name: string
+): ExportedTable => {
+  const idType = getIdType(dialect);
+
+  return {
+    key: relationship.id,
+    name,
+    description:
+      relationship.description ||
+      `Relación muchos a muchos entre ${source.entity.name} y ${target.entity.name}`,
+    columns: [
+      renderColumn(dialect, "source_id", idType, true, null),
+      renderColumn(dialect, "target_id", idType, true, null),
+      renderColumn(
+        dialect,
+        "created_at",
+        getTimestampType(dialect),
+        true,
+        "CURRENT_TIMESTAMP"
+      ),
+    ],
+    primaryKey: ["source_id", "target_id"],
+    unique: [],
+    foreignKeys: [
+      {
+        column: "source_id",
+        tableKey: source.entity.id,
+        table: source.entity.name,
+        referencedColumn: "id",
+        onDelete: "CASCADE",
+      },
+      {
+        column: "target_id",
+        tableKey: target.entity.id,
+        table: target.entity.name,
+        referencedColumn: "id",
+        onDelete: "CASCADE",
+      },
+    ],
+  };
+};
+
+/**
+ * Ordena las tablas para que cada una se cree después de las que referencia
+ * (orden topológico en profundidad). En los ciclos, la referencia que cierra
+ * el ciclo queda hacia una tabla aún no creada.
+ */
+const sortTables = (tables: ExportedTable[]): ExportedTable[] => {
+  const byKey = new Map(tables.map((table) => [table.key, table]));
+  const sorted: ExportedTable[] = [];
+  const visited = new Set<string>();
+
+  const visit = (table: ExportedTable): void => {
+    visited.add(table.key);
+    for (const fk of table.foreignKeys) {
+      const referenced = byKey.get(fk.tableKey);
+      if (referenced && !visited.has(referenced.key)) {
+        visit(referenced);
+      }
+    }
+    sorted.push(table);
+  };
+
+  for (const table of tables) {
+    if (!visited.has(table.key)) {
+      visit(table);
+    }
+  }
+
+  return sorted;
+};
+
+const renderForeignKey = (dialect: SqlDialect, fk: ExportedForeignKey) =>
+  `FOREIGN KEY (${quote(dialect, fk.column)}) REFERENCES ${quote(
+    dialect,
+    fk.table
+  )} (${quote(dialect, fk.referencedColumn)})${
+    fk.onDelete ? ` ON DELETE ${fk.onDelete}` : ""
+  }`;
+
+/**
+ * Genera el script SQL de creación de las tablas del proyecto en un dialecto:
+ * una tabla por entidad y una por relación muchos a muchos, con sus claves
+ * primarias, únicas y foráneas, ordenadas para ejecutarse sin errores
+ */
+export const exportProjectSql = async (
+  project: Project,
+  dialect: SqlDialect
+): Promise<string> => {
+  const entities: ExportedEntity[] = [];
+  for (const entity of await entityRepository.findByProjectId(project.id)) {
+    entities.push({
+      entity,
+      fields: await fieldRepository.findByEntityId(entity.id),
+    });
+  }
+
+  const cache: LinkCache = new Map();
+  const warnings: string[] = [];
+  const tables: ExportedTable[] = [];
+  const usedNames = new Set(
+    entities.map((item) => item.entity.name.toLowerCase())
+  );
+
+  for (const item of entities) {
+    tables.push(
+      await buildEntityTable(dialect, item, entities, cache, warnings)
+    );
+  }
+
+  // Tablas intermedias, una por relación muchos a muchos
+  const byId = new Map(entities.map((item) => [item.entity.id, item]));
+  for (const item of entities) {
+    for (const link of await getEntityLinks(item.entity, cache)) {
+      const { relationship } = link;
+      const source = byId.get(relationship.source_entity_id);
+      const target = byId.get(relationship.target_entity_id);
+      if (!link.junction || link.side !== "source" || !source || !target) {
+        continue;
+      }
+
+      const base = `${source.entity.name}_${
+        relationship.name || target.entity.name
+      }`;
+      let name = base;
+      for (let i = 2; usedNames.has(name.toLowerCase()); i++) {
+        name = `${base}_${i}`;
+      }
+      usedNames.add(name.toLowerCase());
+
+      tables.push(
+        buildJunctionTable(dialect, relationship, source, target, name)
+      );
+    }
+  }
+
+  const lines = [
+    `-- Esquema del proyecto ${project.name} (${dialect})`,
+    "-- Generado por OroyaAPI",
+    ...warnings.map((warning) => `-- Aviso: ${warning}`),
+    "",
+  ];
+
+  // Las claves foráneas hacia tablas aún no creadas (ciclos) se añaden al final.
+  // SQLite no valida la tabla referenciada al crear la tabla.
+  const created = new Set<string>();
+  const deferred: Array<{ table: string; fk: ExportedForeignKey }> = [];
+
+  for (const table of sortTables(tables)) {
+    const inline = table.foreignKeys.filter(
+      (fk) =>
+        dialect === "sqlite" ||
+        fk.tableKey === table.key ||
+        created.has(fk.tableKey)
+    );
+    deferred.push(
+      ...table.foreignKeys
+        .filter((fk) => !inline.includes(fk))
+        .map((fk) => ({ table: table.name, fk }))
+    );
+
+    const definitions = [
+      ...table.columns,
+      `PRIMARY KEY (${table.primaryKey
+        .map((column) => quote(dialect, column))
+        .join(", ")})`,
+      ...table.unique.map((column) => `UNIQUE (${quote(dialect, column)})`),
+      ...inline.map((fk) => renderForeignKey(dialect, fk)),
+    ];
+
+    if (table.description) {
+      lines.push(
+        ...table.description.split("\n").map((line) => `-- ${line}`)
+      );
+    }
+    lines.push(
+      `CREATE TABLE ${quote(dialect, table.name)} (`,
+      definitions.map((definition) => `  ${definition}`).join(",\n"),
+      dialect === "mysql" ? ") ENGINE=InnoDB DEFAULT CHARSET=utf8mb4;" : ");",
+      ""
+    );
+    created.add(table.key);
+  }
+
+  for (const { table, fk } of deferred) {
+    lines.push(
+      `ALTER TABLE ${quote(dialect, table)} ADD ${renderForeignKey(
+        dialect,
+        fk
+      )};`
+    );
+  }
+  if (deferred.length > 0) {
+    lines.push("");
+  }
+
+  return lines.join("\n");
+};
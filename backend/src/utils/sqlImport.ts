@@ -0,0 +1,843 @@
+import {
+  ImportedColumn,
+  ImportedForeignKey,
+  ImportedSchema,
+  ImportedTable,
+} from "./schemaImport";
+
+/**
+ * Error de sintaxis en un script SQL, con la línea donde se produjo
+ */
+export class SqlParseError extends Error {
+  constructor(message: string, public line: number) {
+    super(`${message} (línea ${line})`);
+    this.name = "SqlParseError";
+  }
+}
+
+interface Token {
+  kind: "word" | "identifier" | "string" | "number" | "symbol";
+  value: string;
+  line: number;
+}
+
+type DeleteAction = ImportedForeignKey["on_delete"];
+
+const NUMBER = /[0-9]*\.?[0-9]+(?:[eE][-+]?[0-9]+)?/y;
+const WORD = /[A-Za-z0-9_$\u00C0-\uFFFF]+/y;
+
+/**
+ * Divide un script SQL en tokens, descartando los comentarios.
+ * Admite identificadores entre comillas dobles, acentos graves y corchetes.
+ */
+const tokenize = (sql: string): Token[] => {
+  const tokens: Token[] = [];
+  let line = 1;
+  let i = 0;
+
+  const readQuoted = (close: string, start: number): string => {
+    let value = "";
+    let j = start;
+    while (j < sql.length) {
+      if (sql[j] === close) {
+        // Comilla duplicada: carácter escapado
+        if (sql[j + 1] === close && close !== "]") {
+          value += close;
+          j += 2;
+          continue;
+        }
+        i = j + 1;
+        return value;
+      }
+      if (sql[j] === "\\" && close === "'" && j + 1 < sql.length) {
+        value += sql[j + 1];
+        j += 2;
+        continue;
+      }
+      if (sql[j] === "\n") {
+        line++;
+      }
+      value += sql[j];
+      j++;
+    }
+    throw new SqlParseError("Texto o identificador sin cerrar", line);
+  };
+
+  while (i < sql.length) {
+    const char = sql[i];
+
+    if (char === "\n") {
+      line++;
+      i++;
+    } else if (/\s/.test(char)) {
+      i++;
+    } else if (char === "-" && sql[i + 1] === "-") {
+      while (i < sql.length && sql[i] !== "\n") {
+        i++;
+      }
+    } else if (char === "#") {
+      while (i < sql.length && sql[i] !== "\n") {
+        i++;
+      }
+    } else if (char === "/" && sql[i + 1] === "*") {
+      const end = sql.indexOf("*/", i + 2);
+      if (end === -1) {
+        throw new SqlParseError("Comentario sin cerrar", line);
+      }
+      line += (sql.slice(i, end).match(/\n/g) || []).length;
+      i = end + 2;
+    } else if (char === "'") {
+      const start = line;
+      tokens.push({
+        kind: "string",
+        value: readQuoted("'", i + 1),
+        line: start,
+      });
+    } else if (char === '"' || char === "`" || char === "[") {
+      const close = char === "[" ? "]" : char;
+      const start = line;
+      tokens.push({
+        kind: "identifier",
+        value: readQuoted(close, i + 1),
+        line: start,
+      });
+    } else if (
+      /[0-9]/.test(char) ||
+      (char === "." && /[0-9]/.test(sql[i + 1] ?? ""))
+    ) {
+      NUMBER.lastIndex = i;
+      const value = NUMBER.exec(sql)?.[0] ?? char;
+      tokens.push({ kind: "number", value, line });
+      i += value.length;
+    } else if (/[A-Za-z_\u00C0-\uFFFF]/.test(char)) {
+      WORD.lastIndex = i;
+      const value = WORD.exec(sql)?.[0] ?? char;
+      tokens.push({ kind: "word", value, line });
+      i += value.length;
+    } else if (char === ":" && sql[i + 1] === ":") {
+      tokens.push({ kind: "symbol", value: "::", line });
+      i += 2;
+    } else {
+      tokens.push({ kind: "symbol", value: char, line });
+      i++;
+    }
+  }
+
+  return tokens;
+};
+
+/**
+ * Separa los tokens en sentencias (delimitadas por punto y coma)
+ */
+const splitStatements = (tokens: Token[]): Token[][] => {
+  const statements: Token[][] = [];
+  let current: Token[] = [];
+  for (const token of tokens) {
+    if (token.kind === "symbol" && token.value === ";") {
+      if (current.length > 0) {
+        statements.push(current);
+      }
+      current = [];
+    } else {
+      current.push(token);
+    }
+  }
+  if (current.length > 0) {
+    statements.push(current);
+  }
+  return statements;
+};
+
+/**
+ * Palabras adicionales que forman parte del tipo de una columna
+ * (character varying, double precision, timestamp with time zone...)
+ */
+const TYPE_WORDS = [
+  "VARYING",
+  "PRECISION",
+  "UNSIGNED",
+  "SIGNED",
+  "ZEROFILL",
+  "WITH",
+  "WITHOUT",
+  "TIME",
+  "ZONE",
+  "LOCAL",
+];
+
+const DELETE_ACTIONS: Record<string, DeleteAction> = {
+  CASCADE: "cascade",
+  RESTRICT: "restrict",
+  "SET NULL": "set_null",
+  "SET DEFAULT": "set_default",
+  "NO ACTION": "no_action",
+};
+
+/**
+ * Recorre los tokens de una sentencia
+ */
+class StatementReader {
+  private position = 0;
+
+  constructor(private tokens: Token[]) {}
+
+  get line(): number {
+    const token = this.tokens[Math.min(this.position, this.tokens.length - 1)];
+    return token ? token.line : 0;
+  }
+
+  done(): boolean {
+    return this.position >= this.tokens.length;
+  }
+
+  peek(offset = 0): Token | undefined {
+    return this.tokens[this.position + offset];
+  }
+
+  next(): Token {
+    const token = this.tokens[this.position++];
+    if (!token) {
+      throw new SqlParseError("Fin inesperado de la sentencia", this.line);
+    }
+    return token;
+  }
+
+  /** Indica si el token actual es alguna de las palabras (sin comillas) */
+  isWord(...words: string[]): boolean {
+    const token = this.peek();
+    return (
+      token?.kind === "word" && words.includes(token.value.toUpperCase())
+    );
+  }
+
+  isSymbol(symbol: string): boolean {
+    const token = this.peek();
+    return token?.kind === "symbol" && token.value === symbol;
+  }
+
+  /** Consume una secuencia de palabras si está presente */
+  acceptWords(...words: string[]): boolean {
+    for (let i = 0; i < words.length; i++) {
+      const token = this.peek(i);
+      if (token?.kind !== "word" || token.value.toUpperCase() !== words[i]) {
+        return false;
+      }
+    }
+    this.position += words.length;
+    return true;
+  }
+
+  acceptSymbol(symbol: string): boolean {
+    if (this.isSymbol(symbol)) {
+      this.position++;
+      return true;
+    }
+    return false;
+  }
+
+  expectWords(...words: string[]): void {
+    if (!this.acceptWords(...words)) {
+      throw new SqlParseError(`Se esperaba ${words.join(" ")}`, this.line);
+    }
+  }
+
+  expectSymbol(symbol: string): void {
+    if (!this.acceptSymbol(symbol)) {
+      throw new SqlParseError(`Se esperaba "${symbol}"`, this.line);
+    }
+  }
+
+  /** Lee un nombre (de esquema.tabla se queda con tabla) */
+  readName(): string {
+    const token = this.next();
+    if (token.kind !== "word" && token.kind !== "identifier") {
+      throw new SqlParseError(
+        `Se esperaba un nombre y se encontró "${token.value}"`,
+        token.line
+      );
+    }
+    if (this.isSymbol(".")) {
+      this.position++;
+      return this.readName();
+    }
+    return token.value;
+  }
+
+  /** Lee una lista de nombres entre paréntesis (sin longitudes ni orden) */
+  readNameList(): string[] {
+    this.expectSymbol("(");
+    const names: string[] = [];
+    while (!this.acceptSymbol(")")) {
+      names.push(this.readName());
+      while (!this.isSymbol(",") && !this.isSymbol(")")) {
+        this.skip();
+      }
+      this.acceptSymbol(",");
+    }
+    return names;
+  }
+
+  /** Salta un token, o un bloque completo si abre paréntesis */
+  skip(): void {
+    if (!this.acceptSymbol("(")) {
+      this.next();
+      return;
+    }
+    let depth = 1;
+    while (depth > 0) {
+      const token = this.next();
+      if (token.kind === "symbol" && token.value === "(") {
+        depth++;
+      }
+      if (token.kind === "symbol" && token.value === ")") {
+        depth--;
+      }
+    }
+  }
+
+  /** Indica si el elemento actual de una lista entre paréntesis terminó */
+  atElementEnd(): boolean {
+    return this.done() || this.isSymbol(",") || this.isSymbol(")");
+  }
+
+  /** Salta hasta el final del elemento actual de una lista */
+  skipElement(): void {
+    while (!this.atElementEnd()) {
+      this.skip();
+    }
+  }
+}
+
+const INTEGER_TYPE =
+  /^((tiny|small|medium|big)?int(eger|[248])?|(small|big)?serial[248]?)( |$)/;
+const STRING_TYPE =
+  /^(varchar|char|character|nvarchar|nchar|varchar2|nvarchar2|bpchar|citext)/;
+
+/**
+ * Traduce un tipo SQL a un tipo de campo.
+ * Devuelve null si el tipo no tiene equivalente.
+ */
+export const mapSqlType = (
+  name: string,
+  size: number | undefined
+): Pick<ImportedColumn, "type" | "max_length"> | null => {
+  const type = name.toLowerCase();
+
+  if (type.startsWith("tinyint") && size === 1) {
+    return { type: "boolean" };
+  }
+  if (INTEGER_TYPE.test(type)) {
+    return { type: "integer" };
+  }
+  if (type.startsWith("bool") || (type === "bit" && (size ?? 1) === 1)) {
+    return { type: "boolean" };
+  }
+  if (/^(real|float|double)/.test(type)) {
+    return { type: "number" };
+  }
+  if (/^(decimal|numeric|dec|money|smallmoney|number)$/.test(type)) {
+    return { type: "decimal" };
+  }
+  if (/^(date|datetime|datetime2|smalldatetime|timestamp)/.test(type)) {
+    return { type: "date" };
+  }
+  if (STRING_TYPE.test(type)) {
+    return size ? { type: "string", max_length: size } : { type: "string" };
+  }
+  if (/(text|clob|json|xml)/.test(type)) {
+    return { type: "text" };
+  }
+  if (/^(uuid|uniqueidentifier|enum|set|time|interval|inet|cidr)/.test(type)) {
+    return { type: "string" };
+  }
+  return null;
+};
+
+/**
+ * Lee el valor por defecto de una columna. Las expresiones y funciones
+ * (CURRENT_TIMESTAMP, now(), nextval...) no se importan.
+ */
+const readDefault = (reader: StatementReader): string | undefined => {
+  let value: string | undefined;
+  let sign = "";
+  if (reader.isSymbol("-") || reader.isSymbol("+")) {
+    sign = reader.next().value === "-" ? "-" : "";
+  }
+
+  if (reader.isSymbol("(")) {
+    // DEFAULT ('x') o DEFAULT (expresión)
+    reader.next();
+    const inner = reader.peek();
+    const closing = reader.peek(1);
+    if (
+      inner &&
+      (inner.kind === "string" || inner.kind === "number") &&
+      closing?.kind === "symbol" &&
+      closing.value === ")"
+    ) {
+      value = inner.value;
+      reader.next();
+      reader.next();
+    } else {
+      let depth = 1;
+      while (depth > 0) {
+        const token = reader.next();
+        if (token.kind === "symbol" && token.value === "(") {
+          depth++;
+        }
+        if (token.kind === "symbol" && token.value === ")") {
+          depth--;
+        }
+      }
+    }
+  } else {
+    const token = reader.next();
+    if (token.kind === "string" || token.kind === "number") {
+      value = sign + token.value;
+    } else if (token.kind === "word") {
+      const word = token.value.toUpperCase();
+      if (word === "TRUE" || word === "FALSE") {
+        value = word.toLowerCase();
+      } else if (reader.isSymbol("(")) {
+        reader.skip();
+      }
+    }
+  }
+
+  // Conversiones de PostgreSQL ('x'::character varying)
+  while (reader.acceptSymbol("::")) {
+    reader.readName();
+    while (reader.isWord(...TYPE_WORDS)) {
+      reader.next();
+    }
+    if (reader.isSymbol("(")) {
+      reader.skip();
+    }
+    if (reader.acceptSymbol("[")) {
+      reader.expectSymbol("]");
+    }
+  }
+
+  return value;
+};
+
+/**
+ * Lee una cláusula REFERENCES tabla [(columnas)] [ON DELETE acción]...
+ */
+const readReferences = (
+  reader: StatementReader,
+  columns: string[]
+): ImportedForeignKey => {
+  const foreignKey: ImportedForeignKey = {
+    columns,
+    table: reader.readName(),
+    referenced_columns: reader.isSymbol("(") ? reader.readNameList() : [],
+  };
+
+  for (;;) {
+    if (reader.acceptWords("ON", "DELETE")) {
+      const action = Object.keys(DELETE_ACTIONS).find((words) =>
+        reader.acceptWords(...words.split(" "))
+      );
+      if (!action) {
+        throw new SqlParseError("Acción ON DELETE no válida", reader.line);
+      }
+      foreignKey.on_delete = DELETE_ACTIONS[action];
+    } else if (reader.acceptWords("ON", "UPDATE")) {
+      Object.keys(DELETE_ACTIONS).find((words) =>
+        reader.acceptWords(...words.split(" "))
+      );
+    } else if (
+      reader.acceptWords("MATCH") ||
+      reader.acceptWords("INITIALLY")
+    ) {
+      reader.next();
+    } else if (
+      !reader.acceptWords("NOT", "DEFERRABLE") &&
+      !reader.acceptWords("DEFERRABLE")
+    ) {
+      break;
+    }
+  }
+
+  return foreignKey;
+};
+
+/**
+ * Estado de la lectura de un script: tablas y avisos
+ */
+class SqlSchemaParser {
+  tables: ImportedTable[] = [];
+  warnings: string[] = [];
+  /** Tipos enumerados (CREATE TYPE ... AS ENUM), importados como texto */
+  private enumTypes = new Set<string>();
+  /** Sentencias no soportadas, por tipo */
+  private ignored = new Map<string, number>();
+
+  findTable(name: string): ImportedTable | undefined {
+    return this.tables.find(
+      (table) => table.name.toLowerCase() === name.toLowerCase()
+    );
+  }
+
+  private requireTable(name: string, line: number): ImportedTable | null {
+    const table = this.findTable(name);
+    if (!table) {
+      this.warnings.push(
+        `La tabla ${name} no está definida en el script; se ignora la sentencia de la línea ${line}`
+      );
+    }
+    return table ?? null;
+  }
+
+  private ignore(reader: StatementReader): void {
+    const words: string[] = [];
+    for (let i = 0; i < 2; i++) {
+      const token = reader.peek(i);
+      if (token?.kind !== "word") {
+        break;
+      }
+      words.push(token.value.toUpperCase());
+      if (!["CREATE", "ALTER", "DROP"].includes(words[0])) {
+        break;
+      }
+    }
+    const kind = words.join(" ") || "desconocida";
+    this.ignored.set(kind, (this.ignored.get(kind) || 0) + 1);
+  }
+
+  parse(sql: string): ImportedSchema {
+    for (const statement of splitStatements(tokenize(sql))) {
+      const reader = new StatementReader(statement);
+      if (reader.acceptWords("CREATE")) {
+        reader.acceptWords("OR", "REPLACE");
+        reader.acceptWords("UNLOGGED");
+        if (reader.isWord("TEMP", "TEMPORARY")) {
+          reader.next();
+        }
+
+        if (reader.acceptWords("TABLE")) {
+          this.parseCreateTable(reader);
+          continue;
+        }
+        if (reader.isWord("UNIQUE", "INDEX")) {
+          this.parseCreateIndex(reader);
+          continue;
+        }
+        if (reader.acceptWords("TYPE")) {
+          const name = reader.readName();
+          if (reader.acceptWords("AS", "ENUM")) {
+            this.enumTypes.add(name.toLowerCase());
+            continue;
+          }
+        }
+      } else if (reader.acceptWords("ALTER", "TABLE")) {
+        this.parseAlterTable(reader);
+        continue;
+      } else if (reader.acceptWords("COMMENT", "ON")) {
+        this.parseComment(reader);
+        continue;
+      }
+      this.ignore(new StatementReader(statement));
+    }
+
+    for (const [kind, count] of this.ignored) {
+      this.warnings.push(
+        count === 1
+          ? `Se ignoró 1 sentencia ${kind}`
+          : `Se ignoraron ${count} sentencias ${kind}`
+      );
+    }
+
+    return { tables: this.tables, warnings: this.warnings };
+  }
+
+  private parseCreateTable(reader: StatementReader): void {
+    reader.acceptWords("IF", "NOT", "EXISTS");
+    const table: ImportedTable = {
+      name: reader.readName(),
+      columns: [],
+      primary_key: [],
+      foreign_keys: [],
+    };
+
+    if (!reader.isSymbol("(")) {
+      this.warnings.push(
+        `La tabla ${table.name} no define columnas (CREATE TABLE ... AS/LIKE); se ignora`
+      );
+      return;
+    }
+    reader.next();
+
+    while (!reader.acceptSymbol(")")) {
+      this.parseTableElement(reader, table);
+      if (!reader.acceptSymbol(",") && !reader.isSymbol(")")) {
+        throw new SqlParseError(
+          `Definición no válida en la tabla ${table.name}`,
+          reader.line
+        );
+      }
+    }
+
+    // Opciones de MySQL: ENGINE=InnoDB COMMENT='...'
+    while (!reader.done()) {
+      if (reader.acceptWords("COMMENT")) {
+        reader.acceptSymbol("=");
+        const comment = reader.next();
+        if (comment.kind === "string") {
+          table.description = comment.value;
+        }
+      } else {
+        reader.skip();
+      }
+    }
+
+    if (this.findTable(table.name)) {
+      this.warnings.push(`La tabla ${table.name} está repetida; se ignora`);
+      return;
+    }
+    this.tables.push(table);
+  }
+
+  /**
+   * Lee una columna o una restricción de tabla
+   */
+  private parseTableElement(
+    reader: StatementReader,
+    table: ImportedTable
+  ): void {
+    if (reader.acceptWords("CONSTRAINT")) {
+      reader.readName();
+    }
+
+    if (reader.acceptWords("PRIMARY", "KEY")) {
+      table.primary_key = reader.readNameList();
+    } else if (reader.acceptWords("UNIQUE")) {
+      if (reader.isWord("KEY", "INDEX")) {
+        reader.next();
+      }
+      if (!reader.isSymbol("(")) {
+        reader.readName();
+      }
+      this.markUnique(table, reader.readNameList());
+    } else if (reader.acceptWords("FOREIGN", "KEY")) {
+      if (!reader.isSymbol("(")) {
+        reader.readName();
+      }
+      const columns = reader.readNameList();
+      reader.expectWords("REFERENCES");
+      table.foreign_keys.push(readReferences(reader, columns));
+    } else if (
+      reader.isWord("KEY", "INDEX", "FULLTEXT", "SPATIAL", "CHECK", "EXCLUDE")
+    ) {
+      // Índices y comprobaciones: no tienen equivalente en el modelo
+    } else {
+      table.columns.push(this.parseColumn(reader, table));
+    }
+    reader.skipElement();
+  }
+
+  private parseColumn(
+    reader: StatementReader,
+    table: ImportedTable
+  ): ImportedColumn {
+    const name = reader.readName();
+
+    // Tipo: palabras, tamaño entre paréntesis y marcas de array
+    const typeWords = [reader.readName()];
+    let size: number | undefined;
+    let isArray = false;
+    for (;;) {
+      if (reader.isWord(...TYPE_WORDS)) {
+        typeWords.push(reader.next().value);
+      } else if (reader.acceptSymbol("(")) {
+        const first = reader.peek();
+        if (first?.kind === "number" && size === undefined) {
+          size = parseInt(first.value, 10);
+        }
+        while (!reader.acceptSymbol(")")) {
+          reader.next();
+        }
+      } else if (reader.acceptSymbol("[")) {
+        while (!reader.acceptSymbol("]")) {
+          reader.next();
+        }
+        isArray = true;
+      } else {
+        break;
+      }
+    }
+
+    const sqlType = typeWords.join(" ");
+    let mapped = isArray ? { type: "text" } : mapSqlType(sqlType, size);
+    if (!mapped) {
+      if (!this.enumTypes.has(sqlType.toLowerCase())) {
+        this.warnings.push(
+          `Tipo ${sqlType} de ${table.name}.${name} sin equivalente; se importa como string`
+        );
+      }
+      mapped = { type: "string" };
+    }
+
+    const column: ImportedColumn = {
+      name,
+      ...mapped,
+      is_required: false,
+      is_unique: false,
+    };
+
+    while (!reader.atElementEnd()) {
+      if (reader.acceptWords("NOT", "NULL")) {
+        column.is_required = true;
+      } else if (reader.acceptWords("PRIMARY", "KEY")) {
+        table.primary_key = [name];
+      } else if (reader.acceptWords("UNIQUE")) {
+        reader.acceptWords("KEY");
+        column.is_unique = true;
+      } else if (reader.acceptWords("DEFAULT")) {
+        column.default_value = readDefault(reader);
+      } else if (reader.acceptWords("REFERENCES")) {
+        table.foreign_keys.push(readReferences(reader, [name]));
+      } else if (reader.acceptWords("COMMENT")) {
+        const comment = reader.next();
+        if (comment.kind === "string") {
+          column.description = comment.value;
+        }
+      } else if (reader.acceptWords("CONSTRAINT")) {
+        reader.readName();
+      } else if (reader.acceptWords("COLLATE")) {
+        reader.readName();
+      } else {
+        // NULL, CHECK (...), AUTO_INCREMENT, GENERATED ..., ON UPDATE ...
+        reader.skip();
+      }
+    }
+
+    return column;
+  }
+
+  private markUnique(table: ImportedTable, columns: string[]): void {
+    if (columns.length !== 1) {
+      this.warnings.push(
+        `La restricción UNIQUE compuesta de ${table.name} (${columns.join(
+          ", "
+        )}) no se importa`
+      );
+      return;
+    }
+    const column = table.columns.find((item) => item.name === columns[0]);
+    if (column) {
+      column.is_unique = true;
+    }
+  }
+
+  private parseCreateIndex(reader: StatementReader): void {
+    const unique = reader.acceptWords("UNIQUE");
+    reader.expectWords("INDEX");
+    reader.acceptWords("CONCURRENTLY");
+    reader.acceptWords("IF", "NOT", "EXISTS");
+    if (!reader.isWord("ON")) {
+      reader.readName();
+    }
+    reader.expectWords("ON");
+    reader.acceptWords("ONLY");
+    const line = reader.line;
+    const name = reader.readName();
+    if (reader.acceptWords("USING")) {
+      reader.next();
+    }
+    const columns = reader.readNameList();
+
+    // Los índices no únicos no tienen equivalente en el modelo
+    if (unique) {
+      const table = this.requireTable(name, line);
+      if (table) {
+        this.markUnique(table, columns);
+      }
+    }
+  }
+
+  private parseAlterTable(reader: StatementReader): void {
+    reader.acceptWords("IF", "EXISTS");
+    reader.acceptWords("ONLY");
+    const line = reader.line;
+    const table = this.requireTable(reader.readName(), line);
+    if (!table) {
+      return;
+    }
+
+    while (!reader.done()) {
+      if (reader.acceptWords("ADD")) {
+        if (
+          reader.isWord(
+            "CONSTRAINT",
+            "PRIMARY",
+            "UNIQUE",
+            "FOREIGN",
+            "KEY",
+            "INDEX",
+            "CHECK"
+          )
+        ) {
+          this.parseTableElement(reader, table);
+        } else {
+          reader.acceptWords("COLUMN");
+          reader.acceptWords("IF", "NOT", "EXISTS");
+          table.columns.push(this.parseColumn(reader, table));
+        }
+      } else {
+        // OWNER TO, ALTER COLUMN, DROP...: no cambian el modelo importable
+        this.ignored.set(
+          "ALTER TABLE",
+          (this.ignored.get("ALTER TABLE") || 0) + 1
+        );
+        reader.skipElement();
+      }
+      if (!reader.acceptSymbol(",")) {
+        reader.skipElement();
+        if (!reader.done()) {
+          reader.next();
+        }
+      }
+    }
+  }
+
+  private parseComment(reader: StatementReader): void {
+    if (reader.acceptWords("TABLE")) {
+      const line = reader.line;
+      const table = this.requireTable(reader.readName(), line);
+      reader.expectWords("IS");
+      const comment = reader.next();
+      if (table && comment.kind === "string") {
+        table.description = comment.value;
+      }
+    } else if (reader.acceptWords("COLUMN")) {
+      // tabla.columna (opcionalmente esquema.tabla.columna)
+      const line = reader.line;
+      const parts = [reader.next().value];
+      while (reader.acceptSymbol(".")) {
+        parts.push(reader.next().value);
+      }
+      reader.expectWords("IS");
+      const comment = reader.next();
+      const table =
+        parts.length > 1
+          ? this.requireTable(parts[parts.length - 2], line)
+          : null;
+      const column = table?.columns.find(
+        (item) => item.name === parts[parts.length - 1]
+      );
+      if (column && comment.kind === "string") {
+        column.description = comment.value;
+      }
+    }
+  }
+}
+
+/**
+ * Lee las tablas, columnas y claves de un script SQL (CREATE TABLE,
+ * ALTER TABLE, CREATE UNIQUE INDEX y COMMENT ON) de PostgreSQL, MySQL o SQLite.
+ * Lanza SqlParseError si el script tiene errores de sintaxis.
+ */
+export const parseSqlSchema = (sql: string): ImportedSchema =>
+  new SqlSchemaParser().parse(sql);
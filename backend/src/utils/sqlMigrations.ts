@@ -0,0 +1,696 @@
+import { Field } from "../repositories/fieldRepository";
+import {
+  SchemaSnapshot,
+  SchemaVersion,
+  SnapshotEntity,
+  SnapshotField,
+} from "../repositories/schemaVersionRepository";
+import { isDataColumn } from "./dataTables";
+import { diffSchemaSnapshots } from "./schemaDiff";
+import {
+  getIdType,
+  getSqlColumnType,
+  getTimestampType,
+  quote,
+  renderColumn,
+  renderDefault,
+  SqlDialect,
+} from "./sqlExport";
+
+const EMPTY_SNAPSHOT: SchemaSnapshot = { entities: [], relationships: [] };
+
+/**
+ * Migración SQL entre una versión del esquema y la anterior
+ */
+export interface SchemaMigration {
+  version: number;
+  /** Nombre de archivo sin extensión, ej. 0003_campo_user_email_creado */
+  name: string;
+  message?: string;
+  tag?: string;
+  breaking: boolean;
+  created_at: string;
+  up: string;
+  down: string;
+}
+
+/**
+ * Columna de una tabla. Las columnas de los campos se identifican por el ID
+ * del campo, de modo que un cambio de nombre se reconoce como tal.
+ */
+interface MigrationColumn {
+  key: string;
+  name: string;
+  type: string;
+  notNull: boolean;
+  defaultValue: string | null;
+}
+
+interface MigrationForeignKey {
+  /** Nombre de la restricción, estable aunque cambien los nombres */
+  constraint: string;
+  columnKey: string;
+  tableKey: string;
+  referencedColumn: string;
+  onDelete?: "CASCADE" | "SET NULL";
+}
+
+/**
+ * Tabla de una entidad o tabla intermedia de una relación muchos a muchos
+ */
+interface MigrationTable {
+  key: string;
+  name: string;
+  junction: boolean;
+  columns: Map<string, MigrationColumn>;
+  primaryKey: string[];
+  /** Claves de columna con restricción UNIQUE */
+  unique: string[];
+  foreignKeys: MigrationForeignKey[];
+}
+
+const toField = (entity: SnapshotEntity, field: SnapshotField): Field => ({
+  ...field,
+  entity_id: entity.id,
+  created_at: "",
+  updated_at: "",
+});
+
+/**
+ * Nombre de restricción a partir del ID del campo (máximo 35 caracteres)
+ */
+const getConstraintName = (prefix: "uq" | "fk", id: string): string =>
+  `${prefix}_${id.replace(/-/g, "")}`;
+
+const timestampColumn = (
+  dialect: SqlDialect,
+  name: string
+): MigrationColumn => ({
+  key: name,
+  name,
+  type: getTimestampType(dialect),
+  notNull: true,
+  defaultValue: "CURRENT_TIMESTAMP",
+});
+
+/**
+ * Construye las tablas de un modelo en un dialecto, igual que la exportación
+ * SQL: las claves foráneas son las de los campos marcados como tales y su
+ * acción al eliminar, la de la relación que usa el campo
+ */
+const buildTables = (
+  snapshot: SchemaSnapshot,
+  dialect: SqlDialect
+): Map<string, MigrationTable> => {
+  const tables = new Map<string, MigrationTable>();
+  const entities = new Map(
+    snapshot.entities.map((entity) => [entity.id, entity])
+  );
+  const idType = getIdType(dialect);
+
+  for (const entity of snapshot.entities) {
+    const table: MigrationTable = {
+      key: entity.id,
+      name: entity.name,
+      junction: false,
+      columns: new Map([
+        [
+          "id",
+          {
+            key: "id",
+            name: "id",
+            type: idType,
+            notNull: true,
+            defaultValue: null,
+          },
+        ],
+      ]),
+      primaryKey: ["id"],
+      unique: [],
+      foreignKeys: [],
+    };
+
+    for (const snapshotField of entity.fields.filter(isDataColumn)) {
+      const field = toField(entity, snapshotField);
+      let type = getSqlColumnType(dialect, field);
+
+      const referenced =
+        field.is_foreign_key && field.foreign_entity_id
+          ? entities.get(field.foreign_entity_id)
+          : undefined;
+      const referencedField = referenced?.fields.find(
+        (other) => other.id === field.foreign_field_id
+      );
+      if (
+        referenced &&
+        (!referencedField ||
+          referencedField.is_unique ||
+          referencedField.is_primary_key)
+      ) {
+        // Las claves foráneas toman el tipo de la columna referenciada
+        type = referencedField
+          ? getSqlColumnType(dialect, toField(referenced, referencedField))
+          : idType;
+        const relationship = snapshot.relationships.find(
+          (other) => other.source_field_id === field.id
+        );
+        table.foreignKeys.push({
+          constraint: getConstraintName("fk", field.id),
+          columnKey: field.id,
+          tableKey: referenced.id,
+          referencedColumn: referencedField?.name || "id",
+          onDelete: relationship?.cascade_delete
+            ? "CASCADE"
+            : relationship && !relationship.is_required && !field.is_required
+            ? "SET NULL"
+            : undefined,
+        });
+      }
+
+      table.columns.set(field.id, {
+        key: field.id,
+        name: field.name,
+        type,
+        notNull: field.is_required || field.is_primary_key,
+        defaultValue: renderDefault(dialect, field, type),
+      });
+      if (field.is_unique || field.is_primary_key) {
+        table.unique.push(field.id);
+      }
+    }
+
+    table.columns.set("created_at", timestampColumn(dialect, "created_at"));
+    table.columns.set("updated_at", timestampColumn(dialect, "updated_at"));
+    tables.set(table.key, table);
+  }
+
+  // Tablas intermedias con el mismo nombre que en la exportación SQL
+  const usedNames = new Set(
+    snapshot.entities.map((entity) => entity.name.toLowerCase())
+  );
+  for (const relationship of snapshot.relationships) {
+    const source = entities.get(relationship.source_entity_id);
+    const target = entities.get(relationship.target_entity_id);
+    if (
+      relationship.relationship_type !== "many_to_many" ||
+      !source ||
+      !target
+    ) {
+      continue;
+    }
+
+    const base = `${source.name}_${relationship.name || target.name}`;
+    let name = base;
+    for (let i = 2; usedNames.has(name.toLowerCase()); i++) {
+      name = `${base}_${i}`;
+    }
+    usedNames.add(name.toLowerCase());
+
+    const idColumn = (key: string): MigrationColumn => ({
+      key,
+      name: key,
+      type: idType,
+      notNull: true,
+      defaultValue: null,
+    });
+    tables.set(relationship.id, {
+      key: relationship.id,
+      name,
+      junction: true,
+      columns: new Map([
+        ["source_id", idColumn("source_id")],
+        ["target_id", idColumn("target_id")],
+        ["created_at", timestampColumn(dialect, "created_at")],
+      ]),
+      primaryKey: ["source_id", "target_id"],
+      unique: [],
+      foreignKeys: [
+        {
+          constraint: `${name}_source_id_fkey`,
+          columnKey: "source_id",
+          tableKey: source.id,
+          referencedColumn: "id",
+          onDelete: "CASCADE",
+        },
+        {
+          constraint: `${name}_target_id_fkey`,
+          columnKey: "target_id",
+          tableKey: target.id,
+          referencedColumn: "id",
+          onDelete: "CASCADE",
+        },
+      ],
+    });
+  }
+
+  return tables;
+};
+
+/**
+ * Generador de las sentencias que llevan de un modelo a otro
+ */
+class MigrationWriter {
+  readonly statements: string[] = [];
+  private rebuilt = false;
+
+  constructor(
+    private readonly dialect: SqlDialect,
+    private readonly previous: Map<string, MigrationTable>,
+    private readonly next: Map<string, MigrationTable>
+  ) {}
+
+  private quote(name: string): string {
+    return quote(this.dialect, name);
+  }
+
+  private renderColumn(column: MigrationColumn): string {
+    return renderColumn(
+      this.dialect,
+      column.name,
+      column.type,
+      column.notNull,
+      column.defaultValue
+    );
+  }
+
+  private renderForeignKey(
+    table: MigrationTable,
+    fk: MigrationForeignKey
+  ): string {
+    const referenced = this.next.get(fk.tableKey) as MigrationTable;
+    const column = table.columns.get(fk.columnKey) as MigrationColumn;
+    return `CONSTRAINT ${this.quote(fk.constraint)} FOREIGN KEY (${this.quote(
+      column.name
+    )}) REFERENCES ${this.quote(referenced.name)} (${this.quote(
+      fk.referencedColumn
+    )})${fk.onDelete ? ` ON DELETE ${fk.onDelete}` : ""}`;
+  }
+
+  private renderUnique(table: MigrationTable, key: string): string {
+    const column = table.columns.get(key) as MigrationColumn;
+    return `CONSTRAINT ${this.quote(
+      getConstraintName("uq", key)
+    )} UNIQUE (${this.quote(column.name)})`;
+  }
+
+  private alter(table: MigrationTable, action: string): void {
+    this.statements.push(`ALTER TABLE ${this.quote(table.name)} ${action};`);
+  }
+
+  private createTable(
+    table: MigrationTable,
+    foreignKeys: MigrationForeignKey[],
+    name = table.name
+  ): void {
+    const definitions = [
+      ...Array.from(table.columns.values()).map((column) =>
+        this.renderColumn(column)
+      ),
+      `PRIMARY KEY (${table.primaryKey
+        .map((key) => this.quote(key))
+        .join(", ")})`,
+      ...table.unique.map((key) => this.renderUnique(table, key)),
+      ...foreignKeys.map((fk) => this.renderForeignKey(table, fk)),
+    ];
+    this.statements.push(
+      [
+        `CREATE TABLE ${this.quote(name)} (`,
+        definitions.map((definition) => `  ${definition}`).join(",\n"),
+        this.dialect === "mysql"
+          ? ") ENGINE=InnoDB DEFAULT CHARSET=utf8mb4;"
+          : ");",
+      ].join("\n")
+    );
+  }
+
+  private dropTable(table: MigrationTable): void {
+    this.statements.push(`DROP TABLE ${this.quote(table.name)};`);
+  }
+
+  private isSameColumn(a: MigrationColumn, b: MigrationColumn): boolean {
+    return (
+      a.type === b.type &&
+      a.notNull === b.notNull &&
+      a.defaultValue === b.defaultValue
+    );
+  }
+
+  // Las claves foráneas siguen a la tabla referenciada aunque cambie de nombre
+  private isSameForeignKey(
+    a: MigrationForeignKey,
+    b: MigrationForeignKey
+  ): boolean {
+    return (
+      a.tableKey === b.tableKey &&
+      a.referencedColumn === b.referencedColumn &&
+      a.onDelete === b.onDelete
+    );
+  }
+
+  private getChangedForeignKeys(
+    from: MigrationTable,
+    to: MigrationTable
+  ): MigrationForeignKey[] {
+    return from.foreignKeys.filter((fk) => {
+      const other = to.foreignKeys.find(
+        (candidate) => candidate.constraint === fk.constraint
+      );
+      return !other || !this.isSameForeignKey(fk, other);
+    });
+  }
+
+  /**
+   * Claves foráneas y restricciones únicas que desaparecen o cambian. Se
+   * eliminan antes que las tablas y columnas a las que afectan.
+   */
+  private dropConstraints(from: MigrationTable, to: MigrationTable): void {
+    for (const fk of this.getChangedForeignKeys(from, to)) {
+      this.alter(
+        from,
+        this.dialect === "mysql"
+          ? `DROP FOREIGN KEY ${this.quote(fk.constraint)}`
+          : `DROP CONSTRAINT ${this.quote(fk.constraint)}`
+      );
+    }
+    for (const key of from.unique) {
+      if (!to.unique.includes(key)) {
+        const constraint = this.quote(getConstraintName("uq", key));
+        this.alter(
+          from,
+          this.dialect === "mysql"
+            ? `DROP INDEX ${constraint}`
+            : `DROP CONSTRAINT ${constraint}`
+        );
+      }
+    }
+  }
+
+  private alterColumns(from: MigrationTable, to: MigrationTable): void {
+    for (const [key, column] of from.columns) {
+      const next = to.columns.get(key);
+      if (next && next.name !== column.name) {
+        this.alter(
+          to,
+          `RENAME COLUMN ${this.quote(column.name)} TO ${this.quote(
+            next.name
+          )}`
+        );
+      }
+    }
+    for (const [key, column] of from.columns) {
+      if (!to.columns.has(key)) {
+        this.alter(to, `DROP COLUMN ${this.quote(column.name)}`);
+      }
+    }
+    for (const [key, column] of to.columns) {
+      if (!from.columns.has(key)) {
+        this.alter(to, `ADD COLUMN ${this.renderColumn(column)}`);
+      }
+    }
+
+    for (const [key, column] of to.columns) {
+      const previous = from.columns.get(key);
+      if (!previous || this.isSameColumn(previous, column)) {
+        continue;
+      }
+      if (this.dialect === "mysql") {
+        this.alter(to, `MODIFY COLUMN ${this.renderColumn(column)}`);
+        continue;
+      }
+
+      const name = this.quote(column.name);
+      if (previous.type !== column.type) {
+        const type = column.type;
+        this.alter(
+          to,
+          `ALTER COLUMN ${name} TYPE ${type} USING ${name}::${type}`
+        );
+      }
+      if (previous.defaultValue !== column.defaultValue) {
+        this.alter(
+          to,
+          column.defaultValue !== null
+            ? `ALTER COLUMN ${name} SET DEFAULT ${column.defaultValue}`
+            : `ALTER COLUMN ${name} DROP DEFAULT`
+        );
+      }
+      if (previous.notNull !== column.notNull) {
+        this.alter(
+          to,
+          `ALTER COLUMN ${name} ${column.notNull ? "SET" : "DROP"} NOT NULL`
+        );
+      }
+    }
+  }
+
+  private addConstraints(from: MigrationTable, to: MigrationTable): void {
+    for (const key of to.unique) {
+      if (!from.unique.includes(key)) {
+        this.alter(to, `ADD ${this.renderUnique(to, key)}`);
+      }
+    }
+    for (const fk of this.getChangedForeignKeys(to, from)) {
+      this.alter(to, `ADD ${this.renderForeignKey(to, fk)}`);
+    }
+  }
+
+  /**
+   * SQLite no modifica columnas ni restricciones: la tabla se vuelve a crear
+   * con la definición nueva y se copian las filas
+   */
+  private needsRebuild(from: MigrationTable, to: MigrationTable): boolean {
+    if (
+      this.getChangedForeignKeys(from, to).length > 0 ||
+      this.getChangedForeignKeys(to, from).length > 0 ||
+      from.unique.some((key) => !to.unique.includes(key)) ||
+      to.unique.some((key) => !from.unique.includes(key))
+    ) {
+      return true;
+    }
+    for (const [key, column] of from.columns) {
+      const next = to.columns.get(key);
+      if (!next || !this.isSameColumn(column, next)) {
+        return true;
+      }
+    }
+    // ADD COLUMN no admite NOT NULL sin valor por defecto
+    return Array.from(to.columns.values()).some(
+      (column) =>
+        !from.columns.has(column.key) &&
+        column.notNull &&
+        column.defaultValue === null
+    );
+  }
+
+  private rebuildTable(from: MigrationTable, to: MigrationTable): void {
+    const temporary = `__new_${to.name}`;
+    const copied = Array.from(to.columns.values()).filter((column) =>
+      from.columns.has(column.key)
+    );
+
+    this.createTable(to, to.foreignKeys, temporary);
+    this.statements.push(
+      `INSERT INTO ${this.quote(temporary)} (${copied
+        .map((column) => this.quote(column.name))
+        .join(", ")}) SELECT ${copied
+        .map((column) =>
+          this.quote((from.columns.get(column.key) as MigrationColumn).name)
+        )
+        .join(", ")} FROM ${this.quote(to.name)};`
+    );
+    this.dropTable(to);
+    this.statements.push(
+      `ALTER TABLE ${this.quote(temporary)} RENAME TO ${this.quote(to.name)};`
+    );
+    this.rebuilt = true;
+  }
+
+  /**
+   * Ordena las tablas para que cada una vaya después de las que referencia
+   */
+  private sortTables(
+    tables: MigrationTable[],
+    model: Map<string, MigrationTable>
+  ): MigrationTable[] {
+    const keys = new Set(tables.map((table) => table.key));
+    const sorted: MigrationTable[] = [];
+    const visited = new Set<string>();
+    const visit = (table: MigrationTable): void => {
+      visited.add(table.key);
+      for (const fk of table.foreignKeys) {
+        const referenced = model.get(fk.tableKey);
+        if (referenced && keys.has(fk.tableKey) && !visited.has(fk.tableKey)) {
+          visit(referenced);
+        }
+      }
+      sorted.push(table);
+    };
+    for (const table of tables) {
+      if (!visited.has(table.key)) {
+        visit(table);
+      }
+    }
+    return sorted;
+  }
+
+  write(): string[] {
+    const kept = Array.from(this.next.values()).filter((table) =>
+      this.previous.has(table.key)
+    );
+    const created = Array.from(this.next.values()).filter(
+      (table) => !this.previous.has(table.key)
+    );
+    const dropped = Array.from(this.previous.values()).filter(
+      (table) => !this.next.has(table.key)
+    );
+    const sqlite = this.dialect === "sqlite";
+
+    // Restricciones que desaparecen, tablas intermedias eliminadas y nombres
+    if (!sqlite) {
+      for (const table of kept) {
+        const previous = this.previous.get(table.key) as MigrationTable;
+        this.dropConstraints(previous, table);
+      }
+    }
+    for (const table of dropped.filter((table) => table.junction)) {
+      this.dropTable(table);
+    }
+    for (const table of kept) {
+      const previous = this.previous.get(table.key) as MigrationTable;
+      if (previous.name !== table.name) {
+        this.alter(previous, `RENAME TO ${this.quote(table.name)}`);
+      }
+    }
+
+    // Tablas nuevas; las referencias a tablas sin crear se añaden al final
+    const existing = new Set(kept.map((table) => table.key));
+    const deferred: Array<{ table: MigrationTable; fk: MigrationForeignKey }> =
+      [];
+    for (const table of this.sortTables(created, this.next)) {
+      const inline = table.foreignKeys.filter(
+        (fk) =>
+          sqlite || fk.tableKey === table.key || existing.has(fk.tableKey)
+      );
+      deferred.push(
+        ...table.foreignKeys
+          .filter((fk) => !inline.includes(fk))
+          .map((fk) => ({ table, fk }))
+      );
+      this.createTable(table, inline);
+      existing.add(table.key);
+    }
+
+    for (const table of kept) {
+      const previous = this.previous.get(table.key) as MigrationTable;
+      if (sqlite && this.needsRebuild(previous, table)) {
+        this.rebuildTable(previous, table);
+      } else {
+        this.alterColumns(previous, table);
+      }
+    }
+    if (!sqlite) {
+      for (const table of kept) {
+        const previous = this.previous.get(table.key) as MigrationTable;
+        this.addConstraints(previous, table);
+      }
+    }
+    for (const { table, fk } of deferred) {
+      this.alter(table, `ADD ${this.renderForeignKey(table, fk)}`);
+    }
+
+    // Se eliminan primero las tablas que referencian a otras
+    const droppedEntities = this.sortTables(
+      dropped.filter((table) => !table.junction),
+      this.previous
+    );
+    for (const table of droppedEntities.reverse()) {
+      this.dropTable(table);
+    }
+
+    // Al volver a crear tablas, SQLite no debe aplicar las claves foráneas
+    if (this.rebuilt) {
+      this.statements.unshift("PRAGMA foreign_keys = OFF;");
+      this.statements.push("PRAGMA foreign_keys = ON;");
+    }
+    return this.statements;
+  }
+}
+
+/**
+ * Sentencias SQL que transforman las tablas de un modelo en las de otro.
+ * Las entidades, campos y relaciones se emparejan por ID, de modo que los
+ * cambios de nombre se traducen en RENAME.
+ */
+export const generateMigrationStatements = (
+  previous: SchemaSnapshot,
+  next: SchemaSnapshot,
+  dialect: SqlDialect
+): string[] =>
+  new MigrationWriter(
+    dialect,
+    buildTables(previous, dialect),
+    buildTables(next, dialect)
+  ).write();
+
+const toFileName = (version: number, message?: string): string => {
+  const slug = (message || "")
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "")
+    .slice(0, 60);
+  return `${String(version).padStart(4, "0")}${slug ? `_${slug}` : ""}`;
+};
+
+const renderScript = (
+  version: SchemaVersion,
+  dialect: SqlDialect,
+  direction: "up" | "down",
+  statements: string[]
+): string =>
+  [
+    `-- Migración ${version.version} (${direction}, ${dialect})${
+      version.message ? `: ${version.message}` : ""
+    }`,
+    "-- Generado por OroyaAPI",
+    "",
+    ...statements.map((statement) => `${statement}\n`),
+  ].join("\n");
+
+/**
+ * Genera una migración por cada versión del esquema que cambia las tablas:
+ * up lleva de la versión anterior a esta y down la deshace. Las versiones que
+ * solo cambian descripciones no generan migración.
+ */
+export const buildSchemaMigrations = (
+  versions: SchemaVersion[],
+  dialect: SqlDialect
+): SchemaMigration[] => {
+  const migrations: SchemaMigration[] = [];
+  let previous = EMPTY_SNAPSHOT;
+
+  for (const version of versions) {
+    const up = generateMigrationStatements(previous, version.snapshot, dialect);
+    if (up.length > 0) {
+      const down = generateMigrationStatements(
+        version.snapshot,
+        previous,
+        dialect
+      );
+      migrations.push({
+        version: version.version,
+        name: toFileName(version.version, version.message),
+        message: version.message,
+        tag: version.tag,
+        breaking: diffSchemaSnapshots(previous, version.snapshot).breaking,
+        created_at: version.created_at,
+        up: renderScript(version, dialect, "up", up),
+        down: renderScript(version, dialect, "down", down),
+      });
+    }
+    previous = version.snapshot;
+  }
+
+  return migrations;
+};
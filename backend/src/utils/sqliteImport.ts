@@ -0,0 +1,432 @@
+import { DatabaseSync, SupportedValueType } from "node:sqlite";
+import { getDatabase } from "../config/database";
+import {
+  convertColumnValue,
+  getDataTableName,
+  quoteIdentifier,
+} from "./dataTables";
+import {
+  ImportedColumn,
+  ImportedForeignKey,
+  ImportedSchema,
+  ImportedTable,
+  ImportPlan,
+  ImportResult,
+} from "./schemaImport";
+import { getJunctionTable } from "./schemaSync";
+import { mapSqlType } from "./sqlImport";
+import { generateUUID } from "./uuid";
+
+interface ColumnInfo {
+  name: string;
+  type: string;
+  notnull: number;
+  dflt_value: string | null;
+  pk: number;
+}
+
+interface ForeignKeyInfo {
+  id: number;
+  seq: number;
+  table: string;
+  from: string;
+  to: string | null;
+  on_delete: string;
+}
+
+interface IndexInfo {
+  name: string;
+  unique: number;
+  origin: string;
+  partial: number;
+}
+
+type SourceRow = Record<string, SupportedValueType>;
+
+/**
+ * Filas copiadas por entidad y avisos de la copia
+ */
+export interface SqliteCopyResult {
+  rows: Record<string, number>;
+  warnings: string[];
+}
+
+const DELETE_ACTIONS: Record<string, ImportedForeignKey["on_delete"]> = {
+  CASCADE: "cascade",
+  "SET NULL": "set_null",
+  "SET DEFAULT": "set_default",
+  RESTRICT: "restrict",
+  "NO ACTION": "no_action",
+};
+
+/**
+ * Indica si un contenido es una base de datos SQLite (cabecera del formato)
+ */
+export const isSqliteDatabase = (content: Buffer): boolean =>
+  content.subarray(0, 16).toString("latin1") === "SQLite format 3\u0000";
+
+/**
+ * Convierte el valor por defecto de PRAGMA table_info (una expresión SQL)
+ * en un valor de campo. Las expresiones no literales no se importan.
+ */
+const parseDefault = (expression: string | null): string | undefined => {
+  if (expression === null) {
+    return undefined;
+  }
+  const text = expression.trim();
+  if (text.startsWith("(") && text.endsWith(")")) {
+    return parseDefault(text.slice(1, -1));
+  }
+  const quoted = /^'((?:[^']|'')*)'$/.exec(text);
+  if (quoted) {
+    return quoted[1].replace(/''/g, "'");
+  }
+  if (/^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/.test(text)) {
+    return text;
+  }
+  if (/^(true|false)$/i.test(text)) {
+    return text.toLowerCase();
+  }
+  return undefined;
+};
+
+/**
+ * Lee una tabla con PRAGMA table_info, foreign_key_list e index_list
+ */
+const readTable = (
+  db: DatabaseSync,
+  name: string,
+  warnings: string[]
+): ImportedTable => {
+  const quoted = quoteIdentifier(name);
+  const columns = db
+    .prepare(`PRAGMA table_info(${quoted})`)
+    .all() as unknown as ColumnInfo[];
+
+  const table: ImportedTable = {
+    name,
+    columns: columns.map((info): ImportedColumn => {
+      const [, type = "", size] =
+        /^\s*([^(]*?)\s*(?:\(\s*(\d+)[^)]*\))?\s*$/.exec(info.type) || [];
+      // Sin tipo declarado la columna admite cualquier valor
+      const mapped =
+        type === ""
+          ? { type: "string" }
+          : mapSqlType(type, size ? parseInt(size, 10) : undefined);
+      if (!mapped) {
+        warnings.push(
+          `Tipo ${info.type} de ${name}.${info.name} sin equivalente; se importa como string`
+        );
+      }
+
+      return {
+        name: info.name,
+        ...(mapped ?? { type: "string" }),
+        is_required: info.notnull === 1 || info.pk > 0,
+        is_unique: false,
+        default_value: parseDefault(info.dflt_value),
+      };
+    }),
+    primary_key: columns
+      .filter((info) => info.pk > 0)
+      .sort((a, b) => a.pk - b.pk)
+      .map((info) => info.name),
+    foreign_keys: [],
+  };
+
+  // Claves foráneas, agrupadas por id (las compuestas tienen varias filas)
+  const foreignKeys = db
+    .prepare(`PRAGMA foreign_key_list(${quoted})`)
+    .all() as unknown as ForeignKeyInfo[];
+  const byId = new Map<number, ForeignKeyInfo[]>();
+  for (const row of foreignKeys) {
+    byId.set(row.id, [...(byId.get(row.id) || []), row]);
+  }
+  for (const rows of byId.values()) {
+    rows.sort((a, b) => a.seq - b.seq);
+    table.foreign_keys.push({
+      columns: rows.map((row) => row.from),
+      table: rows[0].table,
+      referenced_columns: rows
+        .map((row) => row.to)
+        .filter((column): column is string => !!column),
+      on_delete: DELETE_ACTIONS[rows[0].on_delete.toUpperCase()],
+    });
+  }
+
+  // Índices únicos de una columna (la clave primaria ya está en table_info)
+  const indexes = db
+    .prepare(`PRAGMA index_list(${quoted})`)
+    .all() as unknown as IndexInfo[];
+  for (const index of indexes) {
+    if (!index.unique || index.partial || index.origin === "pk") {
+      continue;
+    }
+    const indexColumns = (
+      db
+        .prepare(`PRAGMA index_info(${quoteIdentifier(index.name)})`)
+        .all() as unknown as Array<{ name: string | null }>
+    ).map((row) => row.name);
+    if (indexColumns.length !== 1 || !indexColumns[0]) {
+      warnings.push(
+        `El índice único compuesto ${index.name} de ${name} no se importa`
+      );
+      continue;
+    }
+    const column = table.columns.find((item) => item.name === indexColumns[0]);
+    if (column) {
+      column.is_unique = true;
+    }
+  }
+
+  return table;
+};
+
+/**
+ * Lee las tablas, columnas, claves e índices únicos de una base de datos
+ * SQLite (sqlite_master y PRAGMA table_info / foreign_key_list)
+ */
+export const readSqliteSchema = (db: DatabaseSync): ImportedSchema => {
+  const warnings: string[] = [];
+  const names = db
+    .prepare(
+      `SELECT name FROM sqlite_master
+       WHERE type = 'table' AND name NOT LIKE 'sqlite_%'
+       ORDER BY rowid`
+    )
+    .all() as Array<{ name: string }>;
+
+  return {
+    tables: names.map(({ name }) => readTable(db, name, warnings)),
+    warnings,
+  };
+};
+
+/**
+ * Lee las filas de una tabla de origen junto con su rowid (si lo tiene)
+ */
+const readRows = (db: DatabaseSync, table: string): SourceRow[] => {
+  const quoted = quoteIdentifier(table);
+  try {
+    return db
+      .prepare(`SELECT rowid AS "__rowid", * FROM ${quoted}`)
+      .all() as SourceRow[];
+  } catch {
+    // Tablas WITHOUT ROWID
+    return db.prepare(`SELECT * FROM ${quoted}`).all() as SourceRow[];
+  }
+};
+
+/**
+ * Copia las filas de la base de datos de origen a las tablas de datos de las
+ * entidades creadas por una importación. El id de origen se conserva cuando
+ * es único; si no, se genera uno nuevo y las claves foráneas hacia esa tabla
+ * se traducen. Las referencias a filas inexistentes se guardan como null.
+ */
+export const copySqliteRows = (
+  source: DatabaseSync,
+  plan: ImportPlan,
+  result: ImportResult
+): SqliteCopyResult => {
+  const copy: SqliteCopyResult = { rows: {}, warnings: [] };
+  const created = plan.entities.filter((item) => item.action === "create");
+
+  // Filas de origen y nuevo id de cada una, por tabla
+  const sourceRows = new Map<string, SourceRow[]>();
+  const idMaps = new Map<string, Map<string, string>>();
+  const entityTables = new Map<string, string>();
+  for (const item of created) {
+    const rows = readRows(source, item.table);
+    const idColumn = rows.length
+      ? Object.keys(rows[0]).find((column) => column.toLowerCase() === "id")
+      : undefined;
+    const ids = new Map<string, string>();
+    const used = new Set<string>();
+
+    for (const row of rows) {
+      const key = row[idColumn ?? "__rowid"];
+      const sourceId = idColumn && key !== null ? String(key) : null;
+      const id = sourceId && !used.has(sourceId) ? sourceId : generateUUID();
+      used.add(id);
+      if (key !== null && key !== undefined) {
+        ids.set(String(key), id);
+      }
+      row.__id = id;
+    }
+
+    sourceRows.set(item.table.toLowerCase(), rows);
+    idMaps.set(item.name.toLowerCase(), ids);
+    entityTables.set(item.name.toLowerCase(), item.table.toLowerCase());
+  }
+
+  /**
+   * Nuevo id de cada fila de una entidad, indexado por el valor de una
+   * columna (por defecto, el id o rowid de origen)
+   */
+  const recordIds = new Map<string, Map<string, string>>();
+  const getRecordIds = (entity: string, column?: string) => {
+    if (!column) {
+      return idMaps.get(entity.toLowerCase());
+    }
+    const key = `${entity.toLowerCase()}.${column}`;
+    let ids = recordIds.get(key);
+    if (!ids) {
+      const rows = sourceRows.get(entityTables.get(entity.toLowerCase()) ?? "");
+      if (!rows) {
+        return undefined;
+      }
+      ids = new Map();
+      for (const row of rows) {
+        const value = row[column];
+        if (value !== null && value !== undefined && !ids.has(String(value))) {
+          ids.set(String(value), String(row.__id));
+        }
+      }
+      recordIds.set(key, ids);
+    }
+    return ids;
+  };
+
+  const db = getDatabase();
+  db.exec("BEGIN");
+  try {
+    // Las claves foráneas entre tablas se comprueban al confirmar
+    db.exec("PRAGMA defer_foreign_keys = ON");
+
+    for (const item of created) {
+      const entity = result.entities.find(
+        (candidate) => candidate.name === item.name
+      );
+      if (!entity) {
+        continue;
+      }
+      const fields = result.fields.filter(
+        (field) => field.entity_id === entity.id
+      );
+      const rows = sourceRows.get(item.table.toLowerCase()) || [];
+      const timestamps = ["created_at", "updated_at"].filter(
+        (column) => rows.length > 0 && column in rows[0]
+      );
+      const columns = [
+        "id",
+        ...timestamps,
+        ...fields.map((field) => field.name),
+      ];
+      const insert = db.prepare(
+        `INSERT INTO ${quoteIdentifier(getDataTableName(entity))} (${columns
+          .map(quoteIdentifier)
+          .join(", ")}) VALUES (${columns.map(() => "?").join(", ")})`
+      );
+
+      let copied = 0;
+      let converted = 0;
+      let dangling = 0;
+      let skipped = 0;
+      for (const row of rows) {
+        const values = fields.map((field) => {
+          let value = row[field.name] ?? null;
+          const planned = item.fields.find((f) => f.name === field.name);
+          if (value !== null && planned?.foreign_entity) {
+            if (planned.foreign_field) {
+              const exists = getRecordIds(
+                planned.foreign_entity,
+                planned.foreign_field
+              )?.has(String(value));
+              value = exists ? value : null;
+            } else {
+              const ids = idMaps.get(planned.foreign_entity.toLowerCase());
+              // Entidades que ya existían: la referencia se conserva
+              value = ids ? ids.get(String(value)) ?? null : value;
+            }
+            if (value === null) {
+              dangling++;
+            }
+          }
+          if (value === null) {
+            return null;
+          }
+          const stored = convertColumnValue(value, field.type);
+          if (stored === undefined) {
+            converted++;
+            return null;
+          }
+          return stored;
+        });
+
+        try {
+          insert.run(
+            row.__id,
+            ...timestamps.map((column) => row[column] ?? null),
+            ...values
+          );
+          copied++;
+        } catch {
+          // Restricciones NOT NULL o UNIQUE que los datos no cumplen
+          skipped++;
+        }
+      }
+
+      copy.rows[item.name] = copied;
+      if (converted > 0) {
+        copy.warnings.push(
+          `${converted} valores de ${item.table} no tienen el tipo del campo y se guardaron como null`
+        );
+      }
+      if (dangling > 0) {
+        copy.warnings.push(
+          `${dangling} referencias de ${item.table} apuntan a filas inexistentes y se guardaron como null`
+        );
+      }
+      if (skipped > 0) {
+        copy.warnings.push(
+          `${skipped} filas de ${item.table} no cumplen las restricciones de la entidad y se omitieron`
+        );
+      }
+    }
+
+    // Vínculos de las relaciones muchos a muchos (en el orden del plan)
+    plan.relationships.forEach((planned, index) => {
+      const relationship = result.relationships[index];
+      const table = relationship && getJunctionTable(relationship);
+      if (!planned.junction || !table) {
+        return;
+      }
+      const sourceIds = getRecordIds(
+        planned.source_entity,
+        planned.junction.source_key
+      );
+      const targetIds = getRecordIds(
+        planned.target_entity,
+        planned.junction.target_key
+      );
+      const insert = db.prepare(
+        `INSERT OR IGNORE INTO ${quoteIdentifier(
+          table
+        )} (source_id, target_id) VALUES (?, ?)`
+      );
+
+      let linked = 0;
+      for (const row of readRows(source, planned.junction.table)) {
+        const sourceValue = row[planned.junction.source_column];
+        const targetValue = row[planned.junction.target_column];
+        const sourceId = sourceIds
+          ? sourceIds.get(String(sourceValue))
+          : sourceValue;
+        const targetId = targetIds
+          ? targetIds.get(String(targetValue))
+          : targetValue;
+        if (sourceId && targetId) {
+          linked += Number(insert.run(sourceId, targetId).changes);
+        }
+      }
+      copy.rows[planned.junction.table] = linked;
+    });
+
+    db.exec("COMMIT");
+  } catch (error) {
+    db.exec("ROLLBACK");
+    throw error;
+  }
+
+  return copy;
+};
@@ -0,0 +1,346 @@
+import { Entity, EntityRepository } from "../repositories/entityRepository";
+import { Field, FieldRepository } from "../repositories/fieldRepository";
+import { Project } from "../repositories/projectRepository";
+import { isDataColumn } from "./dataTables";
+import { toPascalCase } from "./projectOpenApi";
+import { coerceFieldValue } from "./recordValidation";
+import { getEntityLinks, LinkCache, RelationLink } from "./relationLinks";
+
+const entityRepository = new EntityRepository();
+const fieldRepository = new FieldRepository();
+
+const FILE_TYPES = ["file", "image", "document"];
+
+/**
+ * Entidad del proyecto con los nombres de sus tipos y esquemas generados
+ */
+interface GeneratedEntity {
+  entity: Entity;
+  fields: Field[];
+  links: RelationLink[];
+  /** Interfaz del registro (User); las variantes añaden Input y Patch */
+  typeName: string;
+  /** Esquema Zod del registro (userSchema) */
+  schemaName: string;
+}
+
+/**
+ * Nombre de propiedad, entre comillas si no es un identificador válido
+ */
+const toPropertyName = (name: string): string =>
+  /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(name) ? name : JSON.stringify(name);
+
+/**
+ * Comentario JSDoc con las líneas indicadas (ninguno si no hay líneas)
+ */
+const renderJsDoc = (lines: string[], indent: string): string[] => {
+  const escaped = lines
+    .flatMap((line) => line.split("\n"))
+    .map((line) => line.replace(/\*\//g, "*\\/"));
+  if (escaped.length === 0) {
+    return [];
+  }
+  if (escaped.length === 1) {
+    return [`${indent}/** ${escaped[0]} */`];
+  }
+  return [
+    `${indent}/**`,
+    ...escaped.map((line) => `${indent} * ${line}`.trimEnd()),
+    `${indent} */`,
+  ];
+};
+
+/**
+ * Tipo TypeScript del valor de un campo, tal como lo devuelve la API
+ */
+const getFieldType = (field: Field): string => {
+  if (FILE_TYPES.includes(field.type)) {
+    // IDs de archivos subidos a /api/files
+    return field.accepts_multiple ? "string[]" : "string";
+  }
+  switch (field.type) {
+    case "integer":
+    case "number":
+    case "decimal":
+      return "number";
+    case "boolean":
+      return "boolean";
+    default:
+      // string, text y date (ISO 8601)
+      return "string";
+  }
+};
+
+/**
+ * Esquema Zod del valor de un campo
+ */
+const getFieldSchema = (field: Field): string => {
+  if (FILE_TYPES.includes(field.type)) {
+    return field.accepts_multiple ? "z.array(z.string())" : "z.string()";
+  }
+  switch (field.type) {
+    case "integer":
+      return "z.number().int()";
+    case "number":
+    case "decimal":
+      return "z.number()";
+    case "boolean":
+      return "z.boolean()";
+    case "date":
+      return "isoDate";
+    default:
+      return field.max_length
+        ? `z.string().max(${field.max_length})`
+        : "z.string()";
+  }
+};
+
+/**
+ * Documentación de un campo: descripción, referencia, unicidad y valor por defecto
+ */
+const getFieldDoc = (field: Field, entities: GeneratedEntity[]): string[] => {
+  const lines: string[] = [];
+  if (field.description) {
+    lines.push(field.description);
+  }
+  if (field.is_foreign_key && field.foreign_entity_id) {
+    const referenced = entities.find(
+      (item) => item.entity.id === field.foreign_entity_id
+    );
+    if (referenced) {
+      const column =
+        referenced.fields.find((f) => f.id === field.foreign_field_id)?.name ||
+        "id";
+      lines.push(`Referencia a ${referenced.entity.name}.${column}`);
+    }
+  }
+  if (field.is_unique || field.is_primary_key) {
+    lines.push("Valor único");
+  }
+  if (field.default_value !== null && field.default_value !== undefined) {
+    const coerced = coerceFieldValue(field, field.default_value);
+    if (coerced.ok) {
+      lines.push(`@default ${JSON.stringify(coerced.value)}`);
+    }
+  }
+  return lines;
+};
+
+/**
+ * Indica si un campo es obligatorio al crear un registro
+ * (requerido y sin valor por defecto)
+ */
+const isRequiredInput = (field: Field): boolean =>
+  field.is_required &&
+  (field.default_value === null || field.default_value === undefined);
+
+/**
+ * Interfaces y esquemas Zod de una entidad: el registro (con sus relaciones
+ * incrustables), los datos para crearlo y los campos para modificarlo
+ */
+const renderEntity = (
+  generated: GeneratedEntity,
+  entities: GeneratedEntity[]
+): string[] => {
+  const { entity, fields, links, typeName, schemaName } = generated;
+  const dataFields = fields.filter(isDataColumn);
+  const inputSchemaName = schemaName.replace(/Schema$/, "InputSchema");
+  const patchSchemaName = schemaName.replace(/Schema$/, "PatchSchema");
+  const related = links
+    .map((link) => ({
+      link,
+      target: entities.find((item) => item.entity.id === link.entity.id),
+    }))
+    .filter(
+      (item): item is { link: RelationLink; target: GeneratedEntity } =>
+        !!item.target &&
+        !["id", "created_at", "updated_at"].includes(item.link.name) &&
+        !dataFields.some((field) => field.name === item.link.name)
+    )
+    .filter(
+      (item, index, all) =>
+        all.findIndex((other) => other.link.name === item.link.name) === index
+    );
+
+  const lines = [
+    `// ${entity.name}`,
+    "",
+    ...renderJsDoc([entity.description || `Registro de ${entity.name}`], ""),
+    `export interface ${typeName} {`,
+    "  id: string;",
+    "  created_at: string;",
+    "  updated_at: string;",
+  ];
+  for (const field of dataFields) {
+    lines.push(
+      ...renderJsDoc(getFieldDoc(field, entities), "  "),
+      `  ${toPropertyName(field.name)}: ${getFieldType(field)}${
+        field.is_required ? "" : " | null"
+      };`
+    );
+  }
+  for (const { link, target } of related) {
+    lines.push(
+      ...renderJsDoc([`Solo presente con ?include=${link.name}`], "  "),
+      `  ${toPropertyName(link.name)}?: ${
+        link.cardinality === "many"
+          ? `${target.typeName}[]`
+          : `${target.typeName} | null`
+      };`
+    );
+  }
+  lines.push("}", "");
+
+  lines.push(
+    ...renderJsDoc(
+      [`Datos para crear o reemplazar un registro de ${entity.name}`],
+      ""
+    ),
+    `export interface ${typeName}Input {`
+  );
+  for (const field of dataFields) {
+    lines.push(
+      ...renderJsDoc(getFieldDoc(field, entities), "  "),
+      `  ${toPropertyName(field.name)}${
+        isRequiredInput(field) ? "" : "?"
+      }: ${getFieldType(field)}${field.is_required ? "" : " | null"};`
+    );
+  }
+  lines.push(
+    "}",
+    "",
+    ...renderJsDoc(
+      [`Campos a modificar de un registro de ${entity.name}`],
+      ""
+    ),
+    `export type ${typeName}Patch = Partial<${typeName}Input>;`,
+    ""
+  );
+
+  lines.push(
+    `export const ${schemaName}: z.ZodType<${typeName}> = z.object({`,
+    "  id: z.string(),",
+    "  created_at: z.string(),",
+    "  updated_at: z.string(),"
+  );
+  for (const field of dataFields) {
+    lines.push(
+      `  ${toPropertyName(field.name)}: ${getFieldSchema(field)}${
+        field.is_required ? "" : ".nullable()"
+      },`
+    );
+  }
+  for (const { link, target } of related) {
+    lines.push(
+      `  ${toPropertyName(link.name)}: z.lazy(() => ${
+        link.cardinality === "many"
+          ? `z.array(${target.schemaName})`
+          : `${target.schemaName}.nullable()`
+      }).optional(),`
+    );
+  }
+  lines.push("});", "");
+
+  lines.push(
+    `export const ${inputSchemaName}: z.ZodType<${typeName}Input> = z`,
+    "  .object({"
+  );
+  for (const field of dataFields) {
+    lines.push(
+      `    ${toPropertyName(field.name)}: ${getFieldSchema(field)}${
+        field.is_required ? "" : ".nullable()"
+      }${isRequiredInput(field) ? "" : ".optional()"},`
+    );
+  }
+  lines.push(
+    "  })",
+    "  .strict();",
+    "",
+    `export const ${patchSchemaName}: z.ZodType<${typeName}Patch> = z`,
+    "  .object({"
+  );
+  for (const field of dataFields) {
+    lines.push(
+      `    ${toPropertyName(field.name)}: ${getFieldSchema(field)}${
+        field.is_required ? "" : ".nullable()"
+      }.optional(),`
+    );
+  }
+  lines.push("  })", "  .strict();", "");
+
+  return lines;
+};
+
+/**
+ * Genera un módulo TypeScript con una interfaz y un esquema Zod por entidad
+ * (registro, creación y modificación), con las relaciones incrustables
+ * tipadas, para que las aplicaciones cliente sigan el modelo del proyecto
+ */
+export const generateProjectTypescript = async (
+  project: Project
+): Promise<string> => {
+  const cache: LinkCache = new Map();
+  const entities: GeneratedEntity[] = [];
+  // Nombres de tipo y de esquema en uso (también los del propio módulo)
+  const usedNames = new Set(["isoDate", "entitySchemas"]);
+
+  for (const entity of await entityRepository.findByProjectId(project.id)) {
+    const base = toPascalCase(entity.name);
+    let typeName = base;
+    for (
+      let i = 2;
+      ["", "Input", "Patch"].some((suffix) =>
+        usedNames.has(`${typeName}${suffix}`)
+      );
+      i++
+    ) {
+      typeName = `${base}${i}`;
+    }
+    const schemaName = `${typeName.charAt(0).toLowerCase()}${typeName.slice(
+      1
+    )}Schema`;
+    for (const suffix of ["", "Input", "Patch"]) {
+      usedNames.add(`${typeName}${suffix}`);
+    }
+
+    entities.push({
+      entity,
+      fields: await fieldRepository.findByEntityId(entity.id),
+      links: await getEntityLinks(entity, cache),
+      typeName,
+      schemaName,
+    });
+  }
+
+  const lines = [
+    `// Tipos y esquemas Zod del proyecto ${project.name}`,
+    "// Generado por OroyaAPI: no editar, se regenera desde",
+    `// GET /api/projects/${project.id}/codegen/typescript`,
+    "",
+    'import { z } from "zod";',
+    "",
+    "// Fechas en formato ISO 8601 (con o sin hora)",
+    "const isoDate = z",
+    "  .string()",
+    '  .refine((value) => !Number.isNaN(Date.parse(value)), "Fecha inválida");',
+    "",
+  ];
+  for (const generated of entities) {
+    lines.push(...renderEntity(generated, entities));
+  }
+
+  // Esquemas por nombre de entidad (el de las rutas /data/:entityName)
+  lines.push("export const entitySchemas = {");
+  for (const { entity, schemaName } of entities) {
+    lines.push(
+      `  ${toPropertyName(entity.name)}: {`,
+      `    record: ${schemaName},`,
+      `    input: ${schemaName.replace(/Schema$/, "InputSchema")},`,
+      `    patch: ${schemaName.replace(/Schema$/, "PatchSchema")},`,
+      "  },"
+    );
+  }
+  lines.push("} as const;", "");
+
+  return lines.join("\n");
+};
@@ -0,0 +1,269 @@
+import React, { useEffect, useState } from "react";
+import {
+  PropertyChange,
+  SchemaDiff,
+  SchemaDiffChange,
+  SchemaDiffCounts,
+  sdk,
+} from "../lib/sdk";
+import { useProjectStore } from "../stores";
+import { Button } from "./ui/button";
+
+interface SchemaDiffViewerProps {
+  projectId: string;
+  className?: string;
+}
+
+const CHANGE_LABELS: Record<SchemaDiffChange, string> = {
+  added: "Añadido",
+  removed: "Eliminado",
+  changed: "Modificado",
+};
+
+const CHANGE_STYLES: Record<SchemaDiffChange, string> = {
+  added: "text-green-400 border-green-800 bg-green-900/30",
+  removed: "text-red-400 border-red-800 bg-red-900/30",
+  changed: "text-yellow-400 border-yellow-800 bg-yellow-900/30",
+};
+
+const formatValue = (value: unknown): string =>
+  value === null || value === undefined ? "—" : String(value);
+
+const formatCounts = (counts: SchemaDiffCounts): string =>
+  `+${counts.added} −${counts.removed} ~${counts.changed}`;
+
+interface ChangeBadgeProps {
+  change: SchemaDiffChange;
+  breaking: boolean;
+}
+
+const ChangeBadge: React.FC<ChangeBadgeProps> = ({ change, breaking }) => (
+  <span className="flex items-center space-x-2">
+    <span
+      className={`px-2 py-0.5 text-xs rounded border ${CHANGE_STYLES[change]}`}
+    >
+      {CHANGE_LABELS[change]}
+    </span>
+    {breaking && (
+      <span className="px-2 py-0.5 text-xs rounded bg-red-600 text-white">
+        Incompatible
+      </span>
+    )}
+  </span>
+);
+
+const PropertyChanges: React.FC<{ changes: PropertyChange[] }> = ({
+  changes,
+}) => (
+  <ul className="mt-1 ml-4 space-y-0.5 text-xs text-muted-foreground">
+    {changes.map((change) => (
+      <li key={change.property}>
+        <span className={change.breaking ? "text-red-400" : ""}>
+          {change.property}
+        </span>
+        : {formatValue(change.from)} → {formatValue(change.to)}
+      </li>
+    ))}
+  </ul>
+);
+
+/**
+ * Compara el esquema del proyecto con otro proyecto o con una de sus
+ * versiones y muestra las diferencias, marcando las incompatibles
+ */
+const SchemaDiffViewer: React.FC<SchemaDiffViewerProps> = ({
+  projectId,
+  className = "",
+}) => {
+  const { projects, fetchProjects } = useProjectStore();
+  const [against, setAgainst] = useState("");
+  const [againstVersion, setAgainstVersion] = useState("");
+  const [diff, setDiff] = useState<SchemaDiff | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchProjects();
+  }, [fetchProjects]);
+
+  const otherProjects = projects.filter((project) => project.id !== projectId);
+
+  const handleCompare = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    setError(null);
+
+    try {
+      const result = await sdk.diffProjectSchema(projectId, {
+        against: against || undefined,
+        against_version: againstVersion.trim() || undefined,
+      });
+      setDiff(result);
+    } catch (error) {
+      console.error("Error comparing schemas:", error);
+      setDiff(null);
+      setError(
+        error instanceof Error ? error.message : "Error al comparar esquemas"
+      );
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const describeSide = (side: SchemaDiff["base"]) =>
+    `${side.name}${side.version ? ` (versión ${side.version})` : ""}`;
+
+  return (
+    <div className={className}>
+      <form
+        onSubmit={handleCompare}
+        className="bg-card border border-border rounded-lg p-6 mb-6 grid grid-cols-1 md:grid-cols-3 gap-4 items-end"
+      >
+        <div>
+          <label className="block text-sm font-medium text-foreground mb-2">
+            Comparar con el proyecto
+          </label>
+          <select
+            value={against}
+            onChange={(e) => setAgainst(e.target.value)}
+            className="w-full px-3 py-2 bg-background border border-border rounded-md text-foreground focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent"
+            disabled={loading}
+          >
+            <option value="">Este proyecto</option>
+            {otherProjects.map((project) => (
+              <option key={project.id} value={project.id}>
+                {project.name}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-foreground mb-2">
+            Versión
+          </label>
+          <input
+            type="text"
+            value={againstVersion}
+            onChange={(e) => setAgainstVersion(e.target.value)}
+            className="w-full px-3 py-2 bg-background border border-border rounded-md text-foreground placeholder-muted-foreground focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent"
+            placeholder="Ej: 3, v1.2 o latest (vacío: esquema actual)"
+            disabled={loading}
+          />
+        </div>
+        <Button
+          type="submit"
+          className="bg-primary hover:bg-primary/90"
+          disabled={loading || (!against && !againstVersion.trim())}
+        >
+          {loading ? "Comparando..." : "Comparar"}
+        </Button>
+      </form>
+
+      {error && (
+        <div className="bg-red-900/50 border border-red-800 rounded-lg p-4 mb-6">
+          <p className="text-sm text-red-200">{error}</p>
+        </div>
+      )}
+
+      {diff && (
+        <div className="space-y-6">
+          <div className="bg-card border border-border rounded-lg p-6">
+            <div className="flex items-center justify-between mb-2">
+              <h3 className="text-lg font-semibold text-foreground">
+                {describeSide(diff.base)} → {describeSide(diff.target)}
+              </h3>
+              {diff.breaking ? (
+                <span className="px-3 py-1 text-sm rounded bg-red-600 text-white">
+                  {diff.summary.breaking_changes} cambios incompatibles
+                </span>
+              ) : (
+                <span className="px-3 py-1 text-sm rounded bg-green-600 text-white">
+                  Compatible
+                </span>
+              )}
+            </div>
+            <p className="text-sm text-muted-foreground">
+              Entidades: {formatCounts(diff.summary.entities)} · Campos:{" "}
+              {formatCounts(diff.summary.fields)} · Relaciones:{" "}
+              {formatCounts(diff.summary.relationships)}
+            </p>
+          </div>
+
+          {diff.entities.length === 0 && diff.relationships.length === 0 ? (
+            <p className="text-center text-muted-foreground py-8">
+              Los esquemas son iguales
+            </p>
+          ) : (
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              <div className="bg-card border border-border rounded-lg p-6">
+                <h4 className="font-semibold text-foreground mb-4">
+                  Entidades y campos
+                </h4>
+                <ul className="space-y-4">
+                  {diff.entities.map((entity) => (
+                    <li key={entity.name}>
+                      <div className="flex items-center justify-between">
+                        <span className="font-medium text-foreground">
+                          {entity.name}
+                        </span>
+                        <ChangeBadge
+                          change={entity.change}
+                          breaking={entity.breaking}
+                        />
+                      </div>
+                      <PropertyChanges changes={entity.changes} />
+                      <ul className="mt-2 ml-4 space-y-2">
+                        {entity.fields.map((field) => (
+                          <li key={field.name}>
+                            <div className="flex items-center justify-between text-sm">
+                              <span className="text-foreground">
+                                {field.name}
+                              </span>
+                              <ChangeBadge
+                                change={field.change}
+                                breaking={field.breaking}
+                              />
+                            </div>
+                            <PropertyChanges changes={field.changes} />
+                          </li>
+                        ))}
+                      </ul>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+
+              <div className="bg-card border border-border rounded-lg p-6">
+                <h4 className="font-semibold text-foreground mb-4">
+                  Relaciones
+                </h4>
+                {diff.relationships.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">Sin cambios</p>
+                ) : (
+                  <ul className="space-y-3">
+                    {diff.relationships.map((relationship) => (
+                      <li key={`${relationship.entity}.${relationship.name}`}>
+                        <div className="flex items-center justify-between text-sm">
+                          <span className="text-foreground">
+                            {relationship.entity}.{relationship.name}
+                          </span>
+                          <ChangeBadge
+                            change={relationship.change}
+                            breaking={relationship.breaking}
+                          />
+                        </div>
+                        <PropertyChanges changes={relationship.changes} />
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SchemaDiffViewer;
@@ -9,13 +9,16 @@ class HttpClient {
 
   private async request<T>(
     endpoint: string,
-    options: RequestInit = {}
+    options: RequestInit = {},
+    responseType: "json" | "text" = "json"
   ): Promise<T> {
     const url = `${this.baseURL}${endpoint}`;
 
+    // Con FormData el navegador fija el Content-Type (y el boundary)
+    const isForm = options.body instanceof FormData;
     const config: RequestInit = {
       headers: {
-        "Content-Type": "application/json",
+        ...(isForm ? {} : { "Content-Type": "application/json" }),
         ...options.headers,
       },
       ...options,
@@ -36,6 +39,10 @@ class HttpClient {
         return undefined as T;
       }
 
+      if (responseType === "text") {
+        return (await response.text()) as T;
+      }
+
       return await response.json();
     } catch (error) {
       if (error instanceof Error) {
@@ -49,6 +56,11 @@ class HttpClient {
     return this.request<T>(endpoint, { method: "GET" });
   }
 
+  // Respuestas en texto plano (scripts SQL, esquemas, diagramas)
+  async getText(endpoint: string): Promise<string> {
+    return this.request<string>(endpoint, { method: "GET" }, "text");
+  }
+
   async post<T>(endpoint: string, data?: unknown): Promise<T> {
     return this.request<T>(endpoint, {
       method: "POST",
@@ -56,6 +68,11 @@ class HttpClient {
     });
   }
 
+  // Envío de archivos (multipart/form-data)
+  async postForm<T>(endpoint: string, data: FormData): Promise<T> {
+    return this.request<T>(endpoint, { method: "POST", body: data });
+  }
+
   async put<T>(endpoint: string, data?: unknown): Promise<T> {
     return this.request<T>(endpoint, {
       method: "PUT",
@@ -63,8 +80,11 @@ class HttpClient {
     });
   }
 
-  async delete<T>(endpoint: string): Promise<T> {
-    return this.request<T>(endpoint, { method: "DELETE" });
+  async delete<T>(endpoint: string, data?: unknown): Promise<T> {
+    return this.request<T>(endpoint, {
+      method: "DELETE",
+      body: data ? JSON.stringify(data) : undefined,
+    });
   }
 }
 
@@ -11,6 +11,18 @@ export const API_ENDPOINTS = {
   PROJECTS: "/api/projects",
   PROJECT_BY_ID: (id: string) => `/api/projects/${id}`,
   PROJECT_ENTITIES: (id: string) => `/api/projects/${id}/entities`,
+  PROJECT_OPENAPI: (id: string) => `/api/projects/${id}/openapi.json`,
+  PROJECT_DOCS: (id: string) => `/api/projects/${id}/docs`,
+  PROJECT_GRAPHQL: (id: string) => `/api/projects/${id}/graphql`,
+  PROJECT_EXPORT_SQL: (id: string, dialect: string) =>
+    `/api/projects/${id}/export/sql?dialect=${dialect}`,
+  PROJECT_IMPORT_SQL: (id: string) => `/api/projects/${id}/import/sql`,
+  PROJECT_EXPORT_PRISMA: (id: string, provider: string) =>
+    `/api/projects/${id}/export/prisma?provider=${provider}`,
+  PROJECT_IMPORT_PRISMA: (id: string) => `/api/projects/${id}/import/prisma`,
+  PROJECT_IMPORT_SQLITE: "/api/projects/import/sqlite",
+  PROJECT_CODEGEN_TYPESCRIPT: (id: string) =>
+    `/api/projects/${id}/codegen/typescript`,
 
   // Entities
   ENTITIES: "/api/entities",
@@ -20,6 +32,25 @@ export const API_ENDPOINTS = {
   // Fields
   FIELDS: "/api/fields",
   FIELD_BY_ID: (id: string) => `/api/fields/${id}`,
+
+  // Records
+  ENTITY_RECORDS: (projectId: string, entityName: string) =>
+    `/api/projects/${projectId}/data/${encodeURIComponent(entityName)}`,
+  RECORD_BY_ID: (projectId: string, entityName: string, id: string) =>
+    `/api/projects/${projectId}/data/${encodeURIComponent(entityName)}/${id}`,
+  RECORD_VALIDATE: (projectId: string, entityName: string) =>
+    `/api/projects/${projectId}/data/${encodeURIComponent(
+      entityName
+    )}/validate`,
+  RECORD_RELATION: (
+    projectId: string,
+    entityName: string,
+    id: string,
+    relationshipName: string
+  ) =>
+    `/api/projects/${projectId}/data/${encodeURIComponent(
+      entityName
+    )}/${id}/relations/${encodeURIComponent(relationshipName)}`,
 } as const;
 
 // Query Keys
@@ -31,4 +62,6 @@ export const QUERY_KEYS = {
   PROJECT_ENTITIES: (id: string) => ["projects", id, "entities"] as const,
   ENTITY: (id: string) => ["entities", id] as const,
   ENTITY_FIELDS: (id: string) => ["entities", id, "fields"] as const,
+  ENTITY_RECORDS: (projectId: string, entityName: string) =>
+    ["projects", projectId, "data", entityName] as const,
 } as const;
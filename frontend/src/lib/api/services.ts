@@ -5,13 +5,40 @@ import {
   CreateEntityRequest,
   CreateFieldRequest,
   CreateProjectRequest,
+  DataRecord,
   Entity,
   Field,
+  GraphQLRequest,
+  GraphQLResponse,
   HealthResponse,
+  ImportSchemaOptions,
+  ImportSqliteOptions,
+  LinkRecordsResponse,
+  OpenApiDocument,
+  PrismaProvider,
   Project,
+  RecordValidationResult,
+  RecordValues,
+  SchemaImportResponse,
+  SqlDialect,
+  SqliteImportResponse,
+  UnlinkRecordsResponse,
   UpdateFieldRequest,
+  ValidateRecordOptions,
 } from "./types";
 
+// Ruta de una importación de esquema con dry_run y skip_existing
+const getSchemaImportUrl = (
+  endpoint: string,
+  options: ImportSchemaOptions
+): string => {
+  const params = new URLSearchParams();
+  if (options.dryRun) params.set("dry_run", "true");
+  if (options.skipExisting) params.set("skip_existing", "true");
+  const query = params.toString();
+  return query ? `${endpoint}?${query}` : endpoint;
+};
+
 // Health & Info Services
 export const healthService = {
   check: (): Promise<HealthResponse> =>
@@ -34,6 +61,83 @@ export const projectService = {
 
   getEntities: (projectId: string): Promise<Entity[]> =>
     httpClient.get<Entity[]>(API_ENDPOINTS.PROJECT_ENTITIES(projectId)),
+
+  // Especificación OpenAPI 3.1 de la API de registros del proyecto
+  getOpenApi: (projectId: string): Promise<OpenApiDocument> =>
+    httpClient.get<OpenApiDocument>(API_ENDPOINTS.PROJECT_OPENAPI(projectId)),
+
+  // Consulta GraphQL sobre los registros del proyecto
+  graphql: <T = Record<string, unknown>>(
+    projectId: string,
+    request: GraphQLRequest
+  ): Promise<GraphQLResponse<T>> =>
+    httpClient.post<GraphQLResponse<T>>(
+      API_ENDPOINTS.PROJECT_GRAPHQL(projectId),
+      request
+    ),
+
+  // Script SQL (DDL) con las tablas del proyecto
+  exportSql: (projectId: string, dialect: SqlDialect): Promise<string> =>
+    httpClient.getText(API_ENDPOINTS.PROJECT_EXPORT_SQL(projectId, dialect)),
+
+  // Crea entidades, campos y relaciones a partir de un script SQL (DDL)
+  importSql: (
+    projectId: string,
+    sql: string,
+    options: ImportSchemaOptions = {}
+  ): Promise<SchemaImportResponse> =>
+    httpClient.post<SchemaImportResponse>(
+      getSchemaImportUrl(API_ENDPOINTS.PROJECT_IMPORT_SQL(projectId), options),
+      { sql }
+    ),
+
+  // schema.prisma con los modelos y relaciones del proyecto
+  exportPrisma: (
+    projectId: string,
+    provider: PrismaProvider = "postgresql"
+  ): Promise<string> =>
+    httpClient.getText(
+      API_ENDPOINTS.PROJECT_EXPORT_PRISMA(projectId, provider)
+    ),
+
+  // Crea entidades, campos y relaciones a partir de un schema.prisma
+  importPrisma: (
+    projectId: string,
+    schema: string,
+    options: ImportSchemaOptions = {}
+  ): Promise<SchemaImportResponse> =>
+    httpClient.post<SchemaImportResponse>(
+      getSchemaImportUrl(
+        API_ENDPOINTS.PROJECT_IMPORT_PRISMA(projectId),
+        options
+      ),
+      { schema }
+    ),
+
+  // Crea un proyecto nuevo a partir de las tablas de una base de datos SQLite
+  importSqlite: (
+    file: File,
+    options: ImportSqliteOptions = {}
+  ): Promise<SqliteImportResponse> => {
+    const form = new FormData();
+    form.append("file", file);
+    if (options.name) form.append("name", options.name);
+    if (options.description) form.append("description", options.description);
+
+    const params = new URLSearchParams();
+    if (options.dryRun) params.set("dry_run", "true");
+    if (options.copyData) params.set("copy_data", "true");
+    const query = params.toString();
+
+    return httpClient.postForm<SqliteImportResponse>(
+      `${API_ENDPOINTS.PROJECT_IMPORT_SQLITE}${query ? `?${query}` : ""}`,
+      form
+    );
+  },
+
+  // Módulo TypeScript con interfaces y esquemas Zod de cada entidad
+  getTypescript: (projectId: string): Promise<string> =>
+    httpClient.getText(API_ENDPOINTS.PROJECT_CODEGEN_TYPESCRIPT(projectId)),
 };
 
 // Entity Services
@@ -60,10 +164,100 @@ export const fieldService = {
     httpClient.delete<void>(API_ENDPOINTS.FIELD_BY_ID(id)),
 };
 
+// Record Services
+export const recordService = {
+  getAll: (projectId: string, entityName: string): Promise<DataRecord[]> =>
+    httpClient.get<DataRecord[]>(
+      API_ENDPOINTS.ENTITY_RECORDS(projectId, entityName)
+    ),
+
+  getById: (
+    projectId: string,
+    entityName: string,
+    id: string
+  ): Promise<DataRecord> =>
+    httpClient.get<DataRecord>(
+      API_ENDPOINTS.RECORD_BY_ID(projectId, entityName, id)
+    ),
+
+  create: (
+    projectId: string,
+    entityName: string,
+    data: RecordValues
+  ): Promise<DataRecord> =>
+    httpClient.post<DataRecord>(
+      API_ENDPOINTS.ENTITY_RECORDS(projectId, entityName),
+      data
+    ),
+
+  update: (
+    projectId: string,
+    entityName: string,
+    id: string,
+    data: RecordValues
+  ): Promise<DataRecord> =>
+    httpClient.put<DataRecord>(
+      API_ENDPOINTS.RECORD_BY_ID(projectId, entityName, id),
+      data
+    ),
+
+  delete: (projectId: string, entityName: string, id: string): Promise<void> =>
+    httpClient.delete<void>(
+      API_ENDPOINTS.RECORD_BY_ID(projectId, entityName, id)
+    ),
+
+  // Valida los datos de un formulario con las reglas de la entidad sin guardarlos
+  validate: (
+    projectId: string,
+    entityName: string,
+    data: RecordValues,
+    options: ValidateRecordOptions = {}
+  ): Promise<RecordValidationResult> => {
+    const params = new URLSearchParams();
+    if (options.recordId) params.set("recordId", options.recordId);
+    if (options.partial) params.set("partial", "true");
+    const query = params.toString();
+
+    return httpClient.post<RecordValidationResult>(
+      `${API_ENDPOINTS.RECORD_VALIDATE(projectId, entityName)}${
+        query ? `?${query}` : ""
+      }`,
+      data
+    );
+  },
+
+  // Vincula registros en una relación muchos a muchos
+  link: (
+    projectId: string,
+    entityName: string,
+    id: string,
+    relationshipName: string,
+    relatedIds: string[]
+  ): Promise<LinkRecordsResponse> =>
+    httpClient.post<LinkRecordsResponse>(
+      API_ENDPOINTS.RECORD_RELATION(projectId, entityName, id, relationshipName),
+      { ids: relatedIds }
+    ),
+
+  // Desvincula registros de una relación muchos a muchos
+  unlink: (
+    projectId: string,
+    entityName: string,
+    id: string,
+    relationshipName: string,
+    relatedIds: string[]
+  ): Promise<UnlinkRecordsResponse> =>
+    httpClient.delete<UnlinkRecordsResponse>(
+      API_ENDPOINTS.RECORD_RELATION(projectId, entityName, id, relationshipName),
+      { ids: relatedIds }
+    ),
+};
+
 // Combined API Service
 export const apiService = {
   health: healthService,
   projects: projectService,
   entities: entityService,
   fields: fieldService,
+  records: recordService,
 };
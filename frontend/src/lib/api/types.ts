@@ -79,6 +79,161 @@ export interface UpdateFieldRequest {
   required?: boolean;
 }
 
+// Record Types
+export interface DataRecord {
+  id: string;
+  created_at: string;
+  updated_at: string;
+  [field: string]: unknown;
+}
+
+export type RecordValues = Record<string, unknown>;
+
+export type FieldValidationCode =
+  | "unknown_field"
+  | "required"
+  | "invalid_type"
+  | "max_length"
+  | "unique"
+  | "file_not_found"
+  | "file_extension"
+  | "file_size"
+  | "relationship_required"
+  | "relationship_not_found";
+
+export interface FieldValidationError {
+  field: string;
+  code: FieldValidationCode;
+  message: string;
+  relationship?: string;
+}
+
+export interface RecordValidationResult {
+  valid: boolean;
+  values: RecordValues;
+  errors: FieldValidationError[];
+}
+
+export interface ValidateRecordOptions {
+  recordId?: string;
+  partial?: boolean;
+}
+
+export interface LinkRecordsResponse {
+  success: boolean;
+  relation: string;
+  linked: number;
+}
+
+export interface UnlinkRecordsResponse {
+  success: boolean;
+  relation: string;
+  unlinked: number;
+}
+
+export interface OpenApiDocument {
+  openapi: string;
+  info: { title: string; version: string; description?: string };
+  servers: Array<{ url: string; description?: string }>;
+  paths: Record<string, Record<string, unknown>>;
+  components: Record<string, Record<string, unknown>>;
+}
+
+export interface GraphQLRequest {
+  query: string;
+  variables?: Record<string, unknown>;
+  operationName?: string;
+}
+
+export interface GraphQLResponse<T = Record<string, unknown>> {
+  data?: T | null;
+  errors?: Array<{
+    message: string;
+    path?: Array<string | number>;
+    extensions?: Record<string, unknown>;
+  }>;
+}
+
+export type SqlDialect = "postgres" | "mysql" | "sqlite";
+
+export type PrismaProvider = "postgresql" | "mysql" | "sqlite";
+
+// Importación de esquemas (SQL DDL, schema.prisma)
+export interface ImportSchemaOptions {
+  dryRun?: boolean;
+  skipExisting?: boolean;
+}
+
+export interface PlannedImportField {
+  name: string;
+  type: string;
+  is_required: boolean;
+  is_unique: boolean;
+  is_primary_key: boolean;
+  default_value?: string;
+  max_length?: number;
+  description?: string;
+  accepts_multiple?: boolean;
+  foreign_entity?: string;
+  foreign_field?: string;
+}
+
+export interface PlannedImportEntity {
+  name: string;
+  description?: string;
+  action: "create" | "skip";
+  table: string;
+  fields: PlannedImportField[];
+}
+
+export interface PlannedImportRelationship {
+  source_entity: string;
+  target_entity: string;
+  relationship_type: string;
+  source_field?: string;
+  target_field?: string;
+  name?: string;
+  description?: string;
+  is_required: boolean;
+  cascade_delete: boolean;
+  junction?: {
+    table: string;
+    source_column: string;
+    target_column: string;
+    source_key?: string;
+    target_key?: string;
+  };
+}
+
+export interface SchemaImportResponse {
+  dry_run?: boolean;
+  success?: boolean;
+  entities: PlannedImportEntity[];
+  relationships: PlannedImportRelationship[];
+  conflicts: Array<{ entity: string; table: string; message: string }>;
+  warnings: string[];
+  created?: {
+    entities: Array<Record<string, unknown>>;
+    fields: Array<Record<string, unknown>>;
+    relationships: Array<Record<string, unknown>>;
+  };
+}
+
+// Importación de una base de datos SQLite como proyecto nuevo
+export interface ImportSqliteOptions {
+  name?: string;
+  description?: string;
+  dryRun?: boolean;
+  copyData?: boolean;
+}
+
+export interface SqliteImportResponse extends SchemaImportResponse {
+  // Sin id en dry_run
+  project: { id?: string; name: string; description?: string };
+  // Filas copiadas por entidad y por tabla intermedia (copyData)
+  rows?: Record<string, number>;
+}
+
 // Error Types
 export interface ApiError {
   error: string;
@@ -0,0 +1,3016 @@
+// Cliente de OroyaAPI Backend 1.0.0
+// Generado desde la especificación OpenAPI del backend: no editar, se
+// regenera con `npm run sdk:generate` (backend) o desde GET /api/codegen/sdk
+
+const DEFAULT_BASE_URL = "http://localhost:8080";
+
+// Esquemas
+
+export interface Project {
+  /** Identificador único del proyecto */
+  id: string;
+  /** Nombre del proyecto */
+  name: string;
+  /** Descripción opcional del proyecto */
+  description?: string | null;
+  /** Fecha de creación */
+  created_at: string;
+  /** Última modificación */
+  updated_at: string;
+}
+
+export interface Entity {
+  /** Identificador único de la entidad */
+  id: string;
+  /** ID del proyecto al que pertenece */
+  project_id: string;
+  /** Nombre de la entidad */
+  name: string;
+  /** Descripción de la entidad */
+  description?: string | null;
+  /** Fecha de creación */
+  created_at: string;
+  /** Última modificación */
+  updated_at: string;
+}
+
+export interface Field {
+  /** Identificador único del campo */
+  id: string;
+  /** ID de la entidad a la que pertenece */
+  entity_id: string;
+  /** Nombre del campo */
+  name: string;
+  /** Tipo de dato del campo */
+  type:
+    | "string"
+    | "number"
+    | "boolean"
+    | "date"
+    | "text"
+    | "integer"
+    | "decimal"
+    | "file"
+    | "image"
+    | "document";
+  /** Si el campo es obligatorio */
+  is_required: boolean;
+  /** Si el campo debe ser único */
+  is_unique: boolean;
+  /** Si el campo es clave primaria */
+  is_primary_key: boolean;
+  /** Si el campo es clave foránea */
+  is_foreign_key: boolean;
+  /** ID de la entidad referenciada (si es FK) */
+  foreign_entity_id?: string | null;
+  /** ID del campo referenciado (si es FK) */
+  foreign_field_id?: string | null;
+  /** Valor por defecto del campo */
+  default_value?: string | null;
+  /** Longitud máxima para campos de texto */
+  max_length?: number | null;
+  /** Descripción del campo */
+  description?: string | null;
+  /** Si acepta múltiples valores (para archivos) */
+  accepts_multiple?: boolean;
+  /** Tamaño máximo de archivo en bytes */
+  max_file_size?: number | null;
+  /** Extensiones permitidas separadas por comas */
+  allowed_extensions?: string | null;
+  /** Fecha de creación */
+  created_at: string;
+  /** Última modificación */
+  updated_at: string;
+}
+
+export interface EntityRelationship {
+  /** Identificador único de la relación */
+  id: string;
+  /** ID de la entidad origen */
+  source_entity_id: string;
+  /** ID de la entidad destino */
+  target_entity_id: string;
+  /** Tipo de relación */
+  relationship_type:
+    | "one_to_one"
+    | "one_to_many"
+    | "many_to_one"
+    | "many_to_many";
+  /** ID del campo en la entidad origen */
+  source_field_id?: string | null;
+  /** ID del campo en la entidad destino */
+  target_field_id?: string | null;
+  /** Nombre de la relación */
+  name?: string | null;
+  /** Descripción de la relación */
+  description?: string | null;
+  /** Si la relación es requerida */
+  is_required: boolean;
+  /** Si se debe eliminar en cascada */
+  cascade_delete: boolean;
+  /** Fecha de creación */
+  created_at: string;
+  /** Última modificación */
+  updated_at: string;
+}
+
+/** Registro de una entidad. Además de las columnas de sistema, incluye una propiedad por cada campo de la entidad */
+export interface DataRecord {
+  /** Identificador único del registro */
+  id: string;
+  /** Fecha de creación */
+  created_at: string;
+  /** Última modificación */
+  updated_at: string;
+  [key: string]: unknown;
+}
+
+export interface FieldValidationError {
+  /** Nombre del campo */
+  field?: string;
+  /** Tipo de error */
+  code?:
+    | "unknown_field"
+    | "required"
+    | "invalid_type"
+    | "max_length"
+    | "unique"
+    | "file_not_found"
+    | "file_extension"
+    | "file_size"
+    | "relationship_required"
+    | "relationship_not_found";
+  /** Descripción del error */
+  message?: string;
+  /** Relación incumplida (errores relationship_*) */
+  relationship?: string;
+}
+
+export interface RecordValidationResult {
+  /** Si los datos son válidos */
+  valid?: boolean;
+  /** Valores convertidos al tipo de cada campo */
+  values?: Record<string, unknown>;
+  errors?: FieldValidationError[];
+}
+
+export interface RecordValidationError {
+  error?: string;
+  message?: string;
+  errors?: FieldValidationError[];
+}
+
+export interface SchemaConflict {
+  error?: string;
+  /** Descripción del conflicto */
+  message?: string;
+  /** Problemas detectados al sincronizar la tabla física */
+  issues?: SchemaSyncIssue[];
+}
+
+/** Problema que impide sincronizar la tabla física de una entidad */
+export interface SchemaSyncIssue {
+  /** Campo afectado */
+  field?: string;
+  /** data_loss se puede confirmar con ?confirm=true; conflict requiere corregir los datos */
+  kind?: "data_loss" | "conflict";
+  message?: string;
+  affected_rows?: number;
+}
+
+/** Efecto de una eliminación sobre los registros de una relación */
+export interface RelationshipImpact {
+  /** null en las claves foráneas de campos sin relación */
+  relationship_id?: string | null;
+  /** Nombre con el que se navega la relación (el del campo en las claves foráneas sin relación) */
+  relationship?: string;
+  relationship_type?:
+    | "one_to_one"
+    | "one_to_many"
+    | "many_to_one"
+    | "many_to_many";
+  /** Entidad cuyos registros se ven afectados */
+  entity?: string;
+  entity_id?: string;
+  /** Columna que guarda la referencia (null en muchos a muchos) */
+  column?: string | null;
+  /** cascade elimina los dependientes, restrict impide la eliminación, set_null deja la referencia en null y unlink elimina los vínculos muchos a muchos */
+  action?: "cascade" | "restrict" | "set_null" | "unlink" | "none";
+  affected_rows?: number;
+}
+
+export interface RelationshipConflict {
+  error?: string;
+  /** Descripción de la relación incumplida */
+  message?: string;
+  relationship?: RelationshipImpact;
+  relationships?: RelationshipImpact[];
+}
+
+/** Modelo completo de un proyecto guardado en una versión del esquema */
+export interface SchemaSnapshot {
+  /** Entidades ordenadas por nombre */
+  entities?: {
+    id?: string;
+    name?: string;
+    description?: string;
+    fields?: {
+      id?: string;
+      name?: string;
+      type?: string;
+      is_required?: boolean;
+      is_unique?: boolean;
+      is_primary_key?: boolean;
+      is_foreign_key?: boolean;
+      foreign_entity_id?: string;
+      foreign_field_id?: string;
+      default_value?: string;
+      max_length?: number;
+      description?: string;
+      accepts_multiple?: boolean;
+      max_file_size?: number;
+      allowed_extensions?: string;
+    }[];
+  }[];
+  /** Relaciones ordenadas por nombre */
+  relationships?: {
+    id?: string;
+    source_entity_id?: string;
+    target_entity_id?: string;
+    relationship_type?:
+      | "one_to_one"
+      | "one_to_many"
+      | "many_to_one"
+      | "many_to_many";
+    source_field_id?: string;
+    target_field_id?: string;
+    name?: string;
+    description?: string;
+    is_required?: boolean;
+    cascade_delete?: boolean;
+  }[];
+}
+
+export interface SchemaVersionSummary {
+  /** Identificador único de la versión */
+  id: string;
+  /** ID del proyecto */
+  project_id: string;
+  /** Número de versión, consecutivo dentro del proyecto */
+  version: number;
+  /** Etiqueta de la versión */
+  tag?: string | null;
+  /** Cambio que originó la versión */
+  message?: string | null;
+  /** SHA-256 del modelo guardado */
+  checksum: string;
+  entity_count: number;
+  field_count: number;
+  relationship_count: number;
+  /** Fecha de creación */
+  created_at: string;
+}
+
+export type SchemaVersion = SchemaVersionSummary & {
+  snapshot: SchemaSnapshot;
+};
+
+/** Diferencias desde el esquema base (against) hacia el del proyecto */
+export interface SchemaDiff {
+  base: SchemaDiffSide;
+  target: SchemaDiffSide;
+  /** Hay cambios que rompen a quien usa el esquema base */
+  breaking: boolean;
+  summary: {
+    entities: SchemaDiffCounts;
+    fields: SchemaDiffCounts;
+    relationships: SchemaDiffCounts;
+    breaking_changes: number;
+    non_breaking_changes: number;
+  };
+  entities: SchemaEntityDiff[];
+  relationships: SchemaRelationshipDiff[];
+}
+
+export type SchemaDiffChange = "added" | "removed" | "changed";
+
+export interface SchemaFieldDiff {
+  name: string;
+  change: SchemaDiffChange;
+  breaking: boolean;
+  changes: PropertyChange[];
+}
+
+export type SchemaEntityDiff = SchemaFieldDiff & {
+  fields: SchemaFieldDiff[];
+};
+
+export type SchemaRelationshipDiff = SchemaFieldDiff & {
+  /** Entidad origen */
+  entity: string;
+};
+
+export interface SchemaDiffSide {
+  project_id: string;
+  name: string;
+  /** Versión comparada (sin versión, el esquema actual) */
+  version?: number;
+}
+
+export interface SchemaDiffCounts {
+  added: number;
+  removed: number;
+  changed: number;
+}
+
+export interface PropertyChange {
+  property: string;
+  /** Valor en el esquema base */
+  from: unknown;
+  /** Valor en el esquema del proyecto */
+  to: unknown;
+  breaking: boolean;
+}
+
+/** Cardinalidad de un extremo en notación pata de gallo: cuántos registros de ese extremo corresponden a uno del otro */
+export type DiagramCardinality = "one" | "zero_or_one" | "zero_or_many";
+
+export interface DiagramViewport {
+  x: number;
+  y: number;
+  /** Mayor que 0 */
+  zoom: number;
+}
+
+export interface DiagramNodeLayout {
+  /** ID de la entidad */
+  id: string;
+  position: {
+    x: number;
+    y: number;
+  };
+  /** Ancho del nodo, mayor que 0 */
+  width?: number;
+  /** Alto del nodo, mayor que 0 */
+  height?: number;
+  /** Si el nodo se muestra plegado */
+  collapsed?: boolean;
+}
+
+export interface DiagramLayout {
+  /** ID del proyecto */
+  project_id: string;
+  nodes: DiagramNodeLayout[];
+  viewport: DiagramViewport;
+  /** Fecha de creación */
+  created_at?: string;
+  /** Fecha del último guardado */
+  updated_at?: string;
+}
+
+export interface SchemaMigration {
+  /** Versión del esquema a la que lleva la migración */
+  version: number;
+  /** Nombre de archivo sin extensión */
+  name: string;
+  /** Cambio que originó la versión */
+  message?: string;
+  /** Etiqueta de la versión */
+  tag?: string;
+  /** Incluye cambios incompatibles con la versión anterior */
+  breaking: boolean;
+  /** Fecha de creación de la versión */
+  created_at: string;
+  /** Script SQL que aplica la migración */
+  up: string;
+  /** Script SQL que deshace la migración */
+  down: string;
+}
+
+export interface ErrorSchema {
+  /** Mensaje de error */
+  error?: string;
+  /** Descripción detallada del error */
+  message?: string;
+}
+
+export interface FileRecord {
+  id: string;
+  original_name: string;
+  filename: string;
+  mimetype: string;
+  size: number;
+  is_image: boolean;
+  width?: number | null;
+  height?: number | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface FileUploadResult {
+  success?: boolean;
+  message?: string;
+  files?: FileRecord[];
+}
+
+export interface FileError {
+  success?: boolean;
+  message?: string;
+}
+
+// Parámetros, cuerpos y respuestas de las operaciones
+
+/** Parámetros de consulta de getAnalyticsStats */
+export interface GetAnalyticsStatsQuery {
+  /** Rango de tiempo para las estadísticas */
+  timeRange?: "1 hour" | "24 hours" | "7 days" | "30 days";
+}
+
+/** Respuesta 200 de getAnalyticsStats */
+export interface GetAnalyticsStatsResponse {
+  totalRequests?: {
+    total?: number;
+  };
+  requestsByMethod?: {
+    method?: string;
+    count?: number;
+  }[];
+  requestsByStatus?: {
+    status_code?: number;
+    count?: number;
+  }[];
+  avgResponseTime?: {
+    avg_time?: number;
+  };
+  topEndpoints?: {
+    url?: string;
+    count?: number;
+  }[];
+  errorRate?: {
+    errors?: number;
+    total?: number;
+    error_rate?: number;
+  };
+  hourlyTraffic?: {
+    hour?: string;
+    requests?: number;
+  }[];
+  topIPs?: {
+    ip_address?: string;
+    requests?: number;
+  }[];
+  browserStats?: {
+    browser?: string;
+    count?: number;
+  }[];
+}
+
+/** Parámetros de consulta de getProjectAnalyticsStats */
+export interface GetProjectAnalyticsStatsQuery {
+  /** Rango de tiempo para las estadísticas */
+  timeRange?: "1 hour" | "24 hours" | "7 days" | "30 days";
+}
+
+/** Respuesta 200 de getProjectAnalyticsStats */
+export interface GetProjectAnalyticsStatsResponse {
+  projectId?: string;
+  totalRequests?: Record<string, unknown>;
+  requestsByMethod?: unknown[];
+  requestsByStatus?: unknown[];
+  avgResponseTime?: Record<string, unknown>;
+  topEndpoints?: unknown[];
+  errorRate?: Record<string, unknown>;
+  hourlyTraffic?: unknown[];
+  topIPs?: unknown[];
+  browserStats?: unknown[];
+  metadata?: Record<string, unknown>;
+}
+
+/** Respuesta 200 de getAnalyticsHealth */
+export interface GetAnalyticsHealthResponse {
+  status?: string;
+  uptime?: number;
+  memoryUsage?: Record<string, unknown>;
+  logStats?: Record<string, unknown>;
+  timestamp?: string;
+}
+
+/** Parámetros de consulta de listAnalyticsLogs */
+export interface ListAnalyticsLogsQuery {
+  /** Número de página */
+  page?: number;
+  /** Número de logs por página */
+  limit?: number;
+  /** Filtrar por proyecto específico */
+  projectId?: string;
+  /** Filtrar por método HTTP */
+  method?: "GET" | "POST" | "PUT" | "DELETE" | "PATCH";
+  /** Filtrar por rango de código de estado */
+  status?: "2xx" | "3xx" | "4xx" | "5xx";
+  /** Buscar en URL o error message */
+  search?: string;
+  /** Fecha de inicio (ISO string) */
+  startDate?: string;
+  /** Fecha de fin (ISO string) */
+  endDate?: string;
+}
+
+/** Respuesta 200 de listAnalyticsLogs */
+export interface ListAnalyticsLogsResponse {
+  logs?: Record<string, unknown>[];
+  pagination?: {
+    page?: number;
+    limit?: number;
+    total?: number;
+    totalPages?: number;
+  };
+  filters?: Record<string, unknown>;
+}
+
+/** Parámetros de consulta de getProjectDiagram */
+export interface GetProjectDiagramQuery {
+  /** Añade como sugerencias (origin suggested) las referencias que indica el nombre de los campos no marcados como clave foránea, como user_id hacia User */
+  suggested?: boolean;
+  /** Recalcula las posiciones en lugar de usar la disposición guardada. layered coloca las entidades por capas de arriba abajo (las referenciadas encima) reduciendo los cruces de aristas; force usa un modelo de fuerzas en el que las entidades relacionadas se atraen; orthogonal coloca las capas de izquierda a derecha, alineadas a una rejilla de 25px y con aristas de tipo step. Conserva el tamaño y el estado plegado guardados y devuelve el viewport inicial; para conservar el resultado se guarda con PUT /diagram/layout */
+  layout?: "layered" | "force" | "orthogonal";
+}
+
+/** Respuesta 200 de getProjectDiagram */
+export interface GetProjectDiagramResponse {
+  message?: string;
+  data?: {
+    nodes?: {
+      id?: string;
+      type?: string;
+      position?: {
+        x?: number;
+        y?: number;
+      };
+      /** Ancho guardado del nodo */
+      width?: number;
+      /** Alto guardado del nodo */
+      height?: number;
+      data?: {
+        label?: string;
+        entity?: Record<string, unknown>;
+        /** Handle de la clave primaria (ID del campo o "id") */
+        primaryKey?: string;
+        fields?: unknown[];
+        /** Si el nodo se muestra plegado */
+        collapsed?: boolean;
+      };
+    }[];
+    edges?: {
+      id?: string;
+      source?: string;
+      target?: string;
+      /** ID del campo del nodo origen o "id" */
+      sourceHandle?: string;
+      /** ID del campo del nodo destino o "id" */
+      targetHandle?: string;
+      type?: string;
+      label?: string;
+      markerStart?: string;
+      markerEnd?: string;
+      animated?: boolean;
+      data?: {
+        relationship?:
+          | "one_to_one"
+          | "one_to_many"
+          | "many_to_one"
+          | "many_to_many";
+        sourceCardinality?: DiagramCardinality;
+        targetCardinality?: DiagramCardinality;
+        origin?: "relationship" | "foreign_key" | "suggested";
+        relationshipId?: string;
+        /** Campo que guarda la clave foránea */
+        fieldId?: string;
+      };
+    }[];
+    viewport?: DiagramViewport;
+  };
+}
+
+/** Parámetros de consulta de exportProjectDiagram */
+export interface ExportProjectDiagramQuery {
+  /** Formato de la imagen */
+  format?: "svg" | "png" | "pdf";
+  /** Recalcula las posiciones como en GET /diagram en lugar de usar la disposición guardada */
+  layout?: "layered" | "force" | "orthogonal";
+  /** Incluye, con línea discontinua, las referencias que sugiere el nombre de los campos */
+  suggested?: boolean;
+}
+
+/** Cuerpo de saveProjectDiagramLayout */
+export interface SaveProjectDiagramLayoutBody {
+  nodes: DiagramNodeLayout[];
+  viewport?: DiagramViewport;
+}
+
+/** Respuesta 200 de saveProjectDiagramLayout */
+export interface SaveProjectDiagramLayoutResponse {
+  message?: string;
+  data?: DiagramLayout;
+}
+
+/** Parámetros de consulta de getProjectDiagramRelationships */
+export interface GetProjectDiagramRelationshipsQuery {
+  /** Añade como sugerencias (origin suggested) las referencias que indica el nombre de los campos no marcados como clave foránea, como user_id hacia User */
+  suggested?: boolean;
+}
+
+/** Respuesta 200 de getProjectDiagramRelationships */
+export interface GetProjectDiagramRelationshipsResponse {
+  message?: string;
+  data?: {
+    source_entity?: string;
+    target_entity?: string;
+    field_name?: string;
+    relationship_type?: string;
+    origin?: "relationship" | "foreign_key" | "suggested";
+  }[];
+}
+
+/** Respuesta 200 de getProjectDiagramStats */
+export interface GetProjectDiagramStatsResponse {
+  message?: string;
+  data?: {
+    total_entities?: number;
+    total_fields?: number;
+    total_relationships?: number;
+    entity_types?: {
+      type?: string;
+      count?: number;
+    }[];
+  };
+}
+
+/** Parámetros de consulta de diffProjectSchema */
+export interface DiffProjectSchemaQuery {
+  /** ID del proyecto con el que comparar. Por defecto, el mismo proyecto (requiere against_version) */
+  against?: string;
+  /** Versión del proyecto a comparar (número, etiqueta o latest). Por defecto, el esquema actual */
+  version?: string;
+  /** Versión del proyecto against con la que comparar (número, etiqueta o latest). Por defecto, su esquema actual */
+  against_version?: string;
+}
+
+/** Parámetros de consulta de listProjectEntities */
+export interface ListProjectEntitiesQuery {
+  /** Filtros por columna: filter[columna][operador]=valor (eq, ne, gt, gte, lt, lte, contains, starts_with, ends_with, in, nin, is_null). filter[or][0][...] y filter[and][0][...] agrupan condiciones */
+  filter?: Record<string, unknown>;
+  /** Columnas de ordenación separadas por comas; el prefijo - indica orden descendente */
+  sort?: string;
+  /** Cantidad de elementos por página */
+  "page[size]"?: number;
+  /** Número de página (paginación por offset) */
+  "page[number]"?: number;
+  /** Cursor devuelto en X-Next-Cursor (paginación keyset, no combinable con page[number]) */
+  "page[cursor]"?: string;
+}
+
+/** Cuerpo de createProjectEntity */
+export interface CreateProjectEntityBody {
+  /** Nombre de la entidad */
+  name: string;
+  /** Descripción de la entidad */
+  description?: string;
+}
+
+/** Cuerpo de createEntity */
+export interface CreateEntityBody {
+  /** ID del proyecto al que pertenece */
+  projectId: string;
+  /** Nombre de la entidad */
+  name: string;
+  /** Descripción de la entidad */
+  description?: string;
+}
+
+/** Cuerpo de updateEntity */
+export interface UpdateEntityBody {
+  /** Nombre de la entidad */
+  name: string;
+  /** Descripción de la entidad */
+  description: string;
+}
+
+/** Cuerpo de patchEntity */
+export interface PatchEntityBody {
+  /** Nombre de la entidad */
+  name?: string;
+  /** Descripción de la entidad */
+  description?: string;
+}
+
+/** Parámetros de consulta de deleteEntity */
+export interface DeleteEntityQuery {
+  /** Confirma la eliminación aunque la entidad tenga registros o relaciones */
+  confirm?: boolean;
+}
+
+/** Respuesta 200 de deleteEntity */
+export interface DeleteEntityResponse {
+  success?: boolean;
+  message?: string;
+  relationships?: RelationshipImpact[];
+}
+
+/** Respuesta 200 de listEntityForeignKeys */
+export type ListEntityForeignKeysResponse = (Field & {
+  /** Nombre de la entidad referenciada */
+  foreign_entity_name?: string;
+  /** Nombre del campo referenciado */
+  foreign_field_name?: string;
+})[];
+
+/** Parámetros de consulta de exportProjectSql */
+export interface ExportProjectSqlQuery {
+  /** Dialecto SQL del script */
+  dialect?: "postgres" | "mysql" | "sqlite";
+}
+
+/** Parámetros de consulta de exportProjectPrisma */
+export interface ExportProjectPrismaQuery {
+  /** Proveedor del bloque datasource (SQLite no admite tipos nativos) */
+  provider?: "postgresql" | "mysql" | "sqlite";
+}
+
+/** Parámetros de consulta de listEntityFields */
+export interface ListEntityFieldsQuery {
+  /** Filtros por columna: filter[columna][operador]=valor (eq, ne, gt, gte, lt, lte, contains, starts_with, ends_with, in, nin, is_null). filter[or][0][...] y filter[and][0][...] agrupan condiciones */
+  filter?: Record<string, unknown>;
+  /** Columnas de ordenación separadas por comas; el prefijo - indica orden descendente */
+  sort?: string;
+  /** Cantidad de elementos por página */
+  "page[size]"?: number;
+  /** Número de página (paginación por offset) */
+  "page[number]"?: number;
+  /** Cursor devuelto en X-Next-Cursor (paginación keyset, no combinable con page[number]) */
+  "page[cursor]"?: string;
+}
+
+/** Parámetros de consulta de createEntityField */
+export interface CreateEntityFieldQuery {
+  /** Confirma el cambio aunque elimine datos existentes de la tabla de la entidad */
+  confirm?: boolean;
+}
+
+/** Cuerpo de createEntityField */
+export interface CreateEntityFieldBody {
+  /** Nombre del campo */
+  name: string;
+  /** Tipo de dato del campo */
+  type:
+    | "string"
+    | "number"
+    | "boolean"
+    | "date"
+    | "text"
+    | "integer"
+    | "decimal"
+    | "file"
+    | "image"
+    | "document";
+  /** Si el campo es obligatorio */
+  required?: boolean;
+}
+
+/** Parámetros de consulta de listProjectEntityFields */
+export interface ListProjectEntityFieldsQuery {
+  /** Filtros por columna: filter[columna][operador]=valor (eq, ne, gt, gte, lt, lte, contains, starts_with, ends_with, in, nin, is_null). filter[or][0][...] y filter[and][0][...] agrupan condiciones */
+  filter?: Record<string, unknown>;
+  /** Columnas de ordenación separadas por comas; el prefijo - indica orden descendente */
+  sort?: string;
+  /** Cantidad de elementos por página */
+  "page[size]"?: number;
+  /** Número de página (paginación por offset) */
+  "page[number]"?: number;
+  /** Cursor devuelto en X-Next-Cursor (paginación keyset, no combinable con page[number]) */
+  "page[cursor]"?: string;
+}
+
+/** Parámetros de consulta de createProjectEntityField */
+export interface CreateProjectEntityFieldQuery {
+  /** Confirma el cambio aunque elimine datos existentes de la tabla de la entidad */
+  confirm?: boolean;
+}
+
+/** Cuerpo de createProjectEntityField */
+export interface CreateProjectEntityFieldBody {
+  /** Nombre del campo */
+  name: string;
+  /** Tipo de dato del campo */
+  type:
+    | "string"
+    | "number"
+    | "boolean"
+    | "date"
+    | "text"
+    | "integer"
+    | "decimal"
+    | "file"
+    | "image"
+    | "document";
+  /** Si el campo es obligatorio */
+  required?: boolean;
+}
+
+/** Parámetros de consulta de updateField */
+export interface UpdateFieldQuery {
+  /** Confirma el cambio aunque elimine datos existentes de la tabla de la entidad */
+  confirm?: boolean;
+}
+
+/** Cuerpo de updateField */
+export interface UpdateFieldBody {
+  /** Nombre del campo */
+  name?: string;
+  /** Tipo de dato del campo */
+  type?: "string" | "number" | "boolean" | "date";
+  /** Si el campo es obligatorio */
+  required?: boolean;
+}
+
+/** Parámetros de consulta de deleteField */
+export interface DeleteFieldQuery {
+  /** Confirma el cambio aunque elimine datos existentes de la tabla de la entidad */
+  confirm?: boolean;
+}
+
+/** Parámetros de consulta de updateProjectEntityField */
+export interface UpdateProjectEntityFieldQuery {
+  /** Confirma el cambio aunque elimine datos existentes de la tabla de la entidad */
+  confirm?: boolean;
+}
+
+/** Cuerpo de updateProjectEntityField */
+export interface UpdateProjectEntityFieldBody {
+  /** Nombre del campo */
+  name?: string;
+  /** Tipo de dato del campo */
+  type?:
+    | "string"
+    | "number"
+    | "boolean"
+    | "date"
+    | "text"
+    | "integer"
+    | "decimal"
+    | "file"
+    | "image"
+    | "document";
+  /** Si el campo es obligatorio */
+  required?: boolean;
+}
+
+/** Parámetros de consulta de deleteProjectEntityField */
+export interface DeleteProjectEntityFieldQuery {
+  /** Confirma el cambio aunque elimine datos existentes de la tabla de la entidad */
+  confirm?: boolean;
+}
+
+/** Cuerpo de uploadBase64File */
+export interface UploadBase64FileBody {
+  /** Contenido del archivo (admite prefijo data URL) */
+  base64Data: string;
+  originalName: string;
+  mimetype: string;
+  /** Campo al que se asocia el archivo (junto con recordId) */
+  fieldId?: string;
+  /** Registro al que se asocia el archivo */
+  recordId?: string;
+}
+
+/** Respuesta 200 de uploadBase64File */
+export interface UploadBase64FileResponse {
+  success?: boolean;
+  message?: string;
+  file?: FileRecord;
+}
+
+/** Parámetros de consulta de listFiles */
+export interface ListFilesQuery {
+  /** Filtros por columna: filter[columna][operador]=valor (eq, ne, gt, gte, lt, lte, contains, starts_with, ends_with, in, nin, is_null). filter[or][0][...] y filter[and][0][...] agrupan condiciones */
+  filter?: Record<string, unknown>;
+  /** Columnas de ordenación separadas por comas; el prefijo - indica orden descendente */
+  sort?: string;
+  /** Cantidad de elementos por página */
+  "page[size]"?: number;
+  /** Número de página (paginación por offset) */
+  "page[number]"?: number;
+  /** Cursor devuelto en X-Next-Cursor (paginación keyset, no combinable con page[number]) */
+  "page[cursor]"?: string;
+}
+
+/** Respuesta 200 de listFiles */
+export interface ListFilesResponse {
+  success?: boolean;
+  files?: FileRecord[];
+  total?: number;
+  next_cursor?: string | null;
+}
+
+/** Respuesta 200 de getStorageStats */
+export interface GetStorageStatsResponse {
+  success?: boolean;
+  stats?: {
+    totalFiles?: number;
+    totalSize?: number;
+    imagesCount?: number;
+    documentsCount?: number;
+    orphanFilesCount?: number;
+  };
+}
+
+/** Parámetros de consulta de downloadFile */
+export interface DownloadFileQuery {
+  /** Versión del archivo (las imágenes tienen versión comprimida y miniatura) */
+  variant?: "original" | "compressed" | "thumbnail";
+}
+
+/** Cuerpo de updateFile */
+export interface UpdateFileBody {
+  /** Nuevo nombre original del archivo */
+  original_name?: string;
+}
+
+/** Respuesta 200 de updateFile */
+export interface UpdateFileResponse {
+  success?: boolean;
+  message?: string;
+  file?: FileRecord;
+}
+
+/** Parámetros de consulta de getFileBase64 */
+export interface GetFileBase64Query {
+  /** Versión del archivo (las imágenes tienen versión comprimida y miniatura) */
+  variant?: "original" | "compressed" | "thumbnail";
+}
+
+/** Respuesta 200 de getFileBase64 */
+export interface GetFileBase64Response {
+  success?: boolean;
+  base64?: string;
+  mimetype?: string;
+  originalName?: string;
+  size?: number;
+}
+
+/** Respuesta 200 de listRecordFieldFiles */
+export interface ListRecordFieldFilesResponse {
+  success?: boolean;
+  files?: FileRecord[];
+}
+
+/** Cuerpo de executeProjectGraphql */
+export interface ExecuteProjectGraphqlBody {
+  query: string;
+  variables?: Record<string, unknown>;
+  operationName?: string;
+}
+
+/** Respuesta 200 de executeProjectGraphql */
+export interface ExecuteProjectGraphqlResponse {
+  data?: Record<string, unknown>;
+  errors?: Record<string, unknown>[];
+}
+
+/** Parámetros de consulta de importProjectSql */
+export interface ImportProjectSqlQuery {
+  /** Devolver el plan de importación sin aplicar cambios */
+  dry_run?: boolean;
+  /** Conservar las entidades que ya existen con el nombre de una tabla en lugar de rechazar la importación */
+  skip_existing?: boolean;
+}
+
+/** Cuerpo de importProjectSql */
+export interface ImportProjectSqlBody {
+  sql: string;
+}
+
+/** Parámetros de consulta de importProjectPrisma */
+export interface ImportProjectPrismaQuery {
+  /** Devolver el plan de importación sin aplicar cambios */
+  dry_run?: boolean;
+  /** Conservar las entidades que ya existen con el nombre de un modelo en lugar de rechazar la importación */
+  skip_existing?: boolean;
+}
+
+/** Cuerpo de importProjectPrisma */
+export interface ImportProjectPrismaBody {
+  schema: string;
+}
+
+/** Parámetros de consulta de importProjectDbml */
+export interface ImportProjectDbmlQuery {
+  /** Devolver el plan de importación sin aplicar cambios */
+  dry_run?: boolean;
+  /** Conservar las entidades que ya existen con el nombre de una tabla en lugar de rechazar la importación */
+  skip_existing?: boolean;
+}
+
+/** Cuerpo de importProjectDbml */
+export interface ImportProjectDbmlBody {
+  schema: string;
+}
+
+/** Parámetros de consulta de importProjectJsonSchema */
+export interface ImportProjectJsonSchemaQuery {
+  /** Devolver el plan de importación sin aplicar cambios */
+  dry_run?: boolean;
+  /** Conservar las entidades que ya existen con el nombre de una definición en lugar de rechazar la importación */
+  skip_existing?: boolean;
+}
+
+/** Cuerpo de importProjectJsonSchema */
+export interface ImportProjectJsonSchemaBody {
+  /** Documento JSON Schema o lista de documentos */
+  schema: Record<string, unknown> | Record<string, unknown>[];
+}
+
+/** Parámetros de consulta de importSqliteProject */
+export interface ImportSqliteProjectQuery {
+  /** Devolver el plan de importación sin crear el proyecto */
+  dry_run?: boolean;
+  /** Copiar las filas de las tablas a los registros de las entidades */
+  copy_data?: boolean;
+}
+
+/** Parámetros de consulta de listProjectMigrations */
+export interface ListProjectMigrationsQuery {
+  /** Dialecto SQL de los scripts */
+  dialect?: "postgres" | "mysql" | "sqlite";
+}
+
+/** Parámetros de consulta de getProjectMigration */
+export interface GetProjectMigrationQuery {
+  /** Dialecto SQL del script */
+  dialect?: "postgres" | "mysql" | "sqlite";
+  /** Aplicar (up) o deshacer (down) la migración */
+  direction?: "up" | "down";
+}
+
+/** Parámetros de consulta de listProjects */
+export interface ListProjectsQuery {
+  /** Filtros por columna: filter[columna][operador]=valor (eq, ne, gt, gte, lt, lte, contains, starts_with, ends_with, in, nin, is_null). filter[or][0][...] y filter[and][0][...] agrupan condiciones */
+  filter?: Record<string, unknown>;
+  /** Columnas de ordenación separadas por comas; el prefijo - indica orden descendente */
+  sort?: string;
+  /** Cantidad de elementos por página */
+  "page[size]"?: number;
+  /** Número de página (paginación por offset) */
+  "page[number]"?: number;
+  /** Cursor devuelto en X-Next-Cursor (paginación keyset, no combinable con page[number]) */
+  "page[cursor]"?: string;
+}
+
+/** Cuerpo de createProject */
+export interface CreateProjectBody {
+  /** Nombre del proyecto */
+  name: string;
+  /** Descripción opcional del proyecto */
+  description?: string;
+}
+
+/** Cuerpo de updateProject */
+export interface UpdateProjectBody {
+  /** Nombre del proyecto */
+  name: string;
+  /** Descripción del proyecto */
+  description?: string;
+}
+
+/** Cuerpo de patchProject */
+export interface PatchProjectBody {
+  /** Nombre del proyecto */
+  name?: string;
+  /** Descripción del proyecto */
+  description?: string;
+}
+
+/** Parámetros de consulta de deleteProject */
+export interface DeleteProjectQuery {
+  /** Confirma la eliminación aunque el proyecto tenga registros */
+  confirm?: boolean;
+}
+
+/** Respuesta 200 de deleteProject */
+export interface DeleteProjectResponse {
+  success?: boolean;
+  message?: string;
+}
+
+/** Parámetros de consulta de listRecords */
+export interface ListRecordsQuery {
+  /** Filtros por columna: filter[columna][operador]=valor (eq, ne, gt, gte, lt, lte, contains, starts_with, ends_with, in, nin, is_null). filter[or][0][...] y filter[and][0][...] agrupan condiciones */
+  filter?: Record<string, unknown>;
+  /** Columnas de ordenación separadas por comas; el prefijo - indica orden descendente */
+  sort?: string;
+  /** Cantidad de elementos por página */
+  "page[size]"?: number;
+  /** Número de página (paginación por offset) */
+  "page[number]"?: number;
+  /** Cursor devuelto en X-Next-Cursor (paginación keyset, no combinable con page[number]) */
+  "page[cursor]"?: string;
+  /** Relaciones a incrustar separadas por comas, con notación de punto para anidarlas (ej. author,comments.author) */
+  include?: string;
+}
+
+/** Parámetros de consulta de validateRecord */
+export interface ValidateRecordQuery {
+  /** Registro que se está editando (se excluye de la verificación de unicidad) */
+  recordId?: string;
+  /** Valida solo los campos enviados, como en PATCH */
+  partial?: boolean;
+}
+
+/** Parámetros de consulta de getRecord */
+export interface GetRecordQuery {
+  /** Relaciones a incrustar separadas por comas, con notación de punto para anidarlas (ej. author,comments.author) */
+  include?: string;
+}
+
+/** Cuerpo de linkRecords */
+export interface LinkRecordsBody {
+  /** IDs de los registros relacionados */
+  ids?: string[];
+  /** ID de un único registro relacionado */
+  id?: string;
+}
+
+/** Respuesta 200 de linkRecords */
+export interface LinkRecordsResponse {
+  success?: boolean;
+  relation?: string;
+  /** Cantidad de vínculos nuevos */
+  linked?: number;
+}
+
+/** Cuerpo de unlinkRecords */
+export interface UnlinkRecordsBody {
+  /** IDs de los registros relacionados */
+  ids?: string[];
+  /** ID de un único registro relacionado */
+  id?: string;
+}
+
+/** Respuesta 200 de unlinkRecords */
+export interface UnlinkRecordsResponse {
+  success?: boolean;
+  relation?: string;
+  /** Cantidad de vínculos eliminados */
+  unlinked?: number;
+}
+
+/** Parámetros de consulta de listRelationships */
+export interface ListRelationshipsQuery {
+  /** Filtros por columna: filter[columna][operador]=valor (eq, ne, gt, gte, lt, lte, contains, starts_with, ends_with, in, nin, is_null). filter[or][0][...] y filter[and][0][...] agrupan condiciones */
+  filter?: Record<string, unknown>;
+  /** Columnas de ordenación separadas por comas; el prefijo - indica orden descendente */
+  sort?: string;
+  /** Cantidad de elementos por página */
+  "page[size]"?: number;
+  /** Número de página (paginación por offset) */
+  "page[number]"?: number;
+  /** Cursor devuelto en X-Next-Cursor (paginación keyset, no combinable con page[number]) */
+  "page[cursor]"?: string;
+}
+
+/** Cuerpo de createRelationship */
+export interface CreateRelationshipBody {
+  /** ID de la entidad origen */
+  source_entity_id: string;
+  /** ID de la entidad destino */
+  target_entity_id: string;
+  /** Tipo de relación */
+  relationship_type:
+    | "one_to_one"
+    | "one_to_many"
+    | "many_to_one"
+    | "many_to_many";
+  /** ID del campo en la entidad origen (opcional) */
+  source_field_id?: string;
+  /** ID del campo en la entidad destino (opcional) */
+  target_field_id?: string;
+  /** Nombre de la relación */
+  name?: string;
+  /** Descripción de la relación */
+  description?: string;
+  /** Si la relación es requerida */
+  is_required?: boolean;
+  /** Si se debe eliminar en cascada */
+  cascade_delete?: boolean;
+}
+
+/** Parámetros de consulta de updateRelationship */
+export interface UpdateRelationshipQuery {
+  /** Confirma la eliminación de la tabla intermedia al dejar de ser muchos a muchos */
+  confirm?: boolean;
+}
+
+/** Cuerpo de updateRelationship */
+export interface UpdateRelationshipBody {
+  relationship_type?:
+    | "one_to_one"
+    | "one_to_many"
+    | "many_to_one"
+    | "many_to_many";
+  source_field_id?: string;
+  target_field_id?: string;
+  name?: string;
+  description?: string;
+  is_required?: boolean;
+  cascade_delete?: boolean;
+}
+
+/** Parámetros de consulta de deleteRelationship */
+export interface DeleteRelationshipQuery {
+  /** Confirma la eliminación de la tabla intermedia de una relación muchos a muchos */
+  confirm?: boolean;
+}
+
+/** Parámetros de consulta de listEntityRelationships */
+export interface ListEntityRelationshipsQuery {
+  /** Filtros por columna: filter[columna][operador]=valor (eq, ne, gt, gte, lt, lte, contains, starts_with, ends_with, in, nin, is_null). filter[or][0][...] y filter[and][0][...] agrupan condiciones */
+  filter?: Record<string, unknown>;
+  /** Columnas de ordenación separadas por comas; el prefijo - indica orden descendente */
+  sort?: string;
+  /** Cantidad de elementos por página */
+  "page[size]"?: number;
+  /** Número de página (paginación por offset) */
+  "page[number]"?: number;
+  /** Cursor devuelto en X-Next-Cursor (paginación keyset, no combinable con page[number]) */
+  "page[cursor]"?: string;
+}
+
+/** Parámetros de consulta de listSchemaVersions */
+export interface ListSchemaVersionsQuery {
+  /** Filtros por columna: filter[columna][operador]=valor (eq, ne, gt, gte, lt, lte, contains, starts_with, ends_with, in, nin, is_null). filter[or][0][...] y filter[and][0][...] agrupan condiciones */
+  filter?: Record<string, unknown>;
+  /** Columnas de ordenación separadas por comas; el prefijo - indica orden descendente */
+  sort?: string;
+  /** Cantidad de elementos por página */
+  "page[size]"?: number;
+  /** Número de página (paginación por offset) */
+  "page[number]"?: number;
+  /** Cursor devuelto en X-Next-Cursor (paginación keyset, no combinable con page[number]) */
+  "page[cursor]"?: string;
+}
+
+/** Cuerpo de createSchemaVersion */
+export interface CreateSchemaVersionBody {
+  /** Descripción de la versión */
+  message?: string;
+  /** Etiqueta de la versión */
+  tag?: string;
+}
+
+/** Cuerpo de tagSchemaVersion */
+export interface TagSchemaVersionBody {
+  tag: string;
+}
+
+/** Cabeceras de respuesta documentadas */
+export interface ResponseHeaders {
+  /** Total de elementos que cumplen el filtro */
+  "X-Total-Count"?: number;
+  /** Tamaño de página aplicado */
+  "X-Page-Size"?: number;
+  /** Número de página devuelto (paginación por offset) */
+  "X-Page-Number"?: number;
+  /** Cursor para obtener la página siguiente, si existe */
+  "X-Next-Cursor"?: string;
+}
+
+const RESPONSE_HEADERS = {
+  "X-Total-Count": "number",
+  "X-Page-Size": "number",
+  "X-Page-Number": "number",
+  "X-Next-Cursor": "string",
+};
+
+/** Opciones del cliente */
+export interface ClientOptions {
+  /** URL del servidor (por defecto la de la especificación) */
+  baseUrl?: string;
+  /** Cabeceras que se envían en todas las peticiones */
+  headers?: Record<string, string>;
+  /** Implementación de fetch (por defecto la global) */
+  fetch?: typeof fetch;
+}
+
+/** Opciones de una petición concreta */
+export interface RequestOptions {
+  headers?: Record<string, string>;
+  signal?: AbortSignal;
+}
+
+/** Datos de una respuesta junto con sus cabeceras documentadas */
+export interface ApiResponse<T> {
+  data: T;
+  headers: ResponseHeaders;
+}
+
+/** Respuesta de la API con un estado distinto de 2xx */
+export class ApiError extends Error {
+  readonly status: number;
+  /** Cuerpo de la respuesta (JSON si se pudo interpretar, si no texto) */
+  readonly body: unknown;
+
+  constructor(status: number, body: unknown) {
+    super(
+      body && typeof body === "object" && "message" in body
+        ? String(body.message)
+        : `HTTP error! status: ${status}`
+    );
+    this.name = "ApiError";
+    this.status = status;
+    this.body = body;
+  }
+}
+
+interface Operation {
+  method: string;
+  path: string;
+  query?: object;
+  body?: unknown;
+  contentType?: string;
+  responseType: "json" | "text" | "blob";
+  withHeaders?: boolean;
+  options?: RequestOptions;
+}
+
+/**
+ * Añade un parámetro de consulta: los objetos se envían con corchetes
+ * (filter[name][contains]=x) y las listas repitiendo la clave
+ */
+const appendQuery = (
+  params: URLSearchParams,
+  key: string,
+  value: unknown
+): void => {
+  if (value === undefined || value === null) {
+    return;
+  }
+  if (Array.isArray(value)) {
+    for (const item of value) {
+      appendQuery(params, key, item);
+    }
+  } else if (typeof value === "object") {
+    for (const [name, item] of Object.entries(value)) {
+      appendQuery(params, `${key}[${name}]`, item);
+    }
+  } else {
+    params.append(key, String(value));
+  }
+};
+
+const buildQuery = (query?: object): string => {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(query ?? {})) {
+    appendQuery(params, key, value);
+  }
+  const text = params.toString();
+  return text ? `?${text}` : "";
+};
+
+const readHeaders = (headers: Headers): ResponseHeaders => {
+  const result: Record<string, string | number> = {};
+  for (const [name, type] of Object.entries(RESPONSE_HEADERS)) {
+    const value = headers.get(name);
+    if (value !== null) {
+      result[name] = type === "number" ? Number(value) : value;
+    }
+  }
+  return result as ResponseHeaders;
+};
+
+const readBody = async (
+  response: Response,
+  responseType: Operation["responseType"]
+): Promise<unknown> => {
+  if (responseType === "blob") {
+    return response.blob();
+  }
+  const text = await response.text();
+  if (responseType === "text" || !text) {
+    return text || undefined;
+  }
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+};
+
+/**
+ * Crea un cliente con un método por operación de la API. Los errores
+ * HTTP se lanzan como ApiError
+ */
+export const createApiClient = (options: ClientOptions = {}) => {
+  const baseUrl = (options.baseUrl ?? DEFAULT_BASE_URL).replace(/\/+$/, "");
+  const fetchImpl =
+    options.fetch ??
+    ((input: RequestInfo | URL, init?: RequestInit) => fetch(input, init));
+
+  const request = async <T>(operation: Operation): Promise<T> => {
+    const isForm = operation.body instanceof FormData;
+    const isJson = /json/.test(operation.contentType ?? "");
+    const response = await fetchImpl(
+      `${baseUrl}${operation.path}${buildQuery(operation.query)}`,
+      {
+        method: operation.method,
+        headers: {
+          ...(operation.contentType && operation.body !== undefined
+            ? { "Content-Type": operation.contentType }
+            : {}),
+          ...options.headers,
+          ...operation.options?.headers,
+        },
+        body:
+          operation.body === undefined
+            ? undefined
+            : isForm || !isJson
+              ? (operation.body as BodyInit)
+              : JSON.stringify(operation.body),
+        signal: operation.options?.signal,
+      }
+    );
+
+    if (!response.ok) {
+      throw new ApiError(response.status, await readBody(response, "json"));
+    }
+
+    const data =
+      response.status === 204
+        ? undefined
+        : await readBody(response, operation.responseType);
+    return (
+      operation.withHeaders
+        ? { data, headers: readHeaders(response.headers) }
+        : data
+    ) as T;
+  };
+
+  return {
+    // Analytics
+
+    /**
+     * Obtiene estadísticas generales de uso de la API
+     *
+     * `GET /api/analytics/stats`
+     */
+    getAnalyticsStats: (
+      query?: GetAnalyticsStatsQuery,
+      options?: RequestOptions
+    ): Promise<GetAnalyticsStatsResponse> =>
+      request<GetAnalyticsStatsResponse>({
+        method: "GET",
+        path: "/api/analytics/stats",
+        query,
+        responseType: "json",
+        options,
+      }),
+
+    /**
+     * Obtiene estadísticas de uso para un proyecto específico
+     *
+     * `GET /api/analytics/projects/{projectId}/stats`
+     */
+    getProjectAnalyticsStats: (
+      projectId: string,
+      query?: GetProjectAnalyticsStatsQuery,
+      options?: RequestOptions
+    ): Promise<GetProjectAnalyticsStatsResponse> =>
+      request<GetProjectAnalyticsStatsResponse>({
+        method: "GET",
+        path: `/api/analytics/projects/${encodeURIComponent(projectId)}/stats`,
+        query,
+        responseType: "json",
+        options,
+      }),
+
+    /**
+     * Obtiene métricas de salud del sistema de logging
+     *
+     * `GET /api/analytics/health`
+     */
+    getAnalyticsHealth: (
+      options?: RequestOptions
+    ): Promise<GetAnalyticsHealthResponse> =>
+      request<GetAnalyticsHealthResponse>({
+        method: "GET",
+        path: "/api/analytics/health",
+        responseType: "json",
+        options,
+      }),
+
+    /**
+     * Obtiene lista de logs con paginación y filtros
+     *
+     * `GET /api/analytics/logs`
+     */
+    listAnalyticsLogs: (
+      query?: ListAnalyticsLogsQuery,
+      options?: RequestOptions
+    ): Promise<ListAnalyticsLogsResponse> =>
+      request<ListAnalyticsLogsResponse>({
+        method: "GET",
+        path: "/api/analytics/logs",
+        query,
+        responseType: "json",
+        options,
+      }),
+
+    // Projects
+
+    /**
+     * Generar tipos TypeScript y esquemas Zod de las entidades de un proyecto
+     *
+     * `GET /api/projects/{projectId}/codegen/typescript`
+     */
+    generateProjectTypescript: (
+      projectId: string,
+      options?: RequestOptions
+    ): Promise<string> =>
+      request<string>({
+        method: "GET",
+        path: `/api/projects/${encodeURIComponent(projectId)}/codegen/typescript`,
+        responseType: "text",
+        options,
+      }),
+
+    /**
+     * Comparar el esquema de un proyecto con otro proyecto o versión
+     *
+     * `GET /api/projects/{projectId}/diff`
+     */
+    diffProjectSchema: (
+      projectId: string,
+      query?: DiffProjectSchemaQuery,
+      options?: RequestOptions
+    ): Promise<SchemaDiff> =>
+      request<SchemaDiff>({
+        method: "GET",
+        path: `/api/projects/${encodeURIComponent(projectId)}/diff`,
+        query,
+        responseType: "json",
+        options,
+      }),
+
+    /**
+     * Exportar el modelo de un proyecto como script SQL (DDL)
+     *
+     * `GET /api/projects/{projectId}/export/sql`
+     */
+    exportProjectSql: (
+      projectId: string,
+      query?: ExportProjectSqlQuery,
+      options?: RequestOptions
+    ): Promise<string> =>
+      request<string>({
+        method: "GET",
+        path: `/api/projects/${encodeURIComponent(projectId)}/export/sql`,
+        query,
+        responseType: "text",
+        options,
+      }),
+
+    /**
+     * Exportar el modelo de un proyecto como schema.prisma
+     *
+     * `GET /api/projects/{projectId}/export/prisma`
+     */
+    exportProjectPrisma: (
+      projectId: string,
+      query?: ExportProjectPrismaQuery,
+      options?: RequestOptions
+    ): Promise<string> =>
+      request<string>({
+        method: "GET",
+        path: `/api/projects/${encodeURIComponent(projectId)}/export/prisma`,
+        query,
+        responseType: "text",
+        options,
+      }),
+
+    /**
+     * Exportar el modelo de un proyecto como diagrama Mermaid
+     *
+     * `GET /api/projects/{projectId}/export/mermaid`
+     */
+    exportProjectMermaid: (
+      projectId: string,
+      options?: RequestOptions
+    ): Promise<string> =>
+      request<string>({
+        method: "GET",
+        path: `/api/projects/${encodeURIComponent(projectId)}/export/mermaid`,
+        responseType: "text",
+        options,
+      }),
+
+    /**
+     * Exportar el modelo de un proyecto como diagrama PlantUML
+     *
+     * `GET /api/projects/{projectId}/export/plantuml`
+     */
+    exportProjectPlantUml: (
+      projectId: string,
+      options?: RequestOptions
+    ): Promise<string> =>
+      request<string>({
+        method: "GET",
+        path: `/api/projects/${encodeURIComponent(projectId)}/export/plantuml`,
+        responseType: "text",
+        options,
+      }),
+
+    /**
+     * Exportar el modelo de un proyecto como DBML
+     *
+     * `GET /api/projects/{projectId}/export/dbml`
+     */
+    exportProjectDbml: (
+      projectId: string,
+      options?: RequestOptions
+    ): Promise<string> =>
+      request<string>({
+        method: "GET",
+        path: `/api/projects/${encodeURIComponent(projectId)}/export/dbml`,
+        responseType: "text",
+        options,
+      }),
+
+    /**
+     * Exportar las entidades de un proyecto como JSON Schema
+     *
+     * `GET /api/projects/{projectId}/export/json-schema`
+     */
+    exportProjectJsonSchema: (
+      projectId: string,
+      options?: RequestOptions
+    ): Promise<Record<string, unknown>> =>
+      request<Record<string, unknown>>({
+        method: "GET",
+        path: `/api/projects/${encodeURIComponent(projectId)}/export/json-schema`,
+        responseType: "json",
+        options,
+      }),
+
+    /**
+     * Importar un esquema de base de datos desde un script SQL (DDL)
+     *
+     * `POST /api/projects/{projectId}/import/sql`
+     */
+    importProjectSql: (
+      projectId: string,
+      body: ImportProjectSqlBody,
+      query?: ImportProjectSqlQuery,
+      options?: RequestOptions
+    ): Promise<Record<string, unknown>> =>
+      request<Record<string, unknown>>({
+        method: "POST",
+        path: `/api/projects/${encodeURIComponent(projectId)}/import/sql`,
+        query,
+        body,
+        contentType: "application/json",
+        responseType: "json",
+        options,
+      }),
+
+    /**
+     * Importar un esquema de base de datos desde un schema.prisma
+     *
+     * `POST /api/projects/{projectId}/import/prisma`
+     */
+    importProjectPrisma: (
+      projectId: string,
+      body: ImportProjectPrismaBody,
+      query?: ImportProjectPrismaQuery,
+      options?: RequestOptions
+    ): Promise<Record<string, unknown>> =>
+      request<Record<string, unknown>>({
+        method: "POST",
+        path: `/api/projects/${encodeURIComponent(projectId)}/import/prisma`,
+        query,
+        body,
+        contentType: "application/json",
+        responseType: "json",
+        options,
+      }),
+
+    /**
+     * Importar un esquema de base de datos desde un documento DBML
+     *
+     * `POST /api/projects/{projectId}/import/dbml`
+     */
+    importProjectDbml: (
+      projectId: string,
+      body: ImportProjectDbmlBody,
+      query?: ImportProjectDbmlQuery,
+      options?: RequestOptions
+    ): Promise<Record<string, unknown>> =>
+      request<Record<string, unknown>>({
+        method: "POST",
+        path: `/api/projects/${encodeURIComponent(projectId)}/import/dbml`,
+        query,
+        body,
+        contentType: "application/json",
+        responseType: "json",
+        options,
+      }),
+
+    /**
+     * Importar entidades desde documentos JSON Schema
+     *
+     * `POST /api/projects/{projectId}/import/json-schema`
+     */
+    importProjectJsonSchema: (
+      projectId: string,
+      body: ImportProjectJsonSchemaBody,
+      query?: ImportProjectJsonSchemaQuery,
+      options?: RequestOptions
+    ): Promise<Record<string, unknown>> =>
+      request<Record<string, unknown>>({
+        method: "POST",
+        path: `/api/projects/${encodeURIComponent(projectId)}/import/json-schema`,
+        query,
+        body,
+        contentType: "application/json",
+        responseType: "json",
+        options,
+      }),
+
+    /**
+     * Crear un proyecto a partir de una base de datos SQLite
+     *
+     * `POST /api/projects/import/sqlite`
+     */
+    importSqliteProject: (
+      body: FormData,
+      query?: ImportSqliteProjectQuery,
+      options?: RequestOptions
+    ): Promise<Record<string, unknown>> =>
+      request<Record<string, unknown>>({
+        method: "POST",
+        path: "/api/projects/import/sqlite",
+        query,
+        body,
+        responseType: "json",
+        options,
+      }),
+
+    /**
+     * Listar las migraciones SQL de un proyecto
+     *
+     * `GET /api/projects/{projectId}/migrations`
+     */
+    listProjectMigrations: (
+      projectId: string,
+      query?: ListProjectMigrationsQuery,
+      options?: RequestOptions
+    ): Promise<SchemaMigration[]> =>
+      request<SchemaMigration[]>({
+        method: "GET",
+        path: `/api/projects/${encodeURIComponent(projectId)}/migrations`,
+        query,
+        responseType: "json",
+        options,
+      }),
+
+    /**
+     * Descargar el script SQL de una migración
+     *
+     * `GET /api/projects/{projectId}/migrations/{version}`
+     */
+    getProjectMigration: (
+      projectId: string,
+      version: number,
+      query?: GetProjectMigrationQuery,
+      options?: RequestOptions
+    ): Promise<string> =>
+      request<string>({
+        method: "GET",
+        path: `/api/projects/${encodeURIComponent(projectId)}/migrations/${encodeURIComponent(version)}`,
+        query,
+        responseType: "text",
+        options,
+      }),
+
+    /**
+     * Obtener la especificación OpenAPI 3.1 de la API de registros de un proyecto
+     *
+     * `GET /api/projects/{projectId}/openapi.json`
+     */
+    getProjectOpenApi: (
+      projectId: string,
+      options?: RequestOptions
+    ): Promise<Record<string, unknown>> =>
+      request<Record<string, unknown>>({
+        method: "GET",
+        path: `/api/projects/${encodeURIComponent(projectId)}/openapi.json`,
+        responseType: "json",
+        options,
+      }),
+
+    /**
+     * Obtener todos los proyectos
+     *
+     * `GET /api/projects`
+     */
+    listProjects: (
+      query?: ListProjectsQuery,
+      options?: RequestOptions
+    ): Promise<ApiResponse<Project[]>> =>
+      request<ApiResponse<Project[]>>({
+        method: "GET",
+        path: "/api/projects",
+        query,
+        responseType: "json",
+        withHeaders: true,
+        options,
+      }),
+
+    /**
+     * Crear un nuevo proyecto
+     *
+     * `POST /api/projects`
+     */
+    createProject: (
+      body: CreateProjectBody,
+      options?: RequestOptions
+    ): Promise<Project> =>
+      request<Project>({
+        method: "POST",
+        path: "/api/projects",
+        body,
+        contentType: "application/json",
+        responseType: "json",
+        options,
+      }),
+
+    /**
+     * Obtener un proyecto específico
+     *
+     * `GET /api/projects/{projectId}`
+     */
+    getProject: (
+      projectId: string,
+      options?: RequestOptions
+    ): Promise<Project> =>
+      request<Project>({
+        method: "GET",
+        path: `/api/projects/${encodeURIComponent(projectId)}`,
+        responseType: "json",
+        options,
+      }),
+
+    /**
+     * Actualizar un proyecto completo
+     *
+     * `PUT /api/projects/{projectId}`
+     */
+    updateProject: (
+      projectId: string,
+      body: UpdateProjectBody,
+      options?: RequestOptions
+    ): Promise<Project> =>
+      request<Project>({
+        method: "PUT",
+        path: `/api/projects/${encodeURIComponent(projectId)}`,
+        body,
+        contentType: "application/json",
+        responseType: "json",
+        options,
+      }),
+
+    /**
+     * Actualizar parcialmente un proyecto
+     *
+     * `PATCH /api/projects/{projectId}`
+     */
+    patchProject: (
+      projectId: string,
+      body: PatchProjectBody,
+      options?: RequestOptions
+    ): Promise<Project> =>
+      request<Project>({
+        method: "PATCH",
+        path: `/api/projects/${encodeURIComponent(projectId)}`,
+        body,
+        contentType: "application/json",
+        responseType: "json",
+        options,
+      }),
+
+    /**
+     * Eliminar un proyecto
+     *
+     * `DELETE /api/projects/{projectId}`
+     */
+    deleteProject: (
+      projectId: string,
+      query?: DeleteProjectQuery,
+      options?: RequestOptions
+    ): Promise<DeleteProjectResponse> =>
+      request<DeleteProjectResponse>({
+        method: "DELETE",
+        path: `/api/projects/${encodeURIComponent(projectId)}`,
+        query,
+        responseType: "json",
+        options,
+      }),
+
+    // Codegen
+
+    /**
+     * Generar el cliente TypeScript de esta API
+     *
+     * `GET /api/codegen/sdk`
+     */
+    generateApiClient: (
+      options?: RequestOptions
+    ): Promise<string> =>
+      request<string>({
+        method: "GET",
+        path: "/api/codegen/sdk",
+        responseType: "text",
+        options,
+      }),
+
+    // Diagrams
+
+    /**
+     * Obtiene el diagrama UML de un proyecto
+     *
+     * `GET /api/projects/{projectId}/diagram`
+     */
+    getProjectDiagram: (
+      projectId: string,
+      query?: GetProjectDiagramQuery,
+      options?: RequestOptions
+    ): Promise<GetProjectDiagramResponse> =>
+      request<GetProjectDiagramResponse>({
+        method: "GET",
+        path: `/api/projects/${encodeURIComponent(projectId)}/diagram`,
+        query,
+        responseType: "json",
+        options,
+      }),
+
+    /**
+     * Exporta el diagrama de un proyecto como imagen
+     *
+     * `GET /api/projects/{projectId}/diagram/export`
+     */
+    exportProjectDiagram: (
+      projectId: string,
+      query?: ExportProjectDiagramQuery,
+      options?: RequestOptions
+    ): Promise<string> =>
+      request<string>({
+        method: "GET",
+        path: `/api/projects/${encodeURIComponent(projectId)}/diagram/export`,
+        query,
+        responseType: "text",
+        options,
+      }),
+
+    /**
+     * Guarda la disposición del diagrama de un proyecto
+     *
+     * `PUT /api/projects/{projectId}/diagram/layout`
+     */
+    saveProjectDiagramLayout: (
+      projectId: string,
+      body: SaveProjectDiagramLayoutBody,
+      options?: RequestOptions
+    ): Promise<SaveProjectDiagramLayoutResponse> =>
+      request<SaveProjectDiagramLayoutResponse>({
+        method: "PUT",
+        path: `/api/projects/${encodeURIComponent(projectId)}/diagram/layout`,
+        body,
+        contentType: "application/json",
+        responseType: "json",
+        options,
+      }),
+
+    /**
+     * Obtiene las relaciones entre entidades de un proyecto
+     *
+     * `GET /api/projects/{projectId}/diagram/relationships`
+     */
+    getProjectDiagramRelationships: (
+      projectId: string,
+      query?: GetProjectDiagramRelationshipsQuery,
+      options?: RequestOptions
+    ): Promise<GetProjectDiagramRelationshipsResponse> =>
+      request<GetProjectDiagramRelationshipsResponse>({
+        method: "GET",
+        path: `/api/projects/${encodeURIComponent(projectId)}/diagram/relationships`,
+        query,
+        responseType: "json",
+        options,
+      }),
+
+    /**
+     * Obtiene estadísticas del diagrama de un proyecto
+     *
+     * `GET /api/projects/{projectId}/diagram/stats`
+     */
+    getProjectDiagramStats: (
+      projectId: string,
+      options?: RequestOptions
+    ): Promise<GetProjectDiagramStatsResponse> =>
+      request<GetProjectDiagramStatsResponse>({
+        method: "GET",
+        path: `/api/projects/${encodeURIComponent(projectId)}/diagram/stats`,
+        responseType: "json",
+        options,
+      }),
+
+    // Entities
+
+    /**
+     * Obtener todas las entidades de un proyecto
+     *
+     * `GET /api/projects/{projectId}/entities`
+     */
+    listProjectEntities: (
+      projectId: string,
+      query?: ListProjectEntitiesQuery,
+      options?: RequestOptions
+    ): Promise<ApiResponse<Entity[]>> =>
+      request<ApiResponse<Entity[]>>({
+        method: "GET",
+        path: `/api/projects/${encodeURIComponent(projectId)}/entities`,
+        query,
+        responseType: "json",
+        withHeaders: true,
+        options,
+      }),
+
+    /**
+     * Crear una nueva entidad en un proyecto específico
+     *
+     * `POST /api/projects/{projectId}/entities`
+     */
+    createProjectEntity: (
+      projectId: string,
+      body: CreateProjectEntityBody,
+      options?: RequestOptions
+    ): Promise<Entity> =>
+      request<Entity>({
+        method: "POST",
+        path: `/api/projects/${encodeURIComponent(projectId)}/entities`,
+        body,
+        contentType: "application/json",
+        responseType: "json",
+        options,
+      }),
+
+    /**
+     * Crear una nueva entidad
+     *
+     * `POST /api/entities`
+     */
+    createEntity: (
+      body: CreateEntityBody,
+      options?: RequestOptions
+    ): Promise<Entity> =>
+      request<Entity>({
+        method: "POST",
+        path: "/api/entities",
+        body,
+        contentType: "application/json",
+        responseType: "json",
+        options,
+      }),
+
+    /**
+     * Obtener una entidad específica
+     *
+     * `GET /api/entities/{entityId}`
+     */
+    getEntity: (
+      entityId: string,
+      options?: RequestOptions
+    ): Promise<Entity> =>
+      request<Entity>({
+        method: "GET",
+        path: `/api/entities/${encodeURIComponent(entityId)}`,
+        responseType: "json",
+        options,
+      }),
+
+    /**
+     * Actualizar una entidad completa
+     *
+     * `PUT /api/entities/{entityId}`
+     */
+    updateEntity: (
+      entityId: string,
+      body: UpdateEntityBody,
+      options?: RequestOptions
+    ): Promise<Entity> =>
+      request<Entity>({
+        method: "PUT",
+        path: `/api/entities/${encodeURIComponent(entityId)}`,
+        body,
+        contentType: "application/json",
+        responseType: "json",
+        options,
+      }),
+
+    /**
+     * Actualizar parcialmente una entidad
+     *
+     * `PATCH /api/entities/{entityId}`
+     */
+    patchEntity: (
+      entityId: string,
+      body: PatchEntityBody,
+      options?: RequestOptions
+    ): Promise<Entity> =>
+      request<Entity>({
+        method: "PATCH",
+        path: `/api/entities/${encodeURIComponent(entityId)}`,
+        body,
+        contentType: "application/json",
+        responseType: "json",
+        options,
+      }),
+
+    /**
+     * Eliminar una entidad
+     *
+     * `DELETE /api/entities/{entityId}`
+     */
+    deleteEntity: (
+      entityId: string,
+      query?: DeleteEntityQuery,
+      options?: RequestOptions
+    ): Promise<DeleteEntityResponse> =>
+      request<DeleteEntityResponse>({
+        method: "DELETE",
+        path: `/api/entities/${encodeURIComponent(entityId)}`,
+        query,
+        responseType: "json",
+        options,
+      }),
+
+    /**
+     * Obtener campos que son claves primarias de una entidad
+     *
+     * `GET /api/entities/{entityId}/primary-keys`
+     */
+    listEntityPrimaryKeys: (
+      entityId: string,
+      options?: RequestOptions
+    ): Promise<Field[]> =>
+      request<Field[]>({
+        method: "GET",
+        path: `/api/entities/${encodeURIComponent(entityId)}/primary-keys`,
+        responseType: "json",
+        options,
+      }),
+
+    /**
+     * Obtener campos que son claves foráneas de una entidad
+     *
+     * `GET /api/entities/{entityId}/foreign-keys`
+     */
+    listEntityForeignKeys: (
+      entityId: string,
+      options?: RequestOptions
+    ): Promise<ListEntityForeignKeysResponse> =>
+      request<ListEntityForeignKeysResponse>({
+        method: "GET",
+        path: `/api/entities/${encodeURIComponent(entityId)}/foreign-keys`,
+        responseType: "json",
+        options,
+      }),
+
+    /**
+     * Obtener campos de otras entidades que referencian a esta entidad
+     *
+     * `GET /api/entities/{entityId}/referenced-by`
+     */
+    listEntityReferences: (
+      entityId: string,
+      options?: RequestOptions
+    ): Promise<Field[]> =>
+      request<Field[]>({
+        method: "GET",
+        path: `/api/entities/${encodeURIComponent(entityId)}/referenced-by`,
+        responseType: "json",
+        options,
+      }),
+
+    /**
+     * Exportar una entidad como JSON Schema
+     *
+     * `GET /api/entities/{entityId}/export/json-schema`
+     */
+    exportEntityJsonSchema: (
+      entityId: string,
+      options?: RequestOptions
+    ): Promise<Record<string, unknown>> =>
+      request<Record<string, unknown>>({
+        method: "GET",
+        path: `/api/entities/${encodeURIComponent(entityId)}/export/json-schema`,
+        responseType: "json",
+        options,
+      }),
+
+    // Fields
+
+    /**
+     * Obtener todos los campos de una entidad
+     *
+     * `GET /api/entities/{entityId}/fields`
+     */
+    listEntityFields: (
+      entityId: string,
+      query?: ListEntityFieldsQuery,
+      options?: RequestOptions
+    ): Promise<ApiResponse<Field[]>> =>
+      request<ApiResponse<Field[]>>({
+        method: "GET",
+        path: `/api/entities/${encodeURIComponent(entityId)}/fields`,
+        query,
+        responseType: "json",
+        withHeaders: true,
+        options,
+      }),
+
+    /**
+     * Crear un nuevo campo para una entidad
+     *
+     * `POST /api/entities/{entityId}/fields`
+     */
+    createEntityField: (
+      entityId: string,
+      body: CreateEntityFieldBody,
+      query?: CreateEntityFieldQuery,
+      options?: RequestOptions
+    ): Promise<Field> =>
+      request<Field>({
+        method: "POST",
+        path: `/api/entities/${encodeURIComponent(entityId)}/fields`,
+        query,
+        body,
+        contentType: "application/json",
+        responseType: "json",
+        options,
+      }),
+
+    /**
+     * Obtener todos los campos de una entidad dentro de un proyecto
+     *
+     * `GET /api/projects/{projectId}/entities/{entityId}/fields`
+     */
+    listProjectEntityFields: (
+      projectId: string,
+      entityId: string,
+      query?: ListProjectEntityFieldsQuery,
+      options?: RequestOptions
+    ): Promise<ApiResponse<Field[]>> =>
+      request<ApiResponse<Field[]>>({
+        method: "GET",
+        path: `/api/projects/${encodeURIComponent(projectId)}/entities/${encodeURIComponent(entityId)}/fields`,
+        query,
+        responseType: "json",
+        withHeaders: true,
+        options,
+      }),
+
+    /**
+     * Crear un nuevo campo para una entidad dentro de un proyecto
+     *
+     * `POST /api/projects/{projectId}/entities/{entityId}/fields`
+     */
+    createProjectEntityField: (
+      projectId: string,
+      entityId: string,
+      body: CreateProjectEntityFieldBody,
+      query?: CreateProjectEntityFieldQuery,
+      options?: RequestOptions
+    ): Promise<Field> =>
+      request<Field>({
+        method: "POST",
+        path: `/api/projects/${encodeURIComponent(projectId)}/entities/${encodeURIComponent(entityId)}/fields`,
+        query,
+        body,
+        contentType: "application/json",
+        responseType: "json",
+        options,
+      }),
+
+    /**
+     * Obtener un campo específico
+     *
+     * `GET /api/fields/{fieldId}`
+     */
+    getField: (
+      fieldId: string,
+      options?: RequestOptions
+    ): Promise<Field> =>
+      request<Field>({
+        method: "GET",
+        path: `/api/fields/${encodeURIComponent(fieldId)}`,
+        responseType: "json",
+        options,
+      }),
+
+    /**
+     * Actualizar un campo
+     *
+     * `PUT /api/fields/{fieldId}`
+     */
+    updateField: (
+      fieldId: string,
+      body: UpdateFieldBody,
+      query?: UpdateFieldQuery,
+      options?: RequestOptions
+    ): Promise<Field> =>
+      request<Field>({
+        method: "PUT",
+        path: `/api/fields/${encodeURIComponent(fieldId)}`,
+        query,
+        body,
+        contentType: "application/json",
+        responseType: "json",
+        options,
+      }),
+
+    /**
+     * Eliminar un campo
+     *
+     * `DELETE /api/fields/{fieldId}`
+     */
+    deleteField: (
+      fieldId: string,
+      query?: DeleteFieldQuery,
+      options?: RequestOptions
+    ): Promise<void> =>
+      request<void>({
+        method: "DELETE",
+        path: `/api/fields/${encodeURIComponent(fieldId)}`,
+        query,
+        responseType: "json",
+        options,
+      }),
+
+    /**
+     * Actualizar un campo específico de una entidad dentro de un proyecto
+     *
+     * `PUT /api/projects/{projectId}/entities/{entityId}/fields/{fieldId}`
+     */
+    updateProjectEntityField: (
+      projectId: string,
+      entityId: string,
+      fieldId: string,
+      body: UpdateProjectEntityFieldBody,
+      query?: UpdateProjectEntityFieldQuery,
+      options?: RequestOptions
+    ): Promise<Field> =>
+      request<Field>({
+        method: "PUT",
+        path: `/api/projects/${encodeURIComponent(projectId)}/entities/${encodeURIComponent(entityId)}/fields/${encodeURIComponent(fieldId)}`,
+        query,
+        body,
+        contentType: "application/json",
+        responseType: "json",
+        options,
+      }),
+
+    /**
+     * Eliminar un campo específico de una entidad dentro de un proyecto
+     *
+     * `DELETE /api/projects/{projectId}/entities/{entityId}/fields/{fieldId}`
+     */
+    deleteProjectEntityField: (
+      projectId: string,
+      entityId: string,
+      fieldId: string,
+      query?: DeleteProjectEntityFieldQuery,
+      options?: RequestOptions
+    ): Promise<void> =>
+      request<void>({
+        method: "DELETE",
+        path: `/api/projects/${encodeURIComponent(projectId)}/entities/${encodeURIComponent(entityId)}/fields/${encodeURIComponent(fieldId)}`,
+        query,
+        responseType: "json",
+        options,
+      }),
+
+    // Files
+
+    /**
+     * Subir archivos
+     *
+     * `POST /api/files/upload`
+     */
+    uploadFiles: (
+      body: FormData,
+      options?: RequestOptions
+    ): Promise<FileUploadResult> =>
+      request<FileUploadResult>({
+        method: "POST",
+        path: "/api/files/upload",
+        body,
+        responseType: "json",
+        options,
+      }),
+
+    /**
+     * Subir imágenes
+     *
+     * `POST /api/files/upload/images`
+     */
+    uploadImages: (
+      body: FormData,
+      options?: RequestOptions
+    ): Promise<FileUploadResult> =>
+      request<FileUploadResult>({
+        method: "POST",
+        path: "/api/files/upload/images",
+        body,
+        responseType: "json",
+        options,
+      }),
+
+    /**
+     * Subir archivo desde Base64
+     *
+     * `POST /api/files/upload/base64`
+     */
+    uploadBase64File: (
+      body: UploadBase64FileBody,
+      options?: RequestOptions
+    ): Promise<UploadBase64FileResponse> =>
+      request<UploadBase64FileResponse>({
+        method: "POST",
+        path: "/api/files/upload/base64",
+        body,
+        contentType: "application/json",
+        responseType: "json",
+        options,
+      }),
+
+    /**
+     * Listar todos los archivos
+     *
+     * `GET /api/files`
+     */
+    listFiles: (
+      query?: ListFilesQuery,
+      options?: RequestOptions
+    ): Promise<ApiResponse<ListFilesResponse>> =>
+      request<ApiResponse<ListFilesResponse>>({
+        method: "GET",
+        path: "/api/files",
+        query,
+        responseType: "json",
+        withHeaders: true,
+        options,
+      }),
+
+    /**
+     * Obtener estadísticas de almacenamiento
+     *
+     * `GET /api/files/storage/stats`
+     */
+    getStorageStats: (
+      options?: RequestOptions
+    ): Promise<GetStorageStatsResponse> =>
+      request<GetStorageStatsResponse>({
+        method: "GET",
+        path: "/api/files/storage/stats",
+        responseType: "json",
+        options,
+      }),
+
+    /**
+     * Descargar archivo por ID
+     *
+     * `GET /api/files/{id}`
+     */
+    downloadFile: (
+      id: string,
+      query?: DownloadFileQuery,
+      options?: RequestOptions
+    ): Promise<Blob> =>
+      request<Blob>({
+        method: "GET",
+        path: `/api/files/${encodeURIComponent(id)}`,
+        query,
+        responseType: "blob",
+        options,
+      }),
+
+    /**
+     * Actualizar información de un archivo
+     *
+     * `PUT /api/files/{id}`
+     */
+    updateFile: (
+      id: string,
+      body: UpdateFileBody,
+      options?: RequestOptions
+    ): Promise<UpdateFileResponse> =>
+      request<UpdateFileResponse>({
+        method: "PUT",
+        path: `/api/files/${encodeURIComponent(id)}`,
+        body,
+        contentType: "application/json",
+        responseType: "json",
+        options,
+      }),
+
+    /**
+     * Eliminar archivo
+     *
+     * `DELETE /api/files/{id}`
+     */
+    deleteFile: (
+      id: string,
+      options?: RequestOptions
+    ): Promise<FileError> =>
+      request<FileError>({
+        method: "DELETE",
+        path: `/api/files/${encodeURIComponent(id)}`,
+        responseType: "json",
+        options,
+      }),
+
+    /**
+     * Obtener archivo como Base64
+     *
+     * `GET /api/files/{id}/base64`
+     */
+    getFileBase64: (
+      id: string,
+      query?: GetFileBase64Query,
+      options?: RequestOptions
+    ): Promise<GetFileBase64Response> =>
+      request<GetFileBase64Response>({
+        method: "GET",
+        path: `/api/files/${encodeURIComponent(id)}/base64`,
+        query,
+        responseType: "json",
+        options,
+      }),
+
+    /**
+     * Obtener archivos de un campo para un record
+     *
+     * `GET /api/files/field/{fieldId}/record/{recordId}`
+     */
+    listRecordFieldFiles: (
+      fieldId: string,
+      recordId: string,
+      options?: RequestOptions
+    ): Promise<ListRecordFieldFilesResponse> =>
+      request<ListRecordFieldFilesResponse>({
+        method: "GET",
+        path: `/api/files/field/${encodeURIComponent(fieldId)}/record/${encodeURIComponent(recordId)}`,
+        responseType: "json",
+        options,
+      }),
+
+    // Records
+
+    /**
+     * Ejecutar una consulta GraphQL sobre los registros de un proyecto
+     *
+     * `POST /api/projects/{projectId}/graphql`
+     */
+    executeProjectGraphql: (
+      projectId: string,
+      body: ExecuteProjectGraphqlBody,
+      options?: RequestOptions
+    ): Promise<ExecuteProjectGraphqlResponse> =>
+      request<ExecuteProjectGraphqlResponse>({
+        method: "POST",
+        path: `/api/projects/${encodeURIComponent(projectId)}/graphql`,
+        body,
+        contentType: "application/json",
+        responseType: "json",
+        options,
+      }),
+
+    /**
+     * Obtener el esquema GraphQL de un proyecto en SDL
+     *
+     * `GET /api/projects/{projectId}/graphql/schema.graphql`
+     */
+    getProjectGraphqlSchema: (
+      projectId: string,
+      options?: RequestOptions
+    ): Promise<string> =>
+      request<string>({
+        method: "GET",
+        path: `/api/projects/${encodeURIComponent(projectId)}/graphql/schema.graphql`,
+        responseType: "text",
+        options,
+      }),
+
+    /**
+     * Obtener todos los registros de una entidad
+     *
+     * `GET /api/projects/{projectId}/data/{entityName}`
+     */
+    listRecords: (
+      projectId: string,
+      entityName: string,
+      query?: ListRecordsQuery,
+      options?: RequestOptions
+    ): Promise<ApiResponse<DataRecord[]>> =>
+      request<ApiResponse<DataRecord[]>>({
+        method: "GET",
+        path: `/api/projects/${encodeURIComponent(projectId)}/data/${encodeURIComponent(entityName)}`,
+        query,
+        responseType: "json",
+        withHeaders: true,
+        options,
+      }),
+
+    /**
+     * Crear un nuevo registro de una entidad
+     *
+     * `POST /api/projects/{projectId}/data/{entityName}`
+     */
+    createRecord: (
+      projectId: string,
+      entityName: string,
+      body: Record<string, unknown>,
+      options?: RequestOptions
+    ): Promise<DataRecord> =>
+      request<DataRecord>({
+        method: "POST",
+        path: `/api/projects/${encodeURIComponent(projectId)}/data/${encodeURIComponent(entityName)}`,
+        body,
+        contentType: "application/json",
+        responseType: "json",
+        options,
+      }),
+
+    /**
+     * Validar los datos de un registro sin guardarlos
+     *
+     * `POST /api/projects/{projectId}/data/{entityName}/validate`
+     */
+    validateRecord: (
+      projectId: string,
+      entityName: string,
+      body: Record<string, unknown>,
+      query?: ValidateRecordQuery,
+      options?: RequestOptions
+    ): Promise<RecordValidationResult> =>
+      request<RecordValidationResult>({
+        method: "POST",
+        path: `/api/projects/${encodeURIComponent(projectId)}/data/${encodeURIComponent(entityName)}/validate`,
+        query,
+        body,
+        contentType: "application/json",
+        responseType: "json",
+        options,
+      }),
+
+    /**
+     * Obtener un registro específico de una entidad
+     *
+     * `GET /api/projects/{projectId}/data/{entityName}/{recordId}`
+     */
+    getRecord: (
+      projectId: string,
+      entityName: string,
+      recordId: string,
+      query?: GetRecordQuery,
+      options?: RequestOptions
+    ): Promise<DataRecord> =>
+      request<DataRecord>({
+        method: "GET",
+        path: `/api/projects/${encodeURIComponent(projectId)}/data/${encodeURIComponent(entityName)}/${encodeURIComponent(recordId)}`,
+        query,
+        responseType: "json",
+        options,
+      }),
+
+    /**
+     * Reemplazar un registro completo
+     *
+     * `PUT /api/projects/{projectId}/data/{entityName}/{recordId}`
+     */
+    updateRecord: (
+      projectId: string,
+      entityName: string,
+      recordId: string,
+      body: Record<string, unknown>,
+      options?: RequestOptions
+    ): Promise<DataRecord> =>
+      request<DataRecord>({
+        method: "PUT",
+        path: `/api/projects/${encodeURIComponent(projectId)}/data/${encodeURIComponent(entityName)}/${encodeURIComponent(recordId)}`,
+        body,
+        contentType: "application/json",
+        responseType: "json",
+        options,
+      }),
+
+    /**
+     * Actualizar parcialmente un registro
+     *
+     * `PATCH /api/projects/{projectId}/data/{entityName}/{recordId}`
+     */
+    patchRecord: (
+      projectId: string,
+      entityName: string,
+      recordId: string,
+      body: Record<string, unknown>,
+      options?: RequestOptions
+    ): Promise<DataRecord> =>
+      request<DataRecord>({
+        method: "PATCH",
+        path: `/api/projects/${encodeURIComponent(projectId)}/data/${encodeURIComponent(entityName)}/${encodeURIComponent(recordId)}`,
+        body,
+        contentType: "application/json",
+        responseType: "json",
+        options,
+      }),
+
+    /**
+     * Eliminar un registro
+     *
+     * `DELETE /api/projects/{projectId}/data/{entityName}/{recordId}`
+     */
+    deleteRecord: (
+      projectId: string,
+      entityName: string,
+      recordId: string,
+      options?: RequestOptions
+    ): Promise<void> =>
+      request<void>({
+        method: "DELETE",
+        path: `/api/projects/${encodeURIComponent(projectId)}/data/${encodeURIComponent(entityName)}/${encodeURIComponent(recordId)}`,
+        responseType: "json",
+        options,
+      }),
+
+    /**
+     * Vincular un registro con otros en una relación muchos a muchos
+     *
+     * `POST /api/projects/{projectId}/data/{entityName}/{recordId}/relations/{relationshipName}`
+     */
+    linkRecords: (
+      projectId: string,
+      entityName: string,
+      recordId: string,
+      relationshipName: string,
+      body: LinkRecordsBody,
+      options?: RequestOptions
+    ): Promise<LinkRecordsResponse> =>
+      request<LinkRecordsResponse>({
+        method: "POST",
+        path: `/api/projects/${encodeURIComponent(projectId)}/data/${encodeURIComponent(entityName)}/${encodeURIComponent(recordId)}/relations/${encodeURIComponent(relationshipName)}`,
+        body,
+        contentType: "application/json",
+        responseType: "json",
+        options,
+      }),
+
+    /**
+     * Desvincular un registro de otros en una relación muchos a muchos
+     *
+     * `DELETE /api/projects/{projectId}/data/{entityName}/{recordId}/relations/{relationshipName}`
+     */
+    unlinkRecords: (
+      projectId: string,
+      entityName: string,
+      recordId: string,
+      relationshipName: string,
+      body: UnlinkRecordsBody,
+      options?: RequestOptions
+    ): Promise<UnlinkRecordsResponse> =>
+      request<UnlinkRecordsResponse>({
+        method: "DELETE",
+        path: `/api/projects/${encodeURIComponent(projectId)}/data/${encodeURIComponent(entityName)}/${encodeURIComponent(recordId)}/relations/${encodeURIComponent(relationshipName)}`,
+        body,
+        contentType: "application/json",
+        responseType: "json",
+        options,
+      }),
+
+    // Entity Relationships
+
+    /**
+     * Obtener todas las relaciones entre entidades
+     *
+     * `GET /api/relationships`
+     */
+    listRelationships: (
+      query?: ListRelationshipsQuery,
+      options?: RequestOptions
+    ): Promise<ApiResponse<EntityRelationship[]>> =>
+      request<ApiResponse<EntityRelationship[]>>({
+        method: "GET",
+        path: "/api/relationships",
+        query,
+        responseType: "json",
+        withHeaders: true,
+        options,
+      }),
+
+    /**
+     * Crear una nueva relación entre entidades
+     *
+     * `POST /api/relationships`
+     */
+    createRelationship: (
+      body: CreateRelationshipBody,
+      options?: RequestOptions
+    ): Promise<EntityRelationship> =>
+      request<EntityRelationship>({
+        method: "POST",
+        path: "/api/relationships",
+        body,
+        contentType: "application/json",
+        responseType: "json",
+        options,
+      }),
+
+    /**
+     * Obtener una relación específica por ID
+     *
+     * `GET /api/relationships/{id}`
+     */
+    getRelationship: (
+      id: string,
+      options?: RequestOptions
+    ): Promise<EntityRelationship> =>
+      request<EntityRelationship>({
+        method: "GET",
+        path: `/api/relationships/${encodeURIComponent(id)}`,
+        responseType: "json",
+        options,
+      }),
+
+    /**
+     * Actualizar una relación existente
+     *
+     * `PUT /api/relationships/{id}`
+     */
+    updateRelationship: (
+      id: string,
+      body: UpdateRelationshipBody,
+      query?: UpdateRelationshipQuery,
+      options?: RequestOptions
+    ): Promise<EntityRelationship> =>
+      request<EntityRelationship>({
+        method: "PUT",
+        path: `/api/relationships/${encodeURIComponent(id)}`,
+        query,
+        body,
+        contentType: "application/json",
+        responseType: "json",
+        options,
+      }),
+
+    /**
+     * Eliminar una relación
+     *
+     * `DELETE /api/relationships/{id}`
+     */
+    deleteRelationship: (
+      id: string,
+      query?: DeleteRelationshipQuery,
+      options?: RequestOptions
+    ): Promise<void> =>
+      request<void>({
+        method: "DELETE",
+        path: `/api/relationships/${encodeURIComponent(id)}`,
+        query,
+        responseType: "json",
+        options,
+      }),
+
+    /**
+     * Obtener todas las relaciones de una entidad específica
+     *
+     * `GET /api/entities/{entityId}/relationships`
+     */
+    listEntityRelationships: (
+      entityId: string,
+      query?: ListEntityRelationshipsQuery,
+      options?: RequestOptions
+    ): Promise<ApiResponse<EntityRelationship[]>> =>
+      request<ApiResponse<EntityRelationship[]>>({
+        method: "GET",
+        path: `/api/entities/${encodeURIComponent(entityId)}/relationships`,
+        query,
+        responseType: "json",
+        withHeaders: true,
+        options,
+      }),
+
+    // Schema Versions
+
+    /**
+     * Obtener las versiones del esquema de un proyecto
+     *
+     * `GET /api/projects/{projectId}/versions`
+     */
+    listSchemaVersions: (
+      projectId: string,
+      query?: ListSchemaVersionsQuery,
+      options?: RequestOptions
+    ): Promise<ApiResponse<SchemaVersionSummary[]>> =>
+      request<ApiResponse<SchemaVersionSummary[]>>({
+        method: "GET",
+        path: `/api/projects/${encodeURIComponent(projectId)}/versions`,
+        query,
+        responseType: "json",
+        withHeaders: true,
+        options,
+      }),
+
+    /**
+     * Guardar el esquema actual del proyecto como versión
+     *
+     * `POST /api/projects/{projectId}/versions`
+     */
+    createSchemaVersion: (
+      projectId: string,
+      body?: CreateSchemaVersionBody,
+      options?: RequestOptions
+    ): Promise<SchemaVersion> =>
+      request<SchemaVersion>({
+        method: "POST",
+        path: `/api/projects/${encodeURIComponent(projectId)}/versions`,
+        body,
+        contentType: "application/json",
+        responseType: "json",
+        options,
+      }),
+
+    /**
+     * Obtener una versión del esquema de un proyecto
+     *
+     * `GET /api/projects/{projectId}/versions/{version}`
+     */
+    getSchemaVersion: (
+      projectId: string,
+      version: string,
+      options?: RequestOptions
+    ): Promise<SchemaVersion> =>
+      request<SchemaVersion>({
+        method: "GET",
+        path: `/api/projects/${encodeURIComponent(projectId)}/versions/${encodeURIComponent(version)}`,
+        responseType: "json",
+        options,
+      }),
+
+    /**
+     * Etiquetar una versión del esquema
+     *
+     * `PUT /api/projects/{projectId}/versions/{version}/tag`
+     */
+    tagSchemaVersion: (
+      projectId: string,
+      version: string,
+      body: TagSchemaVersionBody,
+      options?: RequestOptions
+    ): Promise<SchemaVersion> =>
+      request<SchemaVersion>({
+        method: "PUT",
+        path: `/api/projects/${encodeURIComponent(projectId)}/versions/${encodeURIComponent(version)}/tag`,
+        body,
+        contentType: "application/json",
+        responseType: "json",
+        options,
+      }),
+
+    /**
+     * Quitar la etiqueta de una versión del esquema
+     *
+     * `DELETE /api/projects/{projectId}/versions/{version}/tag`
+     */
+    untagSchemaVersion: (
+      projectId: string,
+      version: string,
+      options?: RequestOptions
+    ): Promise<SchemaVersion> =>
+      request<SchemaVersion>({
+        method: "DELETE",
+        path: `/api/projects/${encodeURIComponent(projectId)}/versions/${encodeURIComponent(version)}/tag`,
+        responseType: "json",
+        options,
+      }),
+  };
+};
+
+export type ApiClient = ReturnType<typeof createApiClient>;
@@ -0,0 +1,8 @@
+import { API_BASE_URL } from "../api/constants";
+import { createApiClient } from "./client";
+
+// Cliente generado desde la especificación OpenAPI del backend
+// (npm run sdk:generate en backend)
+export * from "./client";
+
+export const sdk = createApiClient({ baseUrl: API_BASE_URL });
@@ -2,6 +2,7 @@ import React, { useEffect, useState } from "react";
 import { useNavigate, useParams } from "react-router-dom";
 import EditEntity from "../components/forms/EditEntity";
 import LogsTerminal from "../components/LogsTerminal";
+import SchemaDiffViewer from "../components/SchemaDiffViewer";
 import { Button } from "../components/ui/button";
 import { useEntityStore, useProjectStore } from "../stores";
 import { Entity } from "../stores/entityStore";
@@ -29,7 +30,9 @@ const Home: React.FC = () => {
     name: "",
     description: "",
   });
-  const [activeTab, setActiveTab] = useState<"entities" | "logs">("entities");
+  const [activeTab, setActiveTab] = useState<"entities" | "diff" | "logs">(
+    "entities"
+  );
 
   const handleLogout = () => {
     navigate("/");
@@ -373,6 +376,29 @@ const Home: React.FC = () => {
               </svg>
               Entidades
             </button>
+            <button
+              onClick={() => setActiveTab("diff")}
+              className={`flex items-center px-4 py-2 rounded-md text-sm font-medium transition-colors ${
+                activeTab === "diff"
+                  ? "bg-background text-foreground shadow-sm"
+                  : "text-muted-foreground hover:text-foreground"
+              }`}
+            >
+              <svg
+                className="w-4 h-4 mr-2"
+                fill="none"
+                stroke="currentColor"
+                viewBox="0 0 24 24"
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M8 7h12m0 0l-4-4m4 4l-4 4m0 6H4m0 0l4 4m-4-4l4-4"
+                />
+              </svg>
+              Diferencias
+            </button>
             <button
               onClick={() => setActiveTab("logs")}
               className={`flex items-center px-4 py-2 rounded-md text-sm font-medium transition-colors ${
@@ -627,6 +653,22 @@ const Home: React.FC = () => {
                 ))}
               </div>
             )
+          ) : activeTab === "diff" ? (
+            // Schema Diff View
+            <div>
+              <div className="mb-6">
+                <h2 className="text-2xl font-bold text-foreground mb-2">
+                  Diferencias de esquema
+                </h2>
+                <p className="text-muted-foreground">
+                  Compara este proyecto con otro (por ejemplo, staging con
+                  producción) o con una versión anterior. Las entidades,
+                  campos y relaciones se emparejan por nombre.
+                </p>
+              </div>
+
+              {projectId && <SchemaDiffViewer projectId={projectId} />}
+            </div>
           ) : (
             // Logs View
             <div>